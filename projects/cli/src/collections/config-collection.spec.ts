@@ -44,6 +44,7 @@ describe('ConfigCollection', () => {
     const config = await configStorage.create({
       config: {
         $schema: 'test',
+        grpc: [],
         options: {
           durationSec: 10,
           headers: {},
@@ -69,6 +70,7 @@ describe('ConfigCollection', () => {
       executeTakeFirst: vi.fn().mockResolvedValue({
         config: JSON.stringify({
           $schema: 'test',
+          grpc: [],
           options: {
             durationSec: 10,
             headers: {},
@@ -149,7 +151,15 @@ describe('ConfigCollection', () => {
 
       await expect(
         configStorage.create({
-          config: { $schema: 'test', options: {} as never, requests: [] },
+          config: {
+            $schema: 'test',
+            grpc: [],
+            options: {} as never,
+            requests: [],
+            scenarios: [],
+            streams: [],
+            websockets: [],
+          },
           name: 'test',
         }),
       ).rejects.toThrow('Failed to create configuration: Database error');
@@ -167,7 +177,15 @@ describe('ConfigCollection', () => {
 
       await expect(
         configStorage.edit({
-          config: { $schema: 'test', options: {} as never, requests: [] },
+          config: {
+            $schema: 'test',
+            grpc: [],
+            options: {} as never,
+            requests: [],
+            scenarios: [],
+            streams: [],
+            websockets: [],
+          },
           id: 'nonexistent',
           name: 'new-name',
         }),
@@ -201,7 +219,15 @@ describe('ConfigCollection', () => {
 
       await expect(
         configStorage.edit({
-          config: { $schema: 'test', options: {} as never, requests: [] },
+          config: {
+            $schema: 'test',
+            grpc: [],
+            options: {} as never,
+            requests: [],
+            scenarios: [],
+            streams: [],
+            websockets: [],
+          },
           id: '1',
           name: 'new-name',
         }),
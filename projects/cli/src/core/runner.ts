@@ -1,6 +1,11 @@
 import { performance } from 'node:perf_hooks';
 import type { IRunnerEvents } from '@tressi/shared/cli';
-import type { ResponseSamples, TestSummary, TressiConfig } from '@tressi/shared/common';
+import type {
+  ResponseSamples,
+  TestRateChange,
+  TestSummary,
+  TressiConfig,
+} from '@tressi/shared/common';
 import EventEmitter from 'eventemitter3';
 
 import { WorkerPoolManager } from '../workers/worker-pool-manager';
@@ -13,6 +18,7 @@ export class Runner extends EventEmitter<IRunnerEvents> {
   private readonly _workerPool: WorkerPoolManager;
   private _startTime: number = 0;
   private _isCanceled: boolean = false;
+  private _testId?: string;
 
   /**
    * Creates a new CoreRunner instance.
@@ -68,6 +74,44 @@ export class Runner extends EventEmitter<IRunnerEvents> {
     await this._workerPool.stop();
   }
 
+  /**
+   * Pauses the test until it is resumed.
+   */
+  public pause(): void {
+    this._workerPool.pause();
+  }
+
+  /**
+   * Resumes a paused test.
+   */
+  public resume(): void {
+    this._workerPool.resume();
+  }
+
+  /**
+   * Changes the rate of the running test.
+   * @param change The rate multiplier and fixed RPS by request key or scenario name
+   */
+  public setRate(change: TestRateChange): void {
+    this._workerPool.setRate(change);
+  }
+
+  /**
+   * Stops a single endpoint until it is started again.
+   * @param endpointKey The key of the request or scenario step
+   */
+  public stopEndpoint(endpointKey: string): void {
+    this._workerPool.stopEndpoint(endpointKey);
+  }
+
+  /**
+   * Starts an endpoint that was stopped by hand.
+   * @param endpointKey The key of the request or scenario step
+   */
+  public startEndpoint(endpointKey: string): void {
+    this._workerPool.startEndpoint(endpointKey);
+  }
+
   /**
    * Checks if the test was manually stopped.
    * @returns True if the test was stopped, false otherwise
@@ -131,7 +175,22 @@ export class Runner extends EventEmitter<IRunnerEvents> {
     this._workerPool.cleanupResponseSamples();
   }
 
+  /**
+   * Clean up error log entries for this run.
+   */
+  public cleanupErrors(): void {
+    this._workerPool.cleanupErrors();
+  }
+
   public setTestId(testId: string): void {
+    this._testId = testId;
     this._workerPool.setTestId(testId);
   }
+
+  /**
+   * Gets the ID of the persisted test, set only for tests started from the server.
+   */
+  public getTestId(): string | undefined {
+    return this._testId;
+  }
 }
@@ -69,10 +69,50 @@ describe('test-executor', () => {
     expect(runnerMock.cancel).toHaveBeenCalled();
   });
 
+  it('should pause, resume and change the rate of the running load test', async () => {
+    const mockConfig = { options: {} } as unknown as TressiConfig;
+
+    testExecutor.runLoadTest(mockConfig, undefined, true);
+
+    expect(testExecutor.pauseLoadTest()).toBe(true);
+    expect(testExecutor.resumeLoadTest()).toBe(true);
+    expect(testExecutor.setLoadTestRate({ multiplier: 2 })).toBe(true);
+
+    const runnerMock = vi.mocked(Runner.prototype);
+    expect(runnerMock.pause).toHaveBeenCalled();
+    expect(runnerMock.resume).toHaveBeenCalled();
+    expect(runnerMock.setRate).toHaveBeenCalledWith({ multiplier: 2 });
+
+    await testExecutor.stopLoadTest();
+
+    expect(testExecutor.pauseLoadTest()).toBe(false);
+    expect(testExecutor.resumeLoadTest()).toBe(false);
+    expect(testExecutor.setLoadTestRate({ multiplier: 2 })).toBe(false);
+  });
+
+  it('should stop and start endpoints of the running load test', async () => {
+    const mockConfig = { options: {} } as unknown as TressiConfig;
+
+    testExecutor.runLoadTest(mockConfig, undefined, true);
+
+    expect(testExecutor.stopLoadTestEndpoint('GET /users')).toBe(true);
+    expect(testExecutor.startLoadTestEndpoint('GET /users')).toBe(true);
+
+    const runnerMock = vi.mocked(Runner.prototype);
+    expect(runnerMock.stopEndpoint).toHaveBeenCalledWith('GET /users');
+    expect(runnerMock.startEndpoint).toHaveBeenCalledWith('GET /users');
+
+    await testExecutor.stopLoadTest();
+
+    expect(testExecutor.stopLoadTestEndpoint('GET /users')).toBe(false);
+    expect(testExecutor.startLoadTestEndpoint('GET /users')).toBe(false);
+    expect(testExecutor.getActiveTestId()).toBeUndefined();
+  });
+
   it('should throw error when threshold is exceeded', async () => {
     const mockConfig = {
       options: { workerEarlyExit: { enabled: true, errorRateThreshold: 30 } },
-      requests: [{ url: 'http://test.com' }],
+      requests: [{ method: 'GET', url: 'http://test.com' }],
     } as unknown as TressiConfig;
 
     const runnerMock = vi.mocked(Runner.prototype);
@@ -81,6 +121,7 @@ describe('test-executor', () => {
       endpoints: [
         {
           errorRate: 0.5,
+          key: 'GET http://test.com',
           statusCodeDistribution: {},
           url: 'http://test.com',
         },
@@ -96,7 +137,7 @@ describe('test-executor', () => {
   it('should throw error when exit status code is detected', async () => {
     const mockConfig = {
       options: { workerEarlyExit: { enabled: true, exitStatusCodes: [500, 502] } },
-      requests: [{ url: 'http://test.com' }],
+      requests: [{ method: 'GET', url: 'http://test.com' }],
     } as unknown as TressiConfig;
 
     const runnerMock = vi.mocked(Runner.prototype);
@@ -105,6 +146,7 @@ describe('test-executor', () => {
       endpoints: [
         {
           errorRate: 0,
+          key: 'GET http://test.com',
           statusCodeDistribution: { 200: 10, 500: 2 },
           url: 'http://test.com',
         },
@@ -123,6 +165,7 @@ describe('test-executor', () => {
       requests: [
         {
           earlyExit: { enabled: true, errorRateThreshold: 80 },
+          method: 'GET',
           url: 'http://test.com',
         },
       ],
@@ -134,6 +177,7 @@ describe('test-executor', () => {
       endpoints: [
         {
           errorRate: 0.5,
+          key: 'GET http://test.com',
           statusCodeDistribution: {},
           url: 'http://test.com',
         },
@@ -149,7 +193,7 @@ describe('test-executor', () => {
   it('should handle non-matching endpoint in threshold check', async () => {
     const mockConfig = {
       options: { workerEarlyExit: { enabled: true, errorRateThreshold: 30 } },
-      requests: [{ url: 'http://test.com' }],
+      requests: [{ method: 'GET', url: 'http://test.com' }],
     } as unknown as TressiConfig;
 
     const runnerMock = vi.mocked(Runner.prototype);
@@ -158,6 +202,7 @@ describe('test-executor', () => {
       endpoints: [
         {
           errorRate: 0.9,
+          key: 'GET http://other.com',
           statusCodeDistribution: {},
           url: 'http://other.com', // Different URL - no matching request config
         },
@@ -170,6 +215,59 @@ describe('test-executor', () => {
     expect(result.isCanceled).toBe(false);
   });
 
+  it('should throw error when an SLO threshold is breached', async () => {
+    const mockConfig = {
+      options: {
+        thresholds: [{ metric: 'p95LatencyMs', operator: '<', value: 300 }],
+        workerEarlyExit: { enabled: false },
+      },
+      requests: [],
+    } as unknown as TressiConfig;
+
+    const runnerMock = vi.mocked(Runner.prototype);
+    runnerMock.getTestSummary.mockReturnValue({
+      configSnapshot: mockConfig,
+      endpoints: [],
+      global: { p95LatencyMs: 450 },
+    } as unknown as TestSummary);
+    runnerMock.isCanceled.mockReturnValue(false);
+
+    await expect(testExecutor.runLoadTest(mockConfig, undefined, true)).rejects.toThrow(
+      'Test failed: One or more SLO thresholds were breached.',
+    );
+  });
+
+  it('should attach threshold verdicts to the summary', async () => {
+    const mockConfig = {
+      options: {
+        thresholds: [{ metric: 'errorRate', operator: '<', value: 0.01 }],
+        workerEarlyExit: { enabled: false },
+      },
+      requests: [],
+    } as unknown as TressiConfig;
+
+    const runnerMock = vi.mocked(Runner.prototype);
+    runnerMock.getTestSummary.mockReturnValue({
+      configSnapshot: mockConfig,
+      endpoints: [],
+      global: { errorRate: 0 },
+    } as unknown as TestSummary);
+    runnerMock.isCanceled.mockReturnValue(false);
+
+    const result = await testExecutor.runLoadTest(mockConfig, undefined, true);
+
+    expect(result.summary.thresholds).toEqual([
+      {
+        actual: 0,
+        metric: 'errorRate',
+        operator: '<',
+        passed: true,
+        threshold: 0.01,
+        url: undefined,
+      },
+    ]);
+  });
+
   it('should start and stop TUI when enableTUI is true and silent is false', async () => {
     const mockConfig = {
       options: { workerEarlyExit: { enabled: false } },
@@ -201,12 +299,17 @@ describe('checkThresholds', () => {
       configSnapshot: {
         options: { workerEarlyExit: { enabled: true, errorRateThreshold: 50 } },
         requests: [
-          { earlyExit: { enabled: true, errorRateThreshold: 30 }, url: 'http://test.com' },
+          {
+            earlyExit: { enabled: true, errorRateThreshold: 30 },
+            method: 'GET',
+            url: 'http://test.com',
+          },
         ],
       },
       endpoints: [
         {
           errorRate: 0.1,
+          key: 'GET http://test.com',
           statusCodeDistribution: {},
           url: 'http://test.com',
         },
@@ -225,11 +328,12 @@ describe('checkThresholds', () => {
     const summary = {
       configSnapshot: {
         options: { workerEarlyExit: { enabled: true, errorRateThreshold: 50 } },
-        requests: [{ url: 'http://test.com' }],
+        requests: [{ method: 'GET', url: 'http://test.com' }],
       },
       endpoints: [
         {
           errorRate: 0.6,
+          key: 'GET http://test.com',
           statusCodeDistribution: {},
           url: 'http://test.com',
         },
@@ -237,7 +341,9 @@ describe('checkThresholds', () => {
     } as unknown as TestSummary;
 
     const endpoint = summary.endpoints[0];
-    const requestConfig = summary.configSnapshot.requests.find((r) => r.url === endpoint.url);
+    const requestConfig = summary.configSnapshot.requests.find(
+      (r) => `${r.method} ${r.url}` === endpoint.key,
+    );
     const earlyExit = requestConfig?.earlyExit ?? summary.configSnapshot.options.workerEarlyExit;
 
     if (
@@ -255,11 +361,12 @@ describe('checkThresholds', () => {
     const summary = {
       configSnapshot: {
         options: { workerEarlyExit: { enabled: true, exitStatusCodes: [500, 502] } },
-        requests: [{ url: 'http://test.com' }],
+        requests: [{ method: 'GET', url: 'http://test.com' }],
       },
       endpoints: [
         {
           errorRate: 0,
+          key: 'GET http://test.com',
           statusCodeDistribution: { 200: 10, 500: 2 },
           url: 'http://test.com',
         },
@@ -281,11 +388,12 @@ describe('checkThresholds', () => {
     const summary = {
       configSnapshot: {
         options: { workerEarlyExit: { enabled: true, errorRateThreshold: 20 } },
-        requests: [{ url: 'http://test.com' }],
+        requests: [{ method: 'GET', url: 'http://test.com' }],
       },
       endpoints: [
         {
           errorRate: 0.25,
+          key: 'GET http://test.com',
           statusCodeDistribution: {},
           url: 'http://test.com',
         },
@@ -293,7 +401,9 @@ describe('checkThresholds', () => {
     } as unknown as TestSummary;
 
     const endpoint = summary.endpoints[0];
-    const requestConfig = summary.configSnapshot.requests.find((r) => r.url === endpoint.url);
+    const requestConfig = summary.configSnapshot.requests.find(
+      (r) => `${r.method} ${r.url}` === endpoint.key,
+    );
     const earlyExit =
       requestConfig?.earlyExit !== undefined
         ? requestConfig.earlyExit
@@ -1,10 +1,13 @@
 import path from 'node:path';
-import type {
-  LoadTestOptions,
-  LoadTestResult,
-  TestSummary,
-  TressiConfig,
-  TressiEarlyExitConfig,
+import {
+  getConfigEndpoints,
+  getEndpointKey,
+  type LoadTestOptions,
+  type LoadTestResult,
+  type TestRateChange,
+  type TestSummary,
+  type TressiConfig,
+  type TressiEarlyExitConfig,
 } from '@tressi/shared/common';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -12,6 +15,7 @@ import ora from 'ora';
 import { JsonExporter } from '../reporting/exporters/json-exporter';
 import { MarkdownExporter } from '../reporting/exporters/markdown-exporter';
 import { XlsxExporter } from '../reporting/exporters/xlsx-exporter';
+import { evaluateThresholds } from '../reporting/utils/thresholds';
 import { printSummary } from '../tui/cli-output';
 import { MinimalTUI } from '../tui/minimal-tui';
 import { FileUtils } from '../utils/file-utils';
@@ -81,6 +85,9 @@ async function executeLoadTest(
     endpoint.earlyExitTriggered = earlyExitTriggered;
   }
 
+  // Evaluate SLO thresholds so the verdicts are exported and persisted with the summary
+  summary.thresholds = evaluateThresholds(summary);
+
   // Handle export and printing only for CLI
   if (options.exportPath) {
     await handleCLIExport(summary, options.exportPath, options.silent);
@@ -91,12 +98,17 @@ async function executeLoadTest(
   }
 
   runner.cleanupResponseSamples();
+  runner.cleanupErrors();
 
   // Check for threshold violations in CLI mode
   if (options.setupSignalHandlers && checkThresholds(summary)) {
     throw new Error('Test failed: One or more error thresholds were exceeded.');
   }
 
+  if (options.setupSignalHandlers && summary.thresholds.some((verdict) => !verdict.passed)) {
+    throw new Error('Test failed: One or more SLO thresholds were breached.');
+  }
+
   return { earlyExitTriggered, isCanceled, summary };
 }
 
@@ -108,7 +120,9 @@ function checkThresholds(summary: TestSummary): boolean {
   const globalExitConfig = configSnapshot.options.workerEarlyExit;
 
   for (const endpoint of endpoints) {
-    const requestConfig = configSnapshot.requests.find((r) => r.url === endpoint.url);
+    const requestConfig = getConfigEndpoints(configSnapshot).find(
+      (r) => getEndpointKey(r) === endpoint.key,
+    );
     if (!requestConfig) continue;
 
     const earlyExit = requestConfig.earlyExit ?? globalExitConfig;
@@ -248,3 +262,64 @@ export async function stopLoadTest(): Promise<void> {
     activeRunner = null;
   }
 }
+
+/**
+ * Pauses the currently active load test.
+ * @returns False when no load test is running
+ */
+export function pauseLoadTest(): boolean {
+  if (!activeRunner) return false;
+  activeRunner.pause();
+  return true;
+}
+
+/**
+ * Resumes the currently active load test.
+ * @returns False when no load test is running
+ */
+export function resumeLoadTest(): boolean {
+  if (!activeRunner) return false;
+  activeRunner.resume();
+  return true;
+}
+
+/**
+ * Changes the rate of the currently active load test.
+ * @returns False when no load test is running
+ * @throws Error when the change does not apply to the running test
+ */
+export function setLoadTestRate(change: TestRateChange): boolean {
+  if (!activeRunner) return false;
+  activeRunner.setRate(change);
+  return true;
+}
+
+/**
+ * Gets the ID of the currently active load test.
+ * @returns Undefined when no load test started from the server is running
+ */
+export function getActiveTestId(): string | undefined {
+  return activeRunner?.getTestId();
+}
+
+/**
+ * Stops a single endpoint of the currently active load test until it is started again.
+ * @returns False when no load test is running
+ * @throws Error when the key does not match any endpoint
+ */
+export function stopLoadTestEndpoint(endpointKey: string): boolean {
+  if (!activeRunner) return false;
+  activeRunner.stopEndpoint(endpointKey);
+  return true;
+}
+
+/**
+ * Starts an endpoint of the currently active load test that was stopped by hand.
+ * @returns False when no load test is running
+ * @throws Error when the key does not match any endpoint or it was not stopped by hand
+ */
+export function startLoadTestEndpoint(endpointKey: string): boolean {
+  if (!activeRunner) return false;
+  activeRunner.startEndpoint(endpointKey);
+  return true;
+}
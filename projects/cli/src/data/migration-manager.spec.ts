@@ -231,7 +231,7 @@ describe('MigrationManager', () => {
   });
 
   describe('MIGRATIONS registry', () => {
-    it('should have continuous version range from 0.0.13 to 0.0.20', () => {
+    it('should have continuous version range from 0.0.13 to 0.0.21', () => {
       const versions = Object.keys(MIGRATIONS).sort((a, b) => a.localeCompare(b));
       const expected = [
         '0.0.13',
@@ -242,6 +242,7 @@ describe('MigrationManager', () => {
         '0.0.18',
         '0.0.19',
         '0.0.20',
+        '0.0.21',
       ];
       expect(versions).toEqual(expected);
     });
@@ -287,7 +288,7 @@ describe('MigrationManager', () => {
         config = migration.config.up(config);
       }
 
-      expect(config.$schema).toContain('v0.0.20');
+      expect(config.$schema).toContain('v0.0.21');
       expect(config.$schema).toContain('tressi.schema');
     });
   });
@@ -641,7 +642,7 @@ describe('MigrationManager', () => {
         {
           config: {
             $schema:
-              'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.20.json',
+              'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.21.json',
           },
           epoch_created_at: 0,
           epoch_updated_at: 0,
@@ -732,7 +733,7 @@ describe('MigrationManager', () => {
           select: vi.fn().mockReturnValue({
             orderBy: vi.fn().mockReturnValue({
               limit: vi.fn().mockReturnValue({
-                executeTakeFirst: vi.fn().mockResolvedValue({ version: '0.0.20' }),
+                executeTakeFirst: vi.fn().mockResolvedValue({ version: '0.0.21' }),
               }),
             }),
           }),
@@ -752,7 +753,7 @@ describe('MigrationManager', () => {
 
       expect(result.db).toHaveLength(0);
       expect(result.config).toHaveLength(0);
-      expect(result.currentVersion).toBe('0.0.20');
+      expect(result.currentVersion).toBe('0.0.21');
     });
 
     it('should return pending migrations when current version is lower', async () => {
@@ -827,7 +828,7 @@ describe('MigrationManager', () => {
       vi.spyOn(MigrationManager, 'getVersion').mockImplementation((url) => {
         if (url?.includes('v0.0.12')) return '0.0.12';
         if (url?.includes('v0.0.13')) return '0.0.13';
-        return '0.0.20';
+        return '0.0.21';
       });
 
       expect(() =>
@@ -932,7 +933,7 @@ describe('MigrationManager', () => {
       vi.mocked(fs.readFile).mockResolvedValue(
         JSON.stringify({
           $schema:
-            'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.20.json',
+            'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.21.json',
         }),
       );
 
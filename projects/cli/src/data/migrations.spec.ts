@@ -300,6 +300,154 @@ describe('MIGRATIONS.db', () => {
   });
 });
 
+describe('0.0.21', () => {
+  it('should update $schema to 0.0.21', () => {
+    const config = {
+      $schema:
+        'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.20.json',
+      requests: [{ method: 'GET', url: 'http://example.com' }],
+    };
+
+    const result = MIGRATIONS['0.0.21'].config.up(config);
+
+    expect(result.$schema).toContain('v0.0.21');
+    expect(result.requests).toEqual(config.requests);
+  });
+
+  it('should keep payloads of bodyless methods from being sent', () => {
+    const config = {
+      $schema:
+        'https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v0.0.20.json',
+      requests: [
+        { method: 'GET', payload: { q: 'x' }, url: 'http://example.com' },
+        { method: 'DELETE', payload: {}, url: 'http://example.com' },
+        { method: 'POST', payload: { q: 'x' }, url: 'http://example.com' },
+      ],
+      scenarios: [{ name: 'browse', steps: [{ method: 'GET', payload: 'x', url: '/items' }] }],
+    };
+
+    const result = MIGRATIONS['0.0.21'].config.up(config) as typeof config;
+
+    expect(result.requests[0]).toHaveProperty('sendBody', false);
+    expect(result.requests[1]).not.toHaveProperty('sendBody');
+    expect(result.requests[2]).not.toHaveProperty('sendBody');
+    expect(result.scenarios[0].steps[0]).toHaveProperty('sendBody', false);
+  });
+
+  it('should add endpoint keys, error counts and error logs and point threshold verdicts at the keys', async () => {
+    const summary = {
+      endpoints: [
+        { method: 'POST', url: 'http://example.com/login' },
+        { method: 'GET', scenario: 'checkout', url: 'http://example.com/cart' },
+      ],
+      thresholds: [
+        { metric: 'errorRate', url: 'http://example.com/login' },
+        { metric: 'p95LatencyMs' },
+      ],
+    };
+    const execute = vi.fn().mockResolvedValue(undefined);
+    const set = vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ execute }) });
+    const mockDb = {
+      selectFrom: vi.fn((table: string) => ({
+        selectAll: () => ({
+          execute: async () =>
+            table === 'tests' ? [{ id: 'test-1', summary: JSON.stringify(summary) }] : [],
+        }),
+      })),
+      updateTable: vi.fn().mockReturnValue({ set }),
+    } as unknown as Kysely<Database>;
+
+    await MIGRATIONS['0.0.21'].db.up(mockDb);
+
+    expect(JSON.parse(set.mock.calls[0][0].summary)).toEqual({
+      endpoints: [
+        {
+          correctedP50LatencyMs: 0,
+          correctedP95LatencyMs: 0,
+          correctedP99LatencyMs: 0,
+          droppedRequests: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          errors: [],
+          key: 'POST http://example.com/login',
+          lateRequests: 0,
+          method: 'POST',
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          url: 'http://example.com/login',
+        },
+        {
+          correctedP50LatencyMs: 0,
+          correctedP95LatencyMs: 0,
+          correctedP99LatencyMs: 0,
+          droppedRequests: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          errors: [],
+          key: 'checkout › GET http://example.com/cart',
+          lateRequests: 0,
+          method: 'GET',
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          scenario: 'checkout',
+          url: 'http://example.com/cart',
+        },
+      ],
+      thresholds: [
+        { endpoint: 'POST http://example.com/login', metric: 'errorRate' },
+        { metric: 'p95LatencyMs' },
+      ],
+    });
+  });
+
+  it('should report the measured latencies as corrected for stored metrics', async () => {
+    const metric = {
+      endpoints: [
+        {
+          key: 'GET http://example.com',
+          p50LatencyMs: 10,
+          p95LatencyMs: 20,
+          p99LatencyMs: 30,
+          totalRequests: 40,
+        },
+      ],
+      global: { activeVus: 0, p50LatencyMs: 10, p95LatencyMs: 20, p99LatencyMs: 30 },
+    };
+    const execute = vi.fn().mockResolvedValue(undefined);
+    const set = vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ execute }) });
+    const mockDb = {
+      selectFrom: vi.fn((table: string) => ({
+        selectAll: () => ({
+          execute: async () =>
+            table === 'metrics' ? [{ id: 'metric-1', metric: JSON.stringify(metric) }] : [],
+        }),
+      })),
+      updateTable: vi.fn().mockReturnValue({ set }),
+    } as unknown as Kysely<Database>;
+
+    await MIGRATIONS['0.0.21'].db.up(mockDb);
+
+    const migrated = JSON.parse(set.mock.calls[0][0].metric);
+    const expected = {
+      correctedP50LatencyMs: 10,
+      correctedP95LatencyMs: 20,
+      correctedP99LatencyMs: 30,
+      droppedRequests: 0,
+      lateRequests: 0,
+    };
+    expect(migrated.global).toMatchObject({
+      ...expected,
+      eventLoopLagMs: 0,
+      generatorSaturated: false,
+      heapUsedMB: 0,
+      inFlightRequests: 0,
+      workerEventLoopLagMs: [],
+      workerHeapUsedMB: [],
+      workerInFlightRequests: [],
+    });
+    expect(migrated.endpoints[0]).toMatchObject({
+      ...expected,
+      protocolCounts: { h2: 0, h2c: 0, http1: 40 },
+    });
+  });
+});
+
 describe('dropColumnIfExists', () => {
   it('should not drop column if it does not exist', async () => {
     const mockExecute = vi.fn().mockResolvedValue([{ name: 'other_column' }]);
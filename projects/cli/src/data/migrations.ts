@@ -6,6 +6,7 @@ import { migration_0_0_17 } from './migrations/migration_0_0_17';
 import { migration_0_0_18 } from './migrations/migration_0_0_18';
 import { migration_0_0_19 } from './migrations/migration_0_0_19';
 import { migration_0_0_20 } from './migrations/migration_0_0_20';
+import { migration_0_0_21 } from './migrations/migration_0_0_21';
 import type { Migration } from './migrations/migration-utils';
 
 export type { Migration } from './migrations/migration-utils';
@@ -19,4 +20,5 @@ export const MIGRATIONS: Record<string, Migration> = {
   [migration_0_0_18.config.version]: migration_0_0_18,
   [migration_0_0_19.config.version]: migration_0_0_19,
   [migration_0_0_20.config.version]: migration_0_0_20,
+  [migration_0_0_21.config.version]: migration_0_0_21,
 };
@@ -0,0 +1,211 @@
+import type { Database, VersionedTressiConfig } from '@tressi/shared/cli';
+import type { TressiConfig } from '@tressi/shared/common';
+import type { Kysely } from 'kysely';
+import { createMigration, type Migration } from './migration-utils';
+
+type StoredRequest = { method?: string; payload?: unknown; sendBody?: boolean };
+type StoredEndpoint = {
+  errorCounts?: Record<string, number>;
+  errors?: unknown[];
+  key?: string;
+  method?: string;
+  protocolCounts?: Record<string, number>;
+  scenario?: string;
+  totalRequests?: number;
+  url?: string;
+};
+type StoredVerdict = { endpoint?: string; url?: string };
+type StoredLatencySummary = {
+  correctedP50LatencyMs?: number;
+  correctedP95LatencyMs?: number;
+  correctedP99LatencyMs?: number;
+  droppedRequests?: number;
+  lateRequests?: number;
+  p50LatencyMs?: number;
+  p95LatencyMs?: number;
+  p99LatencyMs?: number;
+};
+
+/**
+ * Keys stored endpoints the way `getEndpointKey` does and points threshold verdicts at those keys.
+ * Before 0.0.21 endpoint URLs were unique, so the URL identifies the endpoint a verdict belongs to.
+ */
+const addEndpointKeys = (data: { endpoints?: unknown; thresholds?: unknown }): void => {
+  if (!Array.isArray(data.endpoints)) return;
+
+  const endpoints = data.endpoints as StoredEndpoint[];
+  for (const endpoint of endpoints) {
+    if (endpoint.key) continue;
+    const key = `${endpoint.method ?? 'GET'} ${endpoint.url}`;
+    endpoint.key = endpoint.scenario ? `${endpoint.scenario} › ${key}` : key;
+  }
+
+  if (!Array.isArray(data.thresholds)) return;
+
+  for (const verdict of data.thresholds as StoredVerdict[]) {
+    if (verdict.url === undefined) continue;
+    verdict.endpoint = endpoints.find((e) => e.url === verdict.url)?.key ?? verdict.url;
+    delete verdict.url;
+  }
+};
+
+/**
+ * Network errors were not categorized or logged before 0.0.21, so stored endpoints start
+ * with zero counts and an empty error log.
+ */
+const addErrorCounts = (data: { endpoints?: unknown }): void => {
+  if (!Array.isArray(data.endpoints)) return;
+
+  for (const endpoint of data.endpoints as StoredEndpoint[]) {
+    endpoint.errorCounts ??= { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 };
+    endpoint.errors ??= [];
+  }
+};
+
+/**
+ * Requests were only sent over HTTP/1.1 before 0.0.21, so stored endpoints count every request
+ * as an HTTP/1.1 request.
+ */
+const addProtocolCounts = (data: { endpoints?: unknown }): void => {
+  if (!Array.isArray(data.endpoints)) return;
+
+  for (const endpoint of data.endpoints as StoredEndpoint[]) {
+    endpoint.protocolCounts ??= { h2: 0, h2c: 0, http1: endpoint.totalRequests ?? 0 };
+  }
+};
+
+/**
+ * Virtual users did not exist before 0.0.21, so stored global summaries report none.
+ */
+const addActiveVus = (data: { global?: unknown }): void => {
+  if (!data.global || typeof data.global !== 'object') return;
+  (data.global as { activeVus?: number }).activeVus ??= 0;
+};
+
+/**
+ * Requests in flight were not tracked before 0.0.21, so stored global summaries report none.
+ */
+const addInFlightRequests = (data: { global?: unknown }): void => {
+  if (!data.global || typeof data.global !== 'object') return;
+  const global = data.global as { inFlightRequests?: number; workerInFlightRequests?: number[] };
+  global.inFlightRequests ??= 0;
+  global.workerInFlightRequests ??= [];
+};
+
+/**
+ * Workers did not report their health before 0.0.21, so stored global summaries report no
+ * event loop lag, no heap usage and an unsaturated generator.
+ */
+const addGeneratorHealth = (data: { global?: unknown }): void => {
+  if (!data.global || typeof data.global !== 'object') return;
+  const global = data.global as {
+    eventLoopLagMs?: number;
+    generatorSaturated?: boolean;
+    heapUsedMB?: number;
+    workerEventLoopLagMs?: number[];
+    workerHeapUsedMB?: number[];
+  };
+  global.eventLoopLagMs ??= 0;
+  global.workerEventLoopLagMs ??= [];
+  global.heapUsedMB ??= 0;
+  global.workerHeapUsedMB ??= [];
+  global.generatorSaturated ??= false;
+};
+
+/**
+ * Requests were not scheduled before 0.0.21, so stored global and endpoint summaries report their
+ * measured latencies as corrected ones and no dropped or late requests.
+ */
+const addScheduleMetrics = (data: { endpoints?: unknown; global?: unknown }): void => {
+  const summaries = [data.global, ...(Array.isArray(data.endpoints) ? data.endpoints : [])];
+
+  for (const summary of summaries as (StoredLatencySummary | undefined)[]) {
+    if (!summary || typeof summary !== 'object') continue;
+    summary.correctedP50LatencyMs ??= summary.p50LatencyMs ?? 0;
+    summary.correctedP95LatencyMs ??= summary.p95LatencyMs ?? 0;
+    summary.correctedP99LatencyMs ??= summary.p99LatencyMs ?? 0;
+    summary.droppedRequests ??= 0;
+    summary.lateRequests ??= 0;
+  }
+};
+
+/**
+ * Before 0.0.21 only POST, PUT and PATCH sent their payload. Requests of other methods that
+ * carry a payload opt out explicitly so they keep sending no body.
+ */
+const keepBodylessMethods = <T extends StoredRequest>(request: T): T => {
+  const method = (request.method ?? 'GET').toUpperCase();
+  const { payload } = request;
+  const hasPayload =
+    typeof payload === 'string'
+      ? payload.trim().length > 0
+      : typeof payload === 'object' && payload !== null && Object.keys(payload).length > 0;
+
+  if (['POST', 'PUT', 'PATCH'].includes(method) || !hasPayload) return request;
+  return { ...request, sendBody: false };
+};
+
+export const migration_0_0_21: Migration = createMigration(
+  '0.0.21',
+  'Key endpoints by name or method and URL. Backfill new summary metrics. Keep bodyless methods without a body.',
+  {
+    configUp: (config: VersionedTressiConfig): VersionedTressiConfig => {
+      const data = config as TressiConfig;
+
+      return {
+        ...data,
+        $schema: config.$schema.replace(/\d+\.\d+\.\d+/, '0.0.21'),
+        requests: data.requests?.map(keepBodylessMethods),
+        scenarios: data.scenarios?.map((scenario) => ({
+          ...scenario,
+          steps: scenario.steps?.map(keepBodylessMethods),
+        })),
+      };
+    },
+    dbUp: async (db: Kysely<Database>) => {
+      const tests = await db.selectFrom('tests').selectAll().execute();
+      for (const test of tests) {
+        if (!test.summary) continue;
+        try {
+          const data = JSON.parse(test.summary);
+          addEndpointKeys(data);
+          addErrorCounts(data);
+          addProtocolCounts(data);
+          addActiveVus(data);
+          addInFlightRequests(data);
+          addGeneratorHealth(data);
+          addScheduleMetrics(data);
+          await db
+            .updateTable('tests')
+            .set({ summary: JSON.stringify(data) })
+            .where('id', '=', test.id)
+            .execute();
+        } catch {
+          // Skip rows with invalid JSON
+        }
+      }
+
+      const metrics = await db.selectFrom('metrics').selectAll().execute();
+      for (const metric of metrics) {
+        if (!metric.metric) continue;
+        try {
+          const data = JSON.parse(metric.metric);
+          addEndpointKeys(data);
+          addErrorCounts(data);
+          addProtocolCounts(data);
+          addActiveVus(data);
+          addInFlightRequests(data);
+          addGeneratorHealth(data);
+          addScheduleMetrics(data);
+          await db
+            .updateTable('metrics')
+            .set({ metric: JSON.stringify(data) })
+            .where('id', '=', metric.id)
+            .execute();
+        } catch {
+          // Skip rows with invalid JSON
+        }
+      }
+    },
+  },
+);
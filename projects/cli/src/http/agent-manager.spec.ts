@@ -1,8 +1,9 @@
 import type { AgentConfig } from '@tressi/shared/common';
 import { Agent } from 'undici';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { AgentManager, globalAgentManager } from './agent-manager';
+import { globalRequestTimingTracker } from './request-timing';
 
 describe('AgentManager', () => {
   let manager: AgentManager;
@@ -32,6 +33,15 @@ describe('AgentManager', () => {
       expect(agent1).not.toBe(agent2);
     });
 
+    it('should create separate agents for different connect timeouts on the same origin', () => {
+      const agent1 = manager.getAgent('http://example.com/a', { connectTimeout: 1000 });
+      const agent2 = manager.getAgent('http://example.com/b', { connectTimeout: 1000 });
+      const agent3 = manager.getAgent('http://example.com/a', { connectTimeout: 5000 });
+
+      expect(agent1).toBe(agent2);
+      expect(agent1).not.toBe(agent3);
+    });
+
     it('should handle HTTPS URLs', () => {
       const agent = manager.getAgent('https://example.com');
       expect(agent).toBeDefined();
@@ -52,6 +62,122 @@ describe('AgentManager', () => {
     });
   });
 
+  describe('TLS options', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should connect to HTTPS origins with their own or the global TLS options', () => {
+      const createConnector = vi.spyOn(globalRequestTimingTracker, 'createConnector');
+      manager.setTlsOptions({
+        global: { ca: 'global-ca' },
+        origins: { 'https://internal.example.com:8443': { rejectUnauthorized: false } },
+      });
+
+      manager.getAgent('https://internal.example.com:8443/health', { connectTimeout: 1000 });
+      manager.getAgent('https://example.com/health', { connectTimeout: 1000 });
+
+      expect(createConnector).toHaveBeenNthCalledWith(1, {
+        rejectUnauthorized: false,
+        timeout: 1000,
+      });
+      expect(createConnector).toHaveBeenNthCalledWith(2, { ca: 'global-ca', timeout: 1000 });
+    });
+
+    it('should not apply TLS options to plain HTTP origins', () => {
+      const createConnector = vi.spyOn(globalRequestTimingTracker, 'createConnector');
+      manager.setTlsOptions({ global: { ca: 'global-ca' }, origins: {} });
+
+      manager.getAgent('http://example.com', { connectTimeout: 1000 });
+
+      expect(createConnector).toHaveBeenCalledWith({ timeout: 1000 });
+    });
+
+    it('should return the TLS options of the origin of a URL', () => {
+      manager.setTlsOptions({
+        global: { ca: 'global-ca' },
+        origins: { 'https://internal.example.com:8443': { rejectUnauthorized: false } },
+      });
+
+      expect(manager.getTlsOptions('https://internal.example.com:8443')).toEqual({
+        rejectUnauthorized: false,
+      });
+      expect(manager.getTlsOptions('https://example.com')).toEqual({ ca: 'global-ca' });
+      expect(manager.getTlsOptions('http://example.com')).toBeUndefined();
+    });
+  });
+
+  describe('getWebSocketAgent', () => {
+    it('should share one agent per origin apart from the HTTP agents', () => {
+      const agent1 = manager.getWebSocketAgent('wss://stream.example.com/a');
+      const agent2 = manager.getWebSocketAgent('wss://stream.example.com/b');
+      const httpAgent = manager.getAgent('https://stream.example.com/a');
+
+      expect(agent1).toBeInstanceOf(Agent);
+      expect(agent1).toBe(agent2);
+      expect(agent1).not.toBe(httpAgent);
+      expect(manager.getWebSocketAgent('ws://stream.example.com/a')).not.toBe(agent1);
+    });
+
+    it('should open connections without timing or HTTP/2', () => {
+      const createConnector = vi.spyOn(globalRequestTimingTracker, 'createConnector');
+      manager.setHttpOptions({ maxConcurrentStreams: 100, origins: {}, protocol: 'h2' });
+
+      manager.getWebSocketAgent('wss://stream.example.com/a');
+
+      expect(createConnector).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('getStreamAgent', () => {
+    it('should share one agent per origin apart from the HTTP and WebSocket agents', () => {
+      const agent1 = manager.getStreamAgent('https://feed.example.com/a');
+      const agent2 = manager.getStreamAgent('https://feed.example.com/b');
+
+      expect(agent1).toBeInstanceOf(Agent);
+      expect(agent1).toBe(agent2);
+      expect(agent1).not.toBe(manager.getAgent('https://feed.example.com/a'));
+      expect(agent1).not.toBe(manager.getWebSocketAgent('wss://feed.example.com/a'));
+    });
+  });
+
+  describe('HTTP protocol', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should offer HTTP/2 to HTTPS origins and speak h2c to the origins set to it', () => {
+      const createConnector = vi.spyOn(globalRequestTimingTracker, 'createConnector');
+      manager.setHttpOptions({
+        maxConcurrentStreams: 50,
+        origins: { 'http://grpc.internal:8080': { protocol: 'h2c' } },
+        protocol: 'h2',
+      });
+
+      manager.getAgent('https://gateway.example.com/a', { connectTimeout: 1000 });
+      manager.getAgent('http://grpc.internal:8080/a', { connectTimeout: 1000 });
+      manager.getAgent('http://legacy.example.com/a', { connectTimeout: 1000 });
+
+      expect(createConnector).toHaveBeenNthCalledWith(1, { allowH2: true, timeout: 1000 });
+      expect(createConnector).toHaveBeenNthCalledWith(2, {
+        allowH2: true,
+        timeout: 1000,
+        useH2c: true,
+      });
+      // HTTP/2 is only negotiated over TLS
+      expect(createConnector).toHaveBeenNthCalledWith(3, { timeout: 1000 });
+    });
+
+    it('should keep HTTP/1.1 without protocol settings', () => {
+      const createConnector = vi.spyOn(globalRequestTimingTracker, 'createConnector');
+
+      manager.getAgent('https://example.com', { connectTimeout: 1000 });
+
+      expect(createConnector).toHaveBeenCalledWith({ timeout: 1000 });
+    });
+  });
+
   describe('origin extraction', () => {
     it('should extract origin from HTTP URLs', () => {
       const origins = [
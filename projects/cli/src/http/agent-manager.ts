@@ -1,6 +1,22 @@
-import type { AgentConfig } from '@tressi/shared/common';
+import type { ConnectionTlsOptions, WorkerTlsOptions } from '@tressi/shared/cli';
+import type { AgentConfig, TressiHttpConfig, TressiHttpSettings } from '@tressi/shared/common';
+import { timeoutDefaults } from '@tressi/shared/common';
 import { Agent, type Dispatcher } from 'undici';
 
+import { globalRequestTimingTracker } from './request-timing';
+
+/**
+ * Agent that times the phases of the requests it sends, see `RequestTimingTracker`
+ */
+class TimedAgent extends Agent {
+  override dispatch(
+    options: Dispatcher.DispatchOptions,
+    handler: Dispatcher.DispatchHandler,
+  ): boolean {
+    return super.dispatch(options, globalRequestTimingTracker.wrapHandler(options, handler));
+  }
+}
+
 /**
  * Manages HTTP agents for different endpoints during load testing.
  * This class provides per-endpoint agent management with connection pooling
@@ -10,12 +26,35 @@ export class AgentManager {
   private readonly _agents: Map<string, Dispatcher> = new Map();
   private readonly _agentConfigs: Map<string, AgentConfig> = new Map();
   private readonly _defaultConfig: AgentConfig = {
-    bodyTimeout: 30000,
+    bodyTimeout: timeoutDefaults.totalMs, // Requests override body and headers timeouts
     connections: 256, // Maximum connections per origin
-    headersTimeout: 30000,
+    connectTimeout: timeoutDefaults.connectMs,
+    headersTimeout: timeoutDefaults.headersMs,
     keepAliveMaxTimeout: 120000,
     keepAliveTimeout: 10000, // Keep connections alive longer
   };
+  private _httpOptions: TressiHttpConfig | undefined;
+  private _tlsOptions: WorkerTlsOptions | undefined;
+
+  /**
+   * Sets the HTTP protocol of the connections to each origin.
+   * Agents created before keep their protocol, so call this before sending any request.
+   *
+   * @param httpOptions - Global and per-origin protocol settings, HTTP/1.1 when unset
+   */
+  setHttpOptions(httpOptions: TressiHttpConfig | undefined): void {
+    this._httpOptions = httpOptions;
+  }
+
+  /**
+   * Sets the TLS options of the connections to HTTPS origins.
+   * Agents created before keep their options, so call this before sending any request.
+   *
+   * @param tlsOptions - Global and per-origin TLS options, the defaults of Node.js apply when unset
+   */
+  setTlsOptions(tlsOptions: WorkerTlsOptions | undefined): void {
+    this._tlsOptions = tlsOptions;
+  }
 
   /**
    * Gets or creates an HTTP agent for the specified URL with connection pooling.
@@ -31,6 +70,13 @@ export class AgentManager {
    *
    * Agents are cached and reused across requests to the same origin, significantly
    * improving performance for load testing scenarios with repeated requests to the same endpoints.
+   * The connect timeout can only be set per agent, so requests to the same origin with
+   * different connect timeouts get separate agents. Agents time the phases of the requests
+   * they send. Connections to HTTPS origins use the TLS options of their origin, or else the
+   * global ones, see {@link setTlsOptions}.
+   *
+   * Agents of origins set to HTTP/2 offer it with ALPN, or speak it without TLS for h2c, and send
+   * up to `maxConcurrentStreams` requests at once over each connection before opening another.
    *
    * @example
    * ```typescript
@@ -42,24 +88,138 @@ export class AgentManager {
   getAgent(url: string, config?: AgentConfig): Dispatcher {
     // Extract origin from URL
     const origin = this._extractOrigin(url);
+    const mergedConfig = { ...this._defaultConfig, ...config };
+    const agentKey = `${origin}|${mergedConfig.connectTimeout}`;
 
     // Check if we already have an agent for this origin
-    let agent = this._agents.get(origin);
+    let agent = this._agents.get(agentKey);
     if (agent) {
       return agent;
     }
 
     // Create a new agent with merged configuration
-    const mergedConfig = { ...this._defaultConfig, ...config };
-    agent = new Agent(mergedConfig);
+    const { connectTimeout, ...agentOptions } = mergedConfig;
+    const { maxConcurrentStreams, protocol } = this._getHttpSettings(origin);
+    agent = new TimedAgent({
+      ...agentOptions,
+      // undici sends one request at a time per connection unless pipelining allows more streams
+      ...(protocol !== 'http1' && {
+        allowH2: true,
+        maxConcurrentStreams,
+        pipelining: maxConcurrentStreams,
+      }),
+      // undici's connectors take the ALPN protocols from their own options only
+      connect: globalRequestTimingTracker.createConnector({
+        ...this._getTlsOptions(origin),
+        ...(protocol !== 'http1' && { allowH2: true }),
+        ...(protocol === 'h2c' && { useH2c: true }),
+        timeout: connectTimeout,
+      }),
+    });
 
     // Store the agent and its configuration
-    this._agents.set(origin, agent);
-    this._agentConfigs.set(origin, mergedConfig);
+    this._agents.set(agentKey, agent);
+    this._agentConfigs.set(agentKey, mergedConfig);
+
+    return agent;
+  }
+
+  /**
+   * Gets or creates the agent opening WebSocket connections to the origin of a ws:// or wss:// URL.
+   *
+   * @param url - The WebSocket URL to get an agent for
+   * @param config - Optional agent configuration to override defaults
+   * @returns The dispatcher performing the handshakes of the origin
+   *
+   * @remarks
+   * Handshakes are HTTP/1.1 upgrade requests, so these agents never offer HTTP/2 and do not time
+   * request phases. Connections to wss:// origins use the TLS options of the matching https://
+   * origin, see {@link setTlsOptions}.
+   */
+  getWebSocketAgent(url: string, config?: AgentConfig): Dispatcher {
+    const origin = this._extractOrigin(url.replace(/^ws/i, 'http'));
+    const mergedConfig = { ...this._defaultConfig, ...config };
+    const agentKey = `ws|${origin}|${mergedConfig.connectTimeout}`;
+
+    let agent = this._agents.get(agentKey);
+    if (agent) {
+      return agent;
+    }
+
+    const { connectTimeout, ...agentOptions } = mergedConfig;
+    agent = new Agent({
+      ...agentOptions,
+      connect: { ...this._getTlsOptions(origin), timeout: connectTimeout },
+    });
+
+    this._agents.set(agentKey, agent);
+    this._agentConfigs.set(agentKey, mergedConfig);
+
+    return agent;
+  }
+
+  /**
+   * Gets or creates the agent holding the subscriptions of streaming endpoints to the origin of a
+   * URL.
+   *
+   * @param url - The URL of the feed to get an agent for
+   * @param config - Optional agent configuration to override defaults
+   * @returns The dispatcher sending the requests of the subscriptions to the origin
+   *
+   * @remarks
+   * Every open subscription holds a connection for as long as it stays open, so these agents do
+   * not cap the connections per origin and keep them apart from the pools of the HTTP agents.
+   * They speak HTTP/1.1, do not time request phases and use the TLS options of their origin, see
+   * {@link setTlsOptions}.
+   */
+  getStreamAgent(url: string, config?: AgentConfig): Dispatcher {
+    const origin = this._extractOrigin(url);
+    const mergedConfig = { ...this._defaultConfig, ...config };
+    const agentKey = `stream|${origin}|${mergedConfig.connectTimeout}`;
+
+    let agent = this._agents.get(agentKey);
+    if (agent) {
+      return agent;
+    }
+
+    const { connections: _connections, connectTimeout, ...agentOptions } = mergedConfig;
+    agent = new Agent({
+      ...agentOptions,
+      connect: { ...this._getTlsOptions(origin), timeout: connectTimeout },
+    });
+
+    this._agents.set(agentKey, agent);
+    this._agentConfigs.set(agentKey, mergedConfig);
 
     return agent;
   }
 
+  /**
+   * Gets the TLS options of the connections to the origin of a URL, for clients that open their
+   * own connections instead of using an agent.
+   *
+   * @param url - The https:// URL to get the TLS options for
+   * @returns The options of the origin, or else the global ones, undefined for plain HTTP
+   */
+  getTlsOptions(url: string): ConnectionTlsOptions | undefined {
+    return this._getTlsOptions(this._extractOrigin(url));
+  }
+
+  private _getHttpSettings(origin: string): Required<TressiHttpSettings> {
+    if (!this._httpOptions) return { maxConcurrentStreams: 1, protocol: 'http1' };
+
+    const { origins, ...global } = this._httpOptions;
+    const settings = { ...global, ...origins[origin] };
+    // HTTP/2 is only negotiated over TLS, so plain HTTP origins keep HTTP/1.1 without h2c
+    const secure = origin.startsWith('https:');
+    return settings.protocol === 'h2' && !secure ? { ...settings, protocol: 'http1' } : settings;
+  }
+
+  private _getTlsOptions(origin: string): ConnectionTlsOptions | undefined {
+    if (!origin.startsWith('https:')) return undefined;
+    return this._tlsOptions?.origins[origin] ?? this._tlsOptions?.global;
+  }
+
   /**
    * Extracts the origin from a URL for connection pooling purposes.
    *
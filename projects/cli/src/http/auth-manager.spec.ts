@@ -0,0 +1,178 @@
+import type { TressiAuthConfig } from '@tressi/shared/common';
+import { request as undiciRequest } from 'undici';
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
+
+import { AuthManager } from './auth-manager';
+
+vi.mock('undici', () => ({
+  request: vi.fn(),
+}));
+
+vi.mock('./agent-manager', () => ({
+  globalAgentManager: {
+    getAgent: vi.fn().mockReturnValue({}),
+  },
+}));
+
+type OAuth2Config = Extract<TressiAuthConfig, { type: 'oauth2' }>;
+
+const createOAuth2Config = (overrides: Partial<OAuth2Config> = {}): OAuth2Config => ({
+  clientAuthentication: 'basic',
+  clientId: 'tressi',
+  clientSecret: 's3cret',
+  grantType: 'clientCredentials',
+  refreshBeforeExpirySec: 30,
+  tokenUrl: 'https://auth.example.com/token',
+  type: 'oauth2',
+  ...overrides,
+});
+
+const tokenResponse = (body: unknown, statusCode: number = 200): object => ({
+  body: { text: vi.fn().mockResolvedValue(JSON.stringify(body)) },
+  statusCode,
+});
+
+describe('AuthManager', () => {
+  let manager: AuthManager;
+  let onTokenRequest: Mock;
+  let mockRequest: Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    onTokenRequest = vi.fn();
+    manager = new AuthManager(onTokenRequest);
+    mockRequest = undiciRequest as unknown as Mock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getAuthorization', () => {
+    it('should send no credentials without auth or with type none', async () => {
+      expect(await manager.getAuthorization(undefined)).toBeUndefined();
+      expect(await manager.getAuthorization({ type: 'none' })).toBeUndefined();
+    });
+
+    it('should encode basic auth and send bearer tokens as they are', async () => {
+      expect(
+        await manager.getAuthorization({ password: 'pa:ss', type: 'basic', username: 'user' }),
+      ).toBe(`Basic ${Buffer.from('user:pa:ss').toString('base64')}`);
+      expect(await manager.getAuthorization({ token: 'abc', type: 'bearer' })).toBe('Bearer abc');
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should request a client credentials token and cache it', async () => {
+      mockRequest.mockResolvedValue(
+        tokenResponse({ access_token: 'token-1', expires_in: 3600, token_type: 'bearer' }),
+      );
+      const auth = createOAuth2Config({ scope: 'read write' });
+
+      expect(await manager.getAuthorization(auth)).toBe('Bearer token-1');
+      expect(await manager.getAuthorization(auth)).toBe('Bearer token-1');
+
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      const [url, options] = mockRequest.mock.calls[0];
+      expect(url).toBe('https://auth.example.com/token');
+      expect(options.method).toBe('POST');
+      expect(options.headers.authorization).toBe(
+        `Basic ${Buffer.from('tressi:s3cret').toString('base64')}`,
+      );
+      expect(Object.fromEntries(new URLSearchParams(options.body))).toEqual({
+        grant_type: 'client_credentials',
+        scope: 'read write',
+      });
+      expect(onTokenRequest).toHaveBeenCalledWith(expect.any(Number), true);
+    });
+
+    it('should send the user and the client credentials in the body of a password grant', async () => {
+      mockRequest.mockResolvedValue(tokenResponse({ access_token: 'token-1' }));
+
+      await manager.getAuthorization(
+        createOAuth2Config({
+          clientAuthentication: 'body',
+          grantType: 'password',
+          password: 'pw',
+          username: 'alice',
+        }),
+      );
+
+      const [, options] = mockRequest.mock.calls[0];
+      expect(options.headers.authorization).toBeUndefined();
+      expect(Object.fromEntries(new URLSearchParams(options.body))).toEqual({
+        client_id: 'tressi',
+        client_secret: 's3cret',
+        grant_type: 'password',
+        password: 'pw',
+        username: 'alice',
+      });
+    });
+
+    it('should share one token request between concurrent requests', async () => {
+      mockRequest.mockResolvedValue(tokenResponse({ access_token: 'token-1' }));
+      const auth = createOAuth2Config();
+
+      const tokens = await Promise.all([
+        manager.getAuthorization(auth),
+        manager.getAuthorization(auth),
+      ]);
+
+      expect(tokens).toEqual(['Bearer token-1', 'Bearer token-1']);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh a token in the background before it expires', async () => {
+      mockRequest
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'token-1', expires_in: 60 }))
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'token-2', expires_in: 60 }));
+      const auth = createOAuth2Config();
+
+      await manager.getAuthorization(auth);
+      vi.advanceTimersByTime(31_000);
+
+      // The current token is still valid, so it is sent while the new one is requested
+      expect(await manager.getAuthorization(auth)).toBe('Bearer token-1');
+      await vi.waitFor(() => expect(mockRequest).toHaveBeenCalledTimes(2));
+      await vi.waitFor(async () =>
+        expect(await manager.getAuthorization(auth)).toBe('Bearer token-2'),
+      );
+    });
+
+    it('should fail and report a token request that returns no token', async () => {
+      mockRequest.mockResolvedValue(tokenResponse({ error: 'invalid_client' }, 401));
+
+      await expect(manager.getAuthorization(createOAuth2Config())).rejects.toThrow(
+        'Token request to https://auth.example.com/token failed with HTTP 401',
+      );
+      expect(onTokenRequest).toHaveBeenCalledWith(expect.any(Number), false);
+    });
+
+    it('should fail when the token response has no access token', async () => {
+      mockRequest.mockResolvedValue(tokenResponse({ token_type: 'bearer' }));
+
+      await expect(manager.getAuthorization(createOAuth2Config())).rejects.toThrow(
+        'has no access_token',
+      );
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should request a new token after the current one was rejected', async () => {
+      mockRequest
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'token-1' }))
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'token-2' }));
+      const auth = createOAuth2Config();
+
+      const rejected = await manager.getAuthorization(auth);
+      manager.invalidate(auth, rejected);
+      // A second rejection of the same token does not drop its replacement
+      const replacement = await manager.getAuthorization(auth);
+      manager.invalidate(auth, rejected);
+
+      expect(replacement).toBe('Bearer token-2');
+      expect(await manager.getAuthorization(auth)).toBe('Bearer token-2');
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { performance } from 'node:perf_hooks';
+import type { TressiAuthConfig, TressiTimeoutsConfig } from '@tressi/shared/common';
+import { timeoutDefaults } from '@tressi/shared/common';
+import { request } from 'undici';
+
+import { globalAgentManager } from './agent-manager';
+
+type OAuth2Config = Extract<TressiAuthConfig, { type: 'oauth2' }>;
+
+/**
+ * Cached token of an OAuth2 auth config
+ */
+type TokenEntry = {
+  /** Authorization header value, empty until the first token arrives */
+  authorization: string;
+  /** Epoch milliseconds after which the token is no longer sent */
+  expiresAt: number;
+  /** Epoch milliseconds after which a new token is requested */
+  refreshAt: number;
+  /** Token request in flight, shared by every request waiting for it */
+  pending?: Promise<string>;
+};
+
+/**
+ * Called after every token request with its latency and whether it returned a token
+ */
+export type TokenRequestListener = (latencyMs: number, success: boolean) => void;
+
+/**
+ * Resolves the Authorization header of requests from their auth config.
+ * OAuth2 tokens are requested from the token URL and cached for the lifetime of the worker.
+ */
+export class AuthManager {
+  private readonly _tokens = new WeakMap<OAuth2Config, TokenEntry>();
+  private readonly _basicHeaders = new WeakMap<TressiAuthConfig, string>();
+
+  constructor(
+    private readonly _onTokenRequest?: TokenRequestListener,
+    private readonly _timeouts: TressiTimeoutsConfig = timeoutDefaults,
+  ) {}
+
+  /**
+   * Gets the Authorization header for an auth config.
+   *
+   * @param auth - The auth config of the request, or the global one
+   * @returns The header value, or undefined when no credentials are sent
+   * @throws When no OAuth2 token is cached and the token request fails
+   *
+   * @remarks
+   * Tokens are cached per auth config object, so every request sharing `options.auth` shares
+   * its token. A token that is due for refresh is still sent while its replacement is requested
+   * in the background; only an expired or missing token makes requests wait. Concurrent
+   * requests wait on the same token request.
+   */
+  async getAuthorization(auth: TressiAuthConfig | undefined): Promise<string | undefined> {
+    switch (auth?.type) {
+      case undefined:
+      case 'none':
+        return undefined;
+      case 'basic':
+        return this._getBasicAuthorization(auth);
+      case 'bearer':
+        return `Bearer ${auth.token}`;
+      case 'oauth2':
+        return this._getOAuth2Authorization(auth);
+    }
+  }
+
+  /**
+   * Drops the cached token of an auth config after the server rejected it, so the next
+   * request waits for a new one. Tokens that were already replaced are left alone.
+   *
+   * @param auth - The auth config of the rejected request
+   * @param authorization - The header value the request was sent with
+   */
+  invalidate(auth: TressiAuthConfig | undefined, authorization: string | undefined): void {
+    if (auth?.type !== 'oauth2') return;
+
+    const entry = this._tokens.get(auth);
+    if (entry && entry.authorization === authorization) {
+      entry.authorization = '';
+      entry.expiresAt = 0;
+      entry.refreshAt = 0;
+    }
+  }
+
+  private _getBasicAuthorization(auth: Extract<TressiAuthConfig, { type: 'basic' }>): string {
+    let header = this._basicHeaders.get(auth);
+    if (!header) {
+      const credentials = Buffer.from(`${auth.username}:${auth.password}`).toString('base64');
+      header = `Basic ${credentials}`;
+      this._basicHeaders.set(auth, header);
+    }
+    return header;
+  }
+
+  private async _getOAuth2Authorization(auth: OAuth2Config): Promise<string> {
+    let entry = this._tokens.get(auth);
+    if (!entry) {
+      entry = { authorization: '', expiresAt: 0, refreshAt: 0 };
+      this._tokens.set(auth, entry);
+    }
+
+    const now = Date.now();
+    if (entry.authorization && now < entry.refreshAt) {
+      return entry.authorization;
+    }
+
+    const pending = entry.pending ?? this._refreshToken(auth, entry);
+    if (entry.authorization && now < entry.expiresAt) {
+      // Failures are counted by the listener and retried by the next request
+      pending.catch(() => undefined);
+      return entry.authorization;
+    }
+    return pending;
+  }
+
+  private _refreshToken(auth: OAuth2Config, entry: TokenEntry): Promise<string> {
+    entry.pending = this._requestToken(auth)
+      .then(({ authorization, expiresInSec }) => {
+        const now = Date.now();
+        entry.authorization = authorization;
+        entry.expiresAt = expiresInSec === undefined ? Infinity : now + expiresInSec * 1000;
+        entry.refreshAt =
+          expiresInSec === undefined
+            ? Infinity
+            : now + Math.max(0, expiresInSec - auth.refreshBeforeExpirySec) * 1000;
+        return authorization;
+      })
+      .finally(() => {
+        entry.pending = undefined;
+      });
+    return entry.pending;
+  }
+
+  /**
+   * Sends a token request to the token URL of an OAuth2 config
+   */
+  private async _requestToken(
+    auth: OAuth2Config,
+  ): Promise<{ authorization: string; expiresInSec?: number }> {
+    const start = performance.now();
+    try {
+      const form = new URLSearchParams({
+        grant_type: auth.grantType === 'password' ? 'password' : 'client_credentials',
+      });
+      if (auth.grantType === 'password') {
+        form.set('username', auth.username ?? '');
+        form.set('password', auth.password ?? '');
+      }
+      if (auth.scope) form.set('scope', auth.scope);
+      if (auth.audience) form.set('audience', auth.audience);
+
+      const headers: Record<string, string> = {
+        accept: 'application/json',
+        'content-type': 'application/x-www-form-urlencoded',
+      };
+      if (auth.clientAuthentication === 'body') {
+        form.set('client_id', auth.clientId);
+        if (auth.clientSecret !== undefined) form.set('client_secret', auth.clientSecret);
+      } else {
+        // RFC 6749 form-encodes the client credentials before joining them
+        const clientId = encodeURIComponent(auth.clientId);
+        const clientSecret = encodeURIComponent(auth.clientSecret ?? '');
+        const credentials = `${clientId}:${clientSecret}`;
+        headers.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+
+      const isTest = process.env.NODE_ENV === 'test';
+      const { body, statusCode } = await request(auth.tokenUrl, {
+        body: form.toString(),
+        bodyTimeout: this._timeouts.totalMs,
+        dispatcher: isTest
+          ? undefined
+          : globalAgentManager.getAgent(auth.tokenUrl, {
+              connectTimeout: this._timeouts.connectMs,
+            }),
+        headers,
+        headersTimeout: this._timeouts.headersMs,
+        method: 'POST',
+        signal: AbortSignal.timeout(this._timeouts.totalMs),
+      });
+      const text = await body.text();
+      if (statusCode < 200 || statusCode >= 300) {
+        throw new Error(`Token request to ${auth.tokenUrl} failed with HTTP ${statusCode}`);
+      }
+
+      const token = this._parseToken(text);
+      if (!token) {
+        throw new Error(`Token response from ${auth.tokenUrl} has no access_token`);
+      }
+
+      this._onTokenRequest?.(performance.now() - start, true);
+      return token;
+    } catch (error) {
+      this._onTokenRequest?.(performance.now() - start, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the access token and its lifetime from a token response
+   */
+  private _parseToken(text: string): { authorization: string; expiresInSec?: number } | undefined {
+    let response: { access_token?: unknown; expires_in?: unknown; token_type?: unknown };
+    try {
+      response = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+    if (typeof response?.access_token !== 'string' || !response.access_token) return undefined;
+
+    // Servers may send a lowercase token type, but the scheme is always sent as Bearer
+    const tokenType =
+      typeof response.token_type === 'string' && response.token_type.toLowerCase() !== 'bearer'
+        ? response.token_type
+        : 'Bearer';
+    const expiresIn = Number(response.expires_in);
+    return {
+      authorization: `${tokenType} ${response.access_token}`,
+      expiresInSec: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : undefined,
+    };
+  }
+}
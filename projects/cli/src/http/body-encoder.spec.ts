@@ -0,0 +1,122 @@
+import { promises as fsPromises } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BodyEncoder } from './body-encoder';
+
+vi.mock('node:fs', () => ({
+  promises: {
+    readFile: vi.fn(),
+  },
+}));
+
+describe('BodyEncoder', () => {
+  let encoder: BodyEncoder;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    encoder = new BodyEncoder();
+  });
+
+  it('should serialize json payloads', async () => {
+    const encoded = await encoder.encode('json', { name: 'Ada' });
+
+    expect(encoded).toEqual({
+      body: '{"name":"Ada"}',
+      bytes: 14,
+      contentType: 'application/json',
+    });
+  });
+
+  it('should urlencode form payloads', async () => {
+    const encoded = await encoder.encode('form', { active: true, age: 36, name: 'Ada Lovelace' });
+
+    expect(encoded.body).toBe('active=true&age=36&name=Ada+Lovelace');
+    expect(encoded.contentType).toBe('application/x-www-form-urlencoded');
+  });
+
+  it('should send text payloads as-is and count multi-byte characters', async () => {
+    const encoded = await encoder.encode('text', '<note>héllo</note>');
+
+    expect(encoded.body).toBe('<note>héllo</note>');
+    expect(encoded.bytes).toBe(Buffer.byteLength('<note>héllo</note>', 'utf8'));
+    expect(encoded.contentType).toBe('text/plain; charset=utf-8');
+  });
+
+  it('should read binary payloads from disk once', async () => {
+    vi.mocked(fsPromises.readFile).mockResolvedValue(Buffer.from([1, 2, 3]));
+
+    const first = await encoder.encode('binary', { contentType: 'image/png', file: 'logo.png' });
+    const second = await encoder.encode('binary', { file: 'logo.png' });
+
+    expect(first.body).toEqual(Buffer.from([1, 2, 3]));
+    expect(first.bytes).toBe(3);
+    expect(first.contentType).toBe('image/png');
+    expect(second.contentType).toBe('application/octet-stream');
+    expect(fsPromises.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build multipart bodies with field and file parts', async () => {
+    vi.mocked(fsPromises.readFile).mockResolvedValue(Buffer.from('file-content'));
+
+    const encoded = await encoder.encode('multipart', {
+      avatar: { contentType: 'image/png', file: './uploads/avatar.png' },
+      name: 'Ada',
+    });
+    const boundary = encoded.contentType.replace('multipart/form-data; boundary=', '');
+    const body = (encoded.body as Buffer).toString('utf8');
+
+    expect(encoded.contentType).toMatch(/^multipart\/form-data; boundary=----TressiFormBoundary/);
+    expect(body).toBe(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="avatar"; filename="avatar.png"\r\n' +
+        'Content-Type: image/png\r\n\r\n' +
+        'file-content\r\n' +
+        `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="name"\r\n\r\n' +
+        'Ada\r\n' +
+        `--${boundary}--\r\n`,
+    );
+    expect(encoded.bytes).toBe(Buffer.byteLength(body, 'utf8'));
+  });
+
+  it('should throw when a file cannot be read and retry on the next call', async () => {
+    vi.mocked(fsPromises.readFile)
+      .mockRejectedValueOnce(new Error('ENOENT'))
+      .mockResolvedValueOnce(Buffer.from('ok'));
+
+    await expect(encoder.encode('binary', { file: 'missing.bin' })).rejects.toThrow(
+      'Failed to read body file missing.bin: ENOENT',
+    );
+    await expect(encoder.encode('binary', { file: 'missing.bin' })).resolves.toMatchObject({
+      bytes: 2,
+    });
+  });
+
+  it('should encode GraphQL operations as JSON, reading query files once', async () => {
+    vi.mocked(fsPromises.readFile).mockResolvedValue(
+      Buffer.from('query ListUsers { users { id } }'),
+    );
+
+    const inline = await encoder.encodeGraphql({
+      operationName: 'GetUser',
+      query: 'query GetUser { user { id } }',
+      variables: { id: 7 },
+    });
+    await encoder.encodeGraphql({ queryFile: './queries/users.graphql', variables: {} });
+    const fromFile = await encoder.encodeGraphql({
+      queryFile: './queries/users.graphql',
+      variables: {},
+    });
+
+    expect(inline).toEqual({
+      body: '{"operationName":"GetUser","query":"query GetUser { user { id } }","variables":{"id":7}}',
+      bytes: 88,
+      contentType: 'application/json',
+    });
+    expect(JSON.parse(fromFile.body as string)).toEqual({
+      query: 'query ListUsers { users { id } }',
+      variables: {},
+    });
+    expect(fsPromises.readFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type {
+  TressiBodyFile,
+  TressiGraphqlRequest,
+  TressiRequestConfig,
+} from '@tressi/shared/common';
+
+/**
+ * A request body encoded for the wire.
+ */
+export type EncodedBody = {
+  /** The bytes or text handed to the HTTP client */
+  body: string | Buffer;
+  /** The encoded size in bytes */
+  bytes: number;
+  /** The content type sent when the request does not set one */
+  contentType: string;
+};
+
+/**
+ * Encodes request payloads according to their body type.
+ *
+ * @remarks
+ * - `json` serializes the payload with `JSON.stringify`
+ * - `form` encodes an object as `application/x-www-form-urlencoded`
+ * - `multipart` builds a `multipart/form-data` body, reading file fields from disk
+ * - `text` sends the payload string as-is
+ * - `binary` sends the contents of a single file
+ *
+ * GraphQL operations are encoded as a JSON body of their query, variables and operation name,
+ * reading the query from its `.graphql` file when it has one.
+ *
+ * Files are read once per encoder and served from memory afterwards, so sending
+ * the same upload thousands of times does not hit the disk on every request.
+ *
+ * @example
+ * ```typescript
+ * const encoder = new BodyEncoder();
+ * const encoded = await encoder.encode('form', { name: 'Ada', age: 36 });
+ * // encoded.body === 'name=Ada&age=36'
+ * ```
+ */
+export class BodyEncoder {
+  private readonly _boundary = `----TressiFormBoundary${randomBytes(12).toString('hex')}`;
+  private readonly _files: Map<string, Promise<Buffer>> = new Map();
+
+  /**
+   * Encodes a payload for the given body type.
+   * @param bodyType How the payload should be encoded
+   * @param payload The payload to encode
+   * @returns The encoded body with its size and default content type
+   * @throws {Error} When a referenced file cannot be read
+   */
+  async encode(bodyType: TressiRequestConfig['bodyType'], payload: unknown): Promise<EncodedBody> {
+    switch (bodyType) {
+      case 'form':
+        return this._toEncodedBody(
+          this._encodeForm(payload as Record<string, unknown>),
+          'application/x-www-form-urlencoded',
+        );
+      case 'multipart':
+        return this._toEncodedBody(
+          await this._encodeMultipart(payload as Record<string, unknown>),
+          `multipart/form-data; boundary=${this._boundary}`,
+        );
+      case 'text':
+        return this._toEncodedBody(String(payload), 'text/plain; charset=utf-8');
+      case 'binary': {
+        const file = payload as TressiBodyFile;
+        return this._toEncodedBody(
+          await this._readFile(file.file),
+          file.contentType ?? 'application/octet-stream',
+        );
+      }
+      default:
+        return this._toEncodedBody(JSON.stringify(payload), 'application/json');
+    }
+  }
+
+  /**
+   * Encodes a GraphQL operation as a JSON request body.
+   * @param graphql The operation, with placeholders in its variables resolved
+   * @returns The encoded body with its size and JSON content type
+   * @throws {Error} When the query file cannot be read
+   */
+  async encodeGraphql(graphql: TressiGraphqlRequest): Promise<EncodedBody> {
+    const query =
+      graphql.queryFile === undefined
+        ? graphql.query
+        : (await this._readFile(graphql.queryFile, 'GraphQL query file')).toString('utf8');
+    return this._toEncodedBody(
+      JSON.stringify({ operationName: graphql.operationName, query, variables: graphql.variables }),
+      'application/json',
+    );
+  }
+
+  private _encodeForm(payload: Record<string, unknown>): string {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(payload)) {
+      params.append(name, String(value));
+    }
+    return params.toString();
+  }
+
+  private async _encodeMultipart(payload: Record<string, unknown>): Promise<Buffer> {
+    const parts: Buffer[] = [];
+
+    for (const [name, value] of Object.entries(payload)) {
+      let disposition = `Content-Disposition: form-data; name="${this._escapeQuoted(name)}"`;
+      let content: Buffer;
+
+      if (typeof value === 'object' && value !== null) {
+        const file = value as TressiBodyFile;
+        const filename = file.filename ?? path.basename(file.file);
+        disposition += `; filename="${this._escapeQuoted(filename)}"\r\nContent-Type: ${file.contentType ?? 'application/octet-stream'}`;
+        content = await this._readFile(file.file);
+      } else {
+        content = Buffer.from(String(value), 'utf8');
+      }
+
+      parts.push(Buffer.from(`--${this._boundary}\r\n${disposition}\r\n\r\n`, 'utf8'));
+      parts.push(content);
+      parts.push(Buffer.from('\r\n', 'utf8'));
+    }
+
+    parts.push(Buffer.from(`--${this._boundary}--\r\n`, 'utf8'));
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Escapes a multipart name or filename the way browsers do.
+   */
+  private _escapeQuoted(value: string): string {
+    return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  }
+
+  private _readFile(filePath: string, description: string = 'body file'): Promise<Buffer> {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    let file = this._files.get(resolvedPath);
+    if (!file) {
+      file = fs.readFile(resolvedPath).catch((error: Error) => {
+        this._files.delete(resolvedPath);
+        throw new Error(`Failed to read ${description} ${filePath}: ${error.message}`);
+      });
+      this._files.set(resolvedPath, file);
+    }
+    return file;
+  }
+
+  private _toEncodedBody(body: string | Buffer, contentType: string): EncodedBody {
+    return {
+      body,
+      bytes: typeof body === 'string' ? Buffer.byteLength(body, 'utf8') : body.length,
+      contentType,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CookieJar } from './cookie-jar';
+
+describe('CookieJar', () => {
+  let jar: CookieJar;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    jar = new CookieJar();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('store', () => {
+    it('should send stored cookies back to the host that set them', () => {
+      expect(
+        jar.store('https://app.example.com/login', ['session=abc; Path=/; HttpOnly', 'theme=dark']),
+      ).toBe(2);
+
+      expect(jar.getCookies('https://app.example.com/')).toEqual(['session=abc', 'theme=dark']);
+      expect(jar.getCookies('https://other.example.com/')).toEqual([]);
+      expect(jar.size).toBe(2);
+    });
+
+    it('should send domain cookies to subdomains but host-only cookies only to their host', () => {
+      jar.store('https://example.com/', ['shared=1; Domain=.Example.com', 'host=1']);
+
+      expect(jar.getCookies('https://api.example.com/')).toEqual(['shared=1']);
+      expect(jar.getCookies('https://example.com/')).toEqual(['shared=1', 'host=1']);
+    });
+
+    it('should ignore cookies for a domain the host does not belong to', () => {
+      expect(jar.store('https://example.com/', 'evil=1; Domain=attacker.com')).toBe(0);
+      expect(jar.size).toBe(0);
+    });
+
+    it('should scope cookies to their path, defaulting to the directory of the request', () => {
+      jar.store('https://example.com/api/users/1', ['default=1', 'admin=1; Path=/admin']);
+
+      expect(jar.getCookies('https://example.com/api/users/2')).toEqual(['default=1']);
+      expect(jar.getCookies('https://example.com/api/usersettings')).toEqual([]);
+      expect(jar.getCookies('https://example.com/admin/panel')).toEqual(['admin=1']);
+    });
+
+    it('should send cookies with longer paths first', () => {
+      jar.store('https://example.com/', ['a=1; Path=/', 'b=2; Path=/api']);
+
+      expect(jar.getCookies('https://example.com/api/x')).toEqual(['b=2', 'a=1']);
+    });
+
+    it('should only send secure cookies over HTTPS', () => {
+      jar.store('https://example.com/', 'token=1; Secure');
+
+      expect(jar.getCookies('http://example.com/')).toEqual([]);
+      expect(jar.getCookies('https://example.com/')).toEqual(['token=1']);
+    });
+
+    it('should replace and remove cookies', () => {
+      jar.store('https://example.com/', 'session=old');
+      jar.store('https://example.com/', 'session=new');
+      expect(jar.getCookies('https://example.com/')).toEqual(['session=new']);
+
+      jar.store('https://example.com/', 'session=; Max-Age=0');
+      expect(jar.getCookies('https://example.com/')).toEqual([]);
+    });
+
+    it('should drop cookies once they expire', () => {
+      jar.store('https://example.com/', [
+        'short=1; Max-Age=60',
+        'dated=1; Expires=Thu, 01 Jan 2026 00:05:00 GMT',
+        'both=1; Max-Age=600; Expires=Thu, 01 Jan 2026 00:00:30 GMT',
+      ]);
+
+      vi.advanceTimersByTime(120_000);
+      expect(jar.getCookies('https://example.com/')).toEqual(['dated=1', 'both=1']);
+
+      vi.advanceTimersByTime(300_000);
+      expect(jar.getCookies('https://example.com/')).toEqual(['both=1']);
+      expect(jar.size).toBe(1);
+    });
+
+    it('should ignore invalid headers and URLs', () => {
+      expect(jar.store('https://example.com/', ['novalue', '=nameless'])).toBe(0);
+      expect(jar.store('not a url', 'a=1')).toBe(0);
+      expect(jar.store('https://example.com/', undefined)).toBe(0);
+      expect(jar.getCookies('not a url')).toEqual([]);
+    });
+  });
+
+  describe('reset', () => {
+    it('should empty the jar down to its initial cookies', () => {
+      jar = new CookieJar([
+        { name: 'everywhere', path: '/', secure: false, value: '1' },
+        { domain: '.example.com', name: 'tenant', path: '/', secure: true, value: 'acme' },
+      ]);
+      jar.store('https://example.com/', 'session=abc');
+
+      expect(jar.getCookies('https://api.example.com/')).toEqual(['everywhere=1', 'tenant=acme']);
+      expect(jar.getCookies('http://other.test/')).toEqual(['everywhere=1']);
+      expect(jar.size).toBe(3);
+
+      jar.reset();
+
+      expect(jar.getCookies('https://example.com/')).toEqual(['everywhere=1', 'tenant=acme']);
+      expect(jar.size).toBe(2);
+    });
+  });
+});
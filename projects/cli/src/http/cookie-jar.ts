@@ -0,0 +1,234 @@
+import type { TressiCookieSeed } from '@tressi/shared/common';
+
+/**
+ * Cookie stored in a jar
+ */
+type StoredCookie = {
+  name: string;
+  value: string;
+  /** Lowercase domain without a leading dot, undefined for seeded cookies sent to every host */
+  domain: string | undefined;
+  /** Whether the cookie is only sent to the host that set it, not to its subdomains */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  /** Epoch milliseconds at which the cookie expires, Infinity for session cookies */
+  expiresAt: number;
+};
+
+/**
+ * Stores the cookies set by responses and sends them with later requests, following the
+ * domain, path, secure and expiry rules of RFC 6265.
+ *
+ * @remarks
+ * Session cookies live as long as the jar. `SameSite`, `HttpOnly` and the public suffix list are
+ * not applied, since every request is sent by the same client and to the hosts under test.
+ */
+export class CookieJar {
+  private readonly _cookies = new Map<string, StoredCookie>();
+  private readonly _initial: TressiCookieSeed[];
+
+  /**
+   * @param initial - Cookies placed in the jar now and after every reset
+   */
+  constructor(initial: TressiCookieSeed[] = []) {
+    this._initial = initial;
+    this.reset();
+  }
+
+  /**
+   * Number of cookies in the jar that have not expired
+   */
+  get size(): number {
+    const now = Date.now();
+    let size = 0;
+    for (const cookie of this._cookies.values()) {
+      if (cookie.expiresAt > now) size++;
+    }
+    return size;
+  }
+
+  /**
+   * Empties the jar down to its initial cookies
+   */
+  reset(): void {
+    this._cookies.clear();
+    for (const seed of this._initial) {
+      this._set({
+        domain: seed.domain ? this._normalizeDomain(seed.domain) : undefined,
+        expiresAt: Infinity,
+        hostOnly: false,
+        name: seed.name,
+        path: seed.path,
+        secure: seed.secure,
+        value: seed.value,
+      });
+    }
+  }
+
+  /**
+   * Gets the cookies sent with a request to a URL.
+   *
+   * @param url - The URL of the request
+   * @returns `name=value` pairs, the cookies with the longest path first
+   */
+  getCookies(url: string): string[] {
+    const target = this._parseUrl(url);
+    if (!target) return [];
+
+    const now = Date.now();
+    const isSecure = target.protocol === 'https:' || target.protocol === 'wss:';
+    const matches: StoredCookie[] = [];
+    for (const [key, cookie] of this._cookies) {
+      if (cookie.expiresAt <= now) {
+        this._cookies.delete(key);
+        continue;
+      }
+      if (cookie.secure && !isSecure) continue;
+      if (!this._matchesDomain(target.hostname, cookie)) continue;
+      if (!this._matchesPath(target.pathname, cookie.path)) continue;
+      matches.push(cookie);
+    }
+
+    // Sorting is stable, so cookies with the same path keep the order they were set in
+    return matches
+      .sort((a, b) => b.path.length - a.path.length)
+      .map((cookie) => `${cookie.name}=${cookie.value}`);
+  }
+
+  /**
+   * Stores the cookies set by a response.
+   *
+   * @param url - The URL of the request the response answered
+   * @param setCookie - The `set-cookie` header of the response
+   * @returns The number of cookies the response set or removed
+   *
+   * @remarks
+   * Cookies with a `Domain` the request host does not belong to are ignored. A `Max-Age` of zero
+   * or less, or an `Expires` date in the past, removes the cookie.
+   */
+  store(url: string, setCookie: string | string[] | undefined): number {
+    if (setCookie === undefined) return 0;
+    const target = this._parseUrl(url);
+    if (!target) return 0;
+
+    let stored = 0;
+    for (const header of Array.isArray(setCookie) ? setCookie : [setCookie]) {
+      const cookie = this._parseSetCookie(header, target.hostname, target.pathname);
+      if (!cookie) continue;
+      if (cookie.expiresAt <= Date.now()) {
+        this._cookies.delete(this._getKey(cookie));
+      } else {
+        this._set(cookie);
+      }
+      stored++;
+    }
+    return stored;
+  }
+
+  /**
+   * Parses a single `set-cookie` header, returning undefined when it is invalid or rejected
+   */
+  private _parseSetCookie(
+    header: string,
+    hostname: string,
+    pathname: string,
+  ): StoredCookie | undefined {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator === -1) return undefined;
+    const name = pair.slice(0, separator).trim();
+    if (!name) return undefined;
+
+    const cookie: StoredCookie = {
+      domain: hostname,
+      expiresAt: Infinity,
+      hostOnly: true,
+      name,
+      path: this._getDefaultPath(pathname),
+      secure: false,
+      value: pair.slice(separator + 1).trim(),
+    };
+
+    let maxAgeSec: number | undefined;
+    for (const attribute of attributes) {
+      const equals = attribute.indexOf('=');
+      const key = (equals === -1 ? attribute : attribute.slice(0, equals)).trim().toLowerCase();
+      const value = equals === -1 ? '' : attribute.slice(equals + 1).trim();
+
+      switch (key) {
+        case 'domain': {
+          const domain = this._normalizeDomain(value);
+          if (!domain) break;
+          if (hostname !== domain && !hostname.endsWith(`.${domain}`)) return undefined;
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) cookie.path = value;
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'max-age':
+          if (/^-?\d+$/.test(value)) maxAgeSec = Number(value);
+          break;
+        case 'expires': {
+          const expiresAt = Date.parse(value);
+          if (!Number.isNaN(expiresAt)) cookie.expiresAt = expiresAt;
+          break;
+        }
+      }
+    }
+
+    // Max-Age takes precedence over Expires
+    if (maxAgeSec !== undefined) {
+      cookie.expiresAt = maxAgeSec <= 0 ? 0 : Date.now() + maxAgeSec * 1000;
+    }
+    return cookie;
+  }
+
+  private _set(cookie: StoredCookie): void {
+    const key = this._getKey(cookie);
+    // Replacing a cookie moves it to the end, like setting a new one
+    this._cookies.delete(key);
+    this._cookies.set(key, cookie);
+  }
+
+  private _getKey(cookie: StoredCookie): string {
+    return `${cookie.domain ?? ''};${cookie.path};${cookie.name}`;
+  }
+
+  private _matchesDomain(hostname: string, cookie: StoredCookie): boolean {
+    if (cookie.domain === undefined) return true;
+    if (hostname === cookie.domain) return true;
+    return !cookie.hostOnly && hostname.endsWith(`.${cookie.domain}`);
+  }
+
+  private _matchesPath(pathname: string, cookiePath: string): boolean {
+    if (pathname === cookiePath) return true;
+    if (!pathname.startsWith(cookiePath)) return false;
+    return cookiePath.endsWith('/') || pathname[cookiePath.length] === '/';
+  }
+
+  /**
+   * Gets the directory of a request path, the path of cookies that set none
+   */
+  private _getDefaultPath(pathname: string): string {
+    const lastSlash = pathname.lastIndexOf('/');
+    return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+  }
+
+  private _normalizeDomain(domain: string): string {
+    return domain.trim().replace(/^\./, '').toLowerCase();
+  }
+
+  private _parseUrl(url: string): URL | undefined {
+    try {
+      return new URL(url);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import { load } from '@grpc/proto-loader';
+import type { TressiGrpcConfig } from '@tressi/shared/common';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { globalAgentManager } from './agent-manager';
+import { GrpcExecutor } from './grpc-executor';
+
+// biome-ignore lint/nursery/useExplicitType: vi.hoisted
+const { FakeClient } = await vi.hoisted(async () => {
+  const { EventEmitter } = await import('node:events');
+  type Serialize = (value: object) => Buffer;
+  type Deserialize = (buffer: Buffer) => object;
+
+  // A call of the fake client, answered by the reply configured in the test
+  class FakeCall extends EventEmitter {
+    written: object[] = [];
+    ended = false;
+
+    constructor(
+      public serialize: Serialize,
+      public deserialize: Deserialize,
+    ) {
+      super();
+    }
+
+    write(message: object): void {
+      this.written.push(message);
+      this.serialize(message);
+    }
+
+    end(): void {
+      this.ended = true;
+    }
+  }
+
+  // Minimal stand-in for the grpc-js client, replying with the configured responses and status
+  class FakeClient {
+    static instances: FakeClient[] = [];
+    static reply: { responses: string[]; code: number; details: string } = {
+      code: 0,
+      details: 'OK',
+      responses: [],
+    };
+    calls: {
+      path: string;
+      argument?: object;
+      metadata: unknown;
+      options: unknown;
+      call: FakeCall;
+    }[] = [];
+    closed = false;
+
+    constructor(
+      public target: string,
+      public credentials: unknown,
+      public channelOptions: Record<string, unknown>,
+    ) {
+      FakeClient.instances.push(this);
+    }
+
+    makeUnaryRequest(
+      path: string,
+      serialize: Serialize,
+      deserialize: Deserialize,
+      argument: object,
+      metadata: unknown,
+      options: unknown,
+    ): FakeCall {
+      serialize(argument);
+      return this._start(path, serialize, deserialize, metadata, options, false, argument);
+    }
+
+    makeServerStreamRequest(
+      path: string,
+      serialize: Serialize,
+      deserialize: Deserialize,
+      argument: object,
+      metadata: unknown,
+      options: unknown,
+    ): FakeCall {
+      serialize(argument);
+      return this._start(path, serialize, deserialize, metadata, options, true, argument);
+    }
+
+    makeClientStreamRequest(
+      path: string,
+      serialize: Serialize,
+      deserialize: Deserialize,
+      metadata: unknown,
+      options: unknown,
+    ): FakeCall {
+      return this._start(path, serialize, deserialize, metadata, options, false);
+    }
+
+    makeBidiStreamRequest(
+      path: string,
+      serialize: Serialize,
+      deserialize: Deserialize,
+      metadata: unknown,
+      options: unknown,
+    ): FakeCall {
+      return this._start(path, serialize, deserialize, metadata, options, true);
+    }
+
+    close(): void {
+      this.closed = true;
+    }
+
+    private _start(
+      path: string,
+      serialize: Serialize,
+      deserialize: Deserialize,
+      metadata: unknown,
+      options: unknown,
+      responseStream: boolean,
+      argument?: object,
+    ): FakeCall {
+      const call = new FakeCall(serialize, deserialize);
+      this.calls.push({ argument, call, metadata, options, path });
+      const { code, details, responses } = FakeClient.reply;
+      setTimeout(() => {
+        for (const response of responses) {
+          call.emit('data', deserialize(Buffer.from(response)));
+        }
+        // Like grpc-js, only calls streaming their responses emit failures
+        if (code !== 0 && responseStream) call.emit('error', new Error(details));
+        call.emit('status', { code, details, metadata: {} });
+      }, 1);
+      return call;
+    }
+  }
+  return { FakeClient };
+});
+
+vi.mock('@grpc/grpc-js', async (importOriginal) => {
+  const { credentials, Metadata, status } = await importOriginal<typeof import('@grpc/grpc-js')>();
+  return { Client: FakeClient, credentials, Metadata, status };
+});
+
+vi.mock('@grpc/proto-loader', () => ({ load: vi.fn() }));
+
+vi.mock('./agent-manager', () => ({
+  globalAgentManager: {
+    getTlsOptions: vi.fn(),
+  },
+}));
+
+const method = (
+  name: string,
+  requestStream: boolean,
+  responseStream: boolean,
+): Record<string, unknown> => ({
+  path: `/echo.Echo/${name}`,
+  requestSerialize: (value: object): Buffer => Buffer.from(JSON.stringify(value)),
+  requestStream,
+  responseDeserialize: (buffer: Buffer): object => ({ text: buffer.toString() }),
+  responseStream,
+});
+
+function createGrpcConfig(
+  overrides: Partial<TressiGrpcConfig> = {},
+): Pick<TressiGrpcConfig, 'message' | 'metadata' | 'method' | 'protoPath' | 'service' | 'url'> {
+  return {
+    message: { text: 'hi' },
+    metadata: {},
+    method: 'Say',
+    protoPath: './echo.proto',
+    service: 'echo.Echo',
+    url: 'http://localhost:50051',
+    ...overrides,
+  };
+}
+
+describe('GrpcExecutor', () => {
+  let executor: GrpcExecutor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    FakeClient.instances = [];
+    FakeClient.reply = { code: 0, details: 'OK', responses: ['hello'] };
+    vi.mocked(load).mockResolvedValue({
+      'echo.Echo': {
+        Collect: method('Collect', true, false),
+        Say: method('Say', false, false),
+        Subscribe: method('Subscribe', false, true),
+        Talk: method('Talk', true, true),
+      },
+      'echo.Message': { format: 'Protocol Buffer 3 DescriptorProto', type: {} },
+    } as unknown as Awaited<ReturnType<typeof load>>);
+    executor = new GrpcExecutor();
+  });
+
+  it('should make unary calls with metadata, authorization and a deadline', async () => {
+    const before = Date.now();
+    const result = await executor.execute(createGrpcConfig({ metadata: { 'x-tenant': 'acme' } }), {
+      authorization: 'Bearer token',
+      timeouts: { connectMs: 250, headersMs: 500, totalMs: 1000 },
+    });
+
+    const client = FakeClient.instances[0];
+    const { argument, metadata, options, path } = client.calls[0];
+    expect(result).toEqual({
+      bytesReceived: 5,
+      bytesSent: 13,
+      latencyMs: expect.any(Number),
+      messagesReceived: 1,
+      messagesSent: 1,
+      statusCode: 0,
+      success: true,
+    });
+    expect(client.target).toBe('localhost:50051');
+    expect(path).toBe('/echo.Echo/Say');
+    expect(argument).toEqual({ text: 'hi' });
+    expect((metadata as { getMap(): object }).getMap()).toEqual({
+      authorization: 'Bearer token',
+      'x-tenant': 'acme',
+    });
+    expect((options as { deadline: number }).deadline).toBeGreaterThanOrEqual(before + 1000);
+    expect(load).toHaveBeenCalledWith('./echo.proto', expect.objectContaining({ keepCase: true }));
+  });
+
+  it('should count every message of a server streaming call', async () => {
+    FakeClient.reply.responses = ['a', 'bb', 'ccc'];
+
+    const result = await executor.execute(createGrpcConfig({ method: 'Subscribe' }), {});
+
+    expect(result.success).toBe(true);
+    expect(result.messagesReceived).toBe(3);
+    expect(result.bytesReceived).toBe(6);
+  });
+
+  it('should stream each message of client and bidirectional streaming calls', async () => {
+    const messages = [{ text: 'one' }, { text: 'two' }];
+
+    const collected = await executor.execute(
+      createGrpcConfig({ message: messages, method: 'Collect' }),
+      {},
+    );
+    const talked = await executor.execute(
+      createGrpcConfig({ message: messages, method: 'Talk' }),
+      {},
+    );
+
+    const [collect, talk] = FakeClient.instances[0].calls;
+    expect(collect.call.written).toEqual(messages);
+    expect(collect.call.ended).toBe(true);
+    expect(talk.call.written).toEqual(messages);
+    expect(collected.messagesSent).toBe(2);
+    expect(talked.messagesSent).toBe(2);
+    expect(talked.messagesReceived).toBe(1);
+  });
+
+  it('should reuse the loaded .proto file and the client of a server', async () => {
+    await executor.execute(createGrpcConfig(), {});
+    await executor.execute(createGrpcConfig({ method: 'Subscribe' }), {});
+    await executor.execute(createGrpcConfig({ url: 'http://localhost:50052' }), {});
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(FakeClient.instances).toHaveLength(2);
+    expect(FakeClient.instances[0].calls).toHaveLength(2);
+  });
+
+  it('should load a .proto file again after a failed load', async () => {
+    vi.mocked(load).mockRejectedValueOnce(new Error('EMFILE: too many open files'));
+
+    await expect(executor.execute(createGrpcConfig(), {})).rejects.toThrow('EMFILE');
+    const result = await executor.execute(createGrpcConfig(), {});
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(true);
+  });
+
+  it('should report statuses other than OK as failures', async () => {
+    FakeClient.reply = { code: 5, details: 'User 42 not found', responses: [] };
+
+    const result = await executor.execute(createGrpcConfig(), {});
+    const streamed = await executor.execute(createGrpcConfig({ method: 'Subscribe' }), {});
+
+    expect(streamed.statusCode).toBe(5);
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(5);
+    expect(result.errorKind).toBe('grpcStatus');
+    expect(result.errorCategory).toBeUndefined();
+    expect(result.error).toBe('gRPC NOT_FOUND');
+    expect(result.detail).toBe('User 42 not found');
+  });
+
+  it('should categorize exceeded deadlines and unreachable servers', async () => {
+    FakeClient.reply = { code: 4, details: 'Deadline exceeded', responses: [] };
+    const timedOut = await executor.execute(createGrpcConfig(), {});
+    FakeClient.reply = {
+      code: 14,
+      details: 'No connection established. Last error: connect ECONNREFUSED 127.0.0.1:50051',
+      responses: [],
+    };
+    const refused = await executor.execute(createGrpcConfig(), {});
+    FakeClient.reply = { code: 14, details: 'Connection dropped', responses: [] };
+    const unavailable = await executor.execute(createGrpcConfig(), {});
+
+    expect(timedOut.errorKind).toBe('timeout');
+    expect(timedOut.errorCategory).toBe('timeout');
+    expect(refused.errorKind).toBe('connectionRefused');
+    expect(refused.error).toContain('ECONNREFUSED');
+    expect(unavailable.errorKind).toBe('grpcStatus');
+    expect(unavailable.error).toBe('gRPC UNAVAILABLE');
+  });
+
+  it('should use TLS with the options of the origin for https servers', async () => {
+    vi.mocked(globalAgentManager.getTlsOptions).mockReturnValue({
+      rejectUnauthorized: false,
+      servername: 'grpc.internal',
+    });
+
+    await executor.execute(createGrpcConfig({ url: 'https://grpc.example.com' }), {});
+
+    const client = FakeClient.instances[0];
+    expect(globalAgentManager.getTlsOptions).toHaveBeenCalledWith('https://grpc.example.com');
+    expect(client.target).toBe('grpc.example.com:443');
+    expect((client.credentials as { _isSecure(): boolean })._isSecure()).toBe(true);
+    expect(client.channelOptions).toEqual({ 'grpc.ssl_target_name_override': 'grpc.internal' });
+  });
+
+  it('should throw for services and methods not declared in the .proto file', async () => {
+    await expect(
+      executor.execute(createGrpcConfig({ service: 'echo.Missing' }), {}),
+    ).rejects.toThrow('Service echo.Missing is not declared in ./echo.proto');
+    await expect(
+      executor.execute(createGrpcConfig({ service: 'echo.Message' }), {}),
+    ).rejects.toThrow('Service echo.Message is not declared in ./echo.proto');
+    await expect(executor.execute(createGrpcConfig({ method: 'Shout' }), {})).rejects.toThrow(
+      'Method Shout is not declared by service echo.Echo',
+    );
+  });
+
+  it('should reject several messages for methods without a request stream', async () => {
+    await expect(
+      executor.execute(createGrpcConfig({ message: [{ text: 'a' }, { text: 'b' }] }), {}),
+    ).rejects.toThrow('Method echo.Echo/Say takes a single request message');
+  });
+
+  it('should close the clients', async () => {
+    await executor.execute(createGrpcConfig(), {});
+
+    executor.close();
+
+    expect(FakeClient.instances[0].closed).toBe(true);
+  });
+});
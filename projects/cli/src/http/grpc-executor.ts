@@ -0,0 +1,282 @@
+import { performance } from 'node:perf_hooks';
+import type { Readable } from 'node:stream';
+import {
+  type ChannelOptions,
+  Client,
+  type ClientDuplexStream,
+  type ClientReadableStream,
+  type ClientUnaryCall,
+  type ClientWritableStream,
+  credentials,
+  Metadata,
+  type StatusObject,
+  status,
+} from '@grpc/grpc-js';
+import {
+  load,
+  type MethodDefinition,
+  type Options,
+  type PackageDefinition,
+} from '@grpc/proto-loader';
+import type { GrpcCallOptions, GrpcCallResult } from '@tressi/shared/cli';
+import {
+  grpcStatusCodeDefaults,
+  type RequestErrorCategory,
+  type TressiGrpcConfig,
+  timeoutDefaults,
+} from '@tressi/shared/common';
+
+import { globalAgentManager } from './agent-manager';
+
+/** How JSON messages map to protobuf messages and back */
+const protoLoaderOptions: Options = {
+  defaults: true,
+  enums: String,
+  keepCase: true,
+  longs: String,
+  oneofs: true,
+};
+
+type GrpcCall =
+  | ClientUnaryCall
+  | ClientReadableStream<object>
+  | ClientWritableStream<object>
+  | ClientDuplexStream<object, object>;
+
+/**
+ * Executes the calls of gRPC endpoints. Unary, client streaming, server streaming and
+ * bidirectional streaming methods are supported.
+ *
+ * @remarks
+ * Each .proto file is loaded once, and calls to the same server share one client and its
+ * HTTP/2 connection. Calls to https:// servers use the TLS options of their origin.
+ */
+export class GrpcExecutor {
+  private readonly _definitions: Map<string, Promise<PackageDefinition>> = new Map();
+  private readonly _clients: Map<string, Client> = new Map();
+
+  /**
+   * Runs a single call of a gRPC endpoint.
+   *
+   * @param grpc - The endpoint, with its placeholders resolved
+   * @param options - Authorization and timeouts of the call
+   * @returns Status code, latency, message counts and outcome of the call
+   * @throws {Error} When the .proto file cannot be loaded or does not declare the method
+   *
+   * @remarks
+   * The message is sent as the only request of unary and server streaming methods. Client and
+   * bidirectional streaming methods send each message of an array in order, then half close the
+   * call. Every response message is read, and the call ends with the status of the server.
+   * The total timeout is the deadline of the call.
+   */
+  async execute(
+    grpc: Pick<
+      TressiGrpcConfig,
+      'message' | 'metadata' | 'method' | 'protoPath' | 'service' | 'url'
+    >,
+    options: GrpcCallOptions,
+  ): Promise<GrpcCallResult> {
+    const method = await this._getMethod(grpc);
+    const messages = Array.isArray(grpc.message) ? grpc.message : [grpc.message];
+    if (!method.requestStream && messages.length !== 1) {
+      throw new Error(`Method ${grpc.service}/${grpc.method} takes a single request message`);
+    }
+
+    const result: GrpcCallResult = {
+      bytesReceived: 0,
+      bytesSent: 0,
+      latencyMs: 0,
+      messagesReceived: 0,
+      messagesSent: 0,
+      statusCode: status.UNKNOWN,
+      success: false,
+    };
+
+    const metadata = new Metadata();
+    for (const [key, value] of Object.entries(grpc.metadata)) {
+      metadata.add(key, value);
+    }
+    if (options.authorization) {
+      metadata.set('authorization', options.authorization);
+    }
+
+    const serialize = (value: object): Buffer => {
+      const buffer = method.requestSerialize(value);
+      result.messagesSent++;
+      result.bytesSent += buffer.length;
+      return buffer;
+    };
+    const deserialize = (buffer: Buffer): object => {
+      result.messagesReceived++;
+      result.bytesReceived += buffer.length;
+      return method.responseDeserialize(buffer);
+    };
+
+    const client = this._getClient(grpc.url);
+    const callOptions = {
+      deadline: Date.now() + (options.timeouts?.totalMs ?? timeoutDefaults.totalMs),
+    };
+    const noop = (): void => {};
+    const startTime = performance.now();
+
+    let call: GrpcCall;
+    if (method.requestStream) {
+      const stream = method.responseStream
+        ? this._readResponses(
+            client.makeBidiStreamRequest(
+              method.path,
+              serialize,
+              deserialize,
+              metadata,
+              callOptions,
+            ),
+          )
+        : client.makeClientStreamRequest(
+            method.path,
+            serialize,
+            deserialize,
+            metadata,
+            callOptions,
+            noop,
+          );
+      for (const message of messages) {
+        stream.write(message);
+      }
+      stream.end();
+      call = stream;
+    } else if (method.responseStream) {
+      call = this._readResponses(
+        client.makeServerStreamRequest(
+          method.path,
+          serialize,
+          deserialize,
+          messages[0],
+          metadata,
+          callOptions,
+        ),
+      );
+    } else {
+      call = client.makeUnaryRequest(
+        method.path,
+        serialize,
+        deserialize,
+        messages[0],
+        metadata,
+        callOptions,
+        noop,
+      );
+    }
+
+    const callStatus = await new Promise<StatusObject>((resolve) => call.on('status', resolve));
+    result.latencyMs = performance.now() - startTime;
+    result.statusCode = callStatus.code;
+    result.success = callStatus.code === status.OK;
+
+    if (!result.success) {
+      const statusName = grpcStatusCodeDefaults[callStatus.code] ?? String(callStatus.code);
+      const category = this._categorizeStatus(callStatus);
+      result.errorCategory = category;
+      result.errorKind = category ?? 'grpcStatus';
+      result.error = category ? callStatus.details || statusName : `gRPC ${statusName}`;
+      result.detail = callStatus.details || undefined;
+    }
+
+    return result;
+  }
+
+  /**
+   * Closes the clients and their connections
+   */
+  close(): void {
+    for (const client of this._clients.values()) {
+      client.close();
+    }
+    this._clients.clear();
+  }
+
+  /**
+   * Reads the response messages of a streaming call, which are only counted. Failures are
+   * reported by the status of the call.
+   */
+  private _readResponses<T extends Readable>(stream: T): T {
+    stream.on('error', () => {});
+    stream.on('data', () => {});
+    return stream;
+  }
+
+  /**
+   * Maps a status to the network error category of the failure behind it, if any.
+   *
+   * @remarks
+   * An exceeded deadline is a timeout. Servers that cannot be reached leave the call
+   * `UNAVAILABLE`, and only the details of the status tell refused connections and failed DNS
+   * lookups apart.
+   */
+  private _categorizeStatus(callStatus: StatusObject): RequestErrorCategory | undefined {
+    if (callStatus.code === status.DEADLINE_EXCEEDED) return 'timeout';
+    if (callStatus.code !== status.UNAVAILABLE) return undefined;
+    if (callStatus.details.includes('ECONNREFUSED')) return 'connectionRefused';
+    if (/ENOTFOUND|EAI_AGAIN|Name resolution failed/.test(callStatus.details)) return 'dns';
+    return undefined;
+  }
+
+  /**
+   * Looks up the definition of the called method in its .proto file.
+   */
+  private async _getMethod(
+    grpc: Pick<TressiGrpcConfig, 'method' | 'protoPath' | 'service'>,
+  ): Promise<MethodDefinition<object, object>> {
+    let definition = this._definitions.get(grpc.protoPath);
+    if (!definition) {
+      definition = load(grpc.protoPath, protoLoaderOptions).catch((error: Error) => {
+        this._definitions.delete(grpc.protoPath);
+        throw error;
+      });
+      this._definitions.set(grpc.protoPath, definition);
+    }
+
+    const service = (await definition)[grpc.service];
+    // Messages and enums of the package are declared alongside the services, with a format
+    if (!service || 'format' in service) {
+      throw new Error(`Service ${grpc.service} is not declared in ${grpc.protoPath}`);
+    }
+    const method = service[grpc.method];
+    if (!method) {
+      throw new Error(`Method ${grpc.method} is not declared by service ${grpc.service}`);
+    }
+    return method as MethodDefinition<object, object>;
+  }
+
+  /**
+   * Gets or creates the client of a server.
+   *
+   * @param url - The http:// or https:// origin of the server
+   */
+  private _getClient(url: string): Client {
+    let client = this._clients.get(url);
+    if (client) return client;
+
+    const { hostname, port, protocol } = new URL(url);
+    const secure = protocol === 'https:';
+    const target = `${hostname}:${port || (secure ? 443 : 80)}`;
+    const channelOptions: ChannelOptions = {};
+
+    let channelCredentials = credentials.createInsecure();
+    if (secure) {
+      const tls = globalAgentManager.getTlsOptions(url);
+      channelCredentials = credentials.createSsl(
+        tls?.ca ? Buffer.from(tls.ca) : null,
+        tls?.key ? Buffer.from(tls.key) : null,
+        tls?.cert ? Buffer.from(tls.cert) : null,
+        { rejectUnauthorized: tls?.rejectUnauthorized },
+      );
+      if (tls?.servername) {
+        channelOptions['grpc.ssl_target_name_override'] = tls.servername;
+      }
+    }
+
+    client = new Client(target, channelCredentials, channelOptions);
+    this._clients.set(url, client);
+    return client;
+  }
+}
@@ -23,6 +23,8 @@ vi.mock('./agent-manager', () => ({
 // Helper to create a minimal request config with required fields
 function createRequestConfig(overrides: Partial<TressiRequestConfig> = {}): TressiRequestConfig {
   const defaults: TressiRequestConfig = {
+    bodyType: 'json',
+    checks: [],
     earlyExit: {
       enabled: false,
       errorRateThreshold: 0,
@@ -34,6 +36,9 @@ function createRequestConfig(overrides: Partial<TressiRequestConfig> = {}): Tres
     payload: {},
     rampUpDurationSec: 0,
     rps: 1,
+    sendBody: true,
+    stages: [],
+    thresholds: [],
     url: 'http://example.com/api/test',
   };
   return { ...defaults, ...overrides } as TressiRequestConfig;
@@ -233,7 +238,59 @@ describe('RequestExecutor', () => {
       );
     });
 
-    it('should not include payload for GET requests', async () => {
+    it('should replace a configured Authorization header with the resolved one', async () => {
+      let capturedHeaders: Record<string, string> = {};
+      mockRequest.mockImplementation(
+        (_url: string, options: { headers: Record<string, string> }) => {
+          capturedHeaders = { ...options.headers };
+          return Promise.resolve({
+            body: { text: vi.fn().mockResolvedValue('{}') },
+            headers: {},
+            statusCode: 200,
+          });
+        },
+      );
+      shouldSampleResponseSpy.mockReturnValue(false);
+
+      await executor.executeRequest(
+        createRequestConfig({ headers: { 'X-Request-Id': 'req-123' } }),
+        { Authorization: 'Bearer stale' },
+        { authorization: 'Bearer fresh' },
+      );
+
+      expect(capturedHeaders).toEqual({ authorization: 'Bearer fresh', 'X-Request-Id': 'req-123' });
+    });
+
+    it('should append the cookies of the jar to a configured Cookie header', async () => {
+      const capturedHeaders: Record<string, string>[] = [];
+      mockRequest.mockImplementation(
+        (_url: string, options: { headers: Record<string, string> }) => {
+          capturedHeaders.push({ ...options.headers });
+          return Promise.resolve({
+            body: { text: vi.fn().mockResolvedValue('{}') },
+            headers: {},
+            statusCode: 200,
+          });
+        },
+      );
+      shouldSampleResponseSpy.mockReturnValue(false);
+
+      await executor.executeRequest(
+        createRequestConfig({ headers: { Cookie: 'locale=en' } }),
+        {},
+        {
+          cookie: 'session=abc',
+        },
+      );
+      await executor.executeRequest(createRequestConfig(), {}, { cookie: 'session=abc' });
+
+      expect(capturedHeaders).toEqual([
+        { cookie: 'locale=en; session=abc' },
+        { cookie: 'session=abc' },
+      ]);
+    });
+
+    it('should not include payload when sendBody is false', async () => {
       const mockResponse = {
         body: {
           text: vi.fn().mockResolvedValue('{}'),
@@ -245,8 +302,9 @@ describe('RequestExecutor', () => {
       shouldSampleResponseSpy.mockReturnValue(false);
 
       const config = createRequestConfig({
-        method: 'GET',
+        method: 'POST',
         payload: { shouldNotBeSent: true },
+        sendBody: false,
         url: 'http://example.com/api/users',
       });
 
@@ -260,7 +318,7 @@ describe('RequestExecutor', () => {
       );
     });
 
-    it('should not include payload for DELETE requests', async () => {
+    it('should include payload for DELETE requests', async () => {
       const mockResponse = {
         body: {
           text: vi.fn().mockResolvedValue(''),
@@ -273,16 +331,41 @@ describe('RequestExecutor', () => {
 
       const config = createRequestConfig({
         method: 'DELETE',
-        payload: { shouldNotBeSent: true },
-        url: 'http://example.com/api/users/1',
+        payload: { ids: [1, 2] },
+        url: 'http://example.com/api/users',
       });
 
       await executor.executeRequest(config);
 
       expect(mockRequest).toHaveBeenCalledWith(
-        'http://example.com/api/users/1',
+        'http://example.com/api/users',
         expect.objectContaining({
-          body: undefined,
+          body: '{"ids":[1,2]}',
+          method: 'DELETE',
+        }),
+      );
+    });
+
+    it('should send custom methods with a body', async () => {
+      mockRequest.mockResolvedValue({ body: { text: vi.fn() }, headers: {}, statusCode: 207 });
+      shouldSampleResponseSpy.mockReturnValue(false);
+
+      const config = createRequestConfig({
+        bodyType: 'text',
+        headers: { 'content-type': 'application/xml' },
+        method: 'PROPFIND',
+        payload: '<propfind xmlns="DAV:"><allprop/></propfind>',
+        url: 'http://example.com/dav/files',
+      });
+
+      const result = await executor.executeRequest(config);
+
+      expect(result.method).toBe('PROPFIND');
+      expect(mockRequest).toHaveBeenCalledWith(
+        'http://example.com/dav/files',
+        expect.objectContaining({
+          body: '<propfind xmlns="DAV:"><allprop/></propfind>',
+          method: 'PROPFIND',
         }),
       );
     });
@@ -588,7 +671,7 @@ describe('RequestExecutor', () => {
       shouldSampleResponseSpy.mockReturnValue(false);
 
       const config = createRequestConfig({
-        method: 'post' as unknown as TressiRequestConfig['method'],
+        method: 'post',
         url: 'http://example.com/api/users',
       });
 
@@ -708,7 +791,9 @@ describe('RequestExecutor', () => {
 
       await executor.executeRequest(config);
 
-      expect(globalAgentManager.getAgent).toHaveBeenCalledWith('http://example.com/api/users');
+      expect(globalAgentManager.getAgent).toHaveBeenCalledWith('http://example.com/api/users', {
+        connectTimeout: 10000,
+      });
       expect(mockRequest).toHaveBeenCalledWith(
         'http://example.com/api/users',
         expect.objectContaining({
@@ -838,6 +923,211 @@ describe('RequestExecutor', () => {
       expect(mockResponse.body.text).not.toHaveBeenCalled();
       expect(result.body).toBeUndefined();
     });
+
+    it('should read and discard the body of a response that is not sampled', async () => {
+      const mockResponse = {
+        body: {
+          dump: vi.fn().mockResolvedValue(undefined),
+          text: vi.fn(),
+        },
+        headers: {},
+        statusCode: 200,
+      };
+      mockRequest.mockResolvedValue(mockResponse);
+      shouldSampleResponseSpy.mockReturnValue(false);
+
+      await executor.executeRequest(createRequestConfig());
+
+      expect(mockResponse.body.text).not.toHaveBeenCalled();
+      expect(mockResponse.body.dump).toHaveBeenCalledWith({ limit: Number.MAX_SAFE_INTEGER });
+    });
+
+    it('should report the timing phases filled in by the agent', async () => {
+      mockRequest.mockImplementation(async (_url, options) => {
+        options.opaque.connection = { connectMs: 3, dnsMs: 2, tlsMs: 0 };
+        options.opaque.sentAt = 10;
+        options.opaque.headersAt = 40;
+        options.opaque.completedAt = 45;
+        return { body: { text: vi.fn().mockResolvedValue('') }, headers: {}, statusCode: 200 };
+      });
+      shouldSampleResponseSpy.mockReturnValue(true);
+
+      const result = await executor.executeRequest(createRequestConfig());
+
+      expect(result.timings).toEqual({ connect: 3, dns: 2, download: 5, tls: 0, ttfb: 30 });
+    });
+
+    it('should report the TLS and HTTP protocol of the connection of the request', async () => {
+      const tls = { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' };
+      mockRequest.mockImplementation(async (_url, options) => {
+        options.opaque.protocol = 'h2';
+        options.opaque.tls = tls;
+        return { body: { text: vi.fn().mockResolvedValue('') }, headers: {}, statusCode: 200 };
+      });
+      shouldSampleResponseSpy.mockReturnValue(true);
+
+      const result = await executor.executeRequest(createRequestConfig());
+      expect(result.tls).toEqual(tls);
+      expect(result.protocol).toBe('h2');
+
+      executor.releaseResultObject(result);
+      expect(result.tls).toBeUndefined();
+      expect(result.protocol).toBeUndefined();
+    });
+
+    it('should read the body without sampling when captureBody is set', async () => {
+      const mockResponse = {
+        body: {
+          text: vi.fn().mockResolvedValue('{"token":"abc"}'),
+        },
+        headers: {},
+        statusCode: 200,
+      };
+      mockRequest.mockResolvedValue(mockResponse);
+      shouldSampleResponseSpy.mockReturnValue(false);
+
+      const config = createRequestConfig({
+        method: 'GET',
+        url: 'http://example.com/api/cart/42',
+      });
+
+      const result = await executor.executeRequest(config, undefined, {
+        captureBody: true,
+        endpointKey: 'GET http://example.com/api/cart/{{id}}',
+      });
+
+      expect(shouldSampleResponseSpy).toHaveBeenCalledWith(
+        'GET',
+        'GET http://example.com/api/cart/{{id}}',
+        200,
+      );
+      expect(result.body).toBe('{"token":"abc"}');
+      expect(result.sampled).toBe(false);
+      expect(result.url).toBe('http://example.com/api/cart/42');
+    });
+  });
+
+  describe('timeouts', () => {
+    const mockResponse = {
+      body: { text: vi.fn().mockResolvedValue('{}') },
+      headers: {},
+      statusCode: 200,
+    };
+
+    it('should apply the default headers and total timeouts', async () => {
+      mockRequest.mockResolvedValue(mockResponse);
+
+      await executor.executeRequest(createRequestConfig());
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        'http://example.com/api/test',
+        expect.objectContaining({
+          bodyTimeout: 60000,
+          headersTimeout: 30000,
+          signal: expect.any(AbortSignal),
+        }),
+      );
+    });
+
+    it('should let request timeouts override the global timeouts', async () => {
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+      mockRequest.mockResolvedValue(mockResponse);
+
+      await executor.executeRequest(
+        createRequestConfig({ timeouts: { headersMs: 500 } }),
+        undefined,
+        { timeouts: { connectMs: 2000, headersMs: 4000, totalMs: 8000 } },
+      );
+
+      expect(globalAgentManager.getAgent).toHaveBeenCalledWith('http://example.com/api/test', {
+        connectTimeout: 2000,
+      });
+      expect(mockRequest).toHaveBeenCalledWith(
+        'http://example.com/api/test',
+        expect.objectContaining({ bodyTimeout: 8000, headersTimeout: 500 }),
+      );
+
+      process.env.NODE_ENV = originalEnv;
+    });
+
+    it('should record a timeout when the body arrives after the total timeout', async () => {
+      mockRequest.mockResolvedValue({
+        body: {
+          text: () => new Promise((resolve) => setTimeout(() => resolve('{}'), 30)),
+        },
+        headers: {},
+        statusCode: 200,
+      });
+
+      const result = await executor.executeRequest(
+        createRequestConfig({ timeouts: { totalMs: 1 } }),
+        undefined,
+        { captureBody: true },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(0);
+      expect(result.errorCategory).toBe('timeout');
+    });
+
+    it.each([
+      ['a total timeout', new DOMException('The operation was aborted', 'TimeoutError'), 'timeout'],
+      [
+        'a headers timeout',
+        Object.assign(new Error('Headers'), { code: 'UND_ERR_HEADERS_TIMEOUT' }),
+        'timeout',
+      ],
+      [
+        'a connect timeout',
+        Object.assign(new Error('Connect'), { code: 'UND_ERR_CONNECT_TIMEOUT' }),
+        'timeout',
+      ],
+      [
+        'a refused connection',
+        Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }),
+        'connectionRefused',
+      ],
+      ['a DNS failure', Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }), 'dns'],
+      [
+        'an expired certificate',
+        Object.assign(new Error('expired'), { code: 'CERT_HAS_EXPIRED' }),
+        'tls',
+      ],
+      [
+        'a TLS host mismatch',
+        Object.assign(new Error('altname'), { code: 'ERR_TLS_CERT_ALTNAME_INVALID' }),
+        'tls',
+      ],
+      [
+        'a wrapped cause',
+        new Error('fetch failed', {
+          cause: Object.assign(new Error('dns'), { code: 'EAI_AGAIN' }),
+        }),
+        'dns',
+      ],
+      ['a reset connection', Object.assign(new Error('reset'), { code: 'ECONNRESET' }), undefined],
+    ])('should categorize %s', async (_, error, category) => {
+      mockRequest.mockRejectedValue(error);
+
+      const result = await executor.executeRequest(createRequestConfig());
+
+      expect(result.success).toBe(false);
+      expect(result.errorCategory).toBe(category);
+    });
+
+    it('should capture the error code of a wrapped cause', async () => {
+      mockRequest.mockRejectedValue(
+        new Error('fetch failed', {
+          cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+        }),
+      );
+
+      const result = await executor.executeRequest(createRequestConfig());
+
+      expect(result.error).toBe('fetch failed');
+      expect(result.errorCode).toBe('ECONNRESET');
+    });
   });
 
   describe('releaseResultObject', () => {
@@ -963,7 +1253,17 @@ describe('RequestExecutor', () => {
 
   describe('edge cases', () => {
     it('should handle request with all HTTP methods', async () => {
-      const methods: TressiRequestConfig['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+      const methods: TressiRequestConfig['method'][] = [
+        'GET',
+        'HEAD',
+        'POST',
+        'PUT',
+        'PATCH',
+        'DELETE',
+        'OPTIONS',
+        'PURGE',
+        'PROPFIND',
+      ];
 
       for (const method of methods) {
         const mockResponse = {
@@ -1165,4 +1465,200 @@ describe('RequestExecutor', () => {
       );
     });
   });
+
+  describe('body types', () => {
+    let capturedOptions: { body?: unknown; headers: Record<string, string> } | undefined;
+
+    beforeEach(() => {
+      capturedOptions = undefined;
+      mockRequest.mockImplementation(
+        (_url: string, options: { body?: unknown; headers: Record<string, string> }) => {
+          capturedOptions = { body: options.body, headers: { ...options.headers } };
+          return Promise.resolve({
+            body: { text: vi.fn().mockResolvedValue('{}') },
+            headers: {},
+            statusCode: 200,
+          });
+        },
+      );
+      shouldSampleResponseSpy.mockReturnValue(false);
+    });
+
+    it('should default the content type of json payloads', async () => {
+      await executor.executeRequest(
+        createRequestConfig({ method: 'POST', payload: { name: 'Ada' } }),
+      );
+
+      expect(capturedOptions?.headers['content-type']).toBe('application/json');
+    });
+
+    it('should not override a content type set by the request', async () => {
+      await executor.executeRequest(
+        createRequestConfig({
+          bodyType: 'text',
+          headers: { 'Content-Type': 'application/xml' },
+          method: 'POST',
+          payload: '<user>Ada</user>',
+        }),
+      );
+
+      expect(capturedOptions?.body).toBe('<user>Ada</user>');
+      expect(capturedOptions?.headers).toEqual({ 'Content-Type': 'application/xml' });
+    });
+
+    it('should send the encoded boundary with a multipart content type set by the request', async () => {
+      const getBoundary = (): string => String(capturedOptions?.body).split('\r\n')[0].slice(2);
+
+      await executor.executeRequest(
+        createRequestConfig({
+          bodyType: 'multipart',
+          headers: { 'Content-Type': 'multipart/form-data' },
+          method: 'POST',
+          payload: { name: 'Ada' },
+        }),
+      );
+      expect(capturedOptions?.headers).toEqual({
+        'content-type': `multipart/form-data; boundary=${getBoundary()}`,
+      });
+
+      await executor.executeRequest(
+        createRequestConfig({
+          bodyType: 'multipart',
+          headers: { 'content-type': 'multipart/mixed; boundary=stale; charset=utf-8' },
+          method: 'POST',
+          payload: { name: 'Ada' },
+        }),
+      );
+      expect(capturedOptions?.headers).toEqual({
+        'content-type': `multipart/mixed; charset=utf-8; boundary=${getBoundary()}`,
+      });
+    });
+
+    it('should encode form payloads and track their size', async () => {
+      const result = await executor.executeRequest(
+        createRequestConfig({
+          bodyType: 'form',
+          method: 'POST',
+          payload: { name: 'Ada Lovelace', role: 'admin' },
+        }),
+      );
+
+      expect(capturedOptions?.body).toBe('name=Ada+Lovelace&role=admin');
+      expect(capturedOptions?.headers['content-type']).toBe('application/x-www-form-urlencoded');
+      expect(result.bytesSent).toBe(28);
+    });
+
+    it('should fail the request when a body file cannot be read', async () => {
+      const result = await executor.executeRequest(
+        createRequestConfig({
+          bodyType: 'binary',
+          method: 'POST',
+          payload: { file: './does-not-exist.bin' },
+        }),
+      );
+
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Failed to read body file ./does-not-exist.bin');
+      expect(result.bytesSent).toBe(0);
+    });
+
+    it('should report the encoded size when the request errors', async () => {
+      mockRequest.mockRejectedValue(new Error('Network error'));
+
+      const result = await executor.executeRequest(
+        createRequestConfig({ bodyType: 'text', method: 'PUT', payload: 'héllo' }),
+      );
+
+      expect(result.error).toBe('Network error');
+      expect(result.bytesSent).toBe(Buffer.byteLength('héllo', 'utf8'));
+    });
+  });
+
+  describe('graphql', () => {
+    let capturedOptions: { body?: unknown; method: string } | undefined;
+
+    const mockGraphqlResponse = (body: string, statusCode: number = 200): void => {
+      mockRequest.mockImplementation(
+        (_url: string, options: { body?: unknown; method: string }) => {
+          capturedOptions = { body: options.body, method: options.method };
+          return Promise.resolve({
+            body: { dump: vi.fn(), text: vi.fn().mockResolvedValue(body) },
+            headers: {},
+            statusCode,
+          });
+        },
+      );
+    };
+
+    const createGraphqlConfig = (): TressiRequestConfig =>
+      createRequestConfig({
+        graphql: {
+          operationName: 'GetUser',
+          query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+          variables: { id: '7' },
+        },
+        method: 'POST',
+        url: 'http://example.com/graphql',
+      });
+
+    it('should send the operation as the JSON body', async () => {
+      mockGraphqlResponse('{"data":{"user":{"name":"Ada"}}}');
+
+      const result = await executor.executeRequest(createGraphqlConfig(), undefined, {
+        endpointKey: 'GetUser',
+      });
+
+      expect(capturedOptions?.method).toBe('POST');
+      expect(JSON.parse(capturedOptions?.body as string)).toEqual({
+        operationName: 'GetUser',
+        query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+        variables: { id: '7' },
+      });
+      expect(result.success).toBe(true);
+      expect(result.graphqlErrors).toBeUndefined();
+      expect(shouldSampleResponseSpy).toHaveBeenCalledWith('POST', 'GetUser', 200, false);
+    });
+
+    it('should fail a response with errors and keep their messages', async () => {
+      mockGraphqlResponse(
+        '{"data":null,"errors":[{"message":"User not found","path":["user"]},{"extensions":{}}]}',
+      );
+
+      const result = await executor.executeRequest(createGraphqlConfig(), undefined, {
+        endpointKey: 'GetUser',
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.success).toBe(false);
+      expect(result.graphqlErrors).toEqual(['User not found', '{"extensions":{}}']);
+      expect(result.sampled).toBe(true);
+      expect(shouldSampleResponseSpy).toHaveBeenCalledWith('POST', 'GetUser', 200, true);
+    });
+
+    it('should leave responses with an empty errors field or without JSON to their status', async () => {
+      mockGraphqlResponse('{"data":{},"errors":[]}');
+      const empty = await executor.executeRequest(createGraphqlConfig());
+      expect(empty.success).toBe(true);
+      expect(empty.graphqlErrors).toBeUndefined();
+
+      mockGraphqlResponse('Bad Gateway', 502);
+      const notJson = await executor.executeRequest(createGraphqlConfig());
+      expect(notJson.success).toBe(false);
+      expect(notJson.graphqlErrors).toBeUndefined();
+    });
+
+    it('should fail the request when the query file cannot be read', async () => {
+      const result = await executor.executeRequest(
+        createRequestConfig({
+          graphql: { queryFile: './does-not-exist.graphql', variables: {} },
+          method: 'POST',
+        }),
+      );
+
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Failed to read GraphQL query file ./does-not-exist.graphql');
+    });
+  });
 });
@@ -1,10 +1,76 @@
 import { performance } from 'node:perf_hooks';
-import type { RequestResult, TressiRequestConfig } from '@tressi/shared/common';
+import type { RequestExecutionOptions } from '@tressi/shared/cli';
+import type {
+  RequestErrorCategory,
+  RequestResult,
+  TressiRequestConfig,
+  TressiTimeoutsConfig,
+} from '@tressi/shared/common';
+import { timeoutDefaults } from '@tressi/shared/common';
 import { request } from 'undici';
 
 import { globalAgentManager } from './agent-manager';
+import { BodyEncoder } from './body-encoder';
+import { RequestTiming } from './request-timing';
 import type { ResponseSampler } from './response-sampler';
 
+const timeoutErrorCodes: ReadonlySet<string> = new Set([
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'ETIMEDOUT',
+]);
+
+const dnsErrorCodes: ReadonlySet<string> = new Set([
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EAI_FAIL',
+  'EAI_NODATA',
+  'EAI_NONAME',
+]);
+
+const tlsErrorCodes: ReadonlySet<string> = new Set([
+  'EPROTO',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_UNTRUSTED',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'HOSTNAME_MISMATCH',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+]);
+
+/**
+ * Maps a network error to its category from its error code, looking through wrapped causes.
+ * Errors that fit no category, such as a reset connection, return undefined.
+ */
+export function categorizeRequestError(err: unknown): RequestErrorCategory | undefined {
+  const error = err as { cause?: unknown; code?: unknown; name?: unknown } | undefined;
+  if (!error) return undefined;
+
+  const code = typeof error.code === 'string' ? error.code : '';
+  if (error.name === 'TimeoutError' || timeoutErrorCodes.has(code)) return 'timeout';
+  if (code === 'ECONNREFUSED') return 'connectionRefused';
+  if (dnsErrorCodes.has(code)) return 'dns';
+  if (tlsErrorCodes.has(code) || code.startsWith('ERR_TLS_') || code.startsWith('ERR_SSL_')) {
+    return 'tls';
+  }
+
+  return error.cause ? categorizeRequestError(error.cause) : undefined;
+}
+
+/**
+ * Gets the code of a network error, looking through wrapped causes
+ */
+export function getRequestErrorCode(err: unknown): string | undefined {
+  const error = err as { cause?: unknown; code?: unknown } | undefined;
+  if (!error) return undefined;
+  if (typeof error.code === 'string') return error.code;
+  return error.cause ? getRequestErrorCode(error.cause) : undefined;
+}
+
 /**
  * Executes HTTP requests and handles the complete request lifecycle.
  * This class manages HTTP request execution, response processing, and error handling.
@@ -14,9 +80,11 @@ export class RequestExecutor {
   private readonly _resultPool: RequestResult[];
   private readonly _maxPoolSize: number;
   private readonly _responseSampler: ResponseSampler;
+  private readonly _bodyEncoder: BodyEncoder;
 
   constructor(responseSampler: ResponseSampler, maxPoolSize: number = 1000) {
     this._responseSampler = responseSampler;
+    this._bodyEncoder = new BodyEncoder();
     this._headersPool = [];
     this._resultPool = [];
     this._maxPoolSize = maxPoolSize;
@@ -26,62 +94,111 @@ export class RequestExecutor {
    * Executes a single HTTP request and returns the result.
    * @param req The request configuration
    * @param globalHeaders Optional global headers to merge with request headers
+   * @param options Optional per-call options such as forcing the body to be read
    * @returns Promise<RequestResult> The request result
+   *
+   * @remarks
+   * The total timeout covers the whole request including reading the body, so a response
+   * whose body arrives too late is recorded as a timeout even though its headers were received.
+   * Bodies that are not captured are read and discarded, so the download of every response is
+   * timed and its connection can be reused. Cookies from the cookie jar are appended to a
+   * configured Cookie header rather than replacing it.
+   *
+   * GraphQL requests send their operation as the body, and their responses are always read so
+   * that a non-empty `errors` field fails the request. Responses with errors are sampled apart
+   * from those without, so the samples of an endpoint show its error messages.
    */
   async executeRequest(
     req: TressiRequestConfig,
     globalHeaders?: Record<string, string>,
+    options?: RequestExecutionOptions,
   ): Promise<RequestResult> {
     const start = performance.now();
     const headers = this._getHeadersObject();
     const result = this._getResultObject();
+    let bytesSent = 0;
+    const timeouts = this._resolveTimeouts(options?.timeouts, req.timeouts);
+    const signal = AbortSignal.timeout(timeouts.totalMs);
+    const timing = new RequestTiming();
 
     try {
       Object.assign(headers, globalHeaders, req.headers);
-      const requestBody = this._hasValidPayload(req.payload, req.method)
-        ? JSON.stringify(req.payload)
-        : undefined;
-      const bytesSent = requestBody ? Buffer.byteLength(requestBody, 'utf8') : 0;
+      if (options?.authorization) {
+        this._deleteHeader(headers, 'authorization');
+        headers.authorization = options.authorization;
+      }
+      if (options?.cookie) {
+        const configured = this._getHeader(headers, 'cookie');
+        this._deleteHeader(headers, 'cookie');
+        headers.cookie = configured ? `${configured}; ${options.cookie}` : options.cookie;
+      }
+      const encodedBody = req.graphql
+        ? await this._bodyEncoder.encodeGraphql(req.graphql)
+        : this._hasValidPayload(req.payload, req.sendBody)
+          ? await this._bodyEncoder.encode(req.bodyType ?? 'json', req.payload)
+          : undefined;
+      if (encodedBody) {
+        bytesSent = encodedBody.bytes;
+        const contentType = this._getHeader(headers, 'content-type');
+        if (!contentType) {
+          headers['content-type'] = encodedBody.contentType;
+        } else if (!req.graphql && req.bodyType === 'multipart') {
+          this._deleteHeader(headers, 'content-type');
+          headers['content-type'] = this._withBoundary(contentType, encodedBody.contentType);
+        }
+      }
       const isTest = process.env.NODE_ENV === 'test';
-      const dispatcher = isTest ? undefined : globalAgentManager.getAgent(req.url);
+      const dispatcher = isTest
+        ? undefined
+        : globalAgentManager.getAgent(req.url, { connectTimeout: timeouts.connectMs });
 
       const {
         statusCode,
         body: responseBody,
         headers: responseHeaders,
       } = await request(req.url, {
-        body: requestBody,
+        body: encodedBody?.body,
+        bodyTimeout: timeouts.totalMs,
         dispatcher,
         headers,
+        headersTimeout: timeouts.headersMs,
         method: req.method || 'GET',
+        opaque: timing,
+        signal,
       });
 
       const method = req.method || 'GET';
       const latencyMs = Math.max(0, performance.now() - start);
-      const { body, responseBodySize } = await this._handleResponseBody(
+      const { body, graphqlErrors, responseBodySize, sampled } = await this._handleResponseBody(
         responseBody,
         method,
-        req.url,
+        options?.endpointKey ?? req.url,
         statusCode,
         responseHeaders,
+        options?.captureBody ?? false,
+        req.graphql !== undefined,
       );
+      signal.throwIfAborted();
 
       result.method = method;
       result.url = req.url;
       result.status = statusCode;
       result.latencyMs = latencyMs;
-      result.success = statusCode >= 200 && statusCode < 300;
+      result.success = statusCode >= 200 && statusCode < 300 && !graphqlErrors;
+      result.graphqlErrors = graphqlErrors;
       result.body = body;
+      result.sampled = sampled;
       result.headers = responseHeaders;
       result.timestamp = performance.now();
       result.bytesSent = bytesSent;
       result.bytesReceived = responseBodySize;
+      result.timings = timing.getTimings();
+      result.tls = timing.tls ?? undefined;
+      result.protocol = timing.protocol ?? undefined;
 
       return result;
     } catch (err) {
       const latencyMs = Math.max(0, performance.now() - start);
-      const requestBody = req.payload === undefined ? undefined : JSON.stringify(req.payload);
-      const bytesSent = requestBody ? Buffer.byteLength(requestBody, 'utf8') : 0;
 
       result.method = req.method || 'GET';
       result.url = req.url;
@@ -89,6 +206,10 @@ export class RequestExecutor {
       result.latencyMs = latencyMs;
       result.success = false;
       result.error = (err as Error).message;
+      result.errorCategory = categorizeRequestError(err);
+      result.errorCode = getRequestErrorCode(err);
+      // A request that failed after it was handed to a connection was still sent over its protocol
+      result.protocol = timing.protocol ?? undefined;
       result.timestamp = performance.now();
       result.bytesSent = bytesSent;
       result.bytesReceived = 0;
@@ -100,12 +221,22 @@ export class RequestExecutor {
   }
 
   private async _handleResponseBody(
-    responseBody: { text(): Promise<string> } | null | undefined,
+    responseBody:
+      | { text(): Promise<string>; dump?(options?: { limit: number }): Promise<unknown> }
+      | null
+      | undefined,
     method: string,
     url: string,
     statusCode: number,
     responseHeaders: Record<string, string | string[] | undefined>,
-  ): Promise<{ body: string | undefined; responseBodySize: number }> {
+    captureBody: boolean,
+    graphql: boolean,
+  ): Promise<{
+    body: string | undefined;
+    graphqlErrors?: string[];
+    responseBodySize: number;
+    sampled: boolean;
+  }> {
     let responseBodySize = 0;
     let body: string | undefined;
 
@@ -115,17 +246,20 @@ export class RequestExecutor {
         const contentLengthValue = Array.isArray(contentLength) ? contentLength[0] : contentLength;
         responseBodySize = Number.parseInt(contentLengthValue, 10) || 0;
       }
-      return { body: undefined, responseBodySize };
+      return { body: undefined, responseBodySize, sampled: false };
     }
 
-    const shouldSampleBody = this._responseSampler.shouldSampleResponse(method, url, statusCode);
-    if (!shouldSampleBody) {
+    // GraphQL responses are sampled once their errors are known
+    let shouldSampleBody =
+      !graphql && this._responseSampler.shouldSampleResponse(method, url, statusCode);
+    if (!shouldSampleBody && !captureBody && !graphql) {
       const contentLength = responseHeaders['content-length'];
       if (contentLength) {
         const contentLengthValue = Array.isArray(contentLength) ? contentLength[0] : contentLength;
         responseBodySize = Number.parseInt(contentLengthValue, 10) || 0;
       }
-      return { body: undefined, responseBodySize };
+      await this._discardBody(responseBody);
+      return { body: undefined, responseBodySize, sampled: false };
     }
 
     try {
@@ -136,7 +270,51 @@ export class RequestExecutor {
       responseBodySize = Buffer.byteLength(body, 'utf8');
     }
 
-    return { body, responseBodySize };
+    if (!graphql) {
+      return { body, responseBodySize, sampled: shouldSampleBody };
+    }
+
+    const graphqlErrors = this._getGraphqlErrors(body);
+    shouldSampleBody = this._responseSampler.shouldSampleResponse(
+      method,
+      url,
+      statusCode,
+      graphqlErrors !== undefined,
+    );
+    return { body, graphqlErrors, responseBodySize, sampled: shouldSampleBody };
+  }
+
+  /**
+   * Gets the messages of the errors field of a GraphQL response, or undefined when it has none.
+   * Bodies that are not JSON are left to their status code.
+   */
+  private _getGraphqlErrors(body: string): string[] | undefined {
+    let errors: unknown;
+    try {
+      errors = (JSON.parse(body) as { errors?: unknown } | null)?.errors;
+    } catch {
+      return undefined;
+    }
+    if (!Array.isArray(errors) || errors.length === 0) return undefined;
+
+    return errors.map((error: unknown) => {
+      const message = (error as { message?: unknown } | null)?.message;
+      return typeof message === 'string' ? message : JSON.stringify(error);
+    });
+  }
+
+  /**
+   * Reads a response body to its end without keeping it. A body that fails to arrive is left
+   * to the total timeout.
+   */
+  private async _discardBody(responseBody: {
+    dump?(options?: { limit: number }): Promise<unknown>;
+  }): Promise<void> {
+    try {
+      await responseBody.dump?.({ limit: Number.MAX_SAFE_INTEGER });
+    } catch {
+      // The request still counts by its status code
+    }
   }
 
   /**
@@ -178,21 +356,67 @@ export class RequestExecutor {
       result.latencyMs = 0;
       result.success = false;
       result.body = undefined;
+      result.sampled = undefined;
       result.error = undefined;
+      result.errorCategory = undefined;
+      result.errorCode = undefined;
       result.timestamp = 0;
       result.bytesSent = 0;
       result.bytesReceived = 0;
+      result.timings = undefined;
+      result.tls = undefined;
+      result.protocol = undefined;
+      result.graphqlErrors = undefined;
       this._resultPool.push(result);
     }
   }
 
   /**
-   * Checks if the payload is valid and should be included in the request
+   * Resolves the timeouts of a request, falling back to the global timeouts for unset values
+   */
+  private _resolveTimeouts(
+    globalTimeouts: TressiTimeoutsConfig = timeoutDefaults,
+    overrides?: Partial<TressiTimeoutsConfig>,
+  ): TressiTimeoutsConfig {
+    return {
+      connectMs: overrides?.connectMs ?? globalTimeouts.connectMs,
+      headersMs: overrides?.headersMs ?? globalTimeouts.headersMs,
+      totalMs: overrides?.totalMs ?? globalTimeouts.totalMs,
+    };
+  }
+
+  /**
+   * Replaces the boundary of a configured multipart content type with the one the body was
+   * encoded with, since the server cannot split the parts without it
+   */
+  private _withBoundary(contentType: string, encodedContentType: string): string {
+    const boundary = encodedContentType.slice(encodedContentType.indexOf(';'));
+    return `${contentType.replace(/;\s*boundary=[^;]*/i, '')}${boundary}`;
+  }
+
+  /**
+   * Gets the value of a header, ignoring the case of its name
+   */
+  private _getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find((key) => key.toLowerCase() === name);
+    return key === undefined ? undefined : headers[key];
+  }
+
+  /**
+   * Removes a header, ignoring the case of its name
+   */
+  private _deleteHeader(headers: Record<string, string>, name: string): void {
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === name) delete headers[key];
+    }
+  }
+
+  /**
+   * Checks if the payload is valid and should be included in the request.
+   * Any method may carry a body unless the request opts out with `sendBody: false`.
    */
-  private _hasValidPayload(payload: unknown, method?: string): boolean {
-    // Only include body for methods that support it
-    const bodyMethods = ['POST', 'PUT', 'PATCH'];
-    if (!method || !bodyMethods.includes(method.toUpperCase())) {
+  private _hasValidPayload(payload: unknown, sendBody?: boolean): boolean {
+    if (sendBody === false) {
       return false;
     }
 
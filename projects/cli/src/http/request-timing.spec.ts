@@ -0,0 +1,168 @@
+import { channel } from 'node:diagnostics_channel';
+import { EventEmitter } from 'node:events';
+import type { Dispatcher } from 'undici';
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
+
+import { RequestTiming, RequestTimingTracker } from './request-timing';
+
+const fakeSocket: { current: unknown } = vi.hoisted(() => ({ current: null }));
+
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
+  buildConnector: vi.fn(() => () => fakeSocket.current),
+}));
+
+type MockHandler = Record<'onComplete' | 'onConnect' | 'onData' | 'onError' | 'onHeaders', Mock>;
+
+const createHandler = (): MockHandler => ({
+  onComplete: vi.fn(),
+  onConnect: vi.fn(),
+  onData: vi.fn().mockReturnValue(true),
+  onError: vi.fn(),
+  onHeaders: vi.fn().mockReturnValue(true),
+});
+
+const options = (opaque?: unknown): Dispatcher.DispatchOptions =>
+  ({ method: 'GET', opaque, path: '/' }) as unknown as Dispatcher.DispatchOptions;
+
+describe('RequestTiming', () => {
+  it('should not report timings before the response headers arrive', () => {
+    const timing = new RequestTiming();
+    timing.sentAt = 10;
+
+    expect(timing.getTimings(50)).toBeUndefined();
+  });
+
+  it('should report the phases of a request on a reused connection', () => {
+    const timing = new RequestTiming();
+    timing.sentAt = 10;
+    timing.headersAt = 40;
+    timing.completedAt = 45;
+
+    expect(timing.getTimings(100)).toEqual({ connect: 0, dns: 0, download: 5, tls: 0, ttfb: 30 });
+  });
+
+  it('should count the download up to the end while the body is being received', () => {
+    const timing = new RequestTiming();
+    timing.sentAt = 10;
+    timing.headersAt = 40;
+    timing.connection = { connectMs: 3, dnsMs: 2, tlsMs: 7 };
+
+    expect(timing.getTimings(60)).toEqual({ connect: 3, dns: 2, download: 20, tls: 7, ttfb: 30 });
+  });
+});
+
+describe('RequestTimingTracker', () => {
+  let tracker: RequestTimingTracker;
+  let now: number;
+
+  beforeEach(() => {
+    tracker = new RequestTimingTracker();
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('wrapHandler', () => {
+    it('should leave requests without a timing untouched', () => {
+      const handler = createHandler();
+
+      expect(tracker.wrapHandler(options(), handler)).toBe(handler);
+      expect(tracker.wrapHandler(options({ id: 1 }), handler)).toBe(handler);
+    });
+
+    it('should record the points in time of a request and pass every callback on', () => {
+      const handler = createHandler();
+      const timing = new RequestTiming();
+      const wrapped = tracker.wrapHandler(options(timing), handler);
+      const abort = vi.fn();
+      const resume = vi.fn();
+      const chunk = Buffer.from('ok');
+
+      now = 5;
+      wrapped.onConnect?.(abort);
+      now = 20;
+      wrapped.onHeaders?.(100, [], resume, 'Continue');
+      now = 25;
+      wrapped.onHeaders?.(200, [], resume, 'OK');
+      wrapped.onData?.(chunk);
+      now = 31;
+      wrapped.onComplete?.(null);
+
+      expect(handler.onConnect).toHaveBeenCalledWith(abort);
+      expect(handler.onHeaders).toHaveBeenCalledTimes(2);
+      expect(handler.onData).toHaveBeenCalledWith(chunk);
+      expect(handler.onComplete).toHaveBeenCalledWith(null);
+      expect(timing.getTimings()).toEqual({ connect: 0, dns: 0, download: 6, tls: 0, ttfb: 20 });
+    });
+  });
+
+  describe('createConnector', () => {
+    it('should attribute the opening of a connection to the first request sent on it', () => {
+      const socket = Object.assign(new EventEmitter(), {
+        getCipher: () => ({ name: 'TLS_AES_256_GCM_SHA384' }),
+        getProtocol: () => 'TLSv1.3',
+      });
+      fakeSocket.current = socket;
+      const connector = tracker.createConnector({});
+      const first = new RequestTiming();
+      const second = new RequestTiming();
+
+      connector({ hostname: 'example.com', protocol: 'https:' } as never, vi.fn());
+      now = 4;
+      socket.emit('lookup');
+      now = 10;
+      socket.emit('connect');
+      now = 25;
+      socket.emit('secureConnect');
+
+      for (const timing of [first, second]) {
+        tracker.wrapHandler(options(timing), createHandler()).onConnect?.(vi.fn());
+        channel('undici:client:sendHeaders').publish({ socket });
+      }
+
+      expect(first.connection).toEqual({ connectMs: 6, dnsMs: 4, tlsMs: 15 });
+      expect(second.connection).toBeNull();
+      // The negotiated TLS holds for every request on the connection
+      for (const timing of [first, second]) {
+        expect(timing.tls).toEqual({ cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' });
+      }
+    });
+
+    it('should report the HTTP protocol of the connection', () => {
+      const sockets = [
+        { protocol: 'http1', socket: new EventEmitter() },
+        {
+          protocol: 'h2',
+          socket: Object.assign(new EventEmitter(), { alpnProtocol: 'h2', encrypted: true }),
+        },
+        { protocol: 'h2c', socket: Object.assign(new EventEmitter(), { alpnProtocol: 'h2' }) },
+      ];
+
+      for (const { protocol, socket } of sockets) {
+        const timing = new RequestTiming();
+        tracker.wrapHandler(options(timing), createHandler()).onConnect?.(vi.fn());
+        channel('undici:client:sendHeaders').publish({ socket });
+
+        expect(timing.protocol).toBe(protocol);
+      }
+    });
+
+    it('should not report TLS for plain connections', () => {
+      const socket = new EventEmitter();
+      fakeSocket.current = socket;
+      const timing = new RequestTiming();
+
+      tracker.createConnector({})({ hostname: 'example.com', protocol: 'http:' } as never, vi.fn());
+      socket.emit('connect');
+      tracker.wrapHandler(options(timing), createHandler()).onConnect?.(vi.fn());
+      channel('undici:client:sendHeaders').publish({ socket });
+
+      expect(timing.connection).toEqual({ connectMs: 0, dnsMs: 0, tlsMs: 0 });
+      expect(timing.tls).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { subscribe } from 'node:diagnostics_channel';
+import type { Socket } from 'node:net';
+import { performance } from 'node:perf_hooks';
+import type { TLSSocket } from 'node:tls';
+import type { HttpProtocol, NegotiatedTls, RequestTimings } from '@tressi/shared/common';
+import { buildConnector, type Dispatcher } from 'undici';
+
+/**
+ * Durations of the steps of opening a connection, in milliseconds
+ */
+type ConnectionTimings = {
+  dnsMs: number;
+  connectMs: number;
+  tlsMs: number;
+};
+
+/**
+ * Options of a connector. undici's connector speaks HTTP/2 without TLS when `useH2c` is set,
+ * although its types do not declare it.
+ */
+type ConnectorOptions = buildConnector.BuildOptions & { useH2c?: boolean };
+
+/**
+ * Points in time of a single request as undici sends it and receives its response.
+ * Pass an instance as the `opaque` option of a request to have an agent of the agent manager
+ * fill it in.
+ */
+export class RequestTiming {
+  /** Durations of opening the connection, set only when the request opened it */
+  connection: ConnectionTimings | null = null;
+  /** TLS parameters of the connection the request was sent on, set for every HTTPS request */
+  tls: NegotiatedTls | null = null;
+  /** HTTP protocol of the connection the request was sent on */
+  protocol: HttpProtocol | null = null;
+  /** When the request was handed to its connection */
+  sentAt = 0;
+  /** When the final response headers were received */
+  headersAt = 0;
+  /** When the response body was received in full */
+  completedAt = 0;
+
+  /**
+   * Gets the duration of each phase of the request.
+   * @param endAt Time the download counts up to while the body is still being received
+   * @returns The phase durations, or undefined when no response headers were received
+   */
+  getTimings(endAt: number = performance.now()): RequestTimings | undefined {
+    if (this.sentAt === 0 || this.headersAt === 0) return undefined;
+
+    return {
+      connect: this.connection?.connectMs ?? 0,
+      dns: this.connection?.dnsMs ?? 0,
+      download: Math.max(0, (this.completedAt || endAt) - this.headersAt),
+      tls: this.connection?.tlsMs ?? 0,
+      ttfb: Math.max(0, this.headersAt - this.sentAt),
+    };
+  }
+}
+
+/**
+ * Records the points in time of a request while passing every callback on to undici's handler
+ */
+class TimingHandler implements Dispatcher.DispatchHandler {
+  constructor(
+    private readonly _handler: Dispatcher.DispatchHandler,
+    private readonly _timing: RequestTiming,
+    private readonly _tracker: RequestTimingTracker,
+  ) {}
+
+  onConnect(abort: (err?: Error) => void): void {
+    this._timing.sentAt = performance.now();
+    this._tracker.markSending(this._timing);
+    this._handler.onConnect?.(abort);
+  }
+
+  onHeaders(
+    statusCode: number,
+    headers: Buffer[],
+    resume: () => void,
+    statusText: string,
+  ): boolean {
+    // Informational responses come before the final headers
+    if (statusCode >= 200) this._timing.headersAt = performance.now();
+    return this._handler.onHeaders?.(statusCode, headers, resume, statusText) ?? true;
+  }
+
+  onData(chunk: Buffer): boolean {
+    return this._handler.onData?.(chunk) ?? true;
+  }
+
+  onComplete(trailers: string[] | null): void {
+    this._timing.completedAt = performance.now();
+    this._handler.onComplete?.(trailers);
+  }
+
+  onError(err: Error): void {
+    this._handler.onError?.(err);
+  }
+
+  onUpgrade(statusCode: number, headers: Buffer[] | string[] | null, socket: Socket): void {
+    this._handler.onUpgrade?.(statusCode, headers, socket);
+  }
+
+  onResponseStarted(): void {
+    this._handler.onResponseStarted?.();
+  }
+
+  onBodySent(chunkSize: number, totalBytesSent: number): void {
+    this._handler.onBodySent?.(chunkSize, totalBytesSent);
+  }
+}
+
+/**
+ * Times the phases of requests sent through undici: DNS lookup, TCP connect and TLS handshake
+ * of new connections, time to first byte and content download.
+ *
+ * @remarks
+ * Connections are timed from their socket events by the connector of each agent. undici
+ * publishes the socket of a request on the `undici:client:sendHeaders` diagnostics channel
+ * right after handing the request to it, which attributes the opening of a connection to the
+ * first request sent on it. Requests on a reused connection have no connection phases, but
+ * every request gets the HTTP protocol of its connection, and every request on a TLS connection
+ * the TLS version and cipher negotiated for it.
+ */
+export class RequestTimingTracker {
+  private readonly _connections = new WeakMap<Socket, ConnectionTimings>();
+  private readonly _negotiatedTls = new WeakMap<Socket, NegotiatedTls>();
+  private _sending: RequestTiming | null = null;
+
+  constructor() {
+    subscribe('undici:client:sendHeaders', (message) => {
+      this._onSendHeaders((message as { socket: Socket }).socket);
+    });
+  }
+
+  /**
+   * Creates a connector that opens connections like undici's own and times their steps
+   * @param options Options of the connections, such as the connect timeout
+   */
+  createConnector(options: ConnectorOptions): buildConnector.connector {
+    // undici's connector returns the socket it opens, although its types do not declare it
+    const connect = buildConnector(options) as unknown as (
+      connectOptions: buildConnector.Options,
+      callback: buildConnector.Callback,
+    ) => Socket | undefined;
+
+    return (connectOptions: buildConnector.Options, callback: buildConnector.Callback): void => {
+      const startedAt = performance.now();
+      const socket = connect(connectOptions, callback);
+      if (socket) this._timeConnection(socket, startedAt);
+    };
+  }
+
+  /**
+   * Wraps the handler of a dispatched request to time it, when the request carries a
+   * {@link RequestTiming} as its `opaque` option
+   */
+  wrapHandler(
+    options: Dispatcher.DispatchOptions,
+    handler: Dispatcher.DispatchHandler,
+  ): Dispatcher.DispatchHandler {
+    const { opaque } = options as { opaque?: unknown };
+    return opaque instanceof RequestTiming ? new TimingHandler(handler, opaque, this) : handler;
+  }
+
+  /**
+   * Marks the request that is being handed to a connection, until its socket is published
+   */
+  markSending(timing: RequestTiming): void {
+    this._sending = timing;
+  }
+
+  private _onSendHeaders(socket: Socket): void {
+    const timing = this._sending;
+    this._sending = null;
+    if (!timing) return;
+
+    timing.tls = this._negotiatedTls.get(socket) ?? null;
+    timing.protocol = this._getProtocol(socket);
+    const connection = this._connections.get(socket);
+    if (connection) {
+      timing.connection = connection;
+      this._connections.delete(socket);
+    }
+  }
+
+  /**
+   * Gets the HTTP protocol of a connection. undici marks the sockets it speaks HTTP/2 on with the
+   * `h2` ALPN protocol, including h2c sockets without TLS.
+   */
+  private _getProtocol(socket: Socket): HttpProtocol {
+    const { alpnProtocol, encrypted } = socket as Partial<TLSSocket>;
+    if (alpnProtocol !== 'h2') return 'http1';
+    return encrypted ? 'h2' : 'h2c';
+  }
+
+  private _timeConnection(socket: Socket, startedAt: number): void {
+    const timings: ConnectionTimings = { connectMs: 0, dnsMs: 0, tlsMs: 0 };
+    // Hosts given as an IP address are not looked up
+    let lookedUpAt = startedAt;
+    let connectedAt = startedAt;
+
+    socket.once('lookup', () => {
+      lookedUpAt = performance.now();
+      timings.dnsMs = lookedUpAt - startedAt;
+    });
+    socket.once('connect', () => {
+      connectedAt = performance.now();
+      timings.connectMs = connectedAt - lookedUpAt;
+    });
+    socket.once('secureConnect', () => {
+      timings.tlsMs = performance.now() - connectedAt;
+      const tlsSocket = socket as TLSSocket;
+      const protocol = tlsSocket.getProtocol();
+      const cipher = tlsSocket.getCipher();
+      if (protocol && cipher) {
+        this._negotiatedTls.set(socket, { cipher: cipher.name, protocol });
+      }
+    });
+
+    this._connections.set(socket, timings);
+  }
+}
+
+/**
+ * Global instance of RequestTimingTracker, shared by every agent of a thread
+ */
+export const globalRequestTimingTracker: RequestTimingTracker = new RequestTimingTracker();
@@ -213,6 +213,15 @@ describe('ResponseSampler', () => {
       expect(sampler.shouldSampleResponse('GET', endpoint, 500)).toBe(false);
       expect(sampler.shouldSampleResponse('GET', endpoint, 503)).toBe(false);
     });
+
+    it('should sample GraphQL responses with errors apart from those without', () => {
+      const endpoint = 'GetUser';
+
+      expect(sampler.shouldSampleResponse('POST', endpoint, 200)).toBe(true);
+      expect(sampler.shouldSampleResponse('POST', endpoint, 200, true)).toBe(true);
+      expect(sampler.shouldSampleResponse('POST', endpoint, 200, true)).toBe(false);
+      expect(sampler.shouldSampleResponse('POST', endpoint, 200)).toBe(false);
+    });
   });
 
   describe('sampling strategy', () => {
@@ -4,7 +4,7 @@
  * storing every response, which could be memory-intensive.
  */
 export class ResponseSampler {
-  private readonly _responseSamplingSets: Map<string, Set<number>> = new Map();
+  private readonly _responseSamplingSets: Map<string, Set<string>> = new Map();
 
   /**
    * Determines if a response body should be sampled for debugging purposes.
@@ -12,6 +12,7 @@ export class ResponseSampler {
    * @param method - The HTTP method used for the request
    * @param url - The request URL
    * @param statusCode - The response status code
+   * @param graphqlErrors - Whether the response is a GraphQL response with errors
    * @returns true if the response body should be sampled, false otherwise
    *
    * @remarks
@@ -21,7 +22,8 @@ export class ResponseSampler {
    *
    * Uses endpoint specific tracking to ensure comprehensive coverage across
    * different endpoints while avoiding duplicate sampling of the same
-   * status code for a given endpoint.
+   * status code for a given endpoint. GraphQL responses with errors usually share the status
+   * code of successful ones, so they are sampled separately.
    *
    * @example
    * ```typescript
@@ -30,13 +32,19 @@ export class ResponseSampler {
    * // First 404 response for /api/users -> sample (returns true)
    * ```
    */
-  shouldSampleResponse(method: string, url: string, statusCode: number): boolean {
+  shouldSampleResponse(
+    method: string,
+    url: string,
+    statusCode: number,
+    graphqlErrors: boolean = false,
+  ): boolean {
     const endpointKey = this._getEndpointKey(method, url);
     const sampledCodesForEndpoint = this._getResponseSamplingSet(endpointKey);
+    const sampleKey = graphqlErrors ? `${statusCode} graphql` : `${statusCode}`;
 
     // Sample if we haven't seen this status code for this endpoint yet
-    if (!sampledCodesForEndpoint.has(statusCode)) {
-      sampledCodesForEndpoint.add(statusCode);
+    if (!sampledCodesForEndpoint.has(sampleKey)) {
+      sampledCodesForEndpoint.add(sampleKey);
       return true;
     }
 
@@ -47,14 +55,14 @@ export class ResponseSampler {
    * Gets or creates a Set for tracking sampled status codes per endpoint.
    *
    * @param endpointKey - Unique key identifying the endpoint (method + URL)
-   * @returns Set of status codes that have been sampled for this endpoint
+   * @returns Set of status codes, with GraphQL errors marked, sampled for this endpoint
    *
    * @remarks
    * Implements lazy initialization to create tracking sets only for endpoints
    * that are actually encountered during testing. This optimizes memory usage
    * by avoiding pre-allocation for unused endpoints.
    */
-  private _getResponseSamplingSet(endpointKey: string): Set<number> {
+  private _getResponseSamplingSet(endpointKey: string): Set<string> {
     let set = this._responseSamplingSets.get(endpointKey);
     if (!set) {
       set = new Set();
@@ -0,0 +1,192 @@
+import type { RequestResult, TressiResponseCheck } from '@tressi/shared/common';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { getCheckLabel, matchesJsonSchema, ResponseValidator } from './response-validator';
+
+function createResult(overrides: Partial<RequestResult> = {}): RequestResult {
+  return {
+    body: '{"data":{"id":7,"name":"widget"},"ok":true}',
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    latencyMs: 40,
+    method: 'GET',
+    status: 200,
+    success: true,
+    timestamp: 0,
+    url: 'http://example.com/api',
+    ...overrides,
+  };
+}
+
+describe('ResponseValidator', () => {
+  let validator: ResponseValidator;
+
+  beforeEach(() => {
+    validator = new ResponseValidator();
+  });
+
+  describe('validate', () => {
+    it('should fall back to the 2xx rule without checks', () => {
+      expect(validator.validate([], createResult())).toEqual({ outcomes: [], success: true });
+      expect(validator.validate([], createResult({ status: 500, success: false }))).toEqual({
+        outcomes: [],
+        success: false,
+      });
+    });
+
+    it('should fail a 2xx response when a check fails', () => {
+      const checks: TressiResponseCheck[] = [
+        { exitOnFailure: false, operator: 'equals', path: '$.ok', type: 'jsonPath', value: false },
+      ];
+
+      expect(validator.validate(checks, createResult())).toEqual({
+        outcomes: [false],
+        success: false,
+      });
+    });
+
+    it('should replace the 2xx rule with a status check', () => {
+      const checks: TressiResponseCheck[] = [
+        { exitOnFailure: false, type: 'status', values: [200, 404] },
+      ];
+
+      expect(
+        validator.validate(checks, createResult({ status: 404, success: false })).success,
+      ).toBe(true);
+      expect(validator.validate(checks, createResult({ status: 201 })).success).toBe(false);
+      expect(validator.validate(checks, createResult({ status: 0, success: false })).success).toBe(
+        false,
+      );
+    });
+
+    it('should fail GraphQL responses with errors whatever their status', () => {
+      const checks: TressiResponseCheck[] = [
+        { exitOnFailure: false, type: 'status', values: [200] },
+      ];
+      const result = createResult({ graphqlErrors: ['User not found'], success: false });
+
+      expect(validator.validate(checks, result)).toEqual({ outcomes: [true], success: false });
+      expect(validator.validate([], result).success).toBe(false);
+    });
+
+    it('should evaluate header checks case-insensitively', () => {
+      const checks: TressiResponseCheck[] = [
+        {
+          exitOnFailure: false,
+          name: 'Content-Type',
+          operator: 'contains',
+          type: 'header',
+          value: 'json',
+        },
+        {
+          exitOnFailure: false,
+          name: 'content-type',
+          operator: 'equals',
+          type: 'header',
+          value: 'text/html',
+        },
+        {
+          exitOnFailure: false,
+          name: 'x-missing',
+          operator: 'contains',
+          type: 'header',
+          value: '',
+        },
+      ];
+
+      expect(validator.validate(checks, createResult()).outcomes).toEqual([true, false, false]);
+    });
+
+    it('should evaluate JSONPath, regex and latency checks', () => {
+      const checks: TressiResponseCheck[] = [
+        { exitOnFailure: false, operator: 'exists', path: '$.data.id', type: 'jsonPath' },
+        { exitOnFailure: false, operator: 'equals', path: '$.data.id', type: 'jsonPath', value: 7 },
+        { exitOnFailure: false, operator: 'exists', path: '$.data.missing', type: 'jsonPath' },
+        { exitOnFailure: false, pattern: '"name":"wid', type: 'bodyRegex' },
+        { exitOnFailure: false, ms: 20, type: 'maxLatency' },
+      ];
+
+      expect(validator.validate(checks, createResult()).outcomes).toEqual([
+        true,
+        true,
+        false,
+        true,
+        false,
+      ]);
+    });
+
+    it('should fail body checks when the body is missing or not JSON', () => {
+      const checks: TressiResponseCheck[] = [
+        { exitOnFailure: false, operator: 'exists', path: '$', type: 'jsonPath' },
+        { exitOnFailure: false, pattern: '.*', type: 'bodyRegex' },
+        { exitOnFailure: false, schema: { type: 'object' }, type: 'jsonSchema' },
+      ];
+
+      expect(validator.validate(checks, createResult({ body: undefined })).outcomes).toEqual([
+        false,
+        false,
+        false,
+      ]);
+      expect(validator.validate(checks, createResult({ body: 'oops' })).outcomes).toEqual([
+        false,
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe('requiresBody', () => {
+    it('should only require the body for body based checks', () => {
+      expect(validator.requiresBody([{ exitOnFailure: false, ms: 5, type: 'maxLatency' }])).toBe(
+        false,
+      );
+      expect(
+        validator.requiresBody([{ exitOnFailure: false, pattern: 'ok', type: 'bodyRegex' }]),
+      ).toBe(true);
+    });
+  });
+});
+
+describe('matchesJsonSchema', () => {
+  const schema = {
+    additionalProperties: false,
+    properties: {
+      id: { minimum: 1, type: 'integer' },
+      name: { minLength: 1, type: 'string' },
+      tags: { items: { enum: ['a', 'b'] }, maxItems: 2, type: 'array' },
+    },
+    required: ['id', 'name'],
+    type: 'object',
+  };
+
+  it('should accept a matching document', () => {
+    expect(matchesJsonSchema(schema, { id: 1, name: 'x', tags: ['a'] })).toBe(true);
+  });
+
+  it('should reject documents violating the schema', () => {
+    expect(matchesJsonSchema(schema, { id: 1 })).toBe(false);
+    expect(matchesJsonSchema(schema, { id: 1.5, name: 'x' })).toBe(false);
+    expect(matchesJsonSchema(schema, { id: 1, name: 'x', tags: ['c'] })).toBe(false);
+    expect(matchesJsonSchema(schema, { extra: true, id: 1, name: 'x' })).toBe(false);
+    expect(matchesJsonSchema(schema, [])).toBe(false);
+  });
+});
+
+describe('getCheckLabel', () => {
+  it('should describe each check type', () => {
+    expect(getCheckLabel({ exitOnFailure: false, type: 'status', values: [200, 201] })).toBe(
+      'status in [200, 201]',
+    );
+    expect(
+      getCheckLabel({
+        exitOnFailure: false,
+        operator: 'equals',
+        path: '$.ok',
+        type: 'jsonPath',
+        value: true,
+      }),
+    ).toBe('$.ok equals true');
+    expect(getCheckLabel({ exitOnFailure: false, ms: 250, type: 'maxLatency' })).toBe(
+      'latency <= 250ms',
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import type { RequestResult, TressiResponseCheck } from '@tressi/shared/common';
+
+import { evaluateJsonPath } from '../workers/variable-context';
+
+const BODY_CHECK_TYPES: Set<TressiResponseCheck['type']> = new Set<TressiResponseCheck['type']>([
+  'bodyRegex',
+  'jsonPath',
+  'jsonSchema',
+]);
+
+const UNPARSED: unique symbol = Symbol('unparsed');
+const INVALID_JSON: unique symbol = Symbol('invalid-json');
+
+/**
+ * JSON Schema keywords understood by {@link matchesJsonSchema}.
+ */
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+};
+
+/**
+ * Outcome of validating a response against the configured checks.
+ */
+export type ResponseValidation = {
+  /** Whether the request counts as successful */
+  success: boolean;
+  /** Pass/fail result of each check, in configuration order */
+  outcomes: boolean[];
+};
+
+/**
+ * Builds a short, human readable label for a check, used in summaries and reports.
+ */
+export function getCheckLabel(check: TressiResponseCheck): string {
+  switch (check.type) {
+    case 'status':
+      return `status in [${check.values.join(', ')}]`;
+    case 'header':
+      return `header ${check.name} ${check.operator} "${check.value}"`;
+    case 'jsonPath':
+      return check.operator === 'exists'
+        ? `${check.path} exists`
+        : `${check.path} equals ${JSON.stringify(check.value)}`;
+    case 'bodyRegex':
+      return `body matches /${check.pattern}/`;
+    case 'maxLatency':
+      return `latency <= ${check.ms}ms`;
+    case 'jsonSchema':
+      return 'body matches JSON schema';
+  }
+}
+
+/**
+ * Validates a parsed JSON value against a JSON Schema.
+ *
+ * @remarks
+ * Supports the commonly used keywords: `type`, `enum`, `const`, `properties`, `required`,
+ * `additionalProperties: false`, `items`, numeric and length bounds and `pattern`.
+ * Unknown keywords are ignored, so schemas using them validate leniently.
+ */
+export function matchesJsonSchema(schema: JsonSchema, value: unknown): boolean {
+  const type = schema.type;
+  if (type !== undefined) {
+    const types = Array.isArray(type) ? type : [type];
+    if (!types.some((t) => matchesJsonType(t, value))) return false;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((entry) => isDeepEqual(entry, value))) {
+    return false;
+  }
+  if ('const' in schema && !isDeepEqual(schema.const, value)) return false;
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) return false;
+    if (typeof schema.maximum === 'number' && value > schema.maximum) return false;
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) return false;
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) return false;
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      return false;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) return false;
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) return false;
+    const items = schema.items;
+    if (items && !value.every((item) => matchesJsonSchema(items, item))) return false;
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    if (Array.isArray(schema.required) && !schema.required.every((key) => key in record)) {
+      return false;
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (key in record && !matchesJsonSchema(propertySchema, record[key])) return false;
+    }
+    if (
+      schema.additionalProperties === false &&
+      Object.keys(record).some((key) => !(key in properties))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function matchesJsonType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Evaluates response checks to decide whether a request succeeded.
+ * Without checks a request succeeds on any 2xx status.
+ *
+ * @example
+ * ```typescript
+ * const validator = new ResponseValidator();
+ * const { success, outcomes } = validator.validate(request.checks, result);
+ * ```
+ *
+ * @remarks
+ * A `status` check replaces the default 2xx rule, every other check must pass in addition
+ * to it. Requests that never received a response (status 0) and GraphQL responses with errors
+ * always fail.
+ */
+export class ResponseValidator {
+  private readonly _patterns: Map<string, RegExp> = new Map();
+
+  /**
+   * Whether any of the checks needs the response body to be read.
+   */
+  requiresBody(checks: TressiResponseCheck[]): boolean {
+    return checks.some((check) => BODY_CHECK_TYPES.has(check.type));
+  }
+
+  validate(checks: TressiResponseCheck[], result: RequestResult): ResponseValidation {
+    if (checks.length === 0) {
+      return { outcomes: [], success: result.success };
+    }
+
+    let parsedBody: unknown = UNPARSED;
+    const getJsonBody = (): unknown => {
+      if (parsedBody === UNPARSED) {
+        try {
+          parsedBody = JSON.parse(result.body ?? '');
+        } catch {
+          parsedBody = INVALID_JSON;
+        }
+      }
+      return parsedBody;
+    };
+
+    const hasStatusCheck = checks.some((check) => check.type === 'status');
+    const outcomes = checks.map((check) => this._evaluate(check, result, getJsonBody));
+    const statusAccepted = hasStatusCheck
+      ? result.status > 0 && !result.graphqlErrors
+      : result.success;
+
+    return { outcomes, success: statusAccepted && outcomes.every(Boolean) };
+  }
+
+  private _evaluate(
+    check: TressiResponseCheck,
+    result: RequestResult,
+    getJsonBody: () => unknown,
+  ): boolean {
+    switch (check.type) {
+      case 'status':
+        return check.values.includes(result.status);
+      case 'header': {
+        const value = this._getHeader(result, check.name);
+        if (value === undefined) return false;
+        return check.operator === 'equals' ? value === check.value : value.includes(check.value);
+      }
+      case 'jsonPath': {
+        const body = getJsonBody();
+        if (body === INVALID_JSON) return false;
+        const value = evaluateJsonPath(body, check.path);
+        return check.operator === 'exists' ? value !== undefined : value === check.value;
+      }
+      case 'bodyRegex':
+        return result.body !== undefined && this._getPattern(check.pattern).test(result.body);
+      case 'maxLatency':
+        return result.latencyMs <= check.ms;
+      case 'jsonSchema': {
+        const body = getJsonBody();
+        return body !== INVALID_JSON && matchesJsonSchema(check.schema as JsonSchema, body);
+      }
+    }
+  }
+
+  private _getHeader(result: RequestResult, name: string): string | undefined {
+    const lowerName = name.toLowerCase();
+    for (const [key, value] of Object.entries(result.headers ?? {})) {
+      if (key.toLowerCase() !== lowerName || value === undefined) continue;
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+    return undefined;
+  }
+
+  private _getPattern(pattern: string): RegExp {
+    let regex = this._patterns.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern);
+      this._patterns.set(pattern, regex);
+    }
+    return regex;
+  }
+}
@@ -0,0 +1,324 @@
+import type { TressiStreamConfig } from '@tressi/shared/common';
+import { request } from 'undici';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { globalAgentManager } from './agent-manager';
+import { StreamExecutor } from './stream-executor';
+
+vi.mock('undici', () => ({ request: vi.fn() }));
+
+vi.mock('./agent-manager', () => ({
+  globalAgentManager: {
+    getStreamAgent: vi.fn().mockReturnValue({ agent: 'stream' }),
+  },
+}));
+
+/**
+ * A chunk of a response body, a pause in milliseconds, or `hang` to wait until the request aborts
+ */
+type BodyStep = string | number | 'hang';
+
+type FakeResponse = { statusCode: number; body: BodyStep[] } | Error;
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = Number.isFinite(ms) ? setTimeout(resolve, ms) : undefined;
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+
+/**
+ * Answers each request with the next response, and every further request with the last one
+ */
+function mockResponses(...responses: FakeResponse[]): void {
+  let index = 0;
+  vi.mocked(request).mockImplementation(async (_url, options) => {
+    const response = responses[Math.min(index++, responses.length - 1)];
+    if (response instanceof Error) throw response;
+
+    const { signal } = options as { signal: AbortSignal };
+    const steps = response.body;
+    async function* read(): AsyncGenerator<Buffer> {
+      for (const step of steps) {
+        if (step === 'hang') {
+          await wait(Number.POSITIVE_INFINITY, signal);
+        } else if (typeof step === 'number') {
+          await wait(step, signal);
+        } else {
+          yield Buffer.from(step);
+        }
+      }
+    }
+    const body = Object.assign(read(), { dump: vi.fn().mockResolvedValue(undefined) });
+    return { body, statusCode: response.statusCode } as unknown as Awaited<
+      ReturnType<typeof request>
+    >;
+  });
+}
+
+function createStreamConfig(
+  overrides: Partial<TressiStreamConfig> = {},
+): Pick<TressiStreamConfig, 'headers' | 'holdDurationSec' | 'type' | 'url'> {
+  return {
+    headers: {},
+    holdDurationSec: 0,
+    type: 'sse',
+    url: 'http://example.com/events',
+    ...overrides,
+  };
+}
+
+describe('StreamExecutor', () => {
+  let executor: StreamExecutor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    executor = new StreamExecutor();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count the events of a Server-Sent Events response and the gaps between them', async () => {
+    mockResponses({
+      body: [
+        ': heartbeat\n\n',
+        'data: a\r',
+        '\n\r\n',
+        20,
+        'event: tick\ndata: b\n\n',
+        20,
+        'data: c\n',
+        '\n',
+      ],
+      statusCode: 200,
+    });
+
+    const onBytes = vi.fn();
+    const onEvent = vi.fn();
+
+    const result = await executor.execute(createStreamConfig(), {
+      endsAt: Date.now() + 60_000,
+      onBytes,
+      onEvent,
+    });
+
+    expect(result).toEqual({
+      bytesReceived: 54,
+      disconnected: true,
+      eventsReceived: 3,
+      statusCode: 200,
+      success: true,
+      timeToFirstEventMs: expect.any(Number),
+    });
+    expect(onEvent.mock.calls).toEqual([[undefined], [expect.any(Number)], [expect.any(Number)]]);
+    expect(onEvent.mock.calls[1][0]).toBeGreaterThanOrEqual(15);
+    expect(onBytes.mock.calls.reduce((total, [bytes]) => total + bytes, 0)).toBe(54);
+  });
+
+  it('should send merged headers, authorization and accept event streams', async () => {
+    mockResponses({ body: [], statusCode: 200 });
+
+    await executor.execute(
+      createStreamConfig({ headers: { 'X-Client': 'endpoint', 'X-Endpoint': 'yes' } }),
+      {
+        authorization: 'Bearer token',
+        endsAt: Date.now() + 60_000,
+        headers: { 'X-Client': 'global', 'X-Global': 'yes' },
+        timeouts: { connectMs: 250, headersMs: 500, totalMs: 1000 },
+      },
+    );
+    await executor.execute(createStreamConfig({ headers: { Accept: 'application/json' } }), {
+      endsAt: Date.now() + 60_000,
+    });
+
+    expect(globalAgentManager.getStreamAgent).toHaveBeenCalledWith('http://example.com/events', {
+      connectTimeout: 250,
+    });
+    expect(request).toHaveBeenNthCalledWith(
+      1,
+      'http://example.com/events',
+      expect.objectContaining({
+        bodyTimeout: 0,
+        dispatcher: { agent: 'stream' },
+        headers: {
+          Authorization: 'Bearer token',
+          accept: 'text/event-stream',
+          'X-Client': 'endpoint',
+          'X-Endpoint': 'yes',
+          'X-Global': 'yes',
+        },
+        headersTimeout: 500,
+        method: 'GET',
+      }),
+    );
+    expect(vi.mocked(request).mock.calls[1][1]).toMatchObject({
+      headers: { Accept: 'application/json' },
+    });
+  });
+
+  it('should hold the subscription until the test ends without a disconnect', async () => {
+    mockResponses({ body: ['data: a\n\n', 'hang'], statusCode: 200 });
+
+    const onEvent = vi.fn();
+
+    const result = await executor.execute(createStreamConfig(), {
+      endsAt: Date.now() + 50,
+      onEvent,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.disconnected).toBe(false);
+    expect(result.eventsReceived).toBe(1);
+    expect(onEvent).toHaveBeenCalledExactlyOnceWith(undefined);
+  });
+
+  it('should count the time until a subscription without events closed as its time to first event', async () => {
+    mockResponses({ body: ['hang'], statusCode: 200 });
+
+    const result = await executor.execute(createStreamConfig(), { endsAt: Date.now() + 50 });
+
+    expect(result.eventsReceived).toBe(0);
+    expect(result.timeToFirstEventMs).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should close the subscription when its signal is aborted', async () => {
+    mockResponses({ body: ['hang'], statusCode: 200 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await executor.execute(createStreamConfig(), {
+      endsAt: Date.now() + 60_000,
+      signal: controller.signal,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.disconnected).toBe(false);
+  });
+
+  it('should fail subscriptions answered with a status other than 2xx', async () => {
+    mockResponses({ body: ['Service Unavailable'], statusCode: 503 });
+
+    const result = await executor.execute(createStreamConfig(), { endsAt: Date.now() + 60_000 });
+
+    expect(result).toMatchObject({
+      disconnected: false,
+      error: 'HTTP 503',
+      errorKind: 'httpStatus',
+      statusCode: 503,
+      success: false,
+    });
+  });
+
+  it('should categorize failed connections and count dropped streams as disconnects', async () => {
+    mockResponses(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    const refused = await executor.execute(createStreamConfig(), { endsAt: Date.now() + 60_000 });
+
+    vi.mocked(request).mockImplementation(async () => {
+      async function* read(): AsyncGenerator<Buffer> {
+        yield Buffer.from('data: a\n\n');
+        throw Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' });
+      }
+      return { body: read(), statusCode: 200 } as unknown as Awaited<ReturnType<typeof request>>;
+    });
+    const dropped = await executor.execute(createStreamConfig(), { endsAt: Date.now() + 60_000 });
+
+    expect(refused).toMatchObject({
+      disconnected: false,
+      error: 'connect ECONNREFUSED',
+      errorCategory: 'connectionRefused',
+      errorKind: 'connectionRefused',
+      success: false,
+    });
+    expect(dropped).toMatchObject({
+      disconnected: true,
+      error: 'other side closed',
+      errorKind: 'connectionReset',
+      eventsReceived: 1,
+      success: false,
+    });
+  });
+
+  it('should poll again after every response with an event and count each one', async () => {
+    mockResponses(
+      { body: ['{"id":1}'], statusCode: 200 },
+      { body: [10, '{"id":2}'], statusCode: 200 },
+      { body: ['hang'], statusCode: 200 },
+    );
+
+    const onEvent = vi.fn();
+
+    const result = await executor.execute(createStreamConfig({ type: 'longPoll' }), {
+      endsAt: Date.now() + 100,
+      onEvent,
+    });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(request).mock.calls[0][1]).toMatchObject({ headersTimeout: 0 });
+    expect(result).toMatchObject({
+      bytesReceived: 16,
+      disconnected: false,
+      eventsReceived: 2,
+      statusCode: 200,
+      success: true,
+    });
+    expect(onEvent.mock.calls).toEqual([[undefined], [expect.any(Number)]]);
+  });
+
+  it('should wait before polling again after a response without an event', async () => {
+    mockResponses({ body: [], statusCode: 204 });
+    const noContent = await executor.execute(createStreamConfig({ type: 'longPoll' }), {
+      endsAt: Date.now() + 100,
+    });
+    const pollsAfterNoContent = vi.mocked(request).mock.calls.length;
+
+    vi.mocked(request).mockClear();
+    mockResponses({ body: ['{"id":1}'], statusCode: 200 }, { body: [], statusCode: 200 });
+    const empty = await executor.execute(createStreamConfig({ type: 'longPoll' }), {
+      endsAt: Date.now() + 100,
+    });
+
+    expect(pollsAfterNoContent).toBe(1);
+    expect(noContent).toMatchObject({ eventsReceived: 0, statusCode: 204, success: true });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(empty).toMatchObject({ eventsReceived: 1, success: true });
+  });
+
+  it('should poll again once the delay after a response without an event passed', async () => {
+    vi.useFakeTimers();
+    mockResponses({ body: [], statusCode: 204 });
+    const execution = executor.execute(createStreamConfig({ type: 'longPoll' }), {
+      endsAt: Date.now() + 60_000,
+    });
+
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(request).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await execution;
+  });
+
+  it('should count a failed poll after the first response as a disconnect', async () => {
+    mockResponses({ body: ['{"id":1}'], statusCode: 200 }, { body: [], statusCode: 500 });
+
+    const result = await executor.execute(createStreamConfig({ type: 'longPoll' }), {
+      endsAt: Date.now() + 60_000,
+    });
+
+    expect(result).toMatchObject({
+      disconnected: true,
+      error: 'HTTP 500',
+      errorKind: 'httpStatus',
+      eventsReceived: 1,
+      statusCode: 200,
+      success: false,
+    });
+  });
+});
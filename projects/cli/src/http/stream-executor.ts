@@ -0,0 +1,258 @@
+import { performance } from 'node:perf_hooks';
+import type { StreamSubscriptionOptions, StreamSubscriptionResult } from '@tressi/shared/cli';
+import {
+  type TressiStreamConfig,
+  type TressiTimeoutsConfig,
+  timeoutDefaults,
+} from '@tressi/shared/common';
+import { type Dispatcher, request } from 'undici';
+
+import { globalAgentManager } from './agent-manager';
+import { categorizeRequestError } from './request-executor';
+
+/** Status of a long polling response without an event, such as a poll the server timed out */
+const NO_CONTENT = 204;
+
+/** How long a long polling subscription waits to poll again after a response without an event */
+const EMPTY_POLL_DELAY_MS = 1000;
+
+/**
+ * What the requests of a subscription are sent with
+ */
+type SubscriptionRequest = {
+  dispatcher: Dispatcher;
+  headers: Record<string, string>;
+  signal: AbortSignal;
+  timeouts: TressiTimeoutsConfig;
+  onBytes?: (bytes: number) => void;
+};
+
+/**
+ * Executes the subscriptions of Server-Sent Events and long polling endpoints. Each subscription
+ * is opened, receives events until it is due to close, and is then closed.
+ */
+export class StreamExecutor {
+  /**
+   * Runs a single subscription of a streaming endpoint.
+   *
+   * @param stream - The endpoint, with its placeholders resolved
+   * @param options - Global headers, authorization, timeouts, the end of the test and a signal
+   * closing the subscription early
+   * @returns Time to the first event, event count and outcome of the subscription
+   *
+   * @remarks
+   * A Server-Sent Events subscription is a single response whose events are counted as they
+   * arrive. Events without a data field, such as comments sent as heartbeats, are not counted.
+   * A long polling subscription requests the URL again after every response, and counts each
+   * response as an event unless it is a 204 No Content or has an empty body. Events and received
+   * bytes are also reported to the listeners of the options as they arrive, so a long
+   * subscription can be followed while it is open.
+   *
+   * A subscription fails when a response has a status other than 2xx or a request fails. Once
+   * its first response was received, the server ending or dropping it counts as a disconnect.
+   * Subscriptions closed because their hold duration passed, the test ended or the signal was
+   * aborted neither fail nor disconnect.
+   */
+  async execute(
+    stream: Pick<TressiStreamConfig, 'headers' | 'holdDurationSec' | 'type' | 'url'>,
+    options: StreamSubscriptionOptions,
+  ): Promise<StreamSubscriptionResult> {
+    const result: StreamSubscriptionResult = {
+      bytesReceived: 0,
+      disconnected: false,
+      eventsReceived: 0,
+      success: false,
+      timeToFirstEventMs: 0,
+    };
+    const timeouts = { ...timeoutDefaults, ...options.timeouts };
+    const startTime = performance.now();
+
+    const holdMs = Math.min(
+      stream.holdDurationSec > 0 ? stream.holdDurationSec * 1000 : Number.POSITIVE_INFINITY,
+      options.endsAt - Date.now(),
+    );
+    const closing = new AbortController();
+    const timer = setTimeout(() => closing.abort(), Math.max(holdMs, 0));
+    const signal = options.signal
+      ? AbortSignal.any([closing.signal, options.signal])
+      : closing.signal;
+
+    let lastEventAt: number | undefined;
+    const onEvent = (): void => {
+      const now = performance.now();
+      const gapMs = lastEventAt === undefined ? undefined : now - lastEventAt;
+      if (lastEventAt === undefined) {
+        result.timeToFirstEventMs = now - startTime;
+      }
+      lastEventAt = now;
+      result.eventsReceived++;
+      options.onEvent?.(gapMs);
+    };
+
+    const subscription: SubscriptionRequest = {
+      dispatcher: globalAgentManager.getStreamAgent(stream.url, {
+        connectTimeout: timeouts.connectMs,
+      }),
+      headers: {
+        ...options.headers,
+        ...stream.headers,
+        ...(options.authorization && { Authorization: options.authorization }),
+      },
+      onBytes: options.onBytes,
+      signal,
+      timeouts,
+    };
+
+    try {
+      if (stream.type === 'sse') {
+        await this._readEvents(stream.url, subscription, result, onEvent);
+      } else {
+        await this._poll(stream.url, subscription, result, onEvent);
+      }
+    } catch (error) {
+      // Closing the subscription aborts its request, which is not a failure
+      if (!signal.aborted) {
+        const established = result.statusCode !== undefined;
+        result.errorCategory = categorizeRequestError(error);
+        result.errorKind = result.errorCategory ?? (established ? 'connectionReset' : 'other');
+        result.error = (error as Error).message;
+        result.disconnected = established;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (lastEventAt === undefined) {
+      result.timeToFirstEventMs = performance.now() - startTime;
+    }
+    result.success = !result.errorKind;
+    return result;
+  }
+
+  /**
+   * Reads the events of a Server-Sent Events response until the server ends it or the
+   * subscription is closed.
+   *
+   * @remarks
+   * Events are separated by blank lines and dispatched when they have at least one data field.
+   * Line breaks may be CRLF, LF or CR, and may be split across chunks.
+   */
+  private async _readEvents(
+    url: string,
+    subscription: SubscriptionRequest,
+    result: StreamSubscriptionResult,
+    onEvent: () => void,
+  ): Promise<void> {
+    const headers = Object.keys(subscription.headers).some((name) => /^accept$/i.test(name))
+      ? subscription.headers
+      : { accept: 'text/event-stream', ...subscription.headers };
+    const response = await request(url, {
+      bodyTimeout: 0,
+      dispatcher: subscription.dispatcher,
+      headers,
+      headersTimeout: subscription.timeouts.headersMs,
+      method: 'GET',
+      signal: subscription.signal,
+    });
+    result.statusCode = response.statusCode;
+    if (!this._isSuccess(response.statusCode)) {
+      await response.body.dump();
+      result.errorKind = 'httpStatus';
+      result.error = `HTTP ${response.statusCode}`;
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let pending = '';
+    let hasData = false;
+    for await (const chunk of response.body) {
+      result.bytesReceived += (chunk as Buffer).length;
+      subscription.onBytes?.((chunk as Buffer).length);
+      pending += decoder.decode(chunk as Buffer, { stream: true });
+
+      // A carriage return at the end may be the first half of a CRLF line break
+      const carry = pending.endsWith('\r') ? '\r' : '';
+      const lines = (carry ? pending.slice(0, -1) : pending).split(/\r\n|\r|\n/);
+      pending = `${lines.pop() ?? ''}${carry}`;
+
+      for (const line of lines) {
+        if (line === '') {
+          if (hasData) onEvent();
+          hasData = false;
+        } else if (line === 'data' || line.startsWith('data:')) {
+          hasData = true;
+        }
+      }
+    }
+
+    // The server ended the stream before the subscription was closed
+    result.disconnected = !subscription.signal.aborted;
+  }
+
+  /**
+   * Requests a long polling URL again after every response until the subscription is closed.
+   *
+   * @remarks
+   * The server may hold each request until it has an event, so responses are awaited without a
+   * headers or body timeout. A server answering at once without an event would otherwise be
+   * polled in a tight loop, so the next poll waits {@link EMPTY_POLL_DELAY_MS} after a response
+   * without an event. The status code of the first response is the one of the subscription.
+   */
+  private async _poll(
+    url: string,
+    subscription: SubscriptionRequest,
+    result: StreamSubscriptionResult,
+    onEvent: () => void,
+  ): Promise<void> {
+    while (!subscription.signal.aborted) {
+      const response = await request(url, {
+        bodyTimeout: 0,
+        dispatcher: subscription.dispatcher,
+        headers: subscription.headers,
+        headersTimeout: 0,
+        method: 'GET',
+        signal: subscription.signal,
+      });
+      const established = result.statusCode !== undefined;
+      result.statusCode ??= response.statusCode;
+      if (!this._isSuccess(response.statusCode)) {
+        await response.body.dump();
+        result.errorKind = 'httpStatus';
+        result.error = `HTTP ${response.statusCode}`;
+        result.disconnected = established;
+        return;
+      }
+
+      let bytes = 0;
+      for await (const chunk of response.body) {
+        bytes += (chunk as Buffer).length;
+        subscription.onBytes?.((chunk as Buffer).length);
+      }
+      result.bytesReceived += bytes;
+      if (response.statusCode !== NO_CONTENT && bytes > 0) {
+        onEvent();
+      } else {
+        await this._wait(EMPTY_POLL_DELAY_MS, subscription.signal);
+      }
+    }
+  }
+
+  /**
+   * Waits for a delay, or until the subscription is closed
+   */
+  private _wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = (): void => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  private _isSuccess(statusCode: number): boolean {
+    return statusCode >= 200 && statusCode < 300;
+  }
+}
@@ -0,0 +1,265 @@
+import type { TressiWebSocketConfig } from '@tressi/shared/common';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { globalAgentManager } from './agent-manager';
+import { WebSocketExecutor } from './websocket-executor';
+
+// biome-ignore lint/nursery/useExplicitType: vi.hoisted
+const { FakeWebSocket } = vi.hoisted(() => {
+  // Minimal stand-in for the undici WebSocket, driven by the tests
+  class FakeWebSocket extends EventTarget {
+    static instances: FakeWebSocket[] = [];
+    binaryType = 'blob';
+    sent: string[] = [];
+    closedWith?: number;
+    onSend?: (data: string) => void;
+
+    constructor(
+      public url: string,
+      public options: { dispatcher?: unknown; headers?: Record<string, string> },
+    ) {
+      super();
+      FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+      this.sent.push(data);
+      this.onSend?.(data);
+    }
+
+    close(code: number): void {
+      this.closedWith = code;
+      queueMicrotask(() => this.emit('close', { code, reason: '' }));
+    }
+
+    emit(type: string, properties: Record<string, unknown> = {}): void {
+      this.dispatchEvent(Object.assign(new Event(type), properties));
+    }
+  }
+  return { FakeWebSocket };
+});
+
+vi.mock('undici', () => ({ WebSocket: FakeWebSocket }));
+
+vi.mock('./agent-manager', () => ({
+  globalAgentManager: {
+    getWebSocketAgent: vi.fn().mockReturnValue({ agent: 'ws' }),
+  },
+}));
+
+function createWebSocketConfig(
+  overrides: Partial<TressiWebSocketConfig> = {},
+): Pick<TressiWebSocketConfig, 'headers' | 'holdDurationSec' | 'messages' | 'url'> {
+  return {
+    headers: {},
+    holdDurationSec: 0,
+    messages: [],
+    url: 'ws://example.com/socket',
+    ...overrides,
+  };
+}
+
+describe('WebSocketExecutor', () => {
+  let executor: WebSocketExecutor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    FakeWebSocket.instances = [];
+    executor = new WebSocketExecutor();
+  });
+
+  it('should open the connection with merged headers, authorization and the WebSocket agent', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({ headers: { 'X-Client': 'endpoint', 'X-Endpoint': 'yes' } }),
+      {
+        authorization: 'Bearer token',
+        endsAt: Date.now() + 60_000,
+        headers: { 'X-Client': 'global', 'X-Global': 'yes' },
+        timeouts: { connectMs: 250, headersMs: 500, totalMs: 1000 },
+      },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('open');
+    const result = await promise;
+
+    expect(result.success).toBe(true);
+    expect(socket.url).toBe('ws://example.com/socket');
+    expect(socket.binaryType).toBe('arraybuffer');
+    expect(socket.options).toEqual({
+      dispatcher: { agent: 'ws' },
+      headers: {
+        Authorization: 'Bearer token',
+        'X-Client': 'endpoint',
+        'X-Endpoint': 'yes',
+        'X-Global': 'yes',
+      },
+    });
+    expect(globalAgentManager.getWebSocketAgent).toHaveBeenCalledWith('ws://example.com/socket', {
+      connectTimeout: 250,
+      headersTimeout: 500,
+    });
+    expect(socket.closedWith).toBe(1000);
+  });
+
+  it('should send messages, await replies and measure their round trips', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [
+          { data: 'ping', type: 'send' },
+          { pattern: '^pong$', timeoutMs: 1000, type: 'expect' },
+          { data: 'héllo', type: 'send' },
+          { pattern: 'héllo', timeoutMs: 1000, type: 'expect' },
+        ],
+      }),
+      { endsAt: Date.now() + 60_000 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.onSend = (data: string): void => {
+      setTimeout(
+        () => socket.emit('message', { data: data === 'ping' ? 'pong' : `echo ${data}` }),
+        5,
+      );
+    };
+    socket.emit('open');
+    const result = await promise;
+
+    expect(result.success).toBe(true);
+    expect(socket.sent).toEqual(['ping', 'héllo']);
+    expect(result.messagesSent).toBe(2);
+    expect(result.messagesReceived).toBe(2);
+    expect(result.bytesSent).toBe(10);
+    expect(result.bytesReceived).toBe(15);
+    expect(result.roundTripsMs).toHaveLength(2);
+    for (const roundTrip of result.roundTripsMs) {
+      expect(roundTrip).toBeGreaterThan(0);
+    }
+    expect(result.abnormalClose).toBe(false);
+  });
+
+  it('should skip messages that do not match the awaited pattern', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [{ pattern: '"type":"ready"', timeoutMs: 1000, type: 'expect' }],
+      }),
+      { endsAt: Date.now() + 60_000 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('open');
+    socket.emit('message', { data: '{"type":"welcome"}' });
+    socket.emit('message', { data: new TextEncoder().encode('{"type":"ready"}').buffer });
+    const result = await promise;
+
+    expect(result.success).toBe(true);
+    expect(result.messagesReceived).toBe(2);
+    expect(result.roundTripsMs).toHaveLength(1);
+  });
+
+  it('should fail when no message matches within the timeout', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [{ pattern: 'never', timeoutMs: 20, type: 'expect' }],
+      }),
+      { endsAt: Date.now() + 60_000 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('open');
+    socket.emit('message', { data: 'something else' });
+    const result = await promise;
+
+    expect(result.success).toBe(false);
+    expect(result.errorKind).toBe('check');
+    expect(result.error).toBe('No message matching /never/ within 20ms');
+    expect(result.roundTripsMs).toEqual([]);
+    expect(socket.closedWith).toBe(1000);
+  });
+
+  it('should fail with the reason of a failed handshake', async () => {
+    const promise = executor.execute(createWebSocketConfig(), { endsAt: Date.now() + 60_000 });
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('error', {
+      error: new TypeError('Received network error or non-101 status code.'),
+    });
+    socket.emit('close', { code: 1006, reason: '' });
+    const result = await promise;
+
+    expect(result.success).toBe(false);
+    expect(result.errorKind).toBe('other');
+    expect(result.error).toBe('Received network error or non-101 status code.');
+    expect(result.connectMs).toBeGreaterThanOrEqual(0);
+    expect(result.abnormalClose).toBe(false);
+  });
+
+  it('should record an abnormal close by the server', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [
+          { data: 'subscribe', type: 'send' },
+          { pattern: 'update', timeoutMs: 1000, type: 'expect' },
+        ],
+      }),
+      { endsAt: Date.now() + 60_000 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.onSend = (): void => socket.emit('close', { code: 1011, reason: 'internal error' });
+    socket.emit('open');
+    const result = await promise;
+
+    expect(result.success).toBe(false);
+    expect(result.abnormalClose).toBe(true);
+    expect(result.errorKind).toBe('connectionReset');
+    expect(result.error).toBe('Connection closed with code 1011: internal error');
+    expect(socket.closedWith).toBeUndefined();
+  });
+
+  it('should fail when the server closes normally before the script completes', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [
+          { data: 'subscribe', type: 'send' },
+          { pattern: 'update', timeoutMs: 1000, type: 'expect' },
+        ],
+      }),
+      { endsAt: Date.now() + 60_000 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.onSend = (): void => socket.emit('close', { code: 1000, reason: '' });
+    socket.emit('open');
+    const result = await promise;
+
+    expect(result.success).toBe(false);
+    expect(result.abnormalClose).toBe(false);
+    expect(result.errorKind).toBe('other');
+  });
+
+  it('should hold the connection open and count messages received meanwhile', async () => {
+    const startTime = Date.now();
+    const promise = executor.execute(createWebSocketConfig({ holdDurationSec: 60 }), {
+      endsAt: startTime + 50,
+    });
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('open');
+    socket.emit('message', { data: 'tick' });
+    const result = await promise;
+
+    expect(result.success).toBe(true);
+    expect(result.messagesReceived).toBe(1);
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(socket.closedWith).toBe(1000);
+  });
+
+  it('should stop waiting without failing when the test ends', async () => {
+    const promise = executor.execute(
+      createWebSocketConfig({
+        messages: [{ pattern: 'late', timeoutMs: 60_000, type: 'expect' }],
+      }),
+      { endsAt: Date.now() + 20 },
+    );
+    const socket = FakeWebSocket.instances[0];
+    socket.emit('open');
+    const result = await promise;
+
+    expect(result.success).toBe(true);
+    expect(result.roundTripsMs).toEqual([]);
+    expect(socket.closedWith).toBe(1000);
+  });
+});
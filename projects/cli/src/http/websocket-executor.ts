@@ -0,0 +1,190 @@
+import { performance } from 'node:perf_hooks';
+import type { WebSocketSessionOptions, WebSocketSessionResult } from '@tressi/shared/cli';
+import { type TressiWebSocketConfig, timeoutDefaults } from '@tressi/shared/common';
+import { WebSocket } from 'undici';
+
+import { globalAgentManager } from './agent-manager';
+
+/** How long a connection closed by the client waits for the close frame of the server */
+const CLOSE_TIMEOUT_MS = 1000;
+
+/** Close code of a connection that was closed normally */
+const NORMAL_CLOSURE = 1000;
+
+/**
+ * A message received on a connection and not yet matched by an awaited message
+ */
+type ReceivedMessage = {
+  data: string;
+  receivedAt: number;
+};
+
+/**
+ * Executes the connections of WebSocket endpoints. Each connection is opened, sends and awaits
+ * its messages in order, is held open and is then closed.
+ */
+export class WebSocketExecutor {
+  /**
+   * Runs a single connection of a WebSocket endpoint.
+   *
+   * @param webSocket - The endpoint, with its placeholders resolved
+   * @param options - Global headers, authorization, timeouts and the end of the test
+   * @returns Handshake time, round trips, message counts and outcome of the connection
+   *
+   * @remarks
+   * An awaited message skips every message that does not match its pattern. Its round trip is
+   * measured from the last message sent, or from the handshake when nothing was sent yet.
+   *
+   * A connection fails when its handshake fails, when a pattern is not matched in time, or when
+   * the server closes it before all messages were exchanged or with a code other than 1000.
+   * Waits end with the test, and connections still open then are closed without failing.
+   */
+  async execute(
+    webSocket: Pick<TressiWebSocketConfig, 'headers' | 'holdDurationSec' | 'messages' | 'url'>,
+    options: WebSocketSessionOptions,
+  ): Promise<WebSocketSessionResult> {
+    const result: WebSocketSessionResult = {
+      abnormalClose: false,
+      bytesReceived: 0,
+      bytesSent: 0,
+      connectMs: 0,
+      messagesReceived: 0,
+      messagesSent: 0,
+      roundTripsMs: [],
+      success: false,
+    };
+    const timeouts = { ...timeoutDefaults, ...options.timeouts };
+    const startTime = performance.now();
+    const endsAt = startTime + (options.endsAt - Date.now());
+
+    const socket = new WebSocket(webSocket.url, {
+      dispatcher: globalAgentManager.getWebSocketAgent(webSocket.url, {
+        connectTimeout: timeouts.connectMs,
+        headersTimeout: timeouts.headersMs,
+      }),
+      headers: {
+        ...options.headers,
+        ...webSocket.headers,
+        ...(options.authorization && { Authorization: options.authorization }),
+      },
+    });
+    socket.binaryType = 'arraybuffer';
+
+    const received: ReceivedMessage[] = [];
+    let notify: (() => void) | undefined;
+    let closeCode: number | undefined;
+    let closeReason = '';
+    let errorMessage: string | undefined;
+
+    socket.addEventListener('message', (event) => {
+      const data = event.data as string | ArrayBuffer;
+      result.messagesReceived++;
+      result.bytesReceived += typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+      received.push({
+        data: typeof data === 'string' ? data : Buffer.from(data).toString('utf-8'),
+        receivedAt: performance.now(),
+      });
+      notify?.();
+    });
+    socket.addEventListener('error', (event) => {
+      errorMessage = event.error?.message || event.message;
+    });
+    socket.addEventListener('close', (event) => {
+      closeCode = event.code;
+      closeReason = event.reason;
+      notify?.();
+    });
+
+    // Resolves after the given time, or earlier once a message arrives or the connection closes
+    const waitForEvent = (ms: number): Promise<void> =>
+      new Promise((resolve) => {
+        const done = (): void => {
+          clearTimeout(timer);
+          notify = undefined;
+          resolve();
+        };
+        const timer = setTimeout(done, ms);
+        notify = done;
+      });
+
+    const opened = await new Promise<boolean>((resolve) => {
+      socket.addEventListener('open', () => resolve(true), { once: true });
+      socket.addEventListener('close', () => resolve(false), { once: true });
+    });
+    result.connectMs = performance.now() - startTime;
+
+    if (!opened) {
+      result.errorKind = 'other';
+      result.error = errorMessage || 'WebSocket handshake failed';
+      return result;
+    }
+
+    let lastSentAt = performance.now();
+    let exchanged = 0;
+    for (const message of webSocket.messages) {
+      if (closeCode !== undefined) break;
+
+      if (message.type === 'send') {
+        socket.send(message.data);
+        result.messagesSent++;
+        result.bytesSent += Buffer.byteLength(message.data);
+        lastSentAt = performance.now();
+        exchanged++;
+        continue;
+      }
+
+      const pattern = new RegExp(message.pattern);
+      const waitUntil = Math.min(performance.now() + message.timeoutMs, endsAt);
+      let match: ReceivedMessage | undefined;
+      while (!match) {
+        const next = received.shift();
+        if (next) {
+          if (pattern.test(next.data)) match = next;
+          continue;
+        }
+        const remainingMs = waitUntil - performance.now();
+        if (closeCode !== undefined || remainingMs <= 0) break;
+        await waitForEvent(remainingMs);
+      }
+
+      if (match) {
+        result.roundTripsMs.push(Math.max(match.receivedAt - lastSentAt, 0));
+        exchanged++;
+        continue;
+      }
+      if (closeCode === undefined && performance.now() < endsAt) {
+        result.errorKind = 'check';
+        result.error = `No message matching ${pattern} within ${message.timeoutMs}ms`;
+      }
+      break;
+    }
+
+    if (!result.errorKind) {
+      const holdUntil = Math.min(performance.now() + webSocket.holdDurationSec * 1000, endsAt);
+      while (closeCode === undefined && performance.now() < holdUntil) {
+        await waitForEvent(holdUntil - performance.now());
+      }
+    }
+
+    if (closeCode !== undefined) {
+      // The server closed the connection first
+      result.abnormalClose = closeCode !== NORMAL_CLOSURE;
+      if (result.abnormalClose) {
+        result.errorKind = 'connectionReset';
+        result.error = `Connection closed with code ${closeCode}${closeReason ? `: ${closeReason}` : ''}`;
+      } else if (!result.errorKind && exchanged < webSocket.messages.length) {
+        result.errorKind = 'other';
+        result.error = 'Connection closed by the server before all messages were exchanged';
+      }
+    } else {
+      socket.close(NORMAL_CLOSURE);
+      const closeBy = performance.now() + CLOSE_TIMEOUT_MS;
+      while (closeCode === undefined && performance.now() < closeBy) {
+        await waitForEvent(closeBy - performance.now());
+      }
+    }
+
+    result.success = !result.errorKind;
+    return result;
+  }
+}
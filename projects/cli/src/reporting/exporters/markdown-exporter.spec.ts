@@ -1,10 +1,12 @@
 import { writeFile } from 'node:fs/promises';
-import type {
-  EndpointSummary,
-  LatencyHistogram,
-  LatencyHistogramBucket,
-  TestSummary,
-  TressiConfig,
+import {
+  type EndpointSummary,
+  type LatencyHistogram,
+  type LatencyHistogramBucket,
+  requestDefaults,
+  type TestSummary,
+  type TimingPhaseSummary,
+  type TressiConfig,
 } from '@tressi/shared/common';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { ReportingUtils } from '../../utils/reporting-utils';
@@ -56,10 +58,17 @@ describe('MarkdownExporter', () => {
 
   const createEndpoint = (overrides: Partial<EndpointSummary> = {}): EndpointSummary => ({
     averageRequestsPerSecond: 10,
+    correctedP50LatencyMs: 50,
+    correctedP95LatencyMs: 80,
+    correctedP99LatencyMs: 95,
+    droppedRequests: 0,
     earlyExitTriggered: false,
+    errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
     errorRate: 0,
+    errors: [],
     failedRequests: 0,
     histogram: createHistogram(),
+    lateRequests: 0,
     maxLatencyMs: 100,
     method: 'GET',
     minLatencyMs: 10,
@@ -67,6 +76,7 @@ describe('MarkdownExporter', () => {
     p95LatencyMs: 80,
     p99LatencyMs: 95,
     peakRequestsPerSecond: 15,
+    protocolCounts: { h2: 0, h2c: 0, http1: 0 },
     responseSamples: [] as { statusCode: number; headers: Record<string, string>; body: string }[],
     statusCodeDistribution: { 200: 100 },
     successfulRequests: 100,
@@ -75,12 +85,16 @@ describe('MarkdownExporter', () => {
     totalRequests: 100,
     url: 'https://api.example.com/test',
     ...overrides,
+    key:
+      overrides.key ??
+      `${overrides.method ?? 'GET'} ${overrides.url ?? 'https://api.example.com/test'}`,
   });
 
   const createBaseSummary = (overrides: Partial<TestSummary> = {}): TestSummary =>
     ({
       configSnapshot: {
         $schema: 'test-schema',
+        grpc: [],
         options: {
           durationSec: 60,
           headers: {},
@@ -101,12 +115,20 @@ describe('MarkdownExporter', () => {
         averageRequestsPerSecond: 1,
         avgProcessMemoryUsageMB: 1,
         avgSystemCpuUsagePercent: 1,
+        correctedP50LatencyMs: 1,
+        correctedP95LatencyMs: 1,
+        correctedP99LatencyMs: 1,
+        droppedRequests: 0,
         earlyExitTriggered: false,
         epochEndedAt: 1700000010000,
         epochStartedAt: 1700000000000,
         errorRate: 0,
+        eventLoopLagMs: 0,
         failedRequests: 0,
         finalDurationSec: 10,
+        generatorSaturated: false,
+        heapUsedMB: 0,
+        lateRequests: 0,
         maxLatencyMs: 1,
         minLatencyMs: 1,
         networkBytesPerSec: 10,
@@ -119,6 +141,8 @@ describe('MarkdownExporter', () => {
         successfulRequests: 1,
         targetAchieved: 1,
         totalRequests: 1,
+        workerEventLoopLagMs: [],
+        workerHeapUsedMB: [],
       },
       tressiVersion: '0.0.1',
       ...overrides,
@@ -199,11 +223,24 @@ describe('MarkdownExporter', () => {
     it('should format configuration with all options', async () => {
       const config: TressiConfig = {
         $schema: 'test',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 10,
+          stages: [],
           threads: 4,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 5,
@@ -214,6 +251,8 @@ describe('MarkdownExporter', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 5,
@@ -225,9 +264,14 @@ describe('MarkdownExporter', () => {
             payload: {},
             rampUpDurationSec: 10,
             rps: 100,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'https://api.example.com',
           },
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 5,
@@ -239,9 +283,15 @@ describe('MarkdownExporter', () => {
             payload: {},
             rampUpDurationSec: 5,
             rps: 50,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'https://api.example.com/data',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const summary = createBaseSummary({ configSnapshot: config });
@@ -252,19 +302,203 @@ describe('MarkdownExporter', () => {
       expect(result).toContain('4'); // threads
       expect(result).toContain('512'); // workerMemoryLimit
       expect(result).toContain('10s'); // rampUpDurationSec
+      expect(result).toContain('| Timeouts | Connect 10000ms, Headers 30000ms, Total 60000ms |');
       expect(result).toContain('GET');
       expect(result).toContain('POST');
       expect(result).toContain('api.example.com');
+      expect(result).not.toContain('Configured Scenarios');
+    });
+
+    it('should format the virtual users executor', async () => {
+      const baseConfig = createBaseSummary().configSnapshot;
+      const summary = createBaseSummary({
+        configSnapshot: {
+          ...baseConfig,
+          options: {
+            ...baseConfig.options,
+            executor: {
+              arrival: 'constant',
+              maxInFlight: 1000,
+              pipelineDepth: 15,
+              thinkTime: { distribution: 'uniform', maxMs: 2000, minMs: 500 },
+              type: 'virtualUsers',
+              vuRampUpSec: 5,
+              vus: 50,
+            },
+          },
+        },
+        global: { ...createBaseSummary().global, activeVus: 50 },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('| Virtual Users | 50 (Ramp Up 5s) |');
+      expect(result).toContain('| Think Time | uniform 500-2000ms |');
+      expect(result).toContain('| Peak Active VUs | 50 |');
+    });
+
+    it('should format the arrival and in-flight limit of a fixed RPS executor', async () => {
+      const baseConfig = createBaseSummary().configSnapshot;
+      const summary = createBaseSummary({
+        configSnapshot: {
+          ...baseConfig,
+          options: {
+            ...baseConfig.options,
+            executor: {
+              arrival: 'poisson',
+              maxInFlight: 200,
+              pipelineDepth: 20,
+              thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+              type: 'fixedRps',
+              vuRampUpSec: 0,
+              vus: 10,
+            },
+          },
+        },
+        global: {
+          ...createBaseSummary().global,
+          inFlightRequests: 45,
+          workerInFlightRequests: [20, 25],
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('| Arrival | poisson |');
+      expect(result).toContain('| In-Flight Limit | 20 growing to 200 per worker |');
+      expect(result).toContain('| Peak In-Flight Requests | 45 (per worker: 20 / 25) |');
+      expect(result).not.toContain('Virtual Users');
+    });
+
+    it('should format generator health and warn when the generator was saturated', async () => {
+      const summary = createBaseSummary({
+        global: {
+          ...createBaseSummary().global,
+          eventLoopLagMs: 140,
+          generatorSaturated: true,
+          heapUsedMB: 180,
+          workerEventLoopLagMs: [140, 20],
+          workerHeapUsedMB: [100, 80],
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('> **Generator saturated:**');
+      expect(result).toContain('| Peak Event Loop Lag | 140ms (per worker: 140 / 20) |');
+      expect(result).toContain('| Peak Worker Heap | 180 MB (per worker: 100 / 80) |');
+    });
+
+    it('should format token requests only when auth tokens were requested', async () => {
+      const summary = createBaseSummary({
+        global: {
+          ...createBaseSummary().global,
+          authTokens: { failures: 1, meanLatencyMs: 42.5, requests: 3 },
+        },
+      });
+
+      expect(await exporter.export(summary)).toContain(
+        '| Token Requests | 3 (1 failed, mean 42.50ms) |',
+      );
+      expect(await exporter.export(createBaseSummary())).not.toContain('Token Requests');
+    });
+
+    it('should format global and endpoint stages', async () => {
+      const baseConfig = createBaseSummary().configSnapshot;
+      const summary = createBaseSummary({
+        configSnapshot: {
+          ...baseConfig,
+          options: {
+            ...baseConfig.options,
+            stages: [
+              { durationSec: 10, interpolation: 'linear', rps: 100 },
+              { durationSec: 20, interpolation: 'step', rps: 500 },
+            ],
+          },
+          requests: [
+            {
+              ...requestDefaults,
+              stages: [{ durationSec: 30, interpolation: 'linear', rps: 40 }],
+              url: 'https://api.example.com',
+            },
+          ],
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('| Stages | 10s to 100 rps, 20s at 500 rps |');
+      expect(result).toContain('| 30s to 40 rps |');
+    });
+
+    it('should list scenario steps with their extracted variables', async () => {
+      const baseConfig = createBaseSummary().configSnapshot;
+      const config: TressiConfig = {
+        ...baseConfig,
+        scenarios: [
+          {
+            earlyExit: baseConfig.options.workerEarlyExit,
+            name: 'checkout',
+            rampUpDurationSec: 0,
+            rps: 3,
+            stages: [],
+            steps: [
+              {
+                bodyType: 'json',
+                checks: [],
+                extract: [{ from: 'body', path: '$.token', variable: 'token' }],
+                headers: {},
+                method: 'POST',
+                payload: {},
+                sendBody: true,
+                url: 'https://api.example.com/login',
+              },
+              {
+                bodyType: 'json',
+                checks: [],
+                extract: [],
+                headers: { Authorization: 'Bearer {{token}}' },
+                method: 'GET',
+                payload: {},
+                sendBody: true,
+                url: 'https://api.example.com/cart',
+              },
+            ],
+            thresholds: [],
+          },
+        ],
+      };
+
+      const result = await exporter.export(createBaseSummary({ configSnapshot: config }));
+
+      expect(result).toContain('### Configured Scenarios');
+      expect(result).toContain(
+        '| checkout | 1 | POST | `https://api.example.com/login` | 3 | `token` |',
+      );
+      expect(result).toContain('| checkout | 2 | GET | `https://api.example.com/cart` | 3 | - |');
     });
 
     it('should format configuration with early exit enabled', async () => {
       const config: TressiConfig = {
         $schema: 'test',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 10,
+          stages: [],
           threads: 4,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: true,
             errorRateThreshold: 5,
@@ -275,6 +509,8 @@ describe('MarkdownExporter', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 5,
@@ -286,9 +522,15 @@ describe('MarkdownExporter', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 100,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'https://api.example.com',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const summary = createBaseSummary({ configSnapshot: config });
@@ -302,11 +544,24 @@ describe('MarkdownExporter', () => {
     it('should format configuration with early exit disabled', async () => {
       const config: TressiConfig = {
         $schema: 'test',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 10,
+          stages: [],
           threads: 4,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 5,
@@ -317,6 +572,8 @@ describe('MarkdownExporter', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 5,
@@ -328,9 +585,15 @@ describe('MarkdownExporter', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 100,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'https://api.example.com',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const summary = createBaseSummary({ configSnapshot: config });
@@ -404,6 +667,31 @@ describe('MarkdownExporter', () => {
       expect(result).toContain('50.00ms'); // p50 latency
     });
 
+    it('should format corrected latencies and dropped and late requests', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({ correctedP99LatencyMs: 750, droppedRequests: 12, lateRequests: 34 }),
+        ],
+        global: {
+          ...createBaseSummary().global,
+          correctedP50LatencyMs: 60,
+          correctedP95LatencyMs: 320,
+          correctedP99LatencyMs: 750,
+          droppedRequests: 12,
+          lateRequests: 34,
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('| Dropped | 12 |');
+      expect(result).toContain('| Late | 34 |');
+      expect(result).toContain('| p50 Latency (Corrected) | 60.00ms |');
+      expect(result).toContain('| p99 Latency (Corrected) | 750.00ms |');
+      expect(result).toContain('| 0 | 12 | 34 | 0.00% |');
+      expect(result).toContain('| 100.00ms | 750.00ms |');
+    });
+
     it('should format network bytes correctly', async () => {
       const summary = createBaseSummary({
         global: {
@@ -536,6 +824,76 @@ describe('MarkdownExporter', () => {
     });
   });
 
+  describe('Request Timing Phases', () => {
+    const phase = (meanMs: number): TimingPhaseSummary => ({
+      meanMs,
+      p50Ms: meanMs,
+      p95Ms: meanMs * 2,
+      p99Ms: meanMs * 3,
+    });
+    const timingPhases = {
+      connect: phase(3),
+      dns: phase(1),
+      download: phase(5),
+      tls: phase(8),
+      ttfb: phase(40),
+    };
+
+    it('should break the latency down into the phases of a request', async () => {
+      const summary = createBaseSummary({
+        endpoints: [createEndpoint({ timingPhases })],
+        global: { ...createBaseSummary().global, timingPhases },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('## Request Timing Phases');
+      expect(result).toContain('| Time to First Byte | 40.00ms | 40.00ms | 80.00ms | 120.00ms |');
+      expect(result).toContain(
+        '| GET https://api.example.com/test | 1.00ms | 3.00ms | 8.00ms | 40.00ms | 5.00ms |',
+      );
+    });
+
+    it('should not include timing phases when none were recorded', async () => {
+      const result = await exporter.export(createBaseSummary());
+
+      expect(result).not.toContain('Request Timing Phases');
+    });
+  });
+
+  describe('Threshold Verdicts', () => {
+    it('should include threshold verdicts when present', async () => {
+      const summary = createBaseSummary({
+        thresholds: [
+          { actual: 250, metric: 'p95LatencyMs', operator: '<', passed: true, threshold: 300 },
+          {
+            actual: 0.02,
+            endpoint: 'GET http://example.com/api',
+            metric: 'errorRate',
+            operator: '<',
+            passed: false,
+            threshold: 0.01,
+          },
+        ],
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('## Threshold Verdicts');
+      expect(result).toContain('1 of 2 thresholds were breached');
+      expect(result).toContain('| Global | p95LatencyMs < 300 | 250 | ✅ Pass |');
+      expect(result).toContain(
+        '| GET http://example.com/api | errorRate < 0.01 | 0.02 | ❌ Fail |',
+      );
+    });
+
+    it('should not include threshold verdicts when none are configured', async () => {
+      const result = await exporter.export(createBaseSummary());
+
+      expect(result).not.toContain('Threshold Verdicts');
+    });
+  });
+
   describe('Error Summary', () => {
     it('should include error summary when failed requests exist', async () => {
       const summary = createBaseSummary({
@@ -549,6 +907,74 @@ describe('MarkdownExporter', () => {
 
       expect(result).toContain('Error Summary');
       expect(result).toContain('50 requests failed');
+      expect(result).not.toContain('Network Errors');
+    });
+
+    it('should list network errors per endpoint', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            errorCounts: { connectionRefused: 2, dns: 0, timeout: 7, tls: 1 },
+            url: 'http://api.example.com/slow',
+          }),
+          createEndpoint({ url: 'http://api.example.com/fast' }),
+        ],
+        global: {
+          ...createBaseSummary().global,
+          failedRequests: 10,
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('### Network Errors');
+      expect(result).toContain('| GET http://api.example.com/slow | 7 | 2 | 0 | 1 |');
+      expect(result).not.toContain('| GET http://api.example.com/fast | 0 |');
+    });
+
+    it('should list error messages and samples per endpoint', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            errors: [
+              {
+                count: 4,
+                firstSeenAt: 1700000001000,
+                kind: 'check',
+                lastSeenAt: 1700000002000,
+                message: 'Failed body matches /ok|done/',
+                sample: { detail: '{"status":"pending"}', url: 'http://api.example.com/jobs/7' },
+              },
+              {
+                count: 1,
+                firstSeenAt: 1700000003000,
+                kind: 'connectionReset',
+                lastSeenAt: 1700000003000,
+                message: 'read ECONNRESET',
+                sample: { detail: 'ECONNRESET', url: 'http://api.example.com/jobs/8' },
+              },
+            ],
+            url: 'http://api.example.com/jobs',
+          }),
+        ],
+        global: {
+          ...createBaseSummary().global,
+          failedRequests: 5,
+        },
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('### Error Messages');
+      expect(result).toContain(
+        '| GET http://api.example.com/jobs | Check Failed | Failed body matches /ok\\|done/ | 4 |',
+      );
+      expect(result).toContain(
+        '| GET http://api.example.com/jobs | Connection Reset | read ECONNRESET | 1 |',
+      );
+      expect(result).toContain('<summary>View Error Samples</summary>');
+      expect(result).toContain('First seen at `http://api.example.com/jobs/7`');
+      expect(result).toContain('{"status":"pending"}');
     });
 
     it('should not include error summary when no failed requests', async () => {
@@ -760,6 +1186,54 @@ describe('MarkdownExporter', () => {
       expect(result).not.toContain('<summary>Headers</summary>');
     });
 
+    it('should include the cookie counts of response samples', async () => {
+      const endpoint = createEndpoint({
+        responseSamples: [
+          { body: 'ok', cookies: { jar: 3, received: 1, sent: 2 }, headers: {}, statusCode: 200 },
+        ],
+      });
+
+      const result = await exporter.export(createBaseSummary({ endpoints: [endpoint] }));
+
+      expect(result).toContain('Cookies: 2 sent, 1 received, 3 in jar');
+    });
+
+    it('should include the negotiated TLS of response samples', async () => {
+      const endpoint = createEndpoint({
+        responseSamples: [
+          {
+            body: 'ok',
+            headers: {},
+            statusCode: 200,
+            tls: { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' },
+          },
+        ],
+      });
+
+      const result = await exporter.export(createBaseSummary({ endpoints: [endpoint] }));
+
+      expect(result).toContain('TLS: TLSv1.3, TLS_AES_256_GCM_SHA384');
+    });
+
+    it('should include GraphQL samples with errors next to those without', async () => {
+      const endpoint = createEndpoint({
+        responseSamples: [
+          {
+            body: '{"errors":[]}',
+            graphqlErrors: ['User not found', 'Not authorized'],
+            headers: {},
+            statusCode: 200,
+          },
+          { body: '{"data":{}}', headers: {}, statusCode: 200 },
+        ],
+      });
+
+      const result = await exporter.export(createBaseSummary({ endpoints: [endpoint] }));
+
+      expect(result).toContain('GraphQL errors: User not found; Not authorized');
+      expect(result).toMatch(/\{"data":\{\}\}[\s\S]*GraphQL errors:/);
+    });
+
     it('should handle endpoint with no response samples', async () => {
       const endpoint = createEndpoint({
         responseSamples: [],
@@ -796,6 +1270,101 @@ describe('MarkdownExporter', () => {
       expect(result).toContain('100.00ms'); // max
     });
 
+    it('should list the HTTP protocols each endpoint was served over', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            protocolCounts: { h2: 1200, h2c: 0, http1: 3 },
+            url: 'https://api.example.com/h2',
+          }),
+          createEndpoint({ url: 'https://api.example.com/none' }),
+        ],
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('**HTTP Protocols:** HTTP/1.1 (3), HTTP/2 (1,200)');
+      expect(result?.match(/\*\*HTTP Protocols:\*\*/g)).toHaveLength(1);
+    });
+
+    it('should summarize the messages and round trips of WebSocket endpoints', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            method: 'WS',
+            url: 'wss://api.example.com/chat',
+            webSocket: {
+              abnormalCloses: 3,
+              messagesReceived: 2400,
+              messagesSent: 1200,
+              roundTrip: { meanMs: 14, p50Ms: 12, p95Ms: 30, p99Ms: 45.5 },
+            },
+          }),
+          createEndpoint({ url: 'https://api.example.com/http' }),
+        ],
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain(
+        '**WebSocket:** 1,200 messages sent, 2,400 received, 3 abnormal closes, round trip p50 12.00ms, p95 30.00ms, p99 45.50ms',
+      );
+      expect(result?.match(/\*\*WebSocket:\*\*/g)).toHaveLength(1);
+    });
+
+    it('should summarize the status codes and messages of gRPC endpoints', async () => {
+      vi.mocked(statusCodeAggregator.formatGrpcStatusCodes).mockReturnValue(
+        'OK (1,195), UNAVAILABLE (5)',
+      );
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            grpc: {
+              messagesReceived: 3600,
+              messagesSent: 1200,
+              statusCodeDistribution: { 0: 1195, 14: 5 },
+            },
+            method: 'GRPC',
+            url: 'http://localhost:50051/helloworld.Greeter/SayHello',
+          }),
+          createEndpoint({ url: 'https://api.example.com/http' }),
+        ],
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain(
+        '**gRPC:** OK (1,195), UNAVAILABLE (5); 1,200 messages sent, 3,600 received',
+      );
+      expect(result?.match(/\*\*gRPC:\*\*/g)).toHaveLength(1);
+      expect(statusCodeAggregator.formatGrpcStatusCodes).toHaveBeenCalledWith({ 0: 1195, 14: 5 });
+    });
+
+    it('should summarize the events, disconnects and event gaps of streaming endpoints', async () => {
+      const summary = createBaseSummary({
+        endpoints: [
+          createEndpoint({
+            method: 'SSE',
+            stream: {
+              disconnects: 4,
+              eventGap: { meanMs: 1010, p50Ms: 1000, p95Ms: 1250.5, p99Ms: 1900 },
+              eventsPerSecond: 48.5,
+              eventsReceived: 2910,
+            },
+            url: 'https://api.example.com/events',
+          }),
+          createEndpoint({ url: 'https://api.example.com/http' }),
+        ],
+      });
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain(
+        '**Stream:** 2,910 events (48.50/s), 4 disconnects, event gap p50 1000.00ms, p95 1250.50ms, p99 1900.00ms',
+      );
+      expect(result?.match(/\*\*Stream:\*\*/g)).toHaveLength(1);
+    });
+
     it('should sort status codes numerically', async () => {
       const endpoint = createEndpoint({
         statusCodeDistribution: {
@@ -840,14 +1409,45 @@ describe('MarkdownExporter', () => {
       expect(result).not.toContain('Latency Distribution');
     });
 
+    it('should list custom methods and their body setting in the configured endpoints', async () => {
+      const summary = createBaseSummary();
+      summary.configSnapshot.requests = [
+        { ...requestDefaults, method: 'PURGE', sendBody: false, url: 'https://cdn.example.com/a' },
+        {
+          ...requestDefaults,
+          bodyType: 'text',
+          method: 'PROPFIND',
+          url: 'https://dav.example.com',
+        },
+      ];
+
+      const result = await exporter.export(summary);
+
+      expect(result).toContain('| - | PURGE | `https://cdn.example.com/a` | none | 1 | 0s |');
+      expect(result).toContain('| - | PROPFIND | `https://dav.example.com` | text | 1 | 0s |');
+    });
+
     it('should handle empty config requests', async () => {
       const config: TressiConfig = {
         $schema: 'test',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 4,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 5,
@@ -857,6 +1457,9 @@ describe('MarkdownExporter', () => {
           workerMemoryLimit: 512,
         },
         requests: [],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const summary = createBaseSummary({ configSnapshot: config });
@@ -1,13 +1,25 @@
 import { writeFile } from 'node:fs/promises';
-import type {
-  EndpointSummary,
-  LatencyHistogramBucket,
-  TestSummary,
-  TressiConfig,
+import {
+  type EndpointSummary,
+  httpProtocolDefaults,
+  httpProtocolLabels,
+  type LatencyHistogramBucket,
+  requestErrorKindLabels,
+  requestTimingPhaseDefaults,
+  requestTimingPhaseLabels,
+  type TestSummary,
+  type ThresholdVerdict,
+  type TressiConfig,
+  type TressiStageConfig,
+  type TressiThinkTimeConfig,
 } from '@tressi/shared/common';
 
 import { ReportingUtils } from '../../utils/reporting-utils';
-import { aggregateStatusCodesFromEndpoints } from '../utils/status-code-aggregator';
+import {
+  aggregateStatusCodesFromEndpoints,
+  formatGrpcStatusCodes,
+} from '../utils/status-code-aggregator';
+import { getThresholdLabel } from '../utils/thresholds';
 import { validateMarkdownPath } from '../utils/validation';
 
 /**
@@ -44,6 +56,11 @@ export class MarkdownExporter {
         md += this._formatWarnings(warnings);
       }
 
+      // SLO threshold verdicts
+      if (summary.thresholds && summary.thresholds.length > 0) {
+        md += this._formatThresholdVerdicts(summary.thresholds);
+      }
+
       // Configuration section
       md += this._formatConfiguration(config);
 
@@ -55,9 +72,14 @@ export class MarkdownExporter {
         md += this._formatLatencyDistributionFromSummary(summary);
       }
 
+      // Request timing phases
+      if (g.timingPhases) {
+        md += this._formatTimingPhases(summary);
+      }
+
       // Error summary
       if (g.failedRequests > 0) {
-        md += this._formatErrorSummary(g.failedRequests);
+        md += this._formatErrorSummary(g.failedRequests, e);
       }
 
       // Status code summary
@@ -152,6 +174,41 @@ export class MarkdownExporter {
     return md;
   }
 
+  /**
+   * Breaks the latency of the test and of each endpoint down into the phases of a request.
+   */
+  private _formatTimingPhases(summary: TestSummary): string {
+    const { endpoints, global: g } = summary;
+    if (!g.timingPhases) return '';
+
+    let md = '## Request Timing Phases\n\n';
+    md +=
+      '> *Time spent in each phase of a request. Connection phases are 0 for requests on a reused connection.*\n\n';
+    md += '| Phase | Mean | p50 | p95 | p99 |\n';
+    md += '|---|---|---|---|---|\n';
+    for (const phase of requestTimingPhaseDefaults) {
+      const p = g.timingPhases[phase];
+      md += `| ${requestTimingPhaseLabels[phase]} | ${p.meanMs.toFixed(2)}ms | ${p.p50Ms.toFixed(2)}ms | ${p.p95Ms.toFixed(2)}ms | ${p.p99Ms.toFixed(2)}ms |\n`;
+    }
+    md += '\n';
+
+    const withPhases = endpoints.filter((endpoint) => endpoint.timingPhases);
+    if (withPhases.length > 0) {
+      md += '### Mean Phase Durations by Endpoint\n\n';
+      md += `| Endpoint | ${requestTimingPhaseDefaults.map((phase) => requestTimingPhaseLabels[phase]).join(' | ')} |\n`;
+      md += `|---|${requestTimingPhaseDefaults.map(() => '---').join('|')}|\n`;
+      for (const { key, timingPhases } of withPhases) {
+        const means = requestTimingPhaseDefaults.map(
+          (phase) => `${(timingPhases?.[phase].meanMs ?? 0).toFixed(2)}ms`,
+        );
+        md += `| ${key} | ${means.join(' | ')} |\n`;
+      }
+      md += '\n';
+    }
+
+    return md;
+  }
+
   /**
    * Generate ASCII histogram for markdown output
    */
@@ -183,7 +240,7 @@ export class MarkdownExporter {
       const failureRate = endpoint.errorRate * 100;
       if (failureRate > 10) {
         warnings.push(
-          `**High Failure Rate**: The endpoint \`${endpoint.url}\` had a failure rate of ${failureRate.toFixed(1)}%. This may indicate a problem under load.`,
+          `**High Failure Rate**: The endpoint \`${endpoint.key}\` had a failure rate of ${failureRate.toFixed(1)}%. This may indicate a problem under load.`,
         );
       }
     }
@@ -203,6 +260,20 @@ export class MarkdownExporter {
     return md;
   }
 
+  private _formatThinkTime(thinkTime: TressiThinkTimeConfig): string {
+    if (thinkTime.distribution === 'constant') return `${thinkTime.minMs}ms`;
+    return `${thinkTime.distribution} ${thinkTime.minMs}-${thinkTime.maxMs}ms`;
+  }
+
+  private _formatStages(stages: TressiStageConfig[]): string {
+    return stages
+      .map(
+        (stage) =>
+          `${stage.durationSec}s ${stage.interpolation === 'step' ? 'at' : 'to'} ${stage.rps} rps`,
+      )
+      .join(', ');
+  }
+
   private _formatConfiguration(config: TressiConfig): string {
     let md = '## Test Configuration\n\n';
 
@@ -213,6 +284,22 @@ export class MarkdownExporter {
     md += `| Threads | ${config.options?.threads ?? 'N/A'} |\n`;
     md += `| Worker Memory Limit | ${config.options?.workerMemoryLimit ?? 'N/A'} MB |\n`;
     md += `| Ramp Up Duration | ${config.options?.rampUpDurationSec ?? 0}s |\n`;
+    if (config.options?.stages?.length) {
+      md += `| Stages | ${this._formatStages(config.options.stages)} |\n`;
+    }
+    if (config.options?.timeouts) {
+      const { connectMs, headersMs, totalMs } = config.options.timeouts;
+      md += `| Timeouts | Connect ${connectMs}ms, Headers ${headersMs}ms, Total ${totalMs}ms |\n`;
+    }
+    if (config.options?.executor?.type === 'virtualUsers') {
+      const { thinkTime, vuRampUpSec, vus } = config.options.executor;
+      md += `| Virtual Users | ${vus} (Ramp Up ${vuRampUpSec}s) |\n`;
+      md += `| Think Time | ${this._formatThinkTime(thinkTime)} |\n`;
+    } else if (config.options?.executor) {
+      const { arrival, maxInFlight, pipelineDepth } = config.options.executor;
+      md += `| Arrival | ${arrival} |\n`;
+      md += `| In-Flight Limit | ${pipelineDepth} growing to ${maxInFlight} per worker |\n`;
+    }
 
     if (config.options?.workerEarlyExit?.enabled) {
       md += `| Early Exit | Enabled (Threshold: ${config.options.workerEarlyExit.errorRateThreshold}%) |\n`;
@@ -222,13 +309,29 @@ export class MarkdownExporter {
     md += '\n';
 
     md += '### Configured Endpoints\n\n';
-    md += '| Method | URL | Target RPS | Ramp Up |\n';
-    md += '|---|---|---|---|\n';
+    md += '| Name | Method | URL | Body | Target RPS | Ramp Up |\n';
+    md += '|---|---|---|---|---|---|\n';
     for (const req of config.requests) {
-      md += `| ${req.method} | \`${req.url}\` | ${req.rps} | ${req.rampUpDurationSec ?? 0}s |\n`;
+      const body = req.sendBody === false ? 'none' : (req.bodyType ?? 'json');
+      const target = req.stages?.length ? this._formatStages(req.stages) : req.rps;
+      md += `| ${req.name ?? '-'} | ${req.method} | \`${req.url}\` | ${body} | ${target} | ${req.rampUpDurationSec ?? 0}s |\n`;
     }
     md += '\n';
 
+    if (config.scenarios?.length) {
+      md += '### Configured Scenarios\n\n';
+      md += '| Scenario | Step | Method | URL | Target RPS | Extracts |\n';
+      md += '|---|---|---|---|---|---|\n';
+      for (const scenario of config.scenarios) {
+        const target = scenario.stages?.length ? this._formatStages(scenario.stages) : scenario.rps;
+        scenario.steps.forEach((step, index) => {
+          const extracts = step.extract.map((e) => `\`${e.variable}\``).join(', ') || '-';
+          md += `| ${scenario.name} | ${step.name ?? index + 1} | ${step.method} | \`${step.url}\` | ${target} | ${extracts} |\n`;
+        });
+      }
+      md += '\n';
+    }
+
     md += '<details>\n';
     md += '<summary>View Full JSON Configuration</summary>\n\n';
     md += '```json\n';
@@ -241,6 +344,10 @@ export class MarkdownExporter {
   private _formatGlobalSummary(global: TestSummary['global']): string {
     let md = '## Global Summary\n\n';
     md += '> *A high-level overview of the entire test performance across all endpoints.*\n\n';
+    if (global.generatorSaturated) {
+      md +=
+        '> **Generator saturated:** requests missed their schedule while the workers were too busy to send them, so the results understate what the target can handle.\n\n';
+    }
 
     const formatBytes = (bytes: number): string => {
       if (bytes === 0) return '0 B';
@@ -255,6 +362,8 @@ export class MarkdownExporter {
     md += `| Total Requests | ${global.totalRequests.toLocaleString()} |\n`;
     md += `| Successful | ${global.successfulRequests.toLocaleString()} |\n`;
     md += `| Failed | ${global.failedRequests.toLocaleString()} |\n`;
+    md += `| Dropped | ${global.droppedRequests.toLocaleString()} |\n`;
+    md += `| Late | ${global.lateRequests.toLocaleString()} |\n`;
     md += `| Error Rate | ${(global.errorRate * 100).toFixed(2)}% |\n`;
     if (global.histogram && global.histogram.totalCount > 0) {
       const h = global.histogram;
@@ -270,22 +379,82 @@ export class MarkdownExporter {
       md += `| p99 Latency | ${global.p99LatencyMs.toFixed(2)}ms |\n`;
       md += `| Max Latency | ${global.maxLatencyMs.toFixed(2)}ms |\n`;
     }
+    md += `| p50 Latency (Corrected) | ${global.correctedP50LatencyMs.toFixed(2)}ms |\n`;
+    md += `| p95 Latency (Corrected) | ${global.correctedP95LatencyMs.toFixed(2)}ms |\n`;
+    md += `| p99 Latency (Corrected) | ${global.correctedP99LatencyMs.toFixed(2)}ms |\n`;
     md += `| Average RPS | ${global.averageRequestsPerSecond.toFixed(2)} |\n`;
     md += `| Peak RPS | ${global.peakRequestsPerSecond.toFixed(2)} |\n`;
+    if (global.activeVus > 0) {
+      md += `| Peak Active VUs | ${global.activeVus} |\n`;
+    }
+    if (global.inFlightRequests > 0) {
+      const perWorker = global.workerInFlightRequests.join(' / ');
+      md += `| Peak In-Flight Requests | ${global.inFlightRequests} (per worker: ${perWorker}) |\n`;
+    }
+    if (global.authTokens) {
+      const { failures, meanLatencyMs, requests } = global.authTokens;
+      md += `| Token Requests | ${requests} (${failures} failed, mean ${meanLatencyMs.toFixed(2)}ms) |\n`;
+    }
     md += `| Network Sent | ${formatBytes(global.networkBytesSent)} |\n`;
     md += `| Network Received | ${formatBytes(global.networkBytesReceived)} |\n`;
     md += `| Network Throughput | ${formatBytes(global.networkBytesPerSec)}/s |\n`;
     md += `| Target Achieved | ${(global.targetAchieved * 100).toFixed(1)}% |\n`;
     md += `| CPU Usage | ${global.avgSystemCpuUsagePercent.toFixed(1)}% |\n`;
     md += `| Memory Usage | ${global.avgProcessMemoryUsageMB.toFixed(1)} MB |\n`;
+    md += `| Peak Event Loop Lag | ${global.eventLoopLagMs}ms (per worker: ${global.workerEventLoopLagMs.join(' / ') || '-'}) |\n`;
+    md += `| Peak Worker Heap | ${global.heapUsedMB} MB (per worker: ${global.workerHeapUsedMB.join(' / ') || '-'}) |\n`;
     md += `| Test Started | ${new Date(global.epochStartedAt).toLocaleString()} |\n`;
     md += `| Test Ended | ${new Date(global.epochEndedAt).toLocaleString()} |\n`;
     return md;
   }
 
-  private _formatErrorSummary(failedRequests: number): string {
+  private _formatThresholdVerdicts(verdicts: ThresholdVerdict[]): string {
+    const failed = verdicts.filter((verdict) => !verdict.passed).length;
+
+    let md = '## Threshold Verdicts\n\n';
+    md +=
+      failed > 0
+        ? `> *${failed} of ${verdicts.length} thresholds were breached.*\n\n`
+        : `> *All ${verdicts.length} thresholds passed.*\n\n`;
+    md += '| Scope | Threshold | Actual | Result |\n';
+    md += '|---|---|---|---|\n';
+    for (const verdict of verdicts) {
+      md += `| ${verdict.endpoint ?? 'Global'} | ${getThresholdLabel(verdict)} | ${Number(verdict.actual.toFixed(4))} | ${verdict.passed ? '✅ Pass' : '❌ Fail'} |\n`;
+    }
+    md += '\n';
+    return md;
+  }
+
+  private _formatErrorSummary(failedRequests: number, endpoints: EndpointSummary[]): string {
     let md = '## Error Summary\n\n';
-    md += `> *A total of ${failedRequests} requests failed. Detailed error messages are available in the raw log (if exported).*\n\n`;
+    md += `> *A total of ${failedRequests} requests failed.*\n\n`;
+
+    const withErrors = endpoints.filter((endpoint) => endpoint.errors.length > 0);
+    if (withErrors.length > 0) {
+      md += '### Error Messages\n\n';
+      md += '| Endpoint | Kind | Message | Count | First Seen | Last Seen |\n';
+      md += '|---|---|---|---|---|---|\n';
+      for (const { errors, key } of withErrors) {
+        for (const error of errors) {
+          md += `| ${key} | ${requestErrorKindLabels[error.kind]} | ${this._escapeTableCell(error.message)} | ${error.count.toLocaleString()} | ${new Date(error.firstSeenAt).toLocaleString()} | ${new Date(error.lastSeenAt).toLocaleString()} |\n`;
+        }
+      }
+      md += '\n';
+    }
+
+    const withNetworkErrors = endpoints.filter((endpoint) =>
+      Object.values(endpoint.errorCounts).some((count) => count > 0),
+    );
+    if (withNetworkErrors.length > 0) {
+      md += '### Network Errors\n\n';
+      md += '| Endpoint | Timeouts | Connection Refused | DNS | TLS |\n';
+      md += '|---|---|---|---|---|\n';
+      for (const { errorCounts, key } of withNetworkErrors) {
+        md += `| ${key} | ${errorCounts.timeout} | ${errorCounts.connectionRefused} | ${errorCounts.dns} | ${errorCounts.tls} |\n`;
+      }
+      md += '\n';
+    }
+
     return md;
   }
 
@@ -337,12 +506,12 @@ export class MarkdownExporter {
   private _formatRequestCountsTable(endpoints: EndpointSummary[]): string {
     let md = '### Request Counts and Rates\n\n';
     md +=
-      '| Endpoint | Total | Success | Failed | Error Rate | Avg RPS | Peak RPS | Target Achieved |\n';
-    md += '|---|---|---|---|---|---|---|---|\n';
+      '| Endpoint | Total | Success | Failed | Dropped | Late | Error Rate | Avg RPS | Peak RPS | Target Achieved |\n';
+    md += '|---|---|---|---|---|---|---|---|---|---|\n';
     for (const endpoint of endpoints) {
       const targetAchieved = (endpoint.targetAchieved * 100).toFixed(1);
       const errorRate = (endpoint.errorRate * 100).toFixed(2);
-      md += `| ${endpoint.method} ${endpoint.url} | ${endpoint.totalRequests} | ${endpoint.successfulRequests} | ${endpoint.failedRequests} | ${errorRate}% | ${endpoint.averageRequestsPerSecond.toFixed(2)} | ${endpoint.peakRequestsPerSecond.toFixed(2)} | ${targetAchieved}% |\n`;
+      md += `| ${endpoint.key} | ${endpoint.totalRequests} | ${endpoint.successfulRequests} | ${endpoint.failedRequests} | ${endpoint.droppedRequests} | ${endpoint.lateRequests} | ${errorRate}% | ${endpoint.averageRequestsPerSecond.toFixed(2)} | ${endpoint.peakRequestsPerSecond.toFixed(2)} | ${targetAchieved}% |\n`;
     }
     md += '\n';
     return md;
@@ -350,14 +519,15 @@ export class MarkdownExporter {
 
   private _formatLatencyTable(endpoints: EndpointSummary[]): string {
     let md = '### Endpoint Latency Details\n\n';
-    md += '| Endpoint | Min | P1 | P5 | P10 | P25 | P50 | P75 | P90 | P95 | P99 | Max |\n';
-    md += '|---|---|---|---|---|---|---|---|---|---|---|---|\n';
+    md +=
+      '| Endpoint | Min | P1 | P5 | P10 | P25 | P50 | P75 | P90 | P95 | P99 | Max | Corrected P99 |\n';
+    md += '|---|---|---|---|---|---|---|---|---|---|---|---|---|\n';
     for (const endpoint of endpoints) {
       if (endpoint.histogram && endpoint.histogram.totalCount > 0) {
         const h = endpoint.histogram;
-        md += `| ${endpoint.method} ${endpoint.url} | ${h.min.toFixed(2)}ms | ${h.percentiles[1].toFixed(2)}ms | ${h.percentiles[5].toFixed(2)}ms | ${h.percentiles[10].toFixed(2)}ms | ${h.percentiles[25].toFixed(2)}ms | ${h.percentiles[50].toFixed(2)}ms | ${h.percentiles[75].toFixed(2)}ms | ${h.percentiles[90].toFixed(2)}ms | ${h.percentiles[95].toFixed(2)}ms | ${h.percentiles[99].toFixed(2)}ms | ${h.max.toFixed(2)}ms |\n`;
+        md += `| ${endpoint.key} | ${h.min.toFixed(2)}ms | ${h.percentiles[1].toFixed(2)}ms | ${h.percentiles[5].toFixed(2)}ms | ${h.percentiles[10].toFixed(2)}ms | ${h.percentiles[25].toFixed(2)}ms | ${h.percentiles[50].toFixed(2)}ms | ${h.percentiles[75].toFixed(2)}ms | ${h.percentiles[90].toFixed(2)}ms | ${h.percentiles[95].toFixed(2)}ms | ${h.percentiles[99].toFixed(2)}ms | ${h.max.toFixed(2)}ms | ${endpoint.correctedP99LatencyMs.toFixed(2)}ms |\n`;
       } else {
-        md += `| ${endpoint.method} ${endpoint.url} | ${endpoint.minLatencyMs.toFixed(2)}ms | - | - | - | - | ${endpoint.p50LatencyMs.toFixed(2)}ms | - | - | ${endpoint.p95LatencyMs.toFixed(2)}ms | ${endpoint.p99LatencyMs.toFixed(2)}ms | ${endpoint.maxLatencyMs.toFixed(2)}ms |\n`;
+        md += `| ${endpoint.key} | ${endpoint.minLatencyMs.toFixed(2)}ms | - | - | - | - | ${endpoint.p50LatencyMs.toFixed(2)}ms | - | - | ${endpoint.p95LatencyMs.toFixed(2)}ms | ${endpoint.p99LatencyMs.toFixed(2)}ms | ${endpoint.maxLatencyMs.toFixed(2)}ms | ${endpoint.correctedP99LatencyMs.toFixed(2)}ms |\n`;
       }
     }
     return md;
@@ -366,10 +536,15 @@ export class MarkdownExporter {
   private _formatPerEndpointDetails(endpoints: EndpointSummary[]): string {
     let md = '\n### Per-Endpoint Details\n\n';
     for (const endpoint of endpoints) {
-      md += `#### ${endpoint.method} ${endpoint.url}\n\n`;
+      md += `#### ${endpoint.key}\n\n`;
       md += this._formatStatusCodeDistribution(endpoint);
+      md += this._formatEndpointProtocols(endpoint);
+      md += this._formatEndpointWebSocket(endpoint);
+      md += this._formatEndpointGrpc(endpoint);
+      md += this._formatEndpointStream(endpoint);
       md += this._formatEndpointHistogram(endpoint);
       md += this._formatEndpointSamples(endpoint);
+      md += this._formatEndpointErrorSamples(endpoint);
       md += '---\n\n';
     }
     return md;
@@ -390,6 +565,56 @@ export class MarkdownExporter {
     return md;
   }
 
+  private _formatEndpointProtocols(endpoint: EndpointSummary): string {
+    const protocols = httpProtocolDefaults
+      .filter((protocol) => endpoint.protocolCounts[protocol] > 0)
+      .map(
+        (protocol) =>
+          `${httpProtocolLabels[protocol]} (${endpoint.protocolCounts[protocol].toLocaleString()})`,
+      );
+    if (protocols.length === 0) return '';
+
+    return `**HTTP Protocols:** ${protocols.join(', ')}\n\n`;
+  }
+
+  private _formatEndpointWebSocket(endpoint: EndpointSummary): string {
+    const webSocket = endpoint.webSocket;
+    if (!webSocket) return '';
+
+    let md = `**WebSocket:** ${webSocket.messagesSent.toLocaleString()} messages sent, `;
+    md += `${webSocket.messagesReceived.toLocaleString()} received, `;
+    md += `${webSocket.abnormalCloses.toLocaleString()} abnormal closes`;
+    if (webSocket.roundTrip) {
+      const { p50Ms, p95Ms, p99Ms } = webSocket.roundTrip;
+      md += `, round trip p50 ${p50Ms.toFixed(2)}ms, p95 ${p95Ms.toFixed(2)}ms, p99 ${p99Ms.toFixed(2)}ms`;
+    }
+    return `${md}\n\n`;
+  }
+
+  private _formatEndpointGrpc(endpoint: EndpointSummary): string {
+    const grpc = endpoint.grpc;
+    if (!grpc) return '';
+
+    let md = `**gRPC:** ${formatGrpcStatusCodes(grpc.statusCodeDistribution) || 'no calls'}; `;
+    md += `${grpc.messagesSent.toLocaleString()} messages sent, `;
+    md += `${grpc.messagesReceived.toLocaleString()} received`;
+    return `${md}\n\n`;
+  }
+
+  private _formatEndpointStream(endpoint: EndpointSummary): string {
+    const stream = endpoint.stream;
+    if (!stream) return '';
+
+    let md = `**Stream:** ${stream.eventsReceived.toLocaleString()} events `;
+    md += `(${stream.eventsPerSecond.toFixed(2)}/s), `;
+    md += `${stream.disconnects.toLocaleString()} disconnects`;
+    if (stream.eventGap) {
+      const { p50Ms, p95Ms, p99Ms } = stream.eventGap;
+      md += `, event gap p50 ${p50Ms.toFixed(2)}ms, p95 ${p95Ms.toFixed(2)}ms, p99 ${p99Ms.toFixed(2)}ms`;
+    }
+    return `${md}\n\n`;
+  }
+
   private _formatEndpointHistogram(endpoint: EndpointSummary): string {
     if (!endpoint.histogram || endpoint.histogram.totalCount <= 0) return '';
     let md = '<details>\n';
@@ -406,17 +631,32 @@ export class MarkdownExporter {
     let md = '<details>\n';
     md += '<summary>View Response Samples</summary>\n\n';
 
-    const uniqueSamples = new Map<number, (typeof endpoint.responseSamples)[0]>();
+    // GraphQL responses with errors are sampled apart from those without that share their status
+    const uniqueSamples = new Map<string, (typeof endpoint.responseSamples)[0]>();
     for (const sample of endpoint.responseSamples) {
-      if (!uniqueSamples.has(sample.statusCode)) {
-        uniqueSamples.set(sample.statusCode, sample);
+      const sampleKey = `${sample.statusCode}${sample.graphqlErrors ? ' graphql' : ''}`;
+      if (!uniqueSamples.has(sampleKey)) {
+        uniqueSamples.set(sampleKey, sample);
       }
     }
 
     Array.from(uniqueSamples.values())
-      .sort((a, b) => a.statusCode - b.statusCode)
+      .sort(
+        (a, b) =>
+          a.statusCode - b.statusCode || Number(!!a.graphqlErrors) - Number(!!b.graphqlErrors),
+      )
       .forEach((sample) => {
         md += `**Status ${sample.statusCode}**\n\n`;
+        if (sample.graphqlErrors) {
+          md += `GraphQL errors: ${sample.graphqlErrors.join('; ')}\n\n`;
+        }
+        if (sample.cookies) {
+          const { jar, received, sent } = sample.cookies;
+          md += `Cookies: ${sent} sent, ${received} received, ${jar} in jar\n\n`;
+        }
+        if (sample.tls) {
+          md += `TLS: ${sample.tls.protocol}, ${sample.tls.cipher}\n\n`;
+        }
         if (Object.keys(sample.headers).length > 0) {
           md += '<details>\n<summary>Headers</summary>\n\n';
           md += '```json\n';
@@ -432,4 +672,25 @@ export class MarkdownExporter {
     md += '</details>\n\n';
     return md;
   }
+
+  private _formatEndpointErrorSamples(endpoint: EndpointSummary): string {
+    if (endpoint.errors.length === 0) return '';
+    let md = '<details>\n';
+    md += '<summary>View Error Samples</summary>\n\n';
+    for (const error of endpoint.errors) {
+      md += `**${requestErrorKindLabels[error.kind]}: ${error.message}**\n\n`;
+      md += `First seen at \`${error.sample.url}\`\n\n`;
+      if (error.sample.detail) {
+        md += '```\n';
+        md += `${error.sample.detail}`;
+        md += '\n```\n\n';
+      }
+    }
+    md += '</details>\n\n';
+    return md;
+  }
+
+  private _escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
 }
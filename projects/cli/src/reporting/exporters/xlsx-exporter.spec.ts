@@ -1,5 +1,10 @@
 import { writeFile } from 'node:fs/promises';
-import type { EndpointSummary, GlobalSummary, TestSummary } from '@tressi/shared/common';
+import type {
+  EndpointSummary,
+  GlobalSummary,
+  TestSummary,
+  TimingPhaseSummary,
+} from '@tressi/shared/common';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { validateXlsxPath } from '../utils/validation';
@@ -25,15 +30,23 @@ describe('XlsxExporter', () => {
   });
 
   const createMockGlobal = (overrides: Partial<GlobalSummary> = {}): GlobalSummary => ({
+    activeVus: 0,
     averageRequestsPerSecond: 100,
     avgProcessMemoryUsageMB: 256,
     avgSystemCpuUsagePercent: 45,
+    correctedP50LatencyMs: 50,
+    correctedP95LatencyMs: 100,
+    correctedP99LatencyMs: 150,
+    droppedRequests: 0,
     earlyExitTriggered: false,
     epochEndedAt: 1700000010000,
     epochStartedAt: 1700000000000,
     errorRate: 0.05,
+    eventLoopLagMs: 0,
     failedRequests: 50,
     finalDurationSec: 60,
+    generatorSaturated: false,
+    heapUsedMB: 0,
     histogram: {
       buckets: [
         { count: 200, lowerBound: 0, upperBound: 50 },
@@ -59,6 +72,8 @@ describe('XlsxExporter', () => {
       stdDev: 50,
       totalCount: 1000,
     },
+    inFlightRequests: 0,
+    lateRequests: 0,
     maxLatencyMs: 500,
     minLatencyMs: 10,
     networkBytesPerSec: 1024,
@@ -72,13 +87,22 @@ describe('XlsxExporter', () => {
     targetAchieved: 85,
     totalEndpoints: 2,
     totalRequests: 1000,
+    workerEventLoopLagMs: [],
+    workerHeapUsedMB: [],
+    workerInFlightRequests: [],
     ...overrides,
   });
 
   const createMockEndpoint = (overrides: Partial<EndpointSummary> = {}): EndpointSummary => ({
     averageRequestsPerSecond: 100,
+    correctedP50LatencyMs: 50,
+    correctedP95LatencyMs: 100,
+    correctedP99LatencyMs: 150,
+    droppedRequests: 0,
     earlyExitTriggered: false,
+    errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
     errorRate: 0.05,
+    errors: [],
     failedRequests: 25,
     histogram: {
       buckets: [
@@ -105,6 +129,7 @@ describe('XlsxExporter', () => {
       stdDev: 50,
       totalCount: 500,
     },
+    lateRequests: 0,
     maxLatencyMs: 500,
     method: 'GET',
     minLatencyMs: 10,
@@ -112,6 +137,7 @@ describe('XlsxExporter', () => {
     p95LatencyMs: 300,
     p99LatencyMs: 400,
     peakRequestsPerSecond: 150,
+    protocolCounts: { h2: 0, h2c: 0, http1: 0 },
     responseSamples: [
       { body: '{"id":1}', headers: { 'content-type': 'application/json' }, statusCode: 200 },
       {
@@ -132,16 +158,32 @@ describe('XlsxExporter', () => {
     totalRequests: 500,
     url: 'https://api.example.com/users',
     ...overrides,
+    key:
+      overrides.key ??
+      `${overrides.method ?? 'GET'} ${overrides.url ?? 'https://api.example.com/users'}`,
   });
 
   const createMockSummary = (overrides: Partial<TestSummary> = {}): TestSummary => ({
     configSnapshot: {
       $schema: 'test-schema',
+      grpc: [],
       options: {
         durationSec: 60,
+        executor: {
+          arrival: 'constant',
+          maxInFlight: 1000,
+          pipelineDepth: 15,
+          thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+          type: 'fixedRps',
+          vuRampUpSec: 0,
+          vus: 10,
+        },
         headers: {},
         rampUpDurationSec: 0,
+        stages: [],
         threads: 4,
+        thresholds: [],
+        timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
         workerEarlyExit: {
           enabled: false,
           errorRateThreshold: 5,
@@ -151,6 +193,9 @@ describe('XlsxExporter', () => {
         workerMemoryLimit: 512,
       },
       requests: [],
+      scenarios: [],
+      streams: [],
+      websockets: [],
     },
     endpoints: [],
     global: createMockGlobal(),
@@ -209,6 +254,139 @@ describe('XlsxExporter', () => {
       expect(sheetNames).toContain('Endpoint Summary');
     });
 
+    it('should include network error counts in the endpoint summary sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            errorCounts: { connectionRefused: 4, dns: 1, timeout: 12, tls: 2 },
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          'Connection Refused': 4,
+          'DNS Errors': 1,
+          Timeouts: 12,
+          'TLS Errors': 2,
+        }),
+      ]);
+    });
+
+    it('should include the requests sent over each HTTP protocol in the endpoint summary sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [createMockEndpoint({ protocolCounts: { h2: 90, h2c: 0, http1: 10 } })],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          'HTTP/1.1 Requests': 10,
+          'HTTP/2 Requests': 90,
+          'h2c Requests': 0,
+        }),
+      ]);
+    });
+
+    it('should include the messages and round trips of WebSocket endpoints in the endpoint summary sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            method: 'WS',
+            webSocket: {
+              abnormalCloses: 2,
+              messagesReceived: 80,
+              messagesSent: 40,
+              roundTrip: { meanMs: 15, p50Ms: 12, p95Ms: 30, p99Ms: 48 },
+            },
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          'Abnormal Closes': 2,
+          'Messages Received': 80,
+          'Messages Sent': 40,
+          Method: 'WS',
+          'Round Trip P50 (ms)': 12,
+          'Round Trip P95 (ms)': 30,
+          'Round Trip P99 (ms)': 48,
+        }),
+      ]);
+    });
+
+    it('should include the status codes and messages of gRPC endpoints in the endpoint summary sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            grpc: {
+              messagesReceived: 30,
+              messagesSent: 10,
+              statusCodeDistribution: { 0: 9, 4: 1 },
+            },
+            method: 'GRPC',
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          'gRPC Status Codes': 'OK (9), DEADLINE_EXCEEDED (1)',
+          'Messages Received': 30,
+          'Messages Sent': 10,
+          Method: 'GRPC',
+        }),
+      ]);
+    });
+
+    it('should include the events and event gaps of streaming endpoints in the endpoint summary sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            method: 'POLL',
+            stream: {
+              disconnects: 3,
+              eventGap: { meanMs: 520, p50Ms: 500, p95Ms: 900, p99Ms: 1200 },
+              eventsPerSecond: 2,
+              eventsReceived: 120,
+            },
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          Disconnects: 3,
+          'Event Gap P50 (ms)': 500,
+          'Event Gap P95 (ms)': 900,
+          'Event Gap P99 (ms)': 1200,
+          'Events Received': 120,
+          'Events/s': 2,
+          Method: 'POLL',
+        }),
+      ]);
+    });
+
+    it('should include thresholds sheet when verdicts exist', async () => {
+      const mockSummary = createMockSummary({
+        thresholds: [
+          { actual: 250, metric: 'p95LatencyMs', operator: '<', passed: true, threshold: 300 },
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      const sheetNames = vi.mocked(utils.book_append_sheet).mock.calls.map((call) => call[2]);
+      expect(sheetNames).toContain('Thresholds');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        { Actual: 250, Result: 'PASS', Scope: 'Global', Threshold: 'p95LatencyMs < 300' },
+      ]);
+    });
+
     it('should skip latency buckets sheet when no histogram buckets', async () => {
       const mockSummary = createMockSummary({
         global: createMockGlobal({
@@ -261,6 +439,126 @@ describe('XlsxExporter', () => {
       const sampledResponsesCall = bookAppendCalls.find((call) => call[2] === 'Sampled Responses');
       expect(sampledResponsesCall).toBeDefined();
     });
+
+    it('should include the cookie counts of response samples', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            responseSamples: [
+              {
+                body: 'ok',
+                cookies: { jar: 3, received: 1, sent: 2 },
+                headers: {},
+                statusCode: 200,
+              },
+              { body: 'missing', headers: {}, statusCode: 404 },
+            ],
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      const rows = vi
+        .mocked(utils.json_to_sheet)
+        .mock.calls.map(([data]) => data as Record<string, unknown>[])
+        .find((data) => data.some((row) => 'Cookies' in row));
+      expect(rows?.map((row) => row.Cookies)).toEqual(['2 sent, 1 received, 3 in jar', '']);
+    });
+
+    it('should include the negotiated TLS of response samples', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            responseSamples: [
+              {
+                body: 'ok',
+                headers: {},
+                statusCode: 200,
+                tls: { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' },
+              },
+              { body: 'missing', headers: {}, statusCode: 404 },
+            ],
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      const rows = vi
+        .mocked(utils.json_to_sheet)
+        .mock.calls.map(([data]) => data as Record<string, unknown>[])
+        .find((data) => data.some((row) => 'TLS' in row));
+      expect(rows?.map((row) => row.TLS)).toEqual(['TLSv1.3, TLS_AES_256_GCM_SHA384', '']);
+    });
+
+    it('should include the GraphQL errors of response samples', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            responseSamples: [
+              { body: '{"data":{}}', headers: {}, statusCode: 200 },
+              {
+                body: '{"errors":[]}',
+                graphqlErrors: ['User not found', 'Not authorized'],
+                headers: {},
+                statusCode: 200,
+              },
+            ],
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      const rows = vi
+        .mocked(utils.json_to_sheet)
+        .mock.calls.map(([data]) => data as Record<string, unknown>[])
+        .find((data) => data.some((row) => 'GraphQL Errors' in row));
+      expect(rows?.map((row) => row['GraphQL Errors'])).toEqual([
+        '',
+        'User not found; Not authorized',
+      ]);
+    });
+
+    it('should skip errors sheet when no errors were logged', async () => {
+      await exporter.export(createMockSummary({ endpoints: [createMockEndpoint()] }));
+      const { utils } = await import('xlsx');
+      const sheetNames = vi.mocked(utils.book_append_sheet).mock.calls.map((call) => call[2]);
+      expect(sheetNames).not.toContain('Errors');
+    });
+
+    it('should include a row per logged error in the errors sheet', async () => {
+      const mockSummary = createMockSummary({
+        endpoints: [
+          createMockEndpoint({
+            errors: [
+              {
+                count: 12,
+                firstSeenAt: 1700000001000,
+                kind: 'httpStatus',
+                lastSeenAt: 1700000009000,
+                message: 'HTTP 503',
+                sample: { detail: 'Service Unavailable', url: 'https://api.example.com/users' },
+              },
+            ],
+          }),
+        ],
+      });
+      await exporter.export(mockSummary);
+      const { utils } = await import('xlsx');
+      expect(utils.json_to_sheet).toHaveBeenCalledWith([
+        {
+          Count: 12,
+          Detail: 'Service Unavailable',
+          Endpoint: 'GET https://api.example.com/users',
+          'First Seen': '2023-11-14T22:13:21.000Z',
+          Kind: 'HTTP Status',
+          'Last Seen': '2023-11-14T22:13:29.000Z',
+          Message: 'HTTP 503',
+          'Sample URL': 'https://api.example.com/users',
+        },
+      ]);
+      const sheetNames = vi.mocked(utils.book_append_sheet).mock.calls.map((call) => call[2]);
+      expect(sheetNames).toContain('Errors');
+    });
   });
 
   describe('_processData', () => {
@@ -471,11 +769,24 @@ describe('XlsxExporter', () => {
       const mockSummary = createMockSummary({
         configSnapshot: {
           $schema: 'test-schema',
+          grpc: [],
           options: {
             durationSec: 60,
+            executor: {
+              arrival: 'constant',
+              maxInFlight: 1000,
+              pipelineDepth: 15,
+              thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+              type: 'fixedRps',
+              vuRampUpSec: 0,
+              vus: 10,
+            },
             headers: { 'X-Custom': 'value' },
             rampUpDurationSec: 10,
+            stages: [],
             threads: 8,
+            thresholds: [],
+            timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
             workerEarlyExit: {
               enabled: true,
               errorRateThreshold: 5,
@@ -485,6 +796,9 @@ describe('XlsxExporter', () => {
             workerMemoryLimit: 1024,
           },
           requests: [],
+          scenarios: [],
+          streams: [],
+          websockets: [],
         },
       });
       await exporter.export(mockSummary);
@@ -526,6 +840,55 @@ describe('XlsxExporter', () => {
     });
   });
 
+  describe('timing phases sheet', () => {
+    const phase = (meanMs: number): TimingPhaseSummary => ({
+      meanMs,
+      p50Ms: meanMs,
+      p95Ms: meanMs * 2,
+      p99Ms: meanMs * 3,
+    });
+    const timingPhases = {
+      connect: phase(3),
+      dns: phase(1),
+      download: phase(5),
+      tls: phase(8),
+      ttfb: phase(40),
+    };
+
+    it('should include a row per phase of the test and of each endpoint', async () => {
+      await exporter.export(
+        createMockSummary({
+          endpoints: [createMockEndpoint({ timingPhases })],
+          global: createMockGlobal({ timingPhases }),
+        }),
+      );
+      const { utils } = await import('xlsx');
+      const rows = vi
+        .mocked(utils.json_to_sheet)
+        .mock.calls.map((call) => call[0])
+        .find((sheet) => (sheet as { Phase?: string }[])[0]?.Phase);
+
+      expect(rows).toHaveLength(10);
+      expect(rows).toContainEqual({
+        'Mean (ms)': 40,
+        'P50 (ms)': 40,
+        'P95 (ms)': 80,
+        'P99 (ms)': 120,
+        Phase: 'Time to First Byte',
+        Scope: 'GET https://api.example.com/users',
+      });
+      const sheetNames = vi.mocked(utils.book_append_sheet).mock.calls.map((call) => call[2]);
+      expect(sheetNames).toContain('Timing Phases');
+    });
+
+    it('should skip timing phases sheet when no phases were recorded', async () => {
+      await exporter.export(createMockSummary({ endpoints: [createMockEndpoint()] }));
+      const { utils } = await import('xlsx');
+      const sheetNames = vi.mocked(utils.book_append_sheet).mock.calls.map((call) => call[2]);
+      expect(sheetNames).not.toContain('Timing Phases');
+    });
+  });
+
   describe('sampled responses sheet', () => {
     it('should sort samples by URL then status code', async () => {
       const mockSummary = createMockSummary({
@@ -1,7 +1,17 @@
 import { writeFile } from 'node:fs/promises';
-import type { EndpointSummary, StatusCodeMap, TestSummary } from '@tressi/shared/common';
+import {
+  type EndpointSummary,
+  requestErrorKindLabels,
+  requestTimingPhaseDefaults,
+  requestTimingPhaseLabels,
+  type StatusCodeMap,
+  type TestSummary,
+  type ThresholdVerdict,
+} from '@tressi/shared/common';
 import * as xlsx from 'xlsx';
 
+import { formatGrpcStatusCodes } from '../utils/status-code-aggregator';
+import { getThresholdLabel } from '../utils/thresholds';
 import { validateXlsxPath } from '../utils/validation';
 
 /**
@@ -28,6 +38,11 @@ export class XlsxExporter {
         this._addEndpointSummarySheet(wb, processedSummary.endpoints);
       }
 
+      // Threshold Verdicts Sheet
+      if (processedSummary.thresholds && processedSummary.thresholds.length > 0) {
+        this._addThresholdsSheet(wb, processedSummary.thresholds);
+      }
+
       // Status Code Distribution Sheet
       this._addStatusCodeDistributionSheet(wb, statusCodeMap);
 
@@ -37,9 +52,15 @@ export class XlsxExporter {
       // Latency Distribution Sheet
       this._addLatencyDistributionSheet(wb, processedSummary);
 
+      // Timing Phases Sheet
+      this._addTimingPhasesSheet(wb, processedSummary);
+
       // Sampled Responses Sheet
       this._addSampledResponsesSheet(wb, processedSummary.endpoints);
 
+      // Errors Sheet
+      this._addErrorsSheet(wb, processedSummary.endpoints);
+
       if (path) {
         validateXlsxPath(path);
         const buffer = xlsx.write(wb, { type: 'buffer' });
@@ -82,6 +103,8 @@ export class XlsxExporter {
       { Metric: 'Total Requests', Value: g.totalRequests },
       { Metric: 'Successful', Value: g.successfulRequests },
       { Metric: 'Failed', Value: g.failedRequests },
+      { Metric: 'Dropped', Value: g.droppedRequests },
+      { Metric: 'Late', Value: g.lateRequests },
       { Metric: 'Error Rate', Value: g.errorRate },
       { Metric: 'Min Latency (ms)', Value: g.minLatencyMs },
       { Metric: 'P50 Latency (ms)', Value: g.p50LatencyMs },
@@ -92,14 +115,29 @@ export class XlsxExporter {
         Value: g.histogram?.percentiles[99.9] || 0,
       },
       { Metric: 'Max Latency (ms)', Value: g.maxLatencyMs },
+      { Metric: 'Corrected P50 Latency (ms)', Value: g.correctedP50LatencyMs },
+      { Metric: 'Corrected P95 Latency (ms)', Value: g.correctedP95LatencyMs },
+      { Metric: 'Corrected P99 Latency (ms)', Value: g.correctedP99LatencyMs },
       { Metric: 'Avg RPS', Value: g.averageRequestsPerSecond },
       { Metric: 'Peak RPS', Value: g.peakRequestsPerSecond },
+      { Metric: 'Peak Active VUs', Value: g.activeVus },
+      { Metric: 'Peak In-Flight Requests', Value: g.inFlightRequests },
+      ...(g.authTokens
+        ? [
+            { Metric: 'Token Requests', Value: g.authTokens.requests },
+            { Metric: 'Failed Token Requests', Value: g.authTokens.failures },
+            { Metric: 'Mean Token Latency (ms)', Value: g.authTokens.meanLatencyMs },
+          ]
+        : []),
       { Metric: 'Network Bytes Sent', Value: g.networkBytesSent },
       { Metric: 'Network Bytes Received', Value: g.networkBytesReceived },
       { Metric: 'Network Throughput (B/s)', Value: g.networkBytesPerSec },
       { Metric: 'Target Achieved (%)', Value: g.targetAchieved },
       { Metric: 'CPU Usage (%)', Value: g.avgSystemCpuUsagePercent },
       { Metric: 'Memory Usage (MB)', Value: g.avgProcessMemoryUsageMB },
+      { Metric: 'Peak Event Loop Lag (ms)', Value: g.eventLoopLagMs },
+      { Metric: 'Peak Worker Heap (MB)', Value: g.heapUsedMB },
+      { Metric: 'Generator Saturated', Value: g.generatorSaturated ? 'Yes' : 'No' },
       { Metric: 'Test Started (epoch)', Value: g.epochStartedAt },
       { Metric: 'Test Ended (epoch)', Value: g.epochEndedAt },
     ];
@@ -110,10 +148,34 @@ export class XlsxExporter {
 
   private _addEndpointSummarySheet(wb: xlsx.WorkBook, endpoints: EndpointSummary[]): void {
     const formattedEndpoints = endpoints.map((endpoint) => ({
+      'Abnormal Closes': endpoint.webSocket?.abnormalCloses ?? 0,
       'Avg RPS': endpoint.averageRequestsPerSecond,
+      'Connection Refused': endpoint.errorCounts.connectionRefused,
+      'Corrected P50 Latency (ms)': endpoint.correctedP50LatencyMs,
+      'Corrected P95 Latency (ms)': endpoint.correctedP95LatencyMs,
+      'Corrected P99 Latency (ms)': endpoint.correctedP99LatencyMs,
+      Disconnects: endpoint.stream?.disconnects ?? 0,
+      'DNS Errors': endpoint.errorCounts.dns,
+      Dropped: endpoint.droppedRequests,
+      Endpoint: endpoint.key,
       'Error Rate': endpoint.errorRate,
+      'Event Gap P50 (ms)': endpoint.stream?.eventGap?.p50Ms ?? 0,
+      'Event Gap P95 (ms)': endpoint.stream?.eventGap?.p95Ms ?? 0,
+      'Event Gap P99 (ms)': endpoint.stream?.eventGap?.p99Ms ?? 0,
+      'Events Received': endpoint.stream?.eventsReceived ?? 0,
+      'Events/s': endpoint.stream?.eventsPerSecond ?? 0,
       Failed: endpoint.failedRequests,
+      'gRPC Status Codes': endpoint.grpc
+        ? formatGrpcStatusCodes(endpoint.grpc.statusCodeDistribution)
+        : '',
+      'HTTP/1.1 Requests': endpoint.protocolCounts.http1,
+      'HTTP/2 Requests': endpoint.protocolCounts.h2,
+      'h2c Requests': endpoint.protocolCounts.h2c,
+      Late: endpoint.lateRequests,
       'Max Latency (ms)': endpoint.maxLatencyMs,
+      'Messages Received':
+        endpoint.webSocket?.messagesReceived ?? endpoint.grpc?.messagesReceived ?? 0,
+      'Messages Sent': endpoint.webSocket?.messagesSent ?? endpoint.grpc?.messagesSent ?? 0,
       Method: endpoint.method,
       'Min Latency (ms)': endpoint.minLatencyMs,
       'P1 Latency (ms)': endpoint.histogram?.percentiles[1] || 0,
@@ -127,9 +189,15 @@ export class XlsxExporter {
       'P99 Latency (ms)': endpoint.p99LatencyMs,
       'P99.9 Latency (ms)': endpoint.histogram?.percentiles[99.9] || 0,
       'Peak RPS': endpoint.peakRequestsPerSecond,
+      'Round Trip P50 (ms)': endpoint.webSocket?.roundTrip?.p50Ms ?? 0,
+      'Round Trip P95 (ms)': endpoint.webSocket?.roundTrip?.p95Ms ?? 0,
+      'Round Trip P99 (ms)': endpoint.webSocket?.roundTrip?.p99Ms ?? 0,
+      Scenario: endpoint.scenario ?? '',
       Successful: endpoint.successfulRequests,
       'Target Achieved (%)': endpoint.targetAchieved,
       'Theoretical Max RPS': endpoint.theoreticalMaxRps,
+      Timeouts: endpoint.errorCounts.timeout,
+      'TLS Errors': endpoint.errorCounts.tls,
       'Total Requests': endpoint.totalRequests,
       URL: endpoint.url,
     }));
@@ -138,6 +206,18 @@ export class XlsxExporter {
     xlsx.utils.book_append_sheet(wb, wsEndpoints, 'Endpoint Summary');
   }
 
+  private _addThresholdsSheet(wb: xlsx.WorkBook, verdicts: ThresholdVerdict[]): void {
+    const formattedVerdicts = verdicts.map((verdict) => ({
+      Actual: verdict.actual,
+      Result: verdict.passed ? 'PASS' : 'FAIL',
+      Scope: verdict.endpoint ?? 'Global',
+      Threshold: getThresholdLabel(verdict),
+    }));
+
+    const wsThresholds = xlsx.utils.json_to_sheet(formattedVerdicts);
+    xlsx.utils.book_append_sheet(wb, wsThresholds, 'Thresholds');
+  }
+
   private _addStatusCodeDistributionSheet(
     wb: xlsx.WorkBook,
     statusCodeMap: Record<number, number>,
@@ -241,13 +321,45 @@ export class XlsxExporter {
     }
   }
 
+  private _addTimingPhasesSheet(wb: xlsx.WorkBook, summary: TestSummary): void {
+    const scopes = [
+      { scope: 'Global', timingPhases: summary.global.timingPhases },
+      ...summary.endpoints.map((endpoint) => ({
+        scope: endpoint.key,
+        timingPhases: endpoint.timingPhases,
+      })),
+    ];
+
+    const phasesForSheet = scopes.flatMap(({ scope, timingPhases }) =>
+      timingPhases
+        ? requestTimingPhaseDefaults.map((phase) => ({
+            'Mean (ms)': timingPhases[phase].meanMs,
+            'P50 (ms)': timingPhases[phase].p50Ms,
+            'P95 (ms)': timingPhases[phase].p95Ms,
+            'P99 (ms)': timingPhases[phase].p99Ms,
+            Phase: requestTimingPhaseLabels[phase],
+            Scope: scope,
+          }))
+        : [],
+    );
+
+    if (phasesForSheet.length > 0) {
+      const wsPhases = xlsx.utils.json_to_sheet(phasesForSheet);
+      xlsx.utils.book_append_sheet(wb, wsPhases, 'Timing Phases');
+    }
+  }
+
   private _addSampledResponsesSheet(wb: xlsx.WorkBook, endpoints: EndpointSummary[]): void {
     const samplesForSheet: Array<{
+      Endpoint: string;
       URL: string;
       Method: string;
       'Status Code': number;
       'Response Headers': string;
       'Response Body': string;
+      Cookies: string;
+      TLS: string;
+      'GraphQL Errors': string;
     }> = [];
 
     // Flatten response samples into individual rows
@@ -256,27 +368,34 @@ export class XlsxExporter {
         continue;
       }
 
-      // Use a Set to track unique status codes per endpoint
-      const seenStatusCodes = new Set<number>();
+      // Use a Set to track unique status codes per endpoint, with GraphQL errors apart
+      const seenStatusCodes = new Set<string>();
 
       for (const sample of endpoint.responseSamples) {
-        if (!seenStatusCodes.has(sample.statusCode)) {
-          seenStatusCodes.add(sample.statusCode);
+        const sampleKey = `${sample.statusCode}${sample.graphqlErrors ? ' graphql' : ''}`;
+        if (!seenStatusCodes.has(sampleKey)) {
+          seenStatusCodes.add(sampleKey);
           samplesForSheet.push({
+            Cookies: sample.cookies
+              ? `${sample.cookies.sent} sent, ${sample.cookies.received} received, ${sample.cookies.jar} in jar`
+              : '',
+            Endpoint: endpoint.key,
+            'GraphQL Errors': sample.graphqlErrors?.join('; ') ?? '',
             Method: endpoint.method,
             'Response Body': sample.body || '(No body captured)',
             'Response Headers': JSON.stringify(sample.headers || {}),
             'Status Code': sample.statusCode,
+            TLS: sample.tls ? `${sample.tls.protocol}, ${sample.tls.cipher}` : '',
             URL: endpoint.url,
           });
         }
       }
     }
 
-    // Sort by URL and then by status code
+    // Sort by endpoint and then by status code
     samplesForSheet.sort((a, b) => {
-      if (a.URL !== b.URL) {
-        return a.URL.localeCompare(b.URL);
+      if (a.Endpoint !== b.Endpoint) {
+        return a.Endpoint.localeCompare(b.Endpoint);
       }
       return a['Status Code'] - b['Status Code'];
     });
@@ -287,6 +406,26 @@ export class XlsxExporter {
     }
   }
 
+  private _addErrorsSheet(wb: xlsx.WorkBook, endpoints: EndpointSummary[]): void {
+    const errorsForSheet = endpoints.flatMap((endpoint) =>
+      endpoint.errors.map((error) => ({
+        Count: error.count,
+        Detail: error.sample.detail ?? '',
+        Endpoint: endpoint.key,
+        'First Seen': new Date(error.firstSeenAt).toISOString(),
+        Kind: requestErrorKindLabels[error.kind],
+        'Last Seen': new Date(error.lastSeenAt).toISOString(),
+        Message: error.message,
+        'Sample URL': error.sample.url,
+      })),
+    );
+
+    if (errorsForSheet.length > 0) {
+      const wsErrors = xlsx.utils.json_to_sheet(errorsForSheet);
+      xlsx.utils.book_append_sheet(wb, wsErrors, 'Errors');
+    }
+  }
+
   private _addConfigurationSheet(wb: xlsx.WorkBook, config: TestSummary['configSnapshot']): void {
     const configData = Object.entries(config).map(([key, value]) => ({
       'Config Option': key,
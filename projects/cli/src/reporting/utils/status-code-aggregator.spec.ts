@@ -1,7 +1,7 @@
 import type { EndpointSummary } from '@tressi/shared/common';
 import { describe, expect, it } from 'vitest';
 
-import { aggregateStatusCodesFromEndpoints } from './status-code-aggregator';
+import { aggregateStatusCodesFromEndpoints, formatGrpcStatusCodes } from './status-code-aggregator';
 
 describe('aggregateStatusCodesFromEndpoints', () => {
   it('should aggregate status codes from multiple endpoints', () => {
@@ -25,3 +25,15 @@ describe('aggregateStatusCodesFromEndpoints', () => {
     expect(result).toEqual({});
   });
 });
+
+describe('formatGrpcStatusCodes', () => {
+  it('should name the gRPC status codes in code order', () => {
+    expect(formatGrpcStatusCodes({ 0: 1200, 5: 2, 14: 3 })).toBe(
+      'OK (1,200), NOT_FOUND (2), UNAVAILABLE (3)',
+    );
+  });
+
+  it('should keep codes without a name as numbers', () => {
+    expect(formatGrpcStatusCodes({ 99: 1 })).toBe('99 (1)');
+  });
+});
@@ -1,4 +1,4 @@
-import type { EndpointSummary } from '@tressi/shared/common';
+import { type EndpointSummary, grpcStatusCodeDefaults } from '@tressi/shared/common';
 
 /**
  * Aggregates status codes from all endpoints into a single map.
@@ -28,3 +28,23 @@ export function aggregateStatusCodesFromEndpoints(
 
   return statusCodeMap;
 }
+
+/**
+ * Formats the gRPC status codes of an endpoint by name, in code order.
+ *
+ * @param statusCodeDistribution - Number of calls per gRPC status code
+ * @returns The names and counts of the codes that occurred
+ *
+ * @example
+ * ```typescript
+ * formatGrpcStatusCodes({ 0: 1200, 14: 3 });
+ * // Returns: 'OK (1,200), UNAVAILABLE (3)'
+ * ```
+ */
+export function formatGrpcStatusCodes(statusCodeDistribution: Record<number, number>): string {
+  return Object.entries(statusCodeDistribution)
+    .map(([code, count]) => [Number.parseInt(code, 10), count])
+    .sort(([a], [b]) => a - b)
+    .map(([code, count]) => `${grpcStatusCodeDefaults[code] ?? code} (${count.toLocaleString()})`)
+    .join(', ');
+}
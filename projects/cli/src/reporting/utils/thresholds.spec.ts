@@ -0,0 +1,110 @@
+import type { TestSummary } from '@tressi/shared/common';
+import { describe, expect, it } from 'vitest';
+
+import { evaluateThresholds, getThresholdLabel } from './thresholds';
+
+function createSummary(): TestSummary {
+  return {
+    configSnapshot: {
+      options: {
+        thresholds: [
+          { metric: 'p95LatencyMs', operator: '<', value: 300 },
+          { metric: 'errorRate', operator: '<', value: 0.01 },
+        ],
+      },
+      requests: [
+        {
+          method: 'GET',
+          thresholds: [{ metric: 'targetAchieved', operator: '>', value: 0.95 }],
+          url: 'http://test.com/a',
+        },
+        { method: 'POST', thresholds: [], url: 'http://test.com/a' },
+      ],
+      scenarios: [
+        {
+          name: 'checkout',
+          steps: [{ method: 'GET', url: 'http://test.com/cart' }],
+          thresholds: [{ metric: 'p99LatencyMs', operator: '<=', value: 500 }],
+        },
+      ],
+    },
+    endpoints: [
+      { key: 'GET http://test.com/a', p95LatencyMs: 120, targetAchieved: 0.9 },
+      { key: 'POST http://test.com/a', p95LatencyMs: 80, targetAchieved: 1 },
+      { key: 'checkout › GET http://test.com/cart', p99LatencyMs: 500 },
+    ],
+    global: { errorRate: 0.02, p95LatencyMs: 250 },
+  } as unknown as TestSummary;
+}
+
+describe('evaluateThresholds', () => {
+  it('should evaluate global thresholds against the global summary', () => {
+    const verdicts = evaluateThresholds(createSummary());
+
+    expect(verdicts.slice(0, 2)).toEqual([
+      {
+        actual: 250,
+        endpoint: undefined,
+        metric: 'p95LatencyMs',
+        operator: '<',
+        passed: true,
+        threshold: 300,
+      },
+      {
+        actual: 0.02,
+        endpoint: undefined,
+        metric: 'errorRate',
+        operator: '<',
+        passed: false,
+        threshold: 0.01,
+      },
+    ]);
+  });
+
+  it('should evaluate request and scenario thresholds against their endpoint', () => {
+    const verdicts = evaluateThresholds(createSummary());
+
+    expect(verdicts.slice(2)).toEqual([
+      {
+        actual: 0.9,
+        endpoint: 'GET http://test.com/a',
+        metric: 'targetAchieved',
+        operator: '>',
+        passed: false,
+        threshold: 0.95,
+      },
+      {
+        actual: 500,
+        endpoint: 'checkout › GET http://test.com/cart',
+        metric: 'p99LatencyMs',
+        operator: '<=',
+        passed: true,
+        threshold: 500,
+      },
+    ]);
+  });
+
+  it('should return no verdicts when no thresholds are configured', () => {
+    const summary = {
+      configSnapshot: { options: {}, requests: [{ url: 'http://test.com' }] },
+      endpoints: [{ url: 'http://test.com' }],
+      global: {},
+    } as unknown as TestSummary;
+
+    expect(evaluateThresholds(summary)).toEqual([]);
+  });
+});
+
+describe('getThresholdLabel', () => {
+  it('should format the threshold expression', () => {
+    expect(
+      getThresholdLabel({
+        actual: 120,
+        metric: 'p95LatencyMs',
+        operator: '<',
+        passed: true,
+        threshold: 300,
+      }),
+    ).toBe('p95LatencyMs < 300');
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  getConfigEndpoints,
+  getEndpointKey,
+  type TestSummary,
+  type ThresholdVerdict,
+  type TressiThreshold,
+} from '@tressi/shared/common';
+
+type ThresholdMetrics = Pick<TestSummary['global'], TressiThreshold['metric']>;
+
+function compare(actual: number, operator: TressiThreshold['operator'], value: number): boolean {
+  switch (operator) {
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+    case '>':
+      return actual > value;
+    case '>=':
+      return actual >= value;
+  }
+}
+
+function evaluate(
+  thresholds: TressiThreshold[],
+  metrics: ThresholdMetrics,
+  endpoint?: string,
+): ThresholdVerdict[] {
+  return thresholds.map(({ metric, operator, value }) => {
+    const actual = metrics[metric];
+    return {
+      actual,
+      endpoint,
+      metric,
+      operator,
+      passed: compare(actual, operator, value),
+      threshold: value,
+    };
+  });
+}
+
+/**
+ * Evaluates the configured SLO thresholds against the final test summary.
+ * Global thresholds are checked against the global summary, request and scenario
+ * thresholds against the summary of their endpoint.
+ *
+ * @param summary - The final test summary, including its config snapshot
+ * @returns One verdict per configured threshold, global thresholds first
+ *
+ * @example
+ * ```typescript
+ * const verdicts = evaluateThresholds(summary);
+ * const breached = verdicts.some((verdict) => !verdict.passed);
+ * ```
+ */
+export function evaluateThresholds(summary: TestSummary): ThresholdVerdict[] {
+  const { configSnapshot } = summary;
+  const verdicts = evaluate(configSnapshot.options.thresholds ?? [], summary.global);
+
+  for (const endpointConfig of getConfigEndpoints(configSnapshot)) {
+    const thresholds = endpointConfig.thresholds ?? [];
+    if (thresholds.length === 0) continue;
+
+    const endpoint = summary.endpoints.find((e) => e.key === getEndpointKey(endpointConfig));
+    if (!endpoint) continue;
+
+    verdicts.push(...evaluate(thresholds, endpoint, endpoint.key));
+  }
+
+  return verdicts;
+}
+
+/**
+ * Builds a readable expression for a verdict, e.g. `p95LatencyMs < 300`.
+ */
+export function getThresholdLabel(verdict: ThresholdVerdict): string {
+  return `${verdict.metric} ${verdict.operator} ${verdict.threshold}`;
+}
@@ -9,7 +9,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
   it('should transform aggregated metrics to TestSummary', () => {
     const config = {
       options: { rampUpDurationSec: 0 },
-      requests: [{ rps: 20, url: '/test' }],
+      requests: [{ method: 'GET', rps: 20, url: '/test' }],
     } as unknown as TressiConfig;
 
     const snapshot = {
@@ -19,6 +19,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
           averageRequestsPerSecond: 10,
           errorRate: 0.1,
           failedRequests: 10,
+          key: 'GET /test',
           maxLatencyMs: 100,
           minLatencyMs: 1,
           p50LatencyMs: 50,
@@ -52,6 +53,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
         peakRequestsPerSecond: 10,
         successfulRequests: 90,
         totalRequests: 100,
+        workerEventLoopLagMs: [],
+        workerHeapUsedMB: [],
+        workerInFlightRequests: [],
       },
     } as unknown as TestSummary;
 
@@ -66,7 +70,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should exclude ramp-up period from global metrics calculations', () => {
       const config = {
         options: { rampUpDurationSec: 5 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Snapshot 1: During ramp-up (t=0-5s)
@@ -75,6 +79,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 5,
+            key: 'GET /test',
             peakRequestsPerSecond: 5,
             totalRequests: 25,
             url: '/test',
@@ -88,6 +93,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 5,
           totalRequests: 25,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -97,6 +105,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 20,
+            key: 'GET /test',
             peakRequestsPerSecond: 22,
             totalRequests: 100,
             url: '/test',
@@ -110,6 +119,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 22,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -126,7 +138,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should use per-endpoint ramp-up when greater than global', () => {
       const config = {
         options: { rampUpDurationSec: 5 },
-        requests: [{ rampUpDurationSec: 10, rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rampUpDurationSec: 10, rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Snapshot at t=7s (after global ramp-up but during endpoint ramp-up)
@@ -135,6 +147,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 15,
+            key: 'GET /test',
             peakRequestsPerSecond: 15,
             totalRequests: 75,
             url: '/test',
@@ -148,6 +161,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 15,
           totalRequests: 75,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -157,6 +173,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 20,
+            key: 'GET /test',
             peakRequestsPerSecond: 22,
             totalRequests: 100,
             url: '/test',
@@ -170,6 +187,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 22,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -190,7 +210,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should fall back to all snapshots if no steady-state data exists', () => {
       const config = {
         options: { rampUpDurationSec: 10 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Both snapshots are during ramp-up
@@ -199,6 +219,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 5,
+            key: 'GET /test',
             peakRequestsPerSecond: 5,
             totalRequests: 25,
             url: '/test',
@@ -212,6 +233,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 5,
           totalRequests: 25,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -220,6 +244,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 12,
             totalRequests: 100,
             url: '/test',
@@ -233,6 +258,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 12,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -246,7 +274,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should handle endpoint inheriting global ramp-up when endpoint ramp-up is 0', () => {
       const config = {
         options: { rampUpDurationSec: 5 },
-        requests: [{ rampUpDurationSec: 0, rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rampUpDurationSec: 0, rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Snapshot at t=6s (after global ramp-up of 5s)
@@ -255,6 +283,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 20,
+            key: 'GET /test',
             peakRequestsPerSecond: 22,
             totalRequests: 100,
             url: '/test',
@@ -268,6 +297,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 22,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -277,6 +309,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             totalRequests: 50,
             url: '/test',
@@ -290,6 +323,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           epochStartedAt: BASE_TIME,
           peakRequestsPerSecond: 10,
           totalRequests: 50,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -306,7 +342,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should use peakRequestsPerSecond (not averageRequestsPerSecond) for global peak RPS', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 30, url: '/test' }],
+        requests: [{ method: 'GET', rps: 30, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Snapshot where average and peak differ clearly
@@ -315,6 +351,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 15,
+            key: 'GET /test',
             peakRequestsPerSecond: 28,
             totalRequests: 150,
             url: '/test',
@@ -329,6 +366,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 28,
           totalRequests: 150,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -341,7 +381,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should fall back to all snapshots for global peak RPS when no steady-state data exists', () => {
       const config = {
         options: { rampUpDurationSec: 60 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       // Both snapshots are within the ramp-up window (test ends before 60 s)
@@ -350,6 +390,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 5,
+            key: 'GET /test',
             peakRequestsPerSecond: 8,
             totalRequests: 40,
             url: '/test',
@@ -364,6 +405,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 3,
           peakRequestsPerSecond: 8,
           totalRequests: 40,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -372,6 +416,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 14,
             totalRequests: 100,
             url: '/test',
@@ -386,6 +431,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 8,
           peakRequestsPerSecond: 14,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -402,7 +450,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should compute global averageRequestsPerSecond from totalRequests / finalDurationSec', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 10, url: '/test' }],
+        requests: [{ method: 'GET', rps: 10, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -410,6 +458,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             totalRequests: 100,
             url: '/test',
@@ -424,6 +473,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 10,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -436,13 +488,19 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should return 0 for global averageRequestsPerSecond when finalDurationSec is 0', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 10, url: '/test' }],
+        requests: [{ method: 'GET', rps: 10, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
         configSnapshot: config,
         endpoints: [
-          { averageRequestsPerSecond: 0, peakRequestsPerSecond: 0, totalRequests: 0, url: '/test' },
+          {
+            averageRequestsPerSecond: 0,
+            key: 'GET /test',
+            peakRequestsPerSecond: 0,
+            totalRequests: 0,
+            url: '/test',
+          },
         ],
         global: {
           averageRequestsPerSecond: 0,
@@ -453,6 +511,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 0,
           peakRequestsPerSecond: 0,
           totalRequests: 0,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -466,7 +527,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
       // 30 s test, 10 s ramp-up → endpoint was active for 20 s steady-state
       const config = {
         options: { rampUpDurationSec: 10 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -474,6 +535,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /test',
             peakRequestsPerSecond: 20,
             totalRequests: 400, // 20 rps × 20 steady-state seconds
             url: '/test',
@@ -488,6 +550,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 30,
           peakRequestsPerSecond: 20,
           totalRequests: 400,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -503,7 +568,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
       // Edge case: ramp-up longer than test (early exit scenario)
       const config = {
         options: { rampUpDurationSec: 60 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -511,6 +576,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             totalRequests: 50,
             url: '/test',
@@ -525,6 +591,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 5,
           peakRequestsPerSecond: 10,
           totalRequests: 50,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -541,7 +610,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
       // The function must not overwrite targetAchieved in this case.
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 10, url: '/other' }],
+        requests: [{ method: 'GET', rps: 10, url: '/other' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -549,6 +618,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 8,
+            key: 'GET /unmatched',
             peakRequestsPerSecond: 10,
             targetAchieved: 0.8,
             totalRequests: 80,
@@ -564,6 +634,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 10,
           totalRequests: 80,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -581,6 +654,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             targetAchieved: 0.75,
             totalRequests: 100,
@@ -597,6 +671,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           peakRequestsPerSecond: 10,
           targetAchieved: 0.75,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -615,7 +692,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
       // 400 requests total; full-duration avg = 400/30 ≈ 13.33; steady-state avg = 400/20 = 20
       const config = {
         options: { rampUpDurationSec: 10 },
-        requests: [{ rps: 20, url: '/test' }],
+        requests: [{ method: 'GET', rps: 20, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -623,6 +700,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /test',
             peakRequestsPerSecond: 20,
             totalRequests: 400,
             url: '/test',
@@ -637,6 +715,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 30,
           peakRequestsPerSecond: 20,
           totalRequests: 400,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -654,8 +735,8 @@ describe('transformAggregatedMetricToTestSummary', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
         requests: [
-          { rps: 20, url: '/fast' },
-          { rps: 20, url: '/slow' },
+          { method: 'GET', rps: 20, url: '/fast' },
+          { method: 'GET', rps: 20, url: '/slow' },
         ],
       } as unknown as TressiConfig;
 
@@ -665,12 +746,14 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /fast',
             peakRequestsPerSecond: 20,
             totalRequests: 200,
             url: '/fast',
           },
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /slow',
             peakRequestsPerSecond: 10,
             totalRequests: 100,
             url: '/slow',
@@ -685,6 +768,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 20,
           totalRequests: 300,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -706,7 +792,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
       // ramp-up (60 s) > totalDuration (5 s) → fall back to full duration (5 s)
       const config = {
         options: { rampUpDurationSec: 60 },
-        requests: [{ rps: 10, url: '/test' }],
+        requests: [{ method: 'GET', rps: 10, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -714,6 +800,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             totalRequests: 50,
             url: '/test',
@@ -728,6 +815,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 5,
           peakRequestsPerSecond: 10,
           totalRequests: 50,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -740,7 +830,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
     it('should not overwrite existing global targetAchieved when totalTargetRps is 0', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 0, url: '/test' }],
+        requests: [{ method: 'GET', rps: 0, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -748,6 +838,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             totalRequests: 100,
             url: '/test',
@@ -763,6 +854,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           peakRequestsPerSecond: 10,
           targetAchieved: 0.42,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -772,10 +866,103 @@ describe('transformAggregatedMetricToTestSummary', () => {
       expect(result.global.targetAchieved).toBe(0.42);
     });
 
+    it('should not compute targetAchieved for virtual users', () => {
+      const config = {
+        options: { executor: { type: 'virtualUsers' }, rampUpDurationSec: 0 },
+        requests: [{ method: 'GET', rps: 5, url: '/test' }],
+      } as unknown as TressiConfig;
+
+      const snapshot = {
+        configSnapshot: config,
+        endpoints: [
+          {
+            averageRequestsPerSecond: 10,
+            key: 'GET /test',
+            peakRequestsPerSecond: 10,
+            targetAchieved: 0,
+            totalRequests: 100,
+            url: '/test',
+          },
+        ],
+        global: {
+          activeVus: 4,
+          averageRequestsPerSecond: 10,
+          avgProcessMemoryUsageMB: 100,
+          avgSystemCpuUsagePercent: 50,
+          epochEndedAt: BASE_TIME + 10000,
+          epochStartedAt: BASE_TIME,
+          finalDurationSec: 10,
+          peakRequestsPerSecond: 10,
+          targetAchieved: 0,
+          totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
+        },
+      } as unknown as TestSummary;
+
+      const result = transformAggregatedMetricsToTestSummary([snapshot]);
+
+      expect(result.global.targetAchieved).toBe(0);
+      expect(result.endpoints[0].targetAchieved).toBe(0);
+    });
+
+    it('should compare against the mean target of the stages after the initial ramp', () => {
+      const config = {
+        options: { rampUpDurationSec: 0, stages: [] },
+        requests: [
+          {
+            method: 'GET',
+            rps: 5,
+            stages: [
+              { durationSec: 10, interpolation: 'linear', rps: 100 },
+              { durationSec: 10, interpolation: 'step', rps: 50 },
+            ],
+            url: '/test',
+          },
+        ],
+      } as unknown as TressiConfig;
+
+      const snapshot = {
+        configSnapshot: config,
+        endpoints: [
+          {
+            averageRequestsPerSecond: 0,
+            key: 'GET /test',
+            peakRequestsPerSecond: 40,
+            targetAchieved: 0,
+            totalRequests: 400,
+            url: '/test',
+          },
+        ],
+        global: {
+          averageRequestsPerSecond: 0,
+          avgProcessMemoryUsageMB: 100,
+          avgSystemCpuUsagePercent: 50,
+          epochEndedAt: BASE_TIME + 20000,
+          epochStartedAt: BASE_TIME,
+          finalDurationSec: 20,
+          peakRequestsPerSecond: 40,
+          targetAchieved: 0,
+          totalRequests: 400,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
+        },
+      } as unknown as TestSummary;
+
+      const result = transformAggregatedMetricsToTestSummary([snapshot]);
+
+      // 400 requests over the 10s after the ramp against a 50 RPS target
+      expect(result.global.averageRequestsPerSecond).toBe(40);
+      expect(result.global.targetAchieved).toBe(0.8);
+      expect(result.endpoints[0].targetAchieved).toBe(0.8);
+    });
+
     it('should not overwrite existing endpoint targetAchieved when endpoint rps is 0', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
-        requests: [{ rps: 0, url: '/test' }],
+        requests: [{ method: 'GET', rps: 0, url: '/test' }],
       } as unknown as TressiConfig;
 
       const snapshot = {
@@ -783,6 +970,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /test',
             peakRequestsPerSecond: 10,
             targetAchieved: 0.99,
             totalRequests: 100,
@@ -798,6 +986,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 10,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -808,13 +999,146 @@ describe('transformAggregatedMetricToTestSummary', () => {
     });
   });
 
+  describe('activeVus', () => {
+    it('should report the peak active virtual users across all snapshots', () => {
+      const config = {
+        options: { executor: { type: 'virtualUsers' }, rampUpDurationSec: 0 },
+        requests: [{ method: 'GET', rps: 5, url: '/test' }],
+      } as unknown as TressiConfig;
+
+      const createSnapshot = (activeVus: number, elapsedMs: number): TestSummary =>
+        ({
+          configSnapshot: config,
+          endpoints: [],
+          global: {
+            activeVus,
+            averageRequestsPerSecond: 10,
+            avgProcessMemoryUsageMB: 100,
+            avgSystemCpuUsagePercent: 50,
+            epochEndedAt: BASE_TIME + elapsedMs,
+            epochStartedAt: BASE_TIME,
+            finalDurationSec: elapsedMs / 1000,
+            peakRequestsPerSecond: 10,
+            totalRequests: 100,
+            workerEventLoopLagMs: [],
+            workerHeapUsedMB: [],
+            workerInFlightRequests: [],
+          },
+        }) as unknown as TestSummary;
+
+      const result = transformAggregatedMetricsToTestSummary([
+        createSnapshot(5, 1000),
+        createSnapshot(10, 2000),
+        createSnapshot(0, 3000),
+      ]);
+
+      expect(result.global.activeVus).toBe(10);
+    });
+  });
+
+  describe('inFlightRequests', () => {
+    it('should report the peak requests in flight overall and per worker', () => {
+      const config = {
+        options: { rampUpDurationSec: 0 },
+        requests: [{ method: 'GET', rps: 5, url: '/test' }],
+      } as unknown as TressiConfig;
+
+      const createSnapshot = (workerInFlightRequests: number[], elapsedMs: number): TestSummary =>
+        ({
+          configSnapshot: config,
+          endpoints: [],
+          global: {
+            averageRequestsPerSecond: 10,
+            avgProcessMemoryUsageMB: 100,
+            avgSystemCpuUsagePercent: 50,
+            epochEndedAt: BASE_TIME + elapsedMs,
+            epochStartedAt: BASE_TIME,
+            finalDurationSec: elapsedMs / 1000,
+            inFlightRequests: workerInFlightRequests.reduce((sum, count) => sum + count, 0),
+            peakRequestsPerSecond: 10,
+            totalRequests: 100,
+            workerEventLoopLagMs: [],
+            workerHeapUsedMB: [],
+            workerInFlightRequests,
+          },
+        }) as unknown as TestSummary;
+
+      const result = transformAggregatedMetricsToTestSummary([
+        createSnapshot([4, 30], 1000),
+        createSnapshot([12, 8], 2000),
+        createSnapshot([0, 0], 3000),
+      ]);
+
+      expect(result.global.inFlightRequests).toBe(34);
+      expect(result.global.workerInFlightRequests).toEqual([12, 30]);
+    });
+  });
+
+  describe('generator health', () => {
+    const config = {
+      options: { rampUpDurationSec: 0 },
+      requests: [{ method: 'GET', rps: 5, url: '/test' }],
+    } as unknown as TressiConfig;
+
+    const createSnapshot = (
+      workerEventLoopLagMs: number[],
+      workerHeapUsedMB: number[],
+      generatorSaturated: boolean,
+      elapsedMs: number,
+    ): TestSummary =>
+      ({
+        configSnapshot: config,
+        endpoints: [],
+        global: {
+          averageRequestsPerSecond: 10,
+          avgProcessMemoryUsageMB: 100,
+          avgSystemCpuUsagePercent: 50,
+          epochEndedAt: BASE_TIME + elapsedMs,
+          epochStartedAt: BASE_TIME,
+          eventLoopLagMs: Math.max(...workerEventLoopLagMs),
+          finalDurationSec: elapsedMs / 1000,
+          generatorSaturated,
+          heapUsedMB: workerHeapUsedMB.reduce((sum, heap) => sum + heap, 0),
+          peakRequestsPerSecond: 10,
+          totalRequests: 100,
+          workerEventLoopLagMs,
+          workerHeapUsedMB,
+          workerInFlightRequests: [],
+        },
+      }) as unknown as TestSummary;
+
+    it('should report the peak event loop lag and heap overall and per worker', () => {
+      const result = transformAggregatedMetricsToTestSummary([
+        createSnapshot([5, 90], [40, 50], false, 1000),
+        createSnapshot([60, 10], [70, 45], false, 2000),
+        createSnapshot([0, 0], [30, 30], false, 3000),
+      ]);
+
+      expect(result.global.eventLoopLagMs).toBe(90);
+      expect(result.global.workerEventLoopLagMs).toEqual([60, 90]);
+      expect(result.global.heapUsedMB).toBe(115);
+      expect(result.global.workerHeapUsedMB).toEqual([70, 50]);
+      expect(result.global.generatorSaturated).toBe(false);
+    });
+
+    it('should flag the run as saturated when any interval was', () => {
+      const result = transformAggregatedMetricsToTestSummary([
+        createSnapshot([5], [40], false, 1000),
+        createSnapshot([120], [40], true, 2000),
+        createSnapshot([5], [40], false, 3000),
+      ]);
+
+      expect(result.global.generatorSaturated).toBe(true);
+    });
+  });
+
   describe('multi-endpoint', () => {
     it('should compute per-endpoint metrics independently when multiple endpoints exist', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
         requests: [
-          { rps: 10, url: '/alpha' },
-          { rps: 20, url: '/beta' },
+          { method: 'GET', rps: 10, url: '/alpha' },
+          { method: 'GET', rps: 20, url: '/beta' },
         ],
       } as unknown as TressiConfig;
 
@@ -824,12 +1148,14 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /alpha',
             peakRequestsPerSecond: 10,
             totalRequests: 100,
             url: '/alpha',
           },
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /beta',
             peakRequestsPerSecond: 20,
             totalRequests: 200,
             url: '/beta',
@@ -844,6 +1170,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 20,
           totalRequests: 300,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -867,8 +1196,8 @@ describe('transformAggregatedMetricToTestSummary', () => {
       const config = {
         options: { rampUpDurationSec: 0 },
         requests: [
-          { rps: 10, url: '/present' },
-          { rps: 10, url: '/absent' },
+          { method: 'GET', rps: 10, url: '/present' },
+          { method: 'GET', rps: 10, url: '/absent' },
         ],
       } as unknown as TressiConfig;
 
@@ -878,6 +1207,7 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /present',
             peakRequestsPerSecond: 12,
             totalRequests: 100,
             url: '/present',
@@ -892,6 +1222,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 5,
           peakRequestsPerSecond: 12,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
@@ -902,12 +1235,14 @@ describe('transformAggregatedMetricToTestSummary', () => {
         endpoints: [
           {
             averageRequestsPerSecond: 10,
+            key: 'GET /present',
             peakRequestsPerSecond: 12,
             totalRequests: 100,
             url: '/present',
           },
           {
             averageRequestsPerSecond: 0,
+            key: 'GET /absent',
             peakRequestsPerSecond: 0,
             totalRequests: 0,
             url: '/absent',
@@ -922,6 +1257,9 @@ describe('transformAggregatedMetricToTestSummary', () => {
           finalDurationSec: 10,
           peakRequestsPerSecond: 12,
           totalRequests: 100,
+          workerEventLoopLagMs: [],
+          workerHeapUsedMB: [],
+          workerInFlightRequests: [],
         },
       } as unknown as TestSummary;
 
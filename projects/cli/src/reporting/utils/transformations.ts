@@ -1,14 +1,18 @@
-import type { EndpointSummary, TestSummary } from '@tressi/shared/common';
-
-function getEffectiveRampUpSec(endpointRampUp: number | undefined, globalRampUp: number): number {
-  return endpointRampUp !== undefined && endpointRampUp > 0 ? endpointRampUp : globalRampUp;
-}
+import {
+  type EndpointSummary,
+  getAverageTargetRps,
+  getConfigEndpoints,
+  getEffectiveStages,
+  getEndpointKey,
+  getSteadyStateStartSec,
+  type TestSummary,
+} from '@tressi/shared/common';
 
 function calculateSteadyStateAverageRps(
   steadyStateSnapshots: TestSummary[],
   lastSnapshot: TestSummary,
   totalDurationSec: number,
-  maxEndpointRampUpSec: number,
+  steadyStateStartSec: number,
 ): number {
   if (steadyStateSnapshots.length > 1) {
     const firstSteady = steadyStateSnapshots[0];
@@ -20,8 +24,8 @@ function calculateSteadyStateAverageRps(
   }
 
   const globalActiveDurationSec =
-    totalDurationSec > maxEndpointRampUpSec
-      ? totalDurationSec - maxEndpointRampUpSec
+    totalDurationSec > steadyStateStartSec
+      ? totalDurationSec - steadyStateStartSec
       : totalDurationSec;
   return globalActiveDurationSec > 0
     ? lastSnapshot.global.totalRequests / globalActiveDurationSec
@@ -38,6 +42,19 @@ function calculatePeakRps(steadyStateSnapshots: TestSummary[], snapshots: TestSu
   return 0;
 }
 
+/**
+ * Returns the highest value each worker reached across the snapshots, indexed by worker id.
+ */
+function calculatePeakPerWorker(workerValues: number[][]): number[] {
+  const peaks: number[] = [];
+  for (const values of workerValues) {
+    values.forEach((value, workerId) => {
+      peaks[workerId] = Math.max(peaks[workerId] ?? 0, value);
+    });
+  }
+  return peaks;
+}
+
 function calculateGlobalAverages(
   steadyStateSnapshots: TestSummary[],
   snapshots: TestSummary[],
@@ -63,12 +80,12 @@ function calculateGlobalAverages(
 }
 
 interface CalculateEndpointAveragesOptions {
-  effectiveEndpointRampUp: number;
   endpoint: EndpointSummary;
   endpointSnapshots: EndpointSummary[];
   endpointSteadyStateSnapshots: EndpointSummary[];
   lastSnapshot: TestSummary;
   snapshots: TestSummary[];
+  steadyStateStartSec: number;
   testStartTime: number;
   totalDurationSec: number;
 }
@@ -85,7 +102,7 @@ function calculateEndpointAverages(options: CalculateEndpointAveragesOptions): {
     lastSnapshot,
     testStartTime,
     totalDurationSec,
-    effectiveEndpointRampUp,
+    steadyStateStartSec,
   } = options;
   let avgRps: number;
   if (endpointSteadyStateSnapshots.length > 1) {
@@ -95,7 +112,7 @@ function calculateEndpointAverages(options: CalculateEndpointAveragesOptions): {
 
     const firstSteadyGlobal = snapshots.find((s) =>
       s.endpoints.some(
-        (e) => e.url === endpoint.url && e.totalRequests === firstSteady.totalRequests,
+        (e) => e.key === endpoint.key && e.totalRequests === firstSteady.totalRequests,
       ),
     );
     const steadyDurationMs =
@@ -104,8 +121,8 @@ function calculateEndpointAverages(options: CalculateEndpointAveragesOptions): {
     avgRps = steadyDurationSec > 0 ? steadyRequests / steadyDurationSec : 0;
   } else {
     const activeDuration =
-      totalDurationSec > effectiveEndpointRampUp
-        ? totalDurationSec - effectiveEndpointRampUp
+      totalDurationSec > steadyStateStartSec
+        ? totalDurationSec - steadyStateStartSec
         : totalDurationSec;
     avgRps = activeDuration > 0 ? endpoint.totalRequests / activeDuration : 0;
   }
@@ -136,15 +153,19 @@ export function transformAggregatedMetricsToTestSummary(snapshots: TestSummary[]
 
   const totalDurationSec = lastSnapshot.global.finalDurationSec;
   const testStartTime = snapshots[0].global.epochStartedAt;
-  const globalRampUpSec = finalSummary.configSnapshot?.options?.rampUpDurationSec ?? 0;
+  const options = finalSummary.configSnapshot?.options;
+  const globalRampUpSec = options?.rampUpDurationSec ?? 0;
+  const endpointConfigs = finalSummary.configSnapshot
+    ? getConfigEndpoints(finalSummary.configSnapshot)
+    : [];
+  const endpointStages = endpointConfigs.map((req) => getEffectiveStages(req, options));
 
-  const maxEndpointRampUpSec =
-    finalSummary.configSnapshot?.requests?.reduce((max, req) => {
-      const effective = getEffectiveRampUpSec(req.rampUpDurationSec, globalRampUpSec);
-      return Math.max(max, effective);
-    }, globalRampUpSec) ?? globalRampUpSec;
+  const globalSteadyStateStartSec = endpointStages.reduce(
+    (max, stages) => Math.max(max, getSteadyStateStartSec(stages)),
+    globalRampUpSec,
+  );
 
-  const globalSteadyStateTime = testStartTime + maxEndpointRampUpSec * 1000;
+  const globalSteadyStateTime = testStartTime + globalSteadyStateStartSec * 1000;
   const steadyStateSnapshots = snapshots.filter(
     (s) => s.global.epochEndedAt >= globalSteadyStateTime,
   );
@@ -153,18 +174,43 @@ export function transformAggregatedMetricsToTestSummary(snapshots: TestSummary[]
     steadyStateSnapshots,
     lastSnapshot,
     totalDurationSec,
-    maxEndpointRampUpSec,
+    globalSteadyStateStartSec,
   );
 
   finalSummary.global.peakRequestsPerSecond = calculatePeakRps(steadyStateSnapshots, snapshots);
+  finalSummary.global.activeVus = Math.max(...snapshots.map((s) => s.global.activeVus), 0);
+  finalSummary.global.inFlightRequests = Math.max(
+    ...snapshots.map((s) => s.global.inFlightRequests),
+    0,
+  );
+  finalSummary.global.workerInFlightRequests = calculatePeakPerWorker(
+    snapshots.map((s) => s.global.workerInFlightRequests),
+  );
+  finalSummary.global.eventLoopLagMs = Math.max(
+    ...snapshots.map((s) => s.global.eventLoopLagMs),
+    0,
+  );
+  finalSummary.global.workerEventLoopLagMs = calculatePeakPerWorker(
+    snapshots.map((s) => s.global.workerEventLoopLagMs),
+  );
+  finalSummary.global.heapUsedMB = Math.max(...snapshots.map((s) => s.global.heapUsedMB), 0);
+  finalSummary.global.workerHeapUsedMB = calculatePeakPerWorker(
+    snapshots.map((s) => s.global.workerHeapUsedMB),
+  );
+  finalSummary.global.generatorSaturated = snapshots.some((s) => s.global.generatorSaturated);
 
   const { cpu, memory } = calculateGlobalAverages(steadyStateSnapshots, snapshots);
   finalSummary.global.avgSystemCpuUsagePercent = cpu;
   finalSummary.global.avgProcessMemoryUsageMB = memory;
 
-  if (finalSummary.configSnapshot?.requests) {
-    const totalTargetRps = finalSummary.configSnapshot.requests.reduce(
-      (sum, req) => sum + req.rps,
+  // Virtual users ignore the rps of requests, so there is no target to achieve
+  const hasRpsTarget = finalSummary.configSnapshot?.options?.executor?.type !== 'virtualUsers';
+
+  // Targets are averaged over the same steady state window the achieved RPS is measured over
+  if (hasRpsTarget && endpointConfigs.length > 0) {
+    const totalTargetRps = endpointStages.reduce(
+      (sum, stages) =>
+        sum + getAverageTargetRps(stages, globalSteadyStateStartSec, totalDurationSec),
       0,
     );
     if (totalTargetRps > 0) {
@@ -174,18 +220,16 @@ export function transformAggregatedMetricsToTestSummary(snapshots: TestSummary[]
   }
 
   finalSummary.endpoints.forEach((endpoint) => {
-    const requestConfig = finalSummary.configSnapshot?.requests?.find(
-      (req) => req.url === endpoint.url,
-    );
-    const endpointRampUp = requestConfig?.rampUpDurationSec;
-    const effectiveEndpointRampUp = getEffectiveRampUpSec(endpointRampUp, globalRampUpSec);
-    const endpointSteadyStateTime = testStartTime + effectiveEndpointRampUp * 1000;
+    const configIndex = endpointConfigs.findIndex((req) => getEndpointKey(req) === endpoint.key);
+    const stages = configIndex === -1 ? undefined : endpointStages[configIndex];
+    const steadyStateStartSec = stages ? getSteadyStateStartSec(stages) : globalRampUpSec;
+    const endpointSteadyStateTime = testStartTime + steadyStateStartSec * 1000;
 
     const endpointSnapshots: EndpointSummary[] = [];
     const endpointSteadyStateSnapshots: EndpointSummary[] = [];
 
     snapshots.forEach((s) => {
-      const ep = s.endpoints.find((e) => e.url === endpoint.url);
+      const ep = s.endpoints.find((e) => e.key === endpoint.key);
       if (ep) {
         endpointSnapshots.push(ep);
         if (s.global.epochEndedAt >= endpointSteadyStateTime) {
@@ -195,12 +239,12 @@ export function transformAggregatedMetricsToTestSummary(snapshots: TestSummary[]
     });
 
     const { avgRps, peakRps } = calculateEndpointAverages({
-      effectiveEndpointRampUp,
       endpoint,
       endpointSnapshots,
       endpointSteadyStateSnapshots,
       lastSnapshot,
       snapshots,
+      steadyStateStartSec,
       testStartTime,
       totalDurationSec,
     });
@@ -208,8 +252,11 @@ export function transformAggregatedMetricsToTestSummary(snapshots: TestSummary[]
     endpoint.averageRequestsPerSecond = avgRps;
     endpoint.peakRequestsPerSecond = peakRps;
 
-    if (requestConfig && requestConfig.rps > 0) {
-      endpoint.targetAchieved = endpoint.averageRequestsPerSecond / requestConfig.rps;
+    if (hasRpsTarget && stages) {
+      const targetRps = getAverageTargetRps(stages, steadyStateStartSec, totalDurationSec);
+      if (targetRps > 0) {
+        endpoint.targetAchieved = endpoint.averageRequestsPerSecond / targetRps;
+      }
     }
   });
 
@@ -1,5 +1,10 @@
 import type { ISSEClientManager } from '@tressi/shared/cli';
-import { ServerEvents, type TestEventData, type TestSummary } from '@tressi/shared/common';
+import {
+  type EndpointEventData,
+  ServerEvents,
+  type TestEventData,
+  type TestSummary,
+} from '@tressi/shared/common';
 import { Hono } from 'hono';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -48,6 +53,14 @@ describe('createApp', () => {
       ServerEvents.TEST.CANCELLED,
       expect.any(Function),
     );
+    expect(globalEventEmitter.on).toHaveBeenCalledWith(
+      ServerEvents.ENDPOINT.STOPPED,
+      expect.any(Function),
+    );
+    expect(globalEventEmitter.on).toHaveBeenCalledWith(
+      ServerEvents.ENDPOINT.STARTED,
+      expect.any(Function),
+    );
   });
 
   it('should broadcast metrics event', () => {
@@ -99,6 +112,32 @@ describe('createApp', () => {
     });
   });
 
+  it('should broadcast endpoint stopped event', () => {
+    const mockSseManager = {
+      broadcast: vi.fn(),
+    } as unknown as ISSEClientManager;
+    const port = 3000;
+
+    createApp(mockSseManager, port);
+
+    const calls = vi.mocked(globalEventEmitter.on).mock.calls;
+    const endpointStoppedCall = calls.find((call) => call[0] === ServerEvents.ENDPOINT.STOPPED);
+    const endpointStoppedHandler = endpointStoppedCall?.[1] as (data: EndpointEventData) => void;
+
+    const endpointData: EndpointEventData = {
+      endpointKey: 'GET https://api.example.com/users',
+      stopped: true,
+      testId: '1',
+      timestamp: Date.now(),
+    };
+    endpointStoppedHandler(endpointData);
+
+    expect(mockSseManager.broadcast).toHaveBeenCalledWith({
+      data: endpointData,
+      event: ServerEvents.ENDPOINT.STOPPED,
+    });
+  });
+
   it('should include /api/health endpoint', async () => {
     const mockSseManager = {
       broadcast: vi.fn(),
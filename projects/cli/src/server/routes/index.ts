@@ -25,7 +25,7 @@ export function createApp(sseManager: ISSEClientManager, port: number) {
     .use('*', async (c, next) => {
       const middleware = cors({
         allowHeaders: ['Content-Type', 'Authorization'],
-        allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         credentials: true,
         maxAge: 600,
         origin: [`http://localhost:${port}`, 'http://localhost:4200'],
@@ -85,6 +85,22 @@ export function createApp(sseManager: ISSEClientManager, port: number) {
     sseManager.broadcast(message);
   });
 
+  globalEventEmitter.on(ServerEvents.ENDPOINT.STOPPED, (data) => {
+    const message: ServerEventMessage = {
+      data,
+      event: ServerEvents.ENDPOINT.STOPPED,
+    };
+    sseManager.broadcast(message);
+  });
+
+  globalEventEmitter.on(ServerEvents.ENDPOINT.STARTED, (data) => {
+    const message: ServerEventMessage = {
+      data,
+      event: ServerEvents.ENDPOINT.STARTED,
+    };
+    sseManager.broadcast(message);
+  });
+
   return app;
 }
 
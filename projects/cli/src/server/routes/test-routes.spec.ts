@@ -4,7 +4,15 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { configStorage } from '../../collections/config-collection';
 import { metricStorage } from '../../collections/metrics-collection';
 import { testStorage } from '../../collections/test-collection';
-import { runLoadTestForServer, stopLoadTest } from '../../core/test-executor';
+import {
+  pauseLoadTest,
+  resumeLoadTest,
+  runLoadTestForServer,
+  setLoadTestRate,
+  startLoadTestEndpoint,
+  stopLoadTest,
+  stopLoadTestEndpoint,
+} from '../../core/test-executor';
 import { globalEventEmitter } from '../../events/global-event-emitter';
 import app from './test-routes';
 
@@ -31,8 +39,14 @@ vi.mock('../../collections/metrics-collection', () => ({
 }));
 
 vi.mock('../../core/test-executor', () => ({
+  getActiveTestId: vi.fn(() => 'test-1'),
+  pauseLoadTest: vi.fn(),
+  resumeLoadTest: vi.fn(),
   runLoadTestForServer: vi.fn(),
+  setLoadTestRate: vi.fn(),
+  startLoadTestEndpoint: vi.fn(),
   stopLoadTest: vi.fn(),
+  stopLoadTestEndpoint: vi.fn(),
 }));
 
 vi.mock('../../events/global-event-emitter', () => ({
@@ -163,6 +177,128 @@ describe('test-routes', () => {
     });
   });
 
+  describe('POST /pause and /resume', () => {
+    it('should pause and resume the load test', async () => {
+      vi.mocked(pauseLoadTest).mockReturnValue(true);
+      vi.mocked(resumeLoadTest).mockReturnValue(true);
+
+      expect((await app.request('/pause', { method: 'POST' })).status).toBe(200);
+      expect((await app.request('/resume', { method: 'POST' })).status).toBe(200);
+      expect(pauseLoadTest).toHaveBeenCalled();
+      expect(resumeLoadTest).toHaveBeenCalled();
+    });
+
+    it('should return 409 when no test is running', async () => {
+      vi.mocked(pauseLoadTest).mockReturnValue(false);
+      vi.mocked(resumeLoadTest).mockReturnValue(false);
+
+      expect((await app.request('/pause', { method: 'POST' })).status).toBe(409);
+      expect((await app.request('/resume', { method: 'POST' })).status).toBe(409);
+    });
+  });
+
+  describe('PATCH /rate', () => {
+    const patchRate = async (body: unknown): Promise<Response> =>
+      app.request('/rate', {
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'PATCH',
+      });
+
+    it('should change the rate of the load test', async () => {
+      vi.mocked(setLoadTestRate).mockReturnValue(true);
+
+      const res = await patchRate({ endpointRps: { checkout: 5, search: null }, multiplier: 1.5 });
+
+      expect(res.status).toBe(200);
+      expect(setLoadTestRate).toHaveBeenCalledWith({
+        endpointRps: { checkout: 5, search: null },
+        multiplier: 1.5,
+      });
+    });
+
+    it('should reject an empty or negative rate change', async () => {
+      expect((await patchRate({})).status).toBe(400);
+      expect((await patchRate({ multiplier: -1 })).status).toBe(400);
+      expect(setLoadTestRate).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the change does not apply to the running test', async () => {
+      vi.mocked(setLoadTestRate).mockImplementation(() => {
+        throw new Error('Unknown request or scenario: missing');
+      });
+
+      const res = await patchRate({ endpointRps: { missing: 5 } });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        code: 'INVALID_REQUEST',
+        message: 'Unknown request or scenario: missing',
+      });
+    });
+
+    it('should return 409 when no test is running', async () => {
+      vi.mocked(setLoadTestRate).mockReturnValue(false);
+
+      expect((await patchRate({ multiplier: 2 })).status).toBe(409);
+    });
+  });
+
+  describe('POST /endpoints/stop and /endpoints/start', () => {
+    const postEndpoint = async (action: 'stop' | 'start', body: unknown): Promise<Response> =>
+      app.request(`/endpoints/${action}`, {
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      });
+
+    it('should stop and start an endpoint and broadcast each change', async () => {
+      vi.mocked(stopLoadTestEndpoint).mockReturnValue(true);
+      vi.mocked(startLoadTestEndpoint).mockReturnValue(true);
+
+      expect((await postEndpoint('stop', { endpointKey: 'GET /users' })).status).toBe(200);
+      expect((await postEndpoint('start', { endpointKey: 'GET /users' })).status).toBe(200);
+
+      expect(stopLoadTestEndpoint).toHaveBeenCalledWith('GET /users');
+      expect(startLoadTestEndpoint).toHaveBeenCalledWith('GET /users');
+      expect(globalEventEmitter.emit).toHaveBeenCalledWith(ServerEvents.ENDPOINT.STOPPED, {
+        endpointKey: 'GET /users',
+        stopped: true,
+        testId: 'test-1',
+        timestamp: expect.any(Number),
+      });
+      expect(globalEventEmitter.emit).toHaveBeenCalledWith(ServerEvents.ENDPOINT.STARTED, {
+        endpointKey: 'GET /users',
+        stopped: false,
+        testId: 'test-1',
+        timestamp: expect.any(Number),
+      });
+    });
+
+    it('should return 400 for unknown endpoints or a missing key', async () => {
+      vi.mocked(startLoadTestEndpoint).mockImplementation(() => {
+        throw new Error('Unknown endpoint: missing');
+      });
+
+      const res = await postEndpoint('start', { endpointKey: 'missing' });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        code: 'INVALID_REQUEST',
+        message: 'Unknown endpoint: missing',
+      });
+      expect((await postEndpoint('stop', {})).status).toBe(400);
+      expect(globalEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when no test is running', async () => {
+      vi.mocked(stopLoadTestEndpoint).mockReturnValue(false);
+
+      expect((await postEndpoint('stop', { endpointKey: 'GET /users' })).status).toBe(409);
+      expect(globalEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /:id/export', () => {
     it('should export test as JSON', async () => {
       const mockTest = {
@@ -3,6 +3,7 @@
 import { sValidator } from '@hono/standard-validator';
 import {
   type DeleteTestResponse,
+  type EndpointEventData,
   ServerEvents,
   type TestEventData,
   type TestStatus,
@@ -13,7 +14,16 @@ import z from 'zod';
 import { configStorage } from '../../collections/config-collection';
 import { metricStorage } from '../../collections/metrics-collection';
 import { testStorage } from '../../collections/test-collection';
-import { runLoadTestForServer, stopLoadTest } from '../../core/test-executor';
+import {
+  getActiveTestId,
+  pauseLoadTest,
+  resumeLoadTest,
+  runLoadTestForServer,
+  setLoadTestRate,
+  startLoadTestEndpoint,
+  stopLoadTest,
+  stopLoadTestEndpoint,
+} from '../../core/test-executor';
 import { globalEventEmitter } from '../../events/global-event-emitter';
 import { JsonExporter } from '../../reporting/exporters/json-exporter';
 import { MarkdownExporter } from '../../reporting/exporters/markdown-exporter';
@@ -192,6 +202,148 @@ const app = new Hono()
     }
   })
 
+  /**
+   * POST /pause - Pauses the currently running load test
+   * @returns {Response} Pause confirmation response, 409 when no test is running
+   */
+  .post('/pause', (c) => {
+    if (!pauseLoadTest()) {
+      return c.json(createApiErrorResponse('No load test is running', 'NOT_RUNNING'), 409);
+    }
+    return c.json({
+      message: 'Load test paused',
+      status: 'success' as const,
+    });
+  })
+
+  /**
+   * POST /resume - Resumes the currently paused load test
+   * @returns {Response} Resume confirmation response, 409 when no test is running
+   */
+  .post('/resume', (c) => {
+    if (!resumeLoadTest()) {
+      return c.json(createApiErrorResponse('No load test is running', 'NOT_RUNNING'), 409);
+    }
+    return c.json({
+      message: 'Load test resumed',
+      status: 'success' as const,
+    });
+  })
+
+  /**
+   * PATCH /rate - Changes the rate of the currently running load test
+   * @param {TestRateChange} body - Multiplier of every load profile and/or fixed RPS by request key
+   * or scenario name
+   * @returns {Response} Rate change confirmation response, 409 when no test is running
+   */
+  .patch(
+    '/rate',
+    sValidator(
+      'json',
+      z
+        .object({
+          endpointRps: z.record(z.string(), z.number().min(0).nullable()).optional(),
+          multiplier: z.number().min(0).optional(),
+        })
+        .refine((change) => change.multiplier !== undefined || change.endpointRps, {
+          message: 'Either multiplier or endpointRps is required',
+        }),
+    ),
+    (c) => {
+      try {
+        if (!setLoadTestRate(c.req.valid('json'))) {
+          return c.json(createApiErrorResponse('No load test is running', 'NOT_RUNNING'), 409);
+        }
+        return c.json({
+          message: 'Load test rate changed',
+          status: 'success' as const,
+        });
+      } catch (error) {
+        return c.json(
+          createApiErrorResponse(
+            error instanceof Error ? error.message : 'Invalid rate change',
+            'INVALID_REQUEST',
+          ),
+          400,
+        );
+      }
+    },
+  )
+
+  /**
+   * POST /endpoints/stop - Stops a single endpoint of the running load test until started again
+   * @param {string} endpointKey - Key of the request or scenario step from request body
+   * @returns {Response} Stop confirmation response, 409 when no test is running
+   */
+  .post(
+    '/endpoints/stop',
+    sValidator('json', z.object({ endpointKey: z.string().min(1) })),
+    (c) => {
+      const { endpointKey } = c.req.valid('json');
+      try {
+        if (!stopLoadTestEndpoint(endpointKey)) {
+          return c.json(createApiErrorResponse('No load test is running', 'NOT_RUNNING'), 409);
+        }
+        const stoppedEvent: EndpointEventData = {
+          endpointKey,
+          stopped: true,
+          testId: getActiveTestId(),
+          timestamp: Date.now(),
+        };
+        globalEventEmitter.emit(ServerEvents.ENDPOINT.STOPPED, stoppedEvent);
+        return c.json({
+          message: 'Endpoint stopped',
+          status: 'success' as const,
+        });
+      } catch (error) {
+        return c.json(
+          createApiErrorResponse(
+            error instanceof Error ? error.message : 'Failed to stop endpoint',
+            'INVALID_REQUEST',
+          ),
+          400,
+        );
+      }
+    },
+  )
+
+  /**
+   * POST /endpoints/start - Starts an endpoint of the running load test that was stopped by hand
+   * @param {string} endpointKey - Key of the request or scenario step from request body
+   * @returns {Response} Start confirmation response, 409 when no test is running
+   */
+  .post(
+    '/endpoints/start',
+    sValidator('json', z.object({ endpointKey: z.string().min(1) })),
+    (c) => {
+      const { endpointKey } = c.req.valid('json');
+      try {
+        if (!startLoadTestEndpoint(endpointKey)) {
+          return c.json(createApiErrorResponse('No load test is running', 'NOT_RUNNING'), 409);
+        }
+        const startedEvent: EndpointEventData = {
+          endpointKey,
+          stopped: false,
+          testId: getActiveTestId(),
+          timestamp: Date.now(),
+        };
+        globalEventEmitter.emit(ServerEvents.ENDPOINT.STARTED, startedEvent);
+        return c.json({
+          message: 'Endpoint started',
+          status: 'success' as const,
+        });
+      } catch (error) {
+        return c.json(
+          createApiErrorResponse(
+            error instanceof Error ? error.message : 'Failed to start endpoint',
+            'INVALID_REQUEST',
+          ),
+          400,
+        );
+      }
+    },
+  )
+
   /**
    * GET /status - Retrieves the current load test job status
    * @returns {Promise<Response>} Current job status including running state, job ID, and any errors
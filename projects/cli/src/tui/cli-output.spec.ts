@@ -31,12 +31,15 @@ describe('cli-output', () => {
     const summary = {
       endpoints: [
         {
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failedRequests: 0,
+          key: 'GET /test',
           maxLatencyMs: 10,
           minLatencyMs: 1,
           p50LatencyMs: 5,
           p95LatencyMs: 8,
           p99LatencyMs: 9,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           successfulRequests: 50,
           url: '/test',
         },
@@ -59,5 +62,83 @@ describe('cli-output', () => {
 
     printSummary(summary, options, config, false);
     expect(terminal.print).toHaveBeenCalled();
+
+    const output = vi.mocked(terminal.print).mock.calls.map(([text]) => String(text));
+    expect(output.some((text) => text.includes('Network Errors'))).toBe(false);
+    expect(output.some((text) => text.includes('Generator saturated'))).toBe(false);
+  });
+
+  it('should print network errors for endpoints that had any', () => {
+    const summary = {
+      endpoints: [
+        {
+          errorCounts: { connectionRefused: 1, dns: 0, timeout: 6, tls: 0 },
+          failedRequests: 7,
+          key: 'GET /slow',
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          successfulRequests: 3,
+        },
+      ],
+      global: { failedRequests: 7, successfulRequests: 3, totalRequests: 10 },
+      tressiVersion: '1.0.0',
+    } as unknown as TestSummary;
+    const options = { durationSec: 10 } as unknown as TressiOptionsConfig;
+    const config = { requests: [] } as unknown as TressiConfig;
+
+    printSummary(summary, options, config, false);
+
+    const output = vi.mocked(terminal.print).mock.calls.map(([text]) => String(text));
+    expect(output.some((text) => text.includes('Network Errors'))).toBe(true);
+    expect(output.some((text) => text.includes('GET /slow') && text.includes('Timeout'))).toBe(
+      true,
+    );
+  });
+  it('should warn when the load generator was saturated', () => {
+    const summary = {
+      endpoints: [],
+      global: {
+        eventLoopLagMs: 120,
+        failedRequests: 0,
+        generatorSaturated: true,
+        successfulRequests: 10,
+        totalRequests: 10,
+      },
+      tressiVersion: '1.0.0',
+    } as unknown as TestSummary;
+    const options = { durationSec: 10 } as unknown as TressiOptionsConfig;
+    const config = { requests: [] } as unknown as TressiConfig;
+
+    printSummary(summary, options, config, false);
+
+    const output = vi.mocked(terminal.print).mock.calls.map(([text]) => String(text));
+    expect(output.some((text) => text.includes('Generator saturated'))).toBe(true);
+  });
+
+  it('should print threshold verdicts when present', () => {
+    const summary = {
+      endpoints: [],
+      global: { failedRequests: 0, successfulRequests: 10, totalRequests: 10 },
+      thresholds: [
+        { actual: 250, metric: 'p95LatencyMs', operator: '<', passed: true, threshold: 300 },
+        {
+          actual: 0.02,
+          endpoint: 'GET http://test.com',
+          metric: 'errorRate',
+          operator: '<',
+          passed: false,
+          threshold: 0.01,
+        },
+      ],
+      tressiVersion: '1.0.0',
+    } as unknown as TestSummary;
+    const options = { durationSec: 10 } as unknown as TressiOptionsConfig;
+    const config = { requests: [] } as unknown as TressiConfig;
+
+    printSummary(summary, options, config, false);
+
+    const output = vi.mocked(terminal.print).mock.calls.map(([text]) => String(text));
+    expect(output.some((text) => text.includes('Threshold Verdicts'))).toBe(true);
+    expect(output.some((text) => text.includes('errorRate < 0.01'))).toBe(true);
+    expect(output.some((text) => text.includes('1 of 2 thresholds breached'))).toBe(true);
   });
 });
@@ -1,7 +1,13 @@
-import type { TestSummary, TressiConfig, TressiOptionsConfig } from '@tressi/shared/common';
+import {
+  getConfigEndpoints,
+  type TestSummary,
+  type TressiConfig,
+  type TressiOptionsConfig,
+} from '@tressi/shared/common';
 import chalk from 'chalk';
 import Table from 'cli-table3';
 
+import { getThresholdLabel } from '../reporting/utils/thresholds';
 import { terminal } from './terminal';
 
 /**
@@ -23,6 +29,7 @@ export function printSummary(
   printRunConfiguration(options, config);
   printGlobalSummary(summary);
   printEndpointSummary(summary);
+  printThresholdVerdicts(summary);
 }
 
 /**
@@ -42,13 +49,13 @@ function printReportInfo(summary: TestSummary, _options: TressiOptionsConfig): v
  * Prints the run configuration including workers, duration, and RPS settings.
  */
 function printRunConfiguration(options: TressiOptionsConfig, config: TressiConfig): void {
-  const { durationSec = 10, rampUpDurationSec, threads } = options;
+  const { durationSec = 10, rampUpDurationSec, stages, threads } = options;
 
   const configTable = new Table({
     colWidths: [20, 20],
     head: ['Option', 'Setting'],
   });
-  const totalRps = config.requests.reduce(
+  const totalRps = getConfigEndpoints(config).reduce(
     (sum: number, req: { rps?: number }) => sum + (req.rps || 0),
     0,
   );
@@ -62,6 +69,10 @@ function printRunConfiguration(options: TressiOptionsConfig, config: TressiConfi
     configTable.push(['ramp up Time', `${rampUpDurationSec}s`]);
   }
 
+  if (stages?.length) {
+    configTable.push(['Stages', `${stages.length}`]);
+  }
+
   terminal.print(`\n${chalk.bold('Run Configuration')}`);
   terminal.print(configTable.toString());
 }
@@ -82,15 +93,27 @@ function printGlobalSummary(summary: TestSummary): void {
     ['Total Requests', globalSummary.totalRequests],
     [chalk.green('Successful'), globalSummary.successfulRequests],
     [chalk.red('Failed'), globalSummary.failedRequests],
+    ['Dropped', globalSummary.droppedRequests],
+    ['Late', globalSummary.lateRequests],
     ['Min Latency', `${globalSummary.minLatencyMs}ms`],
     ['p50 Latency', `${globalSummary.p50LatencyMs}ms`],
     ['p95 Latency', `${globalSummary.p95LatencyMs}ms`],
     ['p99 Latency', `${globalSummary.p99LatencyMs}ms`],
     ['Max Latency', `${globalSummary.maxLatencyMs}ms`],
+    ['p99 Latency (Corrected)', `${globalSummary.correctedP99LatencyMs}ms`],
+    ['Peak Event Loop Lag', `${globalSummary.eventLoopLagMs}ms`],
   );
 
   terminal.print(`\n${chalk.bold('Global Test Summary')}`);
   terminal.print(summaryTable.toString());
+
+  if (globalSummary.generatorSaturated) {
+    terminal.print(
+      chalk.yellow(
+        'Generator saturated: requests missed their schedule while workers were too busy to send them. Add threads or lower the load before blaming the target.',
+      ),
+    );
+  }
 }
 
 /**
@@ -110,26 +133,36 @@ function printEndpointSummary(summary: TestSummary): void {
     head: ['Endpoint', 'Avg', 'Min', 'Max', 'P95', 'P99'],
   });
 
+  const endpointErrorTable = new Table({
+    colWidths: [50, 10, 10, 10, 10],
+    head: ['Endpoint', 'Timeout', 'Refused', 'DNS', 'TLS'],
+  });
+
   for (const endpoint of endpoints) {
-    const url = endpoint.url;
-    const maxUrlLength = 48; // Account for table padding
-    const displayUrl =
-      url.length > maxUrlLength ? `...${url.slice(url.length - (maxUrlLength - 3))}` : url;
+    const key = endpoint.key;
+    const maxKeyLength = 48; // Account for table padding
+    const displayKey =
+      key.length > maxKeyLength ? `...${key.slice(key.length - (maxKeyLength - 3))}` : key;
 
     endpointSummaryTable.push([
-      displayUrl,
+      displayKey,
       chalk.green(endpoint.successfulRequests),
       chalk.red(endpoint.failedRequests),
     ]);
 
     endpointLatencyTable.push([
-      displayUrl,
+      displayKey,
       `${endpoint.p50LatencyMs}ms`,
       `${endpoint.minLatencyMs}ms`,
       `${endpoint.maxLatencyMs}ms`,
       `${endpoint.p95LatencyMs}ms`,
       `${endpoint.p99LatencyMs}ms`,
     ]);
+
+    const { connectionRefused, dns, timeout, tls } = endpoint.errorCounts;
+    if (connectionRefused + dns + timeout + tls > 0) {
+      endpointErrorTable.push([displayKey, timeout, connectionRefused, dns, tls]);
+    }
   }
 
   terminal.print(`\n${chalk.bold('Endpoint Summary')}`);
@@ -137,4 +170,41 @@ function printEndpointSummary(summary: TestSummary): void {
 
   terminal.print(`\n${chalk.bold('Endpoint Latency')}`);
   terminal.print(endpointLatencyTable.toString());
+
+  if (endpointErrorTable.length > 0) {
+    terminal.print(`\n${chalk.bold('Network Errors')}`);
+    terminal.print(endpointErrorTable.toString());
+  }
+}
+
+/**
+ * Prints the pass/fail verdict of every configured SLO threshold.
+ */
+function printThresholdVerdicts(summary: TestSummary): void {
+  const verdicts = summary.thresholds ?? [];
+  if (verdicts.length === 0) return;
+
+  const thresholdTable = new Table({
+    colWidths: [50, 30, 12, 8],
+    head: ['Scope', 'Threshold', 'Actual', 'Result'],
+  });
+
+  for (const verdict of verdicts) {
+    thresholdTable.push([
+      verdict.endpoint ?? 'Global',
+      getThresholdLabel(verdict),
+      Number(verdict.actual.toFixed(4)),
+      verdict.passed ? chalk.green('PASS') : chalk.red('FAIL'),
+    ]);
+  }
+
+  const failed = verdicts.filter((verdict) => !verdict.passed).length;
+
+  terminal.print(`\n${chalk.bold('Threshold Verdicts')}`);
+  terminal.print(thresholdTable.toString());
+  terminal.print(
+    failed > 0
+      ? chalk.red(`${failed} of ${verdicts.length} thresholds breached`)
+      : chalk.green(`All ${verdicts.length} thresholds passed`),
+  );
 }
@@ -71,6 +71,51 @@ describe('MinimalTUI', () => {
     expect(spinnerInstance.text).toContain('50 rps');
   });
 
+  it('should show active virtual users when the test runs virtual users', () => {
+    config = {
+      options: { durationSec: 10, executor: { type: 'virtualUsers' } },
+    } as unknown as TressiConfig;
+    vi.mocked(runner.getAggregatedMetrics).mockReturnValue({
+      global: { activeVus: 25, averageRequestsPerSecond: 50, p50LatencyMs: 10 },
+    } as unknown as ReturnType<Runner['getAggregatedMetrics']>);
+
+    const tui = new MinimalTUI(config, false);
+    tui.start(runner);
+    (tui as unknown as { _updateDisplay: (runner: Runner) => void })._updateDisplay(runner);
+    const spinnerInstance = vi.mocked(ora).mock.results[0].value;
+    expect(spinnerInstance.text).toContain('25 VUs | 50 rps');
+  });
+
+  it('should show the requests in flight when the test runs at a fixed RPS', () => {
+    vi.mocked(runner.getAggregatedMetrics).mockReturnValue({
+      global: { averageRequestsPerSecond: 50, inFlightRequests: 12, p50LatencyMs: 10 },
+    } as unknown as ReturnType<Runner['getAggregatedMetrics']>);
+
+    const tui = new MinimalTUI(config, false);
+    tui.start(runner);
+    (tui as unknown as { _updateDisplay: (runner: Runner) => void })._updateDisplay(runner);
+    const spinnerInstance = vi.mocked(ora).mock.results[0].value;
+    expect(spinnerInstance.text).toContain('| 12 in flight');
+  });
+
+  it('should warn while the load generator is saturated', () => {
+    vi.mocked(runner.getAggregatedMetrics).mockReturnValue({
+      global: {
+        averageRequestsPerSecond: 50,
+        eventLoopLagMs: 140,
+        generatorSaturated: true,
+        inFlightRequests: 12,
+        p50LatencyMs: 10,
+      },
+    } as unknown as ReturnType<Runner['getAggregatedMetrics']>);
+
+    const tui = new MinimalTUI(config, false);
+    tui.start(runner);
+    (tui as unknown as { _updateDisplay: (runner: Runner) => void })._updateDisplay(runner);
+    const spinnerInstance = vi.mocked(ora).mock.results[0].value;
+    expect(spinnerInstance.text).toContain('| 140ms lag | generator saturated');
+  });
+
   it('should not start spinner when silent is true', () => {
     const tui = new MinimalTUI(config, true);
     tui.start(runner);
@@ -30,10 +30,13 @@ export class MinimalTUI {
    *
    * The UI displays:
    * - Elapsed time and total duration
+   * - Active virtual users (virtualUsers executor only)
    * - Requests per second (RPS)
    * - Average latency
    * - Memory usage
    * - CPU usage percentage
+   * - Requests in flight and the worst worker event loop lag (fixed RPS only)
+   * - A warning while the load generator is saturated
    *
    * Uses a non-blocking approach with setInterval to avoid impacting test performance.
    */
@@ -78,7 +81,8 @@ export class MinimalTUI {
    * Calculates elapsed time and clamps it to the configured duration to prevent
    * display of times beyond the test completion point.
    *
-   * The display format is optimized for readability: "rps | avg_latency | memory | cpu%".
+   * The display format is optimized for readability: "rps | avg_latency | memory | cpu%",
+   * prefixed with the active virtual users when the test runs virtual users.
    */
   private _updateDisplay(runner: Runner): void {
     if (this._silent) return;
@@ -95,13 +99,25 @@ export class MinimalTUI {
       // Use aggregated metrics directly as requested in comments
       const aggregatedMetrics = runner.getAggregatedMetrics();
       const {
+        activeVus,
         averageRequestsPerSecond,
+        eventLoopLagMs,
+        generatorSaturated,
+        inFlightRequests,
         p50LatencyMs,
         avgProcessMemoryUsageMB: memoryUsageMB,
         avgSystemCpuUsagePercent: cpuUsagePercent,
       } = aggregatedMetrics.global;
 
       metricsText = `${averageRequestsPerSecond} rps | ${p50LatencyMs}ms p50 | ${memoryUsageMB}MB | ${cpuUsagePercent}% CPU`;
+      if (this._config.options.executor?.type === 'virtualUsers') {
+        metricsText = `${activeVus} VUs | ${metricsText}`;
+      } else {
+        metricsText = `${metricsText} | ${inFlightRequests} in flight | ${eventLoopLagMs}ms lag`;
+      }
+      if (generatorSaturated) {
+        metricsText = `${metricsText} | generator saturated`;
+      }
     } catch {
       // Fallback to basic display if metrics unavailable
     }
@@ -0,0 +1,73 @@
+import { promises as fsPromises } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DataFileUtils } from './data-file-utils';
+
+vi.mock('node:fs', () => ({
+  promises: {
+    readFile: vi.fn(),
+  },
+}));
+
+describe('DataFileUtils', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseCsv', () => {
+    it('should map rows to the header columns', () => {
+      expect(DataFileUtils.parseCsv('user,email\nada,ada@example.com\r\ngrace,\n')).toEqual([
+        { email: 'ada@example.com', user: 'ada' },
+        { email: '', user: 'grace' },
+      ]);
+    });
+
+    it('should handle quoted fields with separators, quotes and line breaks', () => {
+      const content = 'name,note\n"Hopper, Grace","said ""hi""\nthen left"\n';
+
+      expect(DataFileUtils.parseCsv(content)).toEqual([
+        { name: 'Hopper, Grace', note: 'said "hi"\nthen left' },
+      ]);
+    });
+
+    it('should skip blank lines and fill missing fields', () => {
+      expect(DataFileUtils.parseCsv('a,b\n\n1\n')).toEqual([{ a: '1', b: '' }]);
+    });
+  });
+
+  describe('parseJsonl', () => {
+    it('should parse one object per line and stringify non-string values', () => {
+      expect(DataFileUtils.parseJsonl('{"id":1,"name":"ada"}\n\n{"id":2,"tags":["x"]}\n')).toEqual([
+        { id: '1', name: 'ada' },
+        { id: '2', tags: '["x"]' },
+      ]);
+    });
+
+    it('should reject invalid lines', () => {
+      expect(() => DataFileUtils.parseJsonl('{"id":1}\nnope')).toThrow('Invalid JSON on line 2');
+      expect(() => DataFileUtils.parseJsonl('[1,2]')).toThrow('Line 1 must be a JSON object');
+    });
+  });
+
+  describe('loadRows', () => {
+    it('should pick the parser from the file extension', async () => {
+      vi.mocked(fsPromises.readFile).mockResolvedValueOnce('id\n1\n');
+      await expect(DataFileUtils.loadRows('users.csv')).resolves.toEqual([{ id: '1' }]);
+
+      vi.mocked(fsPromises.readFile).mockResolvedValueOnce('{"id":"1"}\n');
+      await expect(DataFileUtils.loadRows('users.jsonl')).resolves.toEqual([{ id: '1' }]);
+    });
+
+    it('should throw when the file cannot be read or is empty', async () => {
+      vi.mocked(fsPromises.readFile).mockRejectedValueOnce(new Error('ENOENT'));
+      await expect(DataFileUtils.loadRows('missing.csv')).rejects.toThrow(
+        'Failed to read data file missing.csv: ENOENT',
+      );
+
+      vi.mocked(fsPromises.readFile).mockResolvedValueOnce('id\n');
+      await expect(DataFileUtils.loadRows('empty.csv')).rejects.toThrow(
+        'Data file empty.csv does not contain any rows',
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { DataRow } from '@tressi/shared/cli';
+
+/**
+ * Loading and parsing of the data files that feed request templates.
+ */
+export class DataFileUtils {
+  /**
+   * Reads a CSV or JSONL data file into rows.
+   * @param filePath Path to the file, relative paths resolve against the working directory
+   * @returns The rows of the file, keyed by column name
+   */
+  static async loadRows(filePath: string): Promise<DataRow[]> {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    let content: string;
+    try {
+      content = await fs.readFile(resolvedPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read data file ${filePath}: ${(error as Error).message}`);
+    }
+
+    const rows = /\.csv$/i.test(filePath)
+      ? DataFileUtils.parseCsv(content)
+      : DataFileUtils.parseJsonl(content);
+
+    if (rows.length === 0) {
+      throw new Error(`Data file ${filePath} does not contain any rows`);
+    }
+    return rows;
+  }
+
+  /**
+   * Parses CSV content whose first line holds the column names.
+   *
+   * @remarks
+   * Follows RFC 4180: fields may be quoted, quoted fields may contain separators and line breaks,
+   * and `""` escapes a quote. Blank lines are skipped and missing trailing fields become empty
+   * strings.
+   */
+  static parseCsv(content: string): DataRow[] {
+    const records = DataFileUtils._parseCsvRecords(content.replace(/^\uFEFF/, ''));
+    if (records.length === 0) return [];
+
+    const [header, ...lines] = records;
+    const columns = header.map((column) => column.trim());
+
+    return lines.map((fields) => {
+      const row: DataRow = {};
+      columns.forEach((column, index) => {
+        row[column] = fields[index] ?? '';
+      });
+      return row;
+    });
+  }
+
+  /**
+   * Parses JSON Lines content where every non-empty line is a JSON object.
+   * Non-string values are stored as their JSON representation.
+   */
+  static parseJsonl(content: string): DataRow[] {
+    const rows: DataRow[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1}: ${(error as Error).message}`);
+      }
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Line ${index + 1} must be a JSON object`);
+      }
+
+      const row: DataRow = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        row[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+      rows.push(row);
+    });
+
+    return rows;
+  }
+
+  private static _parseCsvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRecord = (): void => {
+      fields.push(field);
+      if (fields.length > 1 || fields[0] !== '') records.push(fields);
+      fields = [];
+      field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char !== '"') {
+          field += char;
+        } else if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        endRecord();
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || fields.length > 0) endRecord();
+    return records;
+  }
+}
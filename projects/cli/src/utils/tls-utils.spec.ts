@@ -0,0 +1,102 @@
+import { promises as fsPromises } from 'node:fs';
+import path from 'node:path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TlsUtils } from './tls-utils';
+
+vi.mock('node:fs', () => ({
+  promises: {
+    readFile: vi.fn(),
+  },
+}));
+
+const pem = (name: string): string => `-----BEGIN ${name}-----\nabc\n-----END ${name}-----\n`;
+
+describe('TlsUtils', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fsPromises.readFile).mockImplementation(async (file) =>
+      pem(path.basename(String(file))),
+    );
+  });
+
+  describe('loadOptions', () => {
+    it('should return undefined without TLS settings', async () => {
+      await expect(TlsUtils.loadOptions(undefined)).resolves.toBeUndefined();
+    });
+
+    it('should replace file paths with their contents', async () => {
+      const options = await TlsUtils.loadOptions({
+        ca: 'ca.pem',
+        cert: 'client.pem',
+        key: 'client.key',
+        origins: {},
+        passphrase: 'secret',
+        rejectUnauthorized: false,
+      });
+
+      expect(options).toEqual({
+        global: {
+          ca: pem('ca.pem'),
+          cert: pem('client.pem'),
+          key: pem('client.key'),
+          passphrase: 'secret',
+          rejectUnauthorized: false,
+        },
+        origins: {},
+      });
+      expect(fsPromises.readFile).toHaveBeenCalledWith(
+        path.resolve(process.cwd(), 'ca.pem'),
+        'utf-8',
+      );
+    });
+
+    it('should merge the settings of each origin over the global ones', async () => {
+      const options = await TlsUtils.loadOptions({
+        ca: 'ca.pem',
+        minVersion: 'TLSv1.2',
+        origins: {
+          'https://internal.example.com:8443': { minVersion: 'TLSv1.3', servername: 'internal' },
+          'https://staging.example.com': { rejectUnauthorized: false },
+        },
+      });
+
+      expect(options?.origins).toEqual({
+        'https://internal.example.com:8443': {
+          ca: pem('ca.pem'),
+          minVersion: 'TLSv1.3',
+          servername: 'internal',
+        },
+        'https://staging.example.com': {
+          ca: pem('ca.pem'),
+          minVersion: 'TLSv1.2',
+          rejectUnauthorized: false,
+        },
+      });
+      // Files shared by several origins are read once
+      expect(fsPromises.readFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave global options unset when only origins are configured', async () => {
+      const options = await TlsUtils.loadOptions({
+        origins: { 'https://staging.example.com': { rejectUnauthorized: false } },
+      });
+
+      expect(options).toEqual({
+        origins: { 'https://staging.example.com': { rejectUnauthorized: false } },
+      });
+    });
+
+    it('should reject files that cannot be read or are not PEM encoded', async () => {
+      vi.mocked(fsPromises.readFile).mockRejectedValueOnce(new Error('ENOENT'));
+      await expect(TlsUtils.loadOptions({ ca: 'missing.pem', origins: {} })).rejects.toThrow(
+        'Failed to read TLS file missing.pem: ENOENT',
+      );
+
+      vi.mocked(fsPromises.readFile).mockResolvedValueOnce('not a certificate');
+      await expect(TlsUtils.loadOptions({ ca: 'ca.der', origins: {} })).rejects.toThrow(
+        'TLS file ca.der is not PEM encoded',
+      );
+    });
+  });
+});
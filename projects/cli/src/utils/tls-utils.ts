@@ -0,0 +1,73 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ConnectionTlsOptions, WorkerTlsOptions } from '@tressi/shared/cli';
+import type { TressiTlsConfig, TressiTlsSettings } from '@tressi/shared/common';
+
+/**
+ * Resolution of the TLS settings of a test into the options its workers connect with.
+ */
+export class TlsUtils {
+  /**
+   * Reads the CA, certificate and key files of the TLS settings and merges the settings of
+   * each origin over the global ones.
+   * @param config TLS settings of the test
+   * @returns Options for the worker threads, or undefined when no TLS settings are configured
+   */
+  static async loadOptions(config?: TressiTlsConfig): Promise<WorkerTlsOptions | undefined> {
+    if (!config) return undefined;
+
+    const files = new Map<string, Promise<string>>();
+    const readFile = (filePath: string): Promise<string> => {
+      let content = files.get(filePath);
+      if (!content) {
+        content = TlsUtils._readPem(filePath);
+        files.set(filePath, content);
+      }
+      return content;
+    };
+
+    const { origins, ...global } = config;
+    const options: WorkerTlsOptions = { origins: {} };
+
+    if (TlsUtils._hasSettings(global)) {
+      options.global = await TlsUtils._resolve(global, readFile);
+    }
+    for (const [origin, settings] of Object.entries(origins)) {
+      options.origins[origin] = await TlsUtils._resolve({ ...global, ...settings }, readFile);
+    }
+    return options;
+  }
+
+  private static _hasSettings(settings: TressiTlsSettings): boolean {
+    return Object.values(settings).some((value) => value !== undefined);
+  }
+
+  private static async _resolve(
+    settings: TressiTlsSettings,
+    readFile: (filePath: string) => Promise<string>,
+  ): Promise<ConnectionTlsOptions> {
+    const { ca, cert, key, ...rest } = settings;
+    const options: ConnectionTlsOptions = { ...rest };
+
+    if (ca !== undefined) options.ca = await readFile(ca);
+    if (cert !== undefined) options.cert = await readFile(cert);
+    if (key !== undefined) options.key = await readFile(key);
+    return options;
+  }
+
+  private static async _readPem(filePath: string): Promise<string> {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    let content: string;
+    try {
+      content = await fs.readFile(resolvedPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read TLS file ${filePath}: ${(error as Error).message}`);
+    }
+
+    if (!content.includes('-----BEGIN ')) {
+      throw new Error(`TLS file ${filePath} is not PEM encoded`);
+    }
+    return content;
+  }
+}
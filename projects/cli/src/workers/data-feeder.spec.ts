@@ -0,0 +1,62 @@
+import type { DataRow } from '@tressi/shared/cli';
+import { describe, expect, it } from 'vitest';
+
+import { DataFeeder, distributeRows } from './data-feeder';
+
+const rows: DataRow[] = [{ id: '1' }, { id: '2' }, { id: '3' }];
+
+describe('distributeRows', () => {
+  it('should deal rows across workers for roundRobin and unique', () => {
+    expect(distributeRows(rows, 'roundRobin', 2)).toEqual([
+      [{ id: '1' }, { id: '3' }],
+      [{ id: '2' }],
+    ]);
+    expect(distributeRows(rows, 'unique', 2)).toEqual([[{ id: '1' }, { id: '3' }], [{ id: '2' }]]);
+  });
+
+  it('should give every worker all rows for random', () => {
+    expect(distributeRows(rows, 'random', 2)).toEqual([rows, rows]);
+  });
+
+  it('should reuse all rows for roundRobin workers without a row of their own', () => {
+    expect(distributeRows([{ id: '1' }], 'roundRobin', 2)).toEqual([[{ id: '1' }], [{ id: '1' }]]);
+    expect(distributeRows([{ id: '1' }], 'unique', 2)).toEqual([[{ id: '1' }], []]);
+  });
+});
+
+describe('DataFeeder', () => {
+  it('should cycle through rows for roundRobin', () => {
+    const feeder = new DataFeeder(rows, 'roundRobin');
+
+    const ids = Array.from({ length: 4 }, () => feeder.next()?.id);
+
+    expect(ids).toEqual(['1', '2', '3', '1']);
+    expect(feeder.isExhausted()).toBe(false);
+  });
+
+  it('should hand out each row once for unique', () => {
+    const feeder = new DataFeeder(rows, 'unique');
+
+    const ids = Array.from({ length: 3 }, () => feeder.next()?.id);
+
+    expect(ids).toEqual(['1', '2', '3']);
+    expect(feeder.isExhausted()).toBe(true);
+    expect(feeder.next()).toBeUndefined();
+  });
+
+  it('should pick assigned rows for random', () => {
+    const feeder = new DataFeeder(rows, 'random');
+
+    for (let i = 0; i < 10; i++) {
+      expect(rows).toContain(feeder.next());
+    }
+  });
+
+  it('should return undefined without rows', () => {
+    const feeder = new DataFeeder();
+
+    expect(feeder.hasRows()).toBe(false);
+    expect(feeder.next()).toBeUndefined();
+    expect(feeder.isExhausted()).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { randomInt } from 'node:crypto';
+import type { DataRow } from '@tressi/shared/cli';
+import type { TressiDataFileConfig } from '@tressi/shared/common';
+
+type DataDistribution = TressiDataFileConfig['distribution'];
+
+/**
+ * Splits data file rows across workers.
+ *
+ * @param rows - All rows of the data file
+ * @param distribution - How rows are shared between workers
+ * @param workers - Number of workers
+ * @returns The rows assigned to each worker
+ *
+ * @remarks
+ * For `roundRobin` and `unique` the rows are dealt like cards (row `i` goes to worker
+ * `i % workers`), so no two workers share a row. With `random` every worker receives all rows.
+ * When there are fewer rows than workers, `roundRobin` workers without a row of their own
+ * reuse the full set instead of running without data.
+ *
+ * @example
+ * ```typescript
+ * distributeRows([a, b, c], 'roundRobin', 2); // [[a, c], [b]]
+ * ```
+ */
+export function distributeRows(
+  rows: DataRow[],
+  distribution: DataDistribution,
+  workers: number,
+): DataRow[][] {
+  if (distribution === 'random') {
+    return Array.from({ length: workers }, () => rows);
+  }
+
+  const distributed: DataRow[][] = Array.from({ length: workers }, () => []);
+  rows.forEach((row, index) => {
+    distributed[index % workers].push(row);
+  });
+
+  if (distribution === 'roundRobin') {
+    return distributed.map((workerRows) => (workerRows.length > 0 ? workerRows : rows));
+  }
+  return distributed;
+}
+
+/**
+ * DataFeeder - Hands out the data rows assigned to a worker.
+ *
+ * @example
+ * ```typescript
+ * const feeder = new DataFeeder(data.dataRows, data.dataDistribution);
+ * const row = feeder.next(); // undefined once a unique feeder runs out of rows
+ * ```
+ *
+ * @remarks
+ * `roundRobin` cycles through the rows in order, `unique` returns every row once and is then
+ * exhausted, and `random` picks a row uniformly at random for every call.
+ */
+export class DataFeeder {
+  private _position = 0;
+
+  constructor(
+    private readonly _rows: DataRow[] = [],
+    private readonly _distribution: DataDistribution = 'roundRobin',
+  ) {}
+
+  /**
+   * Whether rows were assigned to this worker.
+   */
+  hasRows(): boolean {
+    return this._rows.length > 0;
+  }
+
+  /**
+   * Whether a `unique` feeder has handed out all of its rows.
+   */
+  isExhausted(): boolean {
+    return this._distribution === 'unique' && this._position >= this._rows.length;
+  }
+
+  /**
+   * Returns the next row, or undefined when there are no rows left.
+   */
+  next(): DataRow | undefined {
+    if (this._rows.length === 0 || this.isExhausted()) return undefined;
+
+    if (this._distribution === 'random') {
+      return this._rows[randomInt(this._rows.length)];
+    }
+
+    const row = this._rows[this._position % this._rows.length];
+    this._position++;
+    return row;
+  }
+}
@@ -1,4 +1,8 @@
-import type { IEndpointStateManager, IStatsCounterManager } from '@tressi/shared/cli';
+import type {
+  EndpointCounters,
+  IEndpointStateManager,
+  IStatsCounterManager,
+} from '@tressi/shared/cli';
 import type { TressiConfig } from '@tressi/shared/common';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -81,6 +85,7 @@ describe('EarlyExitCoordinator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
           failureCount: 0,
           sampledStatusCodes: [],
           statusCodeCounts: {},
@@ -89,8 +94,16 @@ describe('EarlyExitCoordinator', () => {
         getEndpointsCount: vi.fn().mockReturnValue(2),
         recordBytesReceived: vi.fn(),
         recordBytesSent: vi.fn(),
+        recordChecks: vi.fn(),
+        recordDropped: vi.fn(),
+        recordError: vi.fn(),
+        recordGrpcCall: vi.fn(),
+        recordLate: vi.fn(),
+        recordProtocol: vi.fn(),
         recordRequest: vi.fn(),
         recordStatusCode: vi.fn(),
+        recordStreamSubscription: vi.fn(),
+        recordWebSocketSession: vi.fn(),
       },
       {
         getAllEndpointCounters: vi.fn(),
@@ -98,6 +111,7 @@ describe('EarlyExitCoordinator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
           failureCount: 0,
           sampledStatusCodes: [],
           statusCodeCounts: {},
@@ -106,8 +120,16 @@ describe('EarlyExitCoordinator', () => {
         getEndpointsCount: vi.fn().mockReturnValue(1),
         recordBytesReceived: vi.fn(),
         recordBytesSent: vi.fn(),
+        recordChecks: vi.fn(),
+        recordDropped: vi.fn(),
+        recordError: vi.fn(),
+        recordGrpcCall: vi.fn(),
+        recordLate: vi.fn(),
+        recordProtocol: vi.fn(),
         recordRequest: vi.fn(),
         recordStatusCode: vi.fn(),
+        recordStreamSubscription: vi.fn(),
+        recordWebSocketSession: vi.fn(),
       },
     ];
 
@@ -137,11 +159,24 @@ describe('EarlyExitCoordinator', () => {
     it('should initialize with disabled early exit when not configured', () => {
       const disabledConfig: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 50,
@@ -151,6 +186,9 @@ describe('EarlyExitCoordinator', () => {
           workerMemoryLimit: 512,
         },
         requests: [],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const disabledCoordinator = new EarlyExitCoordinator(
@@ -177,11 +215,24 @@ describe('EarlyExitCoordinator', () => {
     it('should not start monitoring when disabled', () => {
       const disabledConfig: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 50,
@@ -191,6 +242,9 @@ describe('EarlyExitCoordinator', () => {
           workerMemoryLimit: 512,
         },
         requests: [],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const disabledCoordinator = new EarlyExitCoordinator(
@@ -221,11 +275,24 @@ describe('EarlyExitCoordinator', () => {
     it('should start monitoring based on per-request earlyExit even when global workerEarlyExit is disabled', async () => {
       const configPerRequestOnly: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -236,6 +303,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json' as const,
+            checks: [],
             earlyExit: {
               enabled: true,
               errorRateThreshold: 10,
@@ -247,19 +316,33 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/error-prone',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       } as TressiConfig;
 
       vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue({
         bodySampleIndices: [],
         bytesReceived: 1000,
         bytesSent: 500,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 10,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: { 500: 10 },
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       const perRequestCoordinator = new EarlyExitCoordinator(
@@ -344,10 +427,18 @@ describe('EarlyExitCoordinator', () => {
         bodySampleIndices: [],
         bytesReceived: 2000,
         bytesSent: 1000,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 5,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 5,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       vi.useFakeTimers();
@@ -363,15 +454,73 @@ describe('EarlyExitCoordinator', () => {
       expect(mockEndpointStateManager.stopEndpoint).toHaveBeenCalled();
     });
 
+    it('should sum the counters of every worker running an endpoint', () => {
+      const counters = (successCount: number, failureCount: number): EndpointCounters => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue(counters(10, 0));
+      vi.mocked(mockStatsCounterManagers[1].getEndpointCounters).mockReturnValue(counters(0, 5));
+      const virtualUserConfig = {
+        ...mockConfig,
+        requests: [
+          {
+            ...mockConfig.requests[0],
+            earlyExit: {
+              enabled: true,
+              errorRateThreshold: 20,
+              exitStatusCodes: [],
+              monitoringWindowSeconds: 1,
+            },
+          },
+        ],
+      } as TressiConfig;
+
+      coordinator = new EarlyExitCoordinator(
+        virtualUserConfig,
+        mockStatsCounterManagers,
+        mockEndpointStateManager,
+        [[0], [0]],
+      );
+      vi.useFakeTimers();
+      coordinator.startMonitoring();
+      vi.advanceTimersByTime(1500);
+      coordinator.stopMonitoring();
+      vi.useRealTimers();
+
+      expect(mockEndpointStateManager.stopEndpoint).toHaveBeenCalled();
+    });
+
     it('should trigger early exit for endpoints exceeding thresholds', async () => {
       vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue({
         bodySampleIndices: [],
         bytesReceived: 1000,
         bytesSent: 500,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 10,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       vi.useFakeTimers();
@@ -387,6 +536,73 @@ describe('EarlyExitCoordinator', () => {
       expect(mockEndpointStateManager.stopEndpoint).toHaveBeenCalled();
     });
 
+    it('should measure the error rate of each stage on its own', () => {
+      const stagedConfig = {
+        options: {
+          durationSec: 60,
+          stages: [
+            { durationSec: 2, interpolation: 'step', rps: 10 },
+            { durationSec: 2, interpolation: 'step', rps: 50 },
+          ],
+          workerEarlyExit: { enabled: false },
+        },
+        requests: [
+          {
+            earlyExit: {
+              enabled: true,
+              errorRateThreshold: 50,
+              exitStatusCodes: [],
+              monitoringWindowSeconds: 1,
+            },
+            method: 'GET',
+            stages: [],
+            url: 'http://example.com/api/1',
+          },
+        ],
+      } as unknown as TressiConfig;
+      const stagedCoordinator = new EarlyExitCoordinator(
+        stagedConfig,
+        mockStatsCounterManagers,
+        mockEndpointStateManager,
+      );
+      const counters = (successCount: number, failureCount: number): EndpointCounters => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      vi.useFakeTimers();
+      stagedCoordinator.startMonitoring();
+
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue(counters(8, 2));
+      vi.advanceTimersByTime(1000);
+      // The second stage starts counting from here
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue(counters(16, 4));
+      vi.advanceTimersByTime(1000);
+      expect(mockEndpointStateManager.stopEndpoint).not.toHaveBeenCalled();
+
+      // 6 of the 10 requests of the second stage failed, 10 of 30 overall
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue(counters(20, 10));
+      vi.advanceTimersByTime(1000);
+
+      stagedCoordinator.stopMonitoring();
+      vi.useRealTimers();
+
+      expect(mockEndpointStateManager.stopEndpoint).toHaveBeenCalledWith(0);
+    });
+
     it('should handle stop monitoring gracefully', () => {
       coordinator.startMonitoring();
       expect(() => coordinator.stopMonitoring()).not.toThrow();
@@ -436,10 +652,18 @@ describe('EarlyExitCoordinator', () => {
         bodySampleIndices: [],
         bytesReceived: 1600,
         bytesSent: 800,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 10,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       coordinator = new EarlyExitCoordinator(
@@ -460,11 +684,24 @@ describe('EarlyExitCoordinator', () => {
     it('should use request-level config over global config', () => {
       const configWithRequestLevel: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: true,
             errorRateThreshold: 50,
@@ -475,6 +712,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: true,
               errorRateThreshold: 20,
@@ -486,9 +725,14 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/1',
           },
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 0,
@@ -500,9 +744,15 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 5,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/2',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const testCoordinator = new EarlyExitCoordinator(
@@ -518,11 +768,24 @@ describe('EarlyExitCoordinator', () => {
     it('should use global config when no request-level config exists', () => {
       const configWithGlobalOnly: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: true,
             errorRateThreshold: 30,
@@ -533,6 +796,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 0,
@@ -544,9 +809,14 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/1',
           },
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 0,
@@ -558,9 +828,15 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 5,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/2',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const testCoordinator = new EarlyExitCoordinator(
@@ -575,11 +851,24 @@ describe('EarlyExitCoordinator', () => {
     it('should not apply early exit to endpoints with enabled: false', () => {
       const configWithDisabled: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: true,
             errorRateThreshold: 30,
@@ -590,6 +879,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 10,
@@ -601,9 +892,15 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/1',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const testCoordinator = new EarlyExitCoordinator(
@@ -620,11 +917,24 @@ describe('EarlyExitCoordinator', () => {
       // per-request earlyExit enabled with a 10% error Rate threshold.
       const configGlobalDisabled: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -637,6 +947,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json' as const,
+            checks: [],
             earlyExit: {
               enabled: false,
               errorRateThreshold: 0,
@@ -648,9 +960,14 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/healthy',
           },
           {
+            bodyType: 'json' as const,
+            checks: [],
             earlyExit: {
               enabled: true,
               errorRateThreshold: 10,
@@ -662,9 +979,15 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/error-prone',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       } as TressiConfig;
 
       // Single worker owns both endpoints:
@@ -679,6 +1002,7 @@ describe('EarlyExitCoordinator', () => {
               bodySampleIndices: [],
               bytesReceived: 2000,
               bytesSent: 1000,
+              checkCounts: [],
               failureCount: 0,
               sampledStatusCodes: [],
               statusCodeCounts: {},
@@ -690,6 +1014,7 @@ describe('EarlyExitCoordinator', () => {
             bodySampleIndices: [],
             bytesReceived: 1000,
             bytesSent: 500,
+            checkCounts: [],
             failureCount: 20,
             sampledStatusCodes: [],
             statusCodeCounts: { 500: 20 },
@@ -699,8 +1024,16 @@ describe('EarlyExitCoordinator', () => {
         getEndpointsCount: vi.fn().mockReturnValue(2),
         recordBytesReceived: vi.fn(),
         recordBytesSent: vi.fn(),
+        recordChecks: vi.fn(),
+        recordDropped: vi.fn(),
+        recordError: vi.fn(),
+        recordGrpcCall: vi.fn(),
+        recordLate: vi.fn(),
+        recordProtocol: vi.fn(),
         recordRequest: vi.fn(),
         recordStatusCode: vi.fn(),
+        recordStreamSubscription: vi.fn(),
+        recordWebSocketSession: vi.fn(),
       };
 
       const testCoordinator = new EarlyExitCoordinator(
@@ -729,11 +1062,24 @@ describe('EarlyExitCoordinator', () => {
     it('should trigger early exit for configured status codes', () => {
       const configWithStatusCodes: TressiConfig = {
         $schema: 'http://example.com/schema.json',
+        grpc: [],
         options: {
           durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
           headers: {},
           rampUpDurationSec: 0,
+          stages: [],
           threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
           workerEarlyExit: {
             enabled: true,
             errorRateThreshold: 0,
@@ -744,6 +1090,8 @@ describe('EarlyExitCoordinator', () => {
         },
         requests: [
           {
+            bodyType: 'json',
+            checks: [],
             earlyExit: {
               enabled: true,
               errorRateThreshold: 0,
@@ -755,9 +1103,15 @@ describe('EarlyExitCoordinator', () => {
             payload: {},
             rampUpDurationSec: 0,
             rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
             url: 'http://example.com/api/1',
           },
         ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
       };
 
       const testCoordinator = new EarlyExitCoordinator(
@@ -770,6 +1124,197 @@ describe('EarlyExitCoordinator', () => {
     });
   });
 
+  describe('response check exits', () => {
+    it('should stop an endpoint when an exitOnFailure check fails with early exit disabled', () => {
+      const configWithChecks: TressiConfig = {
+        $schema: 'http://example.com/schema.json',
+        grpc: [],
+        options: {
+          durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
+          headers: {},
+          rampUpDurationSec: 0,
+          stages: [],
+          threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
+          workerEarlyExit: {
+            enabled: false,
+            errorRateThreshold: 0,
+            exitStatusCodes: [],
+            monitoringWindowSeconds: 1,
+          },
+          workerMemoryLimit: 512,
+        },
+        requests: [
+          {
+            bodyType: 'json',
+            checks: [
+              { exitOnFailure: false, ms: 100, type: 'maxLatency' },
+              { exitOnFailure: true, operator: 'exists', path: '$.id', type: 'jsonPath' },
+            ],
+            earlyExit: {
+              enabled: false,
+              errorRateThreshold: 1,
+              exitStatusCodes: [],
+              monitoringWindowSeconds: 1,
+            },
+            headers: {},
+            method: 'GET',
+            payload: {},
+            rampUpDurationSec: 0,
+            rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
+            url: 'http://example.com/api/1',
+          },
+        ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
+      };
+
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [
+          { failed: 3, passed: 7 },
+          { failed: 1, passed: 9 },
+        ],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 4,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: { 200: 10 },
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 6,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      const testCoordinator = new EarlyExitCoordinator(
+        configWithChecks,
+        [mockStatsCounterManagers[0]],
+        mockEndpointStateManager,
+      );
+
+      vi.useFakeTimers();
+      testCoordinator.startMonitoring();
+      vi.advanceTimersByTime(1500);
+      testCoordinator.stopMonitoring();
+      vi.useRealTimers();
+
+      expect(mockEndpointStateManager.stopEndpoint).toHaveBeenCalledWith(0);
+      expect(testCoordinator.getEarlyExitTriggered()).toBe(true);
+    });
+
+    it('should keep running when only non-exit checks fail', () => {
+      const configWithChecks: TressiConfig = {
+        $schema: 'http://example.com/schema.json',
+        grpc: [],
+        options: {
+          durationSec: 60,
+          executor: {
+            arrival: 'constant',
+            maxInFlight: 1000,
+            pipelineDepth: 15,
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'fixedRps',
+            vuRampUpSec: 0,
+            vus: 10,
+          },
+          headers: {},
+          rampUpDurationSec: 0,
+          stages: [],
+          threads: 1,
+          thresholds: [],
+          timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
+          workerEarlyExit: {
+            enabled: false,
+            errorRateThreshold: 0,
+            exitStatusCodes: [],
+            monitoringWindowSeconds: 1,
+          },
+          workerMemoryLimit: 512,
+        },
+        requests: [
+          {
+            bodyType: 'json',
+            checks: [
+              { exitOnFailure: false, ms: 100, type: 'maxLatency' },
+              { exitOnFailure: true, operator: 'exists', path: '$.id', type: 'jsonPath' },
+            ],
+            earlyExit: {
+              enabled: false,
+              errorRateThreshold: 1,
+              exitStatusCodes: [],
+              monitoringWindowSeconds: 1,
+            },
+            headers: {},
+            method: 'GET',
+            payload: {},
+            rampUpDurationSec: 0,
+            rps: 10,
+            sendBody: true,
+            stages: [],
+            thresholds: [],
+            url: 'http://example.com/api/1',
+          },
+        ],
+        scenarios: [],
+        streams: [],
+        websockets: [],
+      };
+
+      vi.mocked(mockStatsCounterManagers[0].getEndpointCounters).mockReturnValue({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [
+          { failed: 3, passed: 7 },
+          { failed: 0, passed: 10 },
+        ],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 3,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: { 200: 10 },
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 7,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      const testCoordinator = new EarlyExitCoordinator(
+        configWithChecks,
+        [mockStatsCounterManagers[0]],
+        mockEndpointStateManager,
+      );
+
+      vi.useFakeTimers();
+      testCoordinator.startMonitoring();
+      vi.advanceTimersByTime(1500);
+      testCoordinator.stopMonitoring();
+      vi.useRealTimers();
+
+      expect(mockEndpointStateManager.stopEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getEarlyExitTriggered', () => {
     it('should return false initially', () => {
       coordinator = new EarlyExitCoordinator(
@@ -819,10 +1364,18 @@ describe('EarlyExitCoordinator', () => {
         bodySampleIndices: [],
         bytesReceived: 1000,
         bytesSent: 500,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 10,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       coordinator = new EarlyExitCoordinator(
@@ -880,10 +1433,18 @@ describe('EarlyExitCoordinator', () => {
         bodySampleIndices: [],
         bytesReceived: 1000,
         bytesSent: 500,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
         failureCount: 10,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
         sampledStatusCodes: [],
         statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
         successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
       });
 
       coordinator = new EarlyExitCoordinator(
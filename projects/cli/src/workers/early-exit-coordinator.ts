@@ -1,10 +1,19 @@
 import type {
   EarlyExitThresholds,
+  EndpointCounters,
   IEarlyExitCoordinator,
   IEndpointStateManager,
   IStatsCounterManager,
 } from '@tressi/shared/cli';
-import type { TressiConfig } from '@tressi/shared/common';
+import {
+  getConfigEndpoints,
+  getConfiguredStages,
+  getEndpointKey,
+  getStageIndex,
+  type TressiConfig,
+  type TressiRequestConfig,
+  type TressiStageConfig,
+} from '@tressi/shared/common';
 
 /**
  * EarlyExitCoordinator - Monitors test execution and triggers early termination based on configurable thresholds.
@@ -25,16 +34,31 @@ import type { TressiConfig } from '@tressi/shared/common';
  * The coordinator uses a monitoring window approach where thresholds are evaluated over sliding time windows.
  * This prevents false positives from temporary spikes while maintaining responsiveness to genuine problems.
  * Supports both per-endpoint and global (all endpoints combined) threshold configurations.
+ *
+ * Endpoints with load profile stages have their error rate and error count measured per stage,
+ * so a spike stage is judged on its own requests instead of being diluted by earlier stages.
  */
 export class EarlyExitCoordinator implements IEarlyExitCoordinator {
   private readonly _thresholds: EarlyExitThresholds;
+  private readonly _endpoints: TressiRequestConfig[];
+  private readonly _endpointStages: TressiStageConfig[][];
+  private readonly _stageBaselines = new Map<
+    string,
+    { stageIndex: number; requests: number; errors: number }
+  >();
   private _monitoringInterval?: NodeJS.Timeout;
+  private _startTime: number = 0;
   private _earlyExitTriggered: boolean = false;
   constructor(
     private readonly _config: TressiConfig,
     private readonly _statsCounterManagers: IStatsCounterManager[],
     private readonly _endpointStateManager: IEndpointStateManager,
+    private readonly _workerEndpointIndices?: number[][],
   ) {
+    this._endpoints = getConfigEndpoints(_config);
+    this._endpointStages = this._endpoints.map((endpoint) =>
+      getConfiguredStages(endpoint, _config.options),
+    );
     this._thresholds = this._parseThresholds();
   }
 
@@ -45,6 +69,7 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
    *
    * @remarks
    * Extracts threshold values from the config's workerEarlyExit section and request-level configs.
+   * Scenario steps use the early exit configuration of their scenario.
    * Implements precedence: request-level > global fallback.
    * If early exit is disabled, returns a configuration with empty thresholds.
    *
@@ -60,7 +85,8 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
     // Process each endpoint to determine its effective early exit config.
     // Per-request earlyExit configs are evaluated independently of the global flag,
     // so individual endpoints can opt-in even when workerEarlyExit.enabled is false.
-    this._config.requests.forEach((request) => {
+    this._endpoints.forEach((request) => {
+      const endpointKey = getEndpointKey(request);
       // Precedence: request-level > global defaults
       const requestConfig = request.earlyExit;
 
@@ -69,7 +95,7 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
         const window = Math.max(1, requestConfig.monitoringWindowSeconds || globalMonitoringWindow);
         minMonitoringWindow = Math.min(minMonitoringWindow, window);
 
-        perEndpointMap.set(request.url, {
+        perEndpointMap.set(endpointKey, {
           errorRate: requestConfig.errorRateThreshold,
           exitStatusCodes: new Set(requestConfig.exitStatusCodes),
           monitoringWindowSeconds: window,
@@ -78,13 +104,25 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
         // Use global configuration as fallback only when:
         // - the global flag is enabled, AND
         // - the endpoint has no per-request earlyExit config at all
-        perEndpointMap.set(request.url, {
+        perEndpointMap.set(endpointKey, {
           errorRate: globalExitConfig.errorRateThreshold,
           exitStatusCodes: new Set(globalExitConfig.exitStatusCodes),
           monitoringWindowSeconds: globalMonitoringWindow,
         });
         // If requestConfig.enabled is false, don't add to map (endpoint won't have early exit)
       }
+
+      // Checks marked exitOnFailure stop the endpoint even when early exit is disabled
+      const exitCheckIndices = (request.checks ?? []).flatMap((check, index) =>
+        check.exitOnFailure ? [index] : [],
+      );
+      if (exitCheckIndices.length > 0) {
+        const threshold = perEndpointMap.get(endpointKey) ?? {
+          exitStatusCodes: new Set<number>(),
+          monitoringWindowSeconds: globalMonitoringWindow,
+        };
+        perEndpointMap.set(endpointKey, { ...threshold, exitCheckIndices });
+      }
     });
 
     return {
@@ -106,6 +144,7 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
     // regardless of whether the global workerEarlyExit flag is enabled.
     if (this._thresholds.perEndpoint.size === 0) return;
 
+    this._startTime = Date.now();
     this._monitoringInterval = setInterval(() => {
       this._checkEarlyExitConditions();
     }, this._thresholds.monitoringWindowSeconds * 1000);
@@ -133,13 +172,14 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
   /**
    * Identifies endpoints that should be stopped due to threshold violations.
    *
-   * @returns Array of endpoint URLs that exceed configured thresholds
+   * @returns Array of endpoint keys that exceed configured thresholds
    *
    * @remarks
    * Evaluates each endpoint individually against its configured thresholds:
    * - Error rate threshold: percentage of failed requests
    * - Error count threshold: absolute number of failed requests
    * - Status code thresholds: specific HTTP status codes that trigger immediate stop
+   * - Exit-on-failure checks: response checks that trigger immediate stop when they fail
    *
    * Only endpoints with configured thresholds are evaluated. The method aggregates
    * error counts and status codes across all workers that handle the endpoint.
@@ -155,55 +195,73 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
     const endpoints: string[] = [];
 
     // Check each endpoint across all workers
-    this._config.requests.forEach((request, globalEndpointIndex) => {
+    this._endpoints.forEach((request, globalEndpointIndex) => {
       // Skip if endpoint is already stopped
       if (!this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) {
         return;
       }
 
-      const threshold = this._thresholds.perEndpoint.get(request.url);
+      const endpointKey = getEndpointKey(request);
+      const threshold = this._thresholds.perEndpoint.get(endpointKey);
       if (!threshold) return;
 
       let endpointTotalRequests = 0;
       let endpointTotalErrors = 0;
-      let statusCodeCounts: Record<number, number> = {};
+      const statusCodeCounts: Record<number, number> = {};
+      const checkCounts: EndpointCounters['checkCounts'] = [];
 
-      // Find which worker owns this endpoint
-      const workerId = globalEndpointIndex % this._statsCounterManagers.length;
-      const localEndpointIndex = Math.floor(
-        globalEndpointIndex / this._statsCounterManagers.length,
-      );
-
-      if (workerId < this._statsCounterManagers.length) {
+      // Sum the counters of every worker running this endpoint
+      for (const { workerId, localEndpointIndex } of this._getEndpointOwners(globalEndpointIndex)) {
+        if (workerId < 0 || workerId >= this._statsCounterManagers.length) continue;
         const manager = this._statsCounterManagers[workerId];
-        if (localEndpointIndex < manager.getEndpointsCount()) {
-          const counters = manager.getEndpointCounters(localEndpointIndex);
-          endpointTotalRequests = counters.successCount + counters.failureCount;
-          endpointTotalErrors = counters.failureCount;
-          statusCodeCounts = counters.statusCodeCounts || {};
+        if (localEndpointIndex >= manager.getEndpointsCount()) continue;
+
+        const counters = manager.getEndpointCounters(localEndpointIndex);
+        endpointTotalRequests += counters.successCount + counters.failureCount;
+        endpointTotalErrors += counters.failureCount;
+        for (const [statusCode, count] of Object.entries(counters.statusCodeCounts || {})) {
+          statusCodeCounts[Number(statusCode)] =
+            (statusCodeCounts[Number(statusCode)] ?? 0) + count;
         }
+        (counters.checkCounts || []).forEach(({ failed, passed }, checkIndex) => {
+          checkCounts[checkIndex] ??= { failed: 0, passed: 0 };
+          checkCounts[checkIndex].failed += failed;
+          checkCounts[checkIndex].passed += passed;
+        });
       }
 
       if (endpointTotalRequests === 0) return;
 
-      const errorRate = endpointTotalErrors / endpointTotalRequests;
+      const stageCounts = this._getStageCounts(
+        globalEndpointIndex,
+        endpointKey,
+        endpointTotalRequests,
+        endpointTotalErrors,
+      );
+      const errorRate = stageCounts.requests > 0 ? stageCounts.errors / stageCounts.requests : 0;
 
       // Check error rate threshold
       if (threshold.errorRate && errorRate >= threshold.errorRate / 100) {
-        endpoints.push(request.url);
+        endpoints.push(endpointKey);
         return;
       }
 
       // Check error count threshold
-      if (threshold.errorCount && endpointTotalErrors >= threshold.errorCount) {
-        endpoints.push(request.url);
+      if (threshold.errorCount && stageCounts.errors >= threshold.errorCount) {
+        endpoints.push(endpointKey);
+        return;
+      }
+
+      // Check exit-on-failure response checks
+      if (threshold.exitCheckIndices?.some((index) => (checkCounts[index]?.failed ?? 0) > 0)) {
+        endpoints.push(endpointKey);
         return;
       }
 
       // Check status code thresholds
       threshold.exitStatusCodes.forEach((statusCode) => {
         if (statusCodeCounts[statusCode] > 0) {
-          endpoints.push(request.url);
+          endpoints.push(endpointKey);
         }
       });
     });
@@ -211,10 +269,80 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
     return endpoints;
   }
 
+  /**
+   * Returns the requests and errors of an endpoint within its current stage.
+   *
+   * @param globalEndpointIndex - Index of the endpoint across all workers
+   * @param endpointKey - Key of the endpoint
+   * @param totalRequests - Requests of the endpoint since the test started
+   * @param totalErrors - Failed requests of the endpoint since the test started
+   * @returns Counts since the first check of the current stage, or totals without stages
+   *
+   * @remarks
+   * Counts restart at the first check after each stage boundary.
+   */
+  private _getStageCounts(
+    globalEndpointIndex: number,
+    endpointKey: string,
+    totalRequests: number,
+    totalErrors: number,
+  ): { requests: number; errors: number } {
+    const stages = this._endpointStages[globalEndpointIndex];
+    if (stages.length === 0) return { errors: totalErrors, requests: totalRequests };
+
+    const stageIndex = getStageIndex(stages, (Date.now() - this._startTime) / 1000);
+    let baseline = this._stageBaselines.get(endpointKey);
+    if (!baseline) {
+      baseline = { errors: 0, requests: 0, stageIndex };
+      this._stageBaselines.set(endpointKey, baseline);
+    } else if (baseline.stageIndex !== stageIndex) {
+      baseline = { errors: totalErrors, requests: totalRequests, stageIndex };
+      this._stageBaselines.set(endpointKey, baseline);
+    }
+
+    return {
+      errors: totalErrors - baseline.errors,
+      requests: totalRequests - baseline.requests,
+    };
+  }
+
+  /**
+   * Resolves the workers and local slots that record metrics for a global endpoint index.
+   *
+   * @param globalEndpointIndex - Index of the endpoint across all workers
+   * @returns Each owning worker id and the endpoint's local index in that worker
+   *
+   * @remarks
+   * Uses the explicit worker assignments when provided, otherwise the round-robin layout.
+   * Virtual user workers all run the same endpoints, so an endpoint may have several owners.
+   */
+  private _getEndpointOwners(globalEndpointIndex: number): {
+    workerId: number;
+    localEndpointIndex: number;
+  }[] {
+    if (this._workerEndpointIndices) {
+      const owners: { workerId: number; localEndpointIndex: number }[] = [];
+      for (let workerId = 0; workerId < this._workerEndpointIndices.length; workerId++) {
+        const localEndpointIndex =
+          this._workerEndpointIndices[workerId].indexOf(globalEndpointIndex);
+        if (localEndpointIndex !== -1) owners.push({ localEndpointIndex, workerId });
+      }
+      return owners;
+    }
+
+    const workersCount = this._statsCounterManagers.length;
+    return [
+      {
+        localEndpointIndex: Math.floor(globalEndpointIndex / workersCount),
+        workerId: globalEndpointIndex % workersCount,
+      },
+    ];
+  }
+
   /**
    * Triggers early exit for specific endpoints by stopping their execution.
    *
-   * @param endpoints - Array of endpoint URLs to stop
+   * @param endpoints - Array of endpoint keys to stop
    *
    * @remarks
    * Stops individual endpoints rather than terminating the entire test.
@@ -229,8 +357,8 @@ export class EarlyExitCoordinator implements IEarlyExitCoordinator {
     process.stdout.write(`🚨 Endpoint early exit triggered for: ${endpoints.join(', ')}\n`);
 
     // Stop individual endpoints instead of global stop
-    endpoints.forEach((endpointUrl) => {
-      const endpointIndex = this._config.requests.findIndex((req) => req.url === endpointUrl);
+    endpoints.forEach((endpointKey) => {
+      const endpointIndex = this._endpoints.findIndex((req) => getEndpointKey(req) === endpointKey);
       if (endpointIndex !== -1) {
         this._endpointStateManager.stopEndpoint(endpointIndex);
       }
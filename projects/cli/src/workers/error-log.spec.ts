@@ -0,0 +1,220 @@
+import type { EndpointErrorEntry, RequestResult } from '@tressi/shared/common';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  describeFailure,
+  ErrorLog,
+  MAX_ERROR_ENTRIES_PER_ENDPOINT,
+  OVERFLOW_ERROR_MESSAGE,
+} from './error-log';
+
+describe('describeFailure', () => {
+  const createResult = (overrides: Partial<RequestResult> = {}): RequestResult => ({
+    latencyMs: 10,
+    method: 'GET',
+    status: 0,
+    success: false,
+    timestamp: 0,
+    url: 'http://example.com',
+    ...overrides,
+  });
+
+  it('should use the network error category of a request without response', () => {
+    const result = createResult({
+      error: 'connect ECONNREFUSED',
+      errorCategory: 'connectionRefused',
+      errorCode: 'ECONNREFUSED',
+    });
+
+    expect(describeFailure(result, [], { outcomes: [], success: false })).toEqual({
+      detail: 'ECONNREFUSED',
+      kind: 'connectionRefused',
+      message: 'connect ECONNREFUSED',
+    });
+  });
+
+  it('should classify reset connections by their error code', () => {
+    const result = createResult({ error: 'other side closed', errorCode: 'UND_ERR_SOCKET' });
+
+    expect(describeFailure(result, [], { outcomes: [], success: false }).kind).toBe(
+      'connectionReset',
+    );
+  });
+
+  it('should fall back to other for unknown network errors', () => {
+    const result = createResult({ error: 'boom' });
+
+    expect(describeFailure(result, [], { outcomes: [], success: false })).toEqual({
+      detail: undefined,
+      kind: 'other',
+      message: 'boom',
+    });
+  });
+
+  it('should describe a rejected status code with the response body', () => {
+    const result = createResult({ body: 'Service Unavailable', status: 503 });
+
+    expect(describeFailure(result, [], { outcomes: [], success: false })).toEqual({
+      detail: 'Service Unavailable',
+      kind: 'httpStatus',
+      message: 'HTTP 503',
+    });
+  });
+
+  it('should list the failed checks', () => {
+    const result = createResult({ body: '{}', status: 200 });
+
+    expect(
+      describeFailure(
+        result,
+        [
+          { exitOnFailure: false, type: 'status', values: [200] },
+          { exitOnFailure: false, operator: 'exists', path: '$.id', type: 'jsonPath' },
+          { exitOnFailure: false, ms: 100, type: 'maxLatency' },
+        ],
+        { outcomes: [true, false, false], success: false },
+      ),
+    ).toEqual({ detail: '{}', kind: 'check', message: 'Failed $.id exists, latency <= 100ms' });
+  });
+
+  it('should describe a GraphQL response by the messages of its errors', () => {
+    const body = '{"errors":[{"message":"Not authorized"},{"message":"User not found"}]}';
+    const result = createResult({
+      body,
+      graphqlErrors: ['Not authorized', 'User not found'],
+      status: 200,
+    });
+
+    expect(
+      describeFailure(
+        result,
+        [{ exitOnFailure: false, operator: 'exists', path: '$.data.user', type: 'jsonPath' }],
+        {
+          outcomes: [false],
+          success: false,
+        },
+      ),
+    ).toEqual({ detail: body, kind: 'graphql', message: 'Not authorized; User not found' });
+  });
+
+  it('should blame variable extraction when the response passed validation', () => {
+    const result = createResult({ status: 200, success: true });
+
+    expect(describeFailure(result, [], { outcomes: [], success: true })).toEqual({
+      kind: 'extraction',
+      message: 'Variable extraction failed',
+    });
+  });
+});
+
+describe('ErrorLog', () => {
+  const endpointKey = 'GET http://example.com';
+  let log: ErrorLog;
+
+  const createEntry = (overrides: Partial<EndpointErrorEntry> = {}): EndpointErrorEntry => ({
+    count: 1,
+    firstSeenAt: 1000,
+    kind: 'httpStatus',
+    lastSeenAt: 1000,
+    message: 'HTTP 503',
+    sample: { url: 'http://example.com' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    log = new ErrorLog();
+  });
+
+  it('should merge failures with the same kind and message', () => {
+    log.recordFailure(
+      endpointKey,
+      'http://example.com/1',
+      { kind: 'httpStatus', message: 'HTTP 503' },
+      1000,
+    );
+    log.recordFailure(
+      endpointKey,
+      'http://example.com/2',
+      { kind: 'httpStatus', message: 'HTTP 503' },
+      3000,
+    );
+    log.recordFailure(
+      endpointKey,
+      'http://example.com/3',
+      { kind: 'timeout', message: 'timed out' },
+      2000,
+    );
+
+    expect(log.getEntries(endpointKey)).toEqual([
+      createEntry({
+        count: 2,
+        firstSeenAt: 1000,
+        lastSeenAt: 3000,
+        sample: { detail: undefined, url: 'http://example.com/1' },
+      }),
+      createEntry({
+        firstSeenAt: 2000,
+        kind: 'timeout',
+        lastSeenAt: 2000,
+        message: 'timed out',
+        sample: { detail: undefined, url: 'http://example.com/3' },
+      }),
+    ]);
+  });
+
+  it('should keep the sample of the earliest occurrence when merging entries', () => {
+    log.record(endpointKey, createEntry({ count: 3, firstSeenAt: 5000, lastSeenAt: 6000 }));
+    log.record(
+      endpointKey,
+      createEntry({
+        count: 2,
+        firstSeenAt: 1000,
+        lastSeenAt: 2000,
+        sample: { detail: 'first', url: 'http://example.com/first' },
+      }),
+    );
+
+    expect(log.getEntries(endpointKey)).toEqual([
+      createEntry({
+        count: 5,
+        firstSeenAt: 1000,
+        lastSeenAt: 6000,
+        sample: { detail: 'first', url: 'http://example.com/first' },
+      }),
+    ]);
+  });
+
+  it('should group messages beyond the per endpoint limit per kind', () => {
+    for (let i = 0; i < MAX_ERROR_ENTRIES_PER_ENDPOINT + 3; i++) {
+      log.record(endpointKey, createEntry({ message: `HTTP ${500 + i}` }));
+    }
+    log.record(endpointKey, createEntry({ message: 'HTTP 500' }));
+
+    const entries = log.getEntries(endpointKey);
+    expect(entries).toHaveLength(MAX_ERROR_ENTRIES_PER_ENDPOINT + 1);
+    expect(entries.find((e) => e.message === OVERFLOW_ERROR_MESSAGE)?.count).toBe(3);
+    expect(entries.find((e) => e.message === 'HTTP 500')?.count).toBe(2);
+  });
+
+  it('should truncate long messages and details', () => {
+    log.record(
+      endpointKey,
+      createEntry({ message: 'x'.repeat(1000), sample: { detail: 'y'.repeat(1000), url: 'u' } }),
+    );
+
+    const [entry] = log.getEntries(endpointKey);
+    expect(entry.message).toHaveLength(200);
+    expect(entry.sample.detail).toHaveLength(500);
+  });
+
+  it('should drain all entries tagged with their endpoint key', () => {
+    log.record(endpointKey, createEntry());
+    log.record('POST http://example.com', createEntry({ kind: 'timeout' }));
+
+    expect(log.drain()).toEqual([
+      { ...createEntry(), endpointKey },
+      { ...createEntry({ kind: 'timeout' }), endpointKey: 'POST http://example.com' },
+    ]);
+    expect(log.size).toBe(0);
+  });
+});
@@ -0,0 +1,213 @@
+import type { WorkerErrorEntry } from '@tressi/shared/cli';
+import type {
+  EndpointErrorEntry,
+  RequestErrorKind,
+  RequestResult,
+  TressiResponseCheck,
+} from '@tressi/shared/common';
+
+import { getCheckLabel, type ResponseValidation } from '../http/response-validator';
+
+/** Distinct messages kept per endpoint before further messages are grouped per kind */
+export const MAX_ERROR_ENTRIES_PER_ENDPOINT = 20;
+
+/** Message of the entry that groups the messages beyond the per endpoint limit */
+export const OVERFLOW_ERROR_MESSAGE = 'Other messages';
+
+const MAX_MESSAGE_LENGTH = 200;
+const MAX_DETAIL_LENGTH = 500;
+
+const connectionResetErrorCodes: ReadonlySet<string> = new Set([
+  'ECONNRESET',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Kind, message and details of a failed request.
+ */
+export type RequestFailure = {
+  kind: RequestErrorKind;
+  message: string;
+  detail?: string;
+};
+
+/**
+ * Describes why a request failed.
+ *
+ * @param result - The result of the failed request
+ * @param checks - The response checks configured for the request
+ * @param validation - The outcome of validating the response against the checks
+ * @returns The kind, message and details of the failure
+ *
+ * @remarks
+ * Requests without a response are classified by their error code. Responses are classified
+ * by the errors of a GraphQL response, then by the checks that failed, then by a rejected status
+ * code. A response that passed validation can only have failed because a scenario step could not
+ * extract its variables.
+ *
+ * @example
+ * ```typescript
+ * const validation = { outcomes: [], success: false };
+ * describeFailure({ status: 503, body: 'Service Unavailable', ... }, [], validation);
+ * // { kind: 'httpStatus', message: 'HTTP 503', detail: 'Service Unavailable' }
+ * ```
+ */
+export function describeFailure(
+  result: RequestResult,
+  checks: TressiResponseCheck[],
+  validation: ResponseValidation,
+): RequestFailure {
+  if (!result.status) {
+    const kind =
+      result.errorCategory ??
+      (connectionResetErrorCodes.has(result.errorCode ?? '') ? 'connectionReset' : 'other');
+    return { detail: result.errorCode, kind, message: result.error || 'Unknown error' };
+  }
+
+  if (result.graphqlErrors) {
+    return { detail: result.body, kind: 'graphql', message: result.graphqlErrors.join('; ') };
+  }
+
+  const failedChecks = checks.filter((_, index) => validation.outcomes[index] === false);
+  if (failedChecks.length > 0) {
+    return {
+      detail: result.body,
+      kind: 'check',
+      message: `Failed ${failedChecks.map((check) => getCheckLabel(check)).join(', ')}`,
+    };
+  }
+
+  if (!validation.success) {
+    return { detail: result.body, kind: 'httpStatus', message: `HTTP ${result.status}` };
+  }
+
+  return { kind: 'extraction', message: 'Variable extraction failed' };
+}
+
+/**
+ * ErrorLog - Bounded, deduplicated log of failed requests per endpoint.
+ *
+ * @example
+ * ```typescript
+ * const log = new ErrorLog();
+ * const entry = { count: 1, kind: 'httpStatus', message: 'HTTP 503', ... };
+ * log.record('GET https://api.example.com', entry);
+ * log.getEntries('GET https://api.example.com'); // [{ count: 1, kind: 'httpStatus', ... }]
+ * ```
+ *
+ * @remarks
+ * Failures with the same kind and message are merged into one entry that sums the counts,
+ * spans the first and last occurrence, and keeps the sample of the earliest one. Each endpoint
+ * keeps at most {@link MAX_ERROR_ENTRIES_PER_ENDPOINT} distinct messages; later messages are
+ * counted in one {@link OVERFLOW_ERROR_MESSAGE} entry per kind, so the log stays small however
+ * varied the errors are. Workers use it to batch failures between flushes, and the main thread
+ * to merge the batches of all workers.
+ */
+export class ErrorLog {
+  private readonly _entries = new Map<string, Map<string, EndpointErrorEntry>>();
+
+  /**
+   * Number of entries across all endpoints
+   */
+  get size(): number {
+    let size = 0;
+    for (const entries of this._entries.values()) size += entries.size;
+    return size;
+  }
+
+  /**
+   * Records a single failed request.
+   *
+   * @param endpointKey - The endpoint key of the request
+   * @param url - The requested URL, with placeholders resolved
+   * @param failure - The kind, message and details of the failure
+   * @param timestamp - Epoch milliseconds of the failure
+   */
+  recordFailure(
+    endpointKey: string,
+    url: string,
+    failure: RequestFailure,
+    timestamp: number = Date.now(),
+  ): void {
+    this.record(endpointKey, {
+      count: 1,
+      firstSeenAt: timestamp,
+      kind: failure.kind,
+      lastSeenAt: timestamp,
+      message: failure.message,
+      sample: { detail: failure.detail, url },
+    });
+  }
+
+  /**
+   * Merges an entry into the log of an endpoint.
+   *
+   * @param endpointKey - The endpoint key the entry belongs to
+   * @param entry - The entry to merge
+   */
+  record(endpointKey: string, entry: EndpointErrorEntry): void {
+    let entries = this._entries.get(endpointKey);
+    if (!entries) {
+      entries = new Map();
+      this._entries.set(endpointKey, entries);
+    }
+
+    let message = entry.message.slice(0, MAX_MESSAGE_LENGTH);
+    if (
+      !entries.has(`${entry.kind}|${message}`) &&
+      entries.size >= MAX_ERROR_ENTRIES_PER_ENDPOINT
+    ) {
+      message = OVERFLOW_ERROR_MESSAGE;
+    }
+
+    const id = `${entry.kind}|${message}`;
+    const existing = entries.get(id);
+    if (!existing) {
+      entries.set(id, {
+        ...entry,
+        message,
+        sample: { detail: entry.sample.detail?.slice(0, MAX_DETAIL_LENGTH), url: entry.sample.url },
+      });
+      return;
+    }
+
+    existing.count += entry.count;
+    existing.lastSeenAt = Math.max(existing.lastSeenAt, entry.lastSeenAt);
+    if (entry.firstSeenAt < existing.firstSeenAt) {
+      existing.firstSeenAt = entry.firstSeenAt;
+      existing.sample = {
+        detail: entry.sample.detail?.slice(0, MAX_DETAIL_LENGTH),
+        url: entry.sample.url,
+      };
+    }
+  }
+
+  /**
+   * Gets the entries of an endpoint, most frequent first.
+   */
+  getEntries(endpointKey: string): EndpointErrorEntry[] {
+    return [...(this._entries.get(endpointKey)?.values() ?? [])].sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Gets the entries of every endpoint, most frequent first.
+   */
+  getAllEntries(): Map<string, EndpointErrorEntry[]> {
+    return new Map([...this._entries.keys()].map((key) => [key, this.getEntries(key)]));
+  }
+
+  /**
+   * Removes and returns all entries, tagged with their endpoint key.
+   */
+  drain(): WorkerErrorEntry[] {
+    const drained: WorkerErrorEntry[] = [];
+    for (const [endpointKey, entries] of this._entries) {
+      for (const entry of entries.values()) {
+        drained.push({ ...entry, endpointKey });
+      }
+    }
+    this._entries.clear();
+    return drained;
+  }
+}
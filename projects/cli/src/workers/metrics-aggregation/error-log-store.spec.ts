@@ -0,0 +1,58 @@
+import type { WorkerErrorEntry } from '@tressi/shared/cli';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { ErrorLogStore } from './error-log-store';
+
+describe('ErrorLogStore', () => {
+  const runId = 'test-run';
+  const endpointKey = 'GET http://example.com';
+  let store: ErrorLogStore;
+
+  const createEntry = (overrides: Partial<WorkerErrorEntry> = {}): WorkerErrorEntry => ({
+    count: 1,
+    endpointKey,
+    firstSeenAt: 1000,
+    kind: 'timeout',
+    lastSeenAt: 1000,
+    message: 'Headers Timeout Error',
+    sample: { url: 'http://example.com' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new ErrorLogStore();
+  });
+
+  it('should merge the entries flushed by several workers', () => {
+    store.recordErrors(runId, [createEntry({ count: 4, lastSeenAt: 2000 })]);
+    store.recordErrors(runId, [
+      createEntry({ count: 2, firstSeenAt: 1500, lastSeenAt: 3000 }),
+      createEntry({ endpointKey: 'POST http://example.com', kind: 'dns', message: 'ENOTFOUND' }),
+    ]);
+
+    const errors = store.getCollectedErrors(runId);
+
+    expect(errors.get(endpointKey)).toEqual([
+      {
+        count: 6,
+        firstSeenAt: 1000,
+        kind: 'timeout',
+        lastSeenAt: 3000,
+        message: 'Headers Timeout Error',
+        sample: { url: 'http://example.com' },
+      },
+    ]);
+    expect(errors.get('POST http://example.com')).toHaveLength(1);
+  });
+
+  it('should return an empty map for unknown runs', () => {
+    expect(store.getCollectedErrors('unknown').size).toBe(0);
+  });
+
+  it('should cleanup the entries of a run', () => {
+    store.recordErrors(runId, [createEntry()]);
+    store.cleanupErrors(runId);
+
+    expect(store.getCollectedErrors(runId).size).toBe(0);
+  });
+});
@@ -0,0 +1,30 @@
+import type { WorkerErrorEntry } from '@tressi/shared/cli';
+import type { EndpointErrorEntry } from '@tressi/shared/common';
+
+import { ErrorLog } from '../error-log';
+
+export class ErrorLogStore {
+  // Store for error log entries flushed by workers during a test
+  // Map<runId, ErrorLog>
+  private readonly _logs = new Map<string, ErrorLog>();
+
+  public getCollectedErrors(runId: string): Map<string, EndpointErrorEntry[]> {
+    return this._logs.get(runId)?.getAllEntries() ?? new Map();
+  }
+
+  public recordErrors(runId: string, entries: WorkerErrorEntry[]): void {
+    let log = this._logs.get(runId);
+    if (!log) {
+      log = new ErrorLog();
+      this._logs.set(runId, log);
+    }
+
+    for (const { endpointKey, ...entry } of entries) {
+      log.record(endpointKey, entry);
+    }
+  }
+
+  public cleanupErrors(runId: string): void {
+    this._logs.delete(runId);
+  }
+}
@@ -1,5 +1,15 @@
-import type { IHdrHistogramManager, IStatsCounterManager } from '@tressi/shared/cli';
-import type { TressiConfig } from '@tressi/shared/common';
+import type {
+  EndpointCounters,
+  IHdrHistogramManager,
+  IStatsCounterManager,
+  IWorkerStateManager,
+} from '@tressi/shared/cli';
+import type {
+  EndpointErrorCounts,
+  EndpointProtocolCounts,
+  LatencyHistogram,
+  TressiConfig,
+} from '@tressi/shared/common';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { MetricsAggregator } from './metrics-aggregator';
 
@@ -29,6 +39,7 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
           failureCount: 0,
           sampledStatusCodes: [],
           statusCodeCounts: {},
@@ -37,8 +48,16 @@ describe('MetricsAggregator', () => {
         getEndpointsCount: vi.fn().mockReturnValue(2),
         recordBytesReceived: vi.fn(),
         recordBytesSent: vi.fn(),
+        recordChecks: vi.fn(),
+        recordDropped: vi.fn(),
+        recordError: vi.fn(),
+        recordGrpcCall: vi.fn(),
+        recordLate: vi.fn(),
+        recordProtocol: vi.fn(),
         recordRequest: vi.fn(),
         recordStatusCode: vi.fn(),
+        recordStreamSubscription: vi.fn(),
+        recordWebSocketSession: vi.fn(),
       },
       {
         getAllEndpointCounters: vi.fn().mockReturnValue([]),
@@ -46,6 +65,7 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
           failureCount: 0,
           sampledStatusCodes: [],
           statusCodeCounts: {},
@@ -54,8 +74,16 @@ describe('MetricsAggregator', () => {
         getEndpointsCount: vi.fn().mockReturnValue(1),
         recordBytesReceived: vi.fn(),
         recordBytesSent: vi.fn(),
+        recordChecks: vi.fn(),
+        recordDropped: vi.fn(),
+        recordError: vi.fn(),
+        recordGrpcCall: vi.fn(),
+        recordLate: vi.fn(),
+        recordProtocol: vi.fn(),
         recordRequest: vi.fn(),
         recordStatusCode: vi.fn(),
+        recordStreamSubscription: vi.fn(),
+        recordWebSocketSession: vi.fn(),
       },
     ];
 
@@ -133,19 +161,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -153,10 +197,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -210,19 +262,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 10000,
           bytesSent: 5000,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 2,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: { 200: 8, 404: 2 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 10,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 5000,
           bytesSent: 2500,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 1,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: { 200: 5 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 5,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -230,10 +298,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 15000,
           bytesSent: 7500,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 3,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: { 200: 12, 500: 3 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 15,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -294,6 +370,638 @@ describe('MetricsAggregator', () => {
       expect(results.endpoints.find((e) => e.url === 'http://example.com/api/2')).toBeDefined();
       expect(results.endpoints.find((e) => e.url === 'http://example.com/api/3')).toBeDefined();
     });
+    it('should map endpoints using explicit worker assignments and tag scenario steps', () => {
+      const counters = (
+        successCount: number,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 0,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setConfig({
+        options: { rampUpDurationSec: 0 },
+        requests: [{ method: 'GET', rampUpDurationSec: 0, rps: 1, url: 'url1' }],
+        scenarios: [
+          {
+            name: 'checkout',
+            rampUpDurationSec: 0,
+            rps: 1,
+            steps: [
+              { method: 'GET', url: 'step1' },
+              { method: 'POST', url: 'step2' },
+            ],
+          },
+        ],
+      } as unknown as TressiConfig);
+      // Worker 0 runs the scenario steps, worker 1 the standalone request
+      aggregator.setWorkerEndpointIndices([[1, 2], [0]]);
+
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters(3),
+        counters(2),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([counters(7)]);
+
+      const results = aggregator.getResults(2, [
+        'GET url1',
+        'checkout › GET step1',
+        'checkout › POST step2',
+      ]);
+
+      expect(results.endpoints.map((e) => [e.url, e.successfulRequests, e.scenario])).toEqual([
+        ['url1', 7, undefined],
+        ['step1', 3, 'checkout'],
+        ['step2', 2, 'checkout'],
+      ]);
+    });
+
+    it('should keep requests to the same URL with different methods apart', () => {
+      const counters = (
+        successCount: number,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 0,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setConfig({
+        options: { rampUpDurationSec: 0 },
+        requests: [
+          { method: 'GET', rampUpDurationSec: 0, rps: 1, url: 'url1' },
+          { method: 'POST', name: 'create', rampUpDurationSec: 0, rps: 1, url: 'url1' },
+        ],
+        scenarios: [],
+        websockets: [],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerEndpointIndices([[0], [1]]);
+
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([counters(4)]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([counters(6)]);
+
+      const results = aggregator.getResults(2, ['GET url1', 'create']);
+
+      expect(results.endpoints.map((e) => [e.key, e.method, e.url, e.successfulRequests])).toEqual([
+        ['GET url1', 'GET', 'url1', 4],
+        ['create', 'POST', 'url1', 6],
+      ]);
+    });
+
+    it('should summarize response checks per endpoint across workers', () => {
+      const counters = (
+        checkCounts: { passed: number; failed: number }[],
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts,
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 0,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 1,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setConfig({
+        options: { rampUpDurationSec: 0 },
+        requests: [
+          {
+            checks: [
+              { exitOnFailure: false, ms: 200, type: 'maxLatency' },
+              { exitOnFailure: true, type: 'status', values: [200] },
+            ],
+            method: 'GET',
+            rampUpDurationSec: 0,
+            rps: 1,
+            url: 'url1',
+          },
+          { checks: [], method: 'GET', rampUpDurationSec: 0, rps: 1, url: 'url2' },
+        ],
+        scenarios: [],
+        websockets: [],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerEndpointIndices([[0], [1]]);
+
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters([
+          { failed: 1, passed: 3 },
+          { failed: 0, passed: 4 },
+        ]),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([counters([])]);
+
+      const results = aggregator.getResults(2, ['GET url1', 'GET url2']);
+
+      expect(results.endpoints[0].checks).toEqual([
+        { exitOnFailure: false, failed: 1, label: 'latency <= 200ms', passed: 3, passRate: 0.75 },
+        { exitOnFailure: true, failed: 0, label: 'status in [200]', passed: 4, passRate: 1 },
+      ]);
+      expect(results.endpoints[1].checks).toBeUndefined();
+    });
+
+    it('should sum network error categories per endpoint across workers', () => {
+      const counters = (
+        errorCounts: EndpointErrorCounts,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts,
+        failureCount: 4,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 0,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setWorkerEndpointIndices([[0], [0]]);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters({ connectionRefused: 1, dns: 0, timeout: 2, tls: 1 }),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
+        counters({ connectionRefused: 0, dns: 3, timeout: 1, tls: 0 }),
+      ]);
+
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.endpoints[0].errorCounts).toEqual({
+        connectionRefused: 1,
+        dns: 3,
+        timeout: 3,
+        tls: 1,
+      });
+    });
+
+    it('should sum the requests sent over each HTTP protocol per endpoint across workers', () => {
+      const counters = (
+        protocolCounts: EndpointProtocolCounts,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 0,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts,
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 5,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setWorkerEndpointIndices([[0], [0]]);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters({ h2: 4, h2c: 0, http1: 1 }),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
+        counters({ h2: 5, h2c: 0, http1: 0 }),
+      ]);
+
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.endpoints[0].protocolCounts).toEqual({ h2: 9, h2c: 0, http1: 1 });
+    });
+
+    it('should summarize the messages, closes and round trips of WebSocket endpoints', () => {
+      const counters = (
+        messagesSent: number,
+        abnormalCloses: number,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: abnormalCloses,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: 2,
+        webSocketCounts: { abnormalCloses, messagesReceived: messagesSent * 2, messagesSent },
+      });
+      const roundTrips: LatencyHistogram = {
+        buckets: [],
+        max: 40,
+        mean: 20,
+        min: 5,
+        percentiles: { 50: 18, 95: 35, 99: 40 },
+        stdDev: 0,
+        totalCount: 6,
+      };
+
+      aggregator.setConfig({
+        options: {},
+        requests: [],
+        websockets: [{ headers: {}, messages: [], name: 'chat', rps: 2, url: 'ws://example.com' }],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerEndpointIndices([[0], [0]]);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters(3, 1),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
+        counters(4, 0),
+      ]);
+      aggregator.setRoundTripHdrHistogramManagers([
+        { getAllEndpointHistograms: vi.fn().mockReturnValue([roundTrips]), recordLatency: vi.fn() },
+        { getAllEndpointHistograms: vi.fn().mockReturnValue([]), recordLatency: vi.fn() },
+      ]);
+
+      const results = aggregator.getResults(2, ['chat']);
+
+      expect(results.endpoints[0].method).toBe('WS');
+      expect(results.endpoints[0].webSocket).toEqual({
+        abnormalCloses: 1,
+        messagesReceived: 14,
+        messagesSent: 7,
+        roundTrip: { meanMs: 20, p50Ms: 18, p95Ms: 35, p99Ms: 40 },
+      });
+    });
+
+    it('should not summarize WebSocket messages of HTTP endpoints', () => {
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.endpoints[0].webSocket).toBeUndefined();
+    });
+
+    it('should summarize the status codes and messages of gRPC endpoints', () => {
+      const counters = (
+        statusCodeCounts: Record<number, number>,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: statusCodeCounts[14] ?? 0,
+        grpcCounts: { messagesReceived: 6, messagesSent: 2, statusCodeCounts },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: {},
+        streamCounts: { disconnects: 0, eventsReceived: 0 },
+        successCount: statusCodeCounts[0] ?? 0,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+
+      aggregator.setConfig({
+        grpc: [
+          {
+            message: {},
+            metadata: {},
+            method: 'SayHello',
+            protoPath: './greeter.proto',
+            rps: 2,
+            service: 'helloworld.Greeter',
+            url: 'http://localhost:50051',
+          },
+        ],
+        options: {},
+        requests: [],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerEndpointIndices([[0], [0]]);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters({ 0: 3, 14: 1 }),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
+        counters({ 0: 2 }),
+      ]);
+
+      const key = 'GRPC http://localhost:50051/helloworld.Greeter/SayHello';
+      const results = aggregator.getResults(2, [key]);
+
+      expect(results.endpoints[0].method).toBe('GRPC');
+      expect(results.endpoints[0].statusCodeDistribution).toEqual({});
+      expect(results.endpoints[0].grpc).toEqual({
+        messagesReceived: 12,
+        messagesSent: 4,
+        statusCodeDistribution: { 0: 5, 14: 1 },
+      });
+      expect(results.endpoints[0].webSocket).toBeUndefined();
+    });
+
+    it('should summarize the events, disconnects and event gaps of streaming endpoints', () => {
+      const counters = (
+        eventsReceived: number,
+        disconnects: number,
+      ): ReturnType<IStatsCounterManager['getEndpointCounters']> => ({
+        bodySampleIndices: [],
+        bytesReceived: 0,
+        bytesSent: 0,
+        checkCounts: [],
+        droppedCount: 0,
+        errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+        failureCount: 0,
+        grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+        lateCount: 0,
+        protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+        sampledStatusCodes: [],
+        statusCodeCounts: { 200: 2 },
+        streamCounts: { disconnects, eventsReceived },
+        successCount: 2,
+        webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+      });
+      const eventGaps: LatencyHistogram = {
+        buckets: [],
+        max: 1500,
+        mean: 1000,
+        min: 500,
+        percentiles: { 50: 950, 95: 1400, 99: 1500 },
+        stdDev: 0,
+        totalCount: 38,
+      };
+
+      aggregator.setConfig({
+        options: {},
+        requests: [],
+        streams: [
+          {
+            headers: {},
+            holdDurationSec: 0,
+            reconnectDelayMs: 1000,
+            subscriptions: 4,
+            thresholds: [],
+            type: 'sse',
+            url: 'http://example.com/events',
+          },
+        ],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerEndpointIndices([[0], [0]]);
+      aggregator.setStartTime(Date.now() - 10_000);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+        counters(30, 1),
+      ]);
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
+        counters(12, 0),
+      ]);
+      aggregator.setEventGapHdrHistogramManagers([
+        { getAllEndpointHistograms: vi.fn().mockReturnValue([eventGaps]), recordLatency: vi.fn() },
+        { getAllEndpointHistograms: vi.fn().mockReturnValue([]), recordLatency: vi.fn() },
+      ]);
+
+      const results = aggregator.getResults(2, ['SSE http://example.com/events']);
+
+      expect(results.endpoints[0].method).toBe('SSE');
+      expect(results.endpoints[0].targetAchieved).toBe(0);
+      expect(results.endpoints[0].stream).toEqual({
+        disconnects: 1,
+        eventGap: { meanMs: 1000, p50Ms: 950, p95Ms: 1400, p99Ms: 1500 },
+        eventsPerSecond: expect.closeTo(4.2, 1),
+        eventsReceived: 42,
+      });
+      expect(results.endpoints[0].grpc).toBeUndefined();
+    });
+
+    it('should not summarize stream events of HTTP endpoints', () => {
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.endpoints[0].stream).toBeUndefined();
+    });
+
+    describe('coordinated omission', () => {
+      const histogram = (p99: number): LatencyHistogram => ({
+        buckets: [],
+        max: p99,
+        mean: p99 / 2,
+        min: 1,
+        percentiles: { 50: p99 / 2, 95: p99 - 1, 99: p99 },
+        stdDev: 0,
+        totalCount: 10,
+      });
+
+      beforeEach(() => {
+        aggregator.setWorkerEndpointIndices([[0], []]);
+        vi.mocked(mockHdrHistogramManagers[0].getAllEndpointHistograms).mockReturnValue([
+          histogram(100),
+        ]);
+        vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
+          {
+            bodySampleIndices: [],
+            bytesReceived: 0,
+            bytesSent: 0,
+            checkCounts: [],
+            droppedCount: 3,
+            errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+            failureCount: 0,
+            grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+            lateCount: 7,
+            protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+            sampledStatusCodes: [],
+            statusCodeCounts: {},
+            streamCounts: { disconnects: 0, eventsReceived: 0 },
+            successCount: 10,
+            webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+          },
+        ]);
+      });
+
+      it('should report corrected latencies and dropped and late requests', () => {
+        aggregator.setCorrectedHdrHistogramManagers([
+          {
+            getAllEndpointHistograms: vi.fn().mockReturnValue([histogram(900)]),
+            recordLatency: vi.fn(),
+          },
+          { getAllEndpointHistograms: vi.fn().mockReturnValue([]), recordLatency: vi.fn() },
+        ]);
+
+        const results = aggregator.getResults(2, ['GET url1']);
+
+        const expected = {
+          correctedP50LatencyMs: 450,
+          correctedP99LatencyMs: 900,
+          droppedRequests: 3,
+          lateRequests: 7,
+          p99LatencyMs: 100,
+        };
+        expect(results.endpoints[0]).toMatchObject(expected);
+        expect(results.global).toMatchObject(expected);
+      });
+
+      it('should fall back to the measured latencies without corrected histograms', () => {
+        const results = aggregator.getResults(2, ['GET url1']);
+
+        expect(results.endpoints[0].correctedP99LatencyMs).toBe(100);
+        expect(results.global.correctedP99LatencyMs).toBe(100);
+      });
+
+      it('should flag the generator as saturated when a lagging worker missed the schedule', () => {
+        const workerStateManager = {
+          getEventLoopLag: vi.fn().mockReturnValue(80),
+          getHeapUsed: vi.fn().mockReturnValue(0),
+          getInFlight: vi.fn().mockReturnValue(0),
+          getTokenRequestTotals: vi
+            .fn()
+            .mockReturnValue({ failures: 0, latencyMs: 0, requests: 0 }),
+          getTotalActiveVus: vi.fn().mockReturnValue(0),
+        };
+        aggregator.setWorkerStateManager(workerStateManager as unknown as IWorkerStateManager);
+
+        expect(aggregator.getResults(2, ['GET url1']).global.generatorSaturated).toBe(true);
+
+        // A responsive worker leaves missed requests to the target
+        workerStateManager.getEventLoopLag.mockReturnValue(10);
+        expect(aggregator.getResults(2, ['GET url1']).global.generatorSaturated).toBe(false);
+      });
+
+      it('should report the timing phases of each endpoint and of the test', () => {
+        const phaseManagers = (meanMs: number): IHdrHistogramManager[] => [
+          {
+            getAllEndpointHistograms: vi.fn().mockReturnValue([histogram(meanMs * 2)]),
+            recordLatency: vi.fn(),
+          },
+          { getAllEndpointHistograms: vi.fn().mockReturnValue([]), recordLatency: vi.fn() },
+        ];
+        aggregator.setPhaseHdrHistogramManagers({
+          connect: phaseManagers(4),
+          dns: phaseManagers(2),
+          download: phaseManagers(10),
+          tls: phaseManagers(6),
+          ttfb: phaseManagers(80),
+        });
+
+        const results = aggregator.getResults(2, ['GET url1']);
+
+        expect(results.endpoints[0].timingPhases?.ttfb).toEqual({
+          meanMs: 80,
+          p50Ms: 80,
+          p95Ms: 159,
+          p99Ms: 160,
+        });
+        expect(results.endpoints[0].timingPhases?.dns.meanMs).toBe(2);
+        expect(results.global.timingPhases).toEqual(results.endpoints[0].timingPhases);
+      });
+
+      it('should not report timing phases without phase histograms', () => {
+        const results = aggregator.getResults(2, ['GET url1']);
+
+        expect(results.endpoints[0].timingPhases).toBeUndefined();
+        expect(results.global.timingPhases).toBeUndefined();
+      });
+    });
+
+    it('should report active virtual users without an RPS target', () => {
+      aggregator.setConfig({
+        options: { executor: { type: 'virtualUsers' } },
+        requests: [{ method: 'GET', rps: 10, url: 'url1' }],
+      } as unknown as TressiConfig);
+      aggregator.setWorkerStateManager({
+        getEventLoopLag: vi.fn().mockReturnValue(0),
+        getHeapUsed: vi.fn().mockReturnValue(0),
+        getInFlight: vi.fn().mockReturnValue(0),
+        getTokenRequestTotals: vi.fn().mockReturnValue({ failures: 0, latencyMs: 0, requests: 0 }),
+        getTotalActiveVus: vi.fn().mockReturnValue(7),
+      } as unknown as IWorkerStateManager);
+
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.global.activeVus).toBe(7);
+      expect(results.global.targetAchieved).toBe(0);
+      expect(results.endpoints[0].targetAchieved).toBe(0);
+    });
+
+    it('should report no active virtual users without a worker state manager', () => {
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.global.activeVus).toBe(0);
+    });
+
+    it('should report the requests in flight of each worker', () => {
+      aggregator.setWorkerStateManager({
+        getEventLoopLag: vi.fn().mockReturnValue(0),
+        getHeapUsed: vi.fn().mockReturnValue(0),
+        getInFlight: vi.fn((workerId: number) => [3, 9][workerId]),
+        getTokenRequestTotals: vi.fn().mockReturnValue({ failures: 0, latencyMs: 0, requests: 0 }),
+        getTotalActiveVus: vi.fn().mockReturnValue(0),
+      } as unknown as IWorkerStateManager);
+
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.global.workerInFlightRequests).toEqual([3, 9]);
+      expect(results.global.inFlightRequests).toBe(12);
+    });
+
+    it('should report the health of each worker', () => {
+      aggregator.setWorkerStateManager({
+        getEventLoopLag: vi.fn((workerId: number) => [12, 80][workerId]),
+        getHeapUsed: vi.fn((workerId: number) => [40, 64][workerId]),
+        getInFlight: vi.fn().mockReturnValue(0),
+        getTokenRequestTotals: vi.fn().mockReturnValue({ failures: 0, latencyMs: 0, requests: 0 }),
+        getTotalActiveVus: vi.fn().mockReturnValue(0),
+      } as unknown as IWorkerStateManager);
+
+      const results = aggregator.getResults(2, ['GET url1']);
+
+      expect(results.global.workerEventLoopLagMs).toEqual([12, 80]);
+      expect(results.global.eventLoopLagMs).toBe(80);
+      expect(results.global.workerHeapUsedMB).toEqual([40, 64]);
+      expect(results.global.heapUsedMB).toBe(104);
+      expect(results.global.generatorSaturated).toBe(false);
+    });
+
+    it('should report token requests apart from the endpoints', () => {
+      const getTokenRequestTotals = vi
+        .fn()
+        .mockReturnValueOnce({ failures: 0, latencyMs: 0, requests: 0 })
+        .mockReturnValueOnce({ failures: 1, latencyMs: 200, requests: 4 });
+      aggregator.setWorkerStateManager({
+        getEventLoopLag: vi.fn().mockReturnValue(0),
+        getHeapUsed: vi.fn().mockReturnValue(0),
+        getInFlight: vi.fn().mockReturnValue(0),
+        getTokenRequestTotals,
+        getTotalActiveVus: vi.fn().mockReturnValue(0),
+      } as unknown as IWorkerStateManager);
+
+      expect(aggregator.getResults(1, ['GET url1']).global.authTokens).toBeUndefined();
+      expect(aggregator.getResults(1, ['GET url1']).global.authTokens).toEqual({
+        failures: 1,
+        meanLatencyMs: 50,
+        requests: 4,
+      });
+    });
   });
 
   describe('Timestamp Management', () => {
@@ -352,6 +1060,82 @@ describe('MetricsAggregator', () => {
       expect(summary.global.epochStartedAt).toBe(startTime);
       expect(summary.global.epochEndedAt).toBeCloseTo(endTime, -2);
     });
+
+    it('should include errors flushed after the last snapshot in the test summary', () => {
+      const aggregator = new MetricsAggregator(
+        mockHdrHistogramManagers,
+        mockStatsCounterManagers,
+        {},
+        'test-run-id',
+      );
+      aggregator.setStartTime(Date.now() - 5000);
+      aggregator.setConfig(mockConfig);
+      aggregator.setEndpoints(['GET http://example.com']);
+
+      expect(aggregator.getTestSummary().endpoints[0].errors).toEqual([]);
+
+      aggregator.recordErrors('test-run-id', [
+        {
+          count: 3,
+          endpointKey: 'GET http://example.com',
+          firstSeenAt: 1000,
+          kind: 'httpStatus',
+          lastSeenAt: 2000,
+          message: 'HTTP 502',
+          sample: { url: 'http://example.com' },
+        },
+      ]);
+
+      const summary = aggregator.getTestSummary();
+      expect(summary.endpoints[0].errors).toEqual([
+        expect.objectContaining({ count: 3, kind: 'httpStatus', message: 'HTTP 502' }),
+      ]);
+    });
+
+    it('should include timeline events in snapshots and the test summary', () => {
+      const aggregator = new MetricsAggregator(
+        mockHdrHistogramManagers,
+        mockStatsCounterManagers,
+        {},
+        'test-run-id',
+      );
+      aggregator.setStartTime(Date.now() - 5000);
+      aggregator.setConfig(mockConfig);
+      aggregator.setEndpoints(['GET http://example.com']);
+
+      aggregator.recordTimelineEvent({ epoch: 1000, type: 'paused' });
+      expect(aggregator.getResults(1, ['GET http://example.com']).timeline).toEqual([
+        { epoch: 1000, type: 'paused' },
+      ]);
+
+      aggregator.recordTimelineEvent({ epoch: 2000, multiplier: 2, type: 'rate' });
+      expect(aggregator.getTestSummary().timeline).toEqual([
+        { epoch: 1000, type: 'paused' },
+        { epoch: 2000, multiplier: 2, type: 'rate' },
+      ]);
+    });
+
+    it('should mark endpoints stopped by hand until they are started again', () => {
+      const aggregator = new MetricsAggregator(
+        mockHdrHistogramManagers,
+        mockStatsCounterManagers,
+        {},
+        'test-run-id',
+      );
+      aggregator.setStartTime(Date.now() - 5000);
+      aggregator.setConfig(mockConfig);
+      aggregator.setEndpoints(['GET http://example.com']);
+
+      aggregator.setEndpointManuallyStopped('GET http://example.com', true);
+      expect(
+        aggregator.getResults(1, ['GET http://example.com']).endpoints[0].manuallyStopped,
+      ).toBe(true);
+
+      aggregator.setEndpointManuallyStopped('GET http://example.com', false);
+      expect(
+        aggregator.getResults(1, ['GET http://example.com']).endpoints[0].manuallyStopped,
+      ).toBe(false);
+    });
   });
 
   describe('Peak Instant RPS Tracking', () => {
@@ -379,19 +1163,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -399,10 +1199,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -416,19 +1224,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 5,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 5,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -436,10 +1260,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 10,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -461,19 +1293,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
-          successCount: 7, // +2
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 7, // +2,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
-          successCount: 8, // +3
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 8, // +3,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -481,10 +1329,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
-          successCount: 15, // +5
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 15, // +5,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       // Total requests = 7 + 8 + 15 = 30
@@ -516,6 +1372,7 @@ describe('MetricsAggregator', () => {
         bodySampleIndices: [],
         bytesReceived: 0,
         bytesSent: 0,
+        checkCounts: [],
         failureCount: 0,
         sampledStatusCodes: [],
         statusCodeCounts: {},
@@ -524,7 +1381,16 @@ describe('MetricsAggregator', () => {
 
       // 1. Initial poll at T=1000 (Start)
       vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
-        { ...baseCounters },
+        {
+          ...baseCounters,
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+        },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([]);
       aggregator.getResults(1, ['url1']); // This updates _previousGlobalCounts
@@ -532,7 +1398,17 @@ describe('MetricsAggregator', () => {
       // 2. Poll at T=2000 (End of ramp-up)
       vi.setSystemTime(2000);
       vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
-        { ...baseCounters, successCount: 10 },
+        {
+          ...baseCounters,
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 10,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+        },
       ]);
       const resRampEnd = aggregator.getResults(1, ['url1']);
       // @ts-expect-error - accessing private for test verification
@@ -541,7 +1417,17 @@ describe('MetricsAggregator', () => {
       // 3. Poll at T=3000 (Steady state 1s)
       vi.setSystemTime(3000);
       vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
-        { ...baseCounters, successCount: 30 },
+        {
+          ...baseCounters,
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 30,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+        },
       ]);
       // Interval RPS = (30-10)/1 = 20
       // Steady state started at T=2000.
@@ -556,7 +1442,17 @@ describe('MetricsAggregator', () => {
       // 4. Poll at T=4000 (Steady state 2s)
       vi.setSystemTime(4000);
       vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue([
-        { ...baseCounters, successCount: 40 },
+        {
+          ...baseCounters,
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount: 40,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+        },
       ]);
       // Interval RPS = (40-30)/1 = 10
       // Steady requests = 40 - 10 = 30.
@@ -569,6 +1465,56 @@ describe('MetricsAggregator', () => {
       vi.useRealTimers();
     });
 
+    it('should measure target achieved against the mean target of the stages', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+
+      aggregator.setStartTime(1000);
+      aggregator.setConfig({
+        options: {
+          stages: [
+            { durationSec: 2, interpolation: 'step', rps: 10 },
+            { durationSec: 2, interpolation: 'step', rps: 30 },
+          ],
+        },
+        requests: [{ method: 'GET', rps: 5, stages: [], url: 'url1' }],
+      } as unknown as TressiConfig);
+      aggregator.setEndpoints(['GET url1']);
+
+      const counters = (successCount: number): EndpointCounters[] => [
+        {
+          bodySampleIndices: [],
+          bytesReceived: 0,
+          bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
+          failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
+          sampledStatusCodes: [],
+          statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
+          successCount,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
+        },
+      ];
+      vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([]);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue(counters(0));
+      aggregator.getResults(1, ['GET url1']);
+
+      // 40 requests in 4s against a mean target of (10 * 2 + 30 * 2) / 4 = 20 RPS
+      vi.setSystemTime(5000);
+      vi.mocked(mockStatsCounterManagers[0].getAllEndpointCounters).mockReturnValue(counters(40));
+      const results = aggregator.getResults(1, ['GET url1']);
+
+      expect(results.global.targetAchieved).toBe(0.5);
+      expect(results.endpoints[0].targetAchieved).toBe(0.5);
+
+      vi.useRealTimers();
+    });
+
     it('should calculate endpoint instantaneous RPS correctly', () => {
       const startTime = 1000;
       const pollTime = 2000; // 1 second later
@@ -585,19 +1531,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -605,10 +1567,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -629,19 +1599,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 10,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         }, // url1
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         }, // url3
       ]);
       vi.mocked(mockStatsCounterManagers[1].getAllEndpointCounters).mockReturnValue([
@@ -649,10 +1635,18 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 5,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         }, // url2
       ]);
 
@@ -680,19 +1674,35 @@ describe('MetricsAggregator', () => {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 10,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
         {
           bodySampleIndices: [],
           bytesReceived: 0,
           bytesSent: 0,
+          checkCounts: [],
+          droppedCount: 0,
+          errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
           failureCount: 0,
+          grpcCounts: { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} },
+          lateCount: 0,
+          protocolCounts: { h2: 0, h2c: 0, http1: 0 },
           sampledStatusCodes: [],
           statusCodeCounts: {},
+          streamCounts: { disconnects: 0, eventsReceived: 0 },
           successCount: 0,
+          webSocketCounts: { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 },
         },
       ]);
 
@@ -2,34 +2,83 @@ import { cpus, loadavg } from 'node:os';
 import {
   type AggregatedWorkerData,
   EMPTY_HISTOGRAM,
+  type EndpointGrpcCounts,
+  type EndpointStreamCounts,
+  type EndpointWebSocketCounts,
   type IHdrHistogramManager,
   type IMetricsAggregator,
   type IStatsCounterManager,
+  type IWorkerStateManager,
   type ResponseSample,
+  type WorkerErrorEntry,
 } from '@tressi/shared/cli';
 import {
+  type AuthTokenSummary,
+  type EndpointCheckSummary,
+  type EndpointErrorCounts,
+  type EndpointErrorEntry,
+  type EndpointGrpcSummary,
+  type EndpointProtocolCounts,
+  type EndpointStreamSummary,
   type EndpointSummary,
+  type EndpointWebSocketSummary,
   type GlobalSummary,
+  getAverageTargetRps,
+  getConfigEndpoints,
+  getEffectiveStages,
+  getEndpointKey,
+  getScenarioNameMap,
+  getSteadyStateStartSec,
+  grpcMethod,
+  httpProtocolDefaults,
+  isStreamMethod,
   type LatencyHistogram,
+  type NegotiatedTls,
+  type RequestTimingPhase,
+  type ResponseSampleCookies,
+  requestErrorCategoryDefaults,
+  requestTimingPhaseDefaults,
   ServerEvents,
   type TestSummary,
+  type TimelineEvent,
+  type TimingPhasesSummary,
   type TressiConfig,
+  type TressiRequestConfig,
+  type TressiStageConfig,
+  webSocketMethod,
 } from '@tressi/shared/common';
 
 import pkg from '../../../../../package.json';
 import { metricStorage } from '../../collections/metrics-collection';
 import { globalEventEmitter } from '../../events/global-event-emitter';
+import { getCheckLabel } from '../../http/response-validator';
 import { transformAggregatedMetricsToTestSummary } from '../../reporting/utils/transformations';
+import { ErrorLogStore } from './error-log-store';
 import { ResponseSampleStore } from './response-sample-store';
 import * as StatsCalculator from './stats-calculator';
 import { convertWorkerHistogramToTestSummaryHistogram } from './utils/histogram-utils';
 
+/**
+ * Event loop delay from which a worker is too busy to send requests on schedule.
+ * Requests that miss their schedule while a worker lags this much are blamed on the generator.
+ */
+const GENERATOR_SATURATION_LAG_MS = 50;
+
 export class MetricsAggregator implements IMetricsAggregator {
   private _pollingInterval: NodeJS.Timeout | null = null;
   private _startTime: number = 0;
   private _endTime: number = 0;
   private _endpoints: string[] = [];
   private _config: TressiConfig | null = null;
+  private _endpointConfigs: TressiRequestConfig[] = [];
+  private _scenarioNames: Record<string, string> = {};
+  private _workerEndpointIndices: number[][] | null = null;
+  private _workerStateManager: IWorkerStateManager | null = null;
+  private _correctedHdrHistogramManagers: IHdrHistogramManager[] | null = null;
+  private _phaseHdrHistogramManagers: Record<RequestTimingPhase, IHdrHistogramManager[]> | null =
+    null;
+  private _roundTripHdrHistogramManagers: IHdrHistogramManager[] | null = null;
+  private _eventGapHdrHistogramManagers: IHdrHistogramManager[] | null = null;
   private _testId?: string; // Optional for server persistence
   private _previousEndpointCounts: Record<
     string,
@@ -45,7 +94,10 @@ export class MetricsAggregator implements IMetricsAggregator {
     timestamp: 0,
   };
   private readonly _snapshots: TestSummary[] = [];
+  private readonly _timeline: TimelineEvent[] = [];
+  private readonly _manuallyStoppedEndpoints = new Set<string>();
   private readonly _responseSampleStore = new ResponseSampleStore();
+  private readonly _errorLogStore = new ErrorLogStore();
 
   public get endTime(): number {
     return this._endTime;
@@ -87,14 +139,73 @@ export class MetricsAggregator implements IMetricsAggregator {
 
   setConfig(config: TressiConfig): void {
     this._config = config;
+    this._endpointConfigs = getConfigEndpoints(config);
+    this._scenarioNames = getScenarioNameMap(config);
+  }
+
+  /**
+   * Sets the global endpoint indices owned by each worker.
+   * When not set, the round-robin layout (index % workers) is assumed.
+   */
+  setWorkerEndpointIndices(workerEndpointIndices: number[][]): void {
+    this._workerEndpointIndices = workerEndpointIndices;
+  }
+
+  /**
+   * Sets the manager holding the live metrics of each worker, such as active virtual users.
+   * When not set, no virtual users are reported.
+   */
+  setWorkerStateManager(workerStateManager: IWorkerStateManager): void {
+    this._workerStateManager = workerStateManager;
+  }
+
+  /**
+   * Sets the histograms of each worker holding latencies measured from the scheduled start.
+   * When not set, corrected latencies are the measured ones.
+   */
+  setCorrectedHdrHistogramManagers(correctedHdrHistogramManagers: IHdrHistogramManager[]): void {
+    this._correctedHdrHistogramManagers = correctedHdrHistogramManagers;
+  }
+
+  /**
+   * Sets the histograms of each worker holding the duration of each request phase.
+   * When not set, no timing phases are reported.
+   */
+  setPhaseHdrHistogramManagers(
+    phaseHdrHistogramManagers: Record<RequestTimingPhase, IHdrHistogramManager[]>,
+  ): void {
+    this._phaseHdrHistogramManagers = phaseHdrHistogramManagers;
+  }
+
+  /**
+   * Sets the histograms of each worker holding the message round trips of WebSocket connections.
+   * When not set, no round trips are reported.
+   */
+  setRoundTripHdrHistogramManagers(roundTripHdrHistogramManagers: IHdrHistogramManager[]): void {
+    this._roundTripHdrHistogramManagers = roundTripHdrHistogramManagers;
+  }
+
+  /**
+   * Sets the histograms of each worker holding the gaps between the events of streaming
+   * subscriptions. When not set, no event gaps are reported.
+   */
+  setEventGapHdrHistogramManagers(eventGapHdrHistogramManagers: IHdrHistogramManager[]): void {
+    this._eventGapHdrHistogramManagers = eventGapHdrHistogramManagers;
+  }
+
+  /**
+   * Whether requests have an RPS target, which is not the case for virtual users
+   */
+  private _hasRpsTarget(): boolean {
+    return this._config?.options?.executor?.type !== 'virtualUsers';
   }
 
   setEndpoints(endpoints: string[]): void {
     this._endpoints = endpoints;
     const startTime = this._startTime || Date.now();
     this._previousEndpointCounts = {};
-    endpoints.forEach((url) => {
-      this._previousEndpointCounts[url] = {
+    endpoints.forEach((key) => {
+      this._previousEndpointCounts[key] = {
         failure: 0,
         success: 0,
         timestamp: startTime,
@@ -147,8 +258,8 @@ export class MetricsAggregator implements IMetricsAggregator {
   }
 
   private _updateHistoricalState(aggregatedData: AggregatedWorkerData, currentTime: number): void {
-    Object.entries(aggregatedData.currentEndpointCounts).forEach(([url, counts]) => {
-      this._previousEndpointCounts[url] = {
+    Object.entries(aggregatedData.currentEndpointCounts).forEach(([key, counts]) => {
+      this._previousEndpointCounts[key] = {
         failure: counts.failure,
         success: counts.success,
         timestamp: currentTime,
@@ -177,16 +288,36 @@ export class MetricsAggregator implements IMetricsAggregator {
     return 0;
   }
 
-  private _calculateMaxEndpointRampUpSec(): number {
+  private _getEndpointStages(requestConfig: TressiRequestConfig): TressiStageConfig[] {
+    return getEffectiveStages(requestConfig, this._config?.options);
+  }
+
+  /**
+   * Seconds after the start when every endpoint has finished its initial ramp
+   */
+  private _calculateGlobalSteadyStateStartSec(): number {
     const globalRampUpSec = this._config?.options?.rampUpDurationSec ?? 0;
-    return (
-      this._config?.requests?.reduce((max, req) => {
-        const effective =
-          req.rampUpDurationSec !== undefined && req.rampUpDurationSec > 0
-            ? req.rampUpDurationSec
-            : globalRampUpSec;
-        return Math.max(max, effective);
-      }, globalRampUpSec) ?? globalRampUpSec
+    return this._endpointConfigs.reduce(
+      (max, req) => Math.max(max, getSteadyStateStartSec(this._getEndpointStages(req))),
+      globalRampUpSec,
+    );
+  }
+
+  /**
+   * Mean target RPS of an endpoint over its steady state so far, which is what its average RPS
+   * is measured over. Streaming endpoints hold subscriptions instead, so they have no target.
+   */
+  private _calculateEndpointTargetRps(
+    requestConfig: TressiRequestConfig,
+    steadyStateStartSec: number,
+    currentTime: number,
+  ): number {
+    if (isStreamMethod(requestConfig.method)) return 0;
+    const elapsedSec = this._startTime > 0 ? (currentTime - this._startTime) / 1000 : 0;
+    return getAverageTargetRps(
+      this._getEndpointStages(requestConfig),
+      steadyStateStartSec,
+      elapsedSec,
     );
   }
 
@@ -195,8 +326,8 @@ export class MetricsAggregator implements IMetricsAggregator {
     currentTime: number,
     currentGlobalRps: number,
   ): number {
-    const maxEndpointRampUpSec = this._calculateMaxEndpointRampUpSec();
-    const steadyStateStartTime = this._startTime + maxEndpointRampUpSec * 1000;
+    const steadyStateStartTime =
+      this._startTime + this._calculateGlobalSteadyStateStartSec() * 1000;
 
     if (currentTime <= steadyStateStartTime) {
       return currentGlobalRps;
@@ -215,12 +346,12 @@ export class MetricsAggregator implements IMetricsAggregator {
   }
 
   private _calculateEndpointRps(
-    url: string,
+    key: string,
     aggregatedData: AggregatedWorkerData,
     currentTime: number,
   ): number {
-    const previousCounts = this._previousEndpointCounts[url];
-    const currentCounts = aggregatedData.currentEndpointCounts[url] || { failure: 0, success: 0 };
+    const previousCounts = this._previousEndpointCounts[key];
+    const currentCounts = aggregatedData.currentEndpointCounts[key] || { failure: 0, success: 0 };
 
     if (
       !previousCounts ||
@@ -240,17 +371,16 @@ export class MetricsAggregator implements IMetricsAggregator {
   }
 
   private _calculateEndpointSteadyStateRps(
-    url: string,
+    key: string,
     aggregatedData: AggregatedWorkerData,
     currentTime: number,
     currentRps: number,
   ): number {
-    const globalRampUpSec = this._config?.options?.rampUpDurationSec ?? 0;
-    const requestConfig = this._config?.requests.find((req) => req.url === url);
-    const endpointRampUp = requestConfig?.rampUpDurationSec;
-    const effectiveEndpointRampUp =
-      endpointRampUp !== undefined && endpointRampUp > 0 ? endpointRampUp : globalRampUpSec;
-    const endpointSteadyStateTime = this._startTime + effectiveEndpointRampUp * 1000;
+    const requestConfig = this._getEndpointConfig(key);
+    const steadyStateStartSec = requestConfig
+      ? getSteadyStateStartSec(this._getEndpointStages(requestConfig))
+      : 0;
+    const endpointSteadyStateTime = this._startTime + steadyStateStartSec * 1000;
 
     if (currentTime <= endpointSteadyStateTime) {
       return currentRps;
@@ -263,13 +393,13 @@ export class MetricsAggregator implements IMetricsAggregator {
       return currentRps;
     }
 
-    const firstSteadyEndpoint = firstSteadySnapshot.endpoints.find((e) => e.url === url);
+    const firstSteadyEndpoint = firstSteadySnapshot.endpoints.find((e) => e.key === key);
     if (!firstSteadyEndpoint) {
       return currentRps;
     }
 
     const endpointTotalRequests =
-      aggregatedData.endpointHistograms[url]?.reduce((sum, h) => sum + h.totalCount, 0) ?? 0;
+      aggregatedData.endpointHistograms[key]?.reduce((sum, h) => sum + h.totalCount, 0) ?? 0;
     const steadyRequests = endpointTotalRequests - firstSteadyEndpoint.totalRequests;
     const steadyDuration = (currentTime - firstSteadySnapshot.global.epochEndedAt) / 1000;
     return steadyDuration > 0 ? steadyRequests / steadyDuration : currentRps;
@@ -284,6 +414,9 @@ export class MetricsAggregator implements IMetricsAggregator {
     const globalStats = StatsCalculator.calculateGlobalLatencyStats(
       aggregatedData.endpointHistograms,
     );
+    const correctedGlobalStats = StatsCalculator.calculateGlobalLatencyStats(
+      aggregatedData.endpointCorrectedHistograms,
+    );
 
     const currentGlobalRps = this._calculateGlobalRps(aggregatedData, currentTime);
     const averageRequestsPerSecond = this._calculateGlobalSteadyStateRps(
@@ -301,22 +434,39 @@ export class MetricsAggregator implements IMetricsAggregator {
         : 0;
 
     let globalTargetAchieved = 0;
-    if (this._config && this._config.requests.length > 0) {
-      const totalTargetRps = this._config.requests.reduce((sum, req) => sum + req.rps, 0);
+    if (this._config && this._hasRpsTarget() && this._endpointConfigs.length > 0) {
+      const steadyStateStartSec = this._calculateGlobalSteadyStateStartSec();
+      const totalTargetRps = this._endpointConfigs.reduce(
+        (sum, req) => sum + this._calculateEndpointTargetRps(req, steadyStateStartSec, currentTime),
+        0,
+      );
       if (totalTargetRps > 0) {
         globalTargetAchieved = averageRequestsPerSecond / totalTargetRps;
       }
     }
 
+    // Requests missed their schedule in this interval while a worker was too busy to send them
+    const eventLoopLagMs = Math.max(...aggregatedData.workerEventLoopLagMs, 0);
+    const previousGlobal = this._snapshots.at(-1)?.global;
+    const missedSchedule =
+      aggregatedData.totalDropped + aggregatedData.totalLate >
+      (previousGlobal?.droppedRequests ?? 0) + (previousGlobal?.lateRequests ?? 0);
+
     const allGlobalHistograms: LatencyHistogram[] = [];
     Object.values(aggregatedData.endpointHistograms).forEach(
       (h) => void allGlobalHistograms.push(...h),
     );
 
     return {
+      activeVus: this._workerStateManager?.getTotalActiveVus() ?? 0,
+      authTokens: this._calculateAuthTokens(),
       averageRequestsPerSecond,
       avgProcessMemoryUsageMB: memoryUsageMB,
       avgSystemCpuUsagePercent: cpuUsagePercent,
+      correctedP50LatencyMs: correctedGlobalStats.p50Latency,
+      correctedP95LatencyMs: correctedGlobalStats.p95Latency,
+      correctedP99LatencyMs: correctedGlobalStats.p99Latency,
+      droppedRequests: aggregatedData.totalDropped,
       earlyExitTriggered: false,
       epochEndedAt: currentTime,
       epochStartedAt: this._startTime,
@@ -324,10 +474,15 @@ export class MetricsAggregator implements IMetricsAggregator {
         aggregatedData.totalRequests > 0
           ? aggregatedData.totalFailure / aggregatedData.totalRequests
           : 0,
+      eventLoopLagMs,
       failedRequests: aggregatedData.totalFailure,
       finalDurationSec: duration / 1000,
+      generatorSaturated: missedSchedule && eventLoopLagMs >= GENERATOR_SATURATION_LAG_MS,
+      heapUsedMB: aggregatedData.workerHeapUsedMB.reduce((sum, heap) => sum + heap, 0),
       histogram:
         convertWorkerHistogramToTestSummaryHistogram(allGlobalHistograms) || EMPTY_HISTOGRAM,
+      inFlightRequests: aggregatedData.workerInFlight.reduce((sum, count) => sum + count, 0),
+      lateRequests: aggregatedData.totalLate,
       maxLatencyMs: globalStats.maxLatency,
       minLatencyMs: globalStats.minLatency,
       networkBytesPerSec: globalBytesPerSec,
@@ -339,86 +494,319 @@ export class MetricsAggregator implements IMetricsAggregator {
       peakRequestsPerSecond: currentGlobalRps,
       successfulRequests: aggregatedData.totalSuccess,
       targetAchieved: globalTargetAchieved,
+      timingPhases: this._calculateTimingPhases(
+        Object.values(aggregatedData.endpointPhaseHistograms),
+      ),
       totalEndpoints: endpoints.length,
       totalRequests: aggregatedData.totalRequests,
+      workerEventLoopLagMs: aggregatedData.workerEventLoopLagMs,
+      workerHeapUsedMB: aggregatedData.workerHeapUsedMB,
+      workerInFlightRequests: aggregatedData.workerInFlight,
     };
   }
 
   private _calculateEndpointSummary(
-    url: string,
+    key: string,
     aggregatedData: AggregatedWorkerData,
     currentTime: number,
   ): EndpointSummary {
-    const histograms = aggregatedData.endpointHistograms[url] || [];
-    const statusCounts = aggregatedData.endpointStatusCounts[url] || {};
+    const histograms = aggregatedData.endpointHistograms[key] || [];
+    const statusCounts = aggregatedData.endpointStatusCounts[key] || {};
 
     const endpointStats = StatsCalculator.calculateEndpointLatencyStats(histograms);
+    const correctedEndpointStats = StatsCalculator.calculateEndpointLatencyStats(
+      aggregatedData.endpointCorrectedHistograms[key] || [],
+    );
     const endpointTotalRequests = endpointStats.totalCount;
+    const scheduleCounts = aggregatedData.endpointScheduleCounts[key];
 
-    const currentCounts = aggregatedData.currentEndpointCounts[url] || {
+    const currentCounts = aggregatedData.currentEndpointCounts[key] || {
       failure: 0,
       success: 0,
     };
 
-    const currentRps = this._calculateEndpointRps(url, aggregatedData, currentTime);
+    const currentRps = this._calculateEndpointRps(key, aggregatedData, currentTime);
     const averageRequestsPerSecond = this._calculateEndpointSteadyStateRps(
-      url,
+      key,
       aggregatedData,
       currentTime,
       currentRps,
     );
 
-    const requestConfig = this._config?.requests.find((req) => req.url === url);
+    const requestConfig = this._getEndpointConfig(key);
     let targetAchieved = 0;
-    if (this._config && requestConfig && requestConfig.rps > 0) {
-      targetAchieved = averageRequestsPerSecond / requestConfig.rps;
+    if (this._config && this._hasRpsTarget() && requestConfig) {
+      const targetRps = this._calculateEndpointTargetRps(
+        requestConfig,
+        getSteadyStateStartSec(this._getEndpointStages(requestConfig)),
+        currentTime,
+      );
+      if (targetRps > 0) {
+        targetAchieved = averageRequestsPerSecond / targetRps;
+      }
     }
 
     const theoreticalMaxRps = endpointStats.p50Latency > 0 ? 1000 / endpointStats.p50Latency : 0;
 
     return {
       averageRequestsPerSecond,
+      checks: this._calculateCheckSummaries(key, requestConfig, aggregatedData),
+      correctedP50LatencyMs: correctedEndpointStats.p50Latency,
+      correctedP95LatencyMs: correctedEndpointStats.p95Latency,
+      correctedP99LatencyMs: correctedEndpointStats.p99Latency,
+      droppedRequests: scheduleCounts?.dropped ?? 0,
       earlyExitTriggered: false,
+      errorCounts: aggregatedData.endpointErrorCounts[key] ?? this._createErrorCounts(),
       errorRate: endpointTotalRequests > 0 ? currentCounts.failure / endpointTotalRequests : 0,
+      errors: this._errorLogStore.getCollectedErrors(this._runId).get(key) ?? [],
       failedRequests: currentCounts.failure,
+      grpc:
+        requestConfig?.method === grpcMethod
+          ? this._calculateGrpcSummary(key, aggregatedData)
+          : undefined,
       histogram: convertWorkerHistogramToTestSummaryHistogram(histograms) || EMPTY_HISTOGRAM,
+      key,
+      lateRequests: scheduleCounts?.late ?? 0,
+      manuallyStopped: this._manuallyStoppedEndpoints.has(key),
       maxLatencyMs: endpointStats.maxLatency,
-      method: this._endpointMethodMap[url] || 'GET',
+      method: requestConfig?.method ?? (this._endpointMethodMap[key] || 'GET'),
       minLatencyMs: endpointStats.minLatency,
       p50LatencyMs: endpointStats.p50Latency,
       p95LatencyMs: endpointStats.p95Latency,
       p99LatencyMs: endpointStats.p99Latency,
       peakRequestsPerSecond: currentRps,
+      protocolCounts: aggregatedData.endpointProtocolCounts[key] ?? this._createProtocolCounts(),
       responseSamples:
-        this._responseSampleStore.getCollectedResponseSamples(this._runId).get(url) || [],
+        this._responseSampleStore.getCollectedResponseSamples(this._runId).get(key) || [],
+      scenario: this._scenarioNames[key],
       statusCodeDistribution: statusCounts,
+      stream: isStreamMethod(requestConfig?.method)
+        ? this._calculateStreamSummary(key, aggregatedData, currentTime)
+        : undefined,
       successfulRequests: currentCounts.success,
       targetAchieved,
       theoreticalMaxRps,
+      timingPhases: this._calculateTimingPhases([aggregatedData.endpointPhaseHistograms[key]]),
       totalRequests: endpointTotalRequests,
-      url,
+      url: requestConfig?.url ?? key,
+      webSocket:
+        requestConfig?.method === webSocketMethod
+          ? this._calculateWebSocketSummary(key, aggregatedData)
+          : undefined,
+    };
+  }
+
+  /**
+   * Summarizes the status codes and messages of the calls of a gRPC endpoint
+   */
+  private _calculateGrpcSummary(
+    key: string,
+    aggregatedData: AggregatedWorkerData,
+  ): EndpointGrpcSummary {
+    const counts = aggregatedData.endpointGrpcCounts[key] ?? this._createGrpcCounts();
+
+    return {
+      messagesReceived: counts.messagesReceived,
+      messagesSent: counts.messagesSent,
+      statusCodeDistribution: counts.statusCodeCounts,
+    };
+  }
+
+  /**
+   * Summarizes the messages, abnormal closes and round trips of a WebSocket endpoint
+   */
+  private _calculateWebSocketSummary(
+    key: string,
+    aggregatedData: AggregatedWorkerData,
+  ): EndpointWebSocketSummary {
+    const counts = aggregatedData.endpointWebSocketCounts[key] ?? this._createWebSocketCounts();
+    const roundTripStats = StatsCalculator.calculateEndpointLatencyStats(
+      aggregatedData.endpointRoundTripHistograms[key] ?? [],
+    );
+
+    return {
+      ...counts,
+      roundTrip:
+        roundTripStats.totalCount > 0
+          ? {
+              meanMs: roundTripStats.averageLatency,
+              p50Ms: roundTripStats.p50Latency,
+              p95Ms: roundTripStats.p95Latency,
+              p99Ms: roundTripStats.p99Latency,
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * Summarizes the events, disconnects and event gaps of the subscriptions of a streaming endpoint
+   */
+  private _calculateStreamSummary(
+    key: string,
+    aggregatedData: AggregatedWorkerData,
+    currentTime: number,
+  ): EndpointStreamSummary {
+    const counts = aggregatedData.endpointStreamCounts[key] ?? this._createStreamCounts();
+    const eventGapStats = StatsCalculator.calculateEndpointLatencyStats(
+      aggregatedData.endpointEventGapHistograms[key] ?? [],
+    );
+    const elapsedSec = this._startTime > 0 ? (currentTime - this._startTime) / 1000 : 0;
+
+    return {
+      disconnects: counts.disconnects,
+      eventGap:
+        eventGapStats.totalCount > 0
+          ? {
+              meanMs: eventGapStats.averageLatency,
+              p50Ms: eventGapStats.p50Latency,
+              p95Ms: eventGapStats.p95Latency,
+              p99Ms: eventGapStats.p99Latency,
+            }
+          : undefined,
+      eventsPerSecond: elapsedSec > 0 ? counts.eventsReceived / elapsedSec : 0,
+      eventsReceived: counts.eventsReceived,
+    };
+  }
+
+  /**
+   * Calculates the duration statistics of each request phase from the phase histograms of one or
+   * more endpoints, or undefined when no response was timed
+   */
+  private _calculateTimingPhases(
+    phaseHistograms: (Record<RequestTimingPhase, LatencyHistogram[]> | undefined)[],
+  ): TimingPhasesSummary | undefined {
+    const phaseStats = requestTimingPhaseDefaults.map((phase) =>
+      StatsCalculator.calculateEndpointLatencyStats(
+        phaseHistograms.flatMap((histograms) => histograms?.[phase] ?? []),
+      ),
+    );
+    if (phaseStats.every((stats) => stats.totalCount === 0)) return undefined;
+
+    return Object.fromEntries(
+      requestTimingPhaseDefaults.map((phase, index) => [
+        phase,
+        {
+          meanMs: phaseStats[index].averageLatency,
+          p50Ms: phaseStats[index].p50Latency,
+          p95Ms: phaseStats[index].p95Latency,
+          p99Ms: phaseStats[index].p99Latency,
+        },
+      ]),
+    ) as TimingPhasesSummary;
+  }
+
+  /**
+   * Summarizes the auth token requests of all workers, or undefined when none was sent
+   */
+  private _calculateAuthTokens(): AuthTokenSummary | undefined {
+    const totals = this._workerStateManager?.getTokenRequestTotals();
+    if (!totals || totals.requests === 0) return undefined;
+
+    return {
+      failures: totals.failures,
+      meanLatencyMs: totals.latencyMs / totals.requests,
+      requests: totals.requests,
     };
   }
 
+  private _calculateCheckSummaries(
+    key: string,
+    requestConfig: TressiRequestConfig | undefined,
+    aggregatedData: AggregatedWorkerData,
+  ): EndpointCheckSummary[] | undefined {
+    const checks = requestConfig?.checks ?? [];
+    if (checks.length === 0) return undefined;
+
+    const counts = aggregatedData.endpointCheckCounts[key] || [];
+    return checks.map((check, index) => {
+      const passed = counts[index]?.passed ?? 0;
+      const failed = counts[index]?.failed ?? 0;
+      return {
+        exitOnFailure: check.exitOnFailure,
+        failed,
+        label: getCheckLabel(check),
+        passed,
+        passRate: passed + failed > 0 ? passed / (passed + failed) : 0,
+      };
+    });
+  }
+
+  private _createErrorCounts(): EndpointErrorCounts {
+    return Object.fromEntries(
+      requestErrorCategoryDefaults.map((category) => [category, 0]),
+    ) as EndpointErrorCounts;
+  }
+
+  private _createProtocolCounts(): EndpointProtocolCounts {
+    return Object.fromEntries(
+      httpProtocolDefaults.map((protocol) => [protocol, 0]),
+    ) as EndpointProtocolCounts;
+  }
+
+  private _createWebSocketCounts(): EndpointWebSocketCounts {
+    return { abnormalCloses: 0, messagesReceived: 0, messagesSent: 0 };
+  }
+
+  private _createGrpcCounts(): EndpointGrpcCounts {
+    return { messagesReceived: 0, messagesSent: 0, statusCodeCounts: {} };
+  }
+
+  private _createStreamCounts(): EndpointStreamCounts {
+    return { disconnects: 0, eventsReceived: 0 };
+  }
+
   private _aggregateWorkerData(workersCount: number, endpoints: string[]): AggregatedWorkerData {
     const data: AggregatedWorkerData = {
       currentEndpointCounts: {},
+      endpointCheckCounts: {},
+      endpointCorrectedHistograms: {},
+      endpointErrorCounts: {},
+      endpointEventGapHistograms: {},
+      endpointGrpcCounts: {},
       endpointHistograms: {},
+      endpointPhaseHistograms: {},
+      endpointProtocolCounts: {},
+      endpointRoundTripHistograms: {},
+      endpointScheduleCounts: {},
       endpointStatusCounts: {},
+      endpointStreamCounts: {},
+      endpointWebSocketCounts: {},
       totalBytesReceived: 0,
       totalBytesSent: 0,
+      totalDropped: 0,
       totalFailure: 0,
+      totalLate: 0,
       totalRequests: 0,
       totalSuccess: 0,
+      workerEventLoopLagMs: [],
+      workerHeapUsedMB: [],
+      workerInFlight: [],
     };
 
-    endpoints.forEach((url) => {
-      data.endpointHistograms[url] = [];
-      data.endpointStatusCounts[url] = {};
-      data.currentEndpointCounts[url] = { failure: 0, success: 0 };
+    endpoints.forEach((key) => {
+      data.endpointHistograms[key] = [];
+      data.endpointCorrectedHistograms[key] = [];
+      data.endpointPhaseHistograms[key] = Object.fromEntries(
+        requestTimingPhaseDefaults.map((phase) => [phase, [] as LatencyHistogram[]]),
+      ) as Record<RequestTimingPhase, LatencyHistogram[]>;
+      data.endpointScheduleCounts[key] = { dropped: 0, late: 0 };
+      data.endpointStatusCounts[key] = {};
+      data.currentEndpointCounts[key] = { failure: 0, success: 0 };
+      data.endpointCheckCounts[key] = [];
+      data.endpointErrorCounts[key] = this._createErrorCounts();
+      data.endpointProtocolCounts[key] = this._createProtocolCounts();
+      data.endpointRoundTripHistograms[key] = [];
+      data.endpointWebSocketCounts[key] = this._createWebSocketCounts();
+      data.endpointGrpcCounts[key] = this._createGrpcCounts();
+      data.endpointEventGapHistograms[key] = [];
+      data.endpointStreamCounts[key] = this._createStreamCounts();
     });
 
     for (let workerId = 0; workerId < workersCount; workerId++) {
+      data.workerInFlight.push(this._workerStateManager?.getInFlight(workerId) ?? 0);
+      data.workerEventLoopLagMs.push(this._workerStateManager?.getEventLoopLag(workerId) ?? 0);
+      data.workerHeapUsedMB.push(this._workerStateManager?.getHeapUsed(workerId) ?? 0);
+
       const statsManager = this._statsCounterManagers[workerId];
       const histogramManager = this._hdrHistogramManagers[workerId];
 
@@ -426,32 +814,105 @@ export class MetricsAggregator implements IMetricsAggregator {
 
       const allCounters = statsManager.getAllEndpointCounters();
       const allHistograms = histogramManager.getAllEndpointHistograms();
+      // Without corrected histograms the measured latencies stand in for the corrected ones
+      const allCorrectedHistograms =
+        this._correctedHdrHistogramManagers?.[workerId]?.getAllEndpointHistograms() ??
+        allHistograms;
+      const allPhaseHistograms = requestTimingPhaseDefaults.map(
+        (phase) =>
+          this._phaseHdrHistogramManagers?.[phase][workerId]?.getAllEndpointHistograms() ?? [],
+      );
+      const allRoundTripHistograms =
+        this._roundTripHdrHistogramManagers?.[workerId]?.getAllEndpointHistograms() ?? [];
+      const allEventGapHistograms =
+        this._eventGapHdrHistogramManagers?.[workerId]?.getAllEndpointHistograms() ?? [];
 
       allCounters.forEach((counters, localEndpointIndex: number) => {
         const globalEndpointIndex = this._getGlobalEndpointIndex(workerId, localEndpointIndex);
         if (globalEndpointIndex >= endpoints.length) return;
 
-        const endpointUrl = endpoints[globalEndpointIndex];
+        const endpointKey = endpoints[globalEndpointIndex];
 
         data.totalSuccess += counters.successCount;
         data.totalFailure += counters.failureCount;
         data.totalRequests += counters.successCount + counters.failureCount;
 
-        data.currentEndpointCounts[endpointUrl].success += counters.successCount;
-        data.currentEndpointCounts[endpointUrl].failure += counters.failureCount;
+        data.currentEndpointCounts[endpointKey].success += counters.successCount;
+        data.currentEndpointCounts[endpointKey].failure += counters.failureCount;
 
         data.totalBytesSent += counters.bytesSent;
         data.totalBytesReceived += counters.bytesReceived;
 
+        data.totalDropped += counters.droppedCount;
+        data.totalLate += counters.lateCount;
+        data.endpointScheduleCounts[endpointKey].dropped += counters.droppedCount;
+        data.endpointScheduleCounts[endpointKey].late += counters.lateCount;
+
         Object.entries(counters.statusCodeCounts).forEach(([statusCode, count]) => {
           const code = Number.parseInt(statusCode, 10);
-          data.endpointStatusCounts[endpointUrl][code] =
-            (data.endpointStatusCounts[endpointUrl][code] || 0) + count;
+          data.endpointStatusCounts[endpointKey][code] =
+            (data.endpointStatusCounts[endpointKey][code] || 0) + count;
+        });
+
+        counters.checkCounts.forEach(({ passed, failed }, checkIndex) => {
+          const checkCounts = data.endpointCheckCounts[endpointKey];
+          checkCounts[checkIndex] ??= { failed: 0, passed: 0 };
+          checkCounts[checkIndex].passed += passed;
+          checkCounts[checkIndex].failed += failed;
         });
 
+        const errorCounts = data.endpointErrorCounts[endpointKey];
+        for (const category of requestErrorCategoryDefaults) {
+          errorCounts[category] += counters.errorCounts[category];
+        }
+
+        const protocolCounts = data.endpointProtocolCounts[endpointKey];
+        for (const protocol of httpProtocolDefaults) {
+          protocolCounts[protocol] += counters.protocolCounts[protocol];
+        }
+
+        const webSocketCounts = data.endpointWebSocketCounts[endpointKey];
+        webSocketCounts.messagesSent += counters.webSocketCounts.messagesSent;
+        webSocketCounts.messagesReceived += counters.webSocketCounts.messagesReceived;
+        webSocketCounts.abnormalCloses += counters.webSocketCounts.abnormalCloses;
+
+        const grpcCounts = data.endpointGrpcCounts[endpointKey];
+        grpcCounts.messagesSent += counters.grpcCounts.messagesSent;
+        grpcCounts.messagesReceived += counters.grpcCounts.messagesReceived;
+        Object.entries(counters.grpcCounts.statusCodeCounts).forEach(([statusCode, count]) => {
+          const code = Number.parseInt(statusCode, 10);
+          grpcCounts.statusCodeCounts[code] = (grpcCounts.statusCodeCounts[code] || 0) + count;
+        });
+
+        const streamCounts = data.endpointStreamCounts[endpointKey];
+        streamCounts.eventsReceived += counters.streamCounts.eventsReceived;
+        streamCounts.disconnects += counters.streamCounts.disconnects;
+
         const histogramData = allHistograms[localEndpointIndex];
         if (histogramData && histogramData.totalCount > 0) {
-          data.endpointHistograms[endpointUrl].push(histogramData);
+          data.endpointHistograms[endpointKey].push(histogramData);
+        }
+
+        const correctedHistogramData = allCorrectedHistograms[localEndpointIndex];
+        if (correctedHistogramData && correctedHistogramData.totalCount > 0) {
+          data.endpointCorrectedHistograms[endpointKey].push(correctedHistogramData);
+        }
+
+        requestTimingPhaseDefaults.forEach((phase, index) => {
+          const phaseHistogramData = allPhaseHistograms[index][localEndpointIndex];
+          if (phaseHistogramData && phaseHistogramData.totalCount > 0) {
+            data.endpointPhaseHistograms[endpointKey][phase].push(phaseHistogramData);
+          }
+        });
+
+        const roundTripHistogramData = allRoundTripHistograms[localEndpointIndex];
+        if (roundTripHistogramData && roundTripHistogramData.totalCount > 0) {
+          data.endpointRoundTripHistograms[endpointKey].push(roundTripHistogramData);
+        }
+
+        const eventGapHistogramData = allEventGapHistograms[localEndpointIndex];
+        if (eventGapHistogramData && eventGapHistogramData.totalCount > 0) {
+          data.endpointEventGapHistograms[endpointKey].push(eventGapHistogramData);
         }
       });
     }
@@ -463,8 +924,8 @@ export class MetricsAggregator implements IMetricsAggregator {
     const aggregatedData = this._aggregateWorkerData(workersCount, endpoints);
     const currentTime = Date.now();
 
-    const endpointSummaries = endpoints.map((url) =>
-      this._calculateEndpointSummary(url, aggregatedData, currentTime),
+    const endpointSummaries = endpoints.map((key) =>
+      this._calculateEndpointSummary(key, aggregatedData, currentTime),
     );
 
     const globalSummary = this._calculateGlobalSummary(aggregatedData, currentTime, endpoints);
@@ -475,6 +936,7 @@ export class MetricsAggregator implements IMetricsAggregator {
       configSnapshot: this._config!,
       endpoints: endpointSummaries,
       global: globalSummary,
+      timeline: [...this._timeline],
       tressiVersion: pkg.version || 'unknown',
     };
   }
@@ -483,7 +945,33 @@ export class MetricsAggregator implements IMetricsAggregator {
     if (this._snapshots.length === 0) {
       this._snapshots.push(this.getResults(this._hdrHistogramManagers.length, this._endpoints));
     }
-    return transformAggregatedMetricsToTestSummary(this._snapshots);
+    const summary = transformAggregatedMetricsToTestSummary(this._snapshots);
+
+    // Workers flush their error logs on completion, possibly after the last snapshot was taken
+    const errors = this._errorLogStore.getCollectedErrors(this._runId);
+    for (const endpoint of summary.endpoints) {
+      endpoint.errors = errors.get(endpoint.key) ?? [];
+    }
+    summary.timeline = [...this._timeline];
+    return summary;
+  }
+
+  /**
+   * Records a change made to the load of the running test, included in every following snapshot
+   */
+  recordTimelineEvent(event: TimelineEvent): void {
+    this._timeline.push(event);
+  }
+
+  /**
+   * Marks an endpoint as stopped by hand, or clears the mark once it is started again
+   */
+  setEndpointManuallyStopped(endpointKey: string, stopped: boolean): void {
+    if (stopped) {
+      this._manuallyStoppedEndpoints.add(endpointKey);
+    } else {
+      this._manuallyStoppedEndpoints.delete(endpointKey);
+    }
   }
 
   getCollectedResponseSamples(runId: string): Map<string, ResponseSample[]> {
@@ -492,19 +980,50 @@ export class MetricsAggregator implements IMetricsAggregator {
 
   recordResponseSample(
     runId: string,
-    url: string,
+    endpointKey: string,
     statusCode: number,
     headers: Record<string, string>,
     body: string,
+    cookies?: ResponseSampleCookies,
+    tls?: NegotiatedTls,
+    graphqlErrors?: string[],
   ): void {
-    this._responseSampleStore.recordResponseSample(runId, url, statusCode, headers, body);
+    this._responseSampleStore.recordResponseSample(
+      runId,
+      endpointKey,
+      statusCode,
+      headers,
+      body,
+      cookies,
+      tls,
+      graphqlErrors,
+    );
   }
 
   cleanupResponseSamples(runId: string): void {
     this._responseSampleStore.cleanupResponseSamples(runId);
   }
 
+  getCollectedErrors(runId: string): Map<string, EndpointErrorEntry[]> {
+    return this._errorLogStore.getCollectedErrors(runId);
+  }
+
+  recordErrors(runId: string, entries: WorkerErrorEntry[]): void {
+    this._errorLogStore.recordErrors(runId, entries);
+  }
+
+  cleanupErrors(runId: string): void {
+    this._errorLogStore.cleanupErrors(runId);
+  }
+
+  private _getEndpointConfig(key: string): TressiRequestConfig | undefined {
+    return this._endpointConfigs.find((req) => getEndpointKey(req) === key);
+  }
+
   private _getGlobalEndpointIndex(workerId: number, localEndpointIndex: number): number {
+    if (this._workerEndpointIndices) {
+      return this._workerEndpointIndices[workerId]?.[localEndpointIndex] ?? Infinity;
+    }
     const workersCount = this._hdrHistogramManagers.length;
     return workerId + localEndpointIndex * workersCount;
   }
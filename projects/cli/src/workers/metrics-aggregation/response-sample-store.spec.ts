@@ -25,6 +25,23 @@ describe('ResponseSampleStore', () => {
     });
   });
 
+  it('should keep the cookie counts of a sample', () => {
+    store.recordResponseSample(runId, url, 200, {}, 'body1', { jar: 3, received: 1, sent: 2 });
+
+    expect(store.getCollectedResponseSamples(runId).get(url)![0].cookies).toEqual({
+      jar: 3,
+      received: 1,
+      sent: 2,
+    });
+  });
+
+  it('should keep the negotiated TLS of a sample', () => {
+    const tls = { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' };
+    store.recordResponseSample(runId, url, 200, {}, 'body1', undefined, tls);
+
+    expect(store.getCollectedResponseSamples(runId).get(url)![0].tls).toEqual(tls);
+  });
+
   it('should only store one sample per status code per url', () => {
     store.recordResponseSample(runId, url, 200, {}, 'first');
     store.recordResponseSample(runId, url, 200, {}, 'second');
@@ -38,6 +55,22 @@ describe('ResponseSampleStore', () => {
     expect(endpointSamples![1].statusCode).toBe(404);
   });
 
+  it('should keep a GraphQL sample with errors apart from the one without', () => {
+    store.recordResponseSample(runId, url, 200, {}, '{"data":{}}');
+    store.recordResponseSample(runId, url, 200, {}, '{"errors":[]}', undefined, undefined, [
+      'User not found',
+    ]);
+    store.recordResponseSample(runId, url, 200, {}, '{"errors":[]}', undefined, undefined, [
+      'Not authorized',
+    ]);
+
+    const endpointSamples = store.getCollectedResponseSamples(runId).get(url);
+
+    expect(endpointSamples).toHaveLength(2);
+    expect(endpointSamples![0].graphqlErrors).toBeUndefined();
+    expect(endpointSamples![1].graphqlErrors).toEqual(['User not found']);
+  });
+
   it('should cleanup samples for a run', () => {
     store.recordResponseSample(runId, url, 200, {}, 'body');
     store.cleanupResponseSamples(runId);
@@ -1,8 +1,9 @@
 import type { ResponseSample } from '@tressi/shared/cli';
+import type { NegotiatedTls, ResponseSampleCookies } from '@tressi/shared/common';
 
 export class ResponseSampleStore {
   // Store for body samples collected during test
-  // Map<url, ResponseSample[]>
+  // Map<endpointKey, ResponseSample[]>
   private readonly _samples = new Map<string, Map<string, ResponseSample[]>>();
 
   public getCollectedResponseSamples(runId: string): Map<string, ResponseSample[]> {
@@ -11,29 +12,38 @@ export class ResponseSampleStore {
 
   public recordResponseSample(
     runId: string,
-    url: string,
+    endpointKey: string,
     statusCode: number,
     headers: Record<string, string>,
     body: string,
+    cookies?: ResponseSampleCookies,
+    tls?: NegotiatedTls,
+    graphqlErrors?: string[],
   ): void {
     if (!this._samples.has(runId)) {
       this._samples.set(runId, new Map());
     }
     const samples = this._samples.get(runId)!;
 
-    if (!samples.has(url)) {
-      samples.set(url, []);
+    if (!samples.has(endpointKey)) {
+      samples.set(endpointKey, []);
     }
 
-    const endpointSamples = samples.get(url)!;
+    const endpointSamples = samples.get(endpointKey)!;
 
-    const existingSampleIndex = endpointSamples.findIndex((s) => s.statusCode === statusCode);
+    // GraphQL responses with errors are kept apart from those without that share their status
+    const existingSampleIndex = endpointSamples.findIndex(
+      (s) => s.statusCode === statusCode && !s.graphqlErrors === !graphqlErrors,
+    );
 
     if (existingSampleIndex === -1) {
       endpointSamples.push({
         body,
+        cookies,
+        graphqlErrors,
         headers,
         statusCode,
+        tls,
       });
     }
   }
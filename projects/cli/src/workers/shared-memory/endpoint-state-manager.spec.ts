@@ -155,6 +155,32 @@ describe('EndpointStateManager', () => {
     });
   });
 
+  describe('manual stop', () => {
+    it('should stop an endpoint by hand and start it again', () => {
+      const manager = new EndpointStateManager(2);
+
+      manager.stopEndpointManually(0);
+
+      expect(manager.getEndpointState(0)).toBe(EndpointState.MANUALLY_STOPPED);
+      expect(manager.isEndpointRunning(0)).toBe(false);
+      expect(manager.isEndpointActive(0)).toBe(true);
+
+      manager.startEndpoint(0);
+
+      expect(manager.isEndpointRunning(0)).toBe(true);
+    });
+
+    it('should count endpoints stopped by hand as active', () => {
+      const manager = new EndpointStateManager(3);
+
+      manager.stopEndpointManually(0);
+      manager.stopEndpoint(1);
+
+      expect(manager.getRunningEndpointsCount()).toBe(1);
+      expect(manager.getActiveEndpointsCount()).toBe(2);
+    });
+  });
+
   describe('error state handling', () => {
     it('should set endpoint to ERROR state using setEndpointState', () => {
       const manager = new EndpointStateManager(3);
@@ -65,6 +65,14 @@ export class EndpointStateManager implements IEndpointStateManager {
     return this.getEndpointState(endpointIndex) === EndpointState.RUNNING;
   }
 
+  /**
+   * Check if endpoint is running or stopped by hand, so it may still send requests
+   */
+  isEndpointActive(endpointIndex: number): boolean {
+    const state = this.getEndpointState(endpointIndex);
+    return state === EndpointState.RUNNING || state === EndpointState.MANUALLY_STOPPED;
+  }
+
   /**
    * Stop a specific endpoint
    */
@@ -72,6 +80,20 @@ export class EndpointStateManager implements IEndpointStateManager {
     this.setEndpointState(endpointIndex, EndpointState.STOPPED);
   }
 
+  /**
+   * Stop a specific endpoint by hand until it is started again
+   */
+  stopEndpointManually(endpointIndex: number): void {
+    this.setEndpointState(endpointIndex, EndpointState.MANUALLY_STOPPED);
+  }
+
+  /**
+   * Start an endpoint that was stopped by hand
+   */
+  startEndpoint(endpointIndex: number): void {
+    this.setEndpointState(endpointIndex, EndpointState.RUNNING);
+  }
+
   /**
    * Get count of running endpoints
    */
@@ -85,6 +107,19 @@ export class EndpointStateManager implements IEndpointStateManager {
     return count;
   }
 
+  /**
+   * Get count of endpoints that are running or stopped by hand
+   */
+  getActiveEndpointsCount(): number {
+    let count = 0;
+    for (let i = 0; i < this._totalEndpoints; i++) {
+      if (this.isEndpointActive(i)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * Get underlying SharedArrayBuffer
    */
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { LoadControlManager } from './load-control-manager';
+
+describe('LoadControlManager', () => {
+  describe('constructor', () => {
+    it('should start running at the configured load profile', () => {
+      const manager = new LoadControlManager(2);
+
+      expect(manager.isPaused()).toBe(false);
+      expect(manager.getMultiplier()).toBe(1);
+      expect(manager.getEndpointRps(0)).toBeUndefined();
+      expect(manager.getEndpointRps(1)).toBeUndefined();
+    });
+
+    it('should share its controls through an external buffer', () => {
+      const manager = new LoadControlManager(2);
+      const worker = new LoadControlManager(2, manager.getSharedBuffer());
+
+      manager.setPaused(true);
+      manager.setMultiplier(1.5);
+      manager.setEndpointRps(1, 25);
+
+      expect(worker.isPaused()).toBe(true);
+      expect(worker.getMultiplier()).toBe(1.5);
+      expect(worker.getEndpointRps(1)).toBe(25);
+    });
+
+    it('should throw error when external buffer is too small', () => {
+      expect(() => new LoadControlManager(2, new SharedArrayBuffer(8))).toThrow(
+        'Buffer too small: expected 16, got 8',
+      );
+    });
+  });
+
+  describe('getTargetRps', () => {
+    it('should scale the load profile by the multiplier', () => {
+      const manager = new LoadControlManager(1);
+      manager.setMultiplier(0.5);
+
+      expect(manager.getTargetRps(0, 100)).toBe(50);
+    });
+
+    it('should prefer the fixed RPS of an endpoint over the multiplier', () => {
+      const manager = new LoadControlManager(2);
+      manager.setMultiplier(2);
+      manager.setEndpointRps(0, 12.5);
+
+      expect(manager.getTargetRps(0, 100)).toBe(12.5);
+      expect(manager.getTargetRps(1, 100)).toBe(200);
+    });
+
+    it('should return an endpoint to its load profile when its RPS is cleared', () => {
+      const manager = new LoadControlManager(1);
+      manager.setEndpointRps(0, 10);
+      manager.setEndpointRps(0, undefined);
+
+      expect(manager.getTargetRps(0, 100)).toBe(100);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject negative rates', () => {
+      const manager = new LoadControlManager(1);
+
+      expect(() => manager.setMultiplier(-1)).toThrow('Invalid multiplier: -1');
+      expect(() => manager.setEndpointRps(0, -5)).toThrow('Invalid RPS: -5');
+    });
+
+    it('should reject invalid endpoint indices', () => {
+      const manager = new LoadControlManager(1);
+
+      expect(() => manager.getEndpointRps(1)).toThrow('Invalid endpoint index: 1');
+    });
+  });
+});
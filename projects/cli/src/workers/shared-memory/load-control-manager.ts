@@ -0,0 +1,134 @@
+import type { ILoadControlManager } from '@tressi/shared/cli';
+
+/** Index of the pause flag */
+const PAUSED_SLOT = 0;
+
+/** Index of the rate multiplier */
+const MULTIPLIER_SLOT = 1;
+
+/** Index of the first per-endpoint RPS override */
+const ENDPOINT_RPS_OFFSET = 2;
+
+/** Rates are stored as integers in thousandths so Atomics can be used */
+const RATE_SCALE = 1000;
+
+/** Marks an endpoint without an RPS override */
+const NO_OVERRIDE = -1;
+
+/**
+ * LoadControlManager - Pause flag and rate changes of a running test, shared by all workers.
+ *
+ * @remarks
+ * Layout of the Int32Array:
+ * - slot 0: 1 while the test is paused
+ * - slot 1: multiplier applied to the load profile of every endpoint, in thousandths
+ * - slot 2 + endpoint index: fixed RPS of the endpoint in thousandths, or -1 to follow its profile
+ *
+ * The main thread writes, the workers read on every pass of their loop.
+ */
+export class LoadControlManager implements ILoadControlManager {
+  private readonly _sab: SharedArrayBuffer;
+  private readonly _controls: Int32Array;
+  private readonly _totalEndpoints: number;
+
+  constructor(totalEndpoints: number, externalBuffer?: SharedArrayBuffer) {
+    this._totalEndpoints = totalEndpoints;
+
+    const requiredSize = (ENDPOINT_RPS_OFFSET + totalEndpoints) * 4; // 4 bytes per Int32
+
+    if (externalBuffer) {
+      if (externalBuffer.byteLength < requiredSize) {
+        throw new Error(
+          `Buffer too small: expected ${requiredSize}, got ${externalBuffer.byteLength}`,
+        );
+      }
+      this._sab = externalBuffer;
+    } else {
+      this._sab = new SharedArrayBuffer(requiredSize);
+    }
+
+    this._controls = new Int32Array(this._sab);
+
+    if (!externalBuffer) {
+      Atomics.store(this._controls, MULTIPLIER_SLOT, RATE_SCALE);
+      for (let i = 0; i < totalEndpoints; i++) {
+        Atomics.store(this._controls, ENDPOINT_RPS_OFFSET + i, NO_OVERRIDE);
+      }
+    }
+  }
+
+  /**
+   * Check if the test is paused
+   */
+  isPaused(): boolean {
+    return Atomics.load(this._controls, PAUSED_SLOT) === 1;
+  }
+
+  /**
+   * Pause or resume the test
+   */
+  setPaused(paused: boolean): void {
+    Atomics.store(this._controls, PAUSED_SLOT, paused ? 1 : 0);
+  }
+
+  /**
+   * Get the multiplier applied to every load profile
+   */
+  getMultiplier(): number {
+    return Atomics.load(this._controls, MULTIPLIER_SLOT) / RATE_SCALE;
+  }
+
+  /**
+   * Set the multiplier applied to every load profile
+   */
+  setMultiplier(multiplier: number): void {
+    if (multiplier < 0) {
+      throw new Error(`Invalid multiplier: ${multiplier}`);
+    }
+
+    Atomics.store(this._controls, MULTIPLIER_SLOT, Math.round(multiplier * RATE_SCALE));
+  }
+
+  /**
+   * Get the fixed RPS of an endpoint, undefined when it follows its load profile
+   */
+  getEndpointRps(endpointIndex: number): number | undefined {
+    const rps = Atomics.load(this._controls, this._getEndpointSlot(endpointIndex));
+    return rps === NO_OVERRIDE ? undefined : rps / RATE_SCALE;
+  }
+
+  /**
+   * Fix the RPS of an endpoint, or pass undefined to return it to its load profile
+   */
+  setEndpointRps(endpointIndex: number, rps: number | undefined): void {
+    if (rps !== undefined && rps < 0) {
+      throw new Error(`Invalid RPS: ${rps}`);
+    }
+
+    const value = rps === undefined ? NO_OVERRIDE : Math.round(rps * RATE_SCALE);
+    Atomics.store(this._controls, this._getEndpointSlot(endpointIndex), value);
+  }
+
+  /**
+   * Get the RPS an endpoint should run at given the target of its load profile: its fixed RPS
+   * when set, otherwise the profile target scaled by the multiplier
+   */
+  getTargetRps(endpointIndex: number, profileRps: number): number {
+    return this.getEndpointRps(endpointIndex) ?? profileRps * this.getMultiplier();
+  }
+
+  /**
+   * Get underlying SharedArrayBuffer
+   */
+  getSharedBuffer(): SharedArrayBuffer {
+    return this._sab;
+  }
+
+  private _getEndpointSlot(endpointIndex: number): number {
+    if (endpointIndex < 0 || endpointIndex >= this._totalEndpoints) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    return ENDPOINT_RPS_OFFSET + endpointIndex;
+  }
+}
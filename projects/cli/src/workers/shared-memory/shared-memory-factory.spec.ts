@@ -6,6 +6,8 @@ import { SharedMemoryFactory } from './shared-memory-factory';
 describe('SharedMemoryFactory', () => {
   const mockEndpoints: TressiRequestConfig[] = [
     {
+      bodyType: 'json',
+      checks: [],
       earlyExit: {
         enabled: false,
         errorRateThreshold: 0,
@@ -17,9 +19,14 @@ describe('SharedMemoryFactory', () => {
       payload: {},
       rampUpDurationSec: 0,
       rps: 10,
+      sendBody: true,
+      stages: [],
+      thresholds: [],
       url: 'http://example.com/api/1',
     },
     {
+      bodyType: 'json',
+      checks: [],
       earlyExit: {
         enabled: false,
         errorRateThreshold: 0,
@@ -31,9 +38,14 @@ describe('SharedMemoryFactory', () => {
       payload: {},
       rampUpDurationSec: 0,
       rps: 5,
+      sendBody: true,
+      stages: [],
+      thresholds: [],
       url: 'http://example.com/api/2',
     },
     {
+      bodyType: 'json',
+      checks: [],
       earlyExit: {
         enabled: false,
         errorRateThreshold: 0,
@@ -45,9 +57,14 @@ describe('SharedMemoryFactory', () => {
       payload: {},
       rampUpDurationSec: 0,
       rps: 8,
+      sendBody: true,
+      stages: [],
+      thresholds: [],
       url: 'http://example.com/api/3',
     },
     {
+      bodyType: 'json',
+      checks: [],
       earlyExit: {
         enabled: false,
         errorRateThreshold: 0,
@@ -59,6 +76,9 @@ describe('SharedMemoryFactory', () => {
       payload: {},
       rampUpDurationSec: 0,
       rps: 12,
+      sendBody: true,
+      stages: [],
+      thresholds: [],
       url: 'http://example.com/api/4',
     },
   ];
@@ -68,12 +88,28 @@ describe('SharedMemoryFactory', () => {
       const result = SharedMemoryFactory.createManagers(2, mockEndpoints);
 
       expect(result.hdrHistogram).toHaveLength(2);
+      expect(result.correctedHdrHistogram).toHaveLength(2);
+      expect(result.correctedHdrHistogram[0]).not.toBe(result.hdrHistogram[0]);
+      expect(Object.keys(result.phaseHdrHistogram)).toEqual([
+        'dns',
+        'connect',
+        'tls',
+        'ttfb',
+        'download',
+      ]);
+      expect(result.phaseHdrHistogram.ttfb).toHaveLength(2);
+      expect(result.roundTripHdrHistogram).toHaveLength(2);
+      expect(result.roundTripHdrHistogram[0]).not.toBe(result.hdrHistogram[0]);
+      expect(result.eventGapHdrHistogram).toHaveLength(2);
+      expect(result.eventGapHdrHistogram[0]).not.toBe(result.roundTripHdrHistogram[0]);
       expect(result.workerState).toBeDefined();
       expect(result.statsCounter).toHaveLength(2);
       expect(result.endpointState).toBeDefined();
+      expect(result.loadControl).toBeDefined();
 
       // Check that all managers are properly initialized
       expect(result.endpointState.getTotalEndpoints()).toBe(4);
+      expect(result.loadControl.getMultiplier()).toBe(1);
     });
 
     it('should create managers with custom options', () => {
@@ -305,6 +341,8 @@ describe('SharedMemoryFactory', () => {
       const endpoints = Array(50)
         .fill(null)
         .map((_, i) => ({
+          bodyType: 'json' as const,
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -316,6 +354,9 @@ describe('SharedMemoryFactory', () => {
           payload: {},
           rampUpDurationSec: 0,
           rps: 10,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: `http://api.example.com/endpoint/${i}`,
         }));
 
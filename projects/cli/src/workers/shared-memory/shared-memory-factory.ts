@@ -4,10 +4,15 @@
  */
 
 import type { SharedMemoryOptions } from '@tressi/shared/cli';
-import type { TressiRequestConfig } from '@tressi/shared/common';
+import {
+  type RequestTimingPhase,
+  requestTimingPhaseDefaults,
+  type TressiRequestConfig,
+} from '@tressi/shared/common';
 
 import { EndpointStateManager } from './endpoint-state-manager';
 import { HdrHistogramManager } from './hdr-histogram-manager';
+import { LoadControlManager } from './load-control-manager';
 import { StatsCounterManager } from './stats-counter-manager';
 import { WorkerStateManager } from './worker-state-manager';
 
@@ -17,17 +22,24 @@ export class SharedMemoryFactory {
    * @param workersCount Number of workers
    * @param endpoints Array of all endpoint configurations
    * @param options Optional configuration
+   * @param workerEndpointIndices Optional explicit assignment of global endpoint indices per worker
    * @returns Object containing arrays of managers
    */
   static createManagers(
     workersCount: number,
     endpoints: TressiRequestConfig[],
     options?: SharedMemoryOptions,
+    workerEndpointIndices?: number[][],
   ): {
     hdrHistogram: HdrHistogramManager[]; // Array per worker
+    correctedHdrHistogram: HdrHistogramManager[]; // Array per worker, latencies from the scheduled start
+    phaseHdrHistogram: Record<RequestTimingPhase, HdrHistogramManager[]>; // Array per worker for each request phase
+    roundTripHdrHistogram: HdrHistogramManager[]; // Array per worker, WebSocket message round trips
+    eventGapHdrHistogram: HdrHistogramManager[]; // Array per worker, gaps between stream events
     workerState: WorkerStateManager;
     statsCounter: StatsCounterManager[]; // Array per worker
     endpointState: EndpointStateManager;
+    loadControl: LoadControlManager;
   } {
     const {
       significantFigures = 3,
@@ -42,16 +54,26 @@ export class SharedMemoryFactory {
     // Create endpoint state manager (shared across all workers)
     const endpointState = new EndpointStateManager(endpoints.length);
 
+    // Create load control manager (shared across all workers)
+    const loadControl = new LoadControlManager(endpoints.length);
+
     // Create per-worker managers
     const hdrHistogram: HdrHistogramManager[] = [];
+    const correctedHdrHistogram: HdrHistogramManager[] = [];
+    const phaseHdrHistogram = Object.fromEntries(
+      requestTimingPhaseDefaults.map((phase) => [phase, [] as HdrHistogramManager[]]),
+    ) as Record<RequestTimingPhase, HdrHistogramManager[]>;
+    const roundTripHdrHistogram: HdrHistogramManager[] = [];
+    const eventGapHdrHistogram: HdrHistogramManager[] = [];
     const statsCounter: StatsCounterManager[] = [];
 
     // Distribute endpoints to workers
-    const workerEndpoints = SharedMemoryFactory._distributeEndpoints(workersCount, endpoints);
+    const workerEndpoints =
+      workerEndpointIndices ?? SharedMemoryFactory._distributeEndpoints(workersCount, endpoints);
 
     // Create per-worker managers with their assigned endpoint count
     for (let workerId = 0; workerId < workersCount; workerId++) {
-      const assignedEndpoints = workerEndpoints[workerId].length;
+      const assignedEndpoints = workerEndpoints[workerId]?.length ?? 0;
 
       hdrHistogram[workerId] = new HdrHistogramManager(
         assignedEndpoints,
@@ -60,12 +82,47 @@ export class SharedMemoryFactory {
         highestTrackableValue,
       );
 
+      correctedHdrHistogram[workerId] = new HdrHistogramManager(
+        assignedEndpoints,
+        significantFigures,
+        lowestTrackableValue,
+        highestTrackableValue,
+      );
+
+      for (const phase of requestTimingPhaseDefaults) {
+        phaseHdrHistogram[phase][workerId] = new HdrHistogramManager(
+          assignedEndpoints,
+          significantFigures,
+          lowestTrackableValue,
+          highestTrackableValue,
+        );
+      }
+
+      roundTripHdrHistogram[workerId] = new HdrHistogramManager(
+        assignedEndpoints,
+        significantFigures,
+        lowestTrackableValue,
+        highestTrackableValue,
+      );
+
+      eventGapHdrHistogram[workerId] = new HdrHistogramManager(
+        assignedEndpoints,
+        significantFigures,
+        lowestTrackableValue,
+        highestTrackableValue,
+      );
+
       statsCounter[workerId] = new StatsCounterManager(assignedEndpoints, ringBufferSize);
     }
 
     return {
+      correctedHdrHistogram,
       endpointState,
+      eventGapHdrHistogram,
       hdrHistogram,
+      loadControl,
+      phaseHdrHistogram,
+      roundTripHdrHistogram,
       statsCounter,
       workerState,
     };
@@ -104,8 +161,12 @@ export class SharedMemoryFactory {
    * Accounts for all memory consumers:
    * - WorkerStateManager: worker state tracking (4 bytes per worker + header)
    * - EndpointStateManager: endpoint state tracking (4 bytes per endpoint)
+   * - LoadControlManager: pause flag, rate multiplier and endpoint RPS (4 bytes per endpoint +
+   *   header)
    * - StatsCounterManager: per-worker request counters and status code tracking
-   * - HdrHistogramManager: latency histogram data with configurable precision
+   * - HdrHistogramManager: latency histogram data with configurable precision per worker for the
+   *   measured and the corrected latencies, for each request phase, for WebSocket round trips and
+   *   for stream event gaps
    * - BodySampleManager: response body sample storage per endpoint
    *
    * The calculation is conservative and includes overhead for data structure headers.
@@ -141,6 +202,9 @@ export class SharedMemoryFactory {
     // EndpointStateManager: endpointsCount * 4 bytes (Int32)
     totalBytes += endpointsCount * 4;
 
+    // LoadControlManager: 2 header slots + endpointsCount * 4 bytes (Int32)
+    totalBytes += 8 + endpointsCount * 4;
+
     // StatsCounterManager per worker: endpointsPerWorker * countersPerEndpoint * 4 bytes
     const endpointsPerWorker = Math.ceil(endpointsCount / workersCount);
     const countersPerEndpoint = 6 + 600 + 600 + ringBufferSize; // 6 header + 600 status codes + 600 counters + ring buffer
@@ -149,7 +213,8 @@ export class SharedMemoryFactory {
     // HDR histogram bitmap: 19 Uint32 per endpoint per worker
     totalBytes += workersCount * endpointsPerWorker * 19 * 4;
 
-    // HdrHistogramManager per worker: endpointsPerWorker * valuesPerHistogram * 4 bytes
+    // HdrHistogramManagers per worker (measured, corrected, one per request phase, round trips and
+    // event gaps): endpointsPerWorker * valuesPerHistogram * 4 bytes
     const subBucketHalfCountMagnitude = Math.ceil(Math.log2(significantFigures) + 1);
     const subBucketHalfCount = 1 << subBucketHalfCountMagnitude;
     const largestValueWithSingleUnitResolution = 2 * subBucketHalfCount;
@@ -159,7 +224,9 @@ export class SharedMemoryFactory {
       ) + 1;
 
     const valuesPerHistogram = bucketsNeeded + 1; // +1 for overflow bucket
-    totalBytes += workersCount * (20 + endpointsPerWorker * valuesPerHistogram * 4);
+    const histogramsPerWorker = 4 + requestTimingPhaseDefaults.length;
+    totalBytes +=
+      histogramsPerWorker * workersCount * (20 + endpointsPerWorker * valuesPerHistogram * 4);
 
     // BodySampleManager: endpointsCount * fieldsPerEndpoint * 4 bytes
     const fieldsPerEndpoint = 3 + bodySampleBufferSize * 2;
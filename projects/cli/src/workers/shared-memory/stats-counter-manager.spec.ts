@@ -182,6 +182,237 @@ describe('StatsCounterManager', () => {
     });
   });
 
+  describe('recordChecks', () => {
+    it('should record pass and fail counts per check', () => {
+      const manager = new StatsCounterManager(2);
+
+      manager.recordChecks(1, [true, false]);
+      manager.recordChecks(1, [true, true]);
+
+      expect(manager.getEndpointCounters(1).checkCounts).toEqual([
+        { failed: 0, passed: 2 },
+        { failed: 1, passed: 1 },
+      ]);
+      expect(manager.getEndpointCounters(0).checkCounts).toEqual([]);
+    });
+
+    it('should not overlap with the status code ring buffer', () => {
+      const manager = new StatsCounterManager(1, 4);
+
+      for (let status = 200; status < 210; status++) {
+        manager.recordStatusCode(0, status);
+      }
+      manager.recordChecks(0, [false]);
+
+      const counters = manager.getEndpointCounters(0);
+      expect(counters.checkCounts).toEqual([{ failed: 1, passed: 0 }]);
+      expect(counters.sampledStatusCodes).toHaveLength(4);
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordChecks(3, [true])).toThrow('Invalid endpoint index: 3');
+    });
+  });
+
+  describe('recordError', () => {
+    it('should count each error category separately', () => {
+      const manager = new StatsCounterManager(2);
+
+      manager.recordError(1, 'timeout');
+      manager.recordError(1, 'timeout');
+      manager.recordError(1, 'dns');
+      manager.recordError(1, 'tls');
+
+      expect(manager.getEndpointCounters(1).errorCounts).toEqual({
+        connectionRefused: 0,
+        dns: 1,
+        timeout: 2,
+        tls: 1,
+      });
+      expect(manager.getEndpointCounters(0).errorCounts).toEqual({
+        connectionRefused: 0,
+        dns: 0,
+        timeout: 0,
+        tls: 0,
+      });
+    });
+
+    it('should not overlap with the check counters', () => {
+      const manager = new StatsCounterManager(2, 4);
+
+      manager.recordChecks(0, new Array(16).fill(false));
+      manager.recordError(0, 'connectionRefused');
+
+      const counters = manager.getEndpointCounters(0);
+      expect(counters.checkCounts).toHaveLength(16);
+      expect(counters.checkCounts.every((c) => c.failed === 1 && c.passed === 0)).toBe(true);
+      expect(counters.errorCounts.connectionRefused).toBe(1);
+      expect(manager.getEndpointCounters(1).successCount).toBe(0);
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordError(3, 'timeout')).toThrow('Invalid endpoint index: 3');
+    });
+  });
+
+  describe('recordProtocol', () => {
+    it('should count each protocol separately without overlapping the error counters', () => {
+      const manager = new StatsCounterManager(2, 4);
+
+      manager.recordError(0, 'tls');
+      manager.recordProtocol(0, 'h2');
+      manager.recordProtocol(0, 'h2');
+      manager.recordProtocol(0, 'http1');
+      manager.recordProtocol(1, 'h2c');
+
+      const counters = manager.getEndpointCounters(0);
+      expect(counters.protocolCounts).toEqual({ h2: 2, h2c: 0, http1: 1 });
+      expect(counters.errorCounts.tls).toBe(1);
+      expect(manager.getEndpointCounters(1).protocolCounts).toEqual({ h2: 0, h2c: 1, http1: 0 });
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordProtocol(3, 'h2')).toThrow('Invalid endpoint index: 3');
+    });
+  });
+
+  describe('recordWebSocketSession', () => {
+    it('should sum the messages and count abnormal closes without overlapping the protocol counters', () => {
+      const manager = new StatsCounterManager(2, 4);
+
+      manager.recordProtocol(0, 'h2c');
+      manager.recordWebSocketSession(0, 3, 5, false);
+      manager.recordWebSocketSession(0, 2, 1, true);
+      manager.recordWebSocketSession(1, 1, 0, true);
+
+      const counters = manager.getEndpointCounters(0);
+      expect(counters.webSocketCounts).toEqual({
+        abnormalCloses: 1,
+        messagesReceived: 6,
+        messagesSent: 5,
+      });
+      expect(counters.protocolCounts.h2c).toBe(1);
+      expect(manager.getEndpointCounters(1).webSocketCounts).toEqual({
+        abnormalCloses: 1,
+        messagesReceived: 0,
+        messagesSent: 1,
+      });
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordWebSocketSession(3, 1, 1, false)).toThrow(
+        'Invalid endpoint index: 3',
+      );
+    });
+  });
+
+  describe('recordGrpcCall', () => {
+    it('should count gRPC status codes apart from HTTP status codes and sum the messages', () => {
+      const manager = new StatsCounterManager(2, 4);
+
+      manager.recordWebSocketSession(0, 7, 7, true);
+      manager.recordGrpcCall(0, 0, 1, 3);
+      manager.recordGrpcCall(0, 0, 1, 2);
+      manager.recordGrpcCall(0, 14, 1, 0);
+      manager.recordGrpcCall(1, 16, 2, 0);
+
+      const counters = manager.getEndpointCounters(0);
+      expect(counters.grpcCounts).toEqual({
+        messagesReceived: 5,
+        messagesSent: 3,
+        statusCodeCounts: { 0: 2, 14: 1 },
+      });
+      expect(counters.statusCodeCounts).toEqual({});
+      expect(counters.webSocketCounts.abnormalCloses).toBe(1);
+      expect(manager.getEndpointCounters(1).grpcCounts).toEqual({
+        messagesReceived: 0,
+        messagesSent: 2,
+        statusCodeCounts: { 16: 1 },
+      });
+    });
+
+    it('should ignore unknown status codes but still count the messages', () => {
+      const manager = new StatsCounterManager(1);
+
+      manager.recordGrpcCall(0, 17, 1, 1);
+
+      expect(manager.getEndpointCounters(0).grpcCounts).toEqual({
+        messagesReceived: 1,
+        messagesSent: 1,
+        statusCodeCounts: {},
+      });
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordGrpcCall(3, 0, 1, 1)).toThrow('Invalid endpoint index: 3');
+    });
+  });
+
+  describe('recordStreamSubscription', () => {
+    it('should sum the events and count the disconnects of subscriptions per endpoint', () => {
+      const manager = new StatsCounterManager(2, 4);
+
+      manager.recordGrpcCall(0, 16, 1, 1);
+      manager.recordStreamSubscription(0, 12, false);
+      manager.recordStreamSubscription(0, 3, true);
+      manager.recordStreamSubscription(1, 0, true);
+
+      expect(manager.getEndpointCounters(0).streamCounts).toEqual({
+        disconnects: 1,
+        eventsReceived: 15,
+      });
+      expect(manager.getEndpointCounters(0).grpcCounts.statusCodeCounts).toEqual({ 16: 1 });
+      expect(manager.getEndpointCounters(1).streamCounts).toEqual({
+        disconnects: 1,
+        eventsReceived: 0,
+      });
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordStreamSubscription(3, 1, false)).toThrow(
+        'Invalid endpoint index: 3',
+      );
+    });
+  });
+
+  describe('recordDropped and recordLate', () => {
+    it('should count dropped and late requests per endpoint', () => {
+      const manager = new StatsCounterManager(2);
+
+      manager.recordDropped(1, 5);
+      manager.recordDropped(1, 0);
+      manager.recordLate(1);
+      manager.recordLate(1);
+      manager.recordRequest(1, true);
+
+      const counters = manager.getEndpointCounters(1);
+      expect(counters.droppedCount).toBe(5);
+      expect(counters.lateCount).toBe(2);
+      expect(counters.successCount).toBe(1);
+      expect(counters.bytesReceived).toBe(0);
+      expect(manager.getEndpointCounters(0).droppedCount).toBe(0);
+    });
+
+    it('should throw error for invalid endpoint index', () => {
+      const manager = new StatsCounterManager(3);
+
+      expect(() => manager.recordDropped(3, 1)).toThrow('Invalid endpoint index: 3');
+      expect(() => manager.recordLate(3)).toThrow('Invalid endpoint index: 3');
+    });
+  });
+
   describe('recordStatusCode', () => {
     it('should record status codes correctly', () => {
       const manager = new StatsCounterManager(2);
@@ -12,17 +12,32 @@
  *         ┌───────────────────────────────────────────────┐
  *         │ successCount       Int32                     │
  *         │ failureCount       Int32                     │
- *         │ statusCodeCount    Int32                     │
- *         │ ringBufferSize     Int32                     │
+ *         │ bytesSent          Int32                     │
+ *         │ bytesReceived      Int32                     │
+ *         │ droppedCount       Int32                     │
+ *         │ lateCount          Int32                     │
  *         │ ringBufferHead     Int32 (atomic)           │
  *         │ sampledStatusCount Int32                     │
  *         │ sampledStatusCodes Int32Array (600 slots)    │
  *         │ statusCodeCounters Int32Array (600 slots)    │
  *         │ bodySampleIndices  Int32Array (ring buffer)  │
+ *         │ checkCounters      Int32Array (16 x pass/fail)│
+ *         │ errorCounters      Int32Array (4 categories) │
+ *         │ protocolCounters   Int32Array (3 protocols)  │
+ *         │ webSocketCounters  Int32Array (3 counts)     │
+ *         │ grpcCounters       Int32Array (17 codes + 2) │
+ *         │ streamCounters     Int32Array (2 counts)     │
  *         └───────────────────────────────────────────────┘
  */
 
 import type { EndpointCounters, IStatsCounterManager } from '@tressi/shared/cli';
+import type { HttpProtocol, RequestErrorCategory } from '@tressi/shared/common';
+import {
+  grpcStatusCodeDefaults,
+  httpProtocolDefaults,
+  maxChecksPerRequest,
+  requestErrorCategoryDefaults,
+} from '@tressi/shared/common';
 
 export class StatsCounterManager implements IStatsCounterManager {
   private readonly _sab: SharedArrayBuffer;
@@ -30,6 +45,12 @@ export class StatsCounterManager implements IStatsCounterManager {
   private readonly _endpointsCount: number;
   private readonly _ringBufferSize: number;
   private readonly _countersPerEndpoint: number;
+  private readonly _checkCountersOffset: number;
+  private readonly _errorCountersOffset: number;
+  private readonly _protocolCountersOffset: number;
+  private readonly _webSocketCountersOffset: number;
+  private readonly _grpcCountersOffset: number;
+  private readonly _streamCountersOffset: number;
   private readonly _statusCodeBitmap: Uint32Array;
 
   // Memory layout constants per endpoint
@@ -37,10 +58,15 @@ export class StatsCounterManager implements IStatsCounterManager {
   private static readonly _failureOffset = 1;
   private static readonly _bytesSentOffset = 2;
   private static readonly _bytesReceivedOffset = 3;
+  private static readonly _droppedOffset = 4;
+  private static readonly _lateOffset = 5;
   private static readonly _ringBufferHeadOffset = 6;
   private static readonly _sampledStatusCountOffset = 7;
   private static readonly _statusCodeCountersOffset = 608; // 600 status codes + 8 header fields
   private static readonly _bodySampleIndicesOffset = 1208; // 600 status codes + 600 counters + 8 header fields
+  private static readonly _webSocketCounterCount = 3; // messages sent, messages received, abnormal closes
+  private static readonly _grpcCounterCount = grpcStatusCodeDefaults.length + 2; // status codes, messages sent, messages received
+  private static readonly _streamCounterCount = 2; // events received, disconnects
 
   constructor(
     endpointsCount: number,
@@ -50,8 +76,27 @@ export class StatsCounterManager implements IStatsCounterManager {
     this._endpointsCount = endpointsCount;
     this._ringBufferSize = ringBufferSize;
 
-    // Calculate counters per endpoint: 8 header + 600 status codes + 600 counters + ring buffer
-    this._countersPerEndpoint = 8 + 600 + 600 + ringBufferSize;
+    // Calculate counters per endpoint: 8 header + 600 status codes + 600 counters + ring buffer +
+    // check pass/fail pairs + error categories + protocols + WebSocket counts + gRPC counts +
+    // stream counts
+    this._checkCountersOffset = StatsCounterManager._bodySampleIndicesOffset + ringBufferSize;
+    this._errorCountersOffset = this._checkCountersOffset + maxChecksPerRequest * 2;
+    this._protocolCountersOffset = this._errorCountersOffset + requestErrorCategoryDefaults.length;
+    this._webSocketCountersOffset = this._protocolCountersOffset + httpProtocolDefaults.length;
+    this._grpcCountersOffset =
+      this._webSocketCountersOffset + StatsCounterManager._webSocketCounterCount;
+    this._streamCountersOffset = this._grpcCountersOffset + StatsCounterManager._grpcCounterCount;
+    this._countersPerEndpoint =
+      8 +
+      600 +
+      600 +
+      ringBufferSize +
+      maxChecksPerRequest * 2 +
+      requestErrorCategoryDefaults.length +
+      httpProtocolDefaults.length +
+      StatsCounterManager._webSocketCounterCount +
+      StatsCounterManager._grpcCounterCount +
+      StatsCounterManager._streamCounterCount;
 
     // Total SAB size: 12 bytes header + (endpoints * counters per endpoint * 4 bytes)
     const headerSize = 12; // endpointCount + 2 reserved UInt32
@@ -166,6 +211,146 @@ export class StatsCounterManager implements IStatsCounterManager {
     Atomics.add(this._counters, baseOffset + StatsCounterManager._bytesReceivedOffset, bytes);
   }
 
+  /**
+   * Record scheduled requests that were never sent because the worker fell behind
+   */
+  recordDropped(endpointIndex: number, count: number): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+    if (count <= 0) {
+      return;
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint;
+    Atomics.add(this._counters, baseOffset + StatsCounterManager._droppedOffset, count);
+  }
+
+  /**
+   * Record a request that started after its scheduled time
+   */
+  recordLate(endpointIndex: number): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint;
+    Atomics.add(this._counters, baseOffset + StatsCounterManager._lateOffset, 1);
+  }
+
+  /**
+   * Record the outcome of each response check evaluated for a request
+   */
+  recordChecks(endpointIndex: number, outcomes: boolean[]): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint + this._checkCountersOffset;
+    const checksCount = Math.min(outcomes.length, maxChecksPerRequest);
+
+    for (let i = 0; i < checksCount; i++) {
+      // Each check owns a [passed, failed] pair
+      Atomics.add(this._counters, baseOffset + i * 2 + (outcomes[i] ? 0 : 1), 1);
+    }
+  }
+
+  /**
+   * Record a request that failed without a response, by network error category
+   */
+  recordError(endpointIndex: number, category: RequestErrorCategory): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const categoryIndex = requestErrorCategoryDefaults.indexOf(category);
+    if (categoryIndex === -1) {
+      return; // Ignore unknown categories
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint + this._errorCountersOffset;
+    Atomics.add(this._counters, baseOffset + categoryIndex, 1);
+  }
+
+  /**
+   * Record the HTTP protocol a request was sent over
+   */
+  recordProtocol(endpointIndex: number, protocol: HttpProtocol): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const protocolIndex = httpProtocolDefaults.indexOf(protocol);
+    if (protocolIndex === -1) {
+      return; // Ignore unknown protocols
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint + this._protocolCountersOffset;
+    Atomics.add(this._counters, baseOffset + protocolIndex, 1);
+  }
+
+  /**
+   * Record the messages of a WebSocket connection and whether it closed abnormally
+   */
+  recordWebSocketSession(
+    endpointIndex: number,
+    messagesSent: number,
+    messagesReceived: number,
+    abnormalClose: boolean,
+  ): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const baseOffset =
+      3 + endpointIndex * this._countersPerEndpoint + this._webSocketCountersOffset;
+    Atomics.add(this._counters, baseOffset, messagesSent);
+    Atomics.add(this._counters, baseOffset + 1, messagesReceived);
+    if (abnormalClose) {
+      Atomics.add(this._counters, baseOffset + 2, 1);
+    }
+  }
+
+  /**
+   * Record the gRPC status code and messages of a call, in place of an HTTP status code
+   */
+  recordGrpcCall(
+    endpointIndex: number,
+    statusCode: number,
+    messagesSent: number,
+    messagesReceived: number,
+  ): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint + this._grpcCountersOffset;
+    if (statusCode >= 0 && statusCode < grpcStatusCodeDefaults.length) {
+      Atomics.add(this._counters, baseOffset + statusCode, 1);
+    }
+    Atomics.add(this._counters, baseOffset + grpcStatusCodeDefaults.length, messagesSent);
+    Atomics.add(this._counters, baseOffset + grpcStatusCodeDefaults.length + 1, messagesReceived);
+  }
+
+  /**
+   * Record the events of a stream subscription and whether the server disconnected it
+   */
+  recordStreamSubscription(
+    endpointIndex: number,
+    eventsReceived: number,
+    disconnected: boolean,
+  ): void {
+    if (endpointIndex < 0 || endpointIndex >= this._endpointsCount) {
+      throw new Error(`Invalid endpoint index: ${endpointIndex}`);
+    }
+
+    const baseOffset = 3 + endpointIndex * this._countersPerEndpoint + this._streamCountersOffset;
+    Atomics.add(this._counters, baseOffset, eventsReceived);
+    if (disconnected) {
+      Atomics.add(this._counters, baseOffset + 1, 1);
+    }
+  }
+
   /**
    * Record a status code for an endpoint with "one body per status code" enforcement
    */
@@ -261,6 +446,11 @@ export class StatsCounterManager implements IStatsCounterManager {
       this._counters,
       baseOffset + StatsCounterManager._bytesReceivedOffset,
     );
+    const droppedCount = Atomics.load(
+      this._counters,
+      baseOffset + StatsCounterManager._droppedOffset,
+    );
+    const lateCount = Atomics.load(this._counters, baseOffset + StatsCounterManager._lateOffset);
 
     // Read status code counts
     const statusCodeCounts: Record<number, number> = {};
@@ -289,14 +479,84 @@ export class StatsCounterManager implements IStatsCounterManager {
     // Body sample indices are the same as sampled status codes in this implementation
     const bodySampleIndices = [...sampledStatusCodes];
 
+    // Read check pass/fail pairs, trimming checks that were never evaluated
+    const checkOffset = baseOffset + this._checkCountersOffset;
+    const checkCounts: EndpointCounters['checkCounts'] = [];
+    for (let i = 0; i < maxChecksPerRequest; i++) {
+      checkCounts.push({
+        failed: Atomics.load(this._counters, checkOffset + i * 2 + 1),
+        passed: Atomics.load(this._counters, checkOffset + i * 2),
+      });
+    }
+    while (checkCounts.length > 0) {
+      const last = checkCounts[checkCounts.length - 1];
+      if (last.passed + last.failed > 0) break;
+      checkCounts.pop();
+    }
+
+    // Read network error category counters
+    const errorOffset = baseOffset + this._errorCountersOffset;
+    const errorCounts = {} as EndpointCounters['errorCounts'];
+    requestErrorCategoryDefaults.forEach((category, i) => {
+      errorCounts[category] = Atomics.load(this._counters, errorOffset + i);
+    });
+
+    // Read HTTP protocol counters
+    const protocolOffset = baseOffset + this._protocolCountersOffset;
+    const protocolCounts = {} as EndpointCounters['protocolCounts'];
+    httpProtocolDefaults.forEach((protocol, i) => {
+      protocolCounts[protocol] = Atomics.load(this._counters, protocolOffset + i);
+    });
+
+    // Read WebSocket message and close counters
+    const webSocketOffset = baseOffset + this._webSocketCountersOffset;
+    const webSocketCounts: EndpointCounters['webSocketCounts'] = {
+      abnormalCloses: Atomics.load(this._counters, webSocketOffset + 2),
+      messagesReceived: Atomics.load(this._counters, webSocketOffset + 1),
+      messagesSent: Atomics.load(this._counters, webSocketOffset),
+    };
+
+    // Read gRPC status code and message counters
+    const grpcOffset = baseOffset + this._grpcCountersOffset;
+    const grpcStatusCodeCounts: Record<number, number> = {};
+    for (let code = 0; code < grpcStatusCodeDefaults.length; code++) {
+      const count = Atomics.load(this._counters, grpcOffset + code);
+      if (count > 0) {
+        grpcStatusCodeCounts[code] = count;
+      }
+    }
+    const grpcCounts: EndpointCounters['grpcCounts'] = {
+      messagesReceived: Atomics.load(
+        this._counters,
+        grpcOffset + grpcStatusCodeDefaults.length + 1,
+      ),
+      messagesSent: Atomics.load(this._counters, grpcOffset + grpcStatusCodeDefaults.length),
+      statusCodeCounts: grpcStatusCodeCounts,
+    };
+
+    // Read stream event and disconnect counters
+    const streamOffset = baseOffset + this._streamCountersOffset;
+    const streamCounts: EndpointCounters['streamCounts'] = {
+      disconnects: Atomics.load(this._counters, streamOffset + 1),
+      eventsReceived: Atomics.load(this._counters, streamOffset),
+    };
+
     return {
       bodySampleIndices,
       bytesReceived,
       bytesSent,
+      checkCounts,
+      droppedCount,
+      errorCounts,
       failureCount,
+      grpcCounts,
+      lateCount,
+      protocolCounts,
       sampledStatusCodes,
       statusCodeCounts,
+      streamCounts,
       successCount,
+      webSocketCounts,
     };
   }
 
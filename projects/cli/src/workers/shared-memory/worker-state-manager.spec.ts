@@ -293,6 +293,137 @@ describe('WorkerStateManager', () => {
     });
   });
 
+  describe('active virtual users', () => {
+    it('should start every worker with zero active virtual users', () => {
+      const manager = new WorkerStateManager(3);
+
+      expect(manager.getActiveVus(0)).toBe(0);
+      expect(manager.getTotalActiveVus()).toBe(0);
+    });
+
+    it('should add and remove active virtual users per worker', () => {
+      const manager = new WorkerStateManager(3);
+
+      manager.addActiveVus(0, 2);
+      manager.addActiveVus(2, 5);
+      manager.addActiveVus(2, -1);
+
+      expect(manager.getActiveVus(0)).toBe(2);
+      expect(manager.getActiveVus(1)).toBe(0);
+      expect(manager.getActiveVus(2)).toBe(4);
+      expect(manager.getTotalActiveVus()).toBe(6);
+    });
+
+    it('should share active virtual users through the metrics buffer', () => {
+      const manager1 = new WorkerStateManager(2);
+      const manager2 = new WorkerStateManager(
+        2,
+        manager1.getSharedBuffer(),
+        manager1.getMetricsBuffer(),
+      );
+
+      manager2.addActiveVus(1, 3);
+
+      expect(manager1.getActiveVus(1)).toBe(3);
+    });
+
+    it('should throw error for invalid worker ID', () => {
+      const manager = new WorkerStateManager(2);
+
+      expect(() => manager.addActiveVus(2, 1)).toThrow('Invalid worker ID: 2');
+      expect(() => manager.getActiveVus(-1)).toThrow('Invalid worker ID: -1');
+    });
+  });
+
+  describe('requests in flight', () => {
+    it('should track requests in flight per worker apart from active virtual users', () => {
+      const manager = new WorkerStateManager(2);
+
+      manager.addActiveVus(0, 4);
+      manager.addInFlight(0, 10);
+      manager.addInFlight(0, -3);
+      manager.addInFlight(1, 2);
+
+      expect(manager.getInFlight(0)).toBe(7);
+      expect(manager.getInFlight(1)).toBe(2);
+      expect(manager.getActiveVus(0)).toBe(4);
+    });
+
+    it('should throw error for invalid worker ID', () => {
+      const manager = new WorkerStateManager(2);
+
+      expect(() => manager.addInFlight(2, 1)).toThrow('Invalid worker ID: 2');
+      expect(() => manager.getInFlight(-1)).toThrow('Invalid worker ID: -1');
+    });
+  });
+
+  describe('worker health', () => {
+    it('should replace the health of a worker apart from its other metrics', () => {
+      const manager = new WorkerStateManager(2);
+
+      manager.addInFlight(0, 5);
+      manager.setHealth(0, 120, 64);
+      manager.setHealth(0, 30, 72);
+      manager.setHealth(1, 8, 40);
+
+      expect(manager.getEventLoopLag(0)).toBe(30);
+      expect(manager.getHeapUsed(0)).toBe(72);
+      expect(manager.getEventLoopLag(1)).toBe(8);
+      expect(manager.getHeapUsed(1)).toBe(40);
+      expect(manager.getInFlight(0)).toBe(5);
+    });
+
+    it('should share the health of a worker through the metrics buffer', () => {
+      const manager = new WorkerStateManager(2);
+      const workerView = new WorkerStateManager(
+        2,
+        manager.getSharedBuffer(),
+        manager.getMetricsBuffer(),
+      );
+
+      workerView.setHealth(1, 55, 128);
+
+      expect(manager.getEventLoopLag(1)).toBe(55);
+      expect(manager.getHeapUsed(1)).toBe(128);
+    });
+
+    it('should throw error for invalid worker ID', () => {
+      const manager = new WorkerStateManager(2);
+
+      expect(() => manager.setHealth(2, 0, 0)).toThrow('Invalid worker ID: 2');
+      expect(() => manager.getEventLoopLag(-1)).toThrow('Invalid worker ID: -1');
+      expect(() => manager.getHeapUsed(2)).toThrow('Invalid worker ID: 2');
+    });
+  });
+
+  describe('auth token requests', () => {
+    it('should total the token requests of every worker apart from their other metrics', () => {
+      const manager = new WorkerStateManager(2);
+      const workerView = new WorkerStateManager(
+        2,
+        manager.getSharedBuffer(),
+        manager.getMetricsBuffer(),
+      );
+
+      manager.addInFlight(0, 3);
+      workerView.recordTokenRequest(0, 40.4, true);
+      workerView.recordTokenRequest(1, 120, false);
+
+      expect(manager.getTokenRequestTotals()).toEqual({
+        failures: 1,
+        latencyMs: 160,
+        requests: 2,
+      });
+      expect(manager.getInFlight(0)).toBe(3);
+    });
+
+    it('should throw error for invalid worker ID', () => {
+      const manager = new WorkerStateManager(2);
+
+      expect(() => manager.recordTokenRequest(2, 0, true)).toThrow('Invalid worker ID: 2');
+    });
+  });
+
   describe('memory layout validation', () => {
     it('should have correct buffer size', () => {
       const workerCounts = [1, 5, 10, 50, 100];
@@ -1,16 +1,48 @@
 /**
  * WorkerStateManager - Type-safe worker lifecycle management
  * Provides atomic state transitions for worker coordination
+ * and per-worker live metrics such as the number of active virtual users,
+ * requests in flight, the health of the worker and its requests for auth tokens
  */
 
 import { type IWorkerStateManager, WorkerState } from '@tressi/shared/cli';
 
+/** Int32 slots per worker in the metrics buffer */
+const METRIC_SLOTS = 7;
+
+/** Slot holding the number of virtual users a worker is running */
+const ACTIVE_VUS_SLOT = 0;
+
+/** Slot holding the number of requests a worker has in flight */
+const IN_FLIGHT_SLOT = 1;
+
+/** Slot holding the longest recent event loop delay of a worker in milliseconds */
+const EVENT_LOOP_LAG_SLOT = 2;
+
+/** Slot holding the heap a worker uses in MB */
+const HEAP_USED_SLOT = 3;
+
+/** Slot holding the number of auth token requests a worker has sent */
+const TOKEN_REQUESTS_SLOT = 4;
+
+/** Slot holding the number of auth token requests of a worker that returned no token */
+const TOKEN_FAILURES_SLOT = 5;
+
+/** Slot holding the total latency of the auth token requests of a worker in milliseconds */
+const TOKEN_LATENCY_SLOT = 6;
+
 export class WorkerStateManager implements IWorkerStateManager {
   private readonly _sab: SharedArrayBuffer;
   private readonly _states: Int32Array;
+  private readonly _metricsSab: SharedArrayBuffer;
+  private readonly _metrics: Int32Array;
   private readonly _maxWorkers: number;
 
-  constructor(maxWorkers: number, externalBuffer?: SharedArrayBuffer) {
+  constructor(
+    maxWorkers: number,
+    externalBuffer?: SharedArrayBuffer,
+    externalMetricsBuffer?: SharedArrayBuffer,
+  ) {
     this._maxWorkers = maxWorkers;
 
     // Calculate required buffer size
@@ -38,6 +70,11 @@ export class WorkerStateManager implements IWorkerStateManager {
         Atomics.store(this._states, i, WorkerState.INITIALIZING);
       }
     }
+
+    // Metrics start at zero, so a fresh buffer needs no initialization
+    this._metricsSab =
+      externalMetricsBuffer ?? new SharedArrayBuffer(maxWorkers * METRIC_SLOTS * 4);
+    this._metrics = new Int32Array(this._metricsSab);
   }
 
   /**
@@ -104,10 +141,136 @@ export class WorkerStateManager implements IWorkerStateManager {
     return Atomics.load(this._states, workerId) === targetState;
   }
 
+  /**
+   * Atomically adjust the number of virtual users a worker is running
+   */
+  addActiveVus(workerId: number, delta: number): void {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    Atomics.add(this._metrics, workerId * METRIC_SLOTS + ACTIVE_VUS_SLOT, delta);
+  }
+
+  /**
+   * Get the number of virtual users a worker is running
+   */
+  getActiveVus(workerId: number): number {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    return Atomics.load(this._metrics, workerId * METRIC_SLOTS + ACTIVE_VUS_SLOT);
+  }
+
+  /**
+   * Get the number of virtual users running across all workers
+   */
+  getTotalActiveVus(): number {
+    let total = 0;
+    for (let i = 0; i < this._maxWorkers; i++) {
+      total += this.getActiveVus(i);
+    }
+    return total;
+  }
+
+  /**
+   * Atomically adjust the number of requests a worker has in flight
+   */
+  addInFlight(workerId: number, delta: number): void {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    Atomics.add(this._metrics, workerId * METRIC_SLOTS + IN_FLIGHT_SLOT, delta);
+  }
+
+  /**
+   * Get the number of requests a worker has in flight
+   */
+  getInFlight(workerId: number): number {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    return Atomics.load(this._metrics, workerId * METRIC_SLOTS + IN_FLIGHT_SLOT);
+  }
+
+  /**
+   * Atomically publish the health of a worker: its recent event loop delay and heap usage
+   */
+  setHealth(workerId: number, eventLoopLagMs: number, heapUsedMB: number): void {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    Atomics.store(this._metrics, workerId * METRIC_SLOTS + EVENT_LOOP_LAG_SLOT, eventLoopLagMs);
+    Atomics.store(this._metrics, workerId * METRIC_SLOTS + HEAP_USED_SLOT, heapUsedMB);
+  }
+
+  /**
+   * Get the longest recent event loop delay of a worker in milliseconds
+   */
+  getEventLoopLag(workerId: number): number {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    return Atomics.load(this._metrics, workerId * METRIC_SLOTS + EVENT_LOOP_LAG_SLOT);
+  }
+
+  /**
+   * Get the heap a worker uses in MB
+   */
+  getHeapUsed(workerId: number): number {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    return Atomics.load(this._metrics, workerId * METRIC_SLOTS + HEAP_USED_SLOT);
+  }
+
+  /**
+   * Atomically count an auth token request of a worker and its latency
+   */
+  recordTokenRequest(workerId: number, latencyMs: number, success: boolean): void {
+    if (workerId < 0 || workerId >= this._maxWorkers) {
+      throw new Error(`Invalid worker ID: ${workerId}`);
+    }
+
+    const offset = workerId * METRIC_SLOTS;
+    Atomics.add(this._metrics, offset + TOKEN_REQUESTS_SLOT, 1);
+    Atomics.add(this._metrics, offset + TOKEN_LATENCY_SLOT, Math.round(latencyMs));
+    if (!success) {
+      Atomics.add(this._metrics, offset + TOKEN_FAILURES_SLOT, 1);
+    }
+  }
+
+  /**
+   * Get the auth token requests sent by all workers, how many failed and their total latency
+   */
+  getTokenRequestTotals(): { requests: number; failures: number; latencyMs: number } {
+    const totals = { failures: 0, latencyMs: 0, requests: 0 };
+    for (let i = 0; i < this._maxWorkers; i++) {
+      const offset = i * METRIC_SLOTS;
+      totals.requests += Atomics.load(this._metrics, offset + TOKEN_REQUESTS_SLOT);
+      totals.failures += Atomics.load(this._metrics, offset + TOKEN_FAILURES_SLOT);
+      totals.latencyMs += Atomics.load(this._metrics, offset + TOKEN_LATENCY_SLOT);
+    }
+    return totals;
+  }
+
   /**
    * Get the underlying SharedArrayBuffer
    */
   getSharedBuffer(): SharedArrayBuffer {
     return this._sab;
   }
+
+  /**
+   * Get the SharedArrayBuffer holding the per-worker metrics
+   */
+  getMetricsBuffer(): SharedArrayBuffer {
+    return this._metricsSab;
+  }
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { TemplateGenerators } from './template-generators';
+
+describe('TemplateGenerators', () => {
+  it('should generate uuids', () => {
+    const generators = new TemplateGenerators();
+
+    expect(generators.generate('uuid', [])).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+    );
+  });
+
+  it('should generate random integers within the inclusive range', () => {
+    const generators = new TemplateGenerators();
+
+    for (let i = 0; i < 20; i++) {
+      const value = generators.generate('randomInt', ['5', '7']) as number;
+      expect(value).toBeGreaterThanOrEqual(5);
+      expect(value).toBeLessThanOrEqual(7);
+    }
+    expect(generators.generate('randomInt', ['3', '3'])).toBe(3);
+  });
+
+  it('should generate random strings of the requested length', () => {
+    const generators = new TemplateGenerators();
+
+    expect(generators.generate('randomString', ['12'])).toMatch(/^[A-Za-z0-9]{12}$/);
+    expect(generators.generate('randomString', [])).toHaveLength(8);
+  });
+
+  it('should interleave sequence values by worker', () => {
+    const first = new TemplateGenerators(0, 2);
+    const second = new TemplateGenerators(1, 2);
+
+    expect([first.generate('sequence', []), first.generate('sequence', [])]).toEqual([0, 2]);
+    expect([second.generate('sequence', []), second.generate('sequence', [])]).toEqual([1, 3]);
+  });
+
+  it('should generate names, emails and timestamps', () => {
+    const generators = new TemplateGenerators();
+
+    expect(generators.generate('fullName', [])).toMatch(/^\S+ \S+$/);
+    expect(generators.generate('email', [])).toMatch(/^[a-z.-]+\d+@example\.(com|net|org)$/);
+    expect(generators.generate('timestamp', [])).toBeTypeOf('number');
+  });
+
+  it('should return undefined for unknown generators', () => {
+    expect(new TemplateGenerators().generate('unknown', [])).toBeUndefined();
+  });
+});
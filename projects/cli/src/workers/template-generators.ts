@@ -0,0 +1,111 @@
+import { randomInt, randomUUID } from 'node:crypto';
+
+const RANDOM_STRING_ALPHABET: string =
+  'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const EMAIL_DOMAINS: string[] = ['example.com', 'example.net', 'example.org'];
+const FIRST_NAMES: string[] = [
+  'Ada',
+  'Alan',
+  'Barbara',
+  'Dennis',
+  'Edsger',
+  'Frances',
+  'Grace',
+  'Ken',
+  'Linus',
+  'Margaret',
+  'Radia',
+  'Tim',
+];
+const LAST_NAMES: string[] = [
+  'Allen',
+  'Berners-Lee',
+  'Dijkstra',
+  'Hamilton',
+  'Hopper',
+  'Liskov',
+  'Lovelace',
+  'Perlman',
+  'Ritchie',
+  'Thompson',
+  'Torvalds',
+  'Turing',
+];
+
+function pick(values: string[]): string {
+  return values[randomInt(values.length)];
+}
+
+function toInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * TemplateGenerators - Built-in value generators for `{{$name}}` template placeholders.
+ *
+ * @example
+ * ```typescript
+ * const generators = new TemplateGenerators(workerId, totalWorkers);
+ * generators.generate('randomInt', ['1', '100']); // e.g. 42
+ * generators.generate('email', []); // e.g. 'grace.hopper1234@example.com'
+ * ```
+ *
+ * @remarks
+ * Available generators: `uuid`, `randomInt(min, max)`, `randomString(length)`, `timestamp`,
+ * `sequence`, `firstName`, `lastName`, `fullName` and `email`.
+ *
+ * The sequence counter is owned by a single worker. Values are interleaved by worker id
+ * (`worker + n * totalWorkers`) so they stay unique across all workers of a test.
+ */
+export class TemplateGenerators {
+  private _sequence = 0;
+
+  constructor(
+    private readonly _workerId: number = 0,
+    private readonly _totalWorkers: number = 1,
+  ) {}
+
+  /**
+   * Generates a value for the named generator.
+   *
+   * @param name - Generator name without the leading `$`
+   * @param args - Arguments from the placeholder, e.g. `['1', '100']` for `randomInt(1, 100)`
+   * @returns The generated value, or undefined when the generator does not exist
+   */
+  generate(name: string, args: string[]): string | number | undefined {
+    switch (name) {
+      case 'uuid':
+        return randomUUID();
+      case 'randomInt': {
+        const min = toInteger(args[0], 0);
+        const max = toInteger(args[1], min + 1000);
+        return min >= max ? min : randomInt(min, max + 1);
+      }
+      case 'randomString': {
+        const length = Math.max(1, toInteger(args[0], 8));
+        let value = '';
+        for (let i = 0; i < length; i++) {
+          value += RANDOM_STRING_ALPHABET[randomInt(RANDOM_STRING_ALPHABET.length)];
+        }
+        return value;
+      }
+      case 'timestamp':
+        return Date.now();
+      case 'sequence':
+        return this._workerId + this._sequence++ * this._totalWorkers;
+      case 'firstName':
+        return pick(FIRST_NAMES);
+      case 'lastName':
+        return pick(LAST_NAMES);
+      case 'fullName':
+        return `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`;
+      case 'email': {
+        const local = `${pick(FIRST_NAMES)}.${pick(LAST_NAMES)}${randomInt(10_000)}`;
+        return `${local.toLowerCase()}@${pick(EMAIL_DOMAINS)}`;
+      }
+      default:
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { sampleThinkTime } from './think-time';
+
+describe('sampleThinkTime', () => {
+  it('should always return the minimum for a constant think time', () => {
+    expect(sampleThinkTime({ distribution: 'constant', maxMs: 2000, minMs: 500 }, () => 0.9)).toBe(
+      500,
+    );
+  });
+
+  it('should pick evenly between the minimum and maximum for a uniform think time', () => {
+    const thinkTime = { distribution: 'uniform', maxMs: 1500, minMs: 500 } as const;
+
+    expect(sampleThinkTime(thinkTime, () => 0)).toBe(500);
+    expect(sampleThinkTime(thinkTime, () => 0.5)).toBe(1000);
+    expect(sampleThinkTime(thinkTime, () => 0.999)).toBe(1499);
+  });
+
+  it('should start an exponential think time at the minimum and cap it at the maximum', () => {
+    const thinkTime = { distribution: 'exponential', maxMs: 1000, minMs: 200 } as const;
+
+    expect(sampleThinkTime(thinkTime, () => 0)).toBe(200);
+    expect(sampleThinkTime(thinkTime, () => 1 - Math.exp(-1))).toBe(600);
+    expect(sampleThinkTime(thinkTime, () => 0.9999)).toBe(1000);
+  });
+
+  it('should return the minimum when the range is empty', () => {
+    expect(sampleThinkTime({ distribution: 'uniform', maxMs: 300, minMs: 300 }, () => 0.5)).toBe(
+      300,
+    );
+  });
+});
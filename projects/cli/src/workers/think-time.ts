@@ -0,0 +1,34 @@
+import type { TressiThinkTimeConfig } from '@tressi/shared/common';
+
+/**
+ * Draws the think time of a virtual user from its configured distribution.
+ *
+ * @param thinkTime - The think time configuration
+ * @param random - Source of uniform random numbers in [0, 1)
+ * @returns The think time in milliseconds, rounded to whole milliseconds
+ *
+ * @remarks
+ * - `constant` always returns `minMs`
+ * - `uniform` picks evenly between `minMs` and `maxMs`
+ * - `exponential` starts at `minMs` and averages the midpoint of `minMs` and `maxMs`, so most
+ *   pauses are short with occasional long ones. Draws beyond `maxMs` are capped.
+ *
+ * @example
+ * ```typescript
+ * sampleThinkTime({ distribution: 'uniform', minMs: 500, maxMs: 1500 }); // e.g. 1042
+ * ```
+ */
+export function sampleThinkTime(
+  thinkTime: TressiThinkTimeConfig,
+  random: () => number = Math.random,
+): number {
+  const { distribution, maxMs, minMs } = thinkTime;
+  if (distribution === 'constant' || maxMs <= minMs) return minMs;
+
+  if (distribution === 'uniform') {
+    return Math.round(minMs + random() * (maxMs - minMs));
+  }
+
+  const meanMs = (maxMs - minMs) / 2;
+  return Math.round(Math.min(minMs - Math.log(1 - random()) * meanMs, maxMs));
+}
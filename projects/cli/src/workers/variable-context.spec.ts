@@ -0,0 +1,179 @@
+import type { RequestResult, TressiRequestConfig } from '@tressi/shared/common';
+import { describe, expect, it } from 'vitest';
+
+import { TemplateGenerators } from './template-generators';
+import { evaluateJsonPath, VariableContext } from './variable-context';
+
+function createResult(overrides: Partial<RequestResult> = {}): RequestResult {
+  return {
+    latencyMs: 1,
+    method: 'GET',
+    status: 200,
+    success: true,
+    timestamp: 0,
+    url: 'http://example.com',
+    ...overrides,
+  };
+}
+
+describe('evaluateJsonPath', () => {
+  const document = {
+    data: {
+      items: [{ id: 7 }, { id: 8 }],
+      'weird key': 'value',
+    },
+  };
+
+  it('should resolve dot and index segments', () => {
+    expect(evaluateJsonPath(document, '$.data.items[1].id')).toBe(8);
+  });
+
+  it('should resolve bracket notation', () => {
+    expect(evaluateJsonPath(document, "$.data['weird key']")).toBe('value');
+    expect(evaluateJsonPath(document, '$["data"].items[0]')).toEqual({ id: 7 });
+  });
+
+  it('should return the root for $', () => {
+    expect(evaluateJsonPath(document, '$')).toBe(document);
+  });
+
+  it('should return undefined for missing or invalid paths', () => {
+    expect(evaluateJsonPath(document, '$.data.missing.id')).toBeUndefined();
+    expect(evaluateJsonPath(document, '$.data.items.id[0]')).toBeUndefined();
+    expect(evaluateJsonPath(document, 'data.items')).toBeUndefined();
+    expect(evaluateJsonPath(document, '$.data.items[*]')).toBeUndefined();
+  });
+});
+
+describe('VariableContext', () => {
+  it('should interpolate known variables and keep unknown placeholders', () => {
+    const context = new VariableContext();
+    context.set('id', '42');
+
+    expect(context.interpolate('/users/{{id}}/{{ missing }}')).toBe('/users/42/{{ missing }}');
+    expect(context.interpolate('/users/{{ id }}')).toBe('/users/42');
+  });
+
+  it('should resolve url, headers and nested payload values', () => {
+    const context = new VariableContext();
+    context.set('token', 'abc');
+    context.set('id', '7');
+
+    const request: TressiRequestConfig = {
+      bodyType: 'json',
+      checks: [],
+      earlyExit: {
+        enabled: false,
+        errorRateThreshold: 1,
+        exitStatusCodes: [],
+        monitoringWindowSeconds: 1,
+      },
+      headers: { Authorization: 'Bearer {{token}}' },
+      method: 'POST',
+      payload: { items: [{ id: '{{id}}' }], quantity: 2 },
+      rampUpDurationSec: 0,
+      rps: 1,
+      sendBody: true,
+      stages: [],
+      thresholds: [],
+      url: 'http://example.com/cart/{{id}}',
+    };
+
+    const resolved = context.resolveRequest(request);
+
+    expect(resolved.url).toBe('http://example.com/cart/7');
+    expect(resolved.headers).toEqual({ Authorization: 'Bearer abc' });
+    expect(resolved.payload).toEqual({ items: [{ id: '7' }], quantity: 2 });
+    expect(request.url).toBe('http://example.com/cart/{{id}}');
+  });
+
+  it('should seed variables from a data row', () => {
+    const context = new VariableContext(undefined, { email: 'ada@example.com', user: 'ada' });
+
+    expect(context.interpolate('{{user}} <{{email}}>')).toBe('ada <ada@example.com>');
+  });
+
+  it('should fill generator placeholders and keep unknown generators', () => {
+    const context = new VariableContext(new TemplateGenerators(0, 1));
+
+    expect(context.interpolate('/orders/{{$sequence}}?n={{ $randomInt(4, 4) }}')).toBe(
+      '/orders/0?n=4',
+    );
+    expect(context.interpolate('{{$nope}}')).toBe('{{$nope}}');
+    expect(new VariableContext().interpolate('{{$uuid}}')).toBe('{{$uuid}}');
+  });
+
+  it('should keep numeric generator values as numbers in payloads', () => {
+    const context = new VariableContext(new TemplateGenerators(0, 1));
+
+    expect(
+      context.resolveRequest({
+        headers: {},
+        payload: { id: '{{$sequence}}', label: 'order-{{$sequence}}', size: '{{$randomInt(2,2)}}' },
+        url: 'http://example.com',
+      } as unknown as TressiRequestConfig).payload,
+    ).toEqual({ id: 0, label: 'order-1', size: 2 });
+  });
+
+  it('should resolve the variables of GraphQL operations', () => {
+    const context = new VariableContext(new TemplateGenerators(0, 1), { userId: '7' });
+
+    const resolved = context.resolveRequest({
+      graphql: {
+        operationName: 'GetUser',
+        query: 'query GetUser($id: ID!, $n: Int) { user(id: $id) { name } }',
+        variables: { id: '{{userId}}', n: '{{$randomInt(3,3)}}' },
+      },
+      headers: {},
+      payload: {},
+      url: 'http://example.com/graphql',
+    } as unknown as TressiRequestConfig);
+
+    expect(resolved.graphql?.variables).toEqual({ id: '7', n: 3 });
+    expect(resolved.graphql?.operationName).toBe('GetUser');
+  });
+
+  it('should extract from body, header and cookie', () => {
+    const context = new VariableContext();
+    const result = createResult({
+      body: '{"user":{"id":5,"roles":["admin"]}}',
+      headers: {
+        'set-cookie': ['theme=dark; Path=/', 'session=s%3A123; HttpOnly'],
+        'x-request-id': 'req-1',
+      },
+    });
+
+    const extracted = context.extract(
+      [
+        { from: 'body', path: '$.user.id', variable: 'userId' },
+        { from: 'body', path: '$.user.roles', variable: 'roles' },
+        { from: 'header', path: 'X-Request-Id', variable: 'requestId' },
+        { from: 'cookie', path: 'session', variable: 'session' },
+      ],
+      result,
+    );
+
+    expect(extracted).toBe(true);
+    expect(context.get('userId')).toBe('5');
+    expect(context.get('roles')).toBe('["admin"]');
+    expect(context.get('requestId')).toBe('req-1');
+    expect(context.get('session')).toBe('s:123');
+  });
+
+  it('should report a failed extraction', () => {
+    const context = new VariableContext();
+
+    expect(
+      context.extract(
+        [{ from: 'body', path: '$.token', variable: 'token' }],
+        createResult({ body: 'not json' }),
+      ),
+    ).toBe(false);
+    expect(
+      context.extract(
+        [{ from: 'cookie', path: 'session', variable: 'session' }],
+        createResult({ headers: {} }),
+      ),
+    ).toBe(false);
+  });
+});
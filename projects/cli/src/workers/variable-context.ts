@@ -0,0 +1,223 @@
+import type { DataRow } from '@tressi/shared/cli';
+import type {
+  RequestResult,
+  TressiRequestConfig,
+  TressiScenarioExtract,
+} from '@tressi/shared/common';
+
+import type { TemplateGenerators } from './template-generators';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\$?[A-Za-z_][A-Za-z0-9_]*)(?:\(([^)]*)\))?\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*(\$?[A-Za-z_][A-Za-z0-9_]*)(?:\(([^)]*)\))?\s*\}\}$/;
+const JSON_PATH_SEGMENT = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(?:'([^']*)'|"([^"]*)")\]/y;
+
+/**
+ * Evaluates a JSONPath expression against a parsed JSON value.
+ *
+ * @param value - The parsed JSON document
+ * @param path - Expression such as `$.data.items[0].id` or `$['key']`
+ * @returns The matched value, or undefined when the path does not resolve
+ *
+ * @remarks
+ * Supports the subset needed for value extraction: the root `$`, dot and bracket
+ * member access and array indices. Wildcards, filters and slices are not supported.
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  if (!path.startsWith('$')) return undefined;
+
+  let current = value;
+  let position = 1;
+
+  while (position < path.length) {
+    JSON_PATH_SEGMENT.lastIndex = position;
+    const match = JSON_PATH_SEGMENT.exec(path);
+    if (!match) return undefined;
+    position = JSON_PATH_SEGMENT.lastIndex;
+
+    if (current === null || typeof current !== 'object') return undefined;
+
+    if (match[2] !== undefined) {
+      if (!Array.isArray(current)) return undefined;
+      current = current[Number(match[2])];
+    } else {
+      const key = match[1] ?? match[3] ?? match[4];
+      current = (current as Record<string, unknown>)[key];
+    }
+  }
+
+  return current;
+}
+
+/**
+ * VariableContext - Variables owned by a single virtual user while it walks through a scenario.
+ *
+ * @example
+ * ```typescript
+ * const context = new VariableContext(generators, { userId: '7' });
+ * context.extract([{ from: 'body', path: '$.token', variable: 'token' }], loginResult);
+ * const next = context.resolveRequest(cartStep); // {{token}} replaced in url, headers and payload
+ * ```
+ *
+ * @remarks
+ * A new context is created for every scenario iteration so values never leak between
+ * virtual users. Placeholders referencing unknown variables are left untouched.
+ *
+ * The context is seeded with the columns of a data file row, and `{{$name(args)}}`
+ * placeholders are filled by the {@link TemplateGenerators}. A payload string consisting of a
+ * single generator placeholder that yields a number, such as `"{{$randomInt(1, 10)}}"`,
+ * is replaced by the number itself.
+ */
+export class VariableContext {
+  private readonly _variables = new Map<string, string>();
+
+  constructor(
+    private readonly _generators?: TemplateGenerators,
+    row?: DataRow,
+  ) {
+    if (row) {
+      for (const [name, value] of Object.entries(row)) {
+        this._variables.set(name, value);
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this._variables.get(name);
+  }
+
+  set(name: string, value: string): void {
+    this._variables.set(name, value);
+  }
+
+  /**
+   * Replaces `{{name}}` placeholders with the current variable values
+   * and `{{$name(args)}}` placeholders with generated values.
+   */
+  interpolate(template: string): string {
+    if (!template.includes('{{')) return template;
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, args?: string) => {
+      const value = this._resolve(name, args);
+      return value === undefined ? placeholder : String(value);
+    });
+  }
+
+  /**
+   * Returns a copy of the request with placeholders resolved in the URL, headers, payload and
+   * GraphQL variables.
+   */
+  resolveRequest(request: TressiRequestConfig): TressiRequestConfig {
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(request.headers)) {
+      headers[key] = this.interpolate(value);
+    }
+
+    return {
+      ...request,
+      headers,
+      payload: this._interpolateValue(request.payload) as TressiRequestConfig['payload'],
+      url: this.interpolate(request.url),
+      ...(request.graphql && {
+        graphql: {
+          ...request.graphql,
+          variables: this._interpolateValue(request.graphql.variables) as Record<string, unknown>,
+        },
+      }),
+    };
+  }
+
+  /**
+   * Applies extraction rules to a response and stores the values.
+   *
+   * @returns False when any rule did not resolve to a value
+   */
+  extract(rules: TressiScenarioExtract[], result: RequestResult): boolean {
+    let parsedBody: unknown;
+    let bodyParsed = false;
+
+    for (const rule of rules) {
+      let value: unknown;
+
+      if (rule.from === 'body') {
+        if (!bodyParsed) {
+          parsedBody = this._parseBody(result.body);
+          bodyParsed = true;
+        }
+        value = evaluateJsonPath(parsedBody, rule.path);
+      } else if (rule.from === 'header') {
+        value = this._getHeader(result.headers, rule.path);
+      } else {
+        value = this._getCookie(result.headers, rule.path);
+      }
+
+      if (value === undefined || value === null) return false;
+      this._variables.set(rule.variable, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    return true;
+  }
+
+  private _resolve(name: string, args?: string): string | number | undefined {
+    if (!name.startsWith('$')) return this._variables.get(name);
+    const parsedArgs = args?.trim() ? args.split(',').map((arg) => arg.trim()) : [];
+    return this._generators?.generate(name.slice(1), parsedArgs);
+  }
+
+  private _interpolateValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      const match = SINGLE_PLACEHOLDER_PATTERN.exec(value);
+      if (match?.[1].startsWith('$')) {
+        const generated = this._resolve(match[1], match[2]);
+        if (generated !== undefined) return generated;
+      }
+      return this.interpolate(value);
+    }
+    if (Array.isArray(value)) return value.map((item) => this._interpolateValue(item));
+    if (value !== null && typeof value === 'object') {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = this._interpolateValue(item);
+      }
+      return resolved;
+    }
+    return value;
+  }
+
+  private _parseBody(body: string | undefined): unknown {
+    if (!body) return undefined;
+    try {
+      return JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private _getHeader(headers: Record<string, unknown> | undefined, name: string): unknown {
+    if (!headers) return undefined;
+    const target = name.toLowerCase();
+    const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === target);
+    const value = entry?.[1];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private _getCookie(headers: Record<string, unknown> | undefined, name: string): unknown {
+    const setCookie = headers?.['set-cookie'];
+    if (setCookie === undefined) return undefined;
+    const cookies = Array.isArray(setCookie) ? setCookie : [setCookie];
+
+    for (const cookie of cookies) {
+      const [pair] = String(cookie).split(';');
+      const separator = pair.indexOf('=');
+      if (separator === -1) continue;
+      if (pair.slice(0, separator).trim() === name) {
+        const value = pair.slice(separator + 1).trim();
+        try {
+          return decodeURIComponent(value);
+        } catch {
+          return value;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
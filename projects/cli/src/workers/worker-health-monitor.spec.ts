@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { WorkerStateManager } from './shared-memory/worker-state-manager';
+import { WorkerHealthMonitor } from './worker-health-monitor';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const blockEventLoop = (ms: number): void => {
+  const start = Date.now();
+  while (Date.now() - start < ms) {
+    // Busy wait to delay the event loop
+  }
+};
+
+describe('WorkerHealthMonitor', () => {
+  let monitor: WorkerHealthMonitor | undefined;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it('should publish the heap a worker uses', async () => {
+    const manager = new WorkerStateManager(2);
+    monitor = new WorkerHealthMonitor(manager, 1, 20);
+
+    monitor.start();
+    await sleep(100);
+
+    expect(manager.getHeapUsed(1)).toBeGreaterThan(0);
+    expect(manager.getHeapUsed(0)).toBe(0);
+  });
+
+  it('should publish the event loop delay of a blocked worker', async () => {
+    const manager = new WorkerStateManager(1);
+    monitor = new WorkerHealthMonitor(manager, 0, 300);
+
+    // Published once after the block and before the next interval resets it
+    monitor.start();
+    await sleep(30);
+    blockEventLoop(120);
+    await sleep(250);
+
+    expect(manager.getEventLoopLag(0)).toBeGreaterThanOrEqual(80);
+  });
+
+  it('should reset the health of a worker when stopped', async () => {
+    const manager = new WorkerStateManager(1);
+    monitor = new WorkerHealthMonitor(manager, 0, 20);
+
+    monitor.start();
+    await sleep(60);
+    monitor.stop();
+
+    expect(manager.getEventLoopLag(0)).toBe(0);
+    expect(manager.getHeapUsed(0)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { type IntervalHistogram, monitorEventLoopDelay } from 'node:perf_hooks';
+import { getHeapStatistics } from 'node:v8';
+import type { IWorkerStateManager } from '@tressi/shared/cli';
+
+/** How often a worker publishes its health */
+const HEALTH_PUBLISH_INTERVAL_MS = 1000;
+
+/** Sampling interval of the event loop delay in milliseconds */
+const EVENT_LOOP_RESOLUTION_MS = 10;
+
+/**
+ * Publishes the health of a worker through the {@link IWorkerStateManager}, so the main thread
+ * can tell when the load generator rather than the target is the bottleneck.
+ *
+ * @remarks
+ * Once a second the worker publishes:
+ * - the longest event loop delay since the previous publish, in milliseconds
+ * - the heap its isolate uses, in MB
+ *
+ * A busy event loop delays every request the worker sends, so a long delay means requests start
+ * later than scheduled regardless of how fast the target responds. Both values are reset to 0
+ * when the monitor stops.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new WorkerHealthMonitor(workerStateManager, workerId);
+ * monitor.start();
+ * // ... run the test
+ * monitor.stop();
+ * ```
+ */
+export class WorkerHealthMonitor {
+  private readonly _eventLoopDelay: IntervalHistogram = monitorEventLoopDelay({
+    resolution: EVENT_LOOP_RESOLUTION_MS,
+  });
+  private _interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly _workerStateManager: IWorkerStateManager,
+    private readonly _workerId: number,
+    private readonly _intervalMs: number = HEALTH_PUBLISH_INTERVAL_MS,
+  ) {}
+
+  start(): void {
+    if (this._interval) return;
+
+    this._eventLoopDelay.enable();
+    this._interval = setInterval(() => this._publish(), this._intervalMs);
+    this._interval.unref();
+  }
+
+  stop(): void {
+    if (!this._interval) return;
+
+    clearInterval(this._interval);
+    this._interval = null;
+    this._eventLoopDelay.disable();
+    this._eventLoopDelay.reset();
+    this._workerStateManager.setHealth(this._workerId, 0, 0);
+  }
+
+  private _publish(): void {
+    // Samples include the sampling interval itself, which is not a delay
+    const maxDelayMs = this._eventLoopDelay.max / 1e6 - EVENT_LOOP_RESOLUTION_MS;
+    const eventLoopLagMs = this._eventLoopDelay.count > 0 ? Math.max(Math.round(maxDelayMs), 0) : 0;
+    const heapUsedMB = Math.round(getHeapStatistics().used_heap_size / 1024 / 1024);
+
+    this._workerStateManager.setHealth(this._workerId, eventLoopLagMs, heapUsedMB);
+    this._eventLoopDelay.reset();
+  }
+}
@@ -1,5 +1,6 @@
+import os from 'node:os';
 import { Worker } from 'node:worker_threads';
-import type { TressiConfig } from '@tressi/shared/common';
+import { EndpointState, type TressiConfig } from '@tressi/shared/common';
 import type { Procedure } from '@vitest/spy';
 import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
 
@@ -24,23 +25,58 @@ vi.mock('node:worker_threads', () => {
 vi.mock('./shared-memory/shared-memory-factory', () => ({
   SharedMemoryFactory: {
     createManagers: vi.fn().mockReturnValue({
+      correctedHdrHistogram: [
+        {
+          getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
+        },
+      ],
       endpointState: {
+        getActiveEndpointsCount: vi.fn().mockReturnValue(1),
+        getEndpointState: vi.fn().mockReturnValue(1),
         getRunningEndpointsCount: vi.fn().mockReturnValue(1),
         getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
         isEndpointRunning: vi.fn().mockReturnValue(true),
+        startEndpoint: vi.fn(),
+        stopEndpointManually: vi.fn(),
       },
+      eventGapHdrHistogram: [
+        {
+          getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
+        },
+      ],
       hdrHistogram: [
         {
           getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
         },
       ],
+      loadControl: {
+        getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
+        isPaused: vi.fn().mockReturnValue(false),
+        setEndpointRps: vi.fn(),
+        setMultiplier: vi.fn(),
+        setPaused: vi.fn(),
+      },
+      phaseHdrHistogram: Object.fromEntries(
+        ['dns', 'connect', 'tls', 'ttfb', 'download'].map((phase) => [
+          phase,
+          [{ getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)) }],
+        ]),
+      ),
+      roundTripHdrHistogram: [
+        {
+          getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
+        },
+      ],
       statsCounter: [
         {
           getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
         },
       ],
       workerState: {
+        getMetricsBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
         getSharedBuffer: vi.fn().mockReturnValue(new SharedArrayBuffer(1024)),
+        getTokenRequestTotals: vi.fn().mockReturnValue({ failures: 0, latencyMs: 0, requests: 0 }),
+        getTotalActiveVus: vi.fn().mockReturnValue(0),
         getWorkerState: vi.fn(),
         setWorkerState: vi.fn(),
         waitForState: vi.fn().mockResolvedValue(true),
@@ -49,6 +85,12 @@ vi.mock('./shared-memory/shared-memory-factory', () => ({
   },
 }));
 
+vi.mock('../utils/data-file-utils', () => ({
+  DataFileUtils: {
+    loadRows: vi.fn().mockResolvedValue([{ user: 'a' }, { user: 'b' }]),
+  },
+}));
+
 vi.mock('../utils/file-utils', () => ({
   FileUtils: {
     getWorkerThreadPath: vi.fn().mockReturnValue('./worker-thread.js'),
@@ -154,6 +196,284 @@ describe('WorkerPoolManager', () => {
       expect(Worker).toHaveBeenCalled();
     });
 
+    it('should assign scenario steps as endpoints of the same worker', async () => {
+      const scenarioConfig = {
+        ...mockConfig,
+        scenarios: [
+          {
+            earlyExit: { ...mockConfig.requests[0].earlyExit },
+            name: 'checkout',
+            rampUpDurationSec: 0,
+            rps: 2,
+            steps: [
+              {
+                extract: [{ from: 'body', path: '$.token', variable: 'token' }],
+                headers: {},
+                method: 'POST',
+                payload: {},
+                url: 'http://example.com/login',
+              },
+              {
+                extract: [],
+                headers: {},
+                method: 'GET',
+                payload: {},
+                url: 'http://example.com/cart',
+              },
+            ],
+          },
+        ],
+      } as TressiConfig;
+
+      const manager = new WorkerPoolManager(scenarioConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.endpointIndices).toEqual([0, 1, 2]);
+      expect(workerData.assignedEndpoints).toHaveLength(3);
+      expect(workerData.assignedScenarios).toEqual([
+        {
+          name: 'checkout',
+          rampUpDurationSec: 0,
+          rps: 2,
+          steps: [
+            {
+              endpointIndex: 1,
+              extract: [{ from: 'body', path: '$.token', variable: 'token' }],
+            },
+            { endpointIndex: 2, extract: [] },
+          ],
+        },
+      ]);
+    });
+
+    it('should assign WebSocket endpoints after the scenario steps', async () => {
+      const webSocket = {
+        headers: {},
+        holdDurationSec: 5,
+        messages: [{ data: 'ping', type: 'send' as const }],
+        name: 'chat',
+        rps: 3,
+        url: 'ws://example.com/chat',
+      };
+      const webSocketConfig = {
+        ...mockConfig,
+        scenarios: [
+          {
+            name: 'checkout',
+            rps: 2,
+            steps: [{ method: 'GET', url: 'http://example.com/cart' }],
+          },
+        ],
+        websockets: [webSocket],
+      } as TressiConfig;
+
+      const manager = new WorkerPoolManager(webSocketConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.endpointIndices).toEqual([0, 1, 2]);
+      expect(workerData.assignedEndpoints).toContainEqual(
+        expect.objectContaining({ method: 'WS', name: 'chat', url: 'ws://example.com/chat' }),
+      );
+      expect(workerData.assignedWebSockets).toEqual([{ ...webSocket, endpointIndex: 2 }]);
+      expect(workerData.roundTripHistogramBuffer).toBeInstanceOf(SharedArrayBuffer);
+    });
+
+    it('should assign gRPC endpoints after the WebSocket endpoints', async () => {
+      const grpc = {
+        message: { name: 'tressi' },
+        metadata: {},
+        method: 'SayHello',
+        protoPath: './greeter.proto',
+        rps: 4,
+        service: 'helloworld.Greeter',
+        url: 'http://localhost:50051',
+      };
+      const grpcConfig = {
+        ...mockConfig,
+        grpc: [grpc],
+        websockets: [{ messages: [], rps: 1, url: 'ws://example.com/chat' }],
+      } as unknown as TressiConfig;
+
+      const manager = new WorkerPoolManager(grpcConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.endpointIndices).toEqual([0, 1, 2]);
+      expect(workerData.assignedEndpoints).toContainEqual(
+        expect.objectContaining({
+          method: 'GRPC',
+          payload: { name: 'tressi' },
+          url: 'http://localhost:50051/helloworld.Greeter/SayHello',
+        }),
+      );
+      expect(workerData.assignedGrpc).toEqual([{ ...grpc, endpointIndex: 2 }]);
+    });
+
+    it('should assign streaming endpoints after the gRPC endpoints', async () => {
+      const stream = {
+        headers: {},
+        holdDurationSec: 0,
+        reconnectDelayMs: 1000,
+        subscriptions: 50,
+        thresholds: [],
+        type: 'sse' as const,
+        url: 'http://example.com/events',
+      };
+      const streamConfig = {
+        ...mockConfig,
+        grpc: [
+          {
+            message: {},
+            method: 'SayHello',
+            protoPath: './greeter.proto',
+            rps: 1,
+            service: 'helloworld.Greeter',
+            url: 'http://localhost:50051',
+          },
+        ],
+        streams: [stream],
+      } as unknown as TressiConfig;
+
+      const manager = new WorkerPoolManager(streamConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.endpointIndices).toEqual([0, 1, 2]);
+      expect(workerData.assignedEndpoints).toContainEqual(
+        expect.objectContaining({ method: 'SSE', rps: 50, url: 'http://example.com/events' }),
+      );
+      expect(workerData.assignedStreams).toEqual([{ ...stream, endpointIndex: 2 }]);
+      expect(workerData.eventGapHistogramBuffer).toBeInstanceOf(SharedArrayBuffer);
+    });
+
+    it('should pass data file rows to workers', async () => {
+      const dataConfig = {
+        ...mockConfig,
+        options: { ...mockConfig.options, data: { distribution: 'unique', path: 'users.csv' } },
+      } as TressiConfig;
+
+      const manager = new WorkerPoolManager(dataConfig);
+      await manager.start();
+
+      const { DataFileUtils } = await import('../utils/data-file-utils');
+      expect(DataFileUtils.loadRows).toHaveBeenCalledWith('users.csv');
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.dataDistribution).toBe('unique');
+      expect(workerData.dataRows).toEqual([{ user: 'a' }, { user: 'b' }]);
+    });
+
+    it('should stagger virtual users over the VU ramp up', async () => {
+      const vuConfig = {
+        ...mockConfig,
+        options: {
+          ...mockConfig.options,
+          executor: {
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'virtualUsers',
+            vuRampUpSec: 3,
+            vus: 3,
+          },
+        },
+      } as TressiConfig;
+
+      const manager = new WorkerPoolManager(vuConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.executor).toEqual(vuConfig.options.executor);
+      expect(workerData.vuStartDelaysMs).toEqual([0, 1000, 2000]);
+    });
+
+    it('should run every request in each virtual user worker and use no more workers than users', async () => {
+      const cpusSpy = vi.spyOn(os, 'cpus').mockReturnValue(new Array(4).fill(os.cpus()[0]));
+      const { SharedMemoryFactory } = await import('./shared-memory/shared-memory-factory');
+      const createManagers = vi.mocked(SharedMemoryFactory.createManagers);
+      const managers = createManagers(1, []);
+      const twice = <T>(perWorker: T[]): T[] => [...perWorker, ...perWorker];
+      createManagers.mockReturnValueOnce({
+        ...managers,
+        correctedHdrHistogram: twice(managers.correctedHdrHistogram),
+        eventGapHdrHistogram: twice(managers.eventGapHdrHistogram),
+        hdrHistogram: twice(managers.hdrHistogram),
+        phaseHdrHistogram: Object.fromEntries(
+          Object.entries(managers.phaseHdrHistogram).map(([phase, perWorker]) => [
+            phase,
+            twice(perWorker),
+          ]),
+        ) as typeof managers.phaseHdrHistogram,
+        roundTripHdrHistogram: twice(managers.roundTripHdrHistogram),
+        statsCounter: twice(managers.statsCounter),
+      });
+      const stream = {
+        headers: {},
+        holdDurationSec: 0,
+        reconnectDelayMs: 1000,
+        subscriptions: 1,
+        thresholds: [],
+        type: 'sse' as const,
+        url: 'http://example.com/events',
+      };
+      const vuConfig = {
+        ...mockConfig,
+        options: {
+          ...mockConfig.options,
+          executor: {
+            thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+            type: 'virtualUsers',
+            vuRampUpSec: 0,
+            vus: 2,
+          },
+          threads: 4,
+        },
+        requests: [1, 2, 3, 4].map((id) => ({
+          ...mockConfig.requests[0],
+          url: `http://e.com/${id}`,
+        })),
+        streams: [stream, { ...stream, url: 'http://example.com/news' }],
+      } as unknown as TressiConfig;
+
+      const manager = new WorkerPoolManager(vuConfig);
+      await manager.start();
+
+      const workers = vi
+        .mocked(Worker)
+        .mock.calls.map(
+          ([, options]) => (options as { workerData: Record<string, unknown> }).workerData,
+        );
+      expect(workers).toHaveLength(2);
+      expect(workers.map((data) => data.endpointIndices)).toEqual([
+        [0, 1, 2, 3, 4],
+        [0, 1, 2, 3, 5],
+      ]);
+      expect(workers.map((data) => data.vuStartDelaysMs)).toEqual([[0], [0]]);
+      cpusSpy.mockRestore();
+    });
+
+    it('should not start virtual users at a fixed RPS', async () => {
+      const manager = new WorkerPoolManager(mockConfig);
+      await manager.start();
+
+      const { workerData } = vi.mocked(Worker).mock.calls[0][1] as {
+        workerData: Record<string, unknown>;
+      };
+      expect(workerData.vuStartDelaysMs).toEqual([]);
+    });
+
     it('should call worker error handler when worker emits error event', async () => {
       const manager = new WorkerPoolManager(mockConfig);
       await manager.start();
@@ -233,6 +553,33 @@ describe('WorkerPoolManager', () => {
       messageCallback(bodySampleMessage);
     });
 
+    it('should pass errorLog messages from workers to the metrics aggregator', async () => {
+      const { MetricsAggregator } = await import('./metrics-aggregation/metrics-aggregator');
+      const recordErrors = vi.spyOn(MetricsAggregator.prototype, 'recordErrors');
+      const manager = new WorkerPoolManager(mockConfig);
+      await manager.start();
+
+      const workerInstance = (Worker as unknown as Mock).mock.results[0].value;
+      const messageCallback = workerInstance.on.mock.calls.find(
+        (call: unknown[]) => call[0] === 'message',
+      )?.[1];
+      const entries = [
+        {
+          count: 2,
+          endpointKey: 'GET http://example.com/api/1',
+          firstSeenAt: 1000,
+          kind: 'timeout',
+          lastSeenAt: 2000,
+          message: 'Headers Timeout Error',
+          sample: { url: 'http://example.com/api/1' },
+        },
+      ];
+
+      messageCallback({ entries, type: 'errorLog' });
+
+      expect(recordErrors).toHaveBeenCalledWith(expect.any(String), entries);
+    });
+
     it('should ignore non-bodySample messages', async () => {
       const manager = new WorkerPoolManager(mockConfig);
       await manager.start();
@@ -293,6 +640,143 @@ describe('WorkerPoolManager', () => {
     });
   });
 
+  describe('load control', () => {
+    const getLoadControl = async (): Promise<Record<string, Mock<Procedure>>> => {
+      const { SharedMemoryFactory } = await import('./shared-memory/shared-memory-factory');
+      return vi.mocked(SharedMemoryFactory.createManagers).mock.results[0].value.loadControl;
+    };
+
+    const spyOnTimeline = (manager: WorkerPoolManager): Mock<Procedure> =>
+      vi.spyOn(
+        (manager as unknown as { _metricsAggregator: { recordTimelineEvent: Procedure } })
+          ._metricsAggregator,
+        'recordTimelineEvent',
+      ) as unknown as Mock<Procedure>;
+
+    it('should pause and resume the workers, recording each change once', async () => {
+      const manager = new WorkerPoolManager(mockConfig);
+      const loadControl = await getLoadControl();
+      const recordTimelineEvent = spyOnTimeline(manager);
+
+      manager.pause();
+      loadControl.isPaused.mockReturnValue(true);
+      manager.pause();
+      manager.resume();
+      loadControl.isPaused.mockReturnValue(false);
+
+      expect(loadControl.setPaused.mock.calls).toEqual([[true], [false]]);
+      expect(recordTimelineEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'paused',
+        'resumed',
+      ]);
+    });
+
+    it('should change the rate of requests and of scenarios through their first step', async () => {
+      const scenarioConfig = {
+        ...mockConfig,
+        scenarios: [
+          {
+            name: 'checkout',
+            rps: 2,
+            steps: [
+              { method: 'POST', url: 'http://example.com/login' },
+              { method: 'GET', url: 'http://example.com/cart' },
+            ],
+          },
+        ],
+      } as TressiConfig;
+      const manager = new WorkerPoolManager(scenarioConfig);
+      const loadControl = await getLoadControl();
+      const recordTimelineEvent = spyOnTimeline(manager);
+
+      manager.setRate({
+        endpointRps: { checkout: 5, 'GET http://example.com/api/1': null },
+        multiplier: 1.5,
+      });
+
+      expect(loadControl.setMultiplier).toHaveBeenCalledWith(1.5);
+      expect(loadControl.setEndpointRps.mock.calls).toEqual([
+        [1, 5],
+        [0, undefined],
+      ]);
+      expect(recordTimelineEvent).toHaveBeenCalledWith({
+        endpointRps: { checkout: 5, 'GET http://example.com/api/1': null },
+        epoch: expect.any(Number),
+        multiplier: 1.5,
+        type: 'rate',
+      });
+    });
+
+    it('should reject rate changes for unknown keys without applying any of them', async () => {
+      const manager = new WorkerPoolManager(mockConfig);
+      const loadControl = await getLoadControl();
+
+      expect(() => manager.setRate({ endpointRps: { missing: 5 }, multiplier: 2 })).toThrow(
+        'Unknown request or scenario: missing',
+      );
+      expect(loadControl.setMultiplier).not.toHaveBeenCalled();
+    });
+
+    it('should reject rate changes of tests running virtual users', () => {
+      const manager = new WorkerPoolManager({
+        ...mockConfig,
+        options: { ...mockConfig.options, executor: { type: 'virtualUsers' } },
+      } as TressiConfig);
+
+      expect(() => manager.setRate({ multiplier: 2 })).toThrow(
+        'The rate of a test running virtual users cannot be changed',
+      );
+    });
+  });
+
+  describe('manual endpoint control', () => {
+    const getEndpointState = async (): Promise<Record<string, Mock<Procedure>>> => {
+      const { SharedMemoryFactory } = await import('./shared-memory/shared-memory-factory');
+      return vi.mocked(SharedMemoryFactory.createManagers).mock.results[0].value.endpointState;
+    };
+
+    const spyOnManualStops = (manager: WorkerPoolManager): Mock<Procedure> =>
+      vi.spyOn(
+        (manager as unknown as { _metricsAggregator: { setEndpointManuallyStopped: Procedure } })
+          ._metricsAggregator,
+        'setEndpointManuallyStopped',
+      ) as unknown as Mock<Procedure>;
+
+    it('should stop a running endpoint and start it again', async () => {
+      const manager = new WorkerPoolManager(mockConfig);
+      const endpointState = await getEndpointState();
+      const setEndpointManuallyStopped = spyOnManualStops(manager);
+
+      manager.stopEndpoint('GET http://example.com/api/1');
+      endpointState.getEndpointState.mockReturnValueOnce(EndpointState.MANUALLY_STOPPED);
+      manager.startEndpoint('GET http://example.com/api/1');
+
+      expect(endpointState.stopEndpointManually).toHaveBeenCalledWith(0);
+      expect(endpointState.startEndpoint).toHaveBeenCalledWith(0);
+      expect(setEndpointManuallyStopped.mock.calls).toEqual([
+        ['GET http://example.com/api/1', true],
+        ['GET http://example.com/api/1', false],
+      ]);
+    });
+
+    it('should not start endpoints stopped by early exit', async () => {
+      const manager = new WorkerPoolManager(mockConfig);
+      const endpointState = await getEndpointState();
+      endpointState.getEndpointState.mockReturnValueOnce(EndpointState.STOPPED);
+
+      expect(() => manager.startEndpoint('GET http://example.com/api/1')).toThrow(
+        'Endpoint was not stopped by hand: GET http://example.com/api/1',
+      );
+      expect(endpointState.startEndpoint).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown endpoints', () => {
+      const manager = new WorkerPoolManager(mockConfig);
+
+      expect(() => manager.stopEndpoint('missing')).toThrow('Unknown endpoint: missing');
+    });
+  });
+
   describe('waitForWorkersComplete', () => {
     it('should break when all endpoints are stopped', async () => {
       const manager = new WorkerPoolManager(mockConfig);
@@ -305,12 +789,12 @@ describe('WorkerPoolManager', () => {
         sharedMemoryFactory.createManagers as unknown as {
           mock: {
             results: Array<{
-              value: { endpointState: { getRunningEndpointsCount: ReturnType<typeof vi.fn> } };
+              value: { endpointState: { getActiveEndpointsCount: ReturnType<typeof vi.fn> } };
             }>;
           };
         }
       ).mock.results[0].value.endpointState;
-      mockEndpointState.getRunningEndpointsCount.mockReturnValue(0);
+      mockEndpointState.getActiveEndpointsCount.mockReturnValue(0);
 
       vi.spyOn(
         manager as unknown as { _waitForWorkersExit: () => Promise<void> },
@@ -1,19 +1,40 @@
 import { randomUUID } from 'node:crypto';
 import os from 'node:os';
 import { Worker } from 'node:worker_threads';
-import { WorkerState } from '@tressi/shared/cli';
-import type {
-  ResponseSamples,
-  TestSummary,
-  TressiConfig,
-  TressiRequestConfig,
+import {
+  type DataRow,
+  EndpointState,
+  type WorkerErrorEntry,
+  type WorkerGrpc,
+  type WorkerScenario,
+  WorkerState,
+  type WorkerStream,
+  type WorkerWebSocket,
+} from '@tressi/shared/cli';
+import {
+  getConfigEndpoints,
+  getEndpointKey,
+  getGrpcEndpoint,
+  getWebSocketEndpoint,
+  type NegotiatedTls,
+  type RequestTimingPhase,
+  type ResponseSampleCookies,
+  type ResponseSamples,
+  type TestRateChange,
+  type TestSummary,
+  type TressiConfig,
+  type TressiRequestConfig,
 } from '@tressi/shared/common';
 
+import { DataFileUtils } from '../utils/data-file-utils';
 import { FileUtils } from '../utils/file-utils';
+import { TlsUtils } from '../utils/tls-utils';
+import { distributeRows } from './data-feeder';
 import { EarlyExitCoordinator } from './early-exit-coordinator';
 import { MetricsAggregator } from './metrics-aggregation/metrics-aggregator';
 import type { EndpointStateManager } from './shared-memory/endpoint-state-manager';
 import type { HdrHistogramManager } from './shared-memory/hdr-histogram-manager';
+import type { LoadControlManager } from './shared-memory/load-control-manager';
 import { SharedMemoryFactory } from './shared-memory/shared-memory-factory';
 import type { StatsCounterManager } from './shared-memory/stats-counter-manager';
 import type { WorkerStateManager } from './shared-memory/worker-state-manager';
@@ -40,7 +61,18 @@ import type { WorkerStateManager } from './shared-memory/worker-state-manager';
  * @remarks
  * The manager uses SharedArrayBuffer for zero copy communication between the main thread
  * and worker threads, enabling efficient metrics collection and state synchronization.
- * Each worker is assigned a subset of endpoints using round-robin distribution.
+ * Each worker is assigned a subset of endpoints using round-robin distribution. The steps of
+ * a scenario are always assigned together so one worker can run the whole journey. WebSocket
+ * endpoints follow the scenarios, then gRPC and streaming endpoints, all assigned like standalone
+ * requests. All subscriptions of a streaming endpoint are held by the worker it is assigned to.
+ * Rows of the configured data file are loaded once and split across workers on start.
+ * With the virtualUsers executor every worker runs all but the streaming endpoints, and the
+ * virtual users are spread across workers round-robin.
+ *
+ * While the test runs it can be paused, resumed and have its rate changed through the
+ * {@link LoadControlManager}. Every change is recorded as a timeline event of the test summary.
+ * Single endpoints can be stopped and started again by hand through the
+ * {@link EndpointStateManager}.
  */
 export class WorkerPoolManager {
   private readonly _workers: Worker[] = [];
@@ -49,9 +81,14 @@ export class WorkerPoolManager {
   private readonly _maxWorkers: number;
   private readonly _workerStateManager: WorkerStateManager;
   private readonly _endpointStateManager: EndpointStateManager;
+  private readonly _loadControlManager: LoadControlManager;
   private readonly _endpoints: TressiRequestConfig[];
-  private _workerAssignments: TressiRequestConfig[][] = [];
+  private readonly _workerEndpointIndices: number[][];
   private readonly _hdrHistogramManagers: HdrHistogramManager[] = [];
+  private readonly _correctedHdrHistogramManagers: HdrHistogramManager[] = [];
+  private readonly _phaseHdrHistogramManagers: Record<RequestTimingPhase, HdrHistogramManager[]>;
+  private readonly _roundTripHdrHistogramManagers: HdrHistogramManager[] = [];
+  private readonly _eventGapHdrHistogramManagers: HdrHistogramManager[] = [];
   private readonly _statsCounterManagers: StatsCounterManager[] = [];
   private readonly _runId = `ephemeral-${randomUUID()}`;
   constructor(private readonly _config: TressiConfig) {
@@ -60,23 +97,34 @@ export class WorkerPoolManager {
     const maxWorkers = Math.min(requestedThreads, cpuCount);
 
     this._maxWorkers = maxWorkers;
-    this._endpoints = _config.requests;
+    this._endpoints = getConfigEndpoints(_config);
+    this._workerEndpointIndices = this._distributeEndpoints();
 
     // Create managers using new SharedMemoryFactory
-    const managers = SharedMemoryFactory.createManagers(this._maxWorkers, this._endpoints, {
-      bodySampleBufferSize: 1000,
-      ringBufferSize: 100,
-    });
+    const managers = SharedMemoryFactory.createManagers(
+      this._maxWorkers,
+      this._endpoints,
+      {
+        bodySampleBufferSize: 1000,
+        ringBufferSize: 100,
+      },
+      this._workerEndpointIndices,
+    );
 
     this._workerStateManager = managers.workerState;
     this._endpointStateManager = managers.endpointState;
+    this._loadControlManager = managers.loadControl;
     this._hdrHistogramManagers = managers.hdrHistogram;
+    this._correctedHdrHistogramManagers = managers.correctedHdrHistogram;
+    this._phaseHdrHistogramManagers = managers.phaseHdrHistogram;
+    this._roundTripHdrHistogramManagers = managers.roundTripHdrHistogram;
+    this._eventGapHdrHistogramManagers = managers.eventGapHdrHistogram;
     this._statsCounterManagers = managers.statsCounter;
 
     // Build endpoint method map from config
     const endpointMethodMap: Record<string, string> = {};
-    for (const request of _config.requests) {
-      endpointMethodMap[request.url] = request.method;
+    for (const endpoint of this._endpoints) {
+      endpointMethodMap[getEndpointKey(endpoint)] = endpoint.method;
     }
 
     // Create new metrics aggregator with new managers and method map
@@ -89,18 +137,23 @@ export class WorkerPoolManager {
 
     // Set the config for metrics aggregation
     this._metricsAggregator.setConfig(_config);
+    this._metricsAggregator.setWorkerEndpointIndices(this._workerEndpointIndices);
+    this._metricsAggregator.setWorkerStateManager(this._workerStateManager);
+    this._metricsAggregator.setCorrectedHdrHistogramManagers(this._correctedHdrHistogramManagers);
+    this._metricsAggregator.setPhaseHdrHistogramManagers(this._phaseHdrHistogramManagers);
+    this._metricsAggregator.setRoundTripHdrHistogramManagers(this._roundTripHdrHistogramManagers);
+    this._metricsAggregator.setEventGapHdrHistogramManagers(this._eventGapHdrHistogramManagers);
 
     this._earlyExitCoordinator = new EarlyExitCoordinator(
       _config,
       this._statsCounterManagers,
       this._endpointStateManager,
+      this._workerEndpointIndices,
     );
   }
 
   async start(): Promise<void> {
-    // Distribute endpoints to workers
-    this._workerAssignments = this._distributeEndpoints();
-    const actualWorkers = this._workerAssignments.length;
+    const actualWorkers = this._workerEndpointIndices.length;
 
     // Initialize worker states
     for (let i = 0; i < actualWorkers; i++) {
@@ -108,10 +161,17 @@ export class WorkerPoolManager {
     }
 
     const workerPath = FileUtils.getWorkerThreadPath();
+    const workerDataRows = await this._loadDataRows(actualWorkers);
+    const tls = await TlsUtils.loadOptions(this._config.options.tls);
+    const workerVuStartDelays = this._distributeVirtualUsers(actualWorkers);
 
     for (let i = 0; i < actualWorkers; i++) {
-      const assignedEndpoints = this._workerAssignments[i];
-      const endpointOffset = this._getEndpointOffset(i);
+      const endpointIndices = this._workerEndpointIndices[i];
+      const assignedEndpoints = endpointIndices.map((index) => this._endpoints[index]);
+      const assignedScenarios = this._getWorkerScenarios(endpointIndices);
+      const assignedWebSockets = this._getWorkerWebSockets(endpointIndices);
+      const assignedGrpc = this._getWorkerGrpc(endpointIndices);
+      const assignedStreams = this._getWorkerStreams(endpointIndices);
 
       const worker = new Worker(workerPath, {
         resourceLimits: {
@@ -119,16 +179,36 @@ export class WorkerPoolManager {
         },
         workerData: {
           assignedEndpoints,
+          assignedGrpc,
+          assignedScenarios,
+          assignedStreams,
+          assignedWebSockets,
+          cookies: this._config.options.cookies,
+          correctedHistogramBuffer: this._correctedHdrHistogramManagers[i].getSharedBuffer(),
+          dataDistribution: this._config.options.data?.distribution,
+          dataRows: workerDataRows[i],
           durationSec: this._config.options.durationSec || 10,
-          endpointOffset,
+          endpointIndices,
           endpointStateBuffer: this._endpointStateManager.getSharedBuffer(),
+          eventGapHistogramBuffer: this._eventGapHdrHistogramManagers[i].getSharedBuffer(),
+          executor: this._config.options.executor,
+          globalAuth: this._config.options.auth,
           globalHeaders: this._config.options.headers,
+          globalTimeouts: this._config.options.timeouts,
           histogramBuffer: this._hdrHistogramManagers[i].getSharedBuffer(),
+          http: this._config.options.http,
+          loadControlBuffer: this._loadControlManager.getSharedBuffer(),
           memoryLimit: this._config.options.workerMemoryLimit,
+          phaseHistogramBuffers: this._getPhaseHistogramBuffers(i),
           rampUpDurationSec: this._config.options.rampUpDurationSec || 0,
+          roundTripHistogramBuffer: this._roundTripHdrHistogramManagers[i].getSharedBuffer(),
+          stages: this._config.options.stages,
           statsBuffer: this._statsCounterManagers[i].getSharedBuffer(),
+          tls,
           totalWorkers: actualWorkers,
+          vuStartDelaysMs: workerVuStartDelays[i],
           workerId: i,
+          workerMetricsBuffer: this._workerStateManager.getMetricsBuffer(),
           workerStateBuffer: this._workerStateManager.getSharedBuffer(),
         },
       });
@@ -144,7 +224,7 @@ export class WorkerPoolManager {
     this._earlyExitCoordinator.startMonitoring();
 
     // Set endpoints and start metrics aggregation polling
-    const endpoints = this._config.requests.map((req) => req.url);
+    const endpoints = this._endpoints.map((endpoint) => getEndpointKey(endpoint));
     this._metricsAggregator.setEndpoints(endpoints);
     this._metricsAggregator.startPolling();
 
@@ -177,7 +257,7 @@ export class WorkerPoolManager {
       }
     });
 
-    // Listen for body sample messages from worker
+    // Listen for body sample and error log messages from worker
     worker.on('message', (message: unknown) => {
       if (
         message &&
@@ -186,66 +266,294 @@ export class WorkerPoolManager {
         message.type === 'bodySample' &&
         'statusCode' in message &&
         'body' in message &&
-        'url' in message
+        'endpointKey' in message
       ) {
         this._metricsAggregator.recordResponseSample(
           this._runId,
-          message.url as string,
+          message.endpointKey as string,
           message.statusCode as number,
           (message as { headers?: Record<string, string> }).headers || {},
           message.body as string,
+          (message as { cookies?: ResponseSampleCookies }).cookies,
+          (message as { tls?: NegotiatedTls }).tls,
+          (message as { graphqlErrors?: string[] }).graphqlErrors,
         );
       }
+
+      if (
+        message &&
+        typeof message === 'object' &&
+        'type' in message &&
+        message.type === 'errorLog' &&
+        'entries' in message
+      ) {
+        this._metricsAggregator.recordErrors(this._runId, message.entries as WorkerErrorEntry[]);
+      }
     });
   }
 
   /**
    * Distributes endpoints across workers using round-robin algorithm.
    *
-   * @returns Array of endpoint arrays, where each inner array contains endpoints assigned to a specific worker
+   * @returns Array of global endpoint index arrays, where each inner array lists the endpoints
+   * assigned to a specific worker
    *
    * @remarks
-   * Uses simple modulo operation to ensure even distribution. If there are more endpoints than workers,
-   * some workers will handle multiple endpoints. If there are more workers than endpoints, some workers
-   * will be idle (though this is prevented by the constructor logic).
+   * Round-robin operates on groups rather than single endpoints. Each standalone request is a
+   * group of one, while all steps of a scenario form a single group, because a virtual user runs
+   * its steps sequentially and records every step in its own worker's shared memory. Each
+   * WebSocket, gRPC and streaming endpoint is a group of one as well. Without scenarios this is a
+   * plain modulo distribution. If there are more workers than groups, only as many workers as
+   * groups are used.
+   *
+   * With the `virtualUsers` executor every virtual user loops through all requests, scenarios,
+   * WebSocket and gRPC endpoints, so each worker is assigned all of them and only the streaming
+   * endpoints are dealt round-robin. No more workers than virtual users are used.
    *
    * @example
    * ```typescript
-   * // With 3 endpoints and 2 workers:
-   * // Worker 0 gets endpoints [0, 2]
+   * // With 2 requests, one 3-step scenario and 2 workers:
+   * // Worker 0 gets endpoints [0, 2, 3, 4]
    * // Worker 1 gets endpoint [1]
    * ```
    */
-  private _distributeEndpoints(): TressiRequestConfig[][] {
-    const endpoints = this._config.requests;
-    const workers = Math.min(this._maxWorkers, endpoints.length);
-    const distribution: TressiRequestConfig[][] = Array.from({ length: workers }, () => []);
-
-    endpoints.forEach((endpoint, index) => {
-      const workerIndex = index % workers;
-      distribution[workerIndex].push(endpoint);
+  private _distributeEndpoints(): number[][] {
+    const groups: number[][] = this._config.requests.map((_, index) => [index]);
+    let nextIndex = this._config.requests.length;
+    for (const scenario of this._config.scenarios ?? []) {
+      groups.push(scenario.steps.map(() => nextIndex++));
+    }
+    for (let i = 0; i < (this._config.websockets ?? []).length; i++) {
+      groups.push([nextIndex++]);
+    }
+    for (let i = 0; i < (this._config.grpc ?? []).length; i++) {
+      groups.push([nextIndex++]);
+    }
+    const streamGroups: number[][] = [];
+    for (let i = 0; i < (this._config.streams ?? []).length; i++) {
+      streamGroups.push([nextIndex++]);
+    }
+
+    const executor = this._config.options.executor;
+    if (executor?.type === 'virtualUsers' && groups.length > 0) {
+      const workers = Math.min(this._maxWorkers, executor.vus);
+      const distribution = Array.from({ length: workers }, () => groups.flat());
+      streamGroups.forEach((group, index) => {
+        distribution[index % workers].push(...group);
+      });
+      return distribution;
+    }
+
+    groups.push(...streamGroups);
+    const workers = Math.min(this._maxWorkers, groups.length);
+    const distribution: number[][] = Array.from({ length: workers }, () => []);
+
+    groups.forEach((group, index) => {
+      distribution[index % workers].push(...group);
     });
 
     return distribution;
   }
 
   /**
-   * Calculates the global endpoint offset for a given worker.
+   * Spreads the virtual users across workers and staggers their start over the VU ramp up.
+   *
+   * @param workers - Number of workers running virtual users
+   * @returns The start delay in milliseconds of each virtual user per worker, empty at a fixed RPS
+   *
+   * @example
+   * ```typescript
+   * // With 4 virtual users, a 2 second VU ramp up and 2 workers:
+   * // Worker 0 gets [0, 1000]
+   * // Worker 1 gets [500, 1500]
+   * ```
+   */
+  private _distributeVirtualUsers(workers: number): number[][] {
+    const distribution: number[][] = Array.from({ length: workers }, () => []);
+    const executor = this._config.options.executor;
+    if (executor?.type !== 'virtualUsers') return distribution;
+
+    const rampUpMs = executor.vuRampUpSec * 1000;
+    for (let vu = 0; vu < executor.vus; vu++) {
+      distribution[vu % workers].push(Math.floor((rampUpMs * vu) / executor.vus));
+    }
+
+    return distribution;
+  }
+
+  /**
+   * Loads the configured data file and splits its rows across workers.
+   *
+   * @param workers - Number of workers receiving rows
+   * @returns The rows of each worker, empty when no data file is configured
+   */
+  private async _loadDataRows(workers: number): Promise<DataRow[][]> {
+    const data = this._config.options.data;
+    if (!data) return [];
+
+    const rows = await DataFileUtils.loadRows(data.path);
+    return distributeRows(rows, data.distribution, workers);
+  }
+
+  /**
+   * Gets the shared buffers of a worker's request phase histograms.
    *
    * @param workerId - The worker identifier
-   * @returns The starting global endpoint index for this worker
+   * @returns The histogram buffer of each request phase
+   */
+  private _getPhaseHistogramBuffers(
+    workerId: number,
+  ): Record<RequestTimingPhase, SharedArrayBuffer> {
+    return Object.fromEntries(
+      Object.entries(this._phaseHdrHistogramManagers).map(([phase, managers]) => [
+        phase,
+        managers[workerId].getSharedBuffer(),
+      ]),
+    ) as Record<RequestTimingPhase, SharedArrayBuffer>;
+  }
+
+  /**
+   * Builds the scenarios a worker executes from its assigned endpoint indices.
+   *
+   * @param endpointIndices - Global endpoint indices assigned to the worker
+   * @returns Scenarios whose steps reference the worker's local endpoint indices
+   */
+  private _getWorkerScenarios(endpointIndices: number[]): WorkerScenario[] {
+    const scenarios: WorkerScenario[] = [];
+    let firstStepIndex = this._config.requests.length;
+
+    for (const scenario of this._config.scenarios ?? []) {
+      const localFirstStep = endpointIndices.indexOf(firstStepIndex);
+      if (localFirstStep !== -1) {
+        scenarios.push({
+          name: scenario.name,
+          rampUpDurationSec: scenario.rampUpDurationSec,
+          rps: scenario.rps,
+          stages: scenario.stages,
+          steps: scenario.steps.map((step, stepIndex) => ({
+            endpointIndex: localFirstStep + stepIndex,
+            extract: step.extract,
+          })),
+        });
+      }
+      firstStepIndex += scenario.steps.length;
+    }
+
+    return scenarios;
+  }
+
+  /**
+   * Builds the WebSocket endpoints a worker executes from its assigned endpoint indices.
+   *
+   * @param endpointIndices - Global endpoint indices assigned to the worker
+   * @returns WebSocket endpoints referencing the worker's local endpoint indices
+   */
+  private _getWorkerWebSockets(endpointIndices: number[]): WorkerWebSocket[] {
+    const firstIndex = this._getFirstWebSocketIndex();
+    const webSockets: WorkerWebSocket[] = [];
+
+    (this._config.websockets ?? []).forEach((webSocket, index) => {
+      const endpointIndex = endpointIndices.indexOf(firstIndex + index);
+      if (endpointIndex !== -1) {
+        webSockets.push({ ...webSocket, endpointIndex });
+      }
+    });
+
+    return webSockets;
+  }
+
+  /**
+   * Gets the global endpoint index of the first WebSocket endpoint, following the scenario steps
+   */
+  private _getFirstWebSocketIndex(): number {
+    return (this._config.scenarios ?? []).reduce(
+      (index, scenario) => index + scenario.steps.length,
+      this._config.requests.length,
+    );
+  }
+
+  /**
+   * Builds the gRPC endpoints a worker executes from its assigned endpoint indices.
+   *
+   * @param endpointIndices - Global endpoint indices assigned to the worker
+   * @returns gRPC endpoints referencing the worker's local endpoint indices
+   */
+  private _getWorkerGrpc(endpointIndices: number[]): WorkerGrpc[] {
+    const firstIndex = this._getFirstGrpcIndex();
+    const grpcEndpoints: WorkerGrpc[] = [];
+
+    (this._config.grpc ?? []).forEach((grpc, index) => {
+      const endpointIndex = endpointIndices.indexOf(firstIndex + index);
+      if (endpointIndex !== -1) {
+        grpcEndpoints.push({ ...grpc, endpointIndex });
+      }
+    });
+
+    return grpcEndpoints;
+  }
+
+  /**
+   * Gets the global endpoint index of the first gRPC endpoint, following the WebSocket endpoints
+   */
+  private _getFirstGrpcIndex(): number {
+    return this._getFirstWebSocketIndex() + (this._config.websockets ?? []).length;
+  }
+
+  /**
+   * Builds the streaming endpoints a worker subscribes to from its assigned endpoint indices.
+   *
+   * @param endpointIndices - Global endpoint indices assigned to the worker
+   * @returns Streaming endpoints referencing the worker's local endpoint indices
+   */
+  private _getWorkerStreams(endpointIndices: number[]): WorkerStream[] {
+    const firstIndex = this._getFirstStreamIndex();
+    const streams: WorkerStream[] = [];
+
+    (this._config.streams ?? []).forEach((stream, index) => {
+      const endpointIndex = endpointIndices.indexOf(firstIndex + index);
+      if (endpointIndex !== -1) {
+        streams.push({ ...stream, endpointIndex });
+      }
+    });
+
+    return streams;
+  }
+
+  /**
+   * Gets the global endpoint index of the first streaming endpoint, following the gRPC endpoints
+   */
+  private _getFirstStreamIndex(): number {
+    return this._getFirstGrpcIndex() + (this._config.grpc ?? []).length;
+  }
+
+  /**
+   * Maps the keys that accept a fixed RPS to the endpoint holding their rate.
+   *
+   * @returns Global endpoint index by request key, scenario name, WebSocket and gRPC endpoint key
    *
    * @remarks
-   * This offset is used to convert between local endpoint indices (0..n-1 within a worker)
-   * and global endpoint indices (0..total_endpoints-1 across all workers).
-   * Essential for shared memory coordination where endpoints are stored in global arrays.
+   * A scenario is rate limited per iteration, so its rate is held by its first step. Streaming
+   * endpoints hold a fixed number of subscriptions instead of a rate, so they have no key.
    */
-  private _getEndpointOffset(workerId: number): number {
-    let offset = 0;
-    for (let i = 0; i < workerId; i++) {
-      offset += this._workerAssignments[i].length;
+  private _getRateEndpointIndices(): Map<string, number> {
+    const indices = new Map(
+      this._config.requests.map((request, index) => [getEndpointKey(request), index]),
+    );
+    let firstStepIndex = this._config.requests.length;
+
+    for (const scenario of this._config.scenarios ?? []) {
+      indices.set(scenario.name, firstStepIndex);
+      firstStepIndex += scenario.steps.length;
     }
-    return offset;
+    (this._config.websockets ?? []).forEach((webSocket, index) => {
+      indices.set(getEndpointKey(getWebSocketEndpoint(webSocket)), firstStepIndex + index);
+    });
+    const firstGrpcIndex = this._getFirstGrpcIndex();
+    (this._config.grpc ?? []).forEach((grpc, index) => {
+      indices.set(getEndpointKey(getGrpcEndpoint(grpc)), firstGrpcIndex + index);
+    });
+
+    return indices;
   }
 
   /**
@@ -281,20 +589,20 @@ export class WorkerPoolManager {
    * into a single comprehensive metrics object.
    */
   getAggregatedResults(): TestSummary {
-    const endpoints = this._config.requests.map((req) => req.url);
+    const endpoints = this._endpoints.map((endpoint) => getEndpointKey(endpoint));
     return this._metricsAggregator.getResults(this._workers.length, endpoints);
   }
 
   /**
    * Get body samples collected during the test
-   * @returns Record of endpoint URL to body samples
+   * @returns Record of endpoint key to body samples
    */
   getResponseSamples(): ResponseSamples {
     const responseSamplesMap = this._metricsAggregator.getCollectedResponseSamples(this._runId);
 
     const result: ResponseSamples = {};
-    responseSamplesMap.forEach((samples, url) => {
-      result[url] = samples;
+    responseSamplesMap.forEach((samples, endpointKey) => {
+      result[endpointKey] = samples;
     });
 
     return result;
@@ -307,6 +615,13 @@ export class WorkerPoolManager {
     this._metricsAggregator.cleanupResponseSamples(this._runId);
   }
 
+  /**
+   * Clean up error log entries for this run
+   */
+  cleanupErrors(): void {
+    this._metricsAggregator.cleanupErrors(this._runId);
+  }
+
   /**
    * Set the testId for server mode persistence
    * @param testId The test ID from database
@@ -339,6 +654,111 @@ export class WorkerPoolManager {
     return this._earlyExitCoordinator.getEarlyExitTriggered();
   }
 
+  /**
+   * Pauses the test. Workers stop sending new requests until it is resumed, while the test
+   * duration keeps running.
+   */
+  pause(): void {
+    if (this._loadControlManager.isPaused()) return;
+
+    this._loadControlManager.setPaused(true);
+    this._metricsAggregator.recordTimelineEvent({ epoch: Date.now(), type: 'paused' });
+  }
+
+  /**
+   * Resumes a paused test.
+   */
+  resume(): void {
+    if (!this._loadControlManager.isPaused()) return;
+
+    this._loadControlManager.setPaused(false);
+    this._metricsAggregator.recordTimelineEvent({ epoch: Date.now(), type: 'resumed' });
+  }
+
+  /**
+   * Changes the rate of the running test.
+   *
+   * @param change - Multiplier of every load profile and fixed RPS by request key or scenario name
+   * @throws Error when the test runs virtual users or a key does not match any request or scenario
+   *
+   * @remarks
+   * Workers pick up the new rate on the next pass of their rate limiters. The change is validated
+   * as a whole before any of it is applied.
+   */
+  setRate(change: TestRateChange): void {
+    if (this._config.options.executor?.type === 'virtualUsers') {
+      throw new Error('The rate of a test running virtual users cannot be changed');
+    }
+
+    const rateEndpointIndices = this._getRateEndpointIndices();
+    const endpointRps = Object.entries(change.endpointRps ?? {});
+    const unknownKey = endpointRps.find(([key]) => !rateEndpointIndices.has(key))?.[0];
+    if (unknownKey !== undefined) {
+      throw new Error(`Unknown request or scenario: ${unknownKey}`);
+    }
+
+    if (change.multiplier !== undefined) {
+      this._loadControlManager.setMultiplier(change.multiplier);
+    }
+    for (const [key, rps] of endpointRps) {
+      this._loadControlManager.setEndpointRps(rateEndpointIndices.get(key)!, rps ?? undefined);
+    }
+
+    this._metricsAggregator.recordTimelineEvent({ epoch: Date.now(), type: 'rate', ...change });
+  }
+
+  /**
+   * Stops an endpoint by hand. Its workers keep running and send no requests for it until it is
+   * started again.
+   *
+   * @param endpointKey - Key of the request or scenario step
+   * @throws Error when the key does not match any endpoint
+   *
+   * @remarks
+   * Endpoints that are already stopped, by hand or by early exit, are left as they are.
+   */
+  stopEndpoint(endpointKey: string): void {
+    const endpointIndex = this._getEndpointIndex(endpointKey);
+    if (!this._endpointStateManager.isEndpointRunning(endpointIndex)) return;
+
+    this._endpointStateManager.stopEndpointManually(endpointIndex);
+    this._metricsAggregator.setEndpointManuallyStopped(endpointKey, true);
+  }
+
+  /**
+   * Starts an endpoint that was stopped by hand.
+   *
+   * @param endpointKey - Key of the request or scenario step
+   * @throws Error when the key does not match any endpoint or the endpoint was stopped by early
+   * exit
+   */
+  startEndpoint(endpointKey: string): void {
+    const endpointIndex = this._getEndpointIndex(endpointKey);
+    const state = this._endpointStateManager.getEndpointState(endpointIndex);
+    if (state === EndpointState.RUNNING) return;
+    if (state !== EndpointState.MANUALLY_STOPPED) {
+      throw new Error(`Endpoint was not stopped by hand: ${endpointKey}`);
+    }
+
+    this._endpointStateManager.startEndpoint(endpointIndex);
+    this._metricsAggregator.setEndpointManuallyStopped(endpointKey, false);
+  }
+
+  /**
+   * Finds the global index of an endpoint by its key.
+   *
+   * @throws Error when the key does not match any endpoint
+   */
+  private _getEndpointIndex(endpointKey: string): number {
+    const endpointIndex = this._endpoints.findIndex(
+      (endpoint) => getEndpointKey(endpoint) === endpointKey,
+    );
+    if (endpointIndex === -1) {
+      throw new Error(`Unknown endpoint: ${endpointKey}`);
+    }
+    return endpointIndex;
+  }
+
   /**
    * Waits for test completion by monitoring worker states and endpoint status.
    *
@@ -346,7 +766,7 @@ export class WorkerPoolManager {
    *
    * @remarks
    * Monitors multiple completion conditions:
-   * - All endpoints stopped (early exit triggered)
+   * - All endpoints stopped (early exit triggered), not counting endpoints stopped by hand
    * - All workers finished or in error state
    * - Maximum duration timeout reached
    *
@@ -359,7 +779,7 @@ export class WorkerPoolManager {
 
     while (true) {
       // Check if all endpoints are stopped
-      const allEndpointsStopped = this._endpointStateManager.getRunningEndpointsCount() === 0;
+      const allEndpointsStopped = this._endpointStateManager.getActiveEndpointsCount() === 0;
       if (allEndpointsStopped) {
         process.stdout.write('All endpoints stopped - terminating test\n');
         break;
@@ -10,6 +10,8 @@ describe('WorkerRateLimiter', () => {
   beforeEach(() => {
     mockEndpoints = [
       {
+        bodyType: 'json',
+        checks: [],
         earlyExit: {
           enabled: false,
           errorRateThreshold: 0,
@@ -21,9 +23,14 @@ describe('WorkerRateLimiter', () => {
         payload: {},
         rampUpDurationSec: 0,
         rps: 10,
+        sendBody: true,
+        stages: [],
+        thresholds: [],
         url: 'http://example.com/api/1',
       },
       {
+        bodyType: 'json',
+        checks: [],
         earlyExit: {
           enabled: false,
           errorRateThreshold: 0,
@@ -35,9 +42,14 @@ describe('WorkerRateLimiter', () => {
         payload: {},
         rampUpDurationSec: 0,
         rps: 5,
+        sendBody: true,
+        stages: [],
+        thresholds: [],
         url: 'http://example.com/api/2',
       },
       {
+        bodyType: 'json',
+        checks: [],
         earlyExit: {
           enabled: false,
           errorRateThreshold: 0,
@@ -49,6 +61,9 @@ describe('WorkerRateLimiter', () => {
         payload: {},
         rampUpDurationSec: 0,
         rps: 2,
+        sendBody: true,
+        stages: [],
+        thresholds: [],
         url: 'http://example.com/api/3',
       },
     ];
@@ -129,7 +144,7 @@ describe('WorkerRateLimiter', () => {
       // Should distribute across endpoints based on RPS
       const endpointCounts = new Map<string, number>();
       requests.forEach((req) => {
-        endpointCounts.set(req.url, (endpointCounts.get(req.url) || 0) + 1);
+        endpointCounts.set(req.entry.url, (endpointCounts.get(req.entry.url) || 0) + 1);
       });
 
       expect(endpointCounts.size).toBeGreaterThan(0);
@@ -181,6 +196,172 @@ describe('WorkerRateLimiter', () => {
     });
   });
 
+  describe('stages', () => {
+    /** Tokens granted in the second after `atMs`, with the bucket drained at `atMs` */
+    const requestsInSecondAfter = (limiter: WorkerRateLimiter, atMs: number): number => {
+      limiter.getAvailableRequests(10_000, atMs);
+      return limiter.getAvailableRequests(10_000, atMs + 1000).length;
+    };
+
+    it('should interpolate linearly towards the target of a stage', () => {
+      const stagedLimiter = new WorkerRateLimiter([
+        { ...mockEndpoints[0], stages: [{ durationSec: 10, interpolation: 'linear', rps: 100 }] },
+      ]);
+
+      expect(requestsInSecondAfter(stagedLimiter, 4000)).toBe(50);
+    });
+
+    it('should switch to the target of a step stage at its start', () => {
+      const stagedLimiter = new WorkerRateLimiter([
+        {
+          ...mockEndpoints[0],
+          stages: [
+            { durationSec: 10, interpolation: 'step', rps: 20 },
+            { durationSec: 10, interpolation: 'step', rps: 80 },
+          ],
+        },
+      ]);
+
+      expect(requestsInSecondAfter(stagedLimiter, 0)).toBe(20);
+      expect(requestsInSecondAfter(stagedLimiter, 10_000)).toBe(80);
+    });
+
+    it('should hold the target of the last stage after the profile ends', () => {
+      const stagedLimiter = new WorkerRateLimiter([
+        {
+          ...mockEndpoints[0],
+          stages: [
+            { durationSec: 5, interpolation: 'step', rps: 50 },
+            { durationSec: 5, interpolation: 'linear', rps: 0 },
+          ],
+        },
+      ]);
+
+      expect(requestsInSecondAfter(stagedLimiter, 12_000)).toBe(0);
+    });
+
+    it('should use global stages only for endpoints without stages of their own', () => {
+      const globalStages = [{ durationSec: 10, interpolation: 'step' as const, rps: 30 }];
+      const stagedLimiter = new WorkerRateLimiter(
+        [
+          mockEndpoints[0],
+          { ...mockEndpoints[1], stages: [{ durationSec: 10, interpolation: 'step', rps: 60 }] },
+        ],
+        0,
+        globalStages,
+      );
+
+      stagedLimiter.getAvailableRequests(10_000, 0);
+      const requests = stagedLimiter.getAvailableRequests(10_000, 1000);
+
+      expect(requests.filter((r) => r.entry.url === mockEndpoints[0].url)).toHaveLength(30);
+      expect(requests.filter((r) => r.entry.url === mockEndpoints[1].url)).toHaveLength(60);
+    });
+  });
+
+  describe('schedule', () => {
+    it('should schedule requests released on time at the moment their token was earned', () => {
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]]); // 10 RPS
+
+      singleLimiter.getAvailableRequests(20, 0);
+      const requests = singleLimiter.getAvailableRequests(20, 100);
+
+      expect(requests).toEqual([{ entry: mockEndpoints[0], scheduledAtMs: 100 }]);
+    });
+
+    it('should schedule a backlog of requests one interval apart, oldest first', () => {
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]]); // 10 RPS
+
+      singleLimiter.getAvailableRequests(20, 0);
+      const requests = singleLimiter.getAvailableRequests(20, 500);
+
+      expect(requests.map((r) => r.scheduledAtMs)).toEqual([100, 200, 300, 400, 500]);
+    });
+
+    it('should report tokens beyond the burst capacity as dropped', () => {
+      const onDropped = vi.fn();
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]], 0, [], { onDropped });
+
+      singleLimiter.getAvailableRequests(100, 0);
+      const requests = singleLimiter.getAvailableRequests(100, 3000);
+
+      expect(requests).toHaveLength(20);
+      expect(onDropped).toHaveBeenCalledExactlyOnceWith(0, 10);
+    });
+
+    it('should keep scheduling requests while no batch is taken', () => {
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]]); // 10 RPS
+
+      expect(singleLimiter.getAvailableRequests(0, 500)).toEqual([]);
+      expect(singleLimiter.getBacklog()).toBe(5);
+
+      singleLimiter.getAvailableRequests(3, 500);
+      expect(singleLimiter.getBacklog()).toBe(2);
+    });
+  });
+
+  describe('live control', () => {
+    it('should schedule at the target RPS adjusted by the caller', () => {
+      const getTargetRps = vi.fn((_index: number, profileRps: number): number => profileRps * 2);
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]], 0, [], { getTargetRps });
+
+      singleLimiter.getAvailableRequests(100, 0);
+      const requests = singleLimiter.getAvailableRequests(100, 1000);
+
+      expect(requests).toHaveLength(20);
+      expect(getTargetRps).toHaveBeenCalledWith(0, 10);
+    });
+
+    it('should neither send nor drop requests while paused', () => {
+      const onDropped = vi.fn();
+      const singleLimiter = new WorkerRateLimiter([mockEndpoints[0]], 0, [], { onDropped }); // 10 RPS
+
+      singleLimiter.getAvailableRequests(0, 500);
+      singleLimiter.pause(500);
+      singleLimiter.pause(5000);
+
+      expect(singleLimiter.getBacklog()).toBe(0);
+      expect(singleLimiter.getAvailableRequests(100, 5300)).toHaveLength(3);
+      expect(onDropped).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('poisson arrival', () => {
+    it('should space requests by exponentially distributed gaps', () => {
+      // Thresholds of -ln(1 - u): 0.5, 2 and 1 intervals of the 10 RPS endpoint
+      const draws = [1 - Math.exp(-0.5), 1 - Math.exp(-2), 1 - Math.exp(-1)];
+      const poissonLimiter = new WorkerRateLimiter([mockEndpoints[0]], 0, [], {
+        arrival: 'poisson',
+        random: () => draws.shift() ?? 0.5,
+      });
+
+      const requests = poissonLimiter.getAvailableRequests(20, 350);
+
+      expect(requests.map((r) => Math.round(r.scheduledAtMs))).toEqual([50, 250, 350]);
+    });
+
+    it('should average the target RPS over time', () => {
+      let seed = 1;
+      const random = (): number => {
+        // Deterministic linear congruential generator
+        seed = (seed * 16807) % 2147483647;
+        return (seed - 1) / 2147483646;
+      };
+      const poissonLimiter = new WorkerRateLimiter([mockEndpoints[0]], 0, [], {
+        arrival: 'poisson',
+        random,
+      });
+
+      let total = 0;
+      for (let ms = 100; ms <= 100_000; ms += 100) {
+        total += poissonLimiter.getAvailableRequests(100, ms).length;
+      }
+
+      expect(total).toBeGreaterThan(900);
+      expect(total).toBeLessThan(1100);
+    });
+  });
+
   describe('edge cases', () => {
     beforeEach(() => {
       vi.useFakeTimers();
@@ -199,6 +380,8 @@ describe('WorkerRateLimiter', () => {
     it('should handle very high RPS values', () => {
       const highRpsEndpoints: TressiRequestConfig[] = [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -210,6 +393,9 @@ describe('WorkerRateLimiter', () => {
           payload: {},
           rampUpDurationSec: 0,
           rps: 1000,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'http://example.com/api/1',
         },
       ];
@@ -224,6 +410,8 @@ describe('WorkerRateLimiter', () => {
     it('should handle fractional RPS values', () => {
       const fractionalEndpoints: TressiRequestConfig[] = [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -235,6 +423,9 @@ describe('WorkerRateLimiter', () => {
           payload: {},
           rampUpDurationSec: 0,
           rps: 0.5,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'http://example.com/api/1',
         },
       ];
@@ -1,42 +1,100 @@
-import type { TressiRequestConfig } from '@tressi/shared/common';
+import {
+  getEffectiveStages,
+  getTargetRps,
+  type TressiExecutorConfig,
+  type TressiRequestConfig,
+  type TressiStageConfig,
+} from '@tressi/shared/common';
 
 /**
- * WorkerRateLimiter - Token bucket rate limiter for controlling request throughput per endpoint.
+ * Minimal shape the rate limiter needs; satisfied by endpoints and scenarios alike.
+ */
+type RateLimitedEntry = Pick<TressiRequestConfig, 'rampUpDurationSec' | 'rps' | 'stages'>;
+
+/**
+ * An entry released by the rate limiter, with the time it was due according to the target RPS.
+ */
+export type ScheduledRequest<T> = {
+  entry: T;
+  /** Elapsed test time in milliseconds at which the request was scheduled to start */
+  scheduledAtMs: number;
+};
+
+/**
+ * Optional behaviour of a {@link WorkerRateLimiter}.
+ */
+export type WorkerRateLimiterOptions = {
+  /** How requests are spaced in time. Defaults to `constant`. */
+  arrival?: TressiExecutorConfig['arrival'];
+  /** Called with the index of an entry and the number of its requests dropped from the backlog */
+  onDropped?: (index: number, count: number) => void;
+  /** Adjusts the target RPS of an entry's load profile, e.g. for rate changes during the test */
+  getTargetRps?: (index: number, profileRps: number) => number;
+  /** Source of uniform random numbers in [0, 1) for Poisson arrivals */
+  random?: () => number;
+};
+
+/**
+ * WorkerRateLimiter - Non-blocking rate limiter for controlling request throughput per endpoint.
  *
- * Implements a non-blocking token bucket algorithm that allows burst traffic while maintaining
- * target requests per second (RPS) rates. Designed for high-throughput load testing scenarios
- * where traditional blocking rate limiters would create bottlenecks.
+ * Schedules requests for each endpoint at its target requests per second (RPS) and releases
+ * them once they are due, without ever blocking the caller. Designed for high-throughput load
+ * testing scenarios where traditional blocking rate limiters would create bottlenecks.
  *
  * @example
  * ```typescript
  * const limiter = new WorkerRateLimiter(endpoints);
  * const requests = limiter.getAvailableRequests(20); // Get up to 20 available requests
- * // Process requests immediately without waiting
+ * // Process requests immediately without waiting, starting from their scheduled time
  * ```
  *
  * @remarks
- * The token bucket algorithm provides smooth rate limiting with the ability to handle
- * traffic bursts. Each endpoint gets its own token bucket with tokens replenished
- * based on the target RPS rate. The non-blocking design is critical for maintaining
- * high throughput in load testing scenarios.
+ * Each endpoint earns credit at its target RPS as time passes, and a request is scheduled every
+ * time the credit reaches the next arrival threshold. With `constant` arrival the threshold is
+ * always one, so requests are evenly spaced. With `poisson` arrival it is drawn from an
+ * exponential distribution, so the gaps between requests are random but average the target rate.
+ *
+ * The target RPS of each endpoint follows its load profile stages, falling back to the global
+ * stages and then to a linear ramp up to the endpoint's `rps`. The `getTargetRps` option can
+ * adjust the target while the test runs.
+ *
+ * Scheduled requests wait in a backlog until the caller takes them, so the backlog tells how far
+ * the caller has fallen behind. The backlog holds at most two seconds of requests at the target
+ * RPS; older requests are dropped and reported through `onDropped`, since the worker could not
+ * send them at all.
  */
-export class WorkerRateLimiter {
-  private _tokens: number[];
-  private _lastRefill: number[];
-  private readonly _rampUpDurationsSec: number[];
+export class WorkerRateLimiter<T extends RateLimitedEntry = TressiRequestConfig> {
+  private readonly _credit: number[];
+  private readonly _nextArrival: number[];
+  private readonly _backlog: number[][];
+  private readonly _stages: TressiStageConfig[][];
+  private readonly _arrival: TressiExecutorConfig['arrival'];
+  private readonly _random: () => number;
+  private readonly _onDropped?: (index: number, count: number) => void;
+  private readonly _getTargetRps?: (index: number, profileRps: number) => number;
+  private _lastUpdate = 0;
 
   constructor(
-    private readonly _endpoints: TressiRequestConfig[],
+    private readonly _endpoints: T[],
     globalRampUpDurationSec: number = 0,
+    globalStages: TressiStageConfig[] = [],
+    options: WorkerRateLimiterOptions = {},
   ) {
-    this._tokens = new Array(_endpoints.length).fill(0);
-    // Initialize to 0 so that elapsed time is calculated from testTimeElapsed
-    this._lastRefill = new Array(_endpoints.length).fill(0);
-
-    // Calculate effective ramp up duration for each endpoint
-    // If endpoint value is 0, use global value
-    this._rampUpDurationsSec = _endpoints.map(
-      (endpoint) => endpoint.rampUpDurationSec || globalRampUpDurationSec,
+    this._arrival = options.arrival ?? 'constant';
+    this._random = options.random ?? Math.random;
+    this._onDropped = options.onDropped;
+    this._getTargetRps = options.getTargetRps;
+
+    this._credit = new Array(_endpoints.length).fill(0);
+    this._nextArrival = _endpoints.map(() => this._drawArrivalThreshold());
+    this._backlog = _endpoints.map(() => []);
+
+    // Resolve the load profile of each endpoint: own stages > global stages > ramp up to rps
+    this._stages = _endpoints.map((endpoint) =>
+      getEffectiveStages(endpoint, {
+        rampUpDurationSec: globalRampUpDurationSec,
+        stages: globalStages,
+      }),
     );
   }
 
@@ -45,77 +103,102 @@ export class WorkerRateLimiter {
    *
    * @param batchSize - Maximum number of requests to return (default: 20)
    * @param testTimeElapsed - Elapsed time in milliseconds since test started
-   * @returns Array of endpoint configurations ready for execution
+   * @returns Endpoint configurations ready for execution, each with its scheduled start time
    *
    * @remarks
    * CRITICAL: This method is non-blocking and returns immediately with available requests.
-   * Implements token bucket algorithm where tokens are replenished based on elapsed time
-   * and target RPS rates. Allows burst traffic up to 2x the target RPS while maintaining
-   * average rate over time.
    *
    * The algorithm:
-   * 1. Calculates token replenishment based on elapsed time and RPS
-   * 2. Caps token count at 2x RPS to allow bursts
-   * 3. Returns available requests up to batch size limit
-   * 4. Updates token counts for consumed requests
+   * 1. Schedules the requests that became due since the last call, at the target RPS
+   * 2. Caps each backlog at 2x RPS, reporting the oldest requests beyond it as dropped
+   * 3. Returns available requests up to batch size limit, oldest first
    *
-   * This design enables high-throughput pipeline execution where workers can
-   * process multiple requests concurrently without rate limiting bottlenecks.
+   * Requests are scheduled even when the batch size is zero, so callers at their concurrency
+   * limit keep an accurate backlog.
    *
    * @example
    * ```typescript
    * // With endpoint RPS = 10 and 1 second elapsed:
-   * // Tokens replenished: 10, max tokens: 20
+   * // Requests scheduled: 10, max backlog: 20
    * const requests = limiter.getAvailableRequests(15, 1000);
-   * // Returns up to 15 requests if tokens available
+   * // Returns up to 15 requests if available
    * ```
    */
-  getAvailableRequests(batchSize: number = 20, testTimeElapsed: number = 0): TressiRequestConfig[] {
-    const available: TressiRequestConfig[] = [];
+  getAvailableRequests(batchSize: number = 20, testTimeElapsed: number = 0): ScheduledRequest<T>[] {
+    this._schedule(testTimeElapsed);
 
+    const available: ScheduledRequest<T>[] = [];
     for (let i = 0; i < this._endpoints.length && available.length < batchSize; i++) {
-      // Use testTimeElapsed for elapsed time calculation to support fake timers
-      const elapsed = testTimeElapsed - this._lastRefill[i];
-
-      const rps = this._calculateRps({
-        elapsedMs: testTimeElapsed,
-        rampUpDurationSec: this._rampUpDurationsSec[i],
-        targetRps: this._endpoints[i].rps,
-      });
-
-      const refill = Math.floor((elapsed / 1000) * rps);
-
-      if (refill > 0) {
-        this._tokens[i] = Math.min(this._tokens[i] + refill, rps * 2); // Allow burst
-        this._lastRefill[i] = testTimeElapsed;
-      }
-
-      while (this._tokens[i] >= 1 && available.length < batchSize) {
-        this._tokens[i] -= 1;
-        available.push(this._endpoints[i]);
+      const backlog = this._backlog[i];
+      const count = Math.min(backlog.length, batchSize - available.length);
+      for (const scheduledAtMs of backlog.splice(0, count)) {
+        available.push({ entry: this._endpoints[i], scheduledAtMs });
       }
     }
 
     return available;
   }
 
-  private _calculateRps(options: {
-    targetRps: number;
-    elapsedMs: number;
-    rampUpDurationSec: number;
-  }): number {
-    const { targetRps, elapsedMs, rampUpDurationSec } = options;
+  /**
+   * Returns the number of scheduled requests that are due but have not been taken yet.
+   */
+  getBacklog(): number {
+    return this._backlog.reduce((total, backlog) => total + backlog.length, 0);
+  }
+
+  /**
+   * Holds the schedule while the test is paused.
+   *
+   * @param testTimeElapsed - Elapsed time in milliseconds since test started
+   *
+   * @remarks
+   * Discards the backlog and the credit earned up to the given time without reporting drops, so
+   * a paused caller neither sends nor drops requests and resumes at the target RPS without a burst.
+   */
+  pause(testTimeElapsed: number): void {
+    this._lastUpdate = Math.max(this._lastUpdate, testTimeElapsed);
+    for (let i = 0; i < this._endpoints.length; i++) {
+      this._credit[i] = 0;
+      this._backlog[i] = [];
+    }
+  }
 
-    const rampUpDurationMs = rampUpDurationSec * 1000;
+  /**
+   * Adds the requests that became due since the last update to the backlog of each endpoint.
+   */
+  private _schedule(testTimeElapsed: number): void {
+    const elapsedSec = (testTimeElapsed - this._lastUpdate) / 1000;
+    if (elapsedSec <= 0) return;
+    this._lastUpdate = testTimeElapsed;
 
-    const isWithinRampUp = elapsedMs < rampUpDurationMs;
+    for (let i = 0; i < this._endpoints.length; i++) {
+      const profileRps = getTargetRps(this._stages[i], testTimeElapsed / 1000);
+      const rps = this._getTargetRps ? this._getTargetRps(i, profileRps) : profileRps;
+      if (rps <= 0) continue;
+
+      const backlog = this._backlog[i];
+      this._credit[i] += elapsedSec * rps;
+      while (this._credit[i] >= this._nextArrival[i]) {
+        this._credit[i] -= this._nextArrival[i];
+        this._nextArrival[i] = this._drawArrivalThreshold();
+        // The credit left over tells how long ago the request became due
+        backlog.push(Math.max(testTimeElapsed - (this._credit[i] / rps) * 1000, 0));
+      }
 
-    if (isWithinRampUp) {
-      // Linear interpolation from 0 → targetRps
-      const progress = elapsedMs / rampUpDurationMs;
-      return targetRps * progress;
+      const dropped = Math.floor(backlog.length - rps * 2);
+      if (dropped > 0) {
+        backlog.splice(0, dropped);
+        this._onDropped?.(i, dropped);
+      }
     }
+  }
 
-    return targetRps;
+  /**
+   * Returns the credit needed for the next request: one for constant arrival, an
+   * exponentially distributed amount averaging one for Poisson arrival.
+   */
+  private _drawArrivalThreshold(): number {
+    if (this._arrival === 'constant') return 1;
+    return -Math.log(1 - this._random());
   }
 }
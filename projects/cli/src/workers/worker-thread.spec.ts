@@ -1,5 +1,12 @@
+import { workerData } from 'node:worker_threads';
+import { type StreamSubscriptionOptions, WorkerState } from '@tressi/shared/cli';
 import type { Procedure } from '@vitest/spy';
-import { beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
+
+import { globalAgentManager } from '../http/agent-manager';
+import { AuthManager } from '../http/auth-manager';
+import { RequestExecutor } from '../http/request-executor';
+import { LoadControlManager } from './shared-memory/load-control-manager';
 import { WorkerThread } from './worker-thread';
 
 vi.mock('worker_threads', () => ({
@@ -14,12 +21,27 @@ vi.mock('worker_threads', () => ({
         url: 'http://example.com/api/1',
       },
     ],
+    assignedGrpc: [],
+    assignedScenarios: [],
+    assignedStreams: [],
+    assignedWebSockets: [],
+    correctedHistogramBuffer: new SharedArrayBuffer(1024),
     durationSec: 1,
-    endpointOffset: 0,
+    endpointIndices: [0],
     endpointStateBuffer: new SharedArrayBuffer(1024),
+    eventGapHistogramBuffer: new SharedArrayBuffer(1024),
     histogramBuffer: new SharedArrayBuffer(1024),
+    loadControlBuffer: new SharedArrayBuffer(2048),
     memoryLimit: 512,
+    phaseHistogramBuffers: {
+      connect: new SharedArrayBuffer(1024),
+      dns: new SharedArrayBuffer(1024),
+      download: new SharedArrayBuffer(1024),
+      tls: new SharedArrayBuffer(1024),
+      ttfb: new SharedArrayBuffer(1024),
+    },
     rampUpDurationSec: 0,
+    roundTripHistogramBuffer: new SharedArrayBuffer(1024),
     statsBuffer: new SharedArrayBuffer(1024),
     totalWorkers: 1,
     workerId: 0,
@@ -44,6 +66,65 @@ vi.mock('../http/request-executor', () => ({
   }),
 }));
 
+vi.mock('../http/websocket-executor', () => ({
+  WebSocketExecutor: vi.fn().mockImplementation(function (this: { execute: Mock<Procedure> }) {
+    this.execute = vi.fn().mockResolvedValue({
+      abnormalClose: false,
+      bytesReceived: 6,
+      bytesSent: 10,
+      connectMs: 15,
+      messagesReceived: 1,
+      messagesSent: 1,
+      roundTripsMs: [12],
+      success: true,
+    });
+  }),
+}));
+
+vi.mock('../http/grpc-executor', () => ({
+  GrpcExecutor: vi.fn().mockImplementation(function (this: {
+    close: Mock<Procedure>;
+    execute: Mock<Procedure>;
+  }) {
+    this.close = vi.fn();
+    this.execute = vi.fn().mockResolvedValue({
+      bytesReceived: 7,
+      bytesSent: 9,
+      latencyMs: 4,
+      messagesReceived: 2,
+      messagesSent: 1,
+      statusCode: 0,
+      success: true,
+    });
+  }),
+}));
+
+vi.mock('../http/stream-executor', () => ({
+  StreamExecutor: vi.fn().mockImplementation(function (this: { execute: Mock<Procedure> }) {
+    // Subscriptions stay open until the test ends or they are closed
+    this.execute = vi.fn().mockImplementation(
+      (_stream: unknown, options: StreamSubscriptionOptions) =>
+        new Promise((resolve) => {
+          options.onBytes?.(40);
+          for (const gapMs of [undefined, 100, 120]) {
+            options.onEvent?.(gapMs);
+          }
+          const close = (): void =>
+            resolve({
+              bytesReceived: 40,
+              disconnected: false,
+              eventsReceived: 3,
+              statusCode: 200,
+              success: true,
+              timeToFirstEventMs: 25,
+            });
+          setTimeout(close, options.endsAt - Date.now());
+          options.signal?.addEventListener('abort', close);
+        }),
+    );
+  }),
+}));
+
 vi.mock('../http/response-sampler', () => ({
   ResponseSampler: vi.fn().mockImplementation(function (this: {
     setWorkerState: Mock<Procedure>;
@@ -61,14 +142,30 @@ vi.mock('../tui/terminal', () => ({
 vi.mock('./shared-memory/stats-counter-manager', () => ({
   StatsCounterManager: vi.fn().mockImplementation(function (this: {
     recordRequest: Mock<Procedure>;
+    recordChecks: Mock<Procedure>;
+    recordDropped: Mock<Procedure>;
+    recordError: Mock<Procedure>;
+    recordLate: Mock<Procedure>;
+    recordProtocol: Mock<Procedure>;
     recordStatusCode: Mock<Procedure>;
     recordBytesSent: Mock<Procedure>;
     recordBytesReceived: Mock<Procedure>;
+    recordWebSocketSession: Mock<Procedure>;
+    recordGrpcCall: Mock<Procedure>;
+    recordStreamSubscription: Mock<Procedure>;
   }) {
     this.recordRequest = vi.fn();
+    this.recordChecks = vi.fn();
+    this.recordDropped = vi.fn();
+    this.recordError = vi.fn();
+    this.recordLate = vi.fn();
+    this.recordProtocol = vi.fn();
     this.recordStatusCode = vi.fn();
     this.recordBytesSent = vi.fn();
     this.recordBytesReceived = vi.fn();
+    this.recordWebSocketSession = vi.fn();
+    this.recordGrpcCall = vi.fn();
+    this.recordStreamSubscription = vi.fn();
   }),
 }));
 
@@ -82,31 +179,43 @@ vi.mock('./shared-memory/hdr-histogram-manager', () => ({
 
 vi.mock('./shared-memory/worker-state-manager', () => ({
   WorkerStateManager: vi.fn().mockImplementation(function (this: {
+    addActiveVus: Mock<Procedure>;
+    addInFlight: Mock<Procedure>;
+    setHealth: Mock<Procedure>;
     setWorkerState: Mock<Procedure>;
   }) {
+    this.addActiveVus = vi.fn();
+    this.addInFlight = vi.fn();
+    this.setHealth = vi.fn();
     this.setWorkerState = vi.fn();
   }),
 }));
 
 vi.mock('./shared-memory/endpoint-state-manager', () => ({
   EndpointStateManager: vi.fn().mockImplementation(function (this: {
+    isEndpointActive: Mock<Procedure>;
     isEndpointRunning: Mock<Procedure>;
   }) {
+    this.isEndpointActive = vi.fn().mockReturnValue(true);
     this.isEndpointRunning = vi.fn().mockReturnValue(true);
   }),
 }));
 
 vi.mock('./worker-rate-limiter', () => ({
-  WorkerRateLimiter: vi.fn().mockImplementation(function (this: {
-    getAvailableRequests: Mock<Procedure>;
-  }) {
-    this.getAvailableRequests = vi.fn().mockReturnValue([
-      {
-        method: 'GET',
-        rps: 10,
-        url: 'http://example.com/api/1',
-      },
-    ]);
+  WorkerRateLimiter: vi.fn().mockImplementation(function (
+    this: {
+      getAvailableRequests: Mock<Procedure>;
+      getBacklog: Mock<Procedure>;
+      pause: Mock<Procedure>;
+    },
+    entries: unknown[],
+  ) {
+    this.getBacklog = vi.fn().mockReturnValue(0);
+    this.pause = vi.fn();
+    this.getAvailableRequests = vi
+      .fn()
+      .mockReturnValueOnce(entries.map((entry) => ({ entry, scheduledAtMs: 0 })))
+      .mockReturnValue([]);
   }),
 }));
 
@@ -126,4 +235,1216 @@ describe('WorkerThread', () => {
     // Verify that request execution was called
     // Since start() is a loop, we might need to mock the loop condition
   });
+
+  it('should clear its published health when it finishes', async () => {
+    const { WorkerStateManager } = await import('./shared-memory/worker-state-manager');
+    const worker = new WorkerThread();
+    await worker.start();
+
+    const stateManager = vi.mocked(WorkerStateManager).mock.instances[0] as unknown as {
+      setHealth: Mock<Procedure>;
+    };
+    expect(stateManager.setHealth).toHaveBeenLastCalledWith(0, 0, 0);
+  });
+
+  describe('scenarios', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [
+          {
+            headers: {},
+            method: 'POST',
+            payload: {},
+            rps: 1,
+            url: 'http://example.com/login',
+          },
+          {
+            headers: { Authorization: 'Bearer {{token}}' },
+            method: 'GET',
+            payload: {},
+            rps: 1,
+            url: 'http://example.com/cart/{{cartId}}',
+          },
+        ],
+        assignedScenarios: [
+          {
+            name: 'checkout',
+            rampUpDurationSec: 0,
+            rps: 1,
+            steps: [
+              {
+                endpointIndex: 0,
+                extract: [
+                  { from: 'body', path: '$.token', variable: 'token' },
+                  { from: 'header', path: 'x-cart-id', variable: 'cartId' },
+                ],
+              },
+              { endpointIndex: 1, extract: [] },
+            ],
+          },
+        ],
+        endpointIndices: [3, 4],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+    });
+
+    it('should chain extracted values into the next step', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      executor.executeRequest
+        .mockResolvedValueOnce({
+          body: '{"token":"abc"}',
+          headers: { 'x-cart-id': '42' },
+          status: 200,
+          success: true,
+        })
+        .mockResolvedValueOnce({ headers: {}, status: 200, success: true });
+
+      await worker.start();
+
+      expect(executor.executeRequest).toHaveBeenCalledTimes(2);
+      const [loginRequest, , loginOptions] = executor.executeRequest.mock.calls[0];
+      expect(loginRequest.url).toBe('http://example.com/login');
+      expect(loginOptions).toEqual({
+        captureBody: true,
+        endpointKey: 'POST http://example.com/login',
+      });
+
+      const [cartRequest] = executor.executeRequest.mock.calls[1];
+      expect(cartRequest.url).toBe('http://example.com/cart/42');
+      expect(cartRequest.headers).toEqual({ Authorization: 'Bearer abc' });
+    });
+
+    it('should record a failed extraction and stop the iteration', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        body: '{}',
+        headers: {},
+        status: 200,
+        success: true,
+      });
+
+      await worker.start();
+
+      expect(executor.executeRequest).toHaveBeenCalledTimes(1);
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, false);
+    });
+  });
+
+  describe('checks', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [
+          {
+            checks: [
+              {
+                exitOnFailure: false,
+                operator: 'equals',
+                path: '$.ok',
+                type: 'jsonPath',
+                value: true,
+              },
+              { exitOnFailure: false, ms: 1000, type: 'maxLatency' },
+            ],
+            method: 'GET',
+            rps: 10,
+            url: 'http://example.com/api/1',
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+    });
+
+    it('should fail a 2xx response whose checks fail and record each outcome', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordChecks: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        body: '{"ok":false}',
+        headers: {},
+        latencyMs: 5,
+        status: 200,
+        success: true,
+      });
+
+      await worker.start();
+
+      const [, , options] = executor.executeRequest.mock.calls[0];
+      expect(options.captureBody).toBe(true);
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, false);
+      expect(stats.recordChecks).toHaveBeenCalledWith(0, [false, true]);
+    });
+  });
+
+  describe('timing phases', () => {
+    it('should record the duration of each phase of a timed response', async () => {
+      const worker = new WorkerThread();
+      const { RequestExecutor } = await import('../http/request-executor');
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        headers: {},
+        latencyMs: 30,
+        status: 200,
+        success: true,
+        timings: { connect: 2, dns: 1, download: 4, tls: 3, ttfb: 20 },
+      });
+      const { HdrHistogramManager } = await import('./shared-memory/hdr-histogram-manager');
+      const [, , dns, connect, tls, ttfb, download] = vi.mocked(HdrHistogramManager).mock
+        .instances as unknown as { recordLatency: Mock<Procedure> }[];
+
+      await worker.start();
+
+      expect(dns.recordLatency).toHaveBeenCalledWith(0, 1);
+      expect(connect.recordLatency).toHaveBeenCalledWith(0, 2);
+      expect(tls.recordLatency).toHaveBeenCalledWith(0, 3);
+      expect(ttfb.recordLatency).toHaveBeenCalledWith(0, 20);
+      expect(download.recordLatency).toHaveBeenCalledWith(0, 4);
+    });
+  });
+
+  describe('coordinated omission', () => {
+    it('should record the latency from the scheduled start and count late requests', async () => {
+      const worker = new WorkerThread();
+      const { WorkerRateLimiter } = await import('./worker-rate-limiter');
+      const limiter = vi.mocked(WorkerRateLimiter).mock.instances[0] as unknown as {
+        getAvailableRequests: Mock<Procedure>;
+      };
+      limiter.getAvailableRequests
+        .mockReset()
+        .mockReturnValueOnce([{ entry: workerData.assignedEndpoints[0], scheduledAtMs: -500 }])
+        .mockReturnValue([]);
+      const { HdrHistogramManager } = await import('./shared-memory/hdr-histogram-manager');
+      const [histogram, correctedHistogram] = vi.mocked(HdrHistogramManager).mock
+        .instances as unknown as { recordLatency: Mock<Procedure> }[];
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordLate: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      const [, latency] = histogram.recordLatency.mock.calls[0];
+      const [, correctedLatency] = correctedHistogram.recordLatency.mock.calls[0];
+      expect(correctedLatency - latency).toBeGreaterThanOrEqual(500);
+      expect(stats.recordLate).toHaveBeenCalledWith(0);
+    });
+
+    it('should count the requests dropped by the rate limiter on their endpoint', async () => {
+      new WorkerThread();
+      const { WorkerRateLimiter } = await import('./worker-rate-limiter');
+      const onDropped = vi.mocked(WorkerRateLimiter).mock.calls[0][3]?.onDropped;
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordDropped: Mock<Procedure>;
+      };
+
+      onDropped?.(0, 4);
+
+      expect(stats.recordDropped).toHaveBeenCalledWith(0, 4);
+    });
+  });
+
+  describe('pause', () => {
+    const loadControl = new LoadControlManager(1, workerData.loadControlBuffer);
+
+    afterEach(() => {
+      loadControl.setPaused(false);
+    });
+
+    it('should report the paused state and hold its schedule until resumed', async () => {
+      loadControl.setPaused(true);
+      setTimeout(() => loadControl.setPaused(false), 200);
+
+      const worker = new WorkerThread();
+      const { WorkerRateLimiter } = await import('./worker-rate-limiter');
+      const limiter = vi.mocked(WorkerRateLimiter).mock.instances[0] as unknown as {
+        getAvailableRequests: Mock<Procedure>;
+        pause: Mock<Procedure>;
+      };
+      const { WorkerStateManager } = await import('./shared-memory/worker-state-manager');
+      const state = vi.mocked(WorkerStateManager).mock.instances[0] as unknown as {
+        setWorkerState: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      expect(limiter.pause).toHaveBeenCalled();
+      expect(limiter.pause.mock.invocationCallOrder[0]).toBeLessThan(
+        limiter.getAvailableRequests.mock.invocationCallOrder[0],
+      );
+      expect(state.setWorkerState.mock.calls.map(([, workerState]) => workerState)).toEqual([
+        WorkerState.RUNNING,
+        WorkerState.PAUSED,
+        WorkerState.RUNNING,
+        WorkerState.FINISHED,
+      ]);
+    });
+  });
+
+  describe('endpoint state', () => {
+    const mockEndpointStates = async (running: boolean, active: boolean): Promise<void> => {
+      const { EndpointStateManager } = await import('./shared-memory/endpoint-state-manager');
+      vi.mocked(EndpointStateManager).mockImplementationOnce(function (this: {
+        isEndpointActive: (endpointIndex: number) => boolean;
+        isEndpointRunning: (endpointIndex: number) => boolean;
+      }) {
+        this.isEndpointActive = vi.fn().mockReturnValue(active);
+        this.isEndpointRunning = vi.fn().mockReturnValue(running);
+      });
+    };
+
+    it('should finish once every endpoint is stopped by early exit', async () => {
+      await mockEndpointStates(false, false);
+      const startedAt = Date.now();
+
+      await new WorkerThread().start();
+
+      expect(Date.now() - startedAt).toBeLessThan(500);
+    });
+
+    it('should keep running until the test ends while endpoints are stopped by hand', async () => {
+      await mockEndpointStates(false, true);
+      const startedAt = Date.now();
+
+      await new WorkerThread().start();
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+      expect(vi.mocked(RequestExecutor).mock.instances).toHaveLength(1);
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      expect(executor.executeRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrency', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        executor: { maxInFlight: 8, pipelineDepth: 2, type: 'fixedRps' },
+      });
+      vi.mocked(RequestExecutor).mockImplementationOnce(function (this: {
+        executeRequest: Mock<Procedure>;
+        releaseResultObject: Mock<Procedure>;
+      }) {
+        this.executeRequest = vi.fn(
+          () => new Promise((resolve) => setTimeout(() => resolve({ status: 200 }), 50)),
+        );
+        this.releaseResultObject = vi.fn();
+      } as never);
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).executor;
+    });
+
+    /** Starts a worker whose rate limiter always has requests due, returning its peak in flight */
+    const runWithBacklog = async (backlog: number): Promise<number> => {
+      const worker = new WorkerThread();
+      const { WorkerRateLimiter } = await import('./worker-rate-limiter');
+      const limiter = vi.mocked(WorkerRateLimiter).mock.instances[0] as unknown as {
+        getAvailableRequests: Mock<Procedure>;
+        getBacklog: Mock<Procedure>;
+      };
+      limiter.getAvailableRequests.mockReset().mockImplementation((batchSize: number) =>
+        Array.from({ length: batchSize }, () => ({
+          entry: workerData.assignedEndpoints[0],
+          scheduledAtMs: 0,
+        })),
+      );
+      limiter.getBacklog.mockReturnValue(backlog);
+      const { WorkerStateManager } = await import('./shared-memory/worker-state-manager');
+      const state = vi.mocked(WorkerStateManager).mock.instances[0] as unknown as {
+        addInFlight: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      let inFlight = 0;
+      let peak = 0;
+      for (const [, delta] of state.addInFlight.mock.calls) {
+        inFlight += delta;
+        peak = Math.max(peak, inFlight);
+      }
+      expect(inFlight).toBe(0);
+      return peak;
+    };
+
+    it('should keep at most the pipeline depth in flight without a backlog', async () => {
+      expect(await runWithBacklog(0)).toBe(2);
+    });
+
+    it('should grow the requests in flight up to the ceiling while requests back up', async () => {
+      expect(await runWithBacklog(5)).toBe(8);
+    });
+  });
+
+  describe('network errors', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        globalTimeouts: { connectMs: 1000, headersMs: 2000, totalMs: 3000 },
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+    });
+
+    it('should pass the global timeouts and record the error category of a failure', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordError: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+        recordStatusCode: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        error: 'Headers Timeout Error',
+        errorCategory: 'timeout',
+        headers: {},
+        status: 0,
+        success: false,
+      });
+
+      await worker.start();
+
+      const [, , options] = executor.executeRequest.mock.calls[0];
+      expect(options.timeouts).toEqual({ connectMs: 1000, headersMs: 2000, totalMs: 3000 });
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, false);
+      expect(stats.recordError).toHaveBeenCalledWith(0, 'timeout');
+      expect(stats.recordStatusCode).not.toHaveBeenCalled();
+    });
+
+    it('should send the logged failures to the main thread', async () => {
+      const { parentPort } = await import('node:worker_threads');
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        error: 'read ECONNRESET',
+        errorCode: 'ECONNRESET',
+        headers: {},
+        status: 0,
+        success: false,
+      });
+
+      await worker.start();
+
+      expect(parentPort!.postMessage).toHaveBeenCalledWith({
+        entries: [
+          expect.objectContaining({
+            count: 1,
+            endpointKey: 'GET http://example.com/api/1',
+            kind: 'connectionReset',
+            message: 'read ECONNRESET',
+            sample: { detail: 'ECONNRESET', url: 'http://example.com/api/1' },
+          }),
+        ],
+        type: 'errorLog',
+      });
+    });
+
+    it('should key GraphQL requests by operation name and report their errors', async () => {
+      const { parentPort } = await import('node:worker_threads');
+      const endpoint = (workerData as { assignedEndpoints: object[] }).assignedEndpoints[0];
+      Object.assign(endpoint, {
+        graphql: {
+          operationName: 'GetUser',
+          query: 'query GetUser { user { id } }',
+          variables: {},
+        },
+        method: 'POST',
+      });
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const body = '{"data":null,"errors":[{"message":"User not found"}]}';
+      executor.executeRequest.mockResolvedValueOnce({
+        body,
+        graphqlErrors: ['User not found'],
+        headers: {},
+        status: 200,
+        success: false,
+      });
+
+      await worker.start();
+      delete (endpoint as { graphql?: unknown }).graphql;
+      Object.assign(endpoint, { method: 'GET' });
+
+      expect(executor.executeRequest.mock.calls[0][2].endpointKey).toBe('GetUser');
+      expect(parentPort?.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpointKey: 'GetUser',
+          graphqlErrors: ['User not found'],
+          type: 'bodySample',
+        }),
+      );
+      expect(parentPort!.postMessage).toHaveBeenCalledWith({
+        entries: [
+          expect.objectContaining({
+            endpointKey: 'GetUser',
+            kind: 'graphql',
+            message: 'User not found',
+            sample: { detail: body, url: 'http://example.com/api/1' },
+          }),
+        ],
+        type: 'errorLog',
+      });
+    });
+  });
+
+  describe('auth', () => {
+    const originalData = { ...workerData };
+    const globalAuth = { token: 'abc', type: 'bearer' };
+
+    beforeEach(() => {
+      Object.assign(workerData, { globalAuth });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData, { globalAuth: undefined });
+    });
+
+    it('should send the credentials of the global auth and drop a rejected token', async () => {
+      const invalidateSpy = vi.spyOn(AuthManager.prototype, 'invalidate');
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        headers: {},
+        status: 401,
+        success: false,
+      });
+
+      await worker.start();
+
+      const [, , options] = executor.executeRequest.mock.calls[0];
+      expect(options.authorization).toBe('Bearer abc');
+      expect(invalidateSpy).toHaveBeenCalledWith(globalAuth, 'Bearer abc');
+      expect(invalidateSpy).toHaveBeenCalledTimes(1);
+      invalidateSpy.mockRestore();
+    });
+
+    it('should send a request rejected with a cached OAuth2 token once more with a new token', async () => {
+      const getAuthorizationSpy = vi
+        .spyOn(AuthManager.prototype, 'getAuthorization')
+        .mockResolvedValueOnce('Bearer expired')
+        .mockResolvedValueOnce('Bearer fresh')
+        .mockResolvedValue('Bearer fresh');
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+        releaseResultObject: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordRequest: Mock<Procedure>;
+      };
+      const rejected = { headers: {}, status: 401, success: false };
+      executor.executeRequest.mockResolvedValueOnce(rejected);
+
+      await worker.start();
+
+      expect(executor.executeRequest.mock.calls[0][2].authorization).toBe('Bearer expired');
+      expect(executor.executeRequest.mock.calls[1][2].authorization).toBe('Bearer fresh');
+      expect(executor.releaseResultObject).toHaveBeenCalledWith(rejected);
+      expect(stats.recordRequest).not.toHaveBeenCalledWith(0, false);
+      getAuthorizationSpy.mockRestore();
+    });
+
+    it('should let a request send no credentials', async () => {
+      const endpoint = (workerData as { assignedEndpoints: object[] }).assignedEndpoints[0];
+      Object.assign(endpoint, { auth: { type: 'none' } });
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+
+      await worker.start();
+      delete (endpoint as { auth?: unknown }).auth;
+
+      const [, , options] = executor.executeRequest.mock.calls[0];
+      expect(options.authorization).toBeUndefined();
+    });
+  });
+
+  describe('cookies', () => {
+    const originalData = { ...workerData };
+    const seed = { name: 'seed', path: '/', secure: false, value: '1' };
+
+    const startWithCookies = async (
+      resetEachIteration: boolean,
+      scope: 'virtualUser' | 'worker' = 'virtualUser',
+    ): Promise<{ cookies: unknown[]; executeRequest: Mock<Procedure> }> => {
+      Object.assign(workerData, {
+        cookies: { initial: [seed], resetEachIteration, scope },
+      });
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        body: 'ok',
+        headers: { 'set-cookie': ['session=abc; Path=/'] },
+        status: 200,
+        success: true,
+      });
+
+      await worker.start();
+
+      return {
+        cookies: executor.executeRequest.mock.calls.map(([, , options]) => options.cookie),
+        executeRequest: executor.executeRequest,
+      };
+    };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        executor: {
+          thinkTime: { distribution: 'constant', maxMs: 0, minMs: 300 },
+          type: 'virtualUsers',
+          vuRampUpSec: 0,
+          vus: 1,
+        },
+        vuStartDelaysMs: [0],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).cookies;
+      delete (workerData as Record<string, unknown>).executor;
+      delete (workerData as Record<string, unknown>).vuStartDelaysMs;
+    });
+
+    it('should send the cookies set by earlier responses and report them in samples', async () => {
+      const { parentPort } = await import('node:worker_threads');
+
+      const { cookies } = await startWithCookies(false);
+
+      expect(cookies[0]).toBe('seed=1');
+      expect(cookies[1]).toBe('seed=1; session=abc');
+      expect(parentPort?.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cookies: { jar: 2, received: 1, sent: 1 },
+          type: 'bodySample',
+        }),
+      );
+    });
+
+    it('should reset the jar at the start of each iteration', async () => {
+      const { cookies } = await startWithCookies(true);
+
+      expect(cookies.length).toBeGreaterThanOrEqual(2);
+      expect(new Set(cookies)).toEqual(new Set(['seed=1']));
+    });
+
+    it('should keep the worker jar while other iterations are running against it', async () => {
+      Object.assign(workerData, {
+        executor: { ...(workerData as { executor: object }).executor, vus: 2 },
+        vuStartDelaysMs: [0, 50],
+      });
+
+      const { cookies } = await startWithCookies(true, 'worker');
+
+      expect(cookies.length).toBeGreaterThanOrEqual(3);
+      expect(cookies[0]).toBe('seed=1');
+      expect(new Set(cookies.slice(1))).toEqual(new Set(['seed=1; session=abc']));
+    });
+  });
+
+  describe('TLS', () => {
+    const originalData = { ...workerData };
+    const tlsOptions = { global: { rejectUnauthorized: false }, origins: {} };
+
+    beforeEach(() => {
+      Object.assign(workerData, { tls: tlsOptions });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).tls;
+      globalAgentManager.setTlsOptions(undefined);
+      vi.restoreAllMocks();
+    });
+
+    it('should connect with the TLS options of the test and report the negotiated TLS in samples', async () => {
+      const { parentPort } = await import('node:worker_threads');
+      const setTlsOptions = vi.spyOn(globalAgentManager, 'setTlsOptions');
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const tls = { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' };
+      executor.executeRequest.mockResolvedValueOnce({
+        body: 'ok',
+        headers: {},
+        status: 200,
+        success: true,
+        tls,
+      });
+
+      await worker.start();
+
+      expect(setTlsOptions).toHaveBeenCalledWith(tlsOptions);
+      expect(parentPort?.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ tls, type: 'bodySample' }),
+      );
+    });
+  });
+
+  describe('HTTP protocol', () => {
+    const originalData = { ...workerData };
+    const httpOptions = { maxConcurrentStreams: 100, origins: {}, protocol: 'h2' };
+
+    beforeEach(() => {
+      Object.assign(workerData, { http: httpOptions });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).http;
+      globalAgentManager.setHttpOptions(undefined);
+      vi.restoreAllMocks();
+    });
+
+    it('should connect with the protocol of the test and count the protocol of each request', async () => {
+      const setHttpOptions = vi.spyOn(globalAgentManager, 'setHttpOptions');
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordProtocol: Mock<Procedure>;
+      };
+      executor.executeRequest.mockResolvedValueOnce({
+        body: 'ok',
+        headers: {},
+        protocol: 'h2',
+        status: 200,
+        success: true,
+      });
+
+      await worker.start();
+
+      expect(setHttpOptions).toHaveBeenCalledWith(httpOptions);
+      expect(stats.recordProtocol).toHaveBeenCalledWith(0, 'h2');
+    });
+  });
+
+  describe('WebSockets', () => {
+    const originalData = { ...workerData };
+    const webSocket = {
+      headers: { 'X-Room': '{{room}}' },
+      holdDurationSec: 0,
+      messages: [
+        { data: 'join {{room}}', type: 'send' },
+        { pattern: 'joined', timeoutMs: 1000, type: 'expect' },
+      ],
+      rps: 1,
+      url: 'ws://example.com/rooms/{{room}}',
+    };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [{ ...webSocket, method: 'WS', payload: '' }],
+        assignedWebSockets: [{ ...webSocket, endpointIndex: 0 }],
+        dataDistribution: 'unique',
+        dataRows: [{ room: 'lobby' }],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).dataRows;
+      delete (workerData as Record<string, unknown>).dataDistribution;
+    });
+
+    it('should run resolved connections and record them as requests of their endpoint', async () => {
+      const worker = new WorkerThread();
+      const { WebSocketExecutor } = await import('../http/websocket-executor');
+      const webSocketExecutor = vi.mocked(WebSocketExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordBytesSent: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+        recordWebSocketSession: Mock<Procedure>;
+      };
+      const { HdrHistogramManager } = await import('./shared-memory/hdr-histogram-manager');
+      const [histogram, , , , , , , roundTripHistogram] = vi.mocked(HdrHistogramManager).mock
+        .instances as unknown as { recordLatency: Mock<Procedure> }[];
+
+      await worker.start();
+
+      expect(executor.executeRequest).not.toHaveBeenCalled();
+      expect(webSocketExecutor.execute).toHaveBeenCalledTimes(1);
+      const [connection, options] = webSocketExecutor.execute.mock.calls[0];
+      expect(connection).toEqual({
+        headers: { 'X-Room': 'lobby' },
+        holdDurationSec: 0,
+        messages: [
+          { data: 'join lobby', type: 'send' },
+          { pattern: 'joined', timeoutMs: 1000, type: 'expect' },
+        ],
+        url: 'ws://example.com/rooms/lobby',
+      });
+      expect(options.endsAt).toBeGreaterThan(Date.now() - 1000);
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, true);
+      expect(stats.recordBytesSent).toHaveBeenCalledWith(0, 10);
+      expect(stats.recordWebSocketSession).toHaveBeenCalledWith(0, 1, 1, false);
+      expect(histogram.recordLatency).toHaveBeenCalledWith(0, 15);
+      expect(roundTripHistogram.recordLatency).toHaveBeenCalledWith(0, 12);
+    });
+
+    it('should record an abnormally closed connection as a failure', async () => {
+      const worker = new WorkerThread();
+      const { WebSocketExecutor } = await import('../http/websocket-executor');
+      const webSocketExecutor = vi.mocked(WebSocketExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordRequest: Mock<Procedure>;
+        recordWebSocketSession: Mock<Procedure>;
+      };
+      webSocketExecutor.execute.mockResolvedValueOnce({
+        abnormalClose: true,
+        bytesReceived: 0,
+        bytesSent: 10,
+        connectMs: 15,
+        error: 'Connection closed with code 1011',
+        errorKind: 'connectionReset',
+        messagesReceived: 0,
+        messagesSent: 1,
+        roundTripsMs: [],
+        success: false,
+      });
+
+      await worker.start();
+
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, false);
+      expect(stats.recordWebSocketSession).toHaveBeenCalledWith(0, 1, 0, true);
+    });
+  });
+
+  describe('gRPC', () => {
+    const originalData = { ...workerData };
+    const grpc = {
+      message: { text: 'hi {{user}}' },
+      metadata: { 'x-user': '{{user}}' },
+      method: 'Say',
+      protoPath: './echo.proto',
+      rps: 1,
+      service: 'echo.Echo',
+      url: 'http://localhost:50051',
+    };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [
+          {
+            headers: grpc.metadata,
+            method: 'GRPC',
+            payload: grpc.message,
+            rps: 1,
+            url: 'http://localhost:50051/echo.Echo/Say',
+          },
+        ],
+        assignedGrpc: [{ ...grpc, endpointIndex: 0 }],
+        dataDistribution: 'unique',
+        dataRows: [{ user: 'ada' }],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).dataRows;
+      delete (workerData as Record<string, unknown>).dataDistribution;
+    });
+
+    it('should make resolved calls and record them as requests of their endpoint', async () => {
+      const worker = new WorkerThread();
+      const { GrpcExecutor } = await import('../http/grpc-executor');
+      const grpcExecutor = vi.mocked(GrpcExecutor).mock.instances[0] as unknown as {
+        close: Mock<Procedure>;
+        execute: Mock<Procedure>;
+      };
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordBytesReceived: Mock<Procedure>;
+        recordGrpcCall: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+      };
+      const { HdrHistogramManager } = await import('./shared-memory/hdr-histogram-manager');
+      const [histogram] = vi.mocked(HdrHistogramManager).mock.instances as unknown as {
+        recordLatency: Mock<Procedure>;
+      }[];
+
+      await worker.start();
+
+      expect(executor.executeRequest).not.toHaveBeenCalled();
+      expect(grpcExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(grpcExecutor.execute.mock.calls[0][0]).toEqual({
+        message: { text: 'hi ada' },
+        metadata: { 'x-user': 'ada' },
+        method: 'Say',
+        protoPath: './echo.proto',
+        service: 'echo.Echo',
+        url: 'http://localhost:50051',
+      });
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, true);
+      expect(stats.recordBytesReceived).toHaveBeenCalledWith(0, 7);
+      expect(stats.recordGrpcCall).toHaveBeenCalledWith(0, 0, 1, 2);
+      expect(histogram.recordLatency).toHaveBeenCalledWith(0, 4);
+      expect(grpcExecutor.close).toHaveBeenCalled();
+    });
+
+    it('should log a status other than OK with its details', async () => {
+      const worker = new WorkerThread();
+      const { GrpcExecutor } = await import('../http/grpc-executor');
+      const grpcExecutor = vi.mocked(GrpcExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordError: Mock<Procedure>;
+        recordGrpcCall: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+      };
+      grpcExecutor.execute.mockResolvedValueOnce({
+        bytesReceived: 0,
+        bytesSent: 9,
+        detail: 'User ada not found',
+        error: 'gRPC NOT_FOUND',
+        errorKind: 'grpcStatus',
+        latencyMs: 3,
+        messagesReceived: 0,
+        messagesSent: 1,
+        statusCode: 5,
+        success: false,
+      });
+
+      await worker.start();
+
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, false);
+      expect(stats.recordError).not.toHaveBeenCalled();
+      expect(stats.recordGrpcCall).toHaveBeenCalledWith(0, 5, 1, 0);
+      const { parentPort } = await import('node:worker_threads');
+      expect(parentPort!.postMessage).toHaveBeenCalledWith({
+        entries: [
+          expect.objectContaining({
+            count: 1,
+            endpointKey: 'GRPC http://localhost:50051/echo.Echo/Say',
+            kind: 'grpcStatus',
+            message: 'gRPC NOT_FOUND',
+            sample: { detail: 'User ada not found', url: 'http://localhost:50051' },
+          }),
+        ],
+        type: 'errorLog',
+      });
+    });
+  });
+
+  describe('streams', () => {
+    const originalData = { ...workerData };
+    const stream = {
+      headers: { 'X-User': '{{user}}' },
+      holdDurationSec: 0,
+      reconnectDelayMs: 200,
+      subscriptions: 2,
+      thresholds: [],
+      type: 'sse',
+      url: 'http://example.com/feeds/{{user}}',
+    };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [{ ...stream, method: 'SSE', payload: '', rps: 2 }],
+        assignedStreams: [{ ...stream, endpointIndex: 0 }],
+        dataDistribution: 'roundRobin',
+        dataRows: [{ user: 'ada' }],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).dataRows;
+      delete (workerData as Record<string, unknown>).dataDistribution;
+    });
+
+    it('should hold resolved subscriptions and record each one as a request of its endpoint', async () => {
+      const worker = new WorkerThread();
+      const { StreamExecutor } = await import('../http/stream-executor');
+      const streamExecutor = vi.mocked(StreamExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordBytesReceived: Mock<Procedure>;
+        recordRequest: Mock<Procedure>;
+        recordStatusCode: Mock<Procedure>;
+        recordStreamSubscription: Mock<Procedure>;
+      };
+      const { HdrHistogramManager } = await import('./shared-memory/hdr-histogram-manager');
+      const [histogram, , , , , , , , eventGapHistogram] = vi.mocked(HdrHistogramManager).mock
+        .instances as unknown as { recordLatency: Mock<Procedure> }[];
+
+      await worker.start();
+
+      expect(executor.executeRequest).not.toHaveBeenCalled();
+      expect(streamExecutor.execute).toHaveBeenCalledTimes(2);
+      expect(streamExecutor.execute.mock.calls[0][0]).toEqual({
+        headers: { 'X-User': 'ada' },
+        holdDurationSec: 0,
+        type: 'sse',
+        url: 'http://example.com/feeds/ada',
+      });
+      expect(stats.recordRequest).toHaveBeenCalledTimes(2);
+      expect(stats.recordRequest).toHaveBeenCalledWith(0, true);
+      expect(stats.recordStatusCode).toHaveBeenCalledWith(0, 200);
+      expect(stats.recordBytesReceived).toHaveBeenCalledWith(0, 40);
+      expect(stats.recordStreamSubscription).toHaveBeenCalledTimes(8);
+      expect(stats.recordStreamSubscription).toHaveBeenCalledWith(0, 1, false);
+      expect(stats.recordStreamSubscription).toHaveBeenLastCalledWith(0, 0, false);
+      // Events are recorded as they arrive, before their subscription closes
+      expect(stats.recordStreamSubscription.mock.invocationCallOrder[0]).toBeLessThan(
+        stats.recordRequest.mock.invocationCallOrder[0],
+      );
+      expect(histogram.recordLatency).toHaveBeenCalledWith(0, 25);
+      expect(eventGapHistogram.recordLatency).toHaveBeenCalledWith(0, 100);
+      expect(eventGapHistogram.recordLatency).toHaveBeenCalledWith(0, 120);
+    });
+
+    it('should open disconnected subscriptions again after the reconnect delay', async () => {
+      Object.assign(workerData, {
+        assignedStreams: [{ ...stream, endpointIndex: 0, subscriptions: 1 }],
+      });
+      const worker = new WorkerThread();
+      const { StreamExecutor } = await import('../http/stream-executor');
+      const streamExecutor = vi.mocked(StreamExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const { StatsCounterManager } = await import('./shared-memory/stats-counter-manager');
+      const stats = vi.mocked(StatsCounterManager).mock.instances[0] as unknown as {
+        recordStreamSubscription: Mock<Procedure>;
+      };
+      const hold = streamExecutor.execute.getMockImplementation()!;
+      const openedAt: number[] = [];
+      streamExecutor.execute.mockImplementation((...args: unknown[]) => {
+        openedAt.push(Date.now());
+        if (openedAt.length > 1) return hold(...args);
+        (args[1] as StreamSubscriptionOptions).onEvent?.(undefined);
+        return Promise.resolve({
+          bytesReceived: 0,
+          disconnected: true,
+          eventsReceived: 1,
+          statusCode: 200,
+          success: true,
+          timeToFirstEventMs: 5,
+        });
+      });
+
+      await worker.start();
+
+      expect(openedAt).toHaveLength(2);
+      expect(openedAt[1] - openedAt[0]).toBeGreaterThanOrEqual(190);
+      expect(stats.recordStreamSubscription).toHaveBeenCalledWith(0, 0, true);
+      expect(stats.recordStreamSubscription).toHaveBeenLastCalledWith(0, 0, false);
+    });
+
+    it('should close the subscriptions of an endpoint stopped by hand', async () => {
+      Object.assign(workerData, {
+        assignedStreams: [{ ...stream, endpointIndex: 0, subscriptions: 1 }],
+      });
+      const worker = new WorkerThread();
+      const { StreamExecutor } = await import('../http/stream-executor');
+      const streamExecutor = vi.mocked(StreamExecutor).mock.instances[0] as unknown as {
+        execute: Mock<Procedure>;
+      };
+      const { EndpointStateManager } = await import('./shared-memory/endpoint-state-manager');
+      const endpointState = vi.mocked(EndpointStateManager).mock.instances[0] as unknown as {
+        isEndpointRunning: Mock<Procedure>;
+      };
+      setTimeout(() => endpointState.isEndpointRunning.mockReturnValue(false), 200);
+
+      await worker.start();
+
+      expect(streamExecutor.execute).toHaveBeenCalledTimes(1);
+      const { signal } = streamExecutor.execute.mock.calls[0][1] as { signal: AbortSignal };
+      expect(signal.aborted).toBe(true);
+    });
+  });
+
+  describe('virtual users', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        executor: {
+          thinkTime: { distribution: 'constant', maxMs: 0, minMs: 200 },
+          type: 'virtualUsers',
+          vuRampUpSec: 0,
+          vus: 2,
+        },
+        vuStartDelaysMs: [0, 0],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).executor;
+      delete (workerData as Record<string, unknown>).vuStartDelaysMs;
+    });
+
+    it('should loop each virtual user through the requests with think time instead of the rate limiter', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+      const { WorkerRateLimiter } = await import('./worker-rate-limiter');
+      const rateLimiter = vi.mocked(WorkerRateLimiter).mock.instances[0] as unknown as {
+        getAvailableRequests: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      // 2 users pausing 200ms after each request for 1 second
+      const requests = executor.executeRequest.mock.calls.length;
+      expect(requests).toBeGreaterThanOrEqual(4);
+      expect(requests).toBeLessThanOrEqual(12);
+      expect(rateLimiter.getAvailableRequests).not.toHaveBeenCalled();
+    });
+
+    it('should count virtual users as active while they run', async () => {
+      const worker = new WorkerThread();
+      const { WorkerStateManager } = await import('./shared-memory/worker-state-manager');
+      const state = vi.mocked(WorkerStateManager).mock.instances[0] as unknown as {
+        addActiveVus: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      expect(state.addActiveVus.mock.calls).toEqual([
+        [0, 1],
+        [0, 1],
+        [0, -1],
+        [0, -1],
+      ]);
+    });
+  });
+
+  describe('templates', () => {
+    const originalData = { ...workerData };
+
+    beforeEach(() => {
+      Object.assign(workerData, {
+        assignedEndpoints: [
+          {
+            headers: { 'X-User': '{{user}}' },
+            method: 'POST',
+            payload: { id: '{{$sequence}}' },
+            rps: 10,
+            url: 'http://example.com/users/{{user}}',
+          },
+        ],
+        dataDistribution: 'unique',
+        dataRows: [{ user: 'ada' }],
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(workerData, originalData);
+      delete (workerData as Record<string, unknown>).dataRows;
+      delete (workerData as Record<string, unknown>).dataDistribution;
+    });
+
+    it('should resolve data rows and generators while recording the endpoint key', async () => {
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      expect(executor.executeRequest).toHaveBeenCalledTimes(1);
+      const [request, , options] = executor.executeRequest.mock.calls[0];
+      expect(request.url).toBe('http://example.com/users/ada');
+      expect(request.headers).toEqual({ 'X-User': 'ada' });
+      expect(request.payload).toEqual({ id: 0 });
+      expect(options.endpointKey).toBe('POST http://example.com/users/{{user}}');
+    });
+
+    it('should keep sending requests that read no data once the unique rows ran out', async () => {
+      Object.assign(workerData, {
+        assignedEndpoints: [
+          ...(workerData as { assignedEndpoints: object[] }).assignedEndpoints,
+          { headers: {}, method: 'GET', rps: 10, url: 'http://example.com/items/{{$sequence}}' },
+          { method: 'GET', rps: 10, url: 'http://example.com/health' },
+        ],
+        dataRows: [],
+        durationSec: 0.2,
+        endpointIndices: [0, 1, 2],
+      });
+      const worker = new WorkerThread();
+      const executor = vi.mocked(RequestExecutor).mock.instances[0] as unknown as {
+        executeRequest: Mock<Procedure>;
+      };
+
+      await worker.start();
+
+      expect(executor.executeRequest.mock.calls.map(([request]) => request.url)).toEqual([
+        'http://example.com/items/0',
+        'http://example.com/health',
+      ]);
+    });
+  });
 });
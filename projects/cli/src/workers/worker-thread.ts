@@ -1,22 +1,71 @@
 import { parentPort, workerData } from 'node:worker_threads';
-import { type WorkerData, WorkerState } from '@tressi/shared/cli';
-import type { TressiRequestConfig } from '@tressi/shared/common';
+import {
+  type WorkerData,
+  type WorkerGrpc,
+  type WorkerScenario,
+  WorkerState,
+  type WorkerStream,
+  type WorkerWebSocket,
+} from '@tressi/shared/cli';
+import {
+  executorDefaults,
+  getEndpointKey,
+  type RequestResult,
+  type RequestTimingPhase,
+  requestTimingPhaseDefaults,
+  type TressiAuthConfig,
+  type TressiCookiesConfig,
+  type TressiExecutorConfig,
+  type TressiGrpcConfig,
+  type TressiRequestConfig,
+  type TressiScenarioExtract,
+  type TressiTimeoutsConfig,
+} from '@tressi/shared/common';
 
+import { globalAgentManager } from '../http/agent-manager';
+import { AuthManager } from '../http/auth-manager';
+import { CookieJar } from '../http/cookie-jar';
+import { GrpcExecutor } from '../http/grpc-executor';
 import { RequestExecutor } from '../http/request-executor';
 import { ResponseSampler } from '../http/response-sampler';
+import { ResponseValidator } from '../http/response-validator';
+import { StreamExecutor } from '../http/stream-executor';
+import { WebSocketExecutor } from '../http/websocket-executor';
 import { terminal } from '../tui/terminal';
+import { DataFeeder } from './data-feeder';
+import { describeFailure, ErrorLog } from './error-log';
 import { EndpointStateManager } from './shared-memory/endpoint-state-manager';
 import { HdrHistogramManager } from './shared-memory/hdr-histogram-manager';
+import { LoadControlManager } from './shared-memory/load-control-manager';
 import { StatsCounterManager } from './shared-memory/stats-counter-manager';
 import { WorkerStateManager } from './shared-memory/worker-state-manager';
+import { TemplateGenerators } from './template-generators';
+import { sampleThinkTime } from './think-time';
+import { VariableContext } from './variable-context';
+import { WorkerHealthMonitor } from './worker-health-monitor';
 import { WorkerRateLimiter } from './worker-rate-limiter';
 
+/** How often a worker sends the failures logged since its last flush to the main thread */
+const ERROR_LOG_FLUSH_INTERVAL_MS = 1000;
+
+/** How long after its scheduled time a request may start before it counts as late */
+const LATE_REQUEST_THRESHOLD_MS = 10;
+
+/** How often a paused worker, or one with every endpoint stopped by hand, checks for a change */
+const PAUSE_POLL_INTERVAL_MS = 50;
+
+/** Shortest time left in the test for which a subscription is opened, as timers may fire early */
+const MIN_SUBSCRIPTION_MS = 10;
+
+/** Matches placeholders that read a data column or an extracted value rather than a generator */
+const DATA_PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)/g;
+
 /**
  * WorkerThread - Individual worker thread implementation for Tressi load testing.
  *
- * This class represents a single worker thread that executes HTTP requests for a subset
- * of endpoints. It implements a pipeline architecture for high-throughput request execution
- * with integrated rate limiting and shared memory coordination.
+ * This class represents a single worker thread that executes the requests, scenarios, WebSocket,
+ * gRPC and streaming endpoints assigned to it. It implements a pipeline architecture for
+ * high-throughput request execution with integrated rate limiting and shared memory coordination.
  *
  * @example
  * ```typescript
@@ -28,21 +77,57 @@ import { WorkerRateLimiter } from './worker-rate-limiter';
  * @remarks
  * The worker uses a pipeline approach with configurable depth to maintain high concurrency
  * without blocking. It coordinates with the main thread through SharedArrayBuffer for
- * metrics collection and state synchronization. Rate limiting is implemented using a
- * token bucket algorithm that allows burst traffic while maintaining target RPS.
+ * metrics collection and state synchronization. Rate limiting schedules requests at the target
+ * RPS with constant or Poisson arrivals. With the `virtualUsers` executor the worker runs its
+ * share of virtual users instead, and it holds the subscriptions of streaming endpoints for the
+ * whole test with either executor.
  */
 export class WorkerThread {
   private readonly _rateLimiter: WorkerRateLimiter;
+  private readonly _scenarioRateLimiter: WorkerRateLimiter<WorkerScenario>;
+  private readonly _webSocketRateLimiter: WorkerRateLimiter<WorkerWebSocket>;
+  private readonly _grpcRateLimiter: WorkerRateLimiter<WorkerGrpc>;
   private readonly _statsCounterManager: StatsCounterManager;
   private readonly _hdrHistogramManager: HdrHistogramManager;
+  private readonly _correctedHdrHistogramManager: HdrHistogramManager;
+  private readonly _phaseHdrHistogramManagers: Record<RequestTimingPhase, HdrHistogramManager>;
+  private readonly _roundTripHdrHistogramManager: HdrHistogramManager;
+  private readonly _eventGapHdrHistogramManager: HdrHistogramManager;
   private readonly _workerStateManager: WorkerStateManager;
+  private readonly _healthMonitor: WorkerHealthMonitor;
   private readonly _endpointStateManager: EndpointStateManager;
+  private readonly _loadControlManager: LoadControlManager;
   private readonly _requestExecutor: RequestExecutor;
+  private readonly _webSocketExecutor: WebSocketExecutor;
+  private readonly _grpcExecutor: GrpcExecutor;
+  private readonly _streamExecutor: StreamExecutor;
+  private readonly _authManager: AuthManager;
+  private readonly _responseValidator: ResponseValidator;
+  private readonly _templateGenerators: TemplateGenerators;
+  private readonly _dataFeeder: DataFeeder;
+  private readonly _errorLog = new ErrorLog();
+  private _lastErrorLogFlush = 0;
+  private readonly _templatedEndpoints: boolean[];
+  private readonly _dataEndpoints: boolean[];
+  private readonly _standaloneIndices: number[];
+  private readonly _endpointKeys: string[];
+  private readonly _localEndpointIndices: Map<string, number>;
   private _isRunning = false;
+  private _isPaused = false;
   private readonly _workerId: number;
   private readonly _assignedEndpoints: TressiRequestConfig[];
-  private readonly _endpointOffset: number;
+  private readonly _assignedScenarios: WorkerScenario[];
+  private readonly _assignedWebSockets: WorkerWebSocket[];
+  private readonly _assignedGrpc: WorkerGrpc[];
+  private readonly _assignedStreams: WorkerStream[];
+  private readonly _endpointIndices: number[];
   private readonly _globalHeaders?: Record<string, string>;
+  private readonly _globalTimeouts?: TressiTimeoutsConfig;
+  private readonly _globalAuth?: TressiAuthConfig;
+  private readonly _cookies?: TressiCookiesConfig;
+  private readonly _workerCookieJar?: CookieJar;
+  private readonly _executor?: TressiExecutorConfig;
+  private readonly _vuStartDelaysMs: number[];
   private readonly _startTime: number;
   private readonly _durationMs: number;
   private readonly _totalWorkers: number;
@@ -51,8 +136,20 @@ export class WorkerThread {
     const data = workerData as WorkerData;
     this._workerId = data.workerId;
     this._assignedEndpoints = data.assignedEndpoints;
-    this._endpointOffset = data.endpointOffset;
+    this._assignedScenarios = data.assignedScenarios ?? [];
+    this._assignedWebSockets = data.assignedWebSockets ?? [];
+    this._assignedGrpc = data.assignedGrpc ?? [];
+    this._assignedStreams = data.assignedStreams ?? [];
+    this._endpointIndices = data.endpointIndices;
     this._globalHeaders = data.globalHeaders;
+    this._globalTimeouts = data.globalTimeouts;
+    this._globalAuth = data.globalAuth;
+    this._cookies = data.cookies;
+    this._workerCookieJar = data.cookies ? new CookieJar(data.cookies.initial) : undefined;
+    globalAgentManager.setHttpOptions(data.http);
+    globalAgentManager.setTlsOptions(data.tls);
+    this._executor = data.executor;
+    this._vuStartDelaysMs = data.vuStartDelaysMs ?? [];
     this._totalWorkers = data.totalWorkers;
 
     // Create managers with provided buffers
@@ -70,13 +167,185 @@ export class WorkerThread {
       data.histogramBuffer,
     );
 
-    this._workerStateManager = new WorkerStateManager(this._totalWorkers, data.workerStateBuffer);
+    this._correctedHdrHistogramManager = new HdrHistogramManager(
+      this._assignedEndpoints.length,
+      3,
+      1,
+      120_000_000,
+      data.correctedHistogramBuffer,
+    );
+
+    this._phaseHdrHistogramManagers = Object.fromEntries(
+      requestTimingPhaseDefaults.map((phase) => [
+        phase,
+        new HdrHistogramManager(
+          this._assignedEndpoints.length,
+          3,
+          1,
+          120_000_000,
+          data.phaseHistogramBuffers[phase],
+        ),
+      ]),
+    ) as Record<RequestTimingPhase, HdrHistogramManager>;
+
+    this._roundTripHdrHistogramManager = new HdrHistogramManager(
+      this._assignedEndpoints.length,
+      3,
+      1,
+      120_000_000,
+      data.roundTripHistogramBuffer,
+    );
+
+    this._eventGapHdrHistogramManager = new HdrHistogramManager(
+      this._assignedEndpoints.length,
+      3,
+      1,
+      120_000_000,
+      data.eventGapHistogramBuffer,
+    );
+
+    this._workerStateManager = new WorkerStateManager(
+      this._totalWorkers,
+      data.workerStateBuffer,
+      data.workerMetricsBuffer,
+    );
+    this._healthMonitor = new WorkerHealthMonitor(this._workerStateManager, this._workerId);
 
     const totalEndpoints = data.endpointStateBuffer.byteLength / 4; // 4 bytes per Int32
     this._endpointStateManager = new EndpointStateManager(totalEndpoints, data.endpointStateBuffer);
+    this._loadControlManager = new LoadControlManager(totalEndpoints, data.loadControlBuffer);
+
+    // Scenario steps, WebSocket, gRPC and streaming endpoints never run as standalone requests
+    const stepIndices = new Set([
+      ...this._assignedScenarios.flatMap((scenario) => scenario.steps.map((s) => s.endpointIndex)),
+      ...this._assignedWebSockets.map((webSocket) => webSocket.endpointIndex),
+      ...this._assignedGrpc.map((grpc) => grpc.endpointIndex),
+      ...this._assignedStreams.map((stream) => stream.endpointIndex),
+    ]);
+    this._standaloneIndices = this._assignedEndpoints
+      .map((_, i) => i)
+      .filter((i) => !stepIndices.has(i));
+    const standaloneEndpoints = this._standaloneIndices.map((i) => this._assignedEndpoints[i]);
 
-    this._rateLimiter = new WorkerRateLimiter(this._assignedEndpoints, data.rampUpDurationSec);
+    const arrival = this._executor?.arrival;
+    this._rateLimiter = new WorkerRateLimiter(
+      standaloneEndpoints,
+      data.rampUpDurationSec,
+      data.stages,
+      {
+        arrival,
+        getTargetRps: (index: number, profileRps: number): number =>
+          this._loadControlManager.getTargetRps(
+            this._endpointIndices[this._standaloneIndices[index]],
+            profileRps,
+          ),
+        onDropped: (index: number, count: number): void =>
+          this._statsCounterManager.recordDropped(this._standaloneIndices[index], count),
+      },
+    );
+    // Dropped scenario iterations are counted on their first step, which also holds their rate
+    this._scenarioRateLimiter = new WorkerRateLimiter(
+      this._assignedScenarios,
+      data.rampUpDurationSec,
+      data.stages,
+      {
+        arrival,
+        getTargetRps: (index: number, profileRps: number): number =>
+          this._loadControlManager.getTargetRps(
+            this._endpointIndices[this._assignedScenarios[index].steps[0].endpointIndex],
+            profileRps,
+          ),
+        onDropped: (index: number, count: number): void =>
+          this._statsCounterManager.recordDropped(
+            this._assignedScenarios[index].steps[0].endpointIndex,
+            count,
+          ),
+      },
+    );
+    this._webSocketRateLimiter = new WorkerRateLimiter(
+      this._assignedWebSockets,
+      data.rampUpDurationSec,
+      data.stages,
+      {
+        arrival,
+        getTargetRps: (index: number, profileRps: number): number =>
+          this._loadControlManager.getTargetRps(
+            this._endpointIndices[this._assignedWebSockets[index].endpointIndex],
+            profileRps,
+          ),
+        onDropped: (index: number, count: number): void =>
+          this._statsCounterManager.recordDropped(
+            this._assignedWebSockets[index].endpointIndex,
+            count,
+          ),
+      },
+    );
+    this._grpcRateLimiter = new WorkerRateLimiter(
+      this._assignedGrpc,
+      data.rampUpDurationSec,
+      data.stages,
+      {
+        arrival,
+        getTargetRps: (index: number, profileRps: number): number =>
+          this._loadControlManager.getTargetRps(
+            this._endpointIndices[this._assignedGrpc[index].endpointIndex],
+            profileRps,
+          ),
+        onDropped: (index: number, count: number): void =>
+          this._statsCounterManager.recordDropped(this._assignedGrpc[index].endpointIndex, count),
+      },
+    );
     this._requestExecutor = new RequestExecutor(new ResponseSampler(), 1000);
+    this._webSocketExecutor = new WebSocketExecutor();
+    this._grpcExecutor = new GrpcExecutor();
+    this._streamExecutor = new StreamExecutor();
+    this._authManager = new AuthManager(
+      (latencyMs: number, success: boolean): void =>
+        this._workerStateManager.recordTokenRequest(this._workerId, latencyMs, success),
+      this._globalTimeouts,
+    );
+    this._responseValidator = new ResponseValidator();
+    this._templateGenerators = new TemplateGenerators(this._workerId, this._totalWorkers);
+    this._dataFeeder = new DataFeeder(data.dataRows, data.dataDistribution);
+    const templateSources = this._assignedEndpoints.map((endpoint) =>
+      JSON.stringify([
+        endpoint.url,
+        endpoint.headers,
+        endpoint.payload,
+        endpoint.graphql?.variables,
+      ]),
+    );
+    for (const webSocket of this._assignedWebSockets) {
+      templateSources[webSocket.endpointIndex] = JSON.stringify([
+        webSocket.url,
+        webSocket.headers,
+        webSocket.messages,
+      ]);
+    }
+    for (const grpc of this._assignedGrpc) {
+      templateSources[grpc.endpointIndex] = JSON.stringify([grpc.url, grpc.metadata, grpc.message]);
+    }
+    for (const stream of this._assignedStreams) {
+      templateSources[stream.endpointIndex] = JSON.stringify([stream.url, stream.headers]);
+    }
+    this._templatedEndpoints = templateSources.map((source) => source.includes('{{'));
+    const dataNames = templateSources.map((source) =>
+      Array.from(source.matchAll(DATA_PLACEHOLDER_PATTERN), (match) => match[1]),
+    );
+    this._dataEndpoints = dataNames.map((names) => names.length > 0);
+    // Values extracted by earlier steps are not read from the data rows
+    for (const scenario of this._assignedScenarios) {
+      const extracted = new Set(
+        scenario.steps.flatMap((step) => step.extract.map((e) => e.variable)),
+      );
+      for (const step of scenario.steps) {
+        this._dataEndpoints[step.endpointIndex] = dataNames[step.endpointIndex].some(
+          (name) => !extracted.has(name),
+        );
+      }
+    }
+    this._endpointKeys = this._assignedEndpoints.map((endpoint) => getEndpointKey(endpoint));
+    this._localEndpointIndices = new Map(this._endpointKeys.map((key, index) => [key, index]));
     this._startTime = Date.now();
     this._durationMs = data.durationSec * 1000;
   }
@@ -87,54 +356,157 @@ export class WorkerThread {
    * @returns Promise that resolves when the worker finishes execution
    *
    * @remarks
+   * Runs the rate limited pipeline, or the virtual users of the `virtualUsers` executor, and holds
+   * the subscriptions of the streaming endpoints until the test ends. It then sends the remaining
+   * failures to the main thread and closes its gRPC clients. The worker publishes its health
+   * through the {@link WorkerHealthMonitor} while it runs.
+   */
+  async start(): Promise<void> {
+    this._isRunning = true;
+    this._workerStateManager.setWorkerState(this._workerId, WorkerState.RUNNING);
+    this._healthMonitor.start();
+
+    await Promise.all([
+      this._executor?.type === 'virtualUsers' ? this._runVirtualUsers() : this._runPipeline(),
+      this._holdStreams(),
+    ]);
+
+    this._healthMonitor.stop();
+    this._flushErrorLog();
+    this._grpcExecutor.close();
+    this._workerStateManager.setWorkerState(this._workerId, WorkerState.FINISHED);
+  }
+
+  /**
+   * Sends requests and scenario iterations at their configured RPS (open model).
+   *
+   * @remarks
    * Implements a pipeline architecture with the following key features:
-   * - Configurable pipeline depth (default: 15 concurrent requests)
+   * - Concurrency limit starting at the configured pipeline depth (default: 15)
+   * - Limit doubling up to `maxInFlight` while the rate limiters have a backlog
    * - Non-blocking request execution using Promise sets
-   * - Rate-limited request batching
+   * - Requests sent as soon as the rate limiter schedules them, without extra stagger
+   * - Rate-limited scenario iterations sharing the same pipeline
+   * - Rate-limited WebSocket connections tracked outside the concurrency limit
+   * - Rate-limited gRPC calls sharing the same pipeline
    * - Early exit condition checking
+   * - No new requests while the test is paused, and no burst of the missed ones once it resumes
+   * - Failures sent to the main thread once per second and on completion
    * - Graceful shutdown on duration completion
    *
    * The pipeline maintains a set of in-flight requests and continuously
    * adds new requests as others complete, ensuring maximum throughput.
    */
-  async start(): Promise<void> {
-    this._isRunning = true;
-    this._workerStateManager.setWorkerState(this._workerId, WorkerState.RUNNING);
-
-    // Pipeline configuration
-    const pipelineDepth = 15; // Number of concurrent requests
+  private async _runPipeline(): Promise<void> {
+    const maxInFlight = this._executor?.maxInFlight ?? executorDefaults.maxInFlight;
+    let inFlightLimit = Math.min(
+      this._executor?.pipelineDepth ?? executorDefaults.pipelineDepth,
+      maxInFlight,
+    );
     const inFlightRequests = new Set<Promise<void>>();
+    const openWebSockets = new Set<Promise<void>>();
 
     while (this._isRunning) {
+      if (this._hasFinished()) break;
       const elapsed = Date.now() - this._startTime;
-      if (elapsed >= this._durationMs) break;
-      if (this._allEndpointsStopped()) break;
+
+      if (elapsed - this._lastErrorLogFlush >= ERROR_LOG_FLUSH_INTERVAL_MS) {
+        this._flushErrorLog();
+        this._lastErrorLogFlush = elapsed;
+      }
+
+      if (this._syncPaused()) {
+        this._rateLimiter.pause(elapsed);
+        this._scenarioRateLimiter.pause(elapsed);
+        this._webSocketRateLimiter.pause(elapsed);
+        this._grpcRateLimiter.pause(elapsed);
+        await new Promise((resolve) => setTimeout(resolve, PAUSE_POLL_INTERVAL_MS));
+        continue;
+      }
 
       // Get batch of available requests (NON-BLOCKING)
-      const requests = this._rateLimiter.getAvailableRequests(pipelineDepth, elapsed);
-
-      if (requests.length > 0) {
-        // CRITICAL: Fire requests WITHOUT waiting - TRUE PIPELINING
-        requests.forEach((request, index) => {
-          const localEndpointIndex = this._getLocalEndpointIndex(request);
-          const globalEndpointIndex = this._endpointOffset + localEndpointIndex;
-
-          if (this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) {
-            // Add small stagger to smooth out traffic (2ms between requests)
-            const pipelineDelay = index * 2;
-
-            const requestPromise = this._delayedExecute(
-              request,
-              localEndpointIndex,
-              globalEndpointIndex,
-              pipelineDelay,
-            );
-
-            inFlightRequests.add(requestPromise);
-            requestPromise.finally(() => inFlightRequests.delete(requestPromise));
-          }
-        });
+      const requests = this._rateLimiter.getAvailableRequests(
+        inFlightLimit - inFlightRequests.size,
+        elapsed,
+      );
+
+      // CRITICAL: Fire requests WITHOUT waiting - TRUE PIPELINING
+      requests.forEach(({ entry: request, scheduledAtMs }) => {
+        const localEndpointIndex = this._getLocalEndpointIndex(request);
+        const globalEndpointIndex = this._endpointIndices[localEndpointIndex];
+
+        if (
+          this._endpointStateManager.isEndpointRunning(globalEndpointIndex) &&
+          !this._isDataExhausted(localEndpointIndex)
+        ) {
+          const requestPromise = this._executeRequest(
+            this._resolveTemplates(request, localEndpointIndex),
+            localEndpointIndex,
+            globalEndpointIndex,
+            this._startTime + scheduledAtMs,
+            undefined,
+            this._workerCookieJar,
+          ).then(() => undefined);
+
+          inFlightRequests.add(requestPromise);
+          requestPromise.finally(() => inFlightRequests.delete(requestPromise));
+        }
+      });
 
+      const scenarios = this._scenarioRateLimiter.getAvailableRequests(
+        inFlightLimit - inFlightRequests.size,
+        elapsed,
+      );
+      scenarios.forEach(({ entry: scenario, scheduledAtMs }) => {
+        const cookieJar = this._createCookieJar();
+        this._startCookieIteration(cookieJar);
+        const iterationPromise = this._executeScenario(
+          scenario,
+          this._startTime + scheduledAtMs,
+          cookieJar,
+        );
+        inFlightRequests.add(iterationPromise);
+        iterationPromise.finally(() => inFlightRequests.delete(iterationPromise));
+      });
+
+      const webSockets = this._webSocketRateLimiter.getAvailableRequests(
+        Number.MAX_SAFE_INTEGER,
+        elapsed,
+      );
+      webSockets.forEach(({ entry: webSocket, scheduledAtMs }) => {
+        const connectionPromise = this._executeWebSocket(
+          webSocket,
+          this._startTime + scheduledAtMs,
+        );
+        openWebSockets.add(connectionPromise);
+        connectionPromise.finally(() => openWebSockets.delete(connectionPromise));
+      });
+
+      const grpcCalls = this._grpcRateLimiter.getAvailableRequests(
+        inFlightLimit - inFlightRequests.size,
+        elapsed,
+      );
+      grpcCalls.forEach(({ entry: grpc, scheduledAtMs }) => {
+        const callPromise = this._executeGrpc(grpc, this._startTime + scheduledAtMs);
+        inFlightRequests.add(callPromise);
+        callPromise.finally(() => inFlightRequests.delete(callPromise));
+      });
+
+      // Requests are waiting on the concurrency limit, so allow more of them in flight
+      const backlog =
+        this._rateLimiter.getBacklog() +
+        this._scenarioRateLimiter.getBacklog() +
+        this._grpcRateLimiter.getBacklog();
+      if (backlog > 0 && inFlightRequests.size >= inFlightLimit) {
+        inFlightLimit = Math.min(inFlightLimit * 2, maxInFlight);
+      }
+
+      if (
+        requests.length > 0 ||
+        scenarios.length > 0 ||
+        webSockets.length > 0 ||
+        grpcCalls.length > 0
+      ) {
         // Don't wait for completion - keep pipeline full
         // Yield to prevent event loop starvation
         await new Promise((resolve) => setImmediate(resolve));
@@ -144,33 +516,271 @@ export class WorkerThread {
       }
     }
 
-    // Wait for all in-flight requests to complete
-    await Promise.allSettled(inFlightRequests);
-    this._workerStateManager.setWorkerState(this._workerId, WorkerState.FINISHED);
+    // Wait for all in-flight requests and open connections to complete
+    await Promise.allSettled([...inFlightRequests, ...openWebSockets]);
   }
 
   /**
-   * Executes a request with an optional delay for pipeline staggering.
+   * Runs this worker's share of virtual users until the test ends (closed model).
    *
-   * @param request - The endpoint configuration to execute
-   * @param localEndpointIndex - Local index within this worker (0..n-1)
-   * @param globalEndpointIndex - Global index across all workers
-   * @param delayMs - Milliseconds to delay before execution
+   * @remarks
+   * Each virtual user waits for its start delay, which spreads the users over the VU ramp up,
+   * and counts as active until it stops. Failures are sent to the main thread once per second.
+   */
+  private async _runVirtualUsers(): Promise<void> {
+    const flushInterval = setInterval(() => this._flushErrorLog(), ERROR_LOG_FLUSH_INTERVAL_MS);
+
+    await Promise.allSettled(
+      this._vuStartDelaysMs.map((startDelayMs) => this._runVirtualUser(startDelayMs)),
+    );
+
+    clearInterval(flushInterval);
+  }
+
+  /**
+   * Holds the subscriptions of the streaming endpoints of this worker until the test ends.
+   */
+  private async _holdStreams(): Promise<void> {
+    await Promise.allSettled(this._assignedStreams.map((stream) => this._holdStream(stream)));
+  }
+
+  /**
+   * Holds the subscriptions of a streaming endpoint, opening each one again once it closed.
+   *
+   * @param stream - The streaming endpoint to subscribe to
+   *
+   * @remarks
+   * A subscription that failed or was disconnected by the server waits for the reconnect delay
+   * before it is opened again, one whose hold duration passed is opened again right away. While
+   * the test is paused or the endpoint is stopped, a watcher closes the open subscriptions and no
+   * new ones are opened.
+   */
+  private async _holdStream(stream: WorkerStream): Promise<void> {
+    const globalEndpointIndex = this._endpointIndices[stream.endpointIndex];
+    const isHeld = (): boolean =>
+      !this._hasFinished() &&
+      !this._syncPaused() &&
+      this._endpointStateManager.isEndpointRunning(globalEndpointIndex) &&
+      !this._isDataExhausted(stream.endpointIndex);
+
+    let closing = new AbortController();
+    const watcher = setInterval(() => {
+      if (!isHeld()) closing.abort();
+    }, PAUSE_POLL_INTERVAL_MS);
+
+    const endsAt = this._startTime + this._durationMs;
+    const holdSubscription = async (): Promise<void> => {
+      while (this._isRunning && !this._hasFinished()) {
+        if (endsAt - Date.now() < MIN_SUBSCRIPTION_MS) return;
+        if (!isHeld()) {
+          await this._sleep(PAUSE_POLL_INTERVAL_MS);
+          continue;
+        }
+        if (closing.signal.aborted) closing = new AbortController();
+
+        const reconnect = await this._executeStream(stream, closing.signal);
+        if (reconnect) await this._sleep(stream.reconnectDelayMs);
+      }
+    };
+
+    try {
+      await Promise.allSettled(Array.from({ length: stream.subscriptions }, holdSubscription));
+    } finally {
+      clearInterval(watcher);
+    }
+  }
+
+  /**
+   * Runs a single virtual user.
+   *
+   * @param startDelayMs - Milliseconds to wait before the virtual user starts
    *
    * @remarks
-   * Used to stagger requests within a pipeline batch, creating smoother traffic patterns.
-   * The 2ms default stagger between requests helps prevent thundering herd effects.
+   * The virtual user loops through the standalone requests, the scenarios, the WebSocket and then
+   * the gRPC endpoints of this worker, one at a time, pausing for a think time after each request
+   * and each scenario iteration. Stopped endpoints are skipped, and while the test is paused the
+   * virtual user waits before its next request or scenario iteration. The loop yields to the event
+   * loop after every pass so a pass without any running endpoint cannot starve it, and sleeps
+   * while every endpoint is stopped by hand.
    */
-  private async _delayedExecute(
+  private async _runVirtualUser(startDelayMs: number): Promise<void> {
+    await this._sleep(startDelayMs);
+    if (!this._isRunning || this._hasFinished()) return;
+
+    this._workerStateManager.addActiveVus(this._workerId, 1);
+    const cookieJar = this._createCookieJar();
+    try {
+      while (this._isRunning && !this._hasFinished()) {
+        this._startCookieIteration(cookieJar);
+        for (const localEndpointIndex of this._standaloneIndices) {
+          await this._waitWhilePaused();
+          if (this._hasFinished()) return;
+          const globalEndpointIndex = this._endpointIndices[localEndpointIndex];
+          if (!this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) continue;
+          if (this._isDataExhausted(localEndpointIndex)) continue;
+
+          await this._executeRequest(
+            this._resolveTemplates(this._assignedEndpoints[localEndpointIndex], localEndpointIndex),
+            localEndpointIndex,
+            globalEndpointIndex,
+            undefined,
+            undefined,
+            cookieJar,
+          );
+          await this._think();
+        }
+
+        for (const scenario of this._assignedScenarios) {
+          await this._waitWhilePaused();
+          if (this._hasFinished()) return;
+          await this._executeScenario(scenario, undefined, cookieJar);
+          await this._think();
+        }
+
+        for (const webSocket of this._assignedWebSockets) {
+          await this._waitWhilePaused();
+          if (this._hasFinished()) return;
+          await this._executeWebSocket(webSocket);
+          await this._think();
+        }
+
+        for (const grpc of this._assignedGrpc) {
+          await this._waitWhilePaused();
+          if (this._hasFinished()) return;
+          await this._executeGrpc(grpc);
+          await this._think();
+        }
+
+        if (this._anyEndpointRunning()) {
+          await new Promise((resolve) => setImmediate(resolve));
+        } else {
+          await this._sleep(PAUSE_POLL_INTERVAL_MS);
+        }
+      }
+    } finally {
+      this._workerStateManager.addActiveVus(this._workerId, -1);
+    }
+  }
+
+  /**
+   * Gets the cookie jar of a new virtual user or scenario iteration, undefined without cookies
+   *
+   * @remarks
+   * The `worker` scope shares one jar across all requests of the worker.
+   */
+  private _createCookieJar(): CookieJar | undefined {
+    if (!this._cookies) return undefined;
+    return this._cookies.scope === 'worker'
+      ? this._workerCookieJar
+      : new CookieJar(this._cookies.initial);
+  }
+
+  /**
+   * Empties the cookie jar of an iteration down to its initial cookies, when configured
+   *
+   * @remarks
+   * The jar of the `worker` scope is never emptied, since other iterations still send and store
+   * their cookies in it.
+   */
+  private _startCookieIteration(cookieJar: CookieJar | undefined): void {
+    if (!this._cookies?.resetEachIteration || cookieJar === this._workerCookieJar) return;
+    cookieJar?.reset();
+  }
+
+  /**
+   * Pauses a virtual user for a think time drawn from the configured distribution
+   */
+  private async _think(): Promise<void> {
+    if (!this._executor) return;
+    await this._sleep(sampleThinkTime(this._executor.thinkTime));
+  }
+
+  /**
+   * Waits until the test is resumed or ends
+   */
+  private async _waitWhilePaused(): Promise<void> {
+    while (this._syncPaused() && !this._hasFinished()) {
+      await this._sleep(PAUSE_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Reads whether the test is paused, publishing the PAUSED or RUNNING state when it changed
+   */
+  private _syncPaused(): boolean {
+    const paused = this._loadControlManager.isPaused();
+    if (paused !== this._isPaused) {
+      this._isPaused = paused;
+      this._workerStateManager.setWorkerState(
+        this._workerId,
+        paused ? WorkerState.PAUSED : WorkerState.RUNNING,
+      );
+    }
+    return paused;
+  }
+
+  /**
+   * Waits for the given time, but never past the end of the test
+   */
+  private async _sleep(ms: number): Promise<void> {
+    const remainingMs = this._durationMs - (Date.now() - this._startTime);
+    const delayMs = Math.min(ms, remainingMs);
+    if (delayMs <= 0) return;
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  /**
+   * Resolves the placeholders of a standalone request, consuming one data row.
+   * Requests without placeholders are returned unchanged.
+   */
+  private _resolveTemplates(
     request: TressiRequestConfig,
     localEndpointIndex: number,
-    globalEndpointIndex: number,
-    delayMs: number,
+  ): TressiRequestConfig {
+    if (!this._templatedEndpoints[localEndpointIndex]) return request;
+    const context = new VariableContext(this._templateGenerators, this._dataFeeder.next());
+    return context.resolveRequest(request);
+  }
+
+  /**
+   * Runs one scenario iteration as a virtual user.
+   *
+   * @param scenario - The scenario to execute
+   * @param scheduledAt - Epoch milliseconds at which the iteration was scheduled, if rate limited
+   * @param cookieJar - Cookie jar of the virtual user running the iteration
+   *
+   * @remarks
+   * Steps run sequentially with a fresh {@link VariableContext} seeded with the next data row.
+   * Placeholders in each step are resolved from the row and values extracted by earlier steps.
+   * The iteration stops at the first failed step, or when a step endpoint has been stopped, so
+   * later steps never run with missing values. It does not start once a step reading data rows
+   * has run out of them.
+   */
+  private async _executeScenario(
+    scenario: WorkerScenario,
+    scheduledAt?: number,
+    cookieJar?: CookieJar,
   ): Promise<void> {
-    if (delayMs > 0) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    if (scenario.steps.some((step) => this._isDataExhausted(step.endpointIndex))) return;
+    const context = new VariableContext(this._templateGenerators, this._dataFeeder.next());
+
+    for (const [index, step] of scenario.steps.entries()) {
+      const globalEndpointIndex = this._endpointIndices[step.endpointIndex];
+      if (!this._isRunning || !this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) {
+        return;
+      }
+
+      const endpoint = this._assignedEndpoints[step.endpointIndex];
+      const succeeded = await this._executeRequest(
+        context.resolveRequest(endpoint),
+        step.endpointIndex,
+        globalEndpointIndex,
+        index === 0 ? scheduledAt : undefined,
+        { context, extract: step.extract },
+        cookieJar,
+      );
+      if (!succeeded) return;
     }
-    await this._executeRequest(request, localEndpointIndex, globalEndpointIndex);
   }
 
   /**
@@ -179,30 +789,111 @@ export class WorkerThread {
    * @param request - The endpoint configuration to execute
    * @param localEndpointIndex - Local index within this worker
    * @param globalEndpointIndex - Global index across all workers
+   * @param scheduledAt - Epoch milliseconds at which the request was scheduled, if rate limited
+   * @param step - Scenario step details when the request is part of a scenario
+   * @param cookieJar - Cookie jar whose cookies are sent and which stores those of the response
+   * @returns Whether the request succeeded, including any variable extraction
    *
    * @remarks
    * This is the core request execution method that:
    * - Executes the HTTP request using RequestExecutor
    * - Records latency using high-resolution performance timing
    * - Updates success/failure counters in shared memory
+   * - Counts timeouts, refused connections, DNS and TLS failures per category
+   * - Logs the kind and message of every failure in the {@link ErrorLog}
    * - Records network metrics (bytes sent/received)
    * - Samples response bodies for debugging
    * - Updates HDR histogram for latency distribution analysis
+   * - Records the latency from the scheduled start in the corrected histogram, counting late starts
+   * - Counts the request as in flight for this worker until it completes
+   * - Sends the credentials of its auth config, retrying once with a new OAuth2 token on a 401
+   * - Sends the cookies of the cookie jar and stores the cookies the response sets
    *
    * All metrics are written to shared memory for aggregation by the main thread.
+   * Samples are keyed by the endpoint key, which uses the configured URL rather than the
+   * resolved one, and a scenario step whose extraction fails is recorded as a failure. Waiting
+   * for an OAuth2 token is not part of the latency, and a token that cannot be fetched fails the
+   * request. A retried request reports the latency and response of its second attempt.
    */
   private async _executeRequest(
     request: TressiRequestConfig,
     localEndpointIndex: number,
     globalEndpointIndex: number,
-  ): Promise<void> {
+    scheduledAt?: number,
+    step?: { context: VariableContext; extract: TressiScenarioExtract[] },
+    cookieJar?: CookieJar,
+  ): Promise<boolean> {
+    const endpointKey = this._endpointKeys[localEndpointIndex] ?? getEndpointKey(request);
+    this._workerStateManager.addInFlight(this._workerId, 1);
     try {
-      const startTime = performance.now();
-      const result = await this._requestExecutor.executeRequest(request, this._globalHeaders);
+      // Time spent waiting for the worker after the request was due
+      const scheduleDelayMs = scheduledAt === undefined ? 0 : Math.max(Date.now() - scheduledAt, 0);
+      if (scheduleDelayMs > LATE_REQUEST_THRESHOLD_MS) {
+        this._statsCounterManager.recordLate(localEndpointIndex);
+      }
+
+      const auth = request.auth ?? this._globalAuth;
+      let authorization = await this._authManager.getAuthorization(auth);
+      const cookies = cookieJar?.getCookies(request.url);
+
+      const checks = request.checks ?? [];
+      const send = (): Promise<RequestResult> =>
+        this._requestExecutor.executeRequest(request, this._globalHeaders, {
+          authorization,
+          captureBody:
+            (step?.extract.length ?? 0) > 0 || this._responseValidator.requiresBody(checks),
+          cookie: cookies?.join('; '),
+          endpointKey,
+          timeouts: this._globalTimeouts,
+        });
+      let startTime = performance.now();
+      let result = await send();
+      if (result.status === 401) {
+        // An OAuth2 token that expired while the request was in flight is replaced and the
+        // request sent once more, other credentials stay the same and are not retried
+        this._authManager.invalidate(auth, authorization);
+        const refreshed = await this._authManager.getAuthorization(auth);
+        if (refreshed !== authorization) {
+          this._requestExecutor.releaseResultObject(result);
+          authorization = refreshed;
+          startTime = performance.now();
+          result = await send();
+        }
+      }
       const latency = performance.now() - startTime;
+      // Failed requests have no response, so they set no cookies
+      const receivedCookies = result.status
+        ? (cookieJar?.store(request.url, result.headers?.['set-cookie'] as string | string[]) ?? 0)
+        : 0;
+
+      // Checks decide success when configured, otherwise any 2xx response succeeds
+      const validation = this._responseValidator.validate(checks, result);
+      const success =
+        validation.success && (step ? step.context.extract(step.extract, result) : true);
 
       // Record success/failure
-      this._statsCounterManager.recordRequest(localEndpointIndex, result.success);
+      this._statsCounterManager.recordRequest(localEndpointIndex, success);
+      if (validation.outcomes.length > 0) {
+        this._statsCounterManager.recordChecks(localEndpointIndex, validation.outcomes);
+      }
+
+      if (!success) {
+        this._errorLog.recordFailure(
+          endpointKey,
+          request.url,
+          describeFailure(result, checks, validation),
+        );
+      }
+
+      // Record network error category
+      if (result.errorCategory) {
+        this._statsCounterManager.recordError(localEndpointIndex, result.errorCategory);
+      }
+
+      // Record the protocol of requests that were handed to a connection
+      if (result.protocol) {
+        this._statsCounterManager.recordProtocol(localEndpointIndex, result.protocol);
+      }
 
       // Record status code
       if (result.status) {
@@ -217,45 +908,372 @@ export class WorkerThread {
         this._statsCounterManager.recordBytesReceived(localEndpointIndex, result.bytesReceived);
       }
 
-      // Record latency
+      // Record latency, and the latency as seen from the scheduled start
       this._hdrHistogramManager.recordLatency(localEndpointIndex, latency);
+      this._correctedHdrHistogramManager.recordLatency(
+        localEndpointIndex,
+        latency + scheduleDelayMs,
+      );
+
+      // Record the duration of each phase of a timed response
+      if (result.timings) {
+        for (const phase of requestTimingPhaseDefaults) {
+          this._phaseHdrHistogramManagers[phase].recordLatency(
+            localEndpointIndex,
+            result.timings[phase],
+          );
+        }
+      }
 
-      // Send body sample to main thread if response body exists
-      if (result.body && result.status && parentPort) {
+      // Send body sample to main thread if response body was sampled
+      if (result.body && result.status && result.sampled !== false && parentPort) {
         parentPort.postMessage({
           body: result.body,
+          cookies: cookieJar && {
+            jar: cookieJar.size,
+            received: receivedCookies,
+            sent: cookies?.length ?? 0,
+          },
           endpointIndex: globalEndpointIndex,
+          endpointKey,
+          graphqlErrors: result.graphqlErrors,
           headers: result.headers,
           method: request.method || 'GET',
           statusCode: result.status,
+          tls: result.tls,
           type: 'bodySample',
-          url: request.url,
         });
       }
 
       // Release result object back to pool
       this._requestExecutor.releaseResultObject(result);
-    } catch {
+      return success;
+    } catch (error) {
       // Record failure
       this._statsCounterManager.recordRequest(localEndpointIndex, false);
+      this._errorLog.recordFailure(endpointKey, request.url, {
+        kind: 'other',
+        message: (error as Error).message,
+      });
       // Record 0 bytes received for failed requests
       this._statsCounterManager.recordBytesReceived(localEndpointIndex, 0);
       terminal.print('request failure');
+      return false;
+    } finally {
+      this._workerStateManager.addInFlight(this._workerId, -1);
+    }
+  }
+
+  /**
+   * Runs a single connection of a WebSocket endpoint and records its metrics.
+   *
+   * @param webSocket - The WebSocket endpoint to connect to
+   * @param scheduledAt - Epoch milliseconds at which the connection was scheduled, if rate limited
+   *
+   * @remarks
+   * Placeholders in the URL, headers and sent messages are resolved from one data row. The
+   * connection counts as a request of its endpoint: its handshake time is recorded in the latency
+   * histograms, its outcome in the request counters and its failure in the {@link ErrorLog}. The
+   * round trips of its awaited messages are recorded in the round trip histogram, and its messages
+   * and abnormal close in the WebSocket counters. Open connections count as in flight.
+   */
+  private async _executeWebSocket(webSocket: WorkerWebSocket, scheduledAt?: number): Promise<void> {
+    const localEndpointIndex = webSocket.endpointIndex;
+    const globalEndpointIndex = this._endpointIndices[localEndpointIndex];
+    if (!this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) return;
+    if (this._isDataExhausted(localEndpointIndex)) return;
+
+    const endpoint = this._assignedEndpoints[localEndpointIndex];
+    const endpointKey = this._endpointKeys[localEndpointIndex];
+    this._workerStateManager.addInFlight(this._workerId, 1);
+    try {
+      const scheduleDelayMs = scheduledAt === undefined ? 0 : Math.max(Date.now() - scheduledAt, 0);
+      if (scheduleDelayMs > LATE_REQUEST_THRESHOLD_MS) {
+        this._statsCounterManager.recordLate(localEndpointIndex);
+      }
+
+      let { headers, messages, url } = webSocket;
+      if (this._templatedEndpoints[localEndpointIndex]) {
+        const context = new VariableContext(this._templateGenerators, this._dataFeeder.next());
+        ({ headers, url } = context.resolveRequest(endpoint));
+        messages = messages.map((message) =>
+          message.type === 'send'
+            ? { ...message, data: context.interpolate(message.data) }
+            : message,
+        );
+      }
+
+      const result = await this._webSocketExecutor.execute(
+        { headers, holdDurationSec: webSocket.holdDurationSec, messages, url },
+        {
+          authorization: await this._authManager.getAuthorization(this._globalAuth),
+          endsAt: this._startTime + this._durationMs,
+          headers: this._globalHeaders,
+          timeouts: this._globalTimeouts,
+        },
+      );
+
+      this._statsCounterManager.recordRequest(localEndpointIndex, result.success);
+      if (!result.success) {
+        this._errorLog.recordFailure(endpointKey, url, {
+          kind: result.errorKind ?? 'other',
+          message: result.error ?? 'WebSocket connection failed',
+        });
+      }
+      this._statsCounterManager.recordBytesSent(localEndpointIndex, result.bytesSent);
+      this._statsCounterManager.recordBytesReceived(localEndpointIndex, result.bytesReceived);
+      this._statsCounterManager.recordWebSocketSession(
+        localEndpointIndex,
+        result.messagesSent,
+        result.messagesReceived,
+        result.abnormalClose,
+      );
+
+      this._hdrHistogramManager.recordLatency(localEndpointIndex, result.connectMs);
+      this._correctedHdrHistogramManager.recordLatency(
+        localEndpointIndex,
+        result.connectMs + scheduleDelayMs,
+      );
+      for (const roundTripMs of result.roundTripsMs) {
+        this._roundTripHdrHistogramManager.recordLatency(localEndpointIndex, roundTripMs);
+      }
+    } catch (error) {
+      this._statsCounterManager.recordRequest(localEndpointIndex, false);
+      this._errorLog.recordFailure(endpointKey, webSocket.url, {
+        kind: 'other',
+        message: (error as Error).message,
+      });
+      terminal.print('websocket failure');
+    } finally {
+      this._workerStateManager.addInFlight(this._workerId, -1);
+    }
+  }
+
+  /**
+   * Makes a single call of a gRPC endpoint and records its metrics.
+   *
+   * @param grpc - The gRPC endpoint to call
+   * @param scheduledAt - Epoch milliseconds at which the call was scheduled, if rate limited
+   *
+   * @remarks
+   * Placeholders in the server URL, metadata and message are resolved from one data row. The call
+   * counts as a request of its endpoint: its duration up to the final status is recorded in the
+   * latency histograms, its outcome in the request counters and its failure in the
+   * {@link ErrorLog}. Its status code and messages go to the gRPC counters.
+   */
+  private async _executeGrpc(grpc: WorkerGrpc, scheduledAt?: number): Promise<void> {
+    const localEndpointIndex = grpc.endpointIndex;
+    const globalEndpointIndex = this._endpointIndices[localEndpointIndex];
+    if (!this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) return;
+    if (this._isDataExhausted(localEndpointIndex)) return;
+
+    const endpoint = this._assignedEndpoints[localEndpointIndex];
+    const endpointKey = this._endpointKeys[localEndpointIndex];
+    this._workerStateManager.addInFlight(this._workerId, 1);
+    try {
+      const scheduleDelayMs = scheduledAt === undefined ? 0 : Math.max(Date.now() - scheduledAt, 0);
+      if (scheduleDelayMs > LATE_REQUEST_THRESHOLD_MS) {
+        this._statsCounterManager.recordLate(localEndpointIndex);
+      }
+
+      let { message, metadata, url } = grpc;
+      if (this._templatedEndpoints[localEndpointIndex]) {
+        const context = new VariableContext(this._templateGenerators, this._dataFeeder.next());
+        const resolved = context.resolveRequest(endpoint);
+        metadata = resolved.headers;
+        message = resolved.payload as TressiGrpcConfig['message'];
+        url = context.interpolate(grpc.url);
+      }
+
+      const result = await this._grpcExecutor.execute(
+        {
+          message,
+          metadata,
+          method: grpc.method,
+          protoPath: grpc.protoPath,
+          service: grpc.service,
+          url,
+        },
+        {
+          authorization: await this._authManager.getAuthorization(this._globalAuth),
+          timeouts: this._globalTimeouts,
+        },
+      );
+
+      this._statsCounterManager.recordRequest(localEndpointIndex, result.success);
+      if (!result.success) {
+        this._errorLog.recordFailure(endpointKey, url, {
+          detail: result.detail,
+          kind: result.errorKind ?? 'other',
+          message: result.error ?? 'gRPC call failed',
+        });
+      }
+      if (result.errorCategory) {
+        this._statsCounterManager.recordError(localEndpointIndex, result.errorCategory);
+      }
+      this._statsCounterManager.recordBytesSent(localEndpointIndex, result.bytesSent);
+      this._statsCounterManager.recordBytesReceived(localEndpointIndex, result.bytesReceived);
+      this._statsCounterManager.recordGrpcCall(
+        localEndpointIndex,
+        result.statusCode,
+        result.messagesSent,
+        result.messagesReceived,
+      );
+
+      this._hdrHistogramManager.recordLatency(localEndpointIndex, result.latencyMs);
+      this._correctedHdrHistogramManager.recordLatency(
+        localEndpointIndex,
+        result.latencyMs + scheduleDelayMs,
+      );
+    } catch (error) {
+      this._statsCounterManager.recordRequest(localEndpointIndex, false);
+      this._errorLog.recordFailure(endpointKey, grpc.url, {
+        kind: 'other',
+        message: (error as Error).message,
+      });
+      terminal.print('grpc failure');
+    } finally {
+      this._workerStateManager.addInFlight(this._workerId, -1);
+    }
+  }
+
+  /**
+   * Runs a single subscription of a streaming endpoint and records its metrics.
+   *
+   * @param stream - The streaming endpoint to subscribe to
+   * @param signal - Closes the subscription before it is due to
+   * @returns Whether the subscription failed or was disconnected, so it should reconnect after a
+   * delay
+   *
+   * @remarks
+   * Placeholders in the URL and headers are resolved from one data row. The subscription counts as
+   * a request of its endpoint: its time to the first event is recorded in the latency histograms,
+   * its outcome and status code in the request counters and its failure in the {@link ErrorLog}.
+   * Its events, their gaps and the bytes received are recorded as they arrive, so the counters
+   * and the event gap histogram follow an open subscription; its disconnect is recorded once it
+   * closes. Open subscriptions count as in flight.
+   */
+  private async _executeStream(stream: WorkerStream, signal: AbortSignal): Promise<boolean> {
+    const localEndpointIndex = stream.endpointIndex;
+    const endpoint = this._assignedEndpoints[localEndpointIndex];
+    const endpointKey = this._endpointKeys[localEndpointIndex];
+    this._workerStateManager.addInFlight(this._workerId, 1);
+    try {
+      let { headers, url } = stream;
+      if (this._templatedEndpoints[localEndpointIndex]) {
+        const context = new VariableContext(this._templateGenerators, this._dataFeeder.next());
+        ({ headers, url } = context.resolveRequest(endpoint));
+      }
+
+      const result = await this._streamExecutor.execute(
+        { headers, holdDurationSec: stream.holdDurationSec, type: stream.type, url },
+        {
+          authorization: await this._authManager.getAuthorization(this._globalAuth),
+          endsAt: this._startTime + this._durationMs,
+          headers: this._globalHeaders,
+          onBytes: (bytes: number): void =>
+            this._statsCounterManager.recordBytesReceived(localEndpointIndex, bytes),
+          onEvent: (gapMs: number | undefined): void => {
+            this._statsCounterManager.recordStreamSubscription(localEndpointIndex, 1, false);
+            if (gapMs !== undefined) {
+              this._eventGapHdrHistogramManager.recordLatency(localEndpointIndex, gapMs);
+            }
+          },
+          signal,
+          timeouts: this._globalTimeouts,
+        },
+      );
+
+      this._statsCounterManager.recordRequest(localEndpointIndex, result.success);
+      if (!result.success) {
+        this._errorLog.recordFailure(endpointKey, url, {
+          kind: result.errorKind ?? 'other',
+          message: result.error ?? 'Stream subscription failed',
+        });
+      }
+      if (result.errorCategory) {
+        this._statsCounterManager.recordError(localEndpointIndex, result.errorCategory);
+      }
+      if (result.statusCode !== undefined) {
+        this._statsCounterManager.recordStatusCode(localEndpointIndex, result.statusCode);
+      }
+      this._statsCounterManager.recordStreamSubscription(
+        localEndpointIndex,
+        0,
+        result.disconnected,
+      );
+
+      this._hdrHistogramManager.recordLatency(localEndpointIndex, result.timeToFirstEventMs);
+      this._correctedHdrHistogramManager.recordLatency(
+        localEndpointIndex,
+        result.timeToFirstEventMs,
+      );
+      return !result.success || result.disconnected;
+    } catch (error) {
+      this._statsCounterManager.recordRequest(localEndpointIndex, false);
+      this._errorLog.recordFailure(endpointKey, stream.url, {
+        kind: 'other',
+        message: (error as Error).message,
+      });
+      terminal.print('stream failure');
+      return true;
+    } finally {
+      this._workerStateManager.addInFlight(this._workerId, -1);
     }
   }
+
   /**
-   * Check if all endpoints assigned to this worker are stopped
+   * Sends the failures logged since the last flush to the main thread
+   */
+  private _flushErrorLog(): void {
+    if (this._errorLog.size === 0 || !parentPort) return;
+    parentPort.postMessage({ entries: this._errorLog.drain(), type: 'errorLog' });
+  }
+
+  /**
+   * Check if the test duration elapsed or all endpoints stopped
+   */
+  private _hasFinished(): boolean {
+    return Date.now() - this._startTime >= this._durationMs || this._allEndpointsStopped();
+  }
+
+  /**
+   * Check if all endpoints assigned to this worker are stopped for the rest of the test, or
+   * read data rows this worker has run out of.
+   * Endpoints stopped by hand may be started again, so they keep the worker running.
    */
   private _allEndpointsStopped(): boolean {
     for (let i = 0; i < this._assignedEndpoints.length; i++) {
-      const globalEndpointIndex = this._endpointOffset + i;
-      if (this._endpointStateManager.isEndpointRunning(globalEndpointIndex)) {
+      const globalEndpointIndex = this._endpointIndices[i];
+      if (
+        this._endpointStateManager.isEndpointActive(globalEndpointIndex) &&
+        !this._isDataExhausted(i)
+      ) {
         return false;
       }
     }
     return true;
   }
 
+  /**
+   * Check if an endpoint reads data rows and this worker's `unique` rows are used up.
+   * Endpoints without data placeholders keep running after the rows ran out.
+   */
+  private _isDataExhausted(localEndpointIndex: number): boolean {
+    return this._dataEndpoints[localEndpointIndex] && this._dataFeeder.isExhausted();
+  }
+
+  /**
+   * Check if any endpoint assigned to this worker is running and not out of data rows
+   */
+  private _anyEndpointRunning(): boolean {
+    return this._endpointIndices.some(
+      (globalEndpointIndex, localEndpointIndex) =>
+        this._endpointStateManager.isEndpointRunning(globalEndpointIndex) &&
+        !this._isDataExhausted(localEndpointIndex),
+    );
+  }
+
   /**
    * Converts a request configuration to a local endpoint index.
    *
@@ -264,15 +1282,11 @@ export class WorkerThread {
    *
    * @remarks
    * Essential for mapping requests to their corresponding shared memory indices.
-   * Uses URL matching to find the correct local index for metrics recording.
+   * Uses the endpoint key, so requests sharing a URL still map to their own index.
    * Returns 0 as fallback for safety (though this should not occur in normal operation).
    */
   private _getLocalEndpointIndex(request: TressiRequestConfig): number {
-    const index = this._assignedEndpoints.findIndex((ep) => ep.url === request.url);
-    if (index === -1) {
-      return 0;
-    }
-    return index;
+    return this._localEndpointIndices.get(getEndpointKey(request)) ?? 0;
   }
 }
 
@@ -13,10 +13,12 @@ import { ConfigsPage } from '../pages/configs.page';
 import { DashboardPage } from '../pages/dashboard.page';
 import { TestDetailPage } from '../pages/test-details.page';
 import { CliServerManager } from './cli-server-manager';
+import { GrpcServerManager } from './grpc-server-manager';
 import { TestServerManager } from './test-server-manager';
 
 type WorkerFixtures = {
   cliServer: string;
+  grpcServer: string;
   testServer: string;
 };
 
@@ -71,6 +73,16 @@ export const test: TestType<
     await use(new DashboardPage(page));
   },
 
+  grpcServer: [
+    async ({}: object, use: (r: string) => Promise<void>): Promise<void> => {
+      const manager = new GrpcServerManager();
+      const baseURL = await manager.start();
+      await use(baseURL);
+      await manager.stop();
+    },
+    { scope: 'worker' },
+  ],
+
   testDetailPage: async ({ page }: { page: Page }, use: (r: TestDetailPage) => Promise<void>) => {
     page.on('console', (msg) => {
       // biome-ignore lint/suspicious/noConsole: default
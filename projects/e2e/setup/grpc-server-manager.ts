@@ -0,0 +1,85 @@
+import * as path from 'node:path';
+import {
+  type GrpcObject,
+  loadPackageDefinition,
+  Server,
+  ServerCredentials,
+  type ServerDuplexStream,
+  type ServerReadableStream,
+  type ServerUnaryCall,
+  type ServerWritableStream,
+  type ServiceClientConstructor,
+  type sendUnaryData,
+  status,
+} from '@grpc/grpc-js';
+import { loadSync } from '@grpc/proto-loader';
+
+/** The .proto file declaring the echo.Echo service of the test server */
+export const ECHO_PROTO_PATH: string = path.join(__dirname, './echo.proto');
+
+type EchoMessage = { text: string };
+
+/**
+ * Runs a gRPC server implementing the echo.Echo service for the load tests of gRPC endpoints.
+ * The server listens on plaintext HTTP/2 in the test process.
+ */
+export class GrpcServerManager {
+  private _server: Server | null = null;
+
+  constructor(private readonly _port: number = 50051) {}
+
+  async start(): Promise<string> {
+    const echo = loadPackageDefinition(loadSync(ECHO_PROTO_PATH)).echo as GrpcObject;
+    const { service } = echo.Echo as ServiceClientConstructor;
+
+    this._server = new Server();
+    this._server.addService(service, {
+      Collect: (
+        call: ServerReadableStream<EchoMessage, EchoMessage>,
+        callback: sendUnaryData<EchoMessage>,
+      ) => {
+        let count = 0;
+        call.on('data', () => count++);
+        call.on('end', () => callback(null, { text: String(count) }));
+      },
+      Find: (
+        call: ServerUnaryCall<EchoMessage, EchoMessage>,
+        callback: sendUnaryData<EchoMessage>,
+      ) => {
+        callback({ code: status.NOT_FOUND, details: `${call.request.text} not found` });
+      },
+      Say: (
+        call: ServerUnaryCall<EchoMessage, EchoMessage>,
+        callback: sendUnaryData<EchoMessage>,
+      ) => {
+        callback(null, { text: call.request.text });
+      },
+      Subscribe: (call: ServerWritableStream<EchoMessage, EchoMessage>) => {
+        for (let i = 0; i < 3; i++) {
+          call.write({ text: call.request.text });
+        }
+        call.end();
+      },
+      Talk: (call: ServerDuplexStream<EchoMessage, EchoMessage>) => {
+        call.on('data', (message: EchoMessage) => call.write(message));
+        call.on('end', () => call.end());
+      },
+    });
+
+    const server = this._server;
+    await new Promise<void>((resolve, reject) => {
+      server.bindAsync(`127.0.0.1:${this._port}`, ServerCredentials.createInsecure(), (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+    return `http://127.0.0.1:${this._port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this._server;
+    if (!server) return;
+
+    await new Promise<void>((resolve) => server.tryShutdown(() => resolve()));
+    this._server = null;
+  }
+}
@@ -0,0 +1,68 @@
+import { runLoadTest } from '@tressi/cli';
+import {
+  defaultTressiConfig,
+  type TressiGrpcConfig,
+  TressiGrpcConfigSchema,
+} from '@tressi/shared/common';
+
+import { expect, test } from '../setup/fixtures';
+import { ECHO_PROTO_PATH } from '../setup/grpc-server-manager';
+
+const createGrpcEndpoint = (
+  url: string,
+  method: string,
+  message: TressiGrpcConfig['message'],
+): TressiGrpcConfig =>
+  TressiGrpcConfigSchema.parse({
+    message,
+    method,
+    protoPath: ECHO_PROTO_PATH,
+    rps: 10,
+    service: 'echo.Echo',
+    url,
+  });
+
+test.describe('gRPC endpoints', () => {
+  test('should call unary and streaming methods and count their messages', async ({
+    grpcServer,
+  }) => {
+    const config = structuredClone(defaultTressiConfig);
+    config.grpc = [
+      createGrpcEndpoint(grpcServer, 'Say', { text: 'hello' }),
+      createGrpcEndpoint(grpcServer, 'Subscribe', { text: 'tick' }),
+      createGrpcEndpoint(grpcServer, 'Collect', [{ text: 'a' }, { text: 'b' }]),
+      createGrpcEndpoint(grpcServer, 'Talk', [{ text: 'a' }, { text: 'b' }]),
+    ];
+
+    const results = await runLoadTest(config);
+
+    const endpoints = results.summary.endpoints;
+    expect(endpoints).toHaveLength(4);
+    const [say, subscribe, collect, talk] = ['Say', 'Subscribe', 'Collect', 'Talk'].map(
+      (method) => endpoints.find((endpoint) => endpoint.url.endsWith(`/echo.Echo/${method}`))!,
+    );
+
+    for (const endpoint of endpoints) {
+      expect(endpoint.method).toBe('GRPC');
+      expect(endpoint.totalRequests).toBeGreaterThan(0);
+      expect(endpoint.failedRequests).toBe(0);
+      expect(endpoint.grpc?.statusCodeDistribution).toEqual({ 0: endpoint.totalRequests });
+    }
+    expect(say.grpc?.messagesReceived).toBe(say.totalRequests);
+    expect(subscribe.grpc?.messagesReceived).toBe(subscribe.totalRequests * 3);
+    expect(collect.grpc?.messagesSent).toBe(collect.totalRequests * 2);
+    expect(talk.grpc?.messagesReceived).toBe(talk.totalRequests * 2);
+  });
+
+  test('should fail calls that end with a status other than OK', async ({ grpcServer }) => {
+    const config = structuredClone(defaultTressiConfig);
+    config.grpc = [createGrpcEndpoint(grpcServer, 'Find', { text: 'user' })];
+
+    const results = await runLoadTest(config);
+
+    const [endpoint] = results.summary.endpoints;
+    expect(endpoint.totalRequests).toBeGreaterThan(0);
+    expect(endpoint.failedRequests).toBe(endpoint.totalRequests);
+    expect(endpoint.grpc?.statusCodeDistribution).toEqual({ 5: endpoint.totalRequests });
+  });
+});
@@ -1,6 +1,33 @@
-import type { TressiRequestConfig } from '../common/config.types';
+import type {
+  TressiAuthConfig,
+  TressiCookiesConfig,
+  TressiDataFileConfig,
+  TressiExecutorConfig,
+  TressiGrpcConfig,
+  TressiHttpConfig,
+  TressiRequestConfig,
+  TressiScenarioExtract,
+  TressiStageConfig,
+  TressiStreamConfig,
+  TressiTimeoutsConfig,
+  TressiTlsSettings,
+  TressiWebSocketConfig,
+} from '../common/config.types';
 import type { IGlobalServerEvents, IRunnerEvents } from '../common/event.types';
-import type { LatencyHistogram, TestSummary } from '../common/reporting.types';
+import type {
+  EndpointErrorCounts,
+  EndpointErrorEntry,
+  EndpointProtocolCounts,
+  HttpProtocol,
+  LatencyHistogram,
+  NegotiatedTls,
+  RequestErrorCategory,
+  RequestErrorKind,
+  RequestTimingPhase,
+  ResponseSampleCookies,
+  TestSummary,
+  TimelineEvent,
+} from '../common/reporting.types';
 import { EndpointState, WorkerState } from '../common/test.types';
 
 /**
@@ -9,11 +36,45 @@ import { EndpointState, WorkerState } from '../common/test.types';
 export type EndpointCounters = {
   successCount: number;
   failureCount: number;
+  droppedCount: number;
+  lateCount: number;
   bytesSent: number;
   bytesReceived: number;
   statusCodeCounts: Record<number, number>;
   sampledStatusCodes: number[];
   bodySampleIndices: number[];
+  checkCounts: { passed: number; failed: number }[];
+  errorCounts: EndpointErrorCounts;
+  protocolCounts: EndpointProtocolCounts;
+  webSocketCounts: EndpointWebSocketCounts;
+  grpcCounts: EndpointGrpcCounts;
+  streamCounts: EndpointStreamCounts;
+};
+
+/**
+ * Messages and abnormal closes of the connections of a WebSocket endpoint
+ */
+export type EndpointWebSocketCounts = {
+  messagesSent: number;
+  messagesReceived: number;
+  abnormalCloses: number;
+};
+
+/**
+ * Status codes and messages of the calls of a gRPC endpoint
+ */
+export type EndpointGrpcCounts = {
+  statusCodeCounts: Record<number, number>;
+  messagesSent: number;
+  messagesReceived: number;
+};
+
+/**
+ * Events and disconnects of the subscriptions of a streaming endpoint
+ */
+export type EndpointStreamCounts = {
+  eventsReceived: number;
+  disconnects: number;
 };
 
 /**
@@ -32,6 +93,188 @@ export type SharedMemoryOptions = {
   bodySampleBufferSize?: number;
 };
 
+/**
+ * Scenario as executed by a worker. Steps reference the worker's local endpoint slots.
+ */
+export type WorkerScenario = {
+  name: string;
+  rps: number;
+  rampUpDurationSec: number;
+  stages: TressiStageConfig[];
+  steps: {
+    endpointIndex: number;
+    extract: TressiScenarioExtract[];
+  }[];
+};
+
+/**
+ * WebSocket endpoint as executed by a worker, referencing the worker's local endpoint slot.
+ */
+export type WorkerWebSocket = TressiWebSocketConfig & {
+  endpointIndex: number;
+};
+
+/**
+ * Per-connection options for the WebSocket executor
+ */
+export type WebSocketSessionOptions = {
+  /** Global headers, overridden by the headers of the endpoint */
+  headers?: Record<string, string>;
+  /** Authorization header resolved from the global auth config */
+  authorization?: string;
+  /** Global timeouts; the connect timeout bounds the TCP and TLS setup of the handshake */
+  timeouts?: TressiTimeoutsConfig;
+  /** Epoch milliseconds at which the test ends and the connection is closed */
+  endsAt: number;
+};
+
+/**
+ * Outcome of a single WebSocket connection
+ */
+export type WebSocketSessionResult = {
+  /** Whether the handshake succeeded, every awaited message matched and the connection held */
+  success: boolean;
+  /** Time from opening the connection until the handshake completed or failed */
+  connectMs: number;
+  /** Time from the last message sent to each awaited message */
+  roundTripsMs: number[];
+  messagesSent: number;
+  messagesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Whether the server dropped the connection or closed it with a code other than 1000 */
+  abnormalClose: boolean;
+  /** Kind and message of the failure of an unsuccessful connection */
+  errorKind?: RequestErrorKind;
+  error?: string;
+};
+
+/**
+ * gRPC endpoint as executed by a worker, referencing the worker's local endpoint slot.
+ */
+export type WorkerGrpc = TressiGrpcConfig & {
+  endpointIndex: number;
+};
+
+/**
+ * Per-call options for the gRPC executor
+ */
+export type GrpcCallOptions = {
+  /** Authorization metadata resolved from the global auth config */
+  authorization?: string;
+  /** Global timeouts; the total timeout is the deadline of the call */
+  timeouts?: TressiTimeoutsConfig;
+};
+
+/**
+ * Outcome of a single gRPC call
+ */
+export type GrpcCallResult = {
+  /** Whether the call ended with status OK */
+  success: boolean;
+  /** The gRPC status code the call ended with */
+  statusCode: number;
+  /** Time from starting the call until its status was received */
+  latencyMs: number;
+  messagesSent: number;
+  messagesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Kind, category, message and details of the failure of an unsuccessful call */
+  errorKind?: RequestErrorKind;
+  errorCategory?: RequestErrorCategory;
+  error?: string;
+  detail?: string;
+};
+
+/**
+ * Server-Sent Events or long polling endpoint as executed by a worker, referencing the worker's
+ * local endpoint slot.
+ */
+export type WorkerStream = TressiStreamConfig & {
+  endpointIndex: number;
+};
+
+/**
+ * Per-subscription options for the stream executor
+ */
+export type StreamSubscriptionOptions = {
+  /** Global headers, overridden by the headers of the endpoint */
+  headers?: Record<string, string>;
+  /** Authorization header resolved from the global auth config */
+  authorization?: string;
+  /** Global timeouts; the headers timeout bounds the wait for a Server-Sent Events response */
+  timeouts?: TressiTimeoutsConfig;
+  /** Epoch milliseconds at which the test ends and the subscription is closed */
+  endsAt: number;
+  /** Closes the subscription early, such as when its endpoint is stopped */
+  signal?: AbortSignal;
+  /** Called for every event as it arrives, with the time since the previous event if any */
+  onEvent?: (gapMs: number | undefined) => void;
+  /** Called for every chunk of a response body with its size in bytes */
+  onBytes?: (bytes: number) => void;
+};
+
+/**
+ * Outcome of a single subscription of a streaming endpoint
+ */
+export type StreamSubscriptionResult = {
+  /** Whether every response of the subscription had a 2xx status and none of them failed */
+  success: boolean;
+  /** The status code of the first response, absent when none was received */
+  statusCode?: number;
+  /** Time from opening the subscription until its first event, or until it closed without one */
+  timeToFirstEventMs: number;
+  eventsReceived: number;
+  bytesReceived: number;
+  /** Whether the server closed or dropped the subscription before it was due to close */
+  disconnected: boolean;
+  /** Kind, category and message of the failure of an unsuccessful subscription */
+  errorKind?: RequestErrorKind;
+  errorCategory?: RequestErrorCategory;
+  error?: string;
+};
+
+/**
+ * A single data file row, keyed by column name
+ */
+export type DataRow = Record<string, string>;
+
+/**
+ * Per-call options for the request executor
+ */
+export type RequestExecutionOptions = {
+  /** Authorization header resolved from the auth config, replacing any configured one */
+  authorization?: string;
+  /** Cookies from the cookie jar, sent after any configured Cookie header */
+  cookie?: string;
+  /** Always read the response body, even when it is not sampled */
+  captureBody?: boolean;
+  /** Endpoint key used for sampling decisions, defaults to the request URL */
+  endpointKey?: string;
+  /** Global timeouts, overridden by the timeouts of the request */
+  timeouts?: TressiTimeoutsConfig;
+};
+
+/**
+ * TLS settings of a connection, with the PEM contents of the CA, certificate and key files
+ */
+export type ConnectionTlsOptions = Omit<TressiTlsSettings, 'ca' | 'cert' | 'key'> & {
+  ca?: string;
+  cert?: string;
+  key?: string;
+};
+
+/**
+ * TLS settings of a test, resolved for the worker threads
+ */
+export type WorkerTlsOptions = {
+  /** Settings of connections to origins without settings of their own */
+  global?: ConnectionTlsOptions;
+  /** Settings per origin, already merged over the global ones */
+  origins: Record<string, ConnectionTlsOptions>;
+};
+
 /**
  * Data structure passed to worker threads
  */
@@ -40,14 +283,49 @@ export type WorkerData = {
   totalWorkers: number;
   durationSec: number;
   rampUpDurationSec: number;
+  /** Global load profile stages, used by endpoints and scenarios without stages of their own */
+  stages?: TressiStageConfig[];
   assignedEndpoints: TressiRequestConfig[];
+  assignedScenarios: WorkerScenario[];
+  assignedWebSockets: WorkerWebSocket[];
+  assignedGrpc: WorkerGrpc[];
+  assignedStreams: WorkerStream[];
   globalHeaders?: Record<string, string>;
-  endpointOffset: number;
+  globalTimeouts?: TressiTimeoutsConfig;
+  /** Credentials of requests that set no auth of their own */
+  globalAuth?: TressiAuthConfig;
+  /** Cookie jar of the test, cookies are ignored when unset */
+  cookies?: TressiCookiesConfig;
+  /** HTTP protocol settings of the test, HTTP/1.1 when unset */
+  http?: TressiHttpConfig;
+  /** TLS settings of the test, the defaults of Node.js apply when unset */
+  tls?: WorkerTlsOptions;
+  /** Data file rows assigned to this worker */
+  dataRows?: DataRow[];
+  /** How the worker consumes its data rows */
+  dataDistribution?: TressiDataFileConfig['distribution'];
+  /** Load model of the test */
+  executor?: TressiExecutorConfig;
+  /** Start delay of each virtual user run by this worker, empty at a fixed RPS */
+  vuStartDelaysMs?: number[];
+  /** Global endpoint index of each assigned endpoint */
+  endpointIndices: number[];
   statsBuffer: SharedArrayBuffer;
   histogramBuffer: SharedArrayBuffer;
+  /** Latencies measured from the scheduled start of each request */
+  correctedHistogramBuffer: SharedArrayBuffer;
+  /** Duration of each request phase */
+  phaseHistogramBuffers: Record<RequestTimingPhase, SharedArrayBuffer>;
+  /** Message round trips of WebSocket connections */
+  roundTripHistogramBuffer: SharedArrayBuffer;
+  /** Gaps between the events of streaming subscriptions */
+  eventGapHistogramBuffer: SharedArrayBuffer;
   bodySampleBuffers: SharedArrayBuffer[];
   workerStateBuffer: SharedArrayBuffer;
+  workerMetricsBuffer: SharedArrayBuffer;
   endpointStateBuffer: SharedArrayBuffer;
+  /** Pause flag and rate changes of the running test */
+  loadControlBuffer: SharedArrayBuffer;
 };
 
 /**
@@ -60,6 +338,7 @@ export type EarlyExitThresholds = {
       errorRate?: number;
       errorCount?: number;
       exitStatusCodes: Set<number>;
+      exitCheckIndices?: number[];
       monitoringWindowSeconds: number;
     }
   >;
@@ -86,17 +365,53 @@ export interface IStatsCounterManager {
   getEndpointsCount(): number;
   recordBytesReceived(endpointIndex: number, bytes: number): void;
   recordBytesSent(endpointIndex: number, bytes: number): void;
+  recordChecks(endpointIndex: number, outcomes: boolean[]): void;
+  recordDropped(endpointIndex: number, count: number): void;
+  recordError(endpointIndex: number, category: RequestErrorCategory): void;
+  recordGrpcCall(
+    endpointIndex: number,
+    statusCode: number,
+    messagesSent: number,
+    messagesReceived: number,
+  ): void;
+  recordLate(endpointIndex: number): void;
+  recordProtocol(endpointIndex: number, protocol: HttpProtocol): void;
   recordRequest(endpointIndex: number, success: boolean): void;
   recordStatusCode(endpointIndex: number, statusCode: number): void;
+  recordStreamSubscription(
+    endpointIndex: number,
+    eventsReceived: number,
+    disconnected: boolean,
+  ): void;
+  recordWebSocketSession(
+    endpointIndex: number,
+    messagesSent: number,
+    messagesReceived: number,
+    abnormalClose: boolean,
+  ): void;
 }
 
 export interface IEndpointStateManager {
+  getActiveEndpointsCount?(): number;
   getEndpointState?(index: number): number;
   getRunningEndpointsCount(): number;
   getTotalEndpoints(): number;
+  isEndpointActive?(index: number): boolean;
   isEndpointRunning(index: number): boolean;
   setEndpointState?(index: number, state: number): void;
+  startEndpoint?(index: number): void;
   stopEndpoint(index: number): void;
+  stopEndpointManually?(index: number): void;
+}
+
+export interface ILoadControlManager {
+  getEndpointRps(index: number): number | undefined;
+  getMultiplier(): number;
+  getTargetRps(index: number, profileRps: number): number;
+  isPaused(): boolean;
+  setEndpointRps(index: number, rps: number | undefined): void;
+  setMultiplier(multiplier: number): void;
+  setPaused(paused: boolean): void;
 }
 
 export interface IHdrHistogramManager {
@@ -105,7 +420,17 @@ export interface IHdrHistogramManager {
 }
 
 export interface IWorkerStateManager {
+  addActiveVus(workerId: number, delta: number): void;
+  addInFlight(workerId: number, delta: number): void;
+  getActiveVus(workerId: number): number;
+  getEventLoopLag(workerId: number): number;
+  getHeapUsed(workerId: number): number;
+  getInFlight(workerId: number): number;
+  getTokenRequestTotals(): { requests: number; failures: number; latencyMs: number };
+  getTotalActiveVus(): number;
   getWorkerState(workerId: number): WorkerState;
+  recordTokenRequest(workerId: number, latencyMs: number, success: boolean): void;
+  setHealth(workerId: number, eventLoopLagMs: number, heapUsedMB: number): void;
   setWorkerState(workerId: number, state: WorkerState): void;
   waitForState(workerId: number, state: WorkerState, timeoutMs: number): boolean;
 }
@@ -117,16 +442,24 @@ export interface IEarlyExitCoordinator {
 }
 
 export interface IMetricsAggregator {
+  cleanupErrors(runId: string): void;
   cleanupResponseSamples(runId: string): void;
+  getCollectedErrors(runId: string): Map<string, EndpointErrorEntry[]>;
   getCollectedResponseSamples(runId: string): Map<string, ResponseSample[]>;
   getResults(workersCount: number, endpoints: string[]): TestSummary;
+  recordErrors(runId: string, entries: WorkerErrorEntry[]): void;
   recordResponseSample(
     runId: string,
-    url: string,
+    endpointKey: string,
     statusCode: number,
     headers: Record<string, string>,
     body: string,
+    cookies?: ResponseSampleCookies,
+    tls?: NegotiatedTls,
+    graphqlErrors?: string[],
   ): void;
+  recordTimelineEvent(event: TimelineEvent): void;
+  setEndpointManuallyStopped(endpointKey: string, stopped: boolean): void;
   startPolling(intervalMs?: number): void;
   stopPolling(): void;
 }
@@ -137,9 +470,25 @@ export type AggregatedWorkerData = {
   totalRequests: number;
   totalBytesSent: number;
   totalBytesReceived: number;
+  totalDropped: number;
+  totalLate: number;
+  workerInFlight: number[];
+  workerEventLoopLagMs: number[];
+  workerHeapUsedMB: number[];
   endpointHistograms: Record<string, LatencyHistogram[]>;
+  endpointCorrectedHistograms: Record<string, LatencyHistogram[]>;
+  endpointPhaseHistograms: Record<string, Record<RequestTimingPhase, LatencyHistogram[]>>;
+  endpointScheduleCounts: Record<string, { dropped: number; late: number }>;
   endpointStatusCounts: Record<string, Record<number, number>>;
   currentEndpointCounts: Record<string, { success: number; failure: number }>;
+  endpointCheckCounts: Record<string, { passed: number; failed: number }[]>;
+  endpointErrorCounts: Record<string, EndpointErrorCounts>;
+  endpointProtocolCounts: Record<string, EndpointProtocolCounts>;
+  endpointRoundTripHistograms: Record<string, LatencyHistogram[]>;
+  endpointWebSocketCounts: Record<string, EndpointWebSocketCounts>;
+  endpointGrpcCounts: Record<string, EndpointGrpcCounts>;
+  endpointEventGapHistograms: Record<string, LatencyHistogram[]>;
+  endpointStreamCounts: Record<string, EndpointStreamCounts>;
 };
 
 export const EMPTY_HISTOGRAM: LatencyHistogram = {
@@ -169,4 +518,14 @@ export type ResponseSample = {
   statusCode: number;
   headers: Record<string, string>;
   body: string;
+  cookies?: ResponseSampleCookies;
+  tls?: NegotiatedTls;
+  graphqlErrors?: string[];
+};
+
+/**
+ * Error log entry sent from a worker to the main thread, counting the failures since the last flush
+ */
+export type WorkerErrorEntry = EndpointErrorEntry & {
+  endpointKey: string;
 };
@@ -1,10 +1,33 @@
 import type { ZodError, z } from 'zod';
 
 import type {
+  AuthConfigSchema,
+  BodyFileSchema,
+  CookieSeedSchema,
+  CookiesConfigSchema,
+  DataFileConfigSchema,
   EarlyExitConfigSchema,
+  ExecutorConfigSchema,
+  GraphqlRequestSchema,
+  HttpConfigSchema,
+  HttpSettingsSchema,
+  ResponseCheckSchema,
+  ScenarioExtractSchema,
+  ScenarioStepSchema,
+  StageConfigSchema,
+  ThinkTimeConfigSchema,
+  ThresholdSchema,
+  TimeoutsConfigSchema,
+  TlsConfigSchema,
+  TlsSettingsSchema,
   TressiConfigSchema,
+  TressiGrpcConfigSchema,
   TressiOptionsConfigSchema,
   TressiRequestConfigSchema,
+  TressiScenarioConfigSchema,
+  TressiStreamConfigSchema,
+  TressiWebSocketConfigSchema,
+  WebSocketMessageSchema,
 } from './schema.data';
 
 /**
@@ -53,6 +76,121 @@ export type TressiOptionsConfig = z.output<typeof TressiOptionsConfigSchema>;
  */
 export type TressiRequestConfig = z.output<typeof TressiRequestConfigSchema>;
 
+/**
+ * Type representing the GraphQL operation sent by a request.
+ */
+export type TressiGraphqlRequest = z.output<typeof GraphqlRequestSchema>;
+
+/**
+ * Type representing a single stage of a load profile.
+ */
+export type TressiStageConfig = z.output<typeof StageConfigSchema>;
+
+/**
+ * Type representing a single response check of a request.
+ */
+export type TressiResponseCheck = z.output<typeof ResponseCheckSchema>;
+
+/**
+ * Type representing the data file feeding request templates.
+ */
+export type TressiDataFileConfig = z.output<typeof DataFileConfigSchema>;
+
+/**
+ * Type representing a file sent as a multipart part or binary body.
+ */
+export type TressiBodyFile = z.output<typeof BodyFileSchema>;
+
+/**
+ * Type representing a single SLO threshold.
+ */
+export type TressiThreshold = z.output<typeof ThresholdSchema>;
+
+/**
+ * Type representing the connect, headers and total request timeouts.
+ */
+export type TressiTimeoutsConfig = z.output<typeof TimeoutsConfigSchema>;
+
+/**
+ * Type representing the credentials sent with a request.
+ */
+export type TressiAuthConfig = z.output<typeof AuthConfigSchema>;
+
+/**
+ * Type representing the cookie jar of a test.
+ */
+export type TressiCookiesConfig = z.output<typeof CookiesConfigSchema>;
+
+/**
+ * Type representing a cookie placed in the jar before the first request.
+ */
+export type TressiCookieSeed = z.output<typeof CookieSeedSchema>;
+
+/**
+ * Type representing the HTTP protocol settings of a test, with overrides per origin.
+ */
+export type TressiHttpConfig = z.output<typeof HttpConfigSchema>;
+
+/**
+ * Type representing the HTTP protocol settings of connections to an origin.
+ */
+export type TressiHttpSettings = z.output<typeof HttpSettingsSchema>;
+
+/**
+ * Type representing the TLS settings of a test, with overrides per origin.
+ */
+export type TressiTlsConfig = z.output<typeof TlsConfigSchema>;
+
+/**
+ * Type representing the TLS settings of connections to an origin.
+ */
+export type TressiTlsSettings = z.output<typeof TlsSettingsSchema>;
+
+/**
+ * Type representing the load model of a test.
+ */
+export type TressiExecutorConfig = z.output<typeof ExecutorConfigSchema>;
+
+/**
+ * Type representing the think time of a virtual user.
+ */
+export type TressiThinkTimeConfig = z.output<typeof ThinkTimeConfigSchema>;
+
+/**
+ * Type representing a multi-step scenario configuration.
+ */
+export type TressiScenarioConfig = z.output<typeof TressiScenarioConfigSchema>;
+
+/**
+ * Type representing a single scenario step.
+ */
+export type TressiScenarioStepConfig = z.output<typeof ScenarioStepSchema>;
+
+/**
+ * Type representing a variable extraction rule of a scenario step.
+ */
+export type TressiScenarioExtract = z.output<typeof ScenarioExtractSchema>;
+
+/**
+ * Type representing a WebSocket endpoint configuration.
+ */
+export type TressiWebSocketConfig = z.output<typeof TressiWebSocketConfigSchema>;
+
+/**
+ * Type representing a message sent or awaited on a WebSocket connection.
+ */
+export type TressiWebSocketMessage = z.output<typeof WebSocketMessageSchema>;
+
+/**
+ * Type representing a gRPC endpoint configuration.
+ */
+export type TressiGrpcConfig = z.output<typeof TressiGrpcConfigSchema>;
+
+/**
+ * Type representing a Server-Sent Events or long polling endpoint configuration.
+ */
+export type TressiStreamConfig = z.output<typeof TressiStreamConfigSchema>;
+
 /**
  * Request body for creating or editing a configuration.
  */
@@ -8,6 +8,10 @@ import type { TestStatus } from './test.types';
  */
 export const ServerEvents = {
   CONNECTED: 'connected',
+  ENDPOINT: {
+    STARTED: 'endpoint:started',
+    STOPPED: 'endpoint:stopped',
+  },
   METRICS: 'metrics',
   TEST: {
     CANCELLED: 'test:cancelled',
@@ -26,6 +30,8 @@ export type ServerEventName =
   | typeof ServerEvents.TEST.COMPLETED
   | typeof ServerEvents.TEST.FAILED
   | typeof ServerEvents.TEST.CANCELLED
+  | typeof ServerEvents.ENDPOINT.STARTED
+  | typeof ServerEvents.ENDPOINT.STOPPED
   | typeof ServerEvents.CONNECTED;
 
 export type ConnectedEventData = {
@@ -43,7 +49,21 @@ export type TestEventData = {
   configId?: string;
 };
 
+/**
+ * Event payload for an endpoint stopped or started by hand while its test runs
+ */
+export type EndpointEventData = {
+  testId?: string;
+  timestamp: number;
+  /** Key of the request or scenario step */
+  endpointKey: string;
+  /** Whether the endpoint is stopped after the change */
+  stopped: boolean;
+};
+
 export interface IGlobalServerEvents {
+  'endpoint:started': (data: EndpointEventData) => void;
+  'endpoint:stopped': (data: EndpointEventData) => void;
   metrics: (data: { testId?: string; testSummary: TestSummary }) => void;
   'test:cancelled': (data: TestEventData) => void;
   'test:completed': (data: TestEventData) => void;
@@ -70,6 +90,10 @@ export type ServerEventMessage =
         | typeof ServerEvents.TEST.CANCELLED;
       data: TestEventData;
     }
+  | {
+      event: typeof ServerEvents.ENDPOINT.STARTED | typeof ServerEvents.ENDPOINT.STOPPED;
+      data: EndpointEventData;
+    }
   | {
       event: 'connected';
       data: ConnectedEventData;
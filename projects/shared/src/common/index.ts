@@ -5,6 +5,8 @@ export * from './docs.types';
 export * from './event.types';
 export * from './number.utils';
 export * from './reporting.types';
+export * from './scenario.utils';
 export * from './schema.data';
+export * from './stage.utils';
 export * from './test.types';
 export * from './validation.utils';
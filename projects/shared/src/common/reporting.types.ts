@@ -4,6 +4,8 @@
 export type AgentConfig = {
   /** Maximum number of concurrent connections per origin. */
   connections?: number;
+  /** Timeout for establishing a connection in milliseconds. */
+  connectTimeout?: number;
   /** Timeout for idle keep-alive connections in milliseconds. */
   keepAliveTimeout?: number;
   /** Maximum timeout for keep-alive connections in milliseconds. */
@@ -69,6 +71,8 @@ export type LatencyHistogram = {
  * Summary statistics for a single endpoint during load testing.
  */
 export type EndpointSummary = {
+  /** The stable identity of the endpoint: its name, or its method and URL. */
+  key: string;
   /** The HTTP method used for requests to this endpoint. */
   method: string;
   /** The URL of the endpoint. */
@@ -79,6 +83,10 @@ export type EndpointSummary = {
   successfulRequests: number;
   /** Number of failed requests (non-2xx status codes or network errors). */
   failedRequests: number;
+  /** Scheduled requests that were never sent because the worker fell behind the target RPS. */
+  droppedRequests: number;
+  /** Requests that started more than 10ms after their scheduled time. */
+  lateRequests: number;
   /** Minimum latency in milliseconds observed for this endpoint. */
   minLatencyMs: number;
   /** Maximum latency in milliseconds observed for this endpoint. */
@@ -89,6 +97,12 @@ export type EndpointSummary = {
   p95LatencyMs: number;
   /** 99th percentile latency in milliseconds (99% of requests were faster). */
   p99LatencyMs: number;
+  /** 50th percentile latency in milliseconds from the scheduled start (coordinated omission). */
+  correctedP50LatencyMs: number;
+  /** 95th percentile latency in milliseconds from the scheduled start (coordinated omission). */
+  correctedP95LatencyMs: number;
+  /** 99th percentile latency in milliseconds from the scheduled start (coordinated omission). */
+  correctedP99LatencyMs: number;
   /** Average requests per second achieved for this endpoint. */
   averageRequestsPerSecond: number;
   /** Instantaneous requests per second during this measurement interval. */
@@ -105,15 +119,97 @@ export type EndpointSummary = {
     headers: Record<string, string>;
     /** The sampled response body. */
     body: string;
+    /** Cookie counts of the request, when a cookie jar is used. */
+    cookies?: ResponseSampleCookies;
+    /** TLS version and cipher negotiated, for HTTPS requests. */
+    tls?: NegotiatedTls;
+    /** Messages of the errors field, for GraphQL responses that returned errors. */
+    graphqlErrors?: string[];
   }>;
   /** Distribution of HTTP status codes received for this endpoint */
   statusCodeDistribution: Record<number, number>;
+  /** Requests that failed without a response, by network error category */
+  errorCounts: EndpointErrorCounts;
+  /** Requests sent over each HTTP protocol, as negotiated with the server */
+  protocolCounts: EndpointProtocolCounts;
+  /** Failed requests grouped by kind and message, most frequent first */
+  errors: EndpointErrorEntry[];
   /** error rate as a decimal */
   errorRate: number;
   /** The aggregated histogram of the test */
   histogram: LatencyHistogram;
   /** Whether early exit was triggered for this endpoint */
   earlyExitTriggered: boolean;
+  /** Whether the endpoint is stopped by hand and sends no requests until it is started again */
+  manuallyStopped?: boolean;
+  /** Duration of each request phase, absent until a response is timed */
+  timingPhases?: TimingPhasesSummary;
+  /** Name of the scenario this endpoint is a step of, if any */
+  scenario?: string;
+  /** Pass/fail results of the response checks configured for this endpoint */
+  checks?: EndpointCheckSummary[];
+  /** Messages, closes and round trips of the connections, for WebSocket endpoints */
+  webSocket?: EndpointWebSocketSummary;
+  /** Status codes and messages of the calls, for gRPC endpoints */
+  grpc?: EndpointGrpcSummary;
+  /** Events, event gaps and disconnects of the subscriptions, for streaming endpoints */
+  stream?: EndpointStreamSummary;
+};
+
+/**
+ * Pass/fail results of a single response check for an endpoint.
+ */
+export type EndpointCheckSummary = {
+  /** Human readable description of the check. */
+  label: string;
+  /** Number of responses that passed the check. */
+  passed: number;
+  /** Number of responses that failed the check. */
+  failed: number;
+  /** Passed checks as a decimal of all evaluations. */
+  passRate: number;
+  /** Whether a failure of this check stops the endpoint. */
+  exitOnFailure: boolean;
+};
+
+/**
+ * Messages and closes of the connections of a WebSocket endpoint.
+ */
+export type EndpointWebSocketSummary = {
+  /** Messages sent over all connections. */
+  messagesSent: number;
+  /** Messages received over all connections. */
+  messagesReceived: number;
+  /** Connections dropped or closed by the server with a code other than 1000. */
+  abnormalCloses: number;
+  /** Time from the last message sent to each awaited message, absent until one matched. */
+  roundTrip?: TimingPhaseSummary;
+};
+
+/**
+ * Status codes and messages of the calls of a gRPC endpoint.
+ */
+export type EndpointGrpcSummary = {
+  /** Calls per gRPC status code, e.g. 0 for OK and 14 for UNAVAILABLE. */
+  statusCodeDistribution: Record<number, number>;
+  /** Request messages sent over all calls. */
+  messagesSent: number;
+  /** Response messages received over all calls. */
+  messagesReceived: number;
+};
+
+/**
+ * Events and disconnects of the subscriptions of a Server-Sent Events or long polling endpoint.
+ */
+export type EndpointStreamSummary = {
+  /** Events received over all subscriptions. */
+  eventsReceived: number;
+  /** Events received per second of the test. */
+  eventsPerSecond: number;
+  /** Subscriptions the server closed or dropped before they were due to close. */
+  disconnects: number;
+  /** Time between consecutive events of a subscription, absent until one received two. */
+  eventGap?: TimingPhaseSummary;
 };
 
 /**
@@ -128,6 +224,10 @@ export type GlobalSummary = {
   successfulRequests: number;
   /** Total number of failed requests across all endpoints. */
   failedRequests: number;
+  /** Scheduled requests across all endpoints that were never sent because workers fell behind. */
+  droppedRequests: number;
+  /** Requests across all endpoints that started more than 10ms after their scheduled time. */
+  lateRequests: number;
   /** Minimum latency in milliseconds observed across all requests. */
   minLatencyMs: number;
   /** Maximum latency in milliseconds observed across all requests. */
@@ -138,6 +238,12 @@ export type GlobalSummary = {
   p95LatencyMs: number;
   /** 99th percentile latency in milliseconds across all requests. */
   p99LatencyMs: number;
+  /** 50th percentile latency in milliseconds across all requests, from the scheduled start. */
+  correctedP50LatencyMs: number;
+  /** 95th percentile latency in milliseconds across all requests, from the scheduled start. */
+  correctedP95LatencyMs: number;
+  /** 99th percentile latency in milliseconds across all requests, from the scheduled start. */
+  correctedP99LatencyMs: number;
   /** Total duration of the test in seconds. */
   finalDurationSec: number;
   /** Time of test start. */
@@ -166,12 +272,151 @@ export type GlobalSummary = {
   histogram: LatencyHistogram;
   /** Whether early exit was triggered for the entire test */
   earlyExitTriggered: boolean;
+  /** Duration of each request phase across all endpoints, absent until a response is timed */
+  timingPhases?: TimingPhasesSummary;
+  /** Requests for OAuth2 tokens, not counted by any endpoint. Absent when none was requested. */
+  authTokens?: AuthTokenSummary;
+  /** Virtual users running at the end of this interval, the peak when final. 0 at a fixed RPS. */
+  activeVus: number;
+  /** Requests in flight across all workers at the end of this interval, the peak when final. */
+  inFlightRequests: number;
+  /** Requests in flight per worker, indexed by worker id, each worker's peak when final. */
+  workerInFlightRequests: number[];
+  /** Longest event loop delay of any worker in this interval in ms, the peak when final. */
+  eventLoopLagMs: number;
+  /** Longest event loop delay per worker, indexed by worker id, each worker's peak when final. */
+  workerEventLoopLagMs: number[];
+  /** Heap used by all workers at the end of this interval in MB, the peak when final. */
+  heapUsedMB: number;
+  /** Heap used per worker in MB, indexed by worker id, each worker's peak when final. */
+  workerHeapUsedMB: number[];
+  /** Whether busy workers made requests miss their schedule; when final, in any interval. */
+  generatorSaturated: boolean;
 };
 
 /**
  * Complete test summary containing both global and per-endpoint statistics.
  */
-import type { TressiConfig } from './config.types';
+import type { TressiConfig, TressiThreshold } from './config.types';
+import type {
+  httpProtocolDefaults,
+  requestErrorCategoryDefaults,
+  requestErrorKindDefaults,
+  requestTimingPhaseDefaults,
+} from './schema.data';
+
+/**
+ * Category of a network failure: timeout, connection refused, DNS or TLS.
+ */
+export type RequestErrorCategory = (typeof requestErrorCategoryDefaults)[number];
+
+/**
+ * Number of failed requests per network error category.
+ */
+export type EndpointErrorCounts = Record<RequestErrorCategory, number>;
+
+/**
+ * HTTP protocol a request was sent over: HTTP/1.1, HTTP/2 over TLS or HTTP/2 without TLS.
+ */
+export type HttpProtocol = (typeof httpProtocolDefaults)[number];
+
+/**
+ * Number of requests sent over each HTTP protocol.
+ */
+export type EndpointProtocolCounts = Record<HttpProtocol, number>;
+
+/**
+ * Phase of a request: DNS lookup, TCP connect, TLS handshake, time to first byte or download.
+ */
+export type RequestTimingPhase = (typeof requestTimingPhaseDefaults)[number];
+
+/**
+ * Duration of each phase of a request in milliseconds.
+ * The connection phases are zero for requests sent on a reused connection.
+ */
+export type RequestTimings = Record<RequestTimingPhase, number>;
+
+/**
+ * Requests made by the workers for OAuth2 tokens.
+ */
+export type AuthTokenSummary = {
+  /** Number of token requests sent. */
+  requests: number;
+  /** Number of token requests that did not return a token. */
+  failures: number;
+  /** Mean latency of the token requests in milliseconds. */
+  meanLatencyMs: number;
+};
+
+/**
+ * Cookies of the jar a sampled request was sent with.
+ */
+export type ResponseSampleCookies = {
+  /** Number of cookies sent with the request. */
+  sent: number;
+  /** Number of cookies set by the response. */
+  received: number;
+  /** Number of cookies in the jar after the response. */
+  jar: number;
+};
+
+/**
+ * TLS parameters negotiated for the connection a request was sent on.
+ */
+export type NegotiatedTls = {
+  /** Protocol version, e.g. TLSv1.3. */
+  protocol: string;
+  /** OpenSSL name of the cipher, e.g. TLS_AES_256_GCM_SHA384. */
+  cipher: string;
+};
+
+/**
+ * Latency statistics of a single request phase.
+ */
+export type TimingPhaseSummary = {
+  /** Mean duration of the phase in milliseconds. */
+  meanMs: number;
+  /** 50th percentile duration of the phase in milliseconds. */
+  p50Ms: number;
+  /** 95th percentile duration of the phase in milliseconds. */
+  p95Ms: number;
+  /** 99th percentile duration of the phase in milliseconds. */
+  p99Ms: number;
+};
+
+/**
+ * Latency statistics of each request phase.
+ */
+export type TimingPhasesSummary = Record<RequestTimingPhase, TimingPhaseSummary>;
+
+/**
+ * Kind of a failed request: a network error category, a reset connection,
+ * a rejected status code, a failed check, a failed variable extraction or anything else.
+ */
+export type RequestErrorKind = (typeof requestErrorKindDefaults)[number];
+
+/**
+ * Failed requests of an endpoint that share the same kind and message.
+ */
+export type EndpointErrorEntry = {
+  /** The kind of failure. */
+  kind: RequestErrorKind;
+  /** The error message, e.g. `HTTP 503` or `read ECONNRESET`. */
+  message: string;
+  /** Number of failed requests with this kind and message. */
+  count: number;
+  /** Epoch milliseconds of the first occurrence. */
+  firstSeenAt: number;
+  /** Epoch milliseconds of the latest occurrence. */
+  lastSeenAt: number;
+  /** Details of the first occurrence. */
+  sample: {
+    /** The requested URL, with placeholders resolved. */
+    url: string;
+    /** The error code or the start of the response body, if any. */
+    detail?: string;
+  };
+};
 
 /**
  * Complete test summary containing both global and per-endpoint statistics.
@@ -185,6 +430,42 @@ export type TestSummary = {
   global: GlobalSummary;
   /** Array of summary statistics for each individual endpoint. */
   endpoints: EndpointSummary[];
+  /** Verdicts of the configured SLO thresholds. */
+  thresholds?: ThresholdVerdict[];
+  /** Changes made to the load while the test was running, oldest first. */
+  timeline?: TimelineEvent[];
+};
+
+/**
+ * A change made to the load of a running test, such as pausing it or changing its rate.
+ */
+export type TimelineEvent = {
+  /** When the change was made (milliseconds since epoch). */
+  epoch: number;
+  /** `paused` and `resumed` stop and continue sending requests, `rate` changes the target RPS. */
+  type: 'paused' | 'resumed' | 'rate';
+  /** Multiplier applied to the configured load profile, set by rate changes. */
+  multiplier?: number;
+  /** Fixed RPS by endpoint key replacing the load profile, `null` when returned to the profile. */
+  endpointRps?: Record<string, number | null>;
+};
+
+/**
+ * Outcome of evaluating a single SLO threshold against the final test summary.
+ */
+export type ThresholdVerdict = {
+  /** Key of the endpoint the threshold was evaluated against, undefined for the global summary. */
+  endpoint?: string;
+  /** The evaluated summary metric. */
+  metric: TressiThreshold['metric'];
+  /** The comparison operator. */
+  operator: TressiThreshold['operator'];
+  /** The configured threshold value. */
+  threshold: number;
+  /** The value measured during the test. */
+  actual: number;
+  /** Whether the measured value satisfies the threshold. */
+  passed: boolean;
 };
 
 /**
@@ -203,16 +484,30 @@ export type RequestResult = {
   success: boolean;
   /** Any error message if the request failed. */
   error?: string;
+  /** The network error category if the request failed without a response. */
+  errorCategory?: RequestErrorCategory;
+  /** The error code if the request failed without a response, e.g. `ECONNRESET`. */
+  errorCode?: string;
   /** The timestamp when the request was completed. */
   timestamp: number;
-  /** The sampled response body, if captured. */
+  /** The response body, if captured. */
   body?: string;
+  /** Whether the captured body was selected as a response sample. */
+  sampled?: boolean;
   /** The HTTP response headers. */
   headers?: Record<string, unknown>;
   /** Number of bytes sent in the request body. */
   bytesSent?: number;
   /** Number of bytes received in the response body. */
   bytesReceived?: number;
+  /** Duration of each phase of the request, when it was timed. */
+  timings?: RequestTimings;
+  /** TLS version and cipher of the connection, for HTTPS requests that received a response. */
+  tls?: NegotiatedTls;
+  /** The HTTP protocol the request was sent over, for requests handed to a connection. */
+  protocol?: HttpProtocol;
+  /** Messages of the non-empty errors field of a GraphQL response. */
+  graphqlErrors?: string[];
 };
 
 /**
@@ -231,5 +526,8 @@ export type ResponseSamples = Record<
     statusCode: number;
     headers: Record<string, unknown>;
     body: string;
+    cookies?: ResponseSampleCookies;
+    tls?: NegotiatedTls;
+    graphqlErrors?: string[];
   }>
 >;
@@ -0,0 +1,183 @@
+import type {
+  TressiConfig,
+  TressiGrpcConfig,
+  TressiRequestConfig,
+  TressiScenarioConfig,
+  TressiStreamConfig,
+  TressiWebSocketConfig,
+} from './config.types';
+
+/**
+ * Method in the key and summary of WebSocket endpoints, which are not sent as HTTP requests
+ */
+export const webSocketMethod = 'WS';
+
+/**
+ * Method in the key and summary of gRPC endpoints, which are not sent as HTTP requests
+ */
+export const grpcMethod = 'GRPC';
+
+/**
+ * Method in the key and summary of Server-Sent Events endpoints
+ */
+export const sseMethod = 'SSE';
+
+/**
+ * Method in the key and summary of long polling endpoints
+ */
+export const longPollMethod = 'POLL';
+
+/**
+ * Whether a method is the one of a Server-Sent Events or long polling endpoint
+ */
+export function isStreamMethod(method: string | undefined): boolean {
+  return method === sseMethod || method === longPollMethod;
+}
+
+/**
+ * Returns the stable identity of an endpoint: its name when set, otherwise the operation name of
+ * a GraphQL request, otherwise its method and URL. Metrics, early exit state, thresholds and
+ * stored results are all keyed by it.
+ *
+ * @example
+ * ```typescript
+ * // 'GET https://api.example.com/items'
+ * getEndpointKey({ method: 'GET', url: 'https://api.example.com/items' });
+ * // 'Create item'
+ * getEndpointKey({ method: 'POST', name: 'Create item', url: 'https://api.example.com/items' });
+ * // 'GetItem'
+ * getEndpointKey({
+ *   graphql: { operationName: 'GetItem', ... },
+ *   method: 'POST',
+ *   url: 'https://api.example.com/graphql',
+ * });
+ * ```
+ */
+export function getEndpointKey(
+  endpoint: Pick<TressiRequestConfig, 'graphql' | 'method' | 'name' | 'url'>,
+): string {
+  return endpoint.name ?? endpoint.graphql?.operationName ?? `${endpoint.method} ${endpoint.url}`;
+}
+
+/**
+ * Converts the steps of a scenario into endpoint configurations so each step
+ * gets its own metrics slot. Steps inherit rate, ramp up, stages, early exit and
+ * thresholds from the scenario, and are named after the scenario so their keys
+ * never collide with standalone requests.
+ */
+export function getScenarioStepEndpoints(scenario: TressiScenarioConfig): TressiRequestConfig[] {
+  return scenario.steps.map((step) => ({
+    auth: step.auth,
+    bodyType: step.bodyType,
+    checks: step.checks,
+    earlyExit: scenario.earlyExit,
+    headers: step.headers,
+    method: step.method,
+    name: `${scenario.name} › ${getEndpointKey(step)}`,
+    payload: step.payload,
+    rampUpDurationSec: scenario.rampUpDurationSec,
+    rps: scenario.rps,
+    sendBody: step.sendBody,
+    stages: scenario.stages,
+    thresholds: scenario.thresholds,
+    timeouts: step.timeouts,
+    url: step.url,
+  }));
+}
+
+/**
+ * Converts a WebSocket endpoint into an endpoint configuration so it gets its own metrics slot.
+ * Its method is `WS`, and each connection it opens counts as one request.
+ */
+export function getWebSocketEndpoint(webSocket: TressiWebSocketConfig): TressiRequestConfig {
+  return {
+    bodyType: 'text',
+    checks: [],
+    earlyExit: webSocket.earlyExit,
+    headers: webSocket.headers,
+    method: webSocketMethod,
+    name: webSocket.name,
+    payload: '',
+    rampUpDurationSec: webSocket.rampUpDurationSec,
+    rps: webSocket.rps,
+    sendBody: false,
+    stages: webSocket.stages,
+    thresholds: webSocket.thresholds,
+    url: webSocket.url,
+  };
+}
+
+/**
+ * Converts a gRPC endpoint into an endpoint configuration so it gets its own metrics slot.
+ * Its method is `GRPC`, its URL the path of the method on the server, e.g.
+ * `http://localhost:50051/helloworld.Greeter/SayHello`, and its metadata and message become the
+ * headers and payload, so placeholders in them are resolved like in any request.
+ */
+export function getGrpcEndpoint(grpc: TressiGrpcConfig): TressiRequestConfig {
+  return {
+    bodyType: 'json',
+    checks: [],
+    earlyExit: grpc.earlyExit,
+    headers: grpc.metadata,
+    method: grpcMethod,
+    name: grpc.name,
+    payload: grpc.message,
+    rampUpDurationSec: grpc.rampUpDurationSec,
+    rps: grpc.rps,
+    sendBody: true,
+    stages: grpc.stages,
+    thresholds: grpc.thresholds,
+    url: `${grpc.url}/${grpc.service}/${grpc.method}`,
+  };
+}
+
+/**
+ * Converts a Server-Sent Events or long polling endpoint into an endpoint configuration so it gets
+ * its own metrics slot. Its method is `SSE` or `POLL`, each subscription counts as one request,
+ * and its RPS holds the number of subscriptions, which are held open rather than rate limited.
+ */
+export function getStreamEndpoint(stream: TressiStreamConfig): TressiRequestConfig {
+  return {
+    bodyType: 'text',
+    checks: [],
+    earlyExit: stream.earlyExit,
+    headers: stream.headers,
+    method: stream.type === 'sse' ? sseMethod : longPollMethod,
+    name: stream.name,
+    payload: '',
+    rampUpDurationSec: 0,
+    rps: stream.subscriptions,
+    sendBody: false,
+    stages: [],
+    thresholds: stream.thresholds,
+    url: stream.url,
+  };
+}
+
+/**
+ * Returns every endpoint tracked by a test: standalone requests first, followed by the steps of
+ * each scenario, the WebSocket endpoints, the gRPC endpoints and then the streaming endpoints in
+ * declaration order.
+ */
+export function getConfigEndpoints(config: TressiConfig): TressiRequestConfig[] {
+  return [
+    ...(config.requests ?? []),
+    ...(config.scenarios ?? []).flatMap((scenario) => getScenarioStepEndpoints(scenario)),
+    ...(config.websockets ?? []).map((webSocket) => getWebSocketEndpoint(webSocket)),
+    ...(config.grpc ?? []).map((grpc) => getGrpcEndpoint(grpc)),
+    ...(config.streams ?? []).map((stream) => getStreamEndpoint(stream)),
+  ];
+}
+
+/**
+ * Builds a lookup of step endpoint key to the name of the scenario it belongs to.
+ */
+export function getScenarioNameMap(config: TressiConfig): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const scenario of config.scenarios ?? []) {
+    for (const step of getScenarioStepEndpoints(scenario)) {
+      map[getEndpointKey(step)] = scenario.name;
+    }
+  }
+  return map;
+}
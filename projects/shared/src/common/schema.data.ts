@@ -3,15 +3,59 @@ import z from 'zod';
 
 import pkg from '../../../../package.json';
 import type { TressiConfig, TressiRequestConfig } from './config.types';
+import { getConfigEndpoints, getEndpointKey } from './scenario.utils';
 
 export const schemaDefault = `https://raw.githubusercontent.com/kevinchatham/tressi/main/schemas/tressi.schema.v${pkg.version}.json`;
 
 export const headerDefaults = {};
 
 /**
- * Available HTTP methods for Tressi requests
+ * Common HTTP methods offered for Tressi requests. Any other valid method token is accepted too.
  */
-export const httpMethodDefaults = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export const httpMethodDefaults = [
+  'GET',
+  'HEAD',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS',
+] as const;
+
+/**
+ * How a request payload is encoded on the wire
+ */
+export const bodyTypeDefaults = ['json', 'form', 'multipart', 'text', 'binary'] as const;
+
+/**
+ * Connection, response header and whole request timeouts in milliseconds
+ */
+export const timeoutDefaults = {
+  connectMs: 10000,
+  headersMs: 30000,
+  totalMs: 60000,
+};
+
+/**
+ * How the target RPS moves from the previous stage to the target of a stage
+ */
+export const stageInterpolationDefaults = ['linear', 'step'] as const;
+
+export const thinkTimeDefaults = {
+  distribution: 'constant' as const,
+  maxMs: 0,
+  minMs: 0,
+};
+
+export const executorDefaults = {
+  arrival: 'constant' as const,
+  maxInFlight: 1000,
+  pipelineDepth: 15,
+  thinkTime: thinkTimeDefaults,
+  type: 'fixedRps' as const,
+  vuRampUpSec: 0,
+  vus: 10,
+};
 
 export const earlyExitDefaults = {
   enabled: false,
@@ -21,20 +65,233 @@ export const earlyExitDefaults = {
 };
 
 export const requestDefaults = {
+  bodyType: 'json' as const,
+  checks: [],
   earlyExit: earlyExitDefaults,
   headers: headerDefaults,
   method: 'GET' as const,
   payload: {},
   rampUpDurationSec: 0,
   rps: 1,
+  sendBody: true,
+  stages: [],
+  thresholds: [],
+  url: '',
+};
+
+/**
+ * Sources a scenario step can extract variables from
+ */
+export const extractSourceDefaults = ['body', 'header', 'cookie'] as const;
+
+export const scenarioStepDefaults = {
+  bodyType: 'json' as const,
+  checks: [],
+  extract: [],
+  headers: headerDefaults,
+  method: 'GET' as const,
+  payload: {},
+  sendBody: true,
   url: '',
 };
 
+export const scenarioDefaults = {
+  earlyExit: earlyExitDefaults,
+  name: '',
+  rampUpDurationSec: 0,
+  rps: 1,
+  stages: [],
+  steps: [],
+  thresholds: [],
+};
+
+export const webSocketMessageDefaults = {
+  timeoutMs: 5000,
+};
+
+/**
+ * Response check types that can be applied to a request
+ */
+export const responseCheckTypeDefaults = [
+  'status',
+  'header',
+  'jsonPath',
+  'bodyRegex',
+  'maxLatency',
+  'jsonSchema',
+] as const;
+
+/**
+ * Maximum number of checks per request, bounded by the shared memory counter layout
+ */
+export const maxChecksPerRequest = 16;
+
+/**
+ * Network failures counted separately per endpoint, in shared memory counter order
+ */
+export const requestErrorCategoryDefaults = ['timeout', 'connectionRefused', 'dns', 'tls'] as const;
+
+/**
+ * Kinds of failed requests listed in the error breakdown of an endpoint, in report order
+ */
+export const requestErrorKindDefaults = [
+  ...requestErrorCategoryDefaults,
+  'connectionReset',
+  'httpStatus',
+  'grpcStatus',
+  'graphql',
+  'check',
+  'extraction',
+  'other',
+] as const;
+
+/**
+ * Display labels of the request error kinds
+ */
+export const requestErrorKindLabels: Record<(typeof requestErrorKindDefaults)[number], string> = {
+  check: 'Check Failed',
+  connectionRefused: 'Connection Refused',
+  connectionReset: 'Connection Reset',
+  dns: 'DNS',
+  extraction: 'Extraction Failed',
+  graphql: 'GraphQL Errors',
+  grpcStatus: 'gRPC Status',
+  httpStatus: 'HTTP Status',
+  other: 'Other',
+  timeout: 'Timeout',
+  tls: 'TLS',
+};
+
+/**
+ * Phases of a request in the order they happen, each timed in its own histogram per endpoint
+ */
+export const requestTimingPhaseDefaults = ['dns', 'connect', 'tls', 'ttfb', 'download'] as const;
+
+/**
+ * Display labels of the request timing phases
+ */
+export const requestTimingPhaseLabels: Record<(typeof requestTimingPhaseDefaults)[number], string> =
+  {
+    connect: 'TCP Connect',
+    dns: 'DNS Lookup',
+    download: 'Content Download',
+    tls: 'TLS Handshake',
+    ttfb: 'Time to First Byte',
+  };
+
+/**
+ * HTTP protocols requests can be sent over, in shared memory counter order
+ */
+export const httpProtocolDefaults = ['http1', 'h2', 'h2c'] as const;
+
+/**
+ * Display labels of the HTTP protocols
+ */
+export const httpProtocolLabels: Record<(typeof httpProtocolDefaults)[number], string> = {
+  h2: 'HTTP/2',
+  h2c: 'HTTP/2 (h2c)',
+  http1: 'HTTP/1.1',
+};
+
+/**
+ * Names of the gRPC status codes, indexed by code and in shared memory counter order
+ */
+export const grpcStatusCodeDefaults = [
+  'OK',
+  'CANCELLED',
+  'UNKNOWN',
+  'INVALID_ARGUMENT',
+  'DEADLINE_EXCEEDED',
+  'NOT_FOUND',
+  'ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'RESOURCE_EXHAUSTED',
+  'FAILED_PRECONDITION',
+  'ABORTED',
+  'OUT_OF_RANGE',
+  'UNIMPLEMENTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'DATA_LOSS',
+  'UNAUTHENTICATED',
+] as const;
+
+/**
+ * Summary metrics that SLO thresholds can be declared against
+ */
+export const thresholdMetricDefaults = [
+  'p50LatencyMs',
+  'p95LatencyMs',
+  'p99LatencyMs',
+  'minLatencyMs',
+  'maxLatencyMs',
+  'errorRate',
+  'averageRequestsPerSecond',
+  'peakRequestsPerSecond',
+  'targetAchieved',
+  'totalRequests',
+  'failedRequests',
+] as const;
+
+/**
+ * Comparison operators available to SLO thresholds
+ */
+export const thresholdOperatorDefaults = ['<', '<=', '>', '>='] as const;
+
+/**
+ * How data file rows are split across workers
+ */
+export const dataDistributionDefaults = ['roundRobin', 'unique', 'random'] as const;
+
+/**
+ * How load is generated: open model at a fixed RPS per request, or closed model with virtual users
+ */
+export const executorTypeDefaults = ['fixedRps', 'virtualUsers'] as const;
+
+/**
+ * How fixed RPS requests are spaced in time: evenly, or at random like independent users
+ */
+export const arrivalDefaults = ['constant', 'poisson'] as const;
+
+/**
+ * How the think time of a virtual user is drawn between its minimum and maximum
+ */
+export const thinkTimeDistributionDefaults = ['constant', 'uniform', 'exponential'] as const;
+
+/**
+ * OAuth2 grants a token can be requested with
+ */
+export const oauth2GrantTypeDefaults = ['clientCredentials', 'password'] as const;
+
+/**
+ * How the client credentials are sent to the token URL: in an Authorization header or the form body
+ */
+export const oauth2ClientAuthenticationDefaults = ['basic', 'body'] as const;
+
+/**
+ * TLS protocol versions a connection may be limited to
+ */
+export const tlsVersionDefaults = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3'] as const;
+
+/**
+ * Which requests share a cookie jar
+ */
+export const cookieJarScopeDefaults = ['virtualUser', 'worker'] as const;
+
+/**
+ * How a streaming endpoint receives its events: Server-Sent Events or long polling
+ */
+export const streamTypeDefaults = ['sse', 'longPoll'] as const;
+
 export const optionsDefaults = {
   durationSec: 10,
+  executor: executorDefaults,
   headers: headerDefaults,
   rampUpDurationSec: 0,
+  stages: [],
   threads: 2,
+  thresholds: [],
+  timeouts: timeoutDefaults,
   workerEarlyExit: earlyExitDefaults,
   workerMemoryLimit: 128,
 };
@@ -58,24 +315,684 @@ export const EarlyExitConfigSchema = z
   })
   .default(earlyExitDefaults);
 
+/**
+ * Zod schema for the pause of a virtual user after each request or scenario iteration.
+ */
+export const ThinkTimeConfigSchema = z
+  .object({
+    distribution: z
+      .enum(thinkTimeDistributionDefaults)
+      .describe(
+        'How the think time is drawn: constant uses minMs, uniform picks evenly between minMs and maxMs, exponential starts at minMs and averages the midpoint of minMs and maxMs, capped at maxMs. Defaults to constant.',
+      ),
+    maxMs: z.number().int().min(0).describe('Maximum think time in milliseconds. Defaults to 0.'),
+    minMs: z.number().int().min(0).describe('Minimum think time in milliseconds. Defaults to 0.'),
+  })
+  .check((ctx) => {
+    if (ctx.value.distribution !== 'constant' && ctx.value.maxMs < ctx.value.minMs) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'Maximum think time cannot be less than the minimum',
+        path: ['maxMs'],
+      });
+    }
+  });
+
+/**
+ * Zod schema for the load model of a test.
+ */
+export const ExecutorConfigSchema = z
+  .object({
+    arrival: z
+      .enum(arrivalDefaults)
+      .default(executorDefaults.arrival)
+      .describe(
+        'How fixedRps requests are spaced: constant sends them evenly at the target rate, poisson spaces them at random with the same average rate, like independent users. Defaults to constant.',
+      ),
+    maxInFlight: z
+      .number()
+      .int()
+      .min(1)
+      .default(executorDefaults.maxInFlight)
+      .describe(
+        'Ceiling for the requests each worker keeps in flight. The limit grows from pipelineDepth up to this value while requests are waiting to be sent. Only used by fixedRps. Defaults to 1000.',
+      ),
+    pipelineDepth: z
+      .number()
+      .int()
+      .min(1)
+      .default(executorDefaults.pipelineDepth)
+      .describe(
+        'Requests each worker keeps in flight before its limit starts to grow. Only used by fixedRps. Defaults to 15.',
+      ),
+    thinkTime: ThinkTimeConfigSchema.default(thinkTimeDefaults).describe(
+      'Pause of each virtual user after every request or scenario iteration. Only used by virtualUsers.',
+    ),
+    type: z
+      .enum(executorTypeDefaults)
+      .describe(
+        'fixedRps sends every request at its own rps (open model). virtualUsers runs a fixed number of concurrent users that each loop through the requests and scenarios, ignoring their rps (closed model). Defaults to fixedRps.',
+      ),
+    vuRampUpSec: z
+      .number()
+      .int()
+      .min(0)
+      .describe(
+        'The time in seconds over which virtual users are started one by one. Defaults to 0.',
+      ),
+    vus: z
+      .number()
+      .int()
+      .min(1)
+      .describe('Number of concurrent virtual users. Only used by virtualUsers. Defaults to 10.'),
+  })
+  .check((ctx) => {
+    if (ctx.value.maxInFlight < ctx.value.pipelineDepth) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'Max in flight cannot be less than the pipeline depth',
+        path: ['maxInFlight'],
+      });
+    }
+  });
+
+/**
+ * Zod schema for the timeouts applied to every request.
+ */
+export const TimeoutsConfigSchema = z.object({
+  connectMs: z
+    .number()
+    .int()
+    .min(1)
+    .describe('Maximum time in milliseconds to establish a connection. Defaults to 10000.'),
+  headersMs: z
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      'Maximum time in milliseconds to wait for the response headers after sending the request. Defaults to 30000.',
+    ),
+  totalMs: z
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      'Maximum time in milliseconds for the whole request, including reading the response body. Defaults to 60000.',
+    ),
+});
+
+const RequestTimeoutsSchema = TimeoutsConfigSchema.partial()
+  .optional()
+  .describe('Overrides of the global timeouts. Unset values use options.timeouts.');
+
+/**
+ * Zod schema for the credentials sent with a request.
+ */
+export const AuthConfigSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.literal('none').describe('Sends no credentials, overriding options.auth.'),
+    }),
+    z.object({
+      password: z.string().describe('The password of the user.'),
+      type: z.literal('basic').describe('Sends the username and password as basic auth.'),
+      username: z.string().min(1).describe('The name of the user.'),
+    }),
+    z.object({
+      token: z.string().min(1).describe('The token sent as Authorization: Bearer <token>.'),
+      type: z.literal('bearer').describe('Sends a static bearer token.'),
+    }),
+    z.object({
+      audience: z
+        .string()
+        .optional()
+        .describe('The audience of the token, sent as the audience parameter.'),
+      clientAuthentication: z
+        .enum(oauth2ClientAuthenticationDefaults)
+        .default('basic')
+        .describe(
+          'basic sends the client ID and secret in an Authorization header, body sends them as form fields. Defaults to basic.',
+        ),
+      clientId: z.string().min(1).describe('The client ID.'),
+      clientSecret: z.string().optional().describe('The client secret.'),
+      grantType: z
+        .enum(oauth2GrantTypeDefaults)
+        .default('clientCredentials')
+        .describe(
+          'clientCredentials requests a token for the client, password for the user given by username and password. Defaults to clientCredentials.',
+        ),
+      password: z.string().optional().describe('The password of the user of the password grant.'),
+      refreshBeforeExpirySec: z
+        .number()
+        .int()
+        .min(0)
+        .default(30)
+        .describe(
+          'How many seconds before the token expires a new one is requested. Defaults to 30.',
+        ),
+      scope: z.string().optional().describe('Space separated scopes requested for the token.'),
+      tokenUrl: z.url().describe('The URL tokens are requested from.'),
+      type: z
+        .literal('oauth2')
+        .describe(
+          'Requests a bearer token from the token URL, cached per worker and renewed before it expires or when a response is 401.',
+        ),
+      username: z.string().optional().describe('The name of the user of the password grant.'),
+    }),
+  ])
+  .check((ctx) => {
+    if (
+      ctx.value.type === 'oauth2' &&
+      ctx.value.grantType === 'password' &&
+      (!ctx.value.username || ctx.value.password === undefined)
+    ) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'Auth: A username and password are required by the password grant',
+        path: ['username'],
+      });
+    }
+  });
+
+/**
+ * Zod schema for a cookie placed in the jar before the first request.
+ */
+export const CookieSeedSchema = z.object({
+  domain: z
+    .string()
+    .optional()
+    .describe(
+      'The host the cookie is sent to, including its subdomains. Sent to every host when unset.',
+    ),
+  name: z.string().min(1).describe('The name of the cookie.'),
+  path: z
+    .string()
+    .startsWith('/')
+    .default('/')
+    .describe('Only requests to this path or below it send the cookie. Defaults to /.'),
+  secure: z
+    .boolean()
+    .default(false)
+    .describe('Only HTTPS requests send the cookie. Defaults to false.'),
+  value: z.string().describe('The value of the cookie.'),
+});
+
+/**
+ * Zod schema for the cookie jar storing and sending the cookies set by responses.
+ */
+export const CookiesConfigSchema = z.object({
+  initial: z
+    .array(CookieSeedSchema)
+    .default([])
+    .describe('Cookies in the jar before the first request and after every reset. Defaults to [].'),
+  resetEachIteration: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Empties the jar down to the initial cookies at the start of each virtual user pass or scenario iteration. The shared jar of the worker scope is never emptied. Defaults to false.',
+    ),
+  scope: z
+    .enum(cookieJarScopeDefaults)
+    .default('virtualUser')
+    .describe(
+      'virtualUser gives each virtual user and each fixedRps scenario iteration its own jar, worker shares one jar between all requests of a worker. Defaults to virtualUser.',
+    ),
+});
+
+/**
+ * Zod schema for the TLS settings of connections to an origin.
+ */
+export const TlsSettingsSchema = z.object({
+  ca: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Path to a PEM bundle of the CAs trusted instead of the default ones, e.g. a private CA.',
+    ),
+  cert: z.string().min(1).optional().describe('Path to the PEM client certificate for mTLS.'),
+  ciphers: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('OpenSSL cipher list offered, e.g. ECDHE-RSA-AES128-GCM-SHA256:!RC4.'),
+  key: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Path to the PEM private key of the client certificate.'),
+  minVersion: z
+    .enum(tlsVersionDefaults)
+    .optional()
+    .describe('Lowest TLS version negotiated. Defaults to the Node.js default, TLSv1.2.'),
+  passphrase: z.string().optional().describe('Passphrase of the private key.'),
+  rejectUnauthorized: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to false to accept self-signed or otherwise untrusted server certificates. Defaults to true.',
+    ),
+  servername: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Server name sent for SNI and checked against the certificate. Defaults to the host.',
+    ),
+});
+
+/**
+ * Zod schema for the TLS settings of every connection, with overrides per origin.
+ */
+export const TlsConfigSchema = TlsSettingsSchema.extend({
+  origins: z
+    .record(z.string(), TlsSettingsSchema)
+    .default({})
+    .describe(
+      'Settings for single origins such as https://internal.example.com:8443, overriding the global ones per value. Defaults to {}.',
+    ),
+}).check((ctx) => {
+  const pairs: [PropertyKey[], string | undefined, string | undefined][] = [
+    [[], ctx.value.cert, ctx.value.key],
+  ];
+
+  for (const [origin, settings] of Object.entries(ctx.value.origins)) {
+    if (!isOrigin(origin, ['https:'])) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'TLS: Origins must be written as https://host or https://host:port',
+        path: ['origins', origin],
+      });
+    }
+
+    // A global certificate or key may be overridden on its own per origin
+    if (settings.cert !== undefined || settings.key !== undefined) {
+      pairs.push([
+        ['origins', origin],
+        settings.cert ?? ctx.value.cert,
+        settings.key ?? ctx.value.key,
+      ]);
+    }
+  }
+
+  for (const [path, cert, key] of pairs) {
+    if ((cert === undefined) !== (key === undefined)) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'TLS: A client certificate and its key must be set together',
+        path: [...path, cert === undefined ? 'cert' : 'key'],
+      });
+    }
+  }
+});
+
+/**
+ * Zod schema for the HTTP protocol of connections to an origin.
+ */
+export const HttpSettingsSchema = z.object({
+  maxConcurrentStreams: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Most requests sent at once over one HTTP/2 connection before another is opened.'),
+  protocol: z
+    .enum(httpProtocolDefaults)
+    .optional()
+    .describe(
+      'http1 sends HTTP/1.1 over pooled connections, h2 negotiates HTTP/2 over TLS with ALPN and h2c speaks HTTP/2 without TLS.',
+    ),
+});
+
+/**
+ * Zod schema for the HTTP protocol of every connection, with overrides per origin.
+ */
+export const HttpConfigSchema = z
+  .object({
+    maxConcurrentStreams: z
+      .number()
+      .int()
+      .min(1)
+      .default(100)
+      .describe(
+        'Most requests sent at once over one HTTP/2 connection before another is opened. Defaults to 100.',
+      ),
+    origins: z
+      .record(z.string(), HttpSettingsSchema)
+      .default({})
+      .describe(
+        'Settings for single origins such as https://gateway.example.com, overriding the global ones per value. Defaults to {}.',
+      ),
+    protocol: z
+      .enum(httpProtocolDefaults)
+      .default('http1')
+      .describe(
+        'http1 sends HTTP/1.1 over pooled connections, h2 negotiates HTTP/2 over TLS with ALPN and falls back to HTTP/1.1 for plain HTTP origins, h2c speaks HTTP/2 without TLS. Defaults to http1.',
+      ),
+  })
+  .check((ctx) => {
+    for (const [origin, settings] of Object.entries(ctx.value.origins)) {
+      if (!isOrigin(origin, ['http:', 'https:'])) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'HTTP: Origins must be written as scheme://host or scheme://host:port',
+          path: ['origins', origin],
+        });
+        continue;
+      }
+
+      const protocol = settings.protocol ?? ctx.value.protocol;
+      const secure = origin.startsWith('https:');
+      if ((protocol === 'h2' && !secure) || (protocol === 'h2c' && secure)) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `HTTP: ${protocol} needs an ${protocol === 'h2' ? 'https' : 'http'} origin`,
+          path: ['origins', origin, 'protocol'],
+        });
+      }
+    }
+  });
+
+const RequestAuthSchema = AuthConfigSchema.optional().describe(
+  'Credentials for this request. Overrides options.auth, use type none to send none.',
+);
+
+const exitOnFailureSchema = z
+  .boolean()
+  .default(false)
+  .describe('Stop the endpoint as soon as this check fails');
+
+/**
+ * Zod schema for a single response check. A request only succeeds when every check passes.
+ */
+export const ResponseCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    type: z.literal('status'),
+    values: z
+      .array(z.number().int().min(100).max(599))
+      .min(1)
+      .describe('Accepted status codes. Replaces the default 2xx success rule.'),
+  }),
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    name: z.string().min(1).describe('The response header name (case-insensitive).'),
+    operator: z.enum(['equals', 'contains']).describe('How the header value is compared.'),
+    type: z.literal('header'),
+    value: z.string().describe('The expected header value.'),
+  }),
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    operator: z.enum(['equals', 'exists']).describe('How the resolved value is compared.'),
+    path: z.string().startsWith('$').describe('JSONPath into the response body, e.g. $.data.id'),
+    type: z.literal('jsonPath'),
+    value: z
+      .union([z.string(), z.number(), z.boolean(), z.null()])
+      .optional()
+      .describe('The expected value when the operator is equals.'),
+  }),
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    pattern: z.string().min(1).describe('Regular expression the response body must match.'),
+    type: z.literal('bodyRegex'),
+  }),
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    ms: z.number().positive().describe('Maximum allowed latency in milliseconds.'),
+    type: z.literal('maxLatency'),
+  }),
+  z.object({
+    exitOnFailure: exitOnFailureSchema,
+    schema: z
+      .record(z.string(), z.unknown())
+      .describe('JSON Schema the response body must satisfy.'),
+    type: z.literal('jsonSchema'),
+  }),
+]);
+
+const ResponseChecksSchema = z
+  .array(ResponseCheckSchema)
+  .max(maxChecksPerRequest)
+  .default([])
+  .describe('Assertions evaluated against every response.')
+  .check((ctx) => {
+    ctx.value.forEach((check, index) => {
+      if (check.type === 'jsonPath' && check.operator === 'equals' && check.value === undefined) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'Checks: A value is required when a JSONPath check uses equals',
+          path: [index, 'value'],
+        });
+      }
+      if (check.type === 'bodyRegex') {
+        try {
+          new RegExp(check.pattern);
+        } catch {
+          ctx.issues.push({
+            code: 'custom',
+            input: ctx.value,
+            message: `Checks: Invalid regular expression ${check.pattern}`,
+            path: [index, 'pattern'],
+          });
+        }
+      }
+    });
+  });
+
+/**
+ * Zod schema for a single SLO threshold, evaluated against the final test summary.
+ */
+export const ThresholdSchema = z.object({
+  metric: z.enum(thresholdMetricDefaults).describe('The summary metric to evaluate.'),
+  operator: z
+    .enum(thresholdOperatorDefaults)
+    .describe('How the metric is compared, read as <metric> <operator> <value>.'),
+  value: z
+    .number()
+    .describe('The value the metric must satisfy. Rates and targetAchieved are decimals.'),
+});
+
+const ThresholdsSchema = z
+  .array(ThresholdSchema)
+  .default([])
+  .describe('SLO thresholds. Any breached threshold fails the test run.');
+
+/**
+ * Zod schema for a file read from disk and sent as a multipart part or binary body.
+ */
+export const BodyFileSchema = z.object({
+  contentType: z
+    .string()
+    .optional()
+    .describe('The content type of the file. Defaults to application/octet-stream.'),
+  file: z
+    .string()
+    .min(1)
+    .describe('Path to the file, relative paths resolve against the working directory.'),
+  filename: z
+    .string()
+    .optional()
+    .describe('The filename sent with a multipart part. Defaults to the file basename.'),
+});
+
+const BodyTypeSchema = z
+  .enum(bodyTypeDefaults)
+  .default('json')
+  .describe(
+    'How the payload is encoded: json, form (urlencoded), multipart, text or binary. Defaults to json.',
+  );
+
+/**
+ * An HTTP method token as defined by RFC 9110, normalized to upper case.
+ */
+const HttpMethodSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    /^[!#$%&'*+.^_`|~0-9A-Z-]+$/,
+    "Methods may only contain letters, digits and !#$%&'*+.^_`|~-",
+  );
+
+/**
+ * Zod schema for a single stage of a load profile.
+ */
+export const StageConfigSchema = z.object({
+  durationSec: z.number().int().min(1).describe('The duration of the stage in seconds.'),
+  interpolation: z
+    .enum(stageInterpolationDefaults)
+    .default('linear')
+    .describe(
+      'linear moves evenly from the target of the previous stage (0 for the first stage) to rps over the stage. step switches to rps at the start of the stage. Defaults to linear.',
+    ),
+  rps: z.number().int().min(0).describe('The target requests per second of the stage.'),
+});
+
+const StagesSchema = z
+  .array(StageConfigSchema)
+  .default([])
+  .describe(
+    'Load profile stages run in order. After the last stage the target of that stage is held until the test ends. Replaces rps and rampUpDurationSec when set. Ignored by virtualUsers.',
+  );
+
+const SendBodySchema = z
+  .boolean()
+  .default(true)
+  .describe(
+    'Whether the payload is sent as the request body, for any method. An empty payload never sends a body. Defaults to true.',
+  );
+
+const PayloadSchema = z.record(z.string(), z.unknown()).or(z.array(z.unknown())).or(z.string());
+
+const isOrigin = (value: string, protocols: string[]): boolean => {
+  try {
+    const url = new URL(value);
+    return protocols.includes(url.protocol) && url.origin === value;
+  } catch {
+    return false;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEmptyPayload = (value: unknown): boolean =>
+  isPlainObject(value) && Object.keys(value).length === 0;
+
+const isFieldValue = (value: unknown): boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Returns why a payload cannot be encoded as the given body type, or undefined when it can.
+ * An empty object is accepted for every body type and sends no body.
+ */
+function getPayloadIssue(
+  bodyType: (typeof bodyTypeDefaults)[number],
+  payload: z.output<typeof PayloadSchema>,
+): string | undefined {
+  if (isEmptyPayload(payload)) return undefined;
+
+  switch (bodyType) {
+    case 'json':
+      return typeof payload === 'string'
+        ? 'JSON payloads must be an object or an array'
+        : undefined;
+    case 'form':
+      return isPlainObject(payload) && Object.values(payload).every(isFieldValue)
+        ? undefined
+        : 'Form payloads must be an object of string, number or boolean fields';
+    case 'multipart':
+      return isPlainObject(payload) &&
+        Object.values(payload).every(
+          (value) => isFieldValue(value) || BodyFileSchema.safeParse(value).success,
+        )
+        ? undefined
+        : 'Multipart payloads must be an object of string, number, boolean or file fields';
+    case 'text':
+      return typeof payload === 'string' ? undefined : 'Text payloads must be a string';
+    case 'binary':
+      return BodyFileSchema.safeParse(payload).success
+        ? undefined
+        : 'Binary payloads must be a file reference like {"file": "./body.bin"}';
+  }
+}
+
+/**
+ * Zod schema for the GraphQL operation a request sends instead of its payload.
+ */
+export const GraphqlRequestSchema = z
+  .object({
+    operationName: z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .describe(
+        'The operation to execute when the query defines several. Identifies the request in results unless it has a name.',
+      ),
+    query: z.string().trim().min(1).optional().describe('The query or mutation text.'),
+    queryFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Path to a .graphql file holding the query, relative paths resolve against the working directory.',
+      ),
+    variables: z
+      .record(z.string(), z.unknown())
+      .default({})
+      .describe('Variables of the operation. Placeholders in string values are resolved.'),
+  })
+  .check((ctx) => {
+    if ((ctx.value.query === undefined) === (ctx.value.queryFile === undefined)) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'GraphQL: Set either query or queryFile',
+        path: ['query'],
+      });
+    }
+  });
+
 /**
  * Zod schema for a single request configuration.
  */
 export const TressiRequestConfigSchema = z
   .object({
+    auth: RequestAuthSchema,
+    bodyType: BodyTypeSchema,
+    checks: ResponseChecksSchema,
     earlyExit: EarlyExitConfigSchema.describe(
       'Optional early exit configuration for this specific endpoint',
     ),
+    graphql: GraphqlRequestSchema.optional().describe(
+      'Sends a GraphQL operation as the JSON body of a POST request. A response with a non-empty errors field fails.',
+    ),
     headers: z
       .record(z.string(), z.string())
       .describe('Headers to be sent with this specific request. Merged with global headers.'),
-    method: z
-      .enum(httpMethodDefaults)
-      .describe('The HTTP method to use for the request. Defaults to GET.'),
-    payload: z
-      .record(z.string(), z.unknown())
-      .or(z.array(z.unknown()))
-      .describe('The request payload. Can be a JSON object or an array.'),
+    method: HttpMethodSchema.describe(
+      'The HTTP method to use for the request, e.g. GET, HEAD, OPTIONS or a custom method like PURGE. Defaults to GET.',
+    ),
+    name: z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .describe(
+        'Optional unique name identifying the request in results. Required when requests share a method and URL, or GraphQL requests an operation name.',
+      ),
+    payload: PayloadSchema.describe(
+      'The request payload. A JSON object or array, a string for text bodies, or file references for multipart and binary bodies.',
+    ),
     rampUpDurationSec: z
       .number()
       .int()
@@ -84,6 +1001,14 @@ export const TressiRequestConfigSchema = z
         'Per-endpoint ramp up time in seconds. If 0, uses global rampUpDurationSec. Defaults to 0.',
       ),
     rps: z.number().int().min(1).describe('Per-endpoint requests per second limit. Defaults to 1.'),
+    sendBody: SendBodySchema,
+    stages: StagesSchema.describe(
+      'Per-endpoint load profile. If empty, uses global stages, then rps with rampUpDurationSec. Defaults to [].',
+    ),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against this endpoint summary. Any breach fails the test run.',
+    ),
+    timeouts: RequestTimeoutsSchema,
     url: z.url().describe('The URL to send the request to.'),
   })
   .default(requestDefaults)
@@ -101,32 +1026,458 @@ export const TressiRequestConfigSchema = z
         });
       }
     }
+    if (data.graphql) {
+      if (data.method !== 'POST') {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `GraphQL for ${ctx.value.url}: GraphQL requests must use the POST method`,
+          path: ['method'],
+        });
+      }
+      if (!isEmptyPayload(data.payload)) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `GraphQL for ${ctx.value.url}: The operation is sent as the body, so payload must be empty`,
+          path: ['payload'],
+        });
+      }
+    }
+    const payloadIssue = getPayloadIssue(data.bodyType, data.payload);
+    if (payloadIssue) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: `Payload for ${ctx.value.url}: ${payloadIssue}`,
+        path: ['payload'],
+      });
+    }
+  });
+
+/**
+ * Zod schema for a variable extraction applied to a scenario step response.
+ */
+export const ScenarioExtractSchema = z.object({
+  from: z
+    .enum(extractSourceDefaults)
+    .describe('Where to read the value from: the JSON body, a response header or a cookie.'),
+  path: z
+    .string()
+    .min(1)
+    .describe(
+      'A JSONPath expression (e.g. $.data.items[0].id) for body, otherwise the header or cookie name.',
+    ),
+  variable: z
+    .string()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Variable names must be valid identifiers')
+    .describe('The variable name. Referenced in later steps as {{name}}.'),
+});
+
+/**
+ * Zod schema for a single step within a scenario.
+ */
+export const ScenarioStepSchema = z.object({
+  auth: RequestAuthSchema,
+  bodyType: BodyTypeSchema,
+  checks: ResponseChecksSchema,
+  extract: z
+    .array(ScenarioExtractSchema)
+    .default([])
+    .describe('Values to extract from the response into the virtual user variables.'),
+  headers: z
+    .record(z.string(), z.string())
+    .default(headerDefaults)
+    .describe('Headers to be sent with this step. Supports {{variable}} placeholders.'),
+  method: HttpMethodSchema.default('GET').describe(
+    'The HTTP method to use for the step. Defaults to GET.',
+  ),
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe(
+      'Optional name identifying the step in results. Required when steps of a scenario share a method and URL.',
+    ),
+  payload: PayloadSchema.default({}).describe(
+    'The step payload. String values support {{variable}} placeholders.',
+  ),
+  sendBody: SendBodySchema,
+  timeouts: RequestTimeoutsSchema,
+  url: z
+    .string()
+    .min(1)
+    .describe('The URL to send the step to. Supports {{variable}} placeholders.'),
+});
+
+/**
+ * Zod schema for a multi-step scenario (an ordered user journey).
+ */
+export const TressiScenarioConfigSchema = z
+  .object({
+    earlyExit: EarlyExitConfigSchema.describe(
+      'Optional early exit configuration applied to every step of this scenario',
+    ),
+    name: z.string().min(1).describe('A unique name for the scenario.'),
+    rampUpDurationSec: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(0)
+      .describe(
+        'Per-scenario ramp up time in seconds. If 0, uses global rampUpDurationSec. Defaults to 0.',
+      ),
+    rps: z
+      .number()
+      .int()
+      .min(1)
+      .default(1)
+      .describe('Scenario iterations started per second. Defaults to 1.'),
+    stages: StagesSchema.describe(
+      'Per-scenario load profile in iterations per second. If empty, uses global stages, then rps with rampUpDurationSec. Defaults to [].',
+    ),
+    steps: z
+      .array(ScenarioStepSchema)
+      .min(1, 'At least one step is required')
+      .describe('The ordered steps executed by each virtual user.'),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against the summary of every step of this scenario.',
+    ),
+  })
+  .check((ctx) => {
+    ctx.value.steps.forEach((step, index) => {
+      if (!URL.canParse(step.url.replace(/\{\{\s*[A-Za-z_][A-Za-z0-9_]*\s*\}\}/g, 'x'))) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `Scenario ${ctx.value.name}: Invalid URL`,
+          path: ['steps', index, 'url'],
+        });
+      }
+      const payloadIssue = getPayloadIssue(step.bodyType, step.payload);
+      if (payloadIssue) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `Scenario ${ctx.value.name}: ${payloadIssue}`,
+          path: ['steps', index, 'payload'],
+        });
+      }
+    });
+  });
+
+/**
+ * Zod schema for a single step of the message sequence of a WebSocket connection.
+ */
+export const WebSocketMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    data: z.string().describe('Text message to send. Supports {{variable}} placeholders.'),
+    type: z.literal('send'),
+  }),
+  z.object({
+    pattern: z
+      .string()
+      .min(1)
+      .describe(
+        'Regular expression the next awaited message must match. Other messages are skipped.',
+      ),
+    timeoutMs: z
+      .number()
+      .int()
+      .min(1)
+      .default(webSocketMessageDefaults.timeoutMs)
+      .describe('Time in milliseconds to wait for a matching message. Defaults to 5000.'),
+    type: z.literal('expect'),
+  }),
+]);
+
+/**
+ * Zod schema for a WebSocket endpoint, opening connections at a fixed rate that each run a
+ * message sequence.
+ */
+export const TressiWebSocketConfigSchema = z
+  .object({
+    earlyExit: EarlyExitConfigSchema.describe(
+      'Optional early exit configuration for this endpoint, counting failed connections',
+    ),
+    headers: z
+      .record(z.string(), z.string())
+      .default(headerDefaults)
+      .describe(
+        'Headers sent with the handshake. Merged with global headers and supports {{variable}} placeholders.',
+      ),
+    holdDurationSec: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(0)
+      .describe(
+        'Time in seconds each connection stays open after its messages before it is closed. Defaults to 0.',
+      ),
+    messages: z
+      .array(WebSocketMessageSchema)
+      .default([])
+      .describe('Messages sent and awaited in order on every connection. Defaults to [].'),
+    name: z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .describe('Optional unique name identifying the endpoint in results.'),
+    rampUpDurationSec: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(0)
+      .describe(
+        'Per-endpoint ramp up time in seconds. If 0, uses global rampUpDurationSec. Defaults to 0.',
+      ),
+    rps: z
+      .number()
+      .int()
+      .min(1)
+      .default(1)
+      .describe('Connections opened per second. Defaults to 1.'),
+    stages: StagesSchema.describe(
+      'Per-endpoint load profile in connections per second. If empty, uses global stages, then rps with rampUpDurationSec. Defaults to [].',
+    ),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against this endpoint summary, where latency is the handshake time.',
+    ),
+    url: z.string().min(1).describe('The ws:// or wss:// URL to connect to.'),
+  })
+  .check((ctx) => {
+    const url = ctx.value.url.replace(/\{\{\s*[A-Za-z_][A-Za-z0-9_]*\s*\}\}/g, 'x');
+    if (!URL.canParse(url) || !['ws:', 'wss:'].includes(new URL(url).protocol)) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: `WebSocket ${ctx.value.url}: URLs must start with ws:// or wss://`,
+        path: ['url'],
+      });
+    }
+    ctx.value.messages.forEach((message, index) => {
+      if (message.type !== 'expect') return;
+      try {
+        new RegExp(message.pattern);
+      } catch {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: `WebSocket ${ctx.value.url}: Invalid regular expression ${message.pattern}`,
+          path: ['messages', index, 'pattern'],
+        });
+      }
+    });
+  });
+
+/**
+ * Zod schema for a gRPC endpoint, calling a method of a service described by a local .proto file
+ * at a fixed rate.
+ */
+export const TressiGrpcConfigSchema = z
+  .object({
+    earlyExit: EarlyExitConfigSchema.describe(
+      'Optional early exit configuration for this endpoint, counting calls that did not return OK',
+    ),
+    message: z
+      .record(z.string(), z.unknown())
+      .or(z.array(z.record(z.string(), z.unknown())))
+      .default({})
+      .describe(
+        'The request message as JSON, or an array of messages streamed in order for client and bidirectional streaming methods. Supports {{variable}} placeholders. Defaults to {}.',
+      ),
+    metadata: z
+      .record(z.string(), z.string())
+      .default(headerDefaults)
+      .describe('Metadata sent with every call. Supports {{variable}} placeholders.'),
+    method: z.string().min(1).describe('The name of the method to call, e.g. SayHello.'),
+    name: z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .describe('Optional unique name identifying the endpoint in results.'),
+    protoPath: z
+      .string()
+      .min(1)
+      .describe(
+        'Path to the .proto file declaring the service, relative paths resolve against the working directory.',
+      ),
+    rampUpDurationSec: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(0)
+      .describe(
+        'Per-endpoint ramp up time in seconds. If 0, uses global rampUpDurationSec. Defaults to 0.',
+      ),
+    rps: z.number().int().min(1).default(1).describe('Calls per second. Defaults to 1.'),
+    service: z
+      .string()
+      .min(1)
+      .describe(
+        'The fully qualified name of the service, including its package, e.g. helloworld.Greeter.',
+      ),
+    stages: StagesSchema.describe(
+      'Per-endpoint load profile in calls per second. If empty, uses global stages, then rps with rampUpDurationSec. Defaults to [].',
+    ),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against this endpoint summary. Any breach fails the test run.',
+    ),
+    url: z
+      .string()
+      .min(1)
+      .describe(
+        'The http:// or https:// address of the server, e.g. http://localhost:50051. https:// calls use TLS.',
+      ),
+  })
+  .check((ctx) => {
+    const url = ctx.value.url.replace(/\{\{\s*[A-Za-z_][A-Za-z0-9_]*\s*\}\}/g, 'x');
+    if (!isOrigin(url, ['http:', 'https:'])) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: `gRPC ${ctx.value.url}: Addresses must be an http:// or https:// origin without a path`,
+        path: ['url'],
+      });
+    }
+  });
+
+/**
+ * Zod schema for a streaming endpoint, holding a number of subscriptions to a Server-Sent Events
+ * feed or a long polling URL open at the same time.
+ */
+export const TressiStreamConfigSchema = z
+  .object({
+    earlyExit: EarlyExitConfigSchema.describe(
+      'Optional early exit configuration for this endpoint, counting failed subscriptions',
+    ),
+    headers: z
+      .record(z.string(), z.string())
+      .default(headerDefaults)
+      .describe(
+        'Headers sent with every request of a subscription. Merged with global headers and supports {{variable}} placeholders.',
+      ),
+    holdDurationSec: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(0)
+      .describe(
+        'Time in seconds each subscription stays open before it is closed and opened again. If 0, subscriptions stay open until the test ends. Defaults to 0.',
+      ),
+    name: z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .describe('Optional unique name identifying the endpoint in results.'),
+    reconnectDelayMs: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(1000)
+      .describe(
+        'Time in milliseconds before a subscription that failed or was closed by the server is opened again. Defaults to 1000.',
+      ),
+    subscriptions: z
+      .number()
+      .int()
+      .min(1)
+      .default(1)
+      .describe('Subscriptions held open at the same time. Defaults to 1.'),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against this endpoint summary, where latency is the time to the first event.',
+    ),
+    type: z
+      .enum(streamTypeDefaults)
+      .default('sse')
+      .describe(
+        'sse reads the events of a text/event-stream response, longPoll requests the URL again after every response and counts each response with a body as an event, waiting a second after one without. Defaults to sse.',
+      ),
+    url: z.string().min(1).describe('The http:// or https:// URL of the feed.'),
+  })
+  .check((ctx) => {
+    const url = ctx.value.url.replace(/\{\{\s*[A-Za-z_][A-Za-z0-9_]*\s*\}\}/g, 'x');
+    if (!URL.canParse(url) || !['http:', 'https:'].includes(new URL(url).protocol)) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: `Stream ${ctx.value.url}: URLs must start with http:// or https://`,
+        path: ['url'],
+      });
+    }
   });
 
+/**
+ * Zod schema for a data file whose rows feed request templates.
+ */
+export const DataFileConfigSchema = z.object({
+  distribution: z
+    .enum(dataDistributionDefaults)
+    .default('roundRobin')
+    .describe(
+      'How rows are split across workers: roundRobin cycles through an even share, unique uses each row at most once, random picks from every row. Defaults to roundRobin.',
+    ),
+  path: z
+    .string()
+    .regex(/\.(csv|jsonl|ndjson)$/i, 'Data files must be .csv, .jsonl or .ndjson')
+    .describe('Path to a local CSV (with a header row) or JSONL file.'),
+});
+
 /**
  * Zod schema for Tressi options configuration.
  */
 export const TressiOptionsConfigSchema = z
   .object({
+    auth: AuthConfigSchema.optional().describe(
+      'Credentials sent with every request that does not set its own auth.',
+    ),
+    cookies: CookiesConfigSchema.optional().describe(
+      'Cookie jar storing the cookies set by responses and sending them with later requests. Cookies are ignored when unset.',
+    ),
+    data: DataFileConfigSchema.optional().describe(
+      'Optional data file. Row columns are available as {{column}} placeholders.',
+    ),
     durationSec: z
       .number()
       .int()
       .min(10)
       .default(10)
       .describe('The total duration of the test in seconds. Defaults to 10.'),
+    executor: ExecutorConfigSchema.default(executorDefaults).describe(
+      'The load model: fixed RPS per request, or concurrent virtual users.',
+    ),
     headers: z
       .record(z.string(), z.string())
       .describe('Global headers to be sent with every request.'),
+    http: HttpConfigSchema.optional().describe(
+      'HTTP protocol of the connections, HTTP/1.1 when unset.',
+    ),
     rampUpDurationSec: z
       .number()
       .int()
       .min(0)
       .describe('The time in seconds to ramp up to the target RPS. Defaults to 0.'),
+    stages: StagesSchema.describe(
+      'Load profile applied to every request and scenario without stages of its own. Defaults to [].',
+    ),
     threads: z
       .number()
       .int()
       .min(1)
       .describe('Number of worker threads to use (defaults to CPU count)'),
+    thresholds: ThresholdsSchema.describe(
+      'SLO thresholds evaluated against the global summary. Any breach fails the test run.',
+    ),
+    timeouts: TimeoutsConfigSchema.default(timeoutDefaults).describe(
+      'Timeouts applied to every request unless the request overrides them.',
+    ),
+    tls: TlsConfigSchema.optional().describe(
+      'TLS settings such as a private CA, a client certificate for mTLS or accepting self-signed certificates.',
+    ),
     workerEarlyExit: EarlyExitConfigSchema.describe(
       'Global early exit configuration (acts as default for endpoints without specific config)',
     ),
@@ -157,13 +1508,45 @@ export const TressiOptionsConfigSchema = z
 export const TressiConfigSchema = z
   .object({
     $schema: z.string().describe('A URL to the JSON schema for this configuration file.'),
+    grpc: z
+      .array(TressiGrpcConfigSchema)
+      .default([])
+      .describe('An array of gRPC endpoints, each calling a method of a service at a fixed rate.'),
     options: TressiOptionsConfigSchema.describe('Configuration options for the test runner.'),
-    requests: z
-      .array(TressiRequestConfigSchema)
-      .min(1, 'At least one valid request is required')
-      .describe('An array of request configurations.'),
+    requests: z.array(TressiRequestConfigSchema).describe('An array of request configurations.'),
+    scenarios: z
+      .array(TressiScenarioConfigSchema)
+      .default([])
+      .describe('An array of multi-step scenarios executed as ordered user journeys.'),
+    streams: z
+      .array(TressiStreamConfigSchema)
+      .default([])
+      .describe(
+        'An array of Server-Sent Events and long polling endpoints, each holding subscriptions open.',
+      ),
+    websockets: z
+      .array(TressiWebSocketConfigSchema)
+      .default([])
+      .describe(
+        'An array of WebSocket endpoints, each opening connections that run a message sequence.',
+      ),
   })
   .check((ctx) => {
+    if (
+      ctx.value.requests.length === 0 &&
+      ctx.value.scenarios.length === 0 &&
+      ctx.value.websockets.length === 0 &&
+      ctx.value.grpc.length === 0 &&
+      ctx.value.streams.length === 0
+    ) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'At least one valid request is required',
+        path: ['requests'],
+      });
+    }
+
     if (ctx.value.options.rampUpDurationSec > ctx.value.options.durationSec / 2) {
       ctx.issues.push({
         code: 'custom',
@@ -173,6 +1556,15 @@ export const TressiConfigSchema = z
       });
     }
 
+    if (ctx.value.options.executor.vuRampUpSec > ctx.value.options.durationSec / 2) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'Duration cannot exceed half of the test duration',
+        path: ['options', 'executor', 'vuRampUpSec'],
+      });
+    }
+
     ctx.value.requests.forEach((request, index) => {
       if (request.rampUpDurationSec > ctx.value.options.durationSec / 2) {
         ctx.issues.push({
@@ -187,9 +1579,16 @@ export const TressiConfigSchema = z
     // If global or any per-request ramp up is enabled, all requests must have RPS >= 5
     const hasAnyRampUp =
       ctx.value.options.rampUpDurationSec > 0 ||
-      ctx.value.requests.some((r) => r.rampUpDurationSec > 0);
+      ctx.value.requests.some((r) => r.rampUpDurationSec > 0) ||
+      ctx.value.scenarios.some((s) => s.rampUpDurationSec > 0) ||
+      ctx.value.websockets.some((w) => w.rampUpDurationSec > 0) ||
+      ctx.value.grpc.some((g) => g.rampUpDurationSec > 0);
     if (hasAnyRampUp) {
-      const allRpsValid = ctx.value.requests.every((request) => request.rps >= 5);
+      const allRpsValid =
+        ctx.value.requests.every((request) => request.rps >= 5) &&
+        ctx.value.scenarios.every((scenario) => scenario.rps >= 5) &&
+        ctx.value.websockets.every((webSocket) => webSocket.rps >= 5) &&
+        ctx.value.grpc.every((grpc) => grpc.rps >= 5);
       if (!allRpsValid) {
         ctx.issues.push({
           code: 'custom',
@@ -201,23 +1600,99 @@ export const TressiConfigSchema = z
       }
     }
 
-    if (ctx.value.requests.length > 1) {
-      const urls = ctx.value.requests.map((req) => req.url);
-      const uniqueUrls = new Set(urls);
-      if (uniqueUrls.size !== urls.length) {
+    ctx.value.scenarios.forEach((scenario, index) => {
+      if (scenario.rampUpDurationSec > ctx.value.options.durationSec / 2) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'Duration cannot exceed half of the test duration',
+          path: ['scenarios', index, 'rampUpDurationSec'],
+        });
+      }
+    });
+
+    ctx.value.websockets.forEach((webSocket, index) => {
+      if (webSocket.rampUpDurationSec > ctx.value.options.durationSec / 2) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'Duration cannot exceed half of the test duration',
+          path: ['websockets', index, 'rampUpDurationSec'],
+        });
+      }
+    });
+
+    ctx.value.grpc.forEach((grpc, index) => {
+      if (grpc.rampUpDurationSec > ctx.value.options.durationSec / 2) {
+        ctx.issues.push({
+          code: 'custom',
+          input: ctx.value,
+          message: 'Duration cannot exceed half of the test duration',
+          path: ['grpc', index, 'rampUpDurationSec'],
+        });
+      }
+    });
+
+    const stagedEntries = [
+      { path: ['options'], stages: ctx.value.options.stages },
+      ...ctx.value.requests.map((request, index) => ({
+        path: ['requests', index],
+        stages: request.stages,
+      })),
+      ...ctx.value.scenarios.map((scenario, index) => ({
+        path: ['scenarios', index],
+        stages: scenario.stages,
+      })),
+      ...ctx.value.websockets.map((webSocket, index) => ({
+        path: ['websockets', index],
+        stages: webSocket.stages,
+      })),
+      ...ctx.value.grpc.map((grpc, index) => ({
+        path: ['grpc', index],
+        stages: grpc.stages,
+      })),
+    ];
+    stagedEntries.forEach(({ path, stages }) => {
+      const stagesDurationSec = stages.reduce((sum, stage) => sum + stage.durationSec, 0);
+      if (stagesDurationSec > ctx.value.options.durationSec) {
         ctx.issues.push({
           code: 'custom',
           input: ctx.value,
-          message: 'Requests: Duplicate URLs are not allowed',
-          path: ['requests'],
+          message: 'Stages cannot exceed the test duration',
+          path: [...path, 'stages'],
         });
       }
+    });
+
+    const scenarioNames = ctx.value.scenarios.map((scenario) => scenario.name);
+    if (new Set(scenarioNames).size !== scenarioNames.length) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: 'Scenarios: Duplicate names are not allowed',
+        path: ['scenarios'],
+      });
+    }
+
+    const keys = getConfigEndpoints(ctx.value).map((endpoint) => getEndpointKey(endpoint));
+    const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      ctx.issues.push({
+        code: 'custom',
+        input: ctx.value,
+        message: `Requests: Duplicate endpoint ${duplicates[0]}. Give requests that share a method and URL a unique name or GraphQL operation name`,
+        path: ['requests'],
+      });
     }
   })
   .default({
     $schema: schemaDefault,
+    grpc: [],
     options: optionsDefaults,
     requests: [],
+    scenarios: [],
+    streams: [],
+    websockets: [],
   });
 
 /**
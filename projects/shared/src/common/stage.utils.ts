@@ -0,0 +1,140 @@
+import type { TressiOptionsConfig, TressiRequestConfig, TressiStageConfig } from './config.types';
+
+/**
+ * Minimal shape needed to resolve a load profile; satisfied by requests, scenarios and their steps.
+ */
+type StagedEntry = Pick<TressiRequestConfig, 'rampUpDurationSec' | 'rps' | 'stages'>;
+
+/**
+ * Global settings a load profile falls back to.
+ */
+type StagedOptions = Pick<TressiOptionsConfig, 'rampUpDurationSec' | 'stages'>;
+
+/**
+ * Returns the stages configured for an entry: its own when set, otherwise the global stages.
+ * Empty when neither defines stages.
+ */
+export function getConfiguredStages(
+  entry: Pick<StagedEntry, 'stages'>,
+  options?: Pick<StagedOptions, 'stages'>,
+): TressiStageConfig[] {
+  if (entry.stages?.length) return entry.stages;
+  return options?.stages ?? [];
+}
+
+/**
+ * Returns the stages that shape the load of an entry.
+ *
+ * @remarks
+ * Without configured stages the entry ramps linearly to its `rps` over its ramp up
+ * (or the global ramp up when its own is 0), which is a single linear stage.
+ *
+ * @example
+ * ```typescript
+ * getEffectiveStages({ rampUpDurationSec: 30, rps: 100, stages: [] });
+ * // [{ durationSec: 30, interpolation: 'linear', rps: 100 }]
+ * ```
+ */
+export function getEffectiveStages(
+  entry: StagedEntry,
+  options?: StagedOptions,
+): TressiStageConfig[] {
+  const stages = getConfiguredStages(entry, options);
+  if (stages.length > 0) return stages;
+
+  const rampUpDurationSec = entry.rampUpDurationSec || options?.rampUpDurationSec || 0;
+  return [{ durationSec: rampUpDurationSec, interpolation: 'linear', rps: entry.rps }];
+}
+
+type StageSegment = { startSec: number; endSec: number; fromRps: number; toRps: number };
+
+/**
+ * Walks the stages as segments of the profile, each with its start and end target.
+ */
+function getSegments(stages: TressiStageConfig[]): StageSegment[] {
+  let startSec = 0;
+  let previousRps = 0;
+
+  return stages.map((stage) => {
+    const segment = {
+      endSec: startSec + stage.durationSec,
+      fromRps: stage.interpolation === 'step' ? stage.rps : previousRps,
+      startSec,
+      toRps: stage.rps,
+    };
+    startSec = segment.endSec;
+    previousRps = stage.rps;
+    return segment;
+  });
+}
+
+function getSegmentRps(segment: StageSegment, elapsedSec: number): number {
+  const progress = (elapsedSec - segment.startSec) / (segment.endSec - segment.startSec);
+  return segment.fromRps + (segment.toRps - segment.fromRps) * progress;
+}
+
+/**
+ * Returns the target RPS of a load profile at a point in the test.
+ *
+ * @param stages - Stages of the profile, see {@link getEffectiveStages}
+ * @param elapsedSec - Time since the test started in seconds
+ * @returns The target RPS, holding the last stage target after the profile ends
+ */
+export function getTargetRps(stages: TressiStageConfig[], elapsedSec: number): number {
+  const segment = getSegments(stages).find((s) => elapsedSec < s.endSec);
+  if (segment) return getSegmentRps(segment, Math.max(elapsedSec, segment.startSec));
+  return stages.at(-1)?.rps ?? 0;
+}
+
+/**
+ * Returns the mean target RPS of a load profile between two points in the test.
+ * An empty window returns the target at its start.
+ */
+export function getAverageTargetRps(
+  stages: TressiStageConfig[],
+  fromSec: number,
+  toSec: number,
+): number {
+  if (toSec <= fromSec) return getTargetRps(stages, fromSec);
+
+  const segments = getSegments(stages);
+  let requests = 0;
+  for (const segment of segments) {
+    const startSec = Math.max(segment.startSec, fromSec);
+    const endSec = Math.min(segment.endSec, toSec);
+    if (endSec <= startSec) continue;
+    // The target moves linearly within a segment, so its mean is the mean of both ends
+    const meanRps = (getSegmentRps(segment, startSec) + getSegmentRps(segment, endSec)) / 2;
+    requests += meanRps * (endSec - startSec);
+  }
+
+  const profileEndSec = Math.max(segments.at(-1)?.endSec ?? 0, fromSec);
+  requests += (stages.at(-1)?.rps ?? 0) * Math.max(toSec - profileEndSec, 0);
+
+  return requests / (toSec - fromSec);
+}
+
+/**
+ * Returns when a load profile reaches steady state: after its first stage when that stage
+ * ramps linearly from zero, otherwise immediately.
+ */
+export function getSteadyStateStartSec(stages: TressiStageConfig[]): number {
+  const first = stages[0];
+  return first?.interpolation === 'linear' ? first.durationSec : 0;
+}
+
+/**
+ * Returns the end of each stage in seconds since the test started.
+ */
+export function getStageBoundariesSec(stages: TressiStageConfig[]): number[] {
+  return getSegments(stages).map((segment) => segment.endSec);
+}
+
+/**
+ * Returns the index of the stage running at a point in the test, or the number of stages
+ * once the profile has ended.
+ */
+export function getStageIndex(stages: TressiStageConfig[], elapsedSec: number): number {
+  const index = getStageBoundariesSec(stages).findIndex((endSec) => elapsedSec < endSec);
+  return index === -1 ? stages.length : index;
+}
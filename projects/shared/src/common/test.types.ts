@@ -35,6 +35,8 @@ export enum EndpointState {
   RUNNING = 1,
   STOPPED = 2,
   ERROR = 3,
+  /** Stopped by hand, can be started again while the test runs */
+  MANUALLY_STOPPED = 4,
 }
 
 /**
@@ -54,3 +56,13 @@ export type DeleteTestResponse = {
   success: boolean;
   metricsDeleted: number;
 };
+
+/**
+ * Rate change of a running test. The multiplier scales the configured load profile of every
+ * endpoint. Endpoint RPS fixes the rate of single requests or scenarios by key, regardless of the
+ * multiplier, and `null` returns them to their load profile.
+ */
+export type TestRateChange = {
+  multiplier?: number;
+  endpointRps?: Record<string, number | null>;
+};
@@ -1,4 +1,5 @@
 import type {
+  ApexAnnotations,
   ApexAxisChartSeries,
   ApexChart,
   ApexDataLabels,
@@ -23,11 +24,15 @@ export const CHART_TYPES = [
   'target_achieved',
   'peak_throughput',
   'average_throughput',
+  'active_vus',
+  'in_flight_requests',
+  'event_loop_lag',
   'latency',
 
   // Phase 1: Enhanced Latency
   'latency_p95',
   'latency_p99',
+  'latency_p99_corrected',
   'latency_min_max',
 
   // Phase 2: Error & Reliability
@@ -62,11 +67,15 @@ export const CHART_OPTIONS: ChartOption[] = [
   { label: 'Target Achieved', value: 'target_achieved' },
   { label: 'Peak RPS', value: 'peak_throughput' },
   { label: 'Average RPS', value: 'average_throughput' },
+  { label: 'Active VUs', value: 'active_vus' },
+  { label: 'In-Flight Requests', value: 'in_flight_requests' },
+  { label: 'Event Loop Lag', value: 'event_loop_lag' },
 
   // Latency Category
   { label: 'P50 Latency', value: 'latency' },
   { label: 'P95 Latency', value: 'latency_p95' },
   { label: 'P99 Latency', value: 'latency_p99' },
+  { label: 'Corrected P99 Latency', value: 'latency_p99_corrected' },
 
   // Reliability Category
   { label: 'Success Rate', value: 'success_rate' },
@@ -98,6 +107,15 @@ export type ChartData = {
   labels: number[];
 };
 
+/**
+ * Vertical marker on the time axis of a line chart, such as the start of a load profile stage
+ */
+export type ChartAnnotation = {
+  /** Epoch in milliseconds */
+  x: number;
+  label: string;
+};
+
 /**
  * Polling interval options for realtime updates
  */
@@ -145,6 +163,7 @@ export type ChartEventData = {
  * Configuration options for line charts
  */
 export type LineChartOptions = {
+  annotations: ApexAnnotations;
   series: ApexAxisChartSeries;
   chart: ApexChart;
   dataLabels: ApexDataLabels;
@@ -28,6 +28,7 @@ export type IconName =
   | 'error'
   | 'expand_all'
   | 'file_save'
+  | 'group'
   | 'health_and_safety'
   | 'help_outline'
   | 'inbox'
@@ -41,6 +42,7 @@ export type IconName =
   | 'memory'
   | 'network_check'
   | 'palette'
+  | 'pause_circle'
   | 'play_circle'
   | 'post_add'
   | 'reset_focus'
@@ -55,6 +57,7 @@ export type IconName =
   | 'stat_1'
   | 'stat_2'
   | 'stat_3'
+  | 'stop_circle'
   | 'tag'
   | 'text_snippet'
   | 'thunderstorm'
@@ -1,5 +1,5 @@
 import type { MetricDocument, TestDocument } from '../common';
-import type { TestSummary } from '../common/reporting.types';
+import type { NegotiatedTls, ResponseSampleCookies, TestSummary } from '../common/reporting.types';
 
 /**
  * Test-related UI types for shared use
@@ -12,6 +12,9 @@ export type ResponseSample = {
   statusCode: number;
   headers: Record<string, string>;
   body: string;
+  cookies?: ResponseSampleCookies;
+  tls?: NegotiatedTls;
+  graphqlErrors?: string[];
 };
 
 /**
@@ -26,11 +29,22 @@ export type TestSummaryData = {
  * Standardized tooltips for performance metrics
  */
 export const METRIC_TOOLTIPS: Record<string, string> = {
+  activeVus: 'Highest number of virtual users running at the same time',
   avgRps: 'Average requests per second throughout the test',
+  correctedLatency:
+    'Latency measured from when each request was scheduled to start, including any time it waited for the load generator',
   cpuUsage: 'Average system CPU utilization during the test (Warning: >70%, Critical: >85%)',
+  droppedRequests: 'Scheduled requests skipped because the load generator fell too far behind',
   duration: 'Total duration of the test from start to completion',
   endpoints: 'Number of unique endpoints tested',
   errorRate: 'Percentage of requests that failed (non-2xx or network errors)',
+  eventLoopLag:
+    'Longest event loop delay of any worker in a one second interval; a busy worker sends requests late no matter how fast the target is (Warning: >=20ms, Critical: >=50ms)',
+  generatorSaturated:
+    'Requests missed their schedule while a worker event loop lagged 50ms or more, so the load generator rather than the target limited throughput',
+  inFlightRequests:
+    'Highest number of requests waiting for a response at the same time, across all workers',
+  lateRequests: 'Requests that started more than 10ms after their scheduled time',
   maxLatency: 'Maximum response time observed during the test (slowest)',
   maxThroughput: 'Theoretical maximum RPS based on average latency',
   memoryUsage:
@@ -44,7 +58,10 @@ export const METRIC_TOOLTIPS: Record<string, string> = {
   p99Latency: '99th percentile - 99% of requests were faster than this (slower)',
   peakRps: 'Highest instantaneous requests per second achieved during steady-state',
   targetAchieved: 'Percentage of target RPS that was actually achieved',
+  tokenRequests:
+    'OAuth2 token requests sent for auth, which are not counted in the endpoint requests or latencies',
   totalRequests: 'Total number of requests made during the test',
+  workerHeap: 'Highest heap usage of all worker threads combined during the test',
 };
 
 /**
@@ -33,6 +33,8 @@ describe('ConfigCardComponent', () => {
       },
       requests: [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -44,6 +46,9 @@ describe('ConfigCardComponent', () => {
           payload: {},
           rampUpDurationSec: 5,
           rps: 10,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'http://test.com',
         },
       ],
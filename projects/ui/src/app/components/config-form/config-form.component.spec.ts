@@ -17,6 +17,8 @@ describe('ConfigFormComponent', () => {
       ...defaultTressiConfig,
       requests: [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0.5,
@@ -28,6 +30,9 @@ describe('ConfigFormComponent', () => {
           payload: {},
           rampUpDurationSec: 0,
           rps: 10,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'http://example.com',
         },
       ],
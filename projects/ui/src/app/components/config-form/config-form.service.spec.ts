@@ -41,11 +41,24 @@ describe('ConfigFormService', () => {
       const config = {
         config: {
           $schema: 'https://example.com/schema',
+          grpc: [],
           options: {
             durationSec: 60,
+            executor: {
+              arrival: 'constant' as const,
+              maxInFlight: 1000,
+              pipelineDepth: 15,
+              thinkTime: { distribution: 'constant' as const, maxMs: 0, minMs: 0 },
+              type: 'fixedRps' as const,
+              vuRampUpSec: 0,
+              vus: 10,
+            },
             headers: {},
             rampUpDurationSec: 10,
+            stages: [],
             threads: 4,
+            thresholds: [],
+            timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
             workerEarlyExit: {
               enabled: false,
               errorRateThreshold: 1,
@@ -56,6 +69,8 @@ describe('ConfigFormService', () => {
           },
           requests: [
             {
+              bodyType: 'json' as const,
+              checks: [],
               earlyExit: {
                 enabled: true,
                 errorRateThreshold: 5,
@@ -67,9 +82,15 @@ describe('ConfigFormService', () => {
               payload: { key: 'value' },
               rampUpDurationSec: 5,
               rps: 10,
+              sendBody: true,
+              stages: [],
+              thresholds: [],
               url: 'https://api.example.com/endpoint',
             },
           ],
+          scenarios: [],
+          streams: [],
+          websockets: [],
         },
         name: 'Loaded Config',
       };
@@ -98,6 +119,8 @@ describe('ConfigFormService', () => {
           requests: [
             ...m.config.requests,
             {
+              bodyType: 'json',
+              checks: [],
               earlyExit: {
                 enabled: false,
                 errorRateThreshold: 1,
@@ -109,6 +132,9 @@ describe('ConfigFormService', () => {
               payload: {},
               rampUpDurationSec: 0,
               rps: 1,
+              sendBody: true,
+              stages: [],
+              thresholds: [],
               url: 'https://another.com',
             },
           ],
@@ -228,6 +254,38 @@ describe('ConfigFormService', () => {
     });
   });
 
+  describe('setRequestBodyType', () => {
+    it('should set the body type and reset the payload to match it', () => {
+      service.setRequestPayload(0, { key: 'value' });
+
+      service.setRequestBodyType(0, 'text');
+      expect(service.model().config.requests[0]?.bodyType).toBe('text');
+      expect(service.model().config.requests[0]?.payload).toBe('');
+
+      service.setRequestBodyType(0, 'form');
+      expect(service.model().config.requests[0]?.bodyType).toBe('form');
+      expect(service.model().config.requests[0]?.payload).toEqual({});
+    });
+  });
+
+  describe('setRequestPayload', () => {
+    it('should replace the payload of a specific request', () => {
+      service.setRequestPayload(0, '<user>ada</user>');
+
+      expect(service.model().config.requests[0]?.payload).toBe('<user>ada</user>');
+    });
+  });
+
+  describe('setRequestName', () => {
+    it('should set the name and drop it again when cleared', () => {
+      service.setRequestName(0, 'create user');
+      expect(service.model().config.requests[0]?.name).toBe('create user');
+
+      service.setRequestName(0, '  ');
+      expect(service.model().config.requests[0]).not.toHaveProperty('name');
+    });
+  });
+
   describe('onJsonTextAreaChange', () => {
     it('should trigger model update without changing values', () => {
       const originalModel = service.model();
@@ -173,6 +173,64 @@ export class ConfigFormService {
     });
   }
 
+  setRequestBodyType(requestIndex: number, bodyType: TressiRequestConfig['bodyType']): void {
+    this.model.update((model) => {
+      const updatedRequests = [...(model.config.requests ?? [])];
+      if (updatedRequests[requestIndex]) {
+        updatedRequests[requestIndex] = {
+          ...updatedRequests[requestIndex],
+          bodyType,
+          // Reset the payload, the previous one rarely fits the new body type
+          payload: bodyType === 'text' ? '' : {},
+        };
+      }
+      return {
+        ...model,
+        config: {
+          ...model.config,
+          requests: updatedRequests,
+        },
+      };
+    });
+  }
+
+  setRequestPayload(requestIndex: number, payload: TressiRequestConfig['payload']): void {
+    this.model.update((model) => {
+      const updatedRequests = [...(model.config.requests ?? [])];
+      if (updatedRequests[requestIndex]) {
+        updatedRequests[requestIndex] = {
+          ...updatedRequests[requestIndex],
+          payload,
+        };
+      }
+      return {
+        ...model,
+        config: {
+          ...model.config,
+          requests: updatedRequests,
+        },
+      };
+    });
+  }
+
+  setRequestName(requestIndex: number, name: string): void {
+    this.model.update((model) => {
+      const updatedRequests = [...(model.config.requests ?? [])];
+      if (updatedRequests[requestIndex]) {
+        // A blank name falls back to the method and URL as the endpoint key
+        const { name: _name, ...request } = updatedRequests[requestIndex];
+        updatedRequests[requestIndex] = name.trim() ? { ...request, name } : request;
+      }
+      return {
+        ...model,
+        config: {
+          ...model.config,
+          requests: updatedRequests,
+        },
+      };
+    });
+  }
+
   private _createEmptyConfig(): SaveConfigRequest {
     const config = defaultTressiConfig;
     config.requests = [{ ...requestDefaults }];
@@ -54,6 +54,19 @@ describe('GeneralConfigComponent', () => {
   it('should have default collapsed states', () => {
     expect(component.engineSettingsCollapsed()).toBe(true);
     expect(component.globalDefaultsCollapsed()).toBe(true);
+    expect(component.loadModelCollapsed()).toBe(true);
+  });
+
+  it('should label every executor type, arrival and think time distribution', () => {
+    for (const type of component.executorTypes) {
+      expect(component.executorTypeLabels[type]).toBeTruthy();
+    }
+    for (const arrival of component.arrivalTypes) {
+      expect(component.arrivalTypeLabels[arrival]).toBeTruthy();
+    }
+    for (const distribution of component.thinkTimeDistributions) {
+      expect(component.thinkTimeDistributionLabels[distribution]).toBeTruthy();
+    }
   });
 
   it('should call onJsonTextareaValueChange on the service', () => {
@@ -1,6 +1,13 @@
 import { Component, inject, input, signal } from '@angular/core';
 import { FormField } from '@angular/forms/signals';
-import type { SaveConfigRequest } from '@tressi/shared/common';
+import {
+  arrivalDefaults,
+  executorTypeDefaults,
+  type SaveConfigRequest,
+  type TressiExecutorConfig,
+  type TressiThinkTimeConfig,
+  thinkTimeDistributionDefaults,
+} from '@tressi/shared/common';
 import type { ModifyConfigRequestFormType } from '@tressi/shared/ui';
 import { PreventNumberScrollDirective } from '../../../directives/prevent-number-scroll.directive';
 import { CollapsibleCardComponent } from '../../collapsible-card/collapsible-card.component';
@@ -32,6 +39,30 @@ export class GeneralConfigComponent {
 
   readonly globalDefaultsCollapsed = signal(true);
 
+  readonly loadModelCollapsed = signal(true);
+
+  readonly executorTypes = executorTypeDefaults;
+
+  readonly executorTypeLabels: Record<TressiExecutorConfig['type'], string> = {
+    fixedRps: 'Fixed RPS',
+    virtualUsers: 'Virtual Users',
+  };
+
+  readonly arrivalTypes = arrivalDefaults;
+
+  readonly arrivalTypeLabels: Record<TressiExecutorConfig['arrival'], string> = {
+    constant: 'Constant',
+    poisson: 'Poisson',
+  };
+
+  readonly thinkTimeDistributions = thinkTimeDistributionDefaults;
+
+  readonly thinkTimeDistributionLabels: Record<TressiThinkTimeConfig['distribution'], string> = {
+    constant: 'Constant',
+    exponential: 'Exponential',
+    uniform: 'Uniform',
+  };
+
   onJsonTextareaValueChange(): void {
     this._service.onJsonTextAreaChange();
   }
@@ -19,6 +19,9 @@ describe('RequestsConfigComponent', () => {
     removeRequest: ReturnType<typeof vi.fn>;
     addRequestExitStatusCode: ReturnType<typeof vi.fn>;
     removeRequestExitStatusCode: ReturnType<typeof vi.fn>;
+    setRequestBodyType: ReturnType<typeof vi.fn>;
+    setRequestPayload: ReturnType<typeof vi.fn>;
+    setRequestName: ReturnType<typeof vi.fn>;
   };
 
   const mockModel: SaveConfigRequest = {
@@ -26,6 +29,8 @@ describe('RequestsConfigComponent', () => {
       ...defaultTressiConfig,
       requests: [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0.5,
@@ -37,6 +42,9 @@ describe('RequestsConfigComponent', () => {
           payload: {},
           rampUpDurationSec: 0,
           rps: 10,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'http://example.com',
         },
       ],
@@ -51,6 +59,9 @@ describe('RequestsConfigComponent', () => {
       onJsonTextAreaChange: vi.fn(),
       removeRequest: vi.fn(),
       removeRequestExitStatusCode: vi.fn(),
+      setRequestBodyType: vi.fn(),
+      setRequestName: vi.fn(),
+      setRequestPayload: vi.fn(),
     };
 
     await TestBed.configureTestingModule({
@@ -85,12 +96,16 @@ describe('RequestsConfigComponent', () => {
     expect(component.isRequestExpanded(0)).toBe(true);
   });
 
-  it('should identify methods that support request body', () => {
-    expect(component.supportsRequestBody('POST')).toBe(true);
-    expect(component.supportsRequestBody('PUT')).toBe(true);
-    expect(component.supportsRequestBody('PATCH')).toBe(true);
-    expect(component.supportsRequestBody('GET')).toBe(false);
-    expect(component.supportsRequestBody('DELETE')).toBe(false);
+  it('should offer the common HTTP methods', () => {
+    expect(component.httpMethods).toEqual([
+      'GET',
+      'HEAD',
+      'POST',
+      'PUT',
+      'PATCH',
+      'DELETE',
+      'OPTIONS',
+    ]);
   });
 
   it('should call service methods for add/remove request', () => {
@@ -113,4 +128,22 @@ describe('RequestsConfigComponent', () => {
     component.onJsonTextareaValueChange();
     expect(mockService.onJsonTextAreaChange).toHaveBeenCalled();
   });
+
+  it('should forward body type and text payload changes to the service', () => {
+    component.onBodyTypeChange(0, { target: { value: 'multipart' } } as unknown as Event);
+    expect(mockService.setRequestBodyType).toHaveBeenCalledWith(0, 'multipart');
+
+    component.onTextPayloadChange(0, { target: { value: '<a/>' } } as unknown as Event);
+    expect(mockService.setRequestPayload).toHaveBeenCalledWith(0, '<a/>');
+  });
+
+  it('should forward name changes to the service', () => {
+    component.onNameChange(1, { target: { value: 'create user' } } as unknown as Event);
+    expect(mockService.setRequestName).toHaveBeenCalledWith(1, 'create user');
+  });
+
+  it('should only show string payloads in the text editor', () => {
+    expect(component.getTextPayload('<a/>')).toBe('<a/>');
+    expect(component.getTextPayload({ key: 'value' })).toBe('');
+  });
 });
@@ -10,7 +10,12 @@ import {
   viewChildren,
 } from '@angular/core';
 import { FormField } from '@angular/forms/signals';
-import { httpMethodDefaults, type SaveConfigRequest } from '@tressi/shared/common';
+import {
+  bodyTypeDefaults,
+  httpMethodDefaults,
+  type SaveConfigRequest,
+  type TressiRequestConfig,
+} from '@tressi/shared/common';
 import type { ModifyConfigRequestFormType } from '@tressi/shared/ui';
 import { PreventNumberScrollDirective } from '../../../directives/prevent-number-scroll.directive';
 import { ButtonComponent } from '../../button/button.component';
@@ -113,9 +118,39 @@ export class RequestsConfigComponent implements AfterViewInit, OnChanges {
 
   readonly httpMethods = httpMethodDefaults;
 
-  supportsRequestBody(method: string): boolean {
-    const bodyMethods = ['POST', 'PUT', 'PATCH'];
-    return bodyMethods.includes(method.toUpperCase());
+  readonly bodyTypes = bodyTypeDefaults;
+
+  readonly bodyTypeLabels: Record<TressiRequestConfig['bodyType'], string> = {
+    binary: 'Binary File',
+    form: 'Form (URL Encoded)',
+    json: 'JSON',
+    multipart: 'Multipart Form',
+    text: 'Raw Text',
+  };
+
+  readonly payloadPlaceholders: Record<TressiRequestConfig['bodyType'], string> = {
+    binary: '{"file": "./payload.bin", "contentType": "application/octet-stream"}',
+    form: '{"username": "ada", "remember": true}',
+    json: '{"key": "value", "array": [1, 2, 3]}',
+    multipart: '{"name": "ada", "avatar": {"file": "./avatar.png", "contentType": "image/png"}}',
+    text: '<user><name>ada</name></user>',
+  };
+
+  onBodyTypeChange(requestIndex: number, event: Event): void {
+    const bodyType = (event.target as HTMLSelectElement).value as TressiRequestConfig['bodyType'];
+    this._service.setRequestBodyType(requestIndex, bodyType);
+  }
+
+  onNameChange(requestIndex: number, event: Event): void {
+    this._service.setRequestName(requestIndex, (event.target as HTMLInputElement).value);
+  }
+
+  onTextPayloadChange(requestIndex: number, event: Event): void {
+    this._service.setRequestPayload(requestIndex, (event.target as HTMLTextAreaElement).value);
+  }
+
+  getTextPayload(payload: TressiRequestConfig['payload']): string {
+    return typeof payload === 'string' ? payload : '';
   }
 
   private _focusLastUrlInput(): void {
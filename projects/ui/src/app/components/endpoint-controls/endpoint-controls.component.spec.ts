@@ -0,0 +1,43 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import type { EndpointSummary } from '@tressi/shared/common';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EndpointControlsComponent } from './endpoint-controls.component';
+
+describe('EndpointControlsComponent', () => {
+  let component: EndpointControlsComponent;
+  let fixture: ComponentFixture<EndpointControlsComponent>;
+
+  const running = { key: 'GET /users', url: 'https://api.example.com/users' } as EndpointSummary;
+  const stopped = {
+    key: 'POST /orders',
+    manuallyStopped: true,
+    url: 'https://api.example.com/orders',
+  } as EndpointSummary;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EndpointControlsComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(EndpointControlsComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('endpoints', [running, stopped]);
+    fixture.detectChanges();
+  });
+
+  it('should list every endpoint', () => {
+    expect(fixture.nativeElement.querySelectorAll('tbody tr').length).toBe(2);
+  });
+
+  it('should stop running endpoints and start endpoints stopped by hand', () => {
+    const stopSpy = vi.spyOn(component.stopEndpoint, 'emit');
+    const startSpy = vi.spyOn(component.startEndpoint, 'emit');
+
+    component.toggleEndpoint(running);
+    component.toggleEndpoint(stopped);
+
+    expect(stopSpy).toHaveBeenCalledWith('GET /users');
+    expect(startSpy).toHaveBeenCalledWith('POST /orders');
+  });
+});
@@ -0,0 +1,34 @@
+import { Component, input, output } from '@angular/core';
+import type { EndpointSummary } from '@tressi/shared/common';
+
+import { ButtonComponent } from '../button/button.component';
+
+/**
+ * Lists the endpoints of a running test with buttons to stop them by hand and start them again
+ */
+@Component({
+  imports: [ButtonComponent],
+  selector: 'app-endpoint-controls',
+  templateUrl: './endpoint-controls.component.html',
+})
+export class EndpointControlsComponent {
+  /** Endpoints of the running test */
+  readonly endpoints = input<EndpointSummary[]>([]);
+
+  /** Emits the key of an endpoint to stop */
+  readonly stopEndpoint = output<string>();
+
+  /** Emits the key of an endpoint stopped by hand to start again */
+  readonly startEndpoint = output<string>();
+
+  /**
+   * Stop a running endpoint or start one that was stopped by hand
+   */
+  toggleEndpoint(endpoint: EndpointSummary): void {
+    if (endpoint.manuallyStopped) {
+      this.startEndpoint.emit(endpoint.key);
+    } else {
+      this.stopEndpoint.emit(endpoint.key);
+    }
+  }
+}
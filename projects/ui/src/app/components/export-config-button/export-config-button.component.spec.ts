@@ -25,6 +25,8 @@ describe('ExportConfigButtonComponent', () => {
       },
       requests: [
         {
+          bodyType: 'json',
+          checks: [],
           earlyExit: {
             enabled: false,
             errorRateThreshold: 0,
@@ -36,6 +38,9 @@ describe('ExportConfigButtonComponent', () => {
           payload: {},
           rampUpDurationSec: 5,
           rps: 10,
+          sendBody: true,
+          stages: [],
+          thresholds: [],
           url: 'https://example.com/api',
         },
       ],
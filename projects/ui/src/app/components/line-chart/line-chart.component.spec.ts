@@ -138,6 +138,16 @@ describe('LineChartComponent', () => {
     ]);
   });
 
+  it('should draw annotations as labelled lines on the time axis', () => {
+    fixture.componentRef.setInput('annotations', [{ label: 'Stage 2', x: 2000 }]);
+    fixture.detectChanges();
+
+    const xaxis = component.chartOptions().annotations.xaxis ?? [];
+    expect(xaxis).toHaveLength(1);
+    expect(xaxis[0].x).toBe(2000);
+    expect(xaxis[0].label?.text).toBe('Stage 2');
+  });
+
   it('should handle chart click and set as master', () => {
     fixture.componentRef.setInput('chartId', 'test-chart');
     fixture.detectChanges();
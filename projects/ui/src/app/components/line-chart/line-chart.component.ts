@@ -9,7 +9,7 @@ import {
   viewChild,
 } from '@angular/core';
 import { formatCompactNumber } from '@tressi/shared/common';
-import type { ChartEventData, LineChartOptions } from '@tressi/shared/ui';
+import type { ChartAnnotation, ChartEventData, LineChartOptions } from '@tressi/shared/ui';
 import { type ApexAxisChartSeries, type ChartComponent, NgApexchartsModule } from 'ng-apexcharts';
 
 import { ChartSyncService } from '../../services/chart-sync.service';
@@ -46,6 +46,7 @@ export class LineChartComponent {
   readonly smoothCurve = input<boolean>(true);
   readonly chartId = input<string>();
   readonly testTimeRange = input<{ min: number; max: number } | null>(null);
+  readonly annotations = input<ChartAnnotation[]>([]);
 
   readonly chartClick = output<ChartEventData>();
   readonly chartMouseMove = output<ChartEventData>();
@@ -119,6 +120,7 @@ export class LineChartComponent {
     const smoothCurve = this.smoothCurve();
     const title = this.title();
     const yAxisLabel = this.yAxisLabel();
+    const annotations = this.annotations();
 
     // Calculate data boundaries for x-axis constraints using effective initial state
     const effectiveState = this._effectiveInitialState();
@@ -165,6 +167,23 @@ export class LineChartComponent {
     const selectSvg = IconComponent.asHtml('select');
 
     return {
+      annotations: {
+        xaxis: annotations.map((annotation) => ({
+          borderColor: themeColors.secondary,
+          label: {
+            borderColor: themeColors.secondary,
+            style: {
+              background: themeColors.secondary,
+              color: themeColors.background,
+              fontFamily: 'Roboto Mono, monospace',
+              fontSize: '11px',
+            },
+            text: annotation.label,
+          },
+          strokeDashArray: 4,
+          x: annotation.x,
+        })),
+      },
       chart: {
         background: themeColors.background,
         events: {
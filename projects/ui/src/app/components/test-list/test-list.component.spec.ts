@@ -1,6 +1,8 @@
 import { TestBed } from '@angular/core/testing';
 import type {
   ConfigDocument,
+  EndpointEventData,
+  EndpointSummary,
   GlobalSummary,
   LatencyHistogram,
   TestDocument,
@@ -30,16 +32,26 @@ const createMockHistogram = (): LatencyHistogram => ({
 });
 
 const createMockGlobalSummary = (overrides: Partial<GlobalSummary> = {}): GlobalSummary => ({
+  activeVus: 0,
   averageRequestsPerSecond: 16.67,
   avgProcessMemoryUsageMB: 128,
   avgSystemCpuUsagePercent: 45,
+  correctedP50LatencyMs: 50,
+  correctedP95LatencyMs: 200,
+  correctedP99LatencyMs: 400,
+  droppedRequests: 0,
   earlyExitTriggered: false,
   epochEndedAt: Date.now(),
   epochStartedAt: Date.now() - 60000,
   errorRate: 0.05,
+  eventLoopLagMs: 0,
   failedRequests: 50,
   finalDurationSec: 60,
+  generatorSaturated: false,
+  heapUsedMB: 0,
   histogram: createMockHistogram(),
+  inFlightRequests: 0,
+  lateRequests: 0,
   maxLatencyMs: 500,
   minLatencyMs: 10,
   networkBytesPerSec: 83.33,
@@ -53,17 +65,33 @@ const createMockGlobalSummary = (overrides: Partial<GlobalSummary> = {}): Global
   targetAchieved: 0.85,
   totalEndpoints: 1,
   totalRequests: 1000,
+  workerEventLoopLagMs: [],
+  workerHeapUsedMB: [],
+  workerInFlightRequests: [],
   ...overrides,
 });
 
 const createMockSummary = (overrides: Partial<TestSummary> = {}): TestSummary => ({
   configSnapshot: {
     $schema: 'https://json-schema.org/draft-07/schema#',
+    grpc: [],
     options: {
       durationSec: 60,
+      executor: {
+        arrival: 'constant',
+        maxInFlight: 1000,
+        pipelineDepth: 15,
+        thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+        type: 'fixedRps',
+        vuRampUpSec: 0,
+        vus: 10,
+      },
       headers: {},
       rampUpDurationSec: 0,
+      stages: [],
       threads: 1,
+      thresholds: [],
+      timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
       workerEarlyExit: {
         enabled: false,
         errorRateThreshold: 5,
@@ -73,6 +101,9 @@ const createMockSummary = (overrides: Partial<TestSummary> = {}): TestSummary =>
       workerMemoryLimit: 512,
     },
     requests: [],
+    scenarios: [],
+    streams: [],
+    websockets: [],
   },
   endpoints: [],
   global: createMockGlobalSummary(),
@@ -95,11 +126,24 @@ const createMockTest = (
 const mockConfig: ConfigDocument = {
   config: {
     $schema: 'https://json-schema.org/draft-07/schema#',
+    grpc: [],
     options: {
       durationSec: 60,
+      executor: {
+        arrival: 'constant',
+        maxInFlight: 1000,
+        pipelineDepth: 15,
+        thinkTime: { distribution: 'constant', maxMs: 0, minMs: 0 },
+        type: 'fixedRps',
+        vuRampUpSec: 0,
+        vus: 10,
+      },
       headers: {},
       rampUpDurationSec: 0,
+      stages: [],
       threads: 1,
+      thresholds: [],
+      timeouts: { connectMs: 10000, headersMs: 30000, totalMs: 60000 },
       workerEarlyExit: {
         enabled: false,
         errorRateThreshold: 5,
@@ -109,6 +153,9 @@ const mockConfig: ConfigDocument = {
       workerMemoryLimit: 512,
     },
     requests: [],
+    scenarios: [],
+    streams: [],
+    websockets: [],
   },
   epochCreatedAt: Date.now(),
   epochUpdatedAt: Date.now(),
@@ -121,8 +168,11 @@ describe('TestListComponent', () => {
   let testServiceMock: {
     getTestsByConfigId: ReturnType<typeof vi.fn>;
     getTestById: ReturnType<typeof vi.fn>;
+    startEndpoint: ReturnType<typeof vi.fn>;
+    stopEndpoint: ReturnType<typeof vi.fn>;
   };
   let eventServiceMock: {
+    getEndpointEventsStream: ReturnType<typeof vi.fn>;
     getMetricsStream: ReturnType<typeof vi.fn>;
     getTestEventsStream: ReturnType<typeof vi.fn>;
   };
@@ -154,17 +204,22 @@ describe('TestListComponent', () => {
   };
   let metricsSubject: Subject<{ testSummary: TestSummary }>;
   let testEventsSubject: Subject<TestEventData>;
+  let endpointEventsSubject: Subject<EndpointEventData>;
 
   beforeEach(async () => {
     metricsSubject = new Subject();
     testEventsSubject = new Subject();
+    endpointEventsSubject = new Subject();
 
     testServiceMock = {
       getTestById: vi.fn().mockResolvedValue(null),
       getTestsByConfigId: vi.fn().mockResolvedValue([]),
+      startEndpoint: vi.fn().mockResolvedValue(undefined),
+      stopEndpoint: vi.fn().mockResolvedValue(undefined),
     };
 
     eventServiceMock = {
+      getEndpointEventsStream: vi.fn().mockReturnValue(endpointEventsSubject.asObservable()),
       getMetricsStream: vi.fn().mockReturnValue(metricsSubject.asObservable()),
       getTestEventsStream: vi.fn().mockReturnValue(testEventsSubject.asObservable()),
     };
@@ -310,6 +365,39 @@ describe('TestListComponent', () => {
     });
   });
 
+  describe('endpoint controls', () => {
+    const endpointKey = 'GET https://api.example.com/users';
+
+    it('should stop and start endpoints of the running test', async () => {
+      await component.stopEndpoint(endpointKey);
+      await component.startEndpoint(endpointKey);
+
+      expect(testServiceMock.stopEndpoint).toHaveBeenCalledWith(endpointKey);
+      expect(testServiceMock.startEndpoint).toHaveBeenCalledWith(endpointKey);
+    });
+
+    it('should mark endpoints of the running test from endpoint events', async () => {
+      testServiceMock.getTestsByConfigId.mockResolvedValue([createMockTest('test-1', 'running')]);
+      await component.loadTests();
+      metricsSubject.next({
+        testSummary: createMockSummary({ endpoints: [{ key: endpointKey } as EndpointSummary] }),
+      });
+
+      endpointEventsSubject.next({ endpointKey, stopped: true, testId: 'test-1', timestamp: 1000 });
+
+      expect(component.runningTest()?.summary?.endpoints[0].manuallyStopped).toBe(true);
+    });
+
+    it('should log failures to stop an endpoint', async () => {
+      const error = new Error('Stop failed');
+      testServiceMock.stopEndpoint.mockRejectedValue(error);
+
+      await component.stopEndpoint(endpointKey);
+
+      expect(logServiceMock.error).toHaveBeenCalledWith('Failed to stop endpoint:', error);
+    });
+  });
+
   describe('column management', () => {
     it('should toggle column', () => {
       component.toggleColumn('totalRequests');
@@ -13,6 +13,7 @@ import {
 import { RouterModule } from '@angular/router';
 import type {
   ConfigDocument,
+  EndpointEventData,
   TestDocument,
   TestEventData,
   TestSummary,
@@ -26,6 +27,7 @@ import { AppRouterService } from '../../services/router.service';
 import { TestService } from '../../services/test.service';
 import { ButtonComponent } from '../button/button.component';
 import { DeleteConfirmationModalComponent } from '../delete-confirmation-modal/delete-confirmation-modal.component';
+import { EndpointControlsComponent } from '../endpoint-controls/endpoint-controls.component';
 import { IconComponent } from '../icon/icon.component';
 import { StartButtonComponent } from '../start-button/start-button.component';
 import { ColumnSelectorComponent } from './column-selector/column-selector.component';
@@ -43,6 +45,7 @@ import { TestTableComponent } from './test-table/test-table.component';
     DeleteConfirmationModalComponent,
     StartButtonComponent,
     ButtonComponent,
+    EndpointControlsComponent,
   ],
   selector: 'app-test-list',
   styleUrl: './test-list.component.css',
@@ -84,6 +87,9 @@ export class TestListComponent implements OnChanges, OnInit, OnDestroy {
   readonly errorMessage = computed(() => this._error());
   readonly hasTests = computed(() => this._tests().length > 0);
   readonly pageTitle = computed(() => `Test History - ${this.configName()}`);
+  readonly runningTest = computed(
+    () => this._tests().find((test) => test.status === 'running') ?? null,
+  );
 
   // Expose service signals and computed values
   readonly visibleColumns = this._columnsService.visibleColumns;
@@ -104,10 +110,12 @@ export class TestListComponent implements OnChanges, OnInit, OnDestroy {
 
   private _metricsSubscription?: Subscription;
   private _testEventsSubscription?: Subscription;
+  private _endpointEventsSubscription?: Subscription;
 
   ngOnInit(): void {
     this._subscribeToMetrics();
     this._subscribeToTestEvents();
+    this._subscribeToEndpointEvents();
   }
 
   ngOnChanges(changes: SimpleChanges): void {
@@ -152,6 +160,28 @@ export class TestListComponent implements OnChanges, OnInit, OnDestroy {
     this._logService.error('Failed to start test:', error);
   }
 
+  /**
+   * Stops an endpoint of the running test by hand
+   */
+  async stopEndpoint(endpointKey: string): Promise<void> {
+    try {
+      await this._testService.stopEndpoint(endpointKey);
+    } catch (error) {
+      this._logService.error('Failed to stop endpoint:', error);
+    }
+  }
+
+  /**
+   * Starts an endpoint of the running test that was stopped by hand
+   */
+  async startEndpoint(endpointKey: string): Promise<void> {
+    try {
+      await this._testService.startEndpoint(endpointKey);
+    } catch (error) {
+      this._logService.error('Failed to start endpoint:', error);
+    }
+  }
+
   // Column management - delegate to service
   toggleColumn(key: string): void {
     this._columnsService.toggleColumn(key);
@@ -264,6 +294,17 @@ export class TestListComponent implements OnChanges, OnInit, OnDestroy {
     });
   }
 
+  private _subscribeToEndpointEvents(): void {
+    this._endpointEventsSubscription = this._eventService.getEndpointEventsStream().subscribe({
+      error: (error: Error) => {
+        this._logService.error('Endpoint events stream error:', error);
+      },
+      next: (event: EndpointEventData) => {
+        this._updateEndpointState(event);
+      },
+    });
+  }
+
   private async _handleTestEvent(event: TestEventData): Promise<void> {
     if (event.status === 'completed' || event.status === 'failed' || event.status === 'cancelled') {
       await this._refreshTest(event.testId);
@@ -302,9 +343,30 @@ export class TestListComponent implements OnChanges, OnInit, OnDestroy {
     });
   }
 
+  private _updateEndpointState(event: EndpointEventData): void {
+    this._tests.update((tests) =>
+      tests.map((test) =>
+        test.id === event.testId && test.summary
+          ? {
+              ...test,
+              summary: {
+                ...test.summary,
+                endpoints: test.summary.endpoints.map((endpoint) =>
+                  endpoint.key === event.endpointKey
+                    ? { ...endpoint, manuallyStopped: event.stopped }
+                    : endpoint,
+                ),
+              },
+            }
+          : test,
+      ),
+    );
+  }
+
   ngOnDestroy(): void {
     this._metricsSubscription?.unsubscribe();
     this._testEventsSubscription?.unsubscribe();
+    this._endpointEventsSubscription?.unsubscribe();
   }
 
   private _sortTests(
@@ -133,16 +133,26 @@ describe('TestTableComponent', () => {
           configSnapshot: {} as TestSummary['configSnapshot'],
           endpoints: [],
           global: {
+            activeVus: 0,
             averageRequestsPerSecond: 100,
             avgProcessMemoryUsageMB: 0,
             avgSystemCpuUsagePercent: 0,
+            correctedP50LatencyMs: 0,
+            correctedP95LatencyMs: 0,
+            correctedP99LatencyMs: 0,
+            droppedRequests: 0,
             earlyExitTriggered: false,
             epochEndedAt: 7000,
             epochStartedAt: 1000,
             errorRate: 0,
+            eventLoopLagMs: 0,
             failedRequests: 0,
             finalDurationSec: 120,
+            generatorSaturated: false,
+            heapUsedMB: 0,
             histogram: createHistogram(),
+            inFlightRequests: 0,
+            lateRequests: 0,
             maxLatencyMs: 100,
             minLatencyMs: 1,
             networkBytesPerSec: 0,
@@ -156,6 +166,9 @@ describe('TestTableComponent', () => {
             targetAchieved: 0,
             totalEndpoints: 1,
             totalRequests: 100,
+            workerEventLoopLagMs: [],
+            workerHeapUsedMB: [],
+            workerInFlightRequests: [],
           },
           tressiVersion: '1.0.0',
         },
@@ -175,16 +188,26 @@ describe('TestTableComponent', () => {
           configSnapshot: {} as TestSummary['configSnapshot'],
           endpoints: [],
           global: {
+            activeVus: 0,
             averageRequestsPerSecond: 100,
             avgProcessMemoryUsageMB: 0,
             avgSystemCpuUsagePercent: 0,
+            correctedP50LatencyMs: 0,
+            correctedP95LatencyMs: 0,
+            correctedP99LatencyMs: 0,
+            droppedRequests: 0,
             earlyExitTriggered: false,
             epochEndedAt: 7000,
             epochStartedAt: 1000,
             errorRate: 0,
+            eventLoopLagMs: 0,
             failedRequests: 0,
             finalDurationSec: undefined as unknown as number,
+            generatorSaturated: false,
+            heapUsedMB: 0,
             histogram: createHistogram(),
+            inFlightRequests: 0,
+            lateRequests: 0,
             maxLatencyMs: 100,
             minLatencyMs: 1,
             networkBytesPerSec: 0,
@@ -198,6 +221,9 @@ describe('TestTableComponent', () => {
             targetAchieved: 0,
             totalEndpoints: 1,
             totalRequests: 100,
+            workerEventLoopLagMs: [],
+            workerHeapUsedMB: [],
+            workerInFlightRequests: [],
           },
           tressiVersion: '1.0.0',
         },
@@ -219,16 +245,26 @@ describe('TestTableComponent', () => {
           configSnapshot: {} as TestSummary['configSnapshot'],
           endpoints: [],
           global: {
+            activeVus: 0,
             averageRequestsPerSecond: 100,
             avgProcessMemoryUsageMB: 0,
             avgSystemCpuUsagePercent: 0,
+            correctedP50LatencyMs: 0,
+            correctedP95LatencyMs: 0,
+            correctedP99LatencyMs: 0,
+            droppedRequests: 0,
             earlyExitTriggered: false,
             epochEndedAt: 7000,
             epochStartedAt: 1000,
             errorRate: 0,
+            eventLoopLagMs: 0,
             failedRequests: 0,
             finalDurationSec: undefined as unknown as number,
+            generatorSaturated: false,
+            heapUsedMB: 0,
             histogram: createHistogram(),
+            inFlightRequests: 0,
+            lateRequests: 0,
             maxLatencyMs: 100,
             minLatencyMs: 1,
             networkBytesPerSec: 0,
@@ -242,6 +278,9 @@ describe('TestTableComponent', () => {
             targetAchieved: 0,
             totalEndpoints: 1,
             totalRequests: 100,
+            workerEventLoopLagMs: [],
+            workerHeapUsedMB: [],
+            workerInFlightRequests: [],
           },
           tressiVersion: '1.0.0',
         },
@@ -29,6 +29,7 @@ describe('DashboardComponent', () => {
     savePreferences: ReturnType<typeof vi.fn>;
   };
   let mockEventService: {
+    getEndpointEventsStream: ReturnType<typeof vi.fn>;
     getTestEventsStream: ReturnType<typeof vi.fn>;
     getMetricsStream: ReturnType<typeof vi.fn>;
     getConnectedStream: ReturnType<typeof vi.fn>;
@@ -75,6 +76,7 @@ describe('DashboardComponent', () => {
     testEventsSubject = new Subject();
     mockEventService = {
       getConnectedStream: vi.fn().mockReturnValue(new Subject().asObservable()),
+      getEndpointEventsStream: vi.fn().mockReturnValue(new Subject().asObservable()),
       getErrorStream: vi.fn().mockReturnValue(new Subject().asObservable()),
       getMetricsStream: vi.fn().mockReturnValue(new Subject().asObservable()),
       getTestEventsStream: vi.fn().mockReturnValue(testEventsSubject.asObservable()),
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { isEndpointSummary } from './test-detail-shared.utils';
+import { getTimelineEventLabel, isEndpointSummary } from './test-detail-shared.utils';
 
 describe('test-detail-shared.utils', () => {
   describe('isEndpointSummary', () => {
@@ -39,4 +39,18 @@ describe('test-detail-shared.utils', () => {
       expect(isEndpointSummary({})).toBe(false);
     });
   });
+
+  describe('getTimelineEventLabel', () => {
+    it('should label pauses and resumes', () => {
+      expect(getTimelineEventLabel({ epoch: 1, type: 'paused' })).toBe('Paused');
+      expect(getTimelineEventLabel({ epoch: 2, type: 'resumed' })).toBe('Resumed');
+    });
+
+    it('should label rate changes with the multiplier when set', () => {
+      expect(getTimelineEventLabel({ epoch: 1, multiplier: 1.5, type: 'rate' })).toBe('Rate ×1.5');
+      expect(getTimelineEventLabel({ endpointRps: { checkout: 5 }, epoch: 1, type: 'rate' })).toBe(
+        'Rate changed',
+      );
+    });
+  });
 });
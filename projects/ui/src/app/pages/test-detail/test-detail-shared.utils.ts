@@ -1,4 +1,4 @@
-import type { EndpointSummary } from '@tressi/shared/common';
+import type { EndpointSummary, TimelineEvent } from '@tressi/shared/common';
 
 /**
  * Type guard to check if a summary is an EndpointSummary
@@ -8,3 +8,12 @@ import type { EndpointSummary } from '@tressi/shared/common';
 export function isEndpointSummary(summary: unknown): summary is EndpointSummary {
   return summary !== null && typeof summary === 'object' && 'statusCodeDistribution' in summary;
 }
+
+/**
+ * Chart label of a change made to the load while the test was running
+ */
+export function getTimelineEventLabel(event: TimelineEvent): string {
+  if (event.type === 'paused') return 'Paused';
+  if (event.type === 'resumed') return 'Resumed';
+  return event.multiplier !== undefined ? `Rate ×${event.multiplier}` : 'Rate changed';
+}
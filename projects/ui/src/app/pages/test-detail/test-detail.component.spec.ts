@@ -109,6 +109,12 @@ describe('TestDetailComponent', () => {
 
       service.selectedChartType.set('latency_p99' as ChartType);
       expect(component.getYAxisLabel()).toBe('ms');
+
+      service.selectedChartType.set('latency_p99_corrected' as ChartType);
+      expect(component.getYAxisLabel()).toBe('ms');
+
+      service.selectedChartType.set('event_loop_lag' as ChartType);
+      expect(component.getYAxisLabel()).toBe('ms');
     });
 
     it('should return "%" for rate chart types', () => {
@@ -135,9 +141,17 @@ describe('TestDetailComponent', () => {
       expect(component.getYAxisLabel()).toBe('Bytes');
     });
 
+    it('should return "users" for active_vus', () => {
+      service.selectedChartType.set('active_vus' as ChartType);
+      expect(component.getYAxisLabel()).toBe('users');
+    });
+
     it('should return "requests" for failed_requests', () => {
       service.selectedChartType.set('failed_requests' as ChartType);
       expect(component.getYAxisLabel()).toBe('requests');
+
+      service.selectedChartType.set('in_flight_requests' as ChartType);
+      expect(component.getYAxisLabel()).toBe('requests');
     });
 
     it('should return "Value" for unknown chart types', () => {
@@ -8,6 +8,7 @@ import {
 import { ButtonComponent } from '../../components/button/button.component';
 
 import { DeleteConfirmationModalComponent } from '../../components/delete-confirmation-modal/delete-confirmation-modal.component';
+import { EndpointControlsComponent } from '../../components/endpoint-controls/endpoint-controls.component';
 import { HeaderComponent } from '../../components/header/header.component';
 import { IconComponent } from '../../components/icon/icon.component';
 import { StatusBadgeComponent } from '../../components/status-badge/status-badge.component';
@@ -15,24 +16,37 @@ import { LogService } from '../../services/log.service';
 import { AppRouterService } from '../../services/router.service';
 import { TestService } from '../../services/test.service';
 import { TestDetailService } from './test-detail.service';
+import { ErrorLogComponent } from './ui/error-log/error-log.component';
 import { HeroStatsComponent } from './ui/hero-stats/hero-stats.component';
 import { LatencyDistributionComponent } from './ui/latency-distribution/latency-distribution.component';
+import { LoadControlsComponent } from './ui/load-controls/load-controls.component';
 import { MetadataComponent } from './ui/metadata/metadata.component';
+import { NetworkErrorsComponent } from './ui/network-errors/network-errors.component';
 import { PerformanceOverTimeComponent } from './ui/performance-over-time/performance-over-time.component';
 import { PerformanceSummaryComponent } from './ui/performance-summary/performance-summary.component';
+import { ResponseChecksComponent } from './ui/response-checks/response-checks.component';
 import { ResponseSamplesComponent } from './ui/response-samples/response-samples.component';
+import { TimingPhasesComponent } from './ui/timing-phases/timing-phases.component';
+import { WebSocketStatsComponent } from './ui/websocket-stats/websocket-stats.component';
 
 @Component({
   imports: [
     HeaderComponent,
     IconComponent,
     DeleteConfirmationModalComponent,
+    EndpointControlsComponent,
     ButtonComponent,
     PerformanceSummaryComponent,
     PerformanceOverTimeComponent,
     HeroStatsComponent,
     MetadataComponent,
     LatencyDistributionComponent,
+    TimingPhasesComponent,
+    LoadControlsComponent,
+    ResponseChecksComponent,
+    NetworkErrorsComponent,
+    WebSocketStatsComponent,
+    ErrorLogComponent,
     ResponseSamplesComponent,
     StatusBadgeComponent,
   ],
@@ -57,9 +71,15 @@ export class TestDetailComponent {
 
   // Collapsible state
   readonly configCollapsed = signal(true);
+  readonly loadControlsCollapsed = signal(false);
   readonly performanceSummaryCollapsed = signal(false);
   readonly performanceOverTimeCollapsed = signal(false);
   readonly latencyDistributionCollapsed = signal(false);
+  readonly timingPhasesCollapsed = signal(false);
+  readonly responseChecksCollapsed = signal(false);
+  readonly networkErrorsCollapsed = signal(false);
+  readonly webSocketStatsCollapsed = signal(false);
+  readonly errorLogCollapsed = signal(false);
   readonly responseSamplesCollapsed = signal(false);
 
   constructor() {
@@ -136,12 +156,19 @@ export class TestDetailComponent {
     const selected = this.service.selectedChartType();
     if (selected === 'network_throughput') return 'Bytes/sec';
     if (selected === 'peak_throughput' || selected === 'average_throughput') return 'Req/sec';
-    if (selected === 'latency' || selected === 'latency_p95' || selected === 'latency_p99')
+    if (
+      selected === 'latency' ||
+      selected === 'latency_p95' ||
+      selected === 'latency_p99' ||
+      selected === 'latency_p99_corrected' ||
+      selected === 'event_loop_lag'
+    )
       return 'ms';
     if (selected === 'error_rate' || selected === 'success_rate' || selected === 'target_achieved')
       return '%';
     if (selected === 'network_bytes_sent' || selected === 'network_bytes_received') return 'Bytes';
-    if (selected === 'failed_requests') return 'requests';
+    if (selected === 'failed_requests' || selected === 'in_flight_requests') return 'requests';
+    if (selected === 'active_vus') return 'users';
     return 'Value';
   }
 
@@ -1,13 +1,16 @@
 import { TestBed } from '@angular/core/testing';
 import {
   defaultTressiConfig,
+  type EndpointEventData,
   type GlobalSummary,
   type LatencyHistogram,
   type MetricDocument,
+  requestDefaults,
   type TestDocument,
   type TestSummary,
 } from '@tressi/shared/common';
 import type { ChartType } from '@tressi/shared/ui';
+import { Subject } from 'rxjs';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { ConfigService } from '../../services/config.service';
@@ -21,9 +24,11 @@ describe('TestDetailService', () => {
   let service: TestDetailService;
   let configServiceSpy: ReturnType<typeof vi.fn>;
   let eventServiceSpy: {
+    getEndpointEventsStream: ReturnType<typeof vi.fn>;
     getMetricsStream: ReturnType<typeof vi.fn>;
     getTestEventsStream: ReturnType<typeof vi.fn>;
   };
+  let endpointEventsSubject: Subject<EndpointEventData>;
   let logServiceSpy: ReturnType<typeof vi.fn>;
   let testServiceSpy: ReturnType<typeof vi.fn>;
   let testExportServiceSpy: ReturnType<typeof vi.fn>;
@@ -46,16 +51,26 @@ describe('TestDetailService', () => {
   };
 
   const mockGlobalSummary: GlobalSummary = {
+    activeVus: 0,
     averageRequestsPerSecond: 100,
     avgProcessMemoryUsageMB: 100,
     avgSystemCpuUsagePercent: 50,
+    correctedP50LatencyMs: 0,
+    correctedP95LatencyMs: 0,
+    correctedP99LatencyMs: 0,
+    droppedRequests: 0,
     earlyExitTriggered: false,
     epochEndedAt: 2000,
     epochStartedAt: 1000,
     errorRate: 0.05,
+    eventLoopLagMs: 0,
     failedRequests: 50,
     finalDurationSec: 10,
+    generatorSaturated: false,
+    heapUsedMB: 0,
     histogram: mockHistogram,
+    inFlightRequests: 0,
+    lateRequests: 0,
     maxLatencyMs: 120,
     minLatencyMs: 10,
     networkBytesPerSec: 5000,
@@ -69,6 +84,9 @@ describe('TestDetailService', () => {
     targetAchieved: 0.95,
     totalEndpoints: 1,
     totalRequests: 1000,
+    workerEventLoopLagMs: [],
+    workerHeapUsedMB: [],
+    workerInFlightRequests: [],
   };
 
   const mockTest: TestDocument = {
@@ -91,10 +109,14 @@ describe('TestDetailService', () => {
       id: 'metric-1',
       metric: {
         global: {
+          activeVus: 20,
           averageRequestsPerSecond: 100,
+          correctedP99LatencyMs: 250,
           earlyExitTriggered: false,
           errorRate: 0.05,
+          eventLoopLagMs: 35,
           failedRequests: 5,
+          inFlightRequests: 12,
           maxLatencyMs: 120,
           minLatencyMs: 10,
           networkBytesPerSec: 5000,
@@ -116,7 +138,9 @@ describe('TestDetailService', () => {
 
   beforeEach(() => {
     configServiceSpy = vi.fn(() => Promise.resolve({ id: 'config-1', name: 'Test Config' }));
+    endpointEventsSubject = new Subject<EndpointEventData>();
     eventServiceSpy = {
+      getEndpointEventsStream: vi.fn(() => endpointEventsSubject.asObservable()),
       getMetricsStream: vi.fn(() => ({
         subscribe: vi.fn(),
       })),
@@ -137,7 +161,17 @@ describe('TestDetailService', () => {
           provide: LogService,
           useValue: { error: logServiceSpy, info: logServiceSpy },
         },
-        { provide: TestService, useValue: { getTestMetrics: testServiceSpy } },
+        {
+          provide: TestService,
+          useValue: {
+            getTestMetrics: testServiceSpy,
+            pauseTest: vi.fn(() => Promise.resolve()),
+            resumeTest: vi.fn(() => Promise.resolve()),
+            setTestRate: vi.fn(() => Promise.resolve()),
+            startEndpoint: vi.fn(() => Promise.resolve()),
+            stopEndpoint: vi.fn(() => Promise.resolve()),
+          },
+        },
         {
           provide: TestExportService,
           useValue: { exportTest: testExportServiceSpy },
@@ -208,12 +242,20 @@ describe('TestDetailService', () => {
           endpoints: [
             {
               averageRequestsPerSecond: 50,
+              correctedP50LatencyMs: 40,
+              correctedP95LatencyMs: 70,
+              correctedP99LatencyMs: 90,
+              droppedRequests: 0,
               earlyExitTriggered: false,
               epochEndedAt: 2000,
               epochStartedAt: 1000,
+              errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
               errorRate: 0.04,
+              errors: [],
               failedRequests: 20,
               histogram: mockHistogram,
+              key: 'GET https://api.example.com/users',
+              lateRequests: 0,
               maxLatencyMs: 100,
               method: 'GET',
               minLatencyMs: 5,
@@ -224,6 +266,7 @@ describe('TestDetailService', () => {
               p95LatencyMs: 70,
               p99LatencyMs: 90,
               peakRequestsPerSecond: 75,
+              protocolCounts: { h2: 0, h2c: 0, http1: 0 },
               responseSamples: [],
               statusCodeDistribution: { '200': 480 },
               successfulRequests: 480,
@@ -240,7 +283,7 @@ describe('TestDetailService', () => {
         metrics: mockMetrics,
         test: testWithEndpoint as TestDocument,
       });
-      service.selectedEndpoint.set('https://api.example.com/users');
+      service.selectedEndpoint.set('GET https://api.example.com/users');
 
       const summary = service.selectedSummary();
       expect(summary).toBeDefined();
@@ -249,7 +292,7 @@ describe('TestDetailService', () => {
 
     it('should return null when endpoint is not found', () => {
       service.initialize({ metrics: mockMetrics, test: mockTest });
-      service.selectedEndpoint.set('https://nonexistent.com');
+      service.selectedEndpoint.set('GET https://nonexistent.com');
 
       expect(service.selectedSummary()).toBeNull();
     });
@@ -264,12 +307,20 @@ describe('TestDetailService', () => {
           endpoints: [
             {
               averageRequestsPerSecond: 50,
+              correctedP50LatencyMs: 40,
+              correctedP95LatencyMs: 70,
+              correctedP99LatencyMs: 90,
+              droppedRequests: 0,
               earlyExitTriggered: false,
               epochEndedAt: 2000,
               epochStartedAt: 1000,
+              errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
               errorRate: 0.04,
+              errors: [],
               failedRequests: 20,
               histogram: mockHistogram,
+              key: 'GET https://api.example.com/users',
+              lateRequests: 0,
               maxLatencyMs: 100,
               method: 'GET',
               minLatencyMs: 5,
@@ -280,6 +331,7 @@ describe('TestDetailService', () => {
               p95LatencyMs: 70,
               p99LatencyMs: 90,
               peakRequestsPerSecond: 75,
+              protocolCounts: { h2: 0, h2c: 0, http1: 0 },
               responseSamples: [],
               statusCodeDistribution: { '200': 480 },
               successfulRequests: 480,
@@ -296,7 +348,7 @@ describe('TestDetailService', () => {
         metrics: mockMetrics,
         test: testWithEndpoint as TestDocument,
       });
-      service.selectedEndpoint.set('https://api.example.com/users');
+      service.selectedEndpoint.set('GET https://api.example.com/users');
 
       const endpointSummary = service.endpointSummary();
       expect(endpointSummary).toBeDefined();
@@ -311,6 +363,44 @@ describe('TestDetailService', () => {
     });
   });
 
+  describe('hasNetworkErrors', () => {
+    const withErrorCounts = (errorCounts: Record<string, number>): TestDocument =>
+      ({
+        ...mockTest,
+        summary: {
+          ...mockTest.summary!,
+          endpoints: [{ errorCounts, key: 'GET https://api.example.com/users' }],
+        },
+      }) as unknown as TestDocument;
+
+    it('should be true when the selected endpoint has network errors', () => {
+      service.initialize({
+        metrics: mockMetrics,
+        test: withErrorCounts({ connectionRefused: 0, dns: 0, timeout: 3, tls: 0 }),
+      });
+      service.selectedEndpoint.set('GET https://api.example.com/users');
+
+      expect(service.hasNetworkErrors()).toBe(true);
+    });
+
+    it('should be false when every category is zero', () => {
+      service.initialize({
+        metrics: mockMetrics,
+        test: withErrorCounts({ connectionRefused: 0, dns: 0, timeout: 0, tls: 0 }),
+      });
+      service.selectedEndpoint.set('GET https://api.example.com/users');
+
+      expect(service.hasNetworkErrors()).toBe(false);
+    });
+
+    it('should be false for the global summary', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+      service.selectedEndpoint.set('global');
+
+      expect(service.hasNetworkErrors()).toBe(false);
+    });
+  });
+
   describe('histogram', () => {
     it('should return histogram from selected summary', () => {
       service.initialize({ metrics: mockMetrics, test: mockTest });
@@ -355,7 +445,7 @@ describe('TestDetailService', () => {
     });
 
     it('should return endpoint chart data when endpoint is selected', () => {
-      const endpointUrl = 'https://api.example.com/users';
+      const endpointKey = 'GET https://api.example.com/users';
       const mockMetricsWithEndpoint: MetricDocument[] = [
         {
           epoch: 1000,
@@ -364,10 +454,11 @@ describe('TestDetailService', () => {
             endpoints: [
               {
                 failedRequests: 0,
+                key: endpointKey,
                 p50LatencyMs: 40,
                 successfulRequests: 100,
                 totalRequests: 100,
-                url: endpointUrl,
+                url: 'https://api.example.com/users',
               },
             ],
             global: mockGlobalSummary,
@@ -380,7 +471,7 @@ describe('TestDetailService', () => {
         metrics: mockMetricsWithEndpoint,
         test: mockTest,
       });
-      service.selectedEndpoint.set(endpointUrl);
+      service.selectedEndpoint.set(endpointKey);
       service.selectedChartType.set('latency' as ChartType);
 
       const chartData = service.currentChartData();
@@ -388,6 +479,38 @@ describe('TestDetailService', () => {
       expect(chartData.data).toEqual([40]);
     });
 
+    it('should return active virtual users for the global summary', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+      service.selectedEndpoint.set('global');
+      service.selectedChartType.set('active_vus');
+
+      expect(service.currentChartData().data).toEqual([20]);
+    });
+
+    it('should return requests in flight for the global summary', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+      service.selectedEndpoint.set('global');
+      service.selectedChartType.set('in_flight_requests');
+
+      expect(service.currentChartData().data).toEqual([12]);
+    });
+
+    it('should return the event loop lag for the global summary', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+      service.selectedEndpoint.set('global');
+      service.selectedChartType.set('event_loop_lag');
+
+      expect(service.currentChartData().data).toEqual([35]);
+    });
+
+    it('should return corrected p99 latency for the global summary', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+      service.selectedEndpoint.set('global');
+      service.selectedChartType.set('latency_p99_corrected');
+
+      expect(service.currentChartData().data).toEqual([250]);
+    });
+
     it('should return empty data when no metrics exist', () => {
       service.initialize({
         metrics: [],
@@ -401,6 +524,130 @@ describe('TestDetailService', () => {
     });
   });
 
+  describe('stageAnnotations', () => {
+    it('should mark the stage boundaries that fall within the test', () => {
+      service.initialize({
+        metrics: mockMetrics,
+        test: {
+          ...mockTest,
+          summary: {
+            ...mockTest.summary!,
+            configSnapshot: {
+              ...defaultTressiConfig,
+              options: {
+                ...defaultTressiConfig.options,
+                durationSec: 60,
+                stages: [
+                  { durationSec: 10, interpolation: 'linear', rps: 50 },
+                  { durationSec: 20, interpolation: 'step', rps: 100 },
+                  { durationSec: 30, interpolation: 'linear', rps: 0 },
+                ],
+              },
+              requests: [{ ...requestDefaults, url: 'https://api.example.com/users' }],
+            },
+          },
+        },
+      });
+      service.selectedEndpoint.set('global');
+
+      expect(service.stageAnnotations()).toEqual([
+        { label: 'Stage 2', x: 11000 },
+        { label: 'Stage 3', x: 31000 },
+      ]);
+    });
+
+    it('should be empty without stages', () => {
+      service.initialize({ metrics: mockMetrics, test: mockTest });
+
+      expect(service.stageAnnotations()).toEqual([]);
+    });
+  });
+
+  describe('load control', () => {
+    const timelineTest = {
+      ...mockTest,
+      summary: {
+        ...mockTest.summary!,
+        configSnapshot: {
+          ...defaultTressiConfig,
+          requests: [{ ...requestDefaults, url: 'https://api.example.com/users' }],
+        },
+        timeline: [
+          { epoch: 5000, type: 'paused' as const },
+          { epoch: 8000, type: 'resumed' as const },
+          { endpointRps: { other: 5 }, epoch: 9000, type: 'rate' as const },
+          { epoch: 12000, multiplier: 2, type: 'rate' as const },
+          { epoch: 15000, type: 'paused' as const },
+        ],
+      },
+    };
+
+    it('should mark the timeline events and hide rate changes of other endpoints', () => {
+      service.initialize({ metrics: mockMetrics, test: timelineTest });
+      service.selectedEndpoint.set('GET https://api.example.com/users');
+
+      expect(service.chartAnnotations()).toEqual([
+        { label: 'Paused', x: 5000 },
+        { label: 'Resumed', x: 8000 },
+        { label: 'Rate ×2', x: 12000 },
+        { label: 'Paused', x: 15000 },
+      ]);
+    });
+
+    it('should derive the paused state and the rate keys', () => {
+      service.initialize({ metrics: mockMetrics, test: timelineTest });
+
+      expect(service.isPaused()).toBe(true);
+      expect(service.canChangeRate()).toBe(true);
+      expect(service.rateKeys()).toEqual(['GET https://api.example.com/users']);
+    });
+
+    it('should log failed load control requests', async () => {
+      const testService = TestBed.inject(TestService);
+      vi.mocked(testService.pauseTest).mockRejectedValueOnce(new Error('No load test is running'));
+
+      await service.pause();
+      await service.changeRate({ multiplier: 2 });
+
+      expect(logServiceSpy).toHaveBeenCalledWith('Failed to pause test', expect.any(Error));
+      expect(testService.setTestRate).toHaveBeenCalledWith({ multiplier: 2 });
+    });
+
+    it('should stop and start endpoints and apply their events to the summary', async () => {
+      const testService = TestBed.inject(TestService);
+      const endpointKey = 'GET https://api.example.com/users';
+      service.initialize({
+        metrics: mockMetrics,
+        test: {
+          ...mockTest,
+          status: 'running',
+          summary: { ...mockTest.summary!, endpoints: [{ key: endpointKey }] },
+        } as unknown as TestDocument,
+      });
+
+      await service.stopEndpoint(endpointKey);
+      endpointEventsSubject.next({
+        endpointKey,
+        stopped: true,
+        testId: mockTest.id,
+        timestamp: 1000,
+      });
+
+      expect(testService.stopEndpoint).toHaveBeenCalledWith(endpointKey);
+      expect(service.test()?.summary?.endpoints[0].manuallyStopped).toBe(true);
+
+      endpointEventsSubject.next({ endpointKey, stopped: true, testId: 'other', timestamp: 2000 });
+      endpointEventsSubject.next({
+        endpointKey,
+        stopped: false,
+        testId: mockTest.id,
+        timestamp: 3000,
+      });
+
+      expect(service.test()?.summary?.endpoints[0].manuallyStopped).toBe(false);
+    });
+  });
+
   describe('hasChartData', () => {
     it('should return true when chart data exists', () => {
       service.initialize({ metrics: mockMetrics, test: mockTest });
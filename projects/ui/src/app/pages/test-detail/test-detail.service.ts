@@ -1,13 +1,23 @@
 import { computed, Injectable, inject, type OnDestroy, signal } from '@angular/core';
-import type {
-  ConfigDocument,
-  EndpointSummary,
-  GlobalSummary,
-  MetricDocument,
-  TestDocument,
-  TestEventData,
+import {
+  type ConfigDocument,
+  type EndpointEventData,
+  type EndpointSummary,
+  type GlobalSummary,
+  getConfigEndpoints,
+  getConfiguredStages,
+  getEndpointKey,
+  getGrpcEndpoint,
+  getScenarioNameMap,
+  getStageBoundariesSec,
+  getWebSocketEndpoint,
+  type MetricDocument,
+  type TestDocument,
+  type TestEventData,
+  type TestRateChange,
 } from '@tressi/shared/common';
 import {
+  type ChartAnnotation,
   type ChartType,
   DEFAULT_CHART_POLLING_INTERVAL,
   DEFAULT_CHART_TYPE,
@@ -21,7 +31,7 @@ import { EventService } from '../../services/event.service';
 import { LogService } from '../../services/log.service';
 import { TestService } from '../../services/test.service';
 import { TestExportService } from '../../services/test-export.service';
-import { isEndpointSummary } from './test-detail-shared.utils';
+import { getTimelineEventLabel, isEndpointSummary } from './test-detail-shared.utils';
 
 @Injectable()
 export class TestDetailService implements OnDestroy {
@@ -57,8 +67,8 @@ export class TestDetailService implements OnDestroy {
     if (isGlobal) {
       return test.summary.global;
     } else {
-      const endpointUrl = this.selectedEndpoint();
-      return test.summary.endpoints?.find((e) => e.url === endpointUrl) || null;
+      const endpointKey = this.selectedEndpoint();
+      return test.summary.endpoints?.find((e) => e.key === endpointKey) || null;
     }
   });
 
@@ -67,6 +77,11 @@ export class TestDetailService implements OnDestroy {
     return isEndpointSummary(summary) ? summary : null;
   });
 
+  readonly hasNetworkErrors = computed(() => {
+    const errorCounts = this.endpointSummary()?.errorCounts;
+    return !!errorCounts && Object.values(errorCounts).some((count) => count > 0);
+  });
+
   readonly histogram = computed(() => {
     const summary = this.selectedSummary();
     if (summary && typeof summary === 'object' && 'histogram' in summary) {
@@ -95,6 +110,94 @@ export class TestDetailService implements OnDestroy {
     return { data, labels };
   });
 
+  /**
+   * Start of each load profile stage after the first, and the end of the last stage, of the
+   * selected endpoint or of every endpoint for the global view
+   */
+  readonly stageAnnotations = computed((): ChartAnnotation[] => {
+    const summary = this.test()?.summary;
+    const config = summary?.configSnapshot;
+    if (!summary || !config) return [];
+
+    const endpoint = this.selectedEndpoint();
+    const endpoints = getConfigEndpoints(config).filter(
+      (e) => endpoint === 'global' || getEndpointKey(e) === endpoint,
+    );
+
+    const annotations = new Map<number, string>();
+    for (const e of endpoints) {
+      const stages = getConfiguredStages(e, config.options);
+      getStageBoundariesSec(stages).forEach((boundarySec, index) => {
+        if (boundarySec >= config.options.durationSec || annotations.has(boundarySec)) return;
+        annotations.set(
+          boundarySec,
+          index < stages.length - 1 ? `Stage ${index + 2}` : 'Stages end',
+        );
+      });
+    }
+
+    return [...annotations.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([boundarySec, label]) => ({
+        label,
+        x: summary.global.epochStartedAt + boundarySec * 1000,
+      }));
+  });
+
+  /**
+   * Pauses, resumes and rate changes of the test. Rate changes are only shown for the selected
+   * endpoint when they change the multiplier, the endpoint or the scenario it belongs to
+   */
+  readonly timelineAnnotations = computed((): ChartAnnotation[] => {
+    const summary = this.test()?.summary;
+    const timeline = summary?.timeline ?? [];
+    const endpoint = this.selectedEndpoint();
+    const scenarioName = summary?.configSnapshot
+      ? getScenarioNameMap(summary.configSnapshot)[endpoint]
+      : undefined;
+
+    return timeline
+      .filter(
+        (event) =>
+          endpoint === 'global' ||
+          event.type !== 'rate' ||
+          event.multiplier !== undefined ||
+          Object.keys(event.endpointRps ?? {}).some(
+            (key) => key === endpoint || key === scenarioName,
+          ),
+      )
+      .map((event) => ({ label: getTimelineEventLabel(event), x: event.epoch }));
+  });
+
+  /** Stage boundaries and load changes marked on the chart */
+  readonly chartAnnotations = computed((): ChartAnnotation[] =>
+    [...this.stageAnnotations(), ...this.timelineAnnotations()].sort((a, b) => a.x - b.x),
+  );
+
+  /** Whether the running test is paused */
+  readonly isPaused = computed(
+    () => this.test()?.summary?.timeline?.findLast((e) => e.type !== 'rate')?.type === 'paused',
+  );
+
+  /** Whether the rate of the running test can be changed, false when it runs virtual users */
+  readonly canChangeRate = computed(
+    () => this.test()?.summary?.configSnapshot?.options.executor?.type !== 'virtualUsers',
+  );
+
+  /** Keys of the requests, WebSocket and gRPC endpoints and names of scenarios with a fixed RPS */
+  readonly rateKeys = computed((): string[] => {
+    const config = this.test()?.summary?.configSnapshot;
+    if (!config) return [];
+    return [
+      ...(config.requests ?? []).map((request) => getEndpointKey(request)),
+      ...(config.scenarios ?? []).map((scenario) => scenario.name),
+      ...(config.websockets ?? []).map((webSocket) =>
+        getEndpointKey(getWebSocketEndpoint(webSocket)),
+      ),
+      ...(config.grpc ?? []).map((grpc) => getEndpointKey(getGrpcEndpoint(grpc))),
+    ];
+  });
+
   readonly hasChartData = computed(() => {
     const data = this.currentChartData().data;
     if (Array.isArray(data)) {
@@ -108,6 +211,7 @@ export class TestDetailService implements OnDestroy {
   // Subscriptions
   private _metricsStreamSubscription: Subscription | null = null;
   private _testEventsSubscription: Subscription | null = null;
+  private _endpointEventsSubscription: Subscription | null = null;
   private _pollingTimerId: ReturnType<typeof setInterval> | null = null;
 
   initialize(data: { test: TestDocument; metrics: MetricDocument[] | null }): void {
@@ -116,7 +220,7 @@ export class TestDetailService implements OnDestroy {
     this.metrics.set(data.metrics);
 
     if (data.test.summary?.endpoints?.length === 1) {
-      this.selectedEndpoint.set(data.test.summary.endpoints[0].url);
+      this.selectedEndpoint.set(data.test.summary.endpoints[0].key);
     }
 
     if (data.test.summary?.global) {
@@ -204,6 +308,65 @@ export class TestDetailService implements OnDestroy {
         }
       },
     });
+
+    this._endpointEventsSubscription = this._eventService.getEndpointEventsStream().subscribe({
+      error: (error: unknown) => this._logService.error('Endpoint events error:', error),
+      next: (event: EndpointEventData) => {
+        const currentTest = this.test();
+        if (event.testId !== testId || !currentTest?.summary) return;
+        this.test.set({
+          ...currentTest,
+          summary: {
+            ...currentTest.summary,
+            endpoints: currentTest.summary.endpoints.map((endpoint) =>
+              endpoint.key === event.endpointKey
+                ? { ...endpoint, manuallyStopped: event.stopped }
+                : endpoint,
+            ),
+          },
+        });
+      },
+    });
+  }
+
+  async pause(): Promise<void> {
+    try {
+      await this._testService.pauseTest();
+    } catch (error) {
+      this._logService.error('Failed to pause test', error);
+    }
+  }
+
+  async resume(): Promise<void> {
+    try {
+      await this._testService.resumeTest();
+    } catch (error) {
+      this._logService.error('Failed to resume test', error);
+    }
+  }
+
+  async changeRate(change: TestRateChange): Promise<void> {
+    try {
+      await this._testService.setTestRate(change);
+    } catch (error) {
+      this._logService.error('Failed to change test rate', error);
+    }
+  }
+
+  async stopEndpoint(endpointKey: string): Promise<void> {
+    try {
+      await this._testService.stopEndpoint(endpointKey);
+    } catch (error) {
+      this._logService.error('Failed to stop endpoint', error);
+    }
+  }
+
+  async startEndpoint(endpointKey: string): Promise<void> {
+    try {
+      await this._testService.startEndpoint(endpointKey);
+    } catch (error) {
+      this._logService.error('Failed to start endpoint', error);
+    }
   }
 
   async exportResults(format: 'json' | 'xlsx' | 'md'): Promise<void> {
@@ -222,12 +385,20 @@ export class TestDetailService implements OnDestroy {
         return metrics.map((m) => m.metric?.global?.peakRequestsPerSecond || 0);
       case 'average_throughput':
         return metrics.map((m) => m.metric?.global?.averageRequestsPerSecond || 0);
+      case 'active_vus':
+        return metrics.map((m) => m.metric?.global?.activeVus || 0);
+      case 'in_flight_requests':
+        return metrics.map((m) => m.metric?.global?.inFlightRequests || 0);
+      case 'event_loop_lag':
+        return metrics.map((m) => m.metric?.global?.eventLoopLagMs || 0);
       case 'latency':
         return metrics.map((m) => m.metric?.global?.p50LatencyMs || 0);
       case 'latency_p95':
         return metrics.map((m) => m.metric?.global?.p95LatencyMs || 0);
       case 'latency_p99':
         return metrics.map((m) => m.metric?.global?.p99LatencyMs || 0);
+      case 'latency_p99_corrected':
+        return metrics.map((m) => m.metric?.global?.correctedP99LatencyMs || 0);
       case 'error_rate':
         return metrics.map((m) => (m.metric?.global?.errorRate || 0) * 100);
       case 'success_rate':
@@ -253,25 +424,34 @@ export class TestDetailService implements OnDestroy {
 
   private _mapEndpointMetricsToData(
     metrics: MetricDocument[],
-    url: string,
+    endpointKey: string,
     metricType: ChartType,
   ): number[] {
     const getEndpoint = (
       m: MetricDocument,
     ): import('@tressi/shared/common').EndpointSummary | undefined =>
-      m.metric?.endpoints?.find((e) => e.url === url);
+      m.metric?.endpoints?.find((e) => e.key === endpointKey);
 
     switch (metricType) {
       case 'peak_throughput':
         return metrics.map((m) => getEndpoint(m)?.peakRequestsPerSecond || 0);
       case 'average_throughput':
         return metrics.map((m) => getEndpoint(m)?.averageRequestsPerSecond || 0);
+      // Virtual users, in-flight limits and worker health are shared by all endpoints
+      case 'active_vus':
+        return metrics.map((m) => m.metric?.global?.activeVus || 0);
+      case 'in_flight_requests':
+        return metrics.map((m) => m.metric?.global?.inFlightRequests || 0);
+      case 'event_loop_lag':
+        return metrics.map((m) => m.metric?.global?.eventLoopLagMs || 0);
       case 'latency':
         return metrics.map((m) => getEndpoint(m)?.p50LatencyMs || 0);
       case 'latency_p95':
         return metrics.map((m) => getEndpoint(m)?.p95LatencyMs || 0);
       case 'latency_p99':
         return metrics.map((m) => getEndpoint(m)?.p99LatencyMs || 0);
+      case 'latency_p99_corrected':
+        return metrics.map((m) => getEndpoint(m)?.correctedP99LatencyMs || 0);
       case 'error_rate':
         return metrics.map((m) => (getEndpoint(m)?.errorRate || 0) * 100);
       case 'success_rate':
@@ -295,8 +475,10 @@ export class TestDetailService implements OnDestroy {
     }
     this._metricsStreamSubscription?.unsubscribe();
     this._testEventsSubscription?.unsubscribe();
+    this._endpointEventsSubscription?.unsubscribe();
     this._metricsStreamSubscription = null;
     this._testEventsSubscription = null;
+    this._endpointEventsSubscription = null;
   }
 
   ngOnDestroy(): void {
@@ -0,0 +1,65 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import type { EndpointErrorEntry } from '@tressi/shared/common';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ErrorLogComponent } from './error-log.component';
+
+describe('ErrorLogComponent', () => {
+  let component: ErrorLogComponent;
+  let fixture: ComponentFixture<ErrorLogComponent>;
+
+  const mockErrors: EndpointErrorEntry[] = [
+    {
+      count: 12,
+      firstSeenAt: 1700000001000,
+      kind: 'httpStatus',
+      lastSeenAt: 1700000009000,
+      message: 'HTTP 503',
+      sample: { detail: 'Service Unavailable', url: 'https://api.example.com/users/1' },
+    },
+    {
+      count: 2,
+      firstSeenAt: 1700000002000,
+      kind: 'connectionReset',
+      lastSeenAt: 1700000003000,
+      message: 'read ECONNRESET',
+      sample: { url: 'https://api.example.com/users/2' },
+    },
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ErrorLogComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ErrorLogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit collapsedChange when onCollapsedChange is called', () => {
+    const spy = vi.spyOn(component.collapsedChange, 'emit');
+    component.onCollapsedChange(true);
+    expect(spy).toHaveBeenCalledWith(true);
+  });
+
+  it('should label error kinds', () => {
+    expect(component.getKindLabel('httpStatus')).toBe('HTTP Status');
+    expect(component.getKindLabel('connectionReset')).toBe('Connection Reset');
+  });
+
+  it('should render a row per error with its sample', () => {
+    fixture.componentRef.setInput('errors', mockErrors);
+    fixture.detectChanges();
+
+    const rows = fixture.nativeElement.querySelectorAll('tbody tr');
+    expect(rows.length).toBe(2);
+    expect(rows[0].textContent).toContain('HTTP 503');
+    expect(rows[0].textContent).toContain('Service Unavailable');
+    expect(rows[1].querySelector('pre')).toBeNull();
+  });
+});
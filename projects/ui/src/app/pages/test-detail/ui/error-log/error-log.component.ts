@@ -0,0 +1,44 @@
+import { Component, input, output } from '@angular/core';
+import {
+  type EndpointErrorEntry,
+  type RequestErrorKind,
+  requestErrorKindLabels,
+} from '@tressi/shared/common';
+
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+import { FormatDateDirective } from '../../../../directives/format/format-date.directive';
+import { FormatNumberDirective } from '../../../../directives/format/format-number.directive';
+
+/**
+ * Component for displaying the failed requests of an endpoint grouped by kind and message,
+ * with a sample of the first occurrence of each
+ */
+@Component({
+  imports: [CollapsibleCardComponent, FormatDateDirective, FormatNumberDirective],
+  selector: 'app-error-log',
+  templateUrl: './error-log.component.html',
+})
+export class ErrorLogComponent {
+  /** Error log entries of the selected endpoint, most frequent first */
+  readonly errors = input<EndpointErrorEntry[] | undefined>();
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /**
+   * Get the display label of an error kind
+   */
+  getKindLabel(kind: RequestErrorKind): string {
+    return requestErrorKindLabels[kind];
+  }
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+}
@@ -13,15 +13,23 @@ describe('HeroStatsComponent', () => {
   };
 
   const mockSummary: GlobalSummary = {
+    activeVus: 0,
     averageRequestsPerSecond: 100,
     avgProcessMemoryUsageMB: 100,
     avgSystemCpuUsagePercent: 50,
+    correctedP50LatencyMs: 0,
+    correctedP95LatencyMs: 0,
+    correctedP99LatencyMs: 0,
+    droppedRequests: 0,
     earlyExitTriggered: false,
     epochEndedAt: 2000,
     epochStartedAt: 1000,
     errorRate: 0.05,
+    eventLoopLagMs: 0,
     failedRequests: 50,
     finalDurationSec: 10,
+    generatorSaturated: false,
+    heapUsedMB: 0,
     histogram: {
       buckets: [],
       max: 120,
@@ -31,6 +39,8 @@ describe('HeroStatsComponent', () => {
       stdDev: 20,
       totalCount: 1000,
     },
+    inFlightRequests: 0,
+    lateRequests: 0,
     maxLatencyMs: 120,
     minLatencyMs: 10,
     networkBytesPerSec: 5000,
@@ -44,6 +54,9 @@ describe('HeroStatsComponent', () => {
     targetAchieved: 0.95,
     totalEndpoints: 1,
     totalRequests: 1000,
+    workerEventLoopLagMs: [],
+    workerHeapUsedMB: [],
+    workerInFlightRequests: [],
   };
 
   const mockTest: TestDocument = {
@@ -0,0 +1,77 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LoadControlsComponent } from './load-controls.component';
+
+describe('LoadControlsComponent', () => {
+  let component: LoadControlsComponent;
+  let fixture: ComponentFixture<LoadControlsComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LoadControlsComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LoadControlsComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('rateKeys', ['GET https://api.example.com/users', 'checkout']);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should pause a running test and resume a paused one', () => {
+    const pauseSpy = vi.spyOn(component.pause, 'emit');
+    const resumeSpy = vi.spyOn(component.resume, 'emit');
+
+    component.togglePaused();
+    fixture.componentRef.setInput('paused', true);
+    component.togglePaused();
+
+    expect(pauseSpy).toHaveBeenCalledTimes(1);
+    expect(resumeSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit the multiplier', () => {
+    const spy = vi.spyOn(component.rateChange, 'emit');
+
+    component.onMultiplierChange({ target: { value: '1.5' } } as unknown as Event);
+    component.applyMultiplier();
+
+    expect(spy).toHaveBeenCalledWith({ multiplier: 1.5 });
+  });
+
+  it('should not emit an invalid multiplier', () => {
+    const spy = vi.spyOn(component.rateChange, 'emit');
+
+    component.onMultiplierChange({ target: { value: '-1' } } as unknown as Event);
+    component.applyMultiplier();
+
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('should fix and reset the RPS of the selected request or scenario', () => {
+    const spy = vi.spyOn(component.rateChange, 'emit');
+
+    component.onEndpointRpsChange({ target: { value: '25' } } as unknown as Event);
+    component.applyEndpointRps();
+    component.onSelectedKeyChange({ target: { value: 'checkout' } } as unknown as Event);
+    component.applyEndpointRps();
+    component.resetEndpointRps();
+
+    expect(spy.mock.calls).toEqual([
+      [{ endpointRps: { 'GET https://api.example.com/users': 25 } }],
+      [{ endpointRps: { checkout: 25 } }],
+      [{ endpointRps: { checkout: null } }],
+    ]);
+  });
+
+  it('should hide the rate controls when the rate cannot be changed', () => {
+    fixture.componentRef.setInput('canChangeRate', false);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('#rate-multiplier-input')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { Component, input, output, signal } from '@angular/core';
+import type { TestRateChange } from '@tressi/shared/common';
+
+import { ButtonComponent } from '../../../../components/button/button.component';
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+
+/**
+ * Component for pausing, resuming and changing the rate of a running test. Projected content,
+ * such as the endpoint controls, is shown below the controls.
+ */
+@Component({
+  imports: [ButtonComponent, CollapsibleCardComponent],
+  selector: 'app-load-controls',
+  templateUrl: './load-controls.component.html',
+})
+export class LoadControlsComponent {
+  /** Whether the test is paused */
+  readonly paused = input<boolean>(false);
+
+  /** Whether the rate of the test can be changed, false when it runs virtual users */
+  readonly canChangeRate = input<boolean>(true);
+
+  /** Keys of the requests and names of the scenarios whose RPS can be fixed */
+  readonly rateKeys = input<string[]>([]);
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when the test should be paused */
+  readonly pause = output<void>();
+
+  /** Emits when the test should be resumed */
+  readonly resume = output<void>();
+
+  /** Emits a rate change of the test */
+  readonly rateChange = output<TestRateChange>();
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /** Multiplier of every load profile */
+  readonly multiplier = signal<number>(1);
+
+  /** Request or scenario whose RPS is fixed */
+  readonly selectedKey = signal<string>('');
+
+  /** Fixed RPS of the selected request or scenario */
+  readonly endpointRps = signal<number>(0);
+
+  /**
+   * Pause or resume the test
+   */
+  togglePaused(): void {
+    if (this.paused()) {
+      this.resume.emit();
+    } else {
+      this.pause.emit();
+    }
+  }
+
+  /**
+   * Handle multiplier input change
+   */
+  onMultiplierChange(event: Event): void {
+    this.multiplier.set(Number((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Handle request or scenario selection change
+   */
+  onSelectedKeyChange(event: Event): void {
+    this.selectedKey.set((event.target as HTMLSelectElement).value);
+  }
+
+  /**
+   * Handle fixed RPS input change
+   */
+  onEndpointRpsChange(event: Event): void {
+    this.endpointRps.set(Number((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Scale the load profile of every endpoint by the multiplier
+   */
+  applyMultiplier(): void {
+    const multiplier = this.multiplier();
+    if (!Number.isFinite(multiplier) || multiplier < 0) return;
+    this.rateChange.emit({ multiplier });
+  }
+
+  /**
+   * Fix the RPS of the selected request or scenario
+   */
+  applyEndpointRps(): void {
+    const key = this.selectedKey() || this.rateKeys()[0];
+    const rps = this.endpointRps();
+    if (!key || !Number.isFinite(rps) || rps < 0) return;
+    this.rateChange.emit({ endpointRps: { [key]: rps } });
+  }
+
+  /**
+   * Return the selected request or scenario to its load profile
+   */
+  resetEndpointRps(): void {
+    const key = this.selectedKey() || this.rateKeys()[0];
+    if (!key) return;
+    this.rateChange.emit({ endpointRps: { [key]: null } });
+  }
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+}
@@ -0,0 +1,52 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import { describe, expect, it, vi } from 'vitest';
+
+import { NetworkErrorsComponent } from './network-errors.component';
+
+describe('NetworkErrorsComponent', () => {
+  let component: NetworkErrorsComponent;
+  let fixture: ComponentFixture<NetworkErrorsComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NetworkErrorsComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(NetworkErrorsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit collapsedChange when onCollapsedChange is called', () => {
+    const spy = vi.spyOn(component.collapsedChange, 'emit');
+    component.onCollapsedChange(true);
+    expect(spy).toHaveBeenCalledWith(true);
+  });
+
+  it('should render a row per category with its share of failures', () => {
+    fixture.componentRef.setInput('errorCounts', {
+      connectionRefused: 2,
+      dns: 0,
+      timeout: 6,
+      tls: 0,
+    });
+    fixture.componentRef.setInput('failedRequests', 10);
+    fixture.detectChanges();
+
+    expect(component.rows()).toEqual([
+      { count: 2, label: 'Connection Refused', share: 0.2 },
+      { count: 0, label: 'DNS Failures', share: 0 },
+      { count: 6, label: 'Timeouts', share: 0.6 },
+      { count: 0, label: 'TLS Errors', share: 0 },
+    ]);
+    expect(fixture.nativeElement.querySelectorAll('tbody tr').length).toBe(4);
+  });
+
+  it('should render no rows without error counts', () => {
+    expect(component.rows()).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { Component, computed, input, output } from '@angular/core';
+import type { EndpointErrorCounts, RequestErrorCategory } from '@tressi/shared/common';
+
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+import { FormatNumberDirective } from '../../../../directives/format/format-number.directive';
+import { FormatPercentageDirective } from '../../../../directives/format/format-percentage.directive';
+
+const categoryLabels: Record<RequestErrorCategory, string> = {
+  connectionRefused: 'Connection Refused',
+  dns: 'DNS Failures',
+  timeout: 'Timeouts',
+  tls: 'TLS Errors',
+};
+
+/**
+ * Component for displaying the requests of an endpoint that failed without a response,
+ * broken down by network error category
+ */
+@Component({
+  imports: [CollapsibleCardComponent, FormatNumberDirective, FormatPercentageDirective],
+  selector: 'app-network-errors',
+  templateUrl: './network-errors.component.html',
+})
+export class NetworkErrorsComponent {
+  /** Network error counts of the selected endpoint */
+  readonly errorCounts = input<EndpointErrorCounts | undefined>();
+
+  /** Failed requests of the selected endpoint */
+  readonly failedRequests = input<number | undefined>();
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /** One row per category with its share of all failed requests */
+  readonly rows = computed(() => {
+    const counts = this.errorCounts();
+    if (!counts) return [];
+
+    const failed = this.failedRequests() ?? 0;
+    return (Object.keys(categoryLabels) as RequestErrorCategory[]).map((category) => ({
+      count: counts[category],
+      label: categoryLabels[category],
+      share: failed > 0 ? counts[category] / failed : 0,
+    }));
+  });
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+}
@@ -1,5 +1,6 @@
 import { Component, input, output } from '@angular/core';
 import {
+  type ChartAnnotation,
   type ChartData,
   type ChartOption,
   type ChartType,
@@ -56,6 +57,9 @@ export class PerformanceOverTimeComponent {
   /** Chart data for the line chart */
   readonly chartData = input<ChartData>({ data: [], labels: [] });
 
+  /** Load profile stage boundaries and load changes marked on the chart */
+  readonly annotations = input<ChartAnnotation[]>([]);
+
   /** Whether the card is collapsed */
   readonly collapsed = input<boolean>(false);
 
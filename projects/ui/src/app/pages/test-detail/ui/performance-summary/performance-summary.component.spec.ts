@@ -9,16 +9,26 @@ describe('PerformanceSummaryComponent', () => {
   let fixture: ComponentFixture<PerformanceSummaryComponent>;
 
   const mockGlobalSummary: GlobalSummary = {
+    activeVus: 0,
     averageRequestsPerSecond: 100,
     avgProcessMemoryUsageMB: 100,
     avgSystemCpuUsagePercent: 50,
+    correctedP50LatencyMs: 0,
+    correctedP95LatencyMs: 0,
+    correctedP99LatencyMs: 0,
+    droppedRequests: 0,
     earlyExitTriggered: false,
     epochEndedAt: 2000,
     epochStartedAt: 1000,
     errorRate: 0.05,
+    eventLoopLagMs: 0,
     failedRequests: 50,
     finalDurationSec: 10,
+    generatorSaturated: false,
+    heapUsedMB: 0,
     histogram: {} as LatencyHistogram,
+    inFlightRequests: 0,
+    lateRequests: 0,
     maxLatencyMs: 120,
     minLatencyMs: 10,
     networkBytesPerSec: 5000,
@@ -32,14 +42,25 @@ describe('PerformanceSummaryComponent', () => {
     targetAchieved: 0.95,
     totalEndpoints: 1,
     totalRequests: 1000,
+    workerEventLoopLagMs: [],
+    workerHeapUsedMB: [],
+    workerInFlightRequests: [],
   };
 
   const mockEndpointSummary: EndpointSummary = {
     averageRequestsPerSecond: 50,
+    correctedP50LatencyMs: 0,
+    correctedP95LatencyMs: 0,
+    correctedP99LatencyMs: 0,
+    droppedRequests: 0,
     earlyExitTriggered: false,
+    errorCounts: { connectionRefused: 0, dns: 0, timeout: 0, tls: 0 },
     errorRate: 0.04,
+    errors: [],
     failedRequests: 20,
     histogram: {} as LatencyHistogram,
+    key: 'GET https://api.example.com',
+    lateRequests: 0,
     maxLatencyMs: 100,
     method: 'GET',
     minLatencyMs: 5,
@@ -47,6 +68,7 @@ describe('PerformanceSummaryComponent', () => {
     p95LatencyMs: 70,
     p99LatencyMs: 90,
     peakRequestsPerSecond: 75,
+    protocolCounts: { h2: 0, h2c: 0, http1: 0 },
     responseSamples: [],
     statusCodeDistribution: { '200': 480 },
     successfulRequests: 480,
@@ -82,6 +104,22 @@ describe('PerformanceSummaryComponent', () => {
     expect(component.endpointSummary()).toBeNull();
   });
 
+  it('should show token requests only when auth tokens were requested', () => {
+    const tokenRequests = (): Element | null =>
+      fixture.nativeElement.querySelector('[data-e2e="token-requests"]');
+
+    fixture.componentRef.setInput('selectedSummary', mockGlobalSummary);
+    fixture.detectChanges();
+    expect(tokenRequests()).toBeNull();
+
+    fixture.componentRef.setInput('selectedSummary', {
+      ...mockGlobalSummary,
+      authTokens: { failures: 1, meanLatencyMs: 40, requests: 3 },
+    });
+    fixture.detectChanges();
+    expect(tokenRequests()?.textContent).toContain('1 failed');
+  });
+
   it('should emit collapsedChange when onCollapsedChange is called', () => {
     const spy = vi.spyOn(component.collapsedChange, 'emit');
     component.onCollapsedChange(true);
@@ -103,6 +141,21 @@ describe('PerformanceSummaryComponent', () => {
     });
   });
 
+  describe('getEventLoopLagState', () => {
+    it('should return good for a responsive worker', () => {
+      expect(component.getEventLoopLagState(5)).toBe('good');
+    });
+    it('should return warning for a busy worker', () => {
+      expect(component.getEventLoopLagState(30)).toBe('warning');
+    });
+    it('should return error from the saturation threshold', () => {
+      expect(component.getEventLoopLagState(50)).toBe('error');
+    });
+    it('should return good for undefined', () => {
+      expect(component.getEventLoopLagState(undefined)).toBe('good');
+    });
+  });
+
   describe('getMemoryState', () => {
     it('should return good for low usage', () => {
       expect(component.getMemoryState(400)).toBe('good');
@@ -94,6 +94,20 @@ export class PerformanceSummaryComponent {
     return 'good';
   }
 
+  /**
+   * Determines worker event loop lag state based on millisecond thresholds
+   * - Good: < 20ms
+   * - Warning: 20-50ms
+   * - Error: >= 50ms, where missed requests are blamed on the load generator
+   */
+  getEventLoopLagState(ms: number | undefined): MetricState {
+    if (ms === undefined || ms === null) return 'good';
+
+    if (ms >= 50) return 'error';
+    if (ms >= 20) return 'warning';
+    return 'good';
+  }
+
   /**
    * Gets DaisyUI color classes for a metric state
    */
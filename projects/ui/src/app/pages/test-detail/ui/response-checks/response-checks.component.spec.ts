@@ -0,0 +1,52 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import type { EndpointCheckSummary } from '@tressi/shared/common';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ResponseChecksComponent } from './response-checks.component';
+
+describe('ResponseChecksComponent', () => {
+  let component: ResponseChecksComponent;
+  let fixture: ComponentFixture<ResponseChecksComponent>;
+
+  const mockChecks: EndpointCheckSummary[] = [
+    { exitOnFailure: false, failed: 0, label: 'status in [200]', passed: 10, passRate: 1 },
+    { exitOnFailure: true, failed: 2, label: '$.ok exists', passed: 8, passRate: 0.8 },
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ResponseChecksComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ResponseChecksComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit collapsedChange when onCollapsedChange is called', () => {
+    const spy = vi.spyOn(component.collapsedChange, 'emit');
+    component.onCollapsedChange(true);
+    expect(spy).toHaveBeenCalledWith(true);
+  });
+
+  it('should render a row per check', () => {
+    fixture.componentRef.setInput('checks', mockChecks);
+    fixture.detectChanges();
+
+    const rows = fixture.nativeElement.querySelectorAll('tbody tr');
+    expect(rows.length).toBe(2);
+    expect(rows[1].textContent).toContain('exit on failure');
+  });
+
+  it('should color checks by their failures', () => {
+    expect(component.getPassRateClass(mockChecks[0])).toBe('text-success');
+    expect(component.getPassRateClass(mockChecks[1])).toBe('text-error');
+    expect(
+      component.getPassRateClass({ ...mockChecks[0], failed: 0, passed: 0, passRate: 0 }),
+    ).toBe('text-base-content/50');
+  });
+});
@@ -0,0 +1,46 @@
+import { Component, input, output } from '@angular/core';
+import type { EndpointCheckSummary } from '@tressi/shared/common';
+
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+import { IconComponent } from '../../../../components/icon/icon.component';
+import { FormatNumberDirective } from '../../../../directives/format/format-number.directive';
+import { FormatPercentageDirective } from '../../../../directives/format/format-percentage.directive';
+
+/**
+ * Component for displaying the pass/fail results of response checks for an endpoint
+ */
+@Component({
+  imports: [
+    CollapsibleCardComponent,
+    IconComponent,
+    FormatNumberDirective,
+    FormatPercentageDirective,
+  ],
+  selector: 'app-response-checks',
+  templateUrl: './response-checks.component.html',
+})
+export class ResponseChecksComponent {
+  /** Check results of the selected endpoint */
+  readonly checks = input<EndpointCheckSummary[] | undefined>();
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+
+  /**
+   * Gets the text color class for a check based on its failures
+   */
+  getPassRateClass(check: EndpointCheckSummary): string {
+    if (check.passed + check.failed === 0) return 'text-base-content/50';
+    return check.failed > 0 ? 'text-error' : 'text-success';
+  }
+}
@@ -68,6 +68,42 @@ describe('ResponseSamplesComponent', () => {
     expect(filtered[0].statusCode).toBe(200);
   });
 
+  it('should show the cookie counts of samples sent with a cookie jar', () => {
+    fixture.componentRef.setInput('responseSamples', [
+      { ...mockSamples[0], cookies: { jar: 3, received: 1, sent: 2 } },
+      mockSamples[1],
+    ]);
+    fixture.detectChanges();
+
+    const cookies = fixture.nativeElement.querySelectorAll('[data-e2e="sample-cookies"]');
+    expect(cookies.length).toBe(1);
+    expect(cookies[0].textContent).toContain('2 sent, 1 received');
+  });
+
+  it('should show the negotiated TLS of HTTPS samples', () => {
+    fixture.componentRef.setInput('responseSamples', [
+      { ...mockSamples[0], tls: { cipher: 'TLS_AES_256_GCM_SHA384', protocol: 'TLSv1.3' } },
+      mockSamples[1],
+    ]);
+    fixture.detectChanges();
+
+    const tls = fixture.nativeElement.querySelectorAll('[data-e2e="sample-tls"]');
+    expect(tls.length).toBe(1);
+    expect(tls[0].textContent).toContain('TLSv1.3, TLS_AES_256_GCM_SHA384');
+  });
+
+  it('should show the errors of GraphQL samples', () => {
+    fixture.componentRef.setInput('responseSamples', [
+      { ...mockSamples[0], graphqlErrors: ['User not found', 'Not authorized'] },
+      mockSamples[1],
+    ]);
+    fixture.detectChanges();
+
+    const errors = fixture.nativeElement.querySelectorAll('[data-e2e="sample-graphql-errors"]');
+    expect(errors.length).toBe(1);
+    expect(errors[0].textContent).toContain('User not found; Not authorized');
+  });
+
   it('should format headers', () => {
     const headers = { 'Content-Type': 'application/json' };
     const formatted = component.formatHeaders(headers);
@@ -0,0 +1,65 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import type { TimingPhaseSummary } from '@tressi/shared/common';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TimingPhasesComponent } from './timing-phases.component';
+
+describe('TimingPhasesComponent', () => {
+  let component: TimingPhasesComponent;
+  let fixture: ComponentFixture<TimingPhasesComponent>;
+
+  const phase = (meanMs: number): TimingPhaseSummary => ({
+    meanMs,
+    p50Ms: meanMs,
+    p95Ms: meanMs * 2,
+    p99Ms: meanMs * 3,
+  });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TimingPhasesComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(TimingPhasesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit collapsedChange when onCollapsedChange is called', () => {
+    const spy = vi.spyOn(component.collapsedChange, 'emit');
+    component.onCollapsedChange(true);
+    expect(spy).toHaveBeenCalledWith(true);
+  });
+
+  it('should render a row per phase with its share of the mean duration', () => {
+    fixture.componentRef.setInput('timingPhases', {
+      connect: phase(10),
+      dns: phase(0),
+      download: phase(20),
+      tls: phase(10),
+      ttfb: phase(60),
+    });
+    fixture.detectChanges();
+
+    expect(component.rows().map(({ label, share }) => ({ label, share }))).toEqual([
+      { label: 'DNS Lookup', share: 0 },
+      { label: 'TCP Connect', share: 0.1 },
+      { label: 'TLS Handshake', share: 0.1 },
+      { label: 'Time to First Byte', share: 0.6 },
+      { label: 'Content Download', share: 0.2 },
+    ]);
+    expect(fixture.nativeElement.querySelectorAll('tbody tr').length).toBe(5);
+    // Phases without time are left out of the stacked bar
+    expect(
+      fixture.nativeElement.querySelector('[data-e2e="timing-phases-bar"]').children.length,
+    ).toBe(4);
+  });
+
+  it('should render no rows without timing phases', () => {
+    expect(component.rows()).toEqual([]);
+  });
+});
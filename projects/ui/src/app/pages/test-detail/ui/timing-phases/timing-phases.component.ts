@@ -0,0 +1,64 @@
+import { Component, computed, input, output } from '@angular/core';
+import {
+  type RequestTimingPhase,
+  requestTimingPhaseDefaults,
+  requestTimingPhaseLabels,
+  type TimingPhasesSummary,
+} from '@tressi/shared/common';
+
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+import { FormatLatencyDirective } from '../../../../directives/format/format-latency.directive';
+import { FormatPercentageDirective } from '../../../../directives/format/format-percentage.directive';
+
+const phaseColors: Record<RequestTimingPhase, string> = {
+  connect: 'bg-secondary',
+  dns: 'bg-info',
+  download: 'bg-success',
+  tls: 'bg-accent',
+  ttfb: 'bg-primary',
+};
+
+/**
+ * Component for displaying how long requests spent in each phase, from DNS lookup to
+ * content download, as a stacked bar of the mean durations and a table of percentiles
+ */
+@Component({
+  imports: [CollapsibleCardComponent, FormatLatencyDirective, FormatPercentageDirective],
+  selector: 'app-timing-phases',
+  templateUrl: './timing-phases.component.html',
+})
+export class TimingPhasesComponent {
+  /** Timing phases of the selected endpoint or of the whole test */
+  readonly timingPhases = input<TimingPhasesSummary | undefined>();
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /** One row per phase with its share of the mean duration of a request */
+  readonly rows = computed(() => {
+    const phases = this.timingPhases();
+    if (!phases) return [];
+
+    const totalMeanMs = requestTimingPhaseDefaults.reduce(
+      (sum, phase) => sum + phases[phase].meanMs,
+      0,
+    );
+    return requestTimingPhaseDefaults.map((phase) => ({
+      ...phases[phase],
+      color: phaseColors[phase],
+      label: requestTimingPhaseLabels[phase],
+      phase,
+      share: totalMeanMs > 0 ? phases[phase].meanMs / totalMeanMs : 0,
+    }));
+  });
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+}
@@ -0,0 +1,52 @@
+import { type ComponentFixture, TestBed } from '@angular/core/testing';
+import { describe, expect, it, vi } from 'vitest';
+
+import { WebSocketStatsComponent } from './websocket-stats.component';
+
+describe('WebSocketStatsComponent', () => {
+  let component: WebSocketStatsComponent;
+  let fixture: ComponentFixture<WebSocketStatsComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WebSocketStatsComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(WebSocketStatsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit collapsedChange when onCollapsedChange is called', () => {
+    const spy = vi.spyOn(component.collapsedChange, 'emit');
+    component.onCollapsedChange(true);
+    expect(spy).toHaveBeenCalledWith(true);
+  });
+
+  it('should render the messages and the share of abnormally closed connections', () => {
+    fixture.componentRef.setInput('webSocket', {
+      abnormalCloses: 5,
+      messagesReceived: 400,
+      messagesSent: 200,
+      roundTrip: { meanMs: 14, p50Ms: 12, p95Ms: 30, p99Ms: 45 },
+    });
+    fixture.componentRef.setInput('connections', 50);
+    fixture.detectChanges();
+
+    expect(component.rows()).toEqual([
+      { count: 200, label: 'Messages Sent', share: undefined },
+      { count: 400, label: 'Messages Received', share: undefined },
+      { count: 5, label: 'Abnormal Closes', share: 0.1 },
+    ]);
+    expect(fixture.nativeElement.querySelector('[data-e2e="websocket-round-trip"]')).not.toBeNull();
+  });
+
+  it('should render no rows without a WebSocket summary', () => {
+    expect(component.rows()).toEqual([]);
+    expect(fixture.nativeElement.querySelector('[data-e2e="websocket-round-trip"]')).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { Component, computed, input, output } from '@angular/core';
+import type { EndpointWebSocketSummary } from '@tressi/shared/common';
+
+import { CollapsibleCardComponent } from '../../../../components/collapsible-card/collapsible-card.component';
+import { FormatLatencyDirective } from '../../../../directives/format/format-latency.directive';
+import { FormatNumberDirective } from '../../../../directives/format/format-number.directive';
+import { FormatPercentageDirective } from '../../../../directives/format/format-percentage.directive';
+
+/**
+ * Component for displaying the messages, abnormal closes and message round trips of the
+ * connections of a WebSocket endpoint
+ */
+@Component({
+  imports: [
+    CollapsibleCardComponent,
+    FormatLatencyDirective,
+    FormatNumberDirective,
+    FormatPercentageDirective,
+  ],
+  selector: 'app-websocket-stats',
+  templateUrl: './websocket-stats.component.html',
+})
+export class WebSocketStatsComponent {
+  /** WebSocket summary of the selected endpoint */
+  readonly webSocket = input<EndpointWebSocketSummary | undefined>();
+
+  /** Connections opened to the selected endpoint */
+  readonly connections = input<number | undefined>();
+
+  /** Whether the card is collapsed */
+  readonly collapsed = input<boolean>(false);
+
+  /** Emits when collapsed state changes */
+  readonly collapsedChange = output<boolean>();
+
+  /** Messages per connection and the share of connections closed abnormally */
+  readonly rows = computed(() => {
+    const webSocket = this.webSocket();
+    if (!webSocket) return [];
+
+    const connections = this.connections() ?? 0;
+    return [
+      { count: webSocket.messagesSent, label: 'Messages Sent', share: undefined },
+      { count: webSocket.messagesReceived, label: 'Messages Received', share: undefined },
+      {
+        count: webSocket.abnormalCloses,
+        label: 'Abnormal Closes',
+        share: connections > 0 ? webSocket.abnormalCloses / connections : 0,
+      },
+    ];
+  });
+
+  /**
+   * Handle collapsed state change from collapsible card
+   */
+  onCollapsedChange(collapsed: boolean): void {
+    this.collapsedChange.emit(collapsed);
+  }
+}
@@ -85,6 +85,25 @@ describe('EventService', () => {
     });
   });
 
+  it('should handle endpoint events', () => {
+    return new Promise<void>((resolve) => {
+      service.getEndpointEventsStream().subscribe((data) => {
+        expect(data).toEqual({ endpointKey: 'GET /users', stopped: true, testId: '123' });
+        resolve();
+      });
+
+      service.connectToEventStream();
+
+      const event = {
+        data: JSON.stringify({
+          data: { endpointKey: 'GET /users', stopped: true, testId: '123' },
+          event: ServerEvents.ENDPOINT.STOPPED,
+        }),
+      };
+      mockEventSource.onmessage?.(event);
+    });
+  });
+
   it('should handle connected events', () => {
     return new Promise<void>((resolve) => {
       service.getConnectedStream().subscribe((data) => {
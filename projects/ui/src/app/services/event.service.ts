@@ -1,5 +1,10 @@
 import { Injectable } from '@angular/core';
-import { type ConnectedEventData, ServerEvents, type TestEventData } from '@tressi/shared/common';
+import {
+  type ConnectedEventData,
+  type EndpointEventData,
+  ServerEvents,
+  type TestEventData,
+} from '@tressi/shared/common';
 import type { TestSummaryData } from '@tressi/shared/ui';
 import { type Observable, Subject } from 'rxjs';
 
@@ -12,6 +17,7 @@ export class EventService {
 
   private readonly _metricsSubject = new Subject<TestSummaryData>();
   private readonly _testEventsSubject = new Subject<TestEventData>();
+  private readonly _endpointEventsSubject = new Subject<EndpointEventData>();
   private readonly _connectedSubject = new Subject<ConnectedEventData>();
   private readonly _errorSubject = new Subject<Event>();
 
@@ -31,6 +37,14 @@ export class EventService {
     return this._testEventsSubject.asObservable();
   }
 
+  /**
+   * Get stream of endpoints stopped or started by hand
+   */
+  getEndpointEventsStream(): Observable<EndpointEventData> {
+    this._ensureConnected();
+    return this._endpointEventsSubject.asObservable();
+  }
+
   /**
    * Get connected events stream with unified event format
    */
@@ -80,6 +94,10 @@ export class EventService {
           case ServerEvents.TEST.CANCELLED:
             this._testEventsSubject.next(message.data as TestEventData);
             break;
+          case ServerEvents.ENDPOINT.STOPPED:
+          case ServerEvents.ENDPOINT.STARTED:
+            this._endpointEventsSubject.next(message.data as EndpointEventData);
+            break;
           case ServerEvents.CONNECTED:
             this._connectedSubject.next(message.data as ConnectedEventData);
             break;
@@ -17,6 +17,10 @@ describe('TestService', () => {
           $get: Mock;
           $delete: Mock;
         };
+        endpoints: { start: { $post: Mock }; stop: { $post: Mock } };
+        pause: { $post: Mock };
+        resume: { $post: Mock };
+        rate: { $patch: Mock };
       };
       metrics: {
         ':testId': { $get: Mock };
@@ -35,6 +39,10 @@ describe('TestService', () => {
         $get: vi.fn(),
       },
       $get: vi.fn(),
+      endpoints: { start: { $post: vi.fn() }, stop: { $post: vi.fn() } },
+      pause: { $post: vi.fn() },
+      rate: { $patch: vi.fn() },
+      resume: { $post: vi.fn() },
     };
 
     mockRPC = {
@@ -174,6 +182,63 @@ describe('TestService', () => {
     });
   });
 
+  describe('load control', () => {
+    it('should pause and resume the running test', async () => {
+      mockRPC.client.tests.pause.$post.mockResolvedValue({ ok: true });
+      mockRPC.client.tests.resume.$post.mockResolvedValue({ ok: true });
+
+      await service.pauseTest();
+      await service.resumeTest();
+
+      expect(mockRPC.client.tests.pause.$post).toHaveBeenCalled();
+      expect(mockRPC.client.tests.resume.$post).toHaveBeenCalled();
+    });
+
+    it('should send a rate change', async () => {
+      mockRPC.client.tests.rate.$patch.mockResolvedValue({ ok: true });
+
+      await service.setTestRate({ endpointRps: { checkout: 5 }, multiplier: 2 });
+
+      expect(mockRPC.client.tests.rate.$patch).toHaveBeenCalledWith({
+        json: { endpointRps: { checkout: 5 }, multiplier: 2 },
+      });
+    });
+
+    it('should throw and log when no test is running', async () => {
+      mockRPC.client.tests.pause.$post.mockResolvedValue({ ok: false, statusText: 'Conflict' });
+
+      await expect(service.pauseTest()).rejects.toThrow('Failed to pause test: Conflict');
+      expect(mockLog.error).toHaveBeenCalledWith('Failed to pause test:', expect.any(Error));
+    });
+
+    it('should stop and start a single endpoint', async () => {
+      mockRPC.client.tests.endpoints.stop.$post.mockResolvedValue({ ok: true });
+      mockRPC.client.tests.endpoints.start.$post.mockResolvedValue({ ok: true });
+
+      await service.stopEndpoint('GET /users');
+      await service.startEndpoint('GET /users');
+
+      expect(mockRPC.client.tests.endpoints.stop.$post).toHaveBeenCalledWith({
+        json: { endpointKey: 'GET /users' },
+      });
+      expect(mockRPC.client.tests.endpoints.start.$post).toHaveBeenCalledWith({
+        json: { endpointKey: 'GET /users' },
+      });
+    });
+
+    it('should throw and log when an endpoint cannot be started', async () => {
+      mockRPC.client.tests.endpoints.start.$post.mockResolvedValue({
+        ok: false,
+        statusText: 'Bad Request',
+      });
+
+      await expect(service.startEndpoint('missing')).rejects.toThrow(
+        'Failed to start endpoint: Bad Request',
+      );
+      expect(mockLog.error).toHaveBeenCalledWith('Failed to start endpoint:', expect.any(Error));
+    });
+  });
+
   describe('getTestMetrics', () => {
     it('should return metrics array when successful', async () => {
       const mockMetrics: MetricDocument[] = [
@@ -1,5 +1,10 @@
 import { Injectable, inject } from '@angular/core';
-import type { DeleteTestResponse, MetricDocument, TestDocument } from '@tressi/shared/common';
+import type {
+  DeleteTestResponse,
+  MetricDocument,
+  TestDocument,
+  TestRateChange,
+} from '@tressi/shared/common';
 
 import { LogService } from './log.service';
 import { RPCService } from './rpc.service';
@@ -81,6 +86,94 @@ export class TestService {
     }
   }
 
+  /**
+   * Pause the running test
+   * @returns Promise<void>
+   */
+  async pauseTest(): Promise<void> {
+    try {
+      const response = await this._testClient.pause.$post();
+
+      if (!response.ok) {
+        throw new Error(`Failed to pause test: ${response.statusText}`);
+      }
+    } catch (error) {
+      this._logService.error('Failed to pause test:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume the paused test
+   * @returns Promise<void>
+   */
+  async resumeTest(): Promise<void> {
+    try {
+      const response = await this._testClient.resume.$post();
+
+      if (!response.ok) {
+        throw new Error(`Failed to resume test: ${response.statusText}`);
+      }
+    } catch (error) {
+      this._logService.error('Failed to resume test:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the rate of the running test
+   * @param change The rate multiplier and fixed RPS by request key or scenario name
+   * @returns Promise<void>
+   */
+  async setTestRate(change: TestRateChange): Promise<void> {
+    try {
+      const response = await this._testClient.rate.$patch({ json: change });
+
+      if (!response.ok) {
+        throw new Error(`Failed to change test rate: ${response.statusText}`);
+      }
+    } catch (error) {
+      this._logService.error('Failed to change test rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a single endpoint of the running test until it is started again
+   * @param endpointKey The key of the request or scenario step
+   * @returns Promise<void>
+   */
+  async stopEndpoint(endpointKey: string): Promise<void> {
+    try {
+      const response = await this._testClient.endpoints.stop.$post({ json: { endpointKey } });
+
+      if (!response.ok) {
+        throw new Error(`Failed to stop endpoint: ${response.statusText}`);
+      }
+    } catch (error) {
+      this._logService.error('Failed to stop endpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start an endpoint of the running test that was stopped by hand
+   * @param endpointKey The key of the request or scenario step
+   * @returns Promise<void>
+   */
+  async startEndpoint(endpointKey: string): Promise<void> {
+    try {
+      const response = await this._testClient.endpoints.start.$post({ json: { endpointKey } });
+
+      if (!response.ok) {
+        throw new Error(`Failed to start endpoint: ${response.statusText}`);
+      }
+    } catch (error) {
+      this._logService.error('Failed to start endpoint:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get both global and endpoint metrics for a test
    * @param id The test ID to retrieve metrics for